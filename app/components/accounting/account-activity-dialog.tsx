@@ -0,0 +1,82 @@
+import { Dialog } from "@base-ui/react/dialog";
+import type { ActivityRow } from "~/lib/accounting/view";
+import type { DateRange } from "~/lib/double-entry/types";
+import { useI18n } from "~/lib/i18n";
+import { cn } from "~/lib/utils";
+
+interface AccountActivityDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** 账户路径 */
+  title: string;
+  range: DateRange | null;
+  rows: ActivityRow[];
+}
+
+export function AccountActivityDialog({
+  open,
+  onOpenChange,
+  title,
+  range,
+  rows,
+}: AccountActivityDialogProps) {
+  const { t } = useI18n();
+
+  return (
+    <Dialog.Root open={open} onOpenChange={onOpenChange}>
+      <Dialog.Portal>
+        <Dialog.Backdrop className='fixed inset-0 bg-black/40 backdrop-blur-sm' />
+        <Dialog.Popup className='bg-popover fixed top-1/2 left-1/2 max-h-[85vh] w-[min(92vw,560px)] -translate-x-1/2 -translate-y-1/2 overflow-y-auto rounded-xs border p-4 text-xs shadow-lg'>
+          <Dialog.Title className='text-foreground text-sm font-medium'>
+            {t.reports.drillDown} · {title}
+          </Dialog.Title>
+          <Dialog.Description className='text-muted-foreground mt-1 text-xs'>
+            {range ? `${range.start} ~ ${range.end}, ` : null}
+            {t.reports.drillDownRange}
+          </Dialog.Description>
+
+          <div className='mt-4 rounded-xs border'>
+            {rows.length === 0 ? (
+              <p className='text-muted-foreground p-3 text-center'>
+                {t.reports.noActivity}
+              </p>
+            ) : (
+              rows.map((row) => (
+                <div
+                  key={row.id}
+                  className='flex items-center gap-3 border-t px-2 py-1.5 first:border-t-0'>
+                  <span className='text-muted-foreground shrink-0'>
+                    {row.date}
+                  </span>
+                  <div className='min-w-0 flex-1'>
+                    <p className='text-foreground truncate'>
+                      {row.description}
+                    </p>
+                    {row.payee ? (
+                      <p className='text-muted-foreground truncate text-[10px]'>
+                        {row.payee}
+                      </p>
+                    ) : null}
+                  </div>
+                  <span
+                    className={cn(
+                      "shrink-0 font-medium",
+                      row.amount < 0 ? "text-destructive" : "text-foreground",
+                    )}>
+                    {row.formattedAmount}
+                  </span>
+                </div>
+              ))
+            )}
+          </div>
+
+          <div className='flex items-center justify-end gap-2 pt-4'>
+            <Dialog.Close className='text-muted-foreground hover:bg-muted rounded-xs border px-2 py-1 text-xs'>
+              {t.reports.close}
+            </Dialog.Close>
+          </div>
+        </Dialog.Popup>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
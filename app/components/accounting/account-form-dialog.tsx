@@ -1,18 +1,29 @@
 import { Dialog } from "@base-ui/react/dialog";
 import { useEffect, useState, useCallback } from "react";
-import type { AccountData } from "~/lib/double-entry/types";
+import type {
+  AccountData,
+  CashFlowRole,
+  CostBasisMethod,
+} from "~/lib/double-entry/types";
+import { AccountType } from "~/lib/double-entry/types";
+import { COST_BASIS_METHODS } from "~/lib/double-entry/cost-basis";
 import { useI18n } from "~/lib/i18n";
 import { Button } from "~/components/ui/button";
-import { createAccountForBook } from "~/lib/firebase/repository";
+import type { AccountInput } from "~/lib/accounting/book-service";
+
+const CASH_FLOW_ROLES: CashFlowRole[] = [
+  "cash",
+  "operating",
+  "investing",
+  "financing",
+];
 
 interface AccountFormDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   parentOptions: AccountData[];
   defaultParentId: string | null;
-  userId?: string;
-  bookId?: string;
-  onCreated?: () => Promise<void> | void;
+  onSubmit: (input: AccountInput) => Promise<void>;
 }
 
 export function AccountFormDialog({
@@ -20,13 +31,17 @@ export function AccountFormDialog({
   onOpenChange,
   parentOptions,
   defaultParentId,
-  userId,
-  bookId,
-  onCreated,
+  onSubmit,
 }: AccountFormDialogProps) {
   const { t } = useI18n();
   const [name, setName] = useState("");
   const [parentId, setParentId] = useState<string | null>(null);
+  // 空字符串表示继承上级或按账户类型推断
+  const [cashFlow, setCashFlow] = useState<CashFlowRole | "">("");
+  // 持仓品种代码，仅资产账户可设置
+  const [commodity, setCommodity] = useState("");
+  const [costBasisMethod, setCostBasisMethod] =
+    useState<CostBasisMethod>("fifo");
   const [isSaving, setIsSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -34,23 +49,33 @@ export function AccountFormDialog({
     if (!open) return;
     setName("");
     setParentId(defaultParentId);
+    setCashFlow("");
+    setCommodity("");
+    setCostBasisMethod("fifo");
     setError(null);
   }, [open, defaultParentId]);
 
-  const handleNameChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    setName(e.target.value);
-  }, []);
+  const handleNameChange = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      setName(e.target.value);
+    },
+    [],
+  );
+
+  const handleParentChange = useCallback(
+    (e: React.ChangeEvent<HTMLSelectElement>) => {
+      setParentId(e.target.value);
+    },
+    [],
+  );
 
-  const handleParentChange = useCallback((e: React.ChangeEvent<HTMLSelectElement>) => {
-    setParentId(e.target.value);
-  }, []);
+  const isAssetParent =
+    parentOptions.find((account) => account.id === parentId)?.type ===
+    AccountType.ASSETS;
+  const isHolding = isAssetParent && commodity.trim() !== "";
 
   const handleSubmit = async (event: React.FormEvent) => {
     event.preventDefault();
-              if (!userId || !bookId) {
-                setError(t.sync.loginRequired);
-                return;
-              }
     if (!name.trim() || !parentId) {
       setError(t.common.required);
       return;
@@ -58,17 +83,16 @@ export function AccountFormDialog({
     setIsSaving(true);
     setError(null);
     try {
-                await createAccountForBook(userId, {
-                  bookId,
-                  name: name.trim(),
-                  parentId,
-                });
-      await onCreated?.();
+      await onSubmit({
+        name: name.trim(),
+        parentId,
+        cashFlow: cashFlow || undefined,
+        commodity: isHolding ? commodity.trim() : undefined,
+        costBasisMethod: isHolding ? costBasisMethod : undefined,
+      });
       onOpenChange(false);
     } catch (err) {
-      setError(
-        err instanceof Error ? err.message : t.sync.syncError,
-      );
+      setError(err instanceof Error ? err.message : t.sync.syncError);
     } finally {
       setIsSaving(false);
     }
@@ -86,9 +110,7 @@ export function AccountFormDialog({
             {t.assets.accountName}
           </Dialog.Description>
 
-          <form
-            className='mt-4 space-y-3'
-            onSubmit={handleSubmit}>
+          <form className='mt-4 space-y-3' onSubmit={handleSubmit}>
             <div className='space-y-2'>
               <label className='text-muted-foreground text-xs font-medium'>
                 {t.assets.accountName}
@@ -115,6 +137,59 @@ export function AccountFormDialog({
                 ))}
               </select>
             </div>
+            <div className='space-y-2'>
+              <label className='text-muted-foreground text-xs font-medium'>
+                {t.assets.cashFlow}
+              </label>
+              <select
+                value={cashFlow}
+                onChange={(e) =>
+                  setCashFlow(e.target.value as CashFlowRole | "")
+                }
+                className='border-input bg-background h-8 w-full rounded-xs border px-2 text-xs'>
+                <option value=''>{t.assets.cashFlowAuto}</option>
+                {CASH_FLOW_ROLES.map((role) => (
+                  <option key={role} value={role}>
+                    {t.reports[role]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {isAssetParent ? (
+              <div className='space-y-2'>
+                <label className='text-muted-foreground text-xs font-medium'>
+                  {t.holdings.commodity}
+                </label>
+                <input
+                  value={commodity}
+                  onChange={(e) => setCommodity(e.target.value)}
+                  className='border-input bg-background h-8 w-full rounded-xs border px-2 text-xs uppercase'
+                  placeholder='AAPL'
+                />
+                <p className='text-muted-foreground text-[10px]'>
+                  {t.holdings.commodityHint}
+                </p>
+              </div>
+            ) : null}
+            {isHolding ? (
+              <div className='space-y-2'>
+                <label className='text-muted-foreground text-xs font-medium'>
+                  {t.holdings.costBasisMethod}
+                </label>
+                <select
+                  value={costBasisMethod}
+                  onChange={(e) =>
+                    setCostBasisMethod(e.target.value as CostBasisMethod)
+                  }
+                  className='border-input bg-background h-8 w-full rounded-xs border px-2 text-xs'>
+                  {COST_BASIS_METHODS.map((method) => (
+                    <option key={method} value={method}>
+                      {t.holdings.methods[method]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ) : null}
             {error ? <p className='text-destructive text-xs'>{error}</p> : null}
             <div className='flex items-center justify-end gap-2 pt-2'>
               <Dialog.Close className='text-muted-foreground hover:bg-muted rounded-xs border px-2 py-1 text-xs'>
@@ -0,0 +1,154 @@
+import { Dialog } from "@base-ui/react/dialog";
+import { useEffect, useState } from "react";
+import type {
+  BalanceRebuildResult,
+  CurrencyCode,
+} from "~/lib/double-entry/types";
+import { createMoney, formatMoney } from "~/lib/double-entry/money";
+import { useI18n } from "~/lib/i18n";
+import { Button } from "~/components/ui/button";
+
+interface BalanceCheckDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCheck: () => Promise<BalanceRebuildResult>;
+  onRepair: () => Promise<BalanceRebuildResult>;
+}
+
+export function BalanceCheckDialog({
+  open,
+  onOpenChange,
+  onCheck,
+  onRepair,
+}: BalanceCheckDialogProps) {
+  const { t } = useI18n();
+  const [result, setResult] = useState<BalanceRebuildResult | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [isRepaired, setIsRepaired] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    let active = true;
+    setResult(null);
+    setIsRepaired(false);
+    setError(null);
+    setIsBusy(true);
+    onCheck()
+      .then((next) => {
+        if (active) setResult(next);
+      })
+      .catch((error) => {
+        if (active) {
+          setError(error instanceof Error ? error.message : t.common.error);
+        }
+      })
+      .finally(() => {
+        if (active) setIsBusy(false);
+      });
+    return () => {
+      active = false;
+    };
+  }, [open]);
+
+  const handleRepair = async () => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await onRepair();
+      setIsRepaired(true);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : t.common.error);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const format = (amount: number, currency: CurrencyCode) =>
+    formatMoney(createMoney(amount, currency));
+
+  return (
+    <Dialog.Root open={open} onOpenChange={onOpenChange}>
+      <Dialog.Portal>
+        <Dialog.Backdrop className='fixed inset-0 bg-black/40 backdrop-blur-sm' />
+        <Dialog.Popup className='bg-popover fixed top-1/2 left-1/2 max-h-[85vh] w-[min(92vw,600px)] -translate-x-1/2 -translate-y-1/2 overflow-y-auto rounded-xs border p-4 text-xs shadow-lg'>
+          <Dialog.Title className='text-foreground text-sm font-medium'>
+            {t.rebuild.title}
+          </Dialog.Title>
+          <Dialog.Description className='text-muted-foreground mt-1 text-xs'>
+            {t.rebuild.description}
+          </Dialog.Description>
+
+          <div className='mt-4 space-y-3'>
+            {isBusy && !result ? (
+              <p className='text-muted-foreground'>{t.rebuild.checking}</p>
+            ) : null}
+            {result ? (
+              <div className='text-muted-foreground flex flex-wrap gap-3'>
+                <span>
+                  {t.rebuild.replayed}: {result.replayedCount}
+                </span>
+                {result.skippedEntries.length > 0 ? (
+                  <span className='text-destructive'>
+                    {t.rebuild.skipped}: {result.skippedEntries.length}
+                  </span>
+                ) : null}
+              </div>
+            ) : null}
+            {result?.skippedEntries.length ? (
+              <ul className='text-destructive list-inside list-disc space-y-0.5 text-[10px]'>
+                {result.skippedEntries.map((skipped) => (
+                  <li key={skipped.entryId}>{skipped.reason}</li>
+                ))}
+              </ul>
+            ) : null}
+            {result && result.drifts.length === 0 ? (
+              <p className='text-emerald-600'>{t.rebuild.consistent}</p>
+            ) : null}
+            {result && result.drifts.length > 0 ? (
+              <div className='overflow-hidden rounded-xs border'>
+                <div className='bg-muted/50 text-muted-foreground grid grid-cols-[1fr_90px_90px_90px] gap-2 px-2 py-1 text-[10px] uppercase'>
+                  <span>{t.rebuild.account}</span>
+                  <span className='text-right'>{t.rebuild.cached}</span>
+                  <span className='text-right'>{t.rebuild.rebuilt}</span>
+                  <span className='text-right'>{t.rebuild.drift}</span>
+                </div>
+                {result.drifts.map((drift) => (
+                  <div
+                    key={drift.accountId}
+                    className='grid grid-cols-[1fr_90px_90px_90px] gap-2 border-t px-2 py-1.5'>
+                    <span className='truncate'>{drift.path}</span>
+                    <span className='text-right'>
+                      {format(drift.cached, drift.currency)}
+                    </span>
+                    <span className='text-right'>
+                      {format(drift.rebuilt, drift.currency)}
+                    </span>
+                    <span className='text-destructive text-right font-medium'>
+                      {format(drift.drift, drift.currency)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            ) : null}
+            {isRepaired ? (
+              <p className='text-emerald-600'>{t.rebuild.repaired}</p>
+            ) : null}
+            {error ? <p className='text-destructive'>{error}</p> : null}
+          </div>
+
+          <div className='flex items-center justify-end gap-2 pt-4'>
+            <Dialog.Close className='text-muted-foreground hover:bg-muted rounded-xs border px-2 py-1 text-xs'>
+              {t.common.cancel}
+            </Dialog.Close>
+            {result && result.drifts.length > 0 && !isRepaired ? (
+              <Button disabled={isBusy} onClick={handleRepair}>
+                {t.rebuild.repair}
+              </Button>
+            ) : null}
+          </div>
+        </Dialog.Popup>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
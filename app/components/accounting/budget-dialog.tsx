@@ -0,0 +1,325 @@
+import { Dialog } from "@base-ui/react/dialog";
+import { useEffect, useState } from "react";
+import type {
+  AccountData,
+  Budget,
+  BudgetPeriod,
+  CurrencyCode,
+} from "~/lib/double-entry/types";
+import { AccountType } from "~/lib/double-entry/types";
+import {
+  createMoney,
+  formatMoney,
+  fromMainUnit,
+  toMainUnit,
+} from "~/lib/double-entry/money";
+import { createBudget } from "~/lib/double-entry/budget";
+import { useI18n } from "~/lib/i18n";
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+
+interface BudgetDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  budgets: Budget[];
+  accounts: AccountData[];
+  baseCurrency: CurrencyCode;
+  onSave: (budgets: Budget[]) => Promise<void>;
+}
+
+const PERIODS: BudgetPeriod[] = ["month", "quarter", "year"];
+
+const inputClassName =
+  "border-input bg-background h-8 w-full rounded-xs border px-2 text-xs";
+
+function createInitialForm() {
+  const today = new Date().toISOString().split("T")[0];
+  return {
+    name: "",
+    period: "month" as BudgetPeriod,
+    amount: "",
+    accountIds: [] as string[],
+    tags: "",
+    rollover: false,
+    startDate: `${today.slice(0, 7)}-01`,
+  };
+}
+
+type BudgetForm = ReturnType<typeof createInitialForm>;
+
+function formFromBudget(budget: Budget, currency: CurrencyCode): BudgetForm {
+  return {
+    name: budget.name,
+    period: budget.period,
+    amount: String(toMainUnit(createMoney(budget.amount, currency))),
+    accountIds: budget.accountIds ?? [],
+    tags: (budget.tags ?? []).join(", "),
+    rollover: !!budget.rollover,
+    startDate: budget.startDate,
+  };
+}
+
+export function BudgetDialog({
+  open,
+  onOpenChange,
+  budgets,
+  accounts,
+  baseCurrency,
+  onSave,
+}: BudgetDialogProps) {
+  const { t } = useI18n();
+  const [form, setForm] = useState(createInitialForm);
+  // 正在编辑的预算 ID，null 为新建
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setForm(createInitialForm());
+    setEditingId(null);
+    setError(null);
+  }, [open]);
+
+  const expenseAccounts = accounts.filter(
+    (account) => account.type === AccountType.EXPENSES && !account.archived,
+  );
+  const periodLabels: Record<BudgetPeriod, string> = {
+    month: t.budgets.month,
+    quarter: t.budgets.quarter,
+    year: t.budgets.year,
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : t.common.error);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setForm(createInitialForm());
+  };
+
+  const toggleAccount = (accountId: string) => {
+    setForm((prev) => ({
+      ...prev,
+      accountIds: prev.accountIds.includes(accountId)
+        ? prev.accountIds.filter((id) => id !== accountId)
+        : [...prev.accountIds, accountId],
+    }));
+  };
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!form.name.trim()) {
+      setError(t.budgets.nameRequired);
+      return;
+    }
+    const amount = Number(form.amount);
+    if (!Number.isFinite(amount) || amount <= 0) {
+      setError(t.records.invalidAmount);
+      return;
+    }
+    const tags = form.tags
+      .split(",")
+      .map((tag) => tag.trim())
+      .filter(Boolean);
+    const params = {
+      name: form.name.trim(),
+      period: form.period,
+      amount: fromMainUnit(amount, baseCurrency).amount,
+      accountIds: form.accountIds.length ? form.accountIds : undefined,
+      tags: tags.length ? tags : undefined,
+      rollover: form.rollover || undefined,
+      startDate: form.startDate,
+    };
+    const next = editingId
+      ? budgets.map((budget) =>
+          budget.id === editingId ? { ...params, id: budget.id } : budget,
+        )
+      : [...budgets, createBudget(params)];
+    void run(async () => {
+      await onSave(next);
+      resetForm();
+    });
+  };
+
+  const handleDelete = (budget: Budget) => {
+    void run(async () => {
+      await onSave(budgets.filter((b) => b.id !== budget.id));
+      if (editingId === budget.id) resetForm();
+    });
+  };
+
+  return (
+    <Dialog.Root open={open} onOpenChange={onOpenChange}>
+      <Dialog.Portal>
+        <Dialog.Backdrop className='fixed inset-0 bg-black/40 backdrop-blur-sm' />
+        <Dialog.Popup className='bg-popover fixed top-1/2 left-1/2 max-h-[85vh] w-[min(92vw,640px)] -translate-x-1/2 -translate-y-1/2 overflow-y-auto rounded-xs border p-4 text-xs shadow-lg'>
+          <Dialog.Title className='text-foreground text-sm font-medium'>
+            {t.budgets.title}
+          </Dialog.Title>
+          <Dialog.Description className='text-muted-foreground mt-1 text-xs'>
+            {t.budgets.description}
+          </Dialog.Description>
+
+          <div className='mt-4 space-y-4'>
+            {budgets.length === 0 ? (
+              <p className='text-muted-foreground'>{t.budgets.empty}</p>
+            ) : (
+              <div className='rounded-xs border'>
+                {budgets.map((budget) => (
+                  <div
+                    key={budget.id}
+                    className='flex items-center gap-2 border-t px-2 py-1.5 first:border-t-0'>
+                    <span className='min-w-0 flex-1 truncate font-medium'>
+                      {budget.name}
+                    </span>
+                    <Badge variant='outline' className='text-[10px]'>
+                      {periodLabels[budget.period]}
+                    </Badge>
+                    <span>
+                      {formatMoney(createMoney(budget.amount, baseCurrency))}
+                    </span>
+                    <Button
+                      variant='ghost'
+                      size='xs'
+                      disabled={isBusy}
+                      onClick={() => {
+                        setEditingId(budget.id);
+                        setForm(formFromBudget(budget, baseCurrency));
+                      }}>
+                      {t.common.edit}
+                    </Button>
+                    <Button
+                      variant='ghost'
+                      size='xs'
+                      disabled={isBusy}
+                      onClick={() => handleDelete(budget)}>
+                      {t.common.delete}
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <form onSubmit={handleSubmit} className='space-y-3'>
+              <p className='text-muted-foreground font-medium'>
+                {editingId ? t.budgets.editBudget : t.budgets.newBudget}
+              </p>
+              <div className='grid gap-3 md:grid-cols-2'>
+                <input
+                  value={form.name}
+                  onChange={(e) =>
+                    setForm((prev) => ({ ...prev, name: e.target.value }))
+                  }
+                  className={inputClassName}
+                  placeholder={t.budgets.name}
+                />
+                <input
+                  type='number'
+                  step='0.01'
+                  min='0'
+                  value={form.amount}
+                  onChange={(e) =>
+                    setForm((prev) => ({ ...prev, amount: e.target.value }))
+                  }
+                  className={inputClassName}
+                  placeholder={`${t.records.amount} (${baseCurrency})`}
+                />
+                <select
+                  value={form.period}
+                  onChange={(e) =>
+                    setForm((prev) => ({
+                      ...prev,
+                      period: e.target.value as BudgetPeriod,
+                    }))
+                  }
+                  className={inputClassName}>
+                  {PERIODS.map((period) => (
+                    <option key={period} value={period}>
+                      {periodLabels[period]}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type='date'
+                  value={form.startDate}
+                  onChange={(e) =>
+                    setForm((prev) => ({ ...prev, startDate: e.target.value }))
+                  }
+                  className={inputClassName}
+                  title={t.budgets.startDate}
+                />
+                <input
+                  value={form.tags}
+                  onChange={(e) =>
+                    setForm((prev) => ({ ...prev, tags: e.target.value }))
+                  }
+                  className={inputClassName}
+                  placeholder={`${t.records.tags}: tag1, tag2`}
+                />
+                <label className='flex items-center gap-2'>
+                  <input
+                    type='checkbox'
+                    checked={form.rollover}
+                    onChange={(e) =>
+                      setForm((prev) => ({
+                        ...prev,
+                        rollover: e.target.checked,
+                      }))
+                    }
+                  />
+                  {t.budgets.rollover}
+                </label>
+              </div>
+              <div className='space-y-1'>
+                <p className='text-muted-foreground'>{t.budgets.accounts}</p>
+                <div className='grid max-h-32 gap-1 overflow-y-auto rounded-xs border p-2 md:grid-cols-2'>
+                  {expenseAccounts.map((account) => (
+                    <label key={account.id} className='flex items-center gap-2'>
+                      <input
+                        type='checkbox'
+                        checked={form.accountIds.includes(account.id)}
+                        onChange={() => toggleAccount(account.id)}
+                      />
+                      <span className='truncate'>{account.path}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <div className='flex items-center justify-end gap-2'>
+                {editingId ? (
+                  <Button
+                    type='button'
+                    variant='ghost'
+                    size='xs'
+                    onClick={resetForm}>
+                    {t.common.cancel}
+                  </Button>
+                ) : null}
+                <Button type='submit' size='xs' disabled={isBusy}>
+                  {editingId ? t.common.save : t.common.add}
+                </Button>
+              </div>
+            </form>
+            {error ? <p className='text-destructive'>{error}</p> : null}
+          </div>
+
+          <div className='flex items-center justify-end gap-2 pt-4'>
+            <Dialog.Close className='text-muted-foreground hover:bg-muted rounded-xs border px-2 py-1 text-xs'>
+              {t.budgets.close}
+            </Dialog.Close>
+          </div>
+        </Dialog.Popup>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
@@ -0,0 +1,170 @@
+import { Dialog } from "@base-ui/react/dialog";
+import { useEffect, useState } from "react";
+import type { PeriodClosing } from "~/lib/double-entry/types";
+import { getBudgetPeriodRange } from "~/lib/double-entry/budget";
+import { useI18n } from "~/lib/i18n";
+import { Button } from "~/components/ui/button";
+import { ConfirmPopover } from "~/components/confirm-popover";
+
+interface ClosingDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  closings: PeriodClosing[];
+  onClose: (date: string, description: string) => Promise<void>;
+  onReopen: () => Promise<void>;
+}
+
+const inputClassName =
+  "border-input bg-background h-8 rounded-xs border px-2 text-xs";
+
+// 上个月末、去年末
+function getClosingPresets() {
+  const today = new Date().toISOString().split("T")[0];
+  const thisMonth = getBudgetPeriodRange(today, "month");
+  const thisYear = getBudgetPeriodRange(today, "year");
+  const previousDay = (date: string) => {
+    const next = new Date(`${date}T00:00:00Z`);
+    next.setUTCDate(next.getUTCDate() - 1);
+    return next.toISOString().split("T")[0];
+  };
+  return {
+    monthEnd: previousDay(thisMonth.start),
+    yearEnd: previousDay(thisYear.start),
+  };
+}
+
+export function ClosingDialog({
+  open,
+  onOpenChange,
+  closings,
+  onClose,
+  onReopen,
+}: ClosingDialogProps) {
+  const { t } = useI18n();
+  const presets = getClosingPresets();
+  const [date, setDate] = useState(presets.monthEnd);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setDate(getClosingPresets().monthEnd);
+    setError(null);
+  }, [open]);
+
+  const lastClosing = closings[closings.length - 1];
+
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : t.common.error);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleClose = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!date) return;
+    if (lastClosing && date <= lastClosing.date) {
+      setError(t.closing.dateTooEarly);
+      return;
+    }
+    void run(() => onClose(date, `${t.closing.entryDescription} ${date}`));
+  };
+
+  return (
+    <Dialog.Root open={open} onOpenChange={onOpenChange}>
+      <Dialog.Portal>
+        <Dialog.Backdrop className='fixed inset-0 bg-black/40 backdrop-blur-sm' />
+        <Dialog.Popup className='bg-popover fixed top-1/2 left-1/2 max-h-[85vh] w-[min(92vw,520px)] -translate-x-1/2 -translate-y-1/2 overflow-y-auto rounded-xs border p-4 text-xs shadow-lg'>
+          <Dialog.Title className='text-foreground text-sm font-medium'>
+            {t.closing.title}
+          </Dialog.Title>
+          <Dialog.Description className='text-muted-foreground mt-1 text-xs'>
+            {t.closing.description}
+          </Dialog.Description>
+
+          <div className='mt-4 space-y-4'>
+            <p>
+              <span className='text-muted-foreground'>
+                {t.closing.lockDate}:{" "}
+              </span>
+              <span className='font-medium'>
+                {lastClosing ? lastClosing.date : t.closing.notClosed}
+              </span>
+            </p>
+
+            {closings.length > 0 ? (
+              <div className='rounded-xs border'>
+                {[...closings].reverse().map((closing, index) => (
+                  <div
+                    key={closing.date}
+                    className='flex items-center gap-2 border-t px-2 py-1.5 first:border-t-0'>
+                    <span className='font-medium'>{closing.date}</span>
+                    <span className='text-muted-foreground min-w-0 flex-1 truncate'>
+                      {t.closing.closedAt}{" "}
+                      {closing.closedAt.slice(0, 16).replace("T", " ")}
+                    </span>
+                    {index === 0 ? (
+                      <ConfirmPopover
+                        title={t.closing.reopenConfirm}
+                        confirmText={t.closing.reopen}
+                        onConfirm={() => void run(onReopen)}>
+                        <Button variant='ghost' size='xs' disabled={isBusy}>
+                          {t.closing.reopen}
+                        </Button>
+                      </ConfirmPopover>
+                    ) : null}
+                  </div>
+                ))}
+              </div>
+            ) : null}
+
+            <form onSubmit={handleClose} className='space-y-2'>
+              <p className='text-muted-foreground font-medium'>
+                {t.closing.closeThrough}
+              </p>
+              <div className='flex flex-wrap items-center gap-2'>
+                <input
+                  type='date'
+                  value={date}
+                  onChange={(e) => setDate(e.target.value)}
+                  className={inputClassName}
+                />
+                <Button
+                  type='button'
+                  variant='ghost'
+                  size='xs'
+                  onClick={() => setDate(presets.monthEnd)}>
+                  {t.closing.monthEnd}
+                </Button>
+                <Button
+                  type='button'
+                  variant='ghost'
+                  size='xs'
+                  onClick={() => setDate(presets.yearEnd)}>
+                  {t.closing.yearEnd}
+                </Button>
+                <Button type='submit' size='xs' disabled={isBusy || !date}>
+                  {t.closing.closePeriod}
+                </Button>
+              </div>
+              <p className='text-muted-foreground'>{t.closing.closeHint}</p>
+            </form>
+            {error ? <p className='text-destructive'>{error}</p> : null}
+          </div>
+
+          <div className='flex items-center justify-end gap-2 pt-4'>
+            <Dialog.Close className='text-muted-foreground hover:bg-muted rounded-xs border px-2 py-1 text-xs'>
+              {t.closing.close}
+            </Dialog.Close>
+          </div>
+        </Dialog.Popup>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
@@ -0,0 +1,217 @@
+import { Dialog } from "@base-ui/react/dialog";
+import { useEffect, useState } from "react";
+import type { BookData, CorporateAction } from "~/lib/double-entry/types";
+import {
+  createSplitAction,
+  createSymbolChangeAction,
+  getCorporateActions,
+} from "~/lib/double-entry/corporate-actions";
+import { useI18n } from "~/lib/i18n";
+import { Button } from "~/components/ui/button";
+
+interface CorporateActionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  book: BookData;
+  holdingAccountId: string | null;
+  onSubmit: (action: CorporateAction) => Promise<void>;
+}
+
+const inputClassName =
+  "border-input bg-background h-8 w-full rounded-xs border px-2 text-xs";
+
+function createInitialForm() {
+  return {
+    kind: "split" as CorporateAction["kind"],
+    date: new Date().toISOString().split("T")[0],
+    // 拆股比例 newShares : oldShares
+    newShares: "",
+    oldShares: "1",
+    toSymbol: "",
+    note: "",
+  };
+}
+
+/**
+ * 公司行动：拆股（合股）、代码变更，列出该持仓已有的记录
+ */
+export function CorporateActionDialog({
+  open,
+  onOpenChange,
+  book,
+  holdingAccountId,
+  onSubmit,
+}: CorporateActionDialogProps) {
+  const { t } = useI18n();
+  const [form, setForm] = useState(createInitialForm);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const holding = book.accounts.find((a) => a.id === holdingAccountId);
+  const actions = holding ? getCorporateActions(book, holding.id) : [];
+
+  useEffect(() => {
+    if (!open) return;
+    setForm(createInitialForm());
+    setError(null);
+  }, [open]);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!holding?.commodity) return;
+
+    let action: CorporateAction;
+    try {
+      action =
+        form.kind === "split"
+          ? createSplitAction({
+              accountId: holding.id,
+              date: form.date,
+              ratio: Number(form.newShares) / Number(form.oldShares),
+              note: form.note.trim() || undefined,
+            })
+          : createSymbolChangeAction({
+              accountId: holding.id,
+              date: form.date,
+              fromSymbol: holding.commodity,
+              toSymbol: form.toSymbol,
+              note: form.note.trim() || undefined,
+            });
+    } catch {
+      setError(
+        form.kind === "split"
+          ? t.dividends.invalidRatio
+          : t.dividends.invalidSymbol,
+      );
+      return;
+    }
+
+    setIsBusy(true);
+    setError(null);
+    try {
+      await onSubmit(action);
+      onOpenChange(false);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : t.common.error);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const describe = (action: CorporateAction) =>
+    action.kind === "split"
+      ? `${t.dividends.split} × ${action.ratio}`
+      : `${action.fromSymbol} → ${action.toSymbol}`;
+
+  return (
+    <Dialog.Root open={open} onOpenChange={onOpenChange}>
+      <Dialog.Portal>
+        <Dialog.Backdrop className='fixed inset-0 bg-black/40 backdrop-blur-sm' />
+        <Dialog.Popup className='bg-popover fixed top-1/2 left-1/2 max-h-[85vh] w-[min(92vw,420px)] -translate-x-1/2 -translate-y-1/2 overflow-y-auto rounded-xs border p-4 text-xs shadow-lg'>
+          <Dialog.Title className='text-foreground text-sm font-medium'>
+            {t.dividends.corporateActions} {holding?.commodity}
+          </Dialog.Title>
+          <Dialog.Description className='text-muted-foreground mt-1 text-xs'>
+            {t.dividends.corporateActionsHint}
+          </Dialog.Description>
+
+          {actions.length > 0 ? (
+            <ul className='mt-3 space-y-1'>
+              {actions.map((action) => (
+                <li key={action.id} className='flex justify-between gap-2'>
+                  <span>{describe(action)}</span>
+                  <span className='text-muted-foreground'>{action.date}</span>
+                </li>
+              ))}
+            </ul>
+          ) : null}
+
+          <form onSubmit={handleSubmit} className='mt-4 space-y-3'>
+            <div className='flex gap-2'>
+              {(["split", "symbolChange"] as const).map((value) => (
+                <Button
+                  key={value}
+                  type='button'
+                  size='xs'
+                  variant={form.kind === value ? "default" : "outline"}
+                  onClick={() => setForm((prev) => ({ ...prev, kind: value }))}>
+                  {value === "split"
+                    ? t.dividends.split
+                    : t.dividends.symbolChange}
+                </Button>
+              ))}
+            </div>
+            <div className='grid gap-2 md:grid-cols-2'>
+              <input
+                type='date'
+                value={form.date}
+                onChange={(e) =>
+                  setForm((prev) => ({ ...prev, date: e.target.value }))
+                }
+                className={inputClassName}
+              />
+              {form.kind === "split" ? (
+                <div className='flex items-center gap-1'>
+                  <input
+                    type='number'
+                    inputMode='decimal'
+                    value={form.newShares}
+                    onChange={(e) =>
+                      setForm((prev) => ({
+                        ...prev,
+                        newShares: e.target.value,
+                      }))
+                    }
+                    className={inputClassName}
+                    placeholder={t.dividends.newShares}
+                  />
+                  <span>:</span>
+                  <input
+                    type='number'
+                    inputMode='decimal'
+                    value={form.oldShares}
+                    onChange={(e) =>
+                      setForm((prev) => ({
+                        ...prev,
+                        oldShares: e.target.value,
+                      }))
+                    }
+                    className={inputClassName}
+                    placeholder={t.dividends.oldShares}
+                  />
+                </div>
+              ) : (
+                <input
+                  value={form.toSymbol}
+                  onChange={(e) =>
+                    setForm((prev) => ({ ...prev, toSymbol: e.target.value }))
+                  }
+                  className={inputClassName}
+                  placeholder={t.dividends.newSymbol}
+                />
+              )}
+              <input
+                value={form.note}
+                onChange={(e) =>
+                  setForm((prev) => ({ ...prev, note: e.target.value }))
+                }
+                className={`${inputClassName} md:col-span-2`}
+                placeholder={t.dividends.note}
+              />
+            </div>
+
+            {error ? <p className='text-destructive'>{error}</p> : null}
+            <div className='flex items-center justify-end gap-2 pt-2'>
+              <Dialog.Close className='text-muted-foreground hover:bg-muted rounded-xs border px-2 py-1 text-xs'>
+                {t.common.cancel}
+              </Dialog.Close>
+              <Button type='submit' size='xs' disabled={isBusy || !holding}>
+                {t.common.save}
+              </Button>
+            </div>
+          </form>
+        </Dialog.Popup>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
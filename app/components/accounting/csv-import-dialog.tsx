@@ -0,0 +1,407 @@
+import { Dialog } from "@base-ui/react/dialog";
+import { useEffect, useMemo, useState } from "react";
+import type {
+  AccountData,
+  BookData,
+  JournalEntryData,
+} from "~/lib/double-entry/types";
+import {
+  buildImportPreview,
+  createStatement,
+  detectCsvStatement,
+  parseCsv,
+  parseStatementRows,
+  type CsvField,
+  type CsvFormat,
+  type CsvStatement,
+  type ImportItemStatus,
+} from "~/lib/accounting/csv-import";
+import { useI18n } from "~/lib/i18n";
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+import { cn } from "~/lib/utils";
+
+interface CsvImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  book: BookData;
+  accountOptions: AccountData[];
+  defaultAccountId: string;
+  defaultCounterAccountId: string;
+  onImport: (entries: JournalEntryData[]) => Promise<void>;
+}
+
+type CsvEncoding = "utf-8" | "gbk";
+
+const FORMATS: CsvFormat[] = ["alipay", "wechat", "cmb", "generic"];
+const FIELDS: CsvField[] = [
+  "date",
+  "amount",
+  "direction",
+  "income",
+  "expense",
+  "payee",
+  "description",
+];
+
+const selectClassName =
+  "border-input bg-background h-8 w-full rounded-xs border px-2 text-xs";
+
+export function CsvImportDialog({
+  open,
+  onOpenChange,
+  book,
+  accountOptions,
+  defaultAccountId,
+  defaultCounterAccountId,
+  onImport,
+}: CsvImportDialogProps) {
+  const { t } = useI18n();
+  const [file, setFile] = useState<File | null>(null);
+  const [encoding, setEncoding] = useState<CsvEncoding>("utf-8");
+  const [rawRows, setRawRows] = useState<string[][]>([]);
+  const [statement, setStatement] = useState<CsvStatement | null>(null);
+  const [accountId, setAccountId] = useState(defaultAccountId);
+  const [counterAccountId, setCounterAccountId] = useState(
+    defaultCounterAccountId,
+  );
+  // 与默认勾选状态（仅新分录）相反的行号
+  const [toggled, setToggled] = useState<Set<number>>(new Set());
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setFile(null);
+    setRawRows([]);
+    setStatement(null);
+    setAccountId(defaultAccountId);
+    setCounterAccountId(defaultCounterAccountId);
+    setToggled(new Set());
+    setError(null);
+  }, [open, defaultAccountId, defaultCounterAccountId]);
+
+  useEffect(() => {
+    if (!file) return;
+    let active = true;
+    file
+      .arrayBuffer()
+      .then((buffer) => {
+        if (!active) return;
+        const rows = parseCsv(new TextDecoder(encoding).decode(buffer));
+        setRawRows(rows);
+        setStatement(detectCsvStatement(rows));
+        setToggled(new Set());
+      })
+      .catch((error) => {
+        if (active) {
+          setError(error instanceof Error ? error.message : t.common.error);
+        }
+      });
+    return () => {
+      active = false;
+    };
+  }, [file, encoding]);
+
+  const preview = useMemo(() => {
+    if (!statement) return [];
+    return buildImportPreview(book, parseStatementRows(statement), {
+      accountId,
+      counterAccountId,
+      rules: book.rules,
+    });
+  }, [book, statement, accountId, counterAccountId]);
+
+  const isSelected = (lineNumber: number, status: ImportItemStatus) => {
+    if (status !== "new" && status !== "duplicate") return false;
+    return (status === "new") !== toggled.has(lineNumber);
+  };
+  const selectedEntries = preview
+    .filter(
+      (item) => item.entry && isSelected(item.row.lineNumber, item.status),
+    )
+    .map((item) => item.entry!);
+  const counts = preview.reduce(
+    (acc, item) => ({ ...acc, [item.status]: acc[item.status] + 1 }),
+    { new: 0, duplicate: 0, invalid: 0, skipped: 0 } as Record<
+      ImportItemStatus,
+      number
+    >,
+  );
+
+  const toggleRow = (lineNumber: number) => {
+    setToggled((prev) => {
+      const next = new Set(prev);
+      if (next.has(lineNumber)) next.delete(lineNumber);
+      else next.add(lineNumber);
+      return next;
+    });
+  };
+
+  const handleFormatChange = (format: CsvFormat) => {
+    if (!statement) return;
+    setStatement(createStatement(rawRows, format, statement.headerIndex));
+    setToggled(new Set());
+  };
+
+  const handleMappingChange = (field: CsvField, value: string) => {
+    if (!statement) return;
+    const mapping = { ...statement.mapping };
+    if (value === "") delete mapping[field];
+    else mapping[field] = Number(value);
+    setStatement({ ...statement, mapping });
+    setToggled(new Set());
+  };
+
+  const handleImport = async () => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await onImport(selectedEntries);
+      onOpenChange(false);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : t.common.error);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const statusLabels: Record<ImportItemStatus, string> = {
+    new: t.csvImport.statusNew,
+    duplicate: t.csvImport.statusDuplicate,
+    invalid: t.csvImport.statusInvalid,
+    skipped: t.csvImport.statusSkipped,
+  };
+  const formatLabels: Record<CsvFormat, string> = {
+    alipay: t.csvImport.formatAlipay,
+    wechat: t.csvImport.formatWechat,
+    cmb: t.csvImport.formatCmb,
+    generic: t.csvImport.formatGeneric,
+  };
+  const fieldLabels: Record<CsvField, string> = {
+    date: t.csvImport.fieldDate,
+    amount: t.csvImport.fieldAmount,
+    direction: t.csvImport.fieldDirection,
+    income: t.csvImport.fieldIncome,
+    expense: t.csvImport.fieldExpense,
+    payee: t.csvImport.fieldPayee,
+    description: t.csvImport.fieldDescription,
+  };
+
+  return (
+    <Dialog.Root open={open} onOpenChange={onOpenChange}>
+      <Dialog.Portal>
+        <Dialog.Backdrop className='fixed inset-0 bg-black/40 backdrop-blur-sm' />
+        <Dialog.Popup className='bg-popover fixed top-1/2 left-1/2 max-h-[85vh] w-[min(92vw,760px)] -translate-x-1/2 -translate-y-1/2 overflow-y-auto rounded-xs border p-4 text-xs shadow-lg'>
+          <Dialog.Title className='text-foreground text-sm font-medium'>
+            {t.csvImport.title}
+          </Dialog.Title>
+          <Dialog.Description className='text-muted-foreground mt-1 text-xs'>
+            {t.csvImport.description}
+          </Dialog.Description>
+
+          <div className='mt-4 space-y-4'>
+            <div className='grid gap-3 md:grid-cols-3'>
+              <div className='space-y-2 md:col-span-2'>
+                <label className='text-muted-foreground text-xs font-medium'>
+                  {t.csvImport.file}
+                </label>
+                <input
+                  type='file'
+                  accept='.csv,text/csv'
+                  onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                  className='border-input bg-background h-8 w-full rounded-xs border px-2 py-1 text-xs'
+                />
+              </div>
+              <div className='space-y-2'>
+                <label className='text-muted-foreground text-xs font-medium'>
+                  {t.csvImport.encoding}
+                </label>
+                <select
+                  value={encoding}
+                  onChange={(e) => setEncoding(e.target.value as CsvEncoding)}
+                  className={selectClassName}>
+                  <option value='utf-8'>UTF-8</option>
+                  <option value='gbk'>GBK</option>
+                </select>
+              </div>
+            </div>
+
+            {statement ? (
+              <>
+                <div className='grid gap-3 md:grid-cols-3'>
+                  <div className='space-y-2'>
+                    <label className='text-muted-foreground text-xs font-medium'>
+                      {t.csvImport.format}
+                    </label>
+                    <select
+                      value={statement.format}
+                      onChange={(e) =>
+                        handleFormatChange(e.target.value as CsvFormat)
+                      }
+                      className={selectClassName}>
+                      {FORMATS.map((format) => (
+                        <option key={format} value={format}>
+                          {formatLabels[format]}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className='space-y-2'>
+                    <label className='text-muted-foreground text-xs font-medium'>
+                      {t.csvImport.account}
+                    </label>
+                    <select
+                      value={accountId}
+                      onChange={(e) => setAccountId(e.target.value)}
+                      className={selectClassName}>
+                      {accountOptions.map((account) => (
+                        <option key={account.id} value={account.id}>
+                          {account.path}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className='space-y-2'>
+                    <label className='text-muted-foreground text-xs font-medium'>
+                      {t.csvImport.counterAccount}
+                    </label>
+                    <select
+                      value={counterAccountId}
+                      onChange={(e) => setCounterAccountId(e.target.value)}
+                      className={selectClassName}>
+                      {accountOptions.map((account) => (
+                        <option key={account.id} value={account.id}>
+                          {account.path}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+
+                <div className='space-y-2'>
+                  <p className='text-muted-foreground text-xs font-medium'>
+                    {t.csvImport.mapping}
+                  </p>
+                  <div className='grid grid-cols-2 gap-2 md:grid-cols-4'>
+                    {FIELDS.map((field) => (
+                      <div key={field} className='space-y-1'>
+                        <label className='text-muted-foreground text-[10px]'>
+                          {fieldLabels[field]}
+                        </label>
+                        <select
+                          value={statement.mapping[field] ?? ""}
+                          onChange={(e) =>
+                            handleMappingChange(field, e.target.value)
+                          }
+                          className={selectClassName}>
+                          <option value=''>{t.csvImport.notMapped}</option>
+                          {statement.header.map((name, index) => (
+                            <option key={index} value={index}>
+                              {name || `#${index + 1}`}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                <div className='space-y-2'>
+                  <div className='text-muted-foreground flex flex-wrap gap-3'>
+                    <span>
+                      {t.csvImport.statusNew}: {counts.new}
+                    </span>
+                    <span>
+                      {t.csvImport.statusDuplicate}: {counts.duplicate}
+                    </span>
+                    {counts.invalid > 0 ? (
+                      <span className='text-destructive'>
+                        {t.csvImport.statusInvalid}: {counts.invalid}
+                      </span>
+                    ) : null}
+                    {counts.skipped > 0 ? (
+                      <span>
+                        {t.csvImport.statusSkipped}: {counts.skipped}
+                      </span>
+                    ) : null}
+                  </div>
+                  {preview.length === 0 ? (
+                    <p className='text-muted-foreground'>
+                      {t.csvImport.noRows}
+                    </p>
+                  ) : (
+                    <div className='max-h-72 overflow-y-auto rounded-xs border'>
+                      {preview.map((item) => (
+                        <label
+                          key={item.row.lineNumber}
+                          className={cn(
+                            "grid grid-cols-[auto_80px_1fr_80px_auto] items-center gap-2 border-t px-2 py-1.5 first:border-t-0",
+                            item.status === "invalid" && "text-destructive",
+                            item.status === "skipped" &&
+                              "text-muted-foreground",
+                          )}>
+                          <input
+                            type='checkbox'
+                            checked={isSelected(
+                              item.row.lineNumber,
+                              item.status,
+                            )}
+                            disabled={!item.entry || item.status === "invalid"}
+                            onChange={() => toggleRow(item.row.lineNumber)}
+                          />
+                          <span>{item.row.date ?? "-"}</span>
+                          <span className='min-w-0 truncate'>
+                            {item.row.payee ? `${item.row.payee} · ` : ""}
+                            {item.row.description}
+                            {item.rule ? (
+                              <span className='text-muted-foreground'>
+                                {" "}
+                                · {t.rules.applied}: {item.rule.name}
+                              </span>
+                            ) : null}
+                            {item.errors.length > 0
+                              ? ` (${item.errors.join(", ")})`
+                              : ""}
+                          </span>
+                          <span
+                            className={cn(
+                              "text-right font-medium",
+                              (item.row.amount ?? 0) > 0 && "text-emerald-600",
+                            )}>
+                            {item.row.amount === null
+                              ? "-"
+                              : item.row.amount.toFixed(2)}
+                          </span>
+                          <Badge
+                            variant={
+                              item.status === "new" ? "outline" : "secondary"
+                            }
+                            className='text-[10px]'>
+                            {statusLabels[item.status]}
+                          </Badge>
+                        </label>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </>
+            ) : null}
+            {error ? <p className='text-destructive'>{error}</p> : null}
+          </div>
+
+          <div className='flex items-center justify-end gap-2 pt-4'>
+            <Dialog.Close className='text-muted-foreground hover:bg-muted rounded-xs border px-2 py-1 text-xs'>
+              {t.common.cancel}
+            </Dialog.Close>
+            <Button
+              disabled={isBusy || selectedEntries.length === 0}
+              onClick={handleImport}>
+              {t.csvImport.import} ({selectedEntries.length})
+            </Button>
+          </div>
+        </Dialog.Popup>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
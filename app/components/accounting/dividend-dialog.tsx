@@ -0,0 +1,251 @@
+import { Dialog } from "@base-ui/react/dialog";
+import { useEffect, useMemo, useState } from "react";
+import type { BookData, HoldingEvent } from "~/lib/double-entry/types";
+import { AccountType } from "~/lib/double-entry/types";
+import {
+  createMoney,
+  fromMainUnit,
+  toMainUnit,
+} from "~/lib/double-entry/money";
+import { isHoldingAccount } from "~/lib/double-entry/holdings";
+import { buildDividendLines } from "~/lib/double-entry/dividends";
+import { useI18n } from "~/lib/i18n";
+import { Button } from "~/components/ui/button";
+import type { SplitEntryInput } from "~/lib/accounting/book-service";
+
+interface DividendDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  book: BookData;
+  holdingAccountId: string | null;
+  onSubmit: (input: SplitEntryInput) => Promise<void>;
+}
+
+const inputClassName =
+  "border-input bg-background h-8 w-full rounded-xs border px-2 text-xs";
+
+function createInitialForm() {
+  return {
+    kind: "dividend" as HoldingEvent["kind"],
+    date: new Date().toISOString().split("T")[0],
+    amount: "",
+    quantity: "",
+    cashAccountId: "",
+    incomeAccountId: "",
+  };
+}
+
+export function DividendDialog({
+  open,
+  onOpenChange,
+  book,
+  holdingAccountId,
+  onSubmit,
+}: DividendDialogProps) {
+  const { t } = useI18n();
+  const [form, setForm] = useState(createInitialForm);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const holding = book.accounts.find((a) => a.id === holdingAccountId);
+  const currency = holding?.currency ?? book.defaultCurrency;
+
+  // 资金账户、股息收入账户与持仓同币种，避免跨币种折算
+  const cashAccounts = useMemo(
+    () =>
+      book.accounts.filter(
+        (a) =>
+          !a.archived &&
+          a.parentId !== null &&
+          a.currency === currency &&
+          a.type === AccountType.ASSETS &&
+          !isHoldingAccount(a),
+      ),
+    [book.accounts, currency],
+  );
+  const incomeAccounts = useMemo(
+    () =>
+      book.accounts.filter(
+        (a) =>
+          !a.archived &&
+          a.currency === currency &&
+          a.type === AccountType.INCOME,
+      ),
+    [book.accounts, currency],
+  );
+
+  useEffect(() => {
+    if (!open) return;
+    // 默认使用名称含 dividend 的收入账户
+    const income =
+      incomeAccounts.find((a) => a.path.includes("dividend")) ??
+      incomeAccounts[0];
+    setForm({
+      ...createInitialForm(),
+      cashAccountId: cashAccounts[0]?.id ?? "",
+      incomeAccountId: income?.id ?? "",
+    });
+    setError(null);
+    // 只在打开时重置，账户选项变化不覆盖已选择的账户
+  }, [open]);
+
+  const amount = Number(form.amount);
+  const quantity = Number(form.quantity);
+  const isDrip = form.kind === "drip";
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!holding) return;
+    if (!Number.isFinite(amount) || amount <= 0) {
+      setError(t.dividends.invalidAmount);
+      return;
+    }
+    if (isDrip && (!Number.isFinite(quantity) || quantity <= 0)) {
+      setError(t.holdings.invalidQuantity);
+      return;
+    }
+    if (!form.incomeAccountId || (!isDrip && !form.cashAccountId)) {
+      setError(t.common.required);
+      return;
+    }
+
+    setIsBusy(true);
+    setError(null);
+    try {
+      const lines = buildDividendLines({
+        holdingAccountId: holding.id,
+        incomeAccountId: form.incomeAccountId,
+        amount: fromMainUnit(amount, currency).amount,
+        cashAccountId: isDrip ? undefined : form.cashAccountId,
+        reinvestQuantity: isDrip ? quantity : undefined,
+      });
+      const label = isDrip ? t.dividends.drip : t.dividends.dividend;
+      await onSubmit({
+        date: form.date,
+        description: `${label} ${holding.commodity}`,
+        lines: lines.map((line) => ({
+          accountId: line.accountId,
+          type: line.type,
+          amount: toMainUnit(createMoney(line.amount, currency)),
+          quantity: line.quantity,
+        })),
+        tags: holding.commodity ? [holding.commodity] : undefined,
+        holdingEvent: { kind: form.kind, accountId: holding.id },
+      });
+      onOpenChange(false);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : t.common.error);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <Dialog.Root open={open} onOpenChange={onOpenChange}>
+      <Dialog.Portal>
+        <Dialog.Backdrop className='fixed inset-0 bg-black/40 backdrop-blur-sm' />
+        <Dialog.Popup className='bg-popover fixed top-1/2 left-1/2 max-h-[85vh] w-[min(92vw,420px)] -translate-x-1/2 -translate-y-1/2 overflow-y-auto rounded-xs border p-4 text-xs shadow-lg'>
+          <Dialog.Title className='text-foreground text-sm font-medium'>
+            {t.dividends.record} {holding?.commodity}
+          </Dialog.Title>
+          <Dialog.Description className='text-muted-foreground mt-1 text-xs'>
+            {holding?.path}
+          </Dialog.Description>
+
+          <form onSubmit={handleSubmit} className='mt-4 space-y-3'>
+            <div className='flex gap-2'>
+              {(["dividend", "drip"] as const).map((value) => (
+                <Button
+                  key={value}
+                  type='button'
+                  size='xs'
+                  variant={form.kind === value ? "default" : "outline"}
+                  onClick={() => setForm((prev) => ({ ...prev, kind: value }))}>
+                  {value === "drip" ? t.dividends.drip : t.dividends.dividend}
+                </Button>
+              ))}
+            </div>
+            <div className='grid gap-2 md:grid-cols-2'>
+              <input
+                type='date'
+                value={form.date}
+                onChange={(e) =>
+                  setForm((prev) => ({ ...prev, date: e.target.value }))
+                }
+                className={inputClassName}
+              />
+              <input
+                type='number'
+                inputMode='decimal'
+                value={form.amount}
+                onChange={(e) =>
+                  setForm((prev) => ({ ...prev, amount: e.target.value }))
+                }
+                className={inputClassName}
+                placeholder={`${t.dividends.amount} (${currency})`}
+              />
+              {isDrip ? (
+                <input
+                  type='number'
+                  inputMode='decimal'
+                  value={form.quantity}
+                  onChange={(e) =>
+                    setForm((prev) => ({ ...prev, quantity: e.target.value }))
+                  }
+                  className={inputClassName}
+                  placeholder={t.dividends.reinvestQuantity}
+                />
+              ) : (
+                <select
+                  value={form.cashAccountId}
+                  onChange={(e) =>
+                    setForm((prev) => ({
+                      ...prev,
+                      cashAccountId: e.target.value,
+                    }))
+                  }
+                  className={inputClassName}>
+                  <option value=''>{t.holdings.cashAccount}</option>
+                  {cashAccounts.map((account) => (
+                    <option key={account.id} value={account.id}>
+                      {account.path}
+                    </option>
+                  ))}
+                </select>
+              )}
+              <select
+                value={form.incomeAccountId}
+                onChange={(e) =>
+                  setForm((prev) => ({
+                    ...prev,
+                    incomeAccountId: e.target.value,
+                  }))
+                }
+                className={inputClassName}>
+                <option value=''>{t.dividends.incomeAccount}</option>
+                {incomeAccounts.map((account) => (
+                  <option key={account.id} value={account.id}>
+                    {account.path}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <p className='text-muted-foreground'>
+              {isDrip ? t.dividends.dripHint : t.dividends.dividendHint}
+            </p>
+
+            {error ? <p className='text-destructive'>{error}</p> : null}
+            <div className='flex items-center justify-end gap-2 pt-2'>
+              <Dialog.Close className='text-muted-foreground hover:bg-muted rounded-xs border px-2 py-1 text-xs'>
+                {t.common.cancel}
+              </Dialog.Close>
+              <Button type='submit' size='xs' disabled={isBusy || !holding}>
+                {t.common.save}
+              </Button>
+            </div>
+          </form>
+        </Dialog.Popup>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
@@ -0,0 +1,214 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import type { BookData } from "~/lib/double-entry/types";
+import { getHoldings } from "~/lib/double-entry/holdings";
+import {
+  buildDividendCalendarView,
+  buildYieldOnCostRows,
+} from "~/lib/accounting/view";
+import { useI18n } from "~/lib/i18n";
+import { cn } from "~/lib/utils";
+
+const inputClassName =
+  "border-input bg-background h-7 rounded-xs border px-2 text-xs";
+
+type DividendQuote = { price?: number; dividendYield?: number };
+
+function formatPercent(value: number | null): string {
+  return value === null ? "—" : `${value.toFixed(2)}%`;
+}
+
+/**
+ * 股息：年度股息日历与按 /api/stock-detail 股息率估算的成本收益率
+ */
+export function DividendsSection({ book }: { book: BookData }) {
+  const { t, language } = useI18n();
+  const today = new Date().toISOString().split("T")[0];
+  const [year, setYear] = useState(() => Number(today.slice(0, 4)));
+  const [quotes, setQuotes] = useState<Record<string, DividendQuote>>({});
+
+  const calendar = useMemo(
+    () => buildDividendCalendarView(book, year, today),
+    [book, year, today],
+  );
+  const yields = useMemo(
+    () => buildYieldOnCostRows(book, today, quotes),
+    [book, today, quotes],
+  );
+  const symbolKey = useMemo(
+    () =>
+      [
+        ...new Set(
+          getHoldings(book)
+            .filter((holding) => holding.quantity > 0)
+            .map((holding) => holding.symbol),
+        ),
+      ]
+        .sort()
+        .join(","),
+    [book],
+  );
+  const monthLabels = useMemo(
+    () =>
+      Array.from({ length: 12 }, (_, month) =>
+        new Date(Date.UTC(2000, month, 1)).toLocaleString(
+          language === "zh" ? "zh-CN" : "en-US",
+          { month: "short", timeZone: "UTC" },
+        ),
+      ),
+    [language],
+  );
+
+  // stock-detail 只支持单个代码，逐个请求
+  const fetchQuotes = useCallback(async () => {
+    if (!symbolKey) return;
+    const entries = await Promise.all(
+      symbolKey.split(",").map(async (symbol) => {
+        try {
+          const response = await fetch(
+            `/api/stock-detail?symbol=${encodeURIComponent(symbol)}`,
+          );
+          const data = await response.json();
+          const quote: DividendQuote = {
+            price: data.summary?.price,
+            dividendYield: data.summary?.dividend,
+          };
+          return [symbol, quote] as const;
+        } catch (error) {
+          console.error("Failed to fetch dividend yield:", error);
+          return [symbol, {}] as const;
+        }
+      }),
+    );
+    setQuotes(Object.fromEntries(entries));
+  }, [symbolKey]);
+
+  useEffect(() => {
+    void fetchQuotes();
+  }, [fetchQuotes]);
+
+  if (calendar.rows.length === 0 && yields.length === 0) return null;
+
+  return (
+    <section className='space-y-2'>
+      <div className='flex items-center justify-between gap-2'>
+        <p className='text-muted-foreground text-[10px] tracking-[0.2em] uppercase'>
+          {t.dividends.calendar}
+        </p>
+        <select
+          value={year}
+          onChange={(e) => setYear(Number(e.target.value))}
+          className={inputClassName}>
+          {calendar.years.map((option) => (
+            <option key={option} value={option}>
+              {option}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className='bg-card overflow-x-auto rounded-xs border shadow-sm'>
+        {calendar.rows.length === 0 ? (
+          <p className='text-muted-foreground p-3 text-xs'>
+            {t.dividends.noDividends}
+          </p>
+        ) : (
+          <table className='w-full text-xs'>
+            <thead className='text-muted-foreground'>
+              <tr className='border-b'>
+                <th className='px-2 py-1.5 text-left font-medium'>
+                  {t.holdings.symbol}
+                </th>
+                {monthLabels.map((label) => (
+                  <th
+                    key={label}
+                    className='px-2 py-1.5 text-right font-medium'>
+                    {label}
+                  </th>
+                ))}
+                <th className='px-2 py-1.5 text-right font-medium'>
+                  {t.dividends.total}
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {calendar.rows.map((row) => (
+                <tr key={row.accountId} className='border-t'>
+                  <td className='px-2 py-1.5 font-medium'>{row.symbol}</td>
+                  {row.months.map((amount, month) => (
+                    <td
+                      key={month}
+                      className={cn(
+                        "px-2 py-1.5 text-right whitespace-nowrap",
+                        row.projected[month] && "text-muted-foreground italic",
+                      )}>
+                      {amount ?? ""}
+                    </td>
+                  ))}
+                  <td className='px-2 py-1.5 text-right font-medium whitespace-nowrap'>
+                    {row.total}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+      {calendar.rows.some((row) => row.projected.includes(true)) ? (
+        <p className='text-muted-foreground text-[10px]'>
+          {t.dividends.projectedHint}
+        </p>
+      ) : null}
+
+      {yields.length > 0 ? (
+        <>
+          <p className='text-muted-foreground pt-2 text-[10px] tracking-[0.2em] uppercase'>
+            {t.dividends.yieldOnCost}
+          </p>
+          <div className='bg-card overflow-x-auto rounded-xs border shadow-sm'>
+            <table className='w-full text-xs'>
+              <thead className='text-muted-foreground'>
+                <tr className='border-b'>
+                  <th className='px-2 py-1.5 text-left font-medium'>
+                    {t.holdings.symbol}
+                  </th>
+                  <th className='px-2 py-1.5 text-right font-medium'>
+                    {t.holdings.quantity}
+                  </th>
+                  <th className='px-2 py-1.5 text-right font-medium'>
+                    {t.dividends.cost}
+                  </th>
+                  <th className='px-2 py-1.5 text-right font-medium'>
+                    {t.dividends.trailingDividends}
+                  </th>
+                  <th className='px-2 py-1.5 text-right font-medium'>
+                    {t.dividends.trailingYield}
+                  </th>
+                  <th className='px-2 py-1.5 text-right font-medium'>
+                    {t.dividends.forwardYield}
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {yields.map((row) => (
+                  <tr key={row.accountId} className='border-t'>
+                    <td className='px-2 py-1.5 font-medium'>{row.symbol}</td>
+                    <td className='px-2 py-1.5 text-right'>{row.quantity}</td>
+                    <td className='px-2 py-1.5 text-right'>{row.cost}</td>
+                    <td className='px-2 py-1.5 text-right'>
+                      {row.trailingDividends}
+                    </td>
+                    <td className='px-2 py-1.5 text-right'>
+                      {formatPercent(row.trailingYield)}
+                    </td>
+                    <td className='px-2 py-1.5 text-right'>
+                      {formatPercent(row.forwardYield)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      ) : null}
+    </section>
+  );
+}
@@ -0,0 +1,153 @@
+import { Dialog } from "@base-ui/react/dialog";
+import { useMemo } from "react";
+import type {
+  AccountData,
+  CurrencyCode,
+  EntryDiffField,
+  ExchangeRate,
+  EntryLineData,
+  JournalEntryData,
+} from "~/lib/double-entry/types";
+import {
+  diffEntries,
+  findFxGainLossAccount,
+  restoreFromSnapshot,
+} from "~/lib/double-entry/entry";
+import {
+  applySimpleEntryInput,
+  applySplitEntryInput,
+} from "~/lib/accounting/book-service";
+import type { EntryConflict } from "~/lib/accounting/use-book";
+import { formatEntryLine } from "~/lib/accounting/view";
+import { useI18n } from "~/lib/i18n";
+import { Button } from "~/components/ui/button";
+
+interface EntryConflictDialogProps {
+  conflict: EntryConflict | null;
+  accounts: AccountData[];
+  baseCurrency: CurrencyCode;
+  exchangeRates: ExchangeRate[];
+  onResolve: (resolution: "reload" | "overwrite") => void;
+}
+
+export function EntryConflictDialog({
+  conflict,
+  accounts,
+  baseCurrency,
+  exchangeRates,
+  onResolve,
+}: EntryConflictDialogProps) {
+  const { t } = useI18n();
+
+  const changes = useMemo(() => {
+    if (!conflict) return [];
+    const accountMap = new Map(accounts.map((a) => [a.id, a]));
+    const formatLine = (line: EntryLineData) =>
+      formatEntryLine(line, accountMap, {
+        debit: t.records.debit,
+        credit: t.records.credit,
+      });
+    let yours: JournalEntryData;
+    if (conflict.input && "lines" in conflict.input) {
+      yours = applySplitEntryInput(conflict.current, conflict.input, accounts, {
+        baseCurrency,
+        exchangeRates,
+        date: conflict.input.date,
+        fxAccountId: findFxGainLossAccount(accounts)?.id,
+      });
+    } else if (conflict.input) {
+      const currency =
+        accountMap.get(conflict.input.debitAccountId)?.currency ?? "CNY";
+      yours = applySimpleEntryInput(conflict.current, conflict.input, currency);
+    } else if (conflict.revision) {
+      yours = restoreFromSnapshot(conflict.current, conflict.revision.snapshot);
+    } else {
+      return [];
+    }
+    return diffEntries(conflict.current, yours, formatLine);
+  }, [conflict, accounts, baseCurrency, exchangeRates, t]);
+
+  const fieldLabels: Record<EntryDiffField, string> = {
+    date: t.records.date,
+    description: t.records.description,
+    payee: t.records.payee,
+    note: t.conflict.note,
+    tags: t.records.tags,
+    lines: t.conflict.lines,
+  };
+
+  const isDeleted = !!conflict?.current.deletedAt;
+  const isRestore = conflict?.action === "restore";
+  const showDiff =
+    !!conflict && conflict.action !== "delete" && (!isDeleted || isRestore);
+  const description =
+    isDeleted && !isRestore
+      ? t.conflict.deleted
+      : conflict?.action === "delete"
+        ? t.conflict.deleteDescription
+        : t.conflict.description;
+
+  return (
+    <Dialog.Root
+      open={!!conflict}
+      onOpenChange={(open) => {
+        if (!open) onResolve("reload");
+      }}>
+      <Dialog.Portal>
+        <Dialog.Backdrop className='fixed inset-0 bg-black/40 backdrop-blur-sm' />
+        <Dialog.Popup className='bg-popover fixed top-1/2 left-1/2 w-[min(92vw,560px)] -translate-x-1/2 -translate-y-1/2 rounded-xs border p-4 text-xs shadow-lg'>
+          <Dialog.Title className='text-foreground text-sm font-medium'>
+            {t.conflict.title}
+          </Dialog.Title>
+          <Dialog.Description className='text-muted-foreground mt-1 text-xs'>
+            {description}
+          </Dialog.Description>
+
+          {showDiff ? (
+            changes.length === 0 ? (
+              <p className='text-muted-foreground mt-4'>
+                {t.conflict.noChanges}
+              </p>
+            ) : (
+              <div className='mt-4 overflow-hidden rounded-xs border'>
+                <div className='bg-muted/50 text-muted-foreground grid grid-cols-[80px_1fr_1fr] gap-2 px-2 py-1 text-[10px] uppercase'>
+                  <span>{t.conflict.field}</span>
+                  <span>{t.conflict.theirs}</span>
+                  <span>{t.conflict.yours}</span>
+                </div>
+                {changes.map((change) => (
+                  <div
+                    key={change.field}
+                    className='grid grid-cols-[80px_1fr_1fr] gap-2 border-t px-2 py-1.5'>
+                    <span className='text-muted-foreground'>
+                      {fieldLabels[change.field]}
+                    </span>
+                    <span className='whitespace-pre-wrap'>
+                      {change.before || "-"}
+                    </span>
+                    <span className='text-foreground font-medium whitespace-pre-wrap'>
+                      {change.after || "-"}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )
+          ) : null}
+
+          <div className='flex items-center justify-end gap-2 pt-4'>
+            <Button variant='outline' onClick={() => onResolve("reload")}>
+              {t.conflict.reload}
+            </Button>
+            {!isDeleted || isRestore ? (
+              <Button
+                variant='destructive'
+                onClick={() => onResolve("overwrite")}>
+                {t.conflict.overwrite}
+              </Button>
+            ) : null}
+          </div>
+        </Dialog.Popup>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
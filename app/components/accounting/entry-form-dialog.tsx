@@ -1,9 +1,41 @@
 import { Dialog } from "@base-ui/react/dialog";
 import { useEffect, useState, useCallback, useMemo } from "react";
-import type { AccountData } from "~/lib/double-entry/types";
+import type {
+  AccountData,
+  CategorizationRule,
+  CurrencyCode,
+  EntryLineData,
+  ExchangeRate,
+  JournalEntryData,
+  LotSelection,
+} from "~/lib/double-entry/types";
+import { EntryLineType } from "~/lib/double-entry/types";
+import { getExchangeRate } from "~/lib/double-entry/currency";
+import {
+  createCurrencyLine,
+  createEntry,
+  getBaseTotals,
+  getTotalCredit,
+  getTotalDebit,
+  isBalanced,
+  isMultiCurrencyEntry,
+} from "~/lib/double-entry/entry";
+import {
+  createMoney,
+  formatMoney,
+  fromMainUnit,
+  toMainUnit,
+} from "~/lib/double-entry/money";
+import { applyRuleToEntry, findMatchingRule } from "~/lib/double-entry/rules";
+import { isHoldingAccount } from "~/lib/double-entry/holdings";
 import { useI18n } from "~/lib/i18n";
+import { cn } from "~/lib/utils";
 import { Button } from "~/components/ui/button";
-import { createSimpleEntryForBook } from "~/lib/firebase/repository";
+import { findFxGainLossAccount } from "~/lib/double-entry/entry";
+import type {
+  SimpleEntryInput,
+  SplitEntryInput,
+} from "~/lib/accounting/book-service";
 
 interface EntryFormDialogProps {
   open: boolean;
@@ -11,9 +43,74 @@ interface EntryFormDialogProps {
   accountOptions: AccountData[];
   defaultDebitId: string;
   defaultCreditId: string;
-  userId?: string;
-  bookId?: string;
-  onCreated?: () => Promise<void> | void;
+  /** 账簿本位币与汇率表（跨币种拆分时折算） */
+  baseCurrency: CurrencyCode;
+  exchangeRates: ExchangeRate[];
+  /** 自动分类规则（仅新建一借一贷时应用） */
+  rules?: CategorizationRule[];
+  /** 编辑的分录，不传则为新建 */
+  entry?: JournalEntryData | null;
+  /** 新建时预填的分录（如定期模板的某一次发生） */
+  draft?: JournalEntryData | null;
+  onSubmit: (input: SimpleEntryInput) => Promise<void>;
+  /** 拆分模式提交（多借多贷） */
+  onSubmitSplit: (input: SplitEntryInput) => Promise<void>;
+}
+
+type SplitLineForm = {
+  accountId: string;
+  type: EntryLineType;
+  amount: string;
+  note: string;
+  /** 手动汇率，留空时使用汇率表 */
+  rate: string;
+  /** 持仓数量（仅持仓账户） */
+  quantity: string;
+  /** 卖出时指定的批次（编辑时原样保留） */
+  lotSelections?: LotSelection[];
+};
+
+function createSplitLine(
+  accountId: string,
+  type: EntryLineType,
+  amount = "",
+): SplitLineForm {
+  return { accountId, type, amount, note: "", rate: "", quantity: "" };
+}
+
+// 一借一贷且金额相同的分录可用简单模式编辑（记录持仓数量的除外）
+function isSimpleEntry(entry: JournalEntryData) {
+  if (entry.lines.length !== 2) return false;
+  if (entry.lines.some((line) => line.quantity !== undefined)) return false;
+  const [first, second] = entry.lines;
+  return first.type !== second.type && first.amount === second.amount;
+}
+
+// Split lines from an existing entry（跨币种分录的汇兑损益行由系统重新生成）
+function createSplitLinesFromEntry(
+  entry: JournalEntryData,
+  accountOptions: AccountData[],
+): SplitLineForm[] {
+  const fxAccountId = isMultiCurrencyEntry(entry)
+    ? findFxGainLossAccount(accountOptions)?.id
+    : undefined;
+  return entry.lines
+    .filter((line) => line.accountId !== fxAccountId)
+    .map((line) => {
+      const currency =
+        accountOptions.find((account) => account.id === line.accountId)
+          ?.currency ?? "CNY";
+      return {
+        accountId: line.accountId,
+        type: line.type,
+        amount: String(toMainUnit({ amount: line.amount, currency })),
+        note: line.note ?? "",
+        rate:
+          line.rate !== undefined && line.rate !== 1 ? String(line.rate) : "",
+        quantity: line.quantity !== undefined ? String(line.quantity) : "",
+        lotSelections: line.lotSelections,
+      };
+    });
 }
 
 // Hoist static date formatter
@@ -34,21 +131,97 @@ function createInitialForm(defaultDebitId: string, defaultCreditId: string) {
   };
 }
 
+type EntryForm = ReturnType<typeof createInitialForm>;
+
+function parseTags(value: string) {
+  return value
+    .split(",")
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+}
+
+// 表单转为分录，用于匹配和应用自动分类规则
+function createEntryFromForm(form: EntryForm, accountOptions: AccountData[]) {
+  const currency =
+    accountOptions.find((account) => account.id === form.debitAccountId)
+      ?.currency ?? "CNY";
+  const amount = Number(form.amount);
+  const minor =
+    Number.isFinite(amount) && amount > 0
+      ? fromMainUnit(amount, currency).amount
+      : 0;
+  const tags = parseTags(form.tags);
+  return createEntry({
+    date: form.date,
+    description: form.description,
+    payee: form.payee.trim() || undefined,
+    tags: tags.length ? tags : undefined,
+    lines: [
+      {
+        accountId: form.debitAccountId,
+        amount: minor,
+        type: EntryLineType.DEBIT,
+      },
+      {
+        accountId: form.creditAccountId,
+        amount: minor,
+        type: EntryLineType.CREDIT,
+      },
+    ],
+  });
+}
+
+// Form state from an existing simple entry
+function createFormFromEntry(
+  entry: JournalEntryData,
+  accountOptions: AccountData[],
+) {
+  const debitLine = entry.lines.find(
+    (line) => line.type === EntryLineType.DEBIT,
+  );
+  const creditLine = entry.lines.find(
+    (line) => line.type === EntryLineType.CREDIT,
+  );
+  const currency =
+    accountOptions.find((account) => account.id === debitLine?.accountId)
+      ?.currency ?? "CNY";
+  return {
+    date: entry.date,
+    description: entry.description,
+    amount: debitLine
+      ? String(toMainUnit({ amount: debitLine.amount, currency }))
+      : "",
+    debitAccountId: debitLine?.accountId ?? "",
+    creditAccountId: creditLine?.accountId ?? "",
+    payee: entry.payee ?? "",
+    tags: (entry.tags ?? []).join(", "),
+  };
+}
+
 export function EntryFormDialog({
   open,
   onOpenChange,
   accountOptions,
   defaultDebitId,
   defaultCreditId,
-  userId,
-  bookId,
-  onCreated,
+  baseCurrency,
+  exchangeRates,
+  rules = [],
+  entry,
+  draft,
+  onSubmit,
+  onSubmitSplit,
 }: EntryFormDialogProps) {
   const { t } = useI18n();
   const [isSaving, setIsSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [form, setForm] = useState(() =>
-    createInitialForm(defaultDebitId, defaultCreditId)
+    createInitialForm(defaultDebitId, defaultCreditId),
+  );
+  const [isSplit, setIsSplit] = useState(false);
+  const [splitLines, setSplitLines] = useState<SplitLineForm[]>([]);
+  const [appliedRule, setAppliedRule] = useState<CategorizationRule | null>(
+    null,
   );
 
   // Memoize account lookups
@@ -72,31 +245,253 @@ export function EntryFormDialog({
   // Reset form when dialog opens with new defaults
   useEffect(() => {
     if (!open) return;
+    const source = entry ?? draft;
+    if (source) {
+      setForm(createFormFromEntry(source, accountOptions));
+      setIsSplit(!isSimpleEntry(source));
+      setSplitLines(createSplitLinesFromEntry(source, accountOptions));
+    } else {
+      setForm((prev) => ({
+        ...prev,
+        debitAccountId: defaultDebitId,
+        creditAccountId: defaultCreditId,
+      }));
+      setIsSplit(false);
+      setSplitLines([]);
+    }
+    setAppliedRule(null);
+    setError(null);
+  }, [open, entry, draft, defaultDebitId, defaultCreditId]);
+
+  // 新建时按规则设置分类账户、标签和收款人；同一条规则只应用一次，之后可手动修改
+  useEffect(() => {
+    if (!open || entry || draft || isSplit || rules.length === 0) return;
+    const current = createEntryFromForm(form, accountOptions);
+    const rule = findMatchingRule(rules, {
+      description: current.description,
+      payee: current.payee,
+      amount: current.lines[0].amount,
+      accountIds: current.lines.map((line) => line.accountId),
+    });
+    if (!rule || rule.id === appliedRule?.id) return;
+    const next = applyRuleToEntry(current, rule, accountOptions);
+    setAppliedRule(rule);
     setForm((prev) => ({
       ...prev,
-      debitAccountId: defaultDebitId,
-      creditAccountId: defaultCreditId,
+      debitAccountId: next.lines[0].accountId,
+      creditAccountId: next.lines[1].accountId,
+      payee: next.payee ?? "",
+      tags: (next.tags ?? []).join(", "),
     }));
+  }, [open, entry, draft, isSplit, rules, form, accountOptions, appliedRule]);
+
+  const handleInputChange = useCallback(
+    (field: keyof typeof form, value: string) => {
+      setForm((prev) => ({ ...prev, [field]: value }));
+    },
+    [],
+  );
+
+  // 实时借贷合计：按各行账户币种换算为最小单位后用 isBalanced 判断；
+  // 跨币种时按汇率折算为本位币，差额将生成汇兑损益行
+  const splitSummary = useMemo(() => {
+    const accountMap = new Map(accountOptions.map((a) => [a.id, a]));
+    const currencies = new Set(
+      splitLines.flatMap(
+        (line) => accountMap.get(line.accountId)?.currency ?? [],
+      ),
+    );
+    const isCrossCurrency = currencies.size > 1;
+    const missingRates = new Set<CurrencyCode>();
+    const lines = splitLines.flatMap((line): EntryLineData[] => {
+      const account = accountMap.get(line.accountId);
+      const amount = Number(line.amount);
+      if (!account || !Number.isFinite(amount) || amount <= 0) return [];
+      const minor = fromMainUnit(amount, account.currency).amount;
+      if (!isCrossCurrency) {
+        return [{ accountId: account.id, type: line.type, amount: minor }];
+      }
+      const rate =
+        Number(line.rate) > 0
+          ? Number(line.rate)
+          : getExchangeRate(
+              exchangeRates,
+              account.currency,
+              baseCurrency,
+              form.date,
+            );
+      if (rate === null) {
+        missingRates.add(account.currency);
+        return [];
+      }
+      return [
+        createCurrencyLine({
+          accountId: account.id,
+          type: line.type,
+          amount: minor,
+          currency: account.currency,
+          rate,
+          baseCurrency,
+        }),
+      ];
+    });
+    const draft = createEntry({ date: form.date, description: "", lines });
+    const currency = isCrossCurrency
+      ? baseCurrency
+      : (accountMap.get(splitLines[0]?.accountId)?.currency ?? baseCurrency);
+    const totals = isCrossCurrency
+      ? getBaseTotals(draft)
+      : { debit: getTotalDebit(draft), credit: getTotalCredit(draft) };
+    const diff = totals.debit - totals.credit;
+    return {
+      debit: formatMoney(createMoney(totals.debit, currency)),
+      credit: formatMoney(createMoney(totals.credit, currency)),
+      imbalance: formatMoney(createMoney(Math.abs(diff), currency)),
+      isBalanced: lines.length > 0 && isBalanced(draft),
+      isCrossCurrency,
+      /** 借方折算多于贷方为汇兑收益 */
+      isFxGain: diff > 0,
+      missingRates: [...missingRates],
+    };
+  }, [accountOptions, splitLines, form.date, baseCurrency, exchangeRates]);
+
+  const getLineCurrency = (line: SplitLineForm) =>
+    accountOptions.find((account) => account.id === line.accountId)?.currency;
+
+  const isHoldingLine = (line: SplitLineForm) => {
+    const account = accountOptions.find((a) => a.id === line.accountId);
+    return !!account && isHoldingAccount(account);
+  };
+
+  // 汇率输入框显示汇率表中的汇率
+  const getRatePlaceholder = (line: SplitLineForm) => {
+    const currency = getLineCurrency(line);
+    if (!currency) return "";
+    const rate = getExchangeRate(
+      exchangeRates,
+      currency,
+      baseCurrency,
+      form.date,
+    );
+    return rate === null ? t.records.rate : String(rate);
+  };
+
+  const handleToggleSplit = () => {
+    if (!isSplit && splitLines.length === 0) {
+      setSplitLines([
+        createSplitLine(form.debitAccountId, EntryLineType.DEBIT, form.amount),
+        createSplitLine(
+          form.creditAccountId,
+          EntryLineType.CREDIT,
+          form.amount,
+        ),
+      ]);
+    }
+    setIsSplit((prev) => !prev);
     setError(null);
-  }, [open, defaultDebitId, defaultCreditId]);
+  };
 
-  const handleInputChange = useCallback((
-    field: keyof typeof form,
-    value: string,
+  const handleSplitLineChange = (
+    index: number,
+    updates: Partial<SplitLineForm>,
   ) => {
-    setForm((prev) => ({ ...prev, [field]: value }));
-  }, []);
+    setSplitLines((prev) =>
+      prev.map((line, i) => (i === index ? { ...line, ...updates } : line)),
+    );
+  };
+
+  const handleAddSplitLine = () => {
+    setSplitLines((prev) => [
+      ...prev,
+      createSplitLine(defaultDebitId, EntryLineType.DEBIT),
+    ]);
+  };
+
+  const handleRemoveSplitLine = (index: number) => {
+    setSplitLines((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  // 校验并提交拆分分录，校验失败时返回 false
+  const submitSplit = async () => {
+    if (splitLines.length < 2) {
+      setError(t.records.minTwoLines);
+      return false;
+    }
+    if (splitLines.some((line) => !line.accountId)) {
+      setError(t.common.required);
+      return false;
+    }
+    if (
+      splitLines.some((line) => {
+        const amount = Number(line.amount);
+        return !Number.isFinite(amount) || amount <= 0;
+      })
+    ) {
+      setError(t.records.invalidAmount);
+      return false;
+    }
+    if (
+      splitLines.some((line) => {
+        const quantity = Number(line.quantity);
+        return (
+          isHoldingLine(line) && (!Number.isFinite(quantity) || quantity <= 0)
+        );
+      })
+    ) {
+      setError(t.holdings.invalidQuantity);
+      return false;
+    }
+    if (splitSummary.missingRates.length > 0) {
+      setError(
+        `${t.records.missingRate}: ${splitSummary.missingRates.join(", ")}`,
+      );
+      return false;
+    }
+    if (!splitSummary.isCrossCurrency && !splitSummary.isBalanced) {
+      setError(t.records.notBalanced);
+      return false;
+    }
+    const tags = parseTags(form.tags);
+    await onSubmitSplit({
+      date: form.date,
+      description: form.description.trim(),
+      lines: splitLines.map((line) => ({
+        accountId: line.accountId,
+        type: line.type,
+        amount: Number(line.amount),
+        note: line.note.trim() || undefined,
+        rate: Number(line.rate) > 0 ? Number(line.rate) : undefined,
+        quantity: isHoldingLine(line) ? Number(line.quantity) : undefined,
+        lotSelections: isHoldingLine(line) ? line.lotSelections : undefined,
+      })),
+      payee: form.payee.trim() || undefined,
+      tags: tags.length ? tags : undefined,
+    });
+    return true;
+  };
 
   const handleSubmit = async (event: React.FormEvent) => {
     event.preventDefault();
-              if (!userId || !bookId) {
-                setError(t.sync.loginRequired);
-                return;
-              }
     if (!form.description.trim()) {
       setError(t.common.required);
       return;
     }
+    if (isSplit) {
+      setIsSaving(true);
+      setError(null);
+      try {
+        if (await submitSplit()) {
+          setForm(createInitialForm(defaultDebitId, defaultCreditId));
+          setSplitLines([]);
+          onOpenChange(false);
+        }
+      } catch (error) {
+        setError(error instanceof Error ? error.message : t.sync.syncError);
+      } finally {
+        setIsSaving(false);
+      }
+      return;
+    }
     if (!form.debitAccountId || !form.creditAccountId) {
       setError(t.common.required);
       return;
@@ -113,27 +508,20 @@ export function EntryFormDialog({
     setIsSaving(true);
     setError(null);
     try {
-      const tags = form.tags
-        .split(",")
-        .map((tag) => tag.trim())
-        .filter(Boolean);
-                await createSimpleEntryForBook(userId, {
-                  bookId,
-                  date: form.date,
-                  description: form.description.trim(),
-                  debitAccountId: form.debitAccountId,
-                  creditAccountId: form.creditAccountId,
-                  amount,
-                  payee: form.payee.trim() || undefined,
-                  tags: tags.length ? tags : undefined,
-                });
-      await onCreated?.();
+      const tags = parseTags(form.tags);
+      await onSubmit({
+        date: form.date,
+        description: form.description.trim(),
+        debitAccountId: form.debitAccountId,
+        creditAccountId: form.creditAccountId,
+        amount,
+        payee: form.payee.trim() || undefined,
+        tags: tags.length ? tags : undefined,
+      });
       setForm(createInitialForm(defaultDebitId, defaultCreditId));
       onOpenChange(false);
     } catch (error) {
-      setError(
-        error instanceof Error ? error.message : t.sync.syncError,
-      );
+      setError(error instanceof Error ? error.message : t.sync.syncError);
     } finally {
       setIsSaving(false);
     }
@@ -143,17 +531,24 @@ export function EntryFormDialog({
     <Dialog.Root open={open} onOpenChange={onOpenChange}>
       <Dialog.Portal>
         <Dialog.Backdrop className='fixed inset-0 bg-black/40 backdrop-blur-sm' />
-        <Dialog.Popup className='bg-popover fixed top-1/2 left-1/2 w-[min(92vw,520px)] -translate-x-1/2 -translate-y-1/2 rounded-xs border p-4 text-xs shadow-lg'>
-          <Dialog.Title className='text-foreground text-sm font-medium'>
-            {t.records.newEntry}
-          </Dialog.Title>
+        <Dialog.Popup className='bg-popover fixed top-1/2 left-1/2 w-[min(92vw,600px)] -translate-x-1/2 -translate-y-1/2 rounded-xs border p-4 text-xs shadow-lg'>
+          <div className='flex items-center justify-between gap-2'>
+            <Dialog.Title className='text-foreground text-sm font-medium'>
+              {entry ? t.records.editEntry : t.records.newEntry}
+            </Dialog.Title>
+            <Button
+              type='button'
+              size='xs'
+              variant={isSplit ? "secondary" : "ghost"}
+              onClick={handleToggleSplit}>
+              {isSplit ? t.records.simpleMode : t.records.split}
+            </Button>
+          </div>
           <Dialog.Description className='text-muted-foreground mt-1 text-xs'>
             {t.records.flow}
           </Dialog.Description>
 
-          <form
-            className='mt-4 space-y-3'
-            onSubmit={handleSubmit}>
+          <form className='mt-4 space-y-3' onSubmit={handleSubmit}>
             <div className='grid gap-3 md:grid-cols-3'>
               <div className='space-y-2'>
                 <label className='text-muted-foreground text-xs font-medium'>
@@ -161,24 +556,42 @@ export function EntryFormDialog({
                 </label>
                 <input
                   value={form.description}
-                  onChange={(e) => handleInputChange("description", e.target.value)}
+                  onChange={(e) =>
+                    handleInputChange("description", e.target.value)
+                  }
                   className='border-input bg-background h-8 w-full rounded-xs border px-2 text-xs'
                   placeholder={t.records.description}
                 />
               </div>
-              <div className='space-y-2'>
-                <label className='text-muted-foreground text-xs font-medium'>
-                  {t.records.amount}
-                </label>
-                <input
-                  value={form.amount}
-                  onChange={(e) => handleInputChange("amount", e.target.value)}
-                  type='number'
-                  inputMode='decimal'
-                  className='border-input bg-background h-8 w-full rounded-xs border px-2 text-xs'
-                  placeholder={t.records.amount}
-                />
-              </div>
+              {isSplit ? (
+                <div className='space-y-2'>
+                  <label className='text-muted-foreground text-xs font-medium'>
+                    {t.records.payee}
+                  </label>
+                  <input
+                    value={form.payee}
+                    onChange={(e) => handleInputChange("payee", e.target.value)}
+                    className='border-input bg-background h-8 w-full rounded-xs border px-2 text-xs'
+                    placeholder={t.records.payee}
+                  />
+                </div>
+              ) : (
+                <div className='space-y-2'>
+                  <label className='text-muted-foreground text-xs font-medium'>
+                    {t.records.amount}
+                  </label>
+                  <input
+                    value={form.amount}
+                    onChange={(e) =>
+                      handleInputChange("amount", e.target.value)
+                    }
+                    type='number'
+                    inputMode='decimal'
+                    className='border-input bg-background h-8 w-full rounded-xs border px-2 text-xs'
+                    placeholder={t.records.amount}
+                  />
+                </div>
+              )}
               <div className='space-y-2'>
                 <label className='text-muted-foreground text-xs font-medium'>
                   {t.records.date}
@@ -192,49 +605,188 @@ export function EntryFormDialog({
               </div>
             </div>
 
-            <div className='grid gap-3 md:grid-cols-3'>
-              <div className='space-y-2'>
-                <label className='text-muted-foreground text-xs font-medium'>
-                  {t.records.debit}
-                </label>
-                <select
-                  value={form.debitAccountId}
-                  onChange={(e) => handleInputChange("debitAccountId", e.target.value)}
-                  className='border-input bg-background h-8 w-full rounded-xs border px-2 text-xs'>
-                  {accountOptions.map((account) => (
-                    <option key={account.id} value={account.id}>
-                      {account.path}
-                    </option>
-                  ))}
-                </select>
-              </div>
+            {isSplit ? (
               <div className='space-y-2'>
-                <label className='text-muted-foreground text-xs font-medium'>
-                  {t.records.credit}
-                </label>
-                <select
-                  value={form.creditAccountId}
-                  onChange={(e) => handleInputChange("creditAccountId", e.target.value)}
-                  className='border-input bg-background h-8 w-full rounded-xs border px-2 text-xs'>
-                  {accountOptions.map((account) => (
-                    <option key={account.id} value={account.id}>
-                      {account.path}
-                    </option>
-                  ))}
-                </select>
+                {splitLines.map((line, index) => (
+                  <div
+                    key={index}
+                    className={cn(
+                      "grid gap-2",
+                      splitSummary.isCrossCurrency
+                        ? "grid-cols-[1fr_72px_90px_72px] md:grid-cols-[1fr_72px_90px_72px_1fr_auto]"
+                        : "grid-cols-[1fr_72px_90px] md:grid-cols-[1fr_72px_90px_1fr_auto]",
+                    )}>
+                    <select
+                      value={line.accountId}
+                      onChange={(e) =>
+                        handleSplitLineChange(index, {
+                          accountId: e.target.value,
+                        })
+                      }
+                      className='border-input bg-background h-8 w-full rounded-xs border px-2 text-xs'>
+                      <option value=''>{t.records.account}</option>
+                      {accountOptions.map((account) => (
+                        <option key={account.id} value={account.id}>
+                          {account.path}
+                        </option>
+                      ))}
+                    </select>
+                    <select
+                      value={line.type}
+                      onChange={(e) =>
+                        handleSplitLineChange(index, {
+                          type: e.target.value as EntryLineType,
+                        })
+                      }
+                      className='border-input bg-background h-8 w-full rounded-xs border px-2 text-xs'>
+                      <option value={EntryLineType.DEBIT}>
+                        {t.records.debit}
+                      </option>
+                      <option value={EntryLineType.CREDIT}>
+                        {t.records.credit}
+                      </option>
+                    </select>
+                    <input
+                      value={line.amount}
+                      onChange={(e) =>
+                        handleSplitLineChange(index, { amount: e.target.value })
+                      }
+                      type='number'
+                      inputMode='decimal'
+                      className='border-input bg-background h-8 w-full rounded-xs border px-2 text-xs'
+                      placeholder={t.records.amount}
+                    />
+                    {splitSummary.isCrossCurrency ? (
+                      <input
+                        value={line.rate}
+                        onChange={(e) =>
+                          handleSplitLineChange(index, { rate: e.target.value })
+                        }
+                        type='number'
+                        inputMode='decimal'
+                        title={t.records.rateHint}
+                        disabled={getLineCurrency(line) === baseCurrency}
+                        className='border-input bg-background h-8 w-full rounded-xs border px-2 text-xs disabled:opacity-50'
+                        placeholder={getRatePlaceholder(line)}
+                      />
+                    ) : null}
+                    {isHoldingLine(line) ? (
+                      <input
+                        value={line.quantity}
+                        onChange={(e) =>
+                          handleSplitLineChange(index, {
+                            quantity: e.target.value,
+                          })
+                        }
+                        type='number'
+                        inputMode='decimal'
+                        className='border-input bg-background h-8 w-full rounded-xs border px-2 text-xs'
+                        placeholder={t.holdings.quantity}
+                      />
+                    ) : (
+                      <input
+                        value={line.note}
+                        onChange={(e) =>
+                          handleSplitLineChange(index, { note: e.target.value })
+                        }
+                        className='border-input bg-background h-8 w-full rounded-xs border px-2 text-xs'
+                        placeholder={t.records.lineNote}
+                      />
+                    )}
+                    <Button
+                      type='button'
+                      size='xs'
+                      variant='ghost'
+                      className='h-8'
+                      disabled={splitLines.length <= 2}
+                      onClick={() => handleRemoveSplitLine(index)}>
+                      {t.records.removeLine}
+                    </Button>
+                  </div>
+                ))}
+                <div className='flex flex-wrap items-center justify-between gap-2'>
+                  <Button
+                    type='button'
+                    size='xs'
+                    variant='outline'
+                    onClick={handleAddSplitLine}>
+                    {t.records.addLine}
+                  </Button>
+                  <div className='text-muted-foreground flex flex-wrap items-center gap-3'>
+                    <span>
+                      {t.records.totalDebit}: {splitSummary.debit}
+                    </span>
+                    <span>
+                      {t.records.totalCredit}: {splitSummary.credit}
+                    </span>
+                    {splitSummary.isBalanced ? (
+                      <span className='font-medium text-emerald-600'>
+                        {t.records.balanced}
+                      </span>
+                    ) : splitSummary.isCrossCurrency ? (
+                      <span className='font-medium text-amber-600'>
+                        {splitSummary.isFxGain
+                          ? t.records.fxGain
+                          : t.records.fxLoss}
+                        : {splitSummary.imbalance}
+                      </span>
+                    ) : (
+                      <span className='text-destructive font-medium'>
+                        {t.records.imbalance}: {splitSummary.imbalance}
+                      </span>
+                    )}
+                  </div>
+                </div>
               </div>
-              <div className='space-y-2'>
-                <label className='text-muted-foreground text-xs font-medium'>
-                  {t.records.payee}
-                </label>
-                <input
-                  value={form.payee}
-                  onChange={(e) => handleInputChange("payee", e.target.value)}
-                  className='border-input bg-background h-8 w-full rounded-xs border px-2 text-xs'
-                  placeholder={t.records.payee}
-                />
+            ) : (
+              <div className='grid gap-3 md:grid-cols-3'>
+                <div className='space-y-2'>
+                  <label className='text-muted-foreground text-xs font-medium'>
+                    {t.records.debit}
+                  </label>
+                  <select
+                    value={form.debitAccountId}
+                    onChange={(e) =>
+                      handleInputChange("debitAccountId", e.target.value)
+                    }
+                    className='border-input bg-background h-8 w-full rounded-xs border px-2 text-xs'>
+                    {accountOptions.map((account) => (
+                      <option key={account.id} value={account.id}>
+                        {account.path}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className='space-y-2'>
+                  <label className='text-muted-foreground text-xs font-medium'>
+                    {t.records.credit}
+                  </label>
+                  <select
+                    value={form.creditAccountId}
+                    onChange={(e) =>
+                      handleInputChange("creditAccountId", e.target.value)
+                    }
+                    className='border-input bg-background h-8 w-full rounded-xs border px-2 text-xs'>
+                    {accountOptions.map((account) => (
+                      <option key={account.id} value={account.id}>
+                        {account.path}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className='space-y-2'>
+                  <label className='text-muted-foreground text-xs font-medium'>
+                    {t.records.payee}
+                  </label>
+                  <input
+                    value={form.payee}
+                    onChange={(e) => handleInputChange("payee", e.target.value)}
+                    className='border-input bg-background h-8 w-full rounded-xs border px-2 text-xs'
+                    placeholder={t.records.payee}
+                  />
+                </div>
               </div>
-            </div>
+            )}
 
             <div className='space-y-2'>
               <label className='text-muted-foreground text-xs font-medium'>
@@ -248,9 +800,15 @@ export function EntryFormDialog({
               />
             </div>
 
-            {isCurrencyMismatch ? (
+            {appliedRule ? (
+              <p className='text-muted-foreground text-xs'>
+                {t.rules.applied}: {appliedRule.name}
+              </p>
+            ) : null}
+
+            {!isSplit && isCurrencyMismatch ? (
               <p className='text-destructive text-xs'>
-                {t.records.currencyMismatch}
+                {t.records.currencyMismatch} · {t.records.useSplitForFx}
               </p>
             ) : null}
             {error ? <p className='text-destructive text-xs'>{error}</p> : null}
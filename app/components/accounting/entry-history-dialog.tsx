@@ -0,0 +1,201 @@
+import { Dialog } from "@base-ui/react/dialog";
+import { useEffect, useMemo, useState } from "react";
+import type {
+  AccountData,
+  EntryDiffField,
+  EntryLineData,
+  EntryRevision,
+  EntryRevisionAction,
+  JournalEntryData,
+} from "~/lib/double-entry/types";
+import { diffEntries } from "~/lib/double-entry/entry";
+import { formatEntryLine } from "~/lib/accounting/view";
+import { useI18n } from "~/lib/i18n";
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+
+interface EntryHistoryDialogProps {
+  entry: JournalEntryData | null;
+  onOpenChange: (open: boolean) => void;
+  accounts: AccountData[];
+  currentUserId?: string;
+  canWrite: boolean;
+  loadHistory: (entryId: string) => Promise<EntryRevision[]>;
+  onRestore: (entryId: string, revision: EntryRevision) => Promise<void>;
+}
+
+export function EntryHistoryDialog({
+  entry,
+  onOpenChange,
+  accounts,
+  currentUserId,
+  canWrite,
+  loadHistory,
+  onRestore,
+}: EntryHistoryDialogProps) {
+  const { t } = useI18n();
+  const [revisions, setRevisions] = useState<EntryRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  const entryId = entry?.id ?? null;
+
+  useEffect(() => {
+    if (!entryId) return;
+    let active = true;
+    setIsLoading(true);
+    setError(null);
+    loadHistory(entryId)
+      .then((items) => {
+        if (active) setRevisions(items);
+      })
+      .catch((error) => {
+        if (active) {
+          setError(error instanceof Error ? error.message : t.common.error);
+        }
+      })
+      .finally(() => {
+        if (active) setIsLoading(false);
+      });
+    return () => {
+      active = false;
+    };
+  }, [entryId]);
+
+  // 每条修订与其之后的版本比较（最新一条与当前分录比较）
+  const timeline = useMemo(() => {
+    if (!entry) return [];
+    const accountMap = new Map(accounts.map((a) => [a.id, a]));
+    const formatLine = (line: EntryLineData) =>
+      formatEntryLine(line, accountMap, {
+        debit: t.records.debit,
+        credit: t.records.credit,
+      });
+    return revisions.map((revision, index) => {
+      const after = index === 0 ? entry : revisions[index - 1].snapshot;
+      return {
+        revision,
+        changes: diffEntries(revision.snapshot, after, formatLine),
+      };
+    });
+  }, [entry, revisions, accounts, t]);
+
+  const actionLabels: Record<EntryRevisionAction, string> = {
+    update: t.history.actionUpdate,
+    delete: t.history.actionDelete,
+    restore: t.history.actionRestore,
+  };
+  const fieldLabels: Record<EntryDiffField, string> = {
+    date: t.records.date,
+    description: t.records.description,
+    payee: t.records.payee,
+    note: t.conflict.note,
+    tags: t.records.tags,
+    lines: t.conflict.lines,
+  };
+
+  const handleRestore = async (revision: EntryRevision) => {
+    if (!entry) return;
+    setRestoringId(revision.id);
+    setError(null);
+    try {
+      await onRestore(entry.id, revision);
+      onOpenChange(false);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : t.common.error);
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  return (
+    <Dialog.Root open={!!entry} onOpenChange={onOpenChange}>
+      <Dialog.Portal>
+        <Dialog.Backdrop className='fixed inset-0 bg-black/40 backdrop-blur-sm' />
+        <Dialog.Popup className='bg-popover fixed top-1/2 left-1/2 max-h-[85vh] w-[min(92vw,560px)] -translate-x-1/2 -translate-y-1/2 overflow-y-auto rounded-xs border p-4 text-xs shadow-lg'>
+          <Dialog.Title className='text-foreground text-sm font-medium'>
+            {t.history.title}
+          </Dialog.Title>
+          <Dialog.Description className='text-muted-foreground mt-1 text-xs'>
+            {entry?.description ?? t.history.description}
+          </Dialog.Description>
+
+          {error ? (
+            <p className='text-destructive mt-3 text-xs'>{error}</p>
+          ) : null}
+
+          <div className='mt-4 space-y-3'>
+            {isLoading ? (
+              <p className='text-muted-foreground'>{t.common.loading}</p>
+            ) : timeline.length === 0 ? (
+              <p className='text-muted-foreground'>{t.history.empty}</p>
+            ) : (
+              timeline.map(({ revision, changes }) => (
+                <div
+                  key={revision.id}
+                  className='border-muted relative space-y-2 border-l-2 pl-3'>
+                  <div className='flex items-center justify-between gap-2'>
+                    <div className='flex flex-wrap items-center gap-2'>
+                      <Badge variant='outline'>
+                        {actionLabels[revision.action]}
+                      </Badge>
+                      <span className='text-muted-foreground'>
+                        {new Date(revision.changedAt).toLocaleString()}
+                      </span>
+                      <span className='text-muted-foreground'>
+                        {revision.changedBy === currentUserId
+                          ? t.history.you
+                          : (revision.changedBy ?? "-")}
+                      </span>
+                    </div>
+                    {canWrite ? (
+                      <Button
+                        size='xs'
+                        variant='outline'
+                        title={t.history.restoreHint}
+                        disabled={restoringId !== null}
+                        onClick={() => handleRestore(revision)}>
+                        {t.history.restore}
+                      </Button>
+                    ) : null}
+                  </div>
+                  {changes.length > 0 ? (
+                    <div className='overflow-hidden rounded-xs border'>
+                      <div className='bg-muted/50 text-muted-foreground grid grid-cols-[80px_1fr_1fr] gap-2 px-2 py-1 text-[10px] uppercase'>
+                        <span>{t.conflict.field}</span>
+                        <span>{t.history.before}</span>
+                        <span>{t.history.after}</span>
+                      </div>
+                      {changes.map((change) => (
+                        <div
+                          key={change.field}
+                          className='grid grid-cols-[80px_1fr_1fr] gap-2 border-t px-2 py-1.5'>
+                          <span className='text-muted-foreground'>
+                            {fieldLabels[change.field]}
+                          </span>
+                          <span className='whitespace-pre-wrap line-through opacity-70'>
+                            {change.before || "-"}
+                          </span>
+                          <span className='text-foreground whitespace-pre-wrap'>
+                            {change.after || "-"}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  ) : null}
+                </div>
+              ))
+            )}
+          </div>
+
+          <div className='flex items-center justify-end pt-4'>
+            <Dialog.Close className='text-muted-foreground hover:bg-muted rounded-xs border px-2 py-1 text-xs'>
+              {t.common.cancel}
+            </Dialog.Close>
+          </div>
+        </Dialog.Popup>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
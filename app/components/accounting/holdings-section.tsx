@@ -0,0 +1,333 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import type { MarketQuote } from "~/lib/market-data/types";
+import type { BookData, CorporateAction } from "~/lib/double-entry/types";
+import { getHoldings } from "~/lib/double-entry/holdings";
+import { buildHoldingRows, type HoldingRow } from "~/lib/accounting/view";
+import type { SplitEntryInput } from "~/lib/accounting/book-service";
+import { useI18n } from "~/lib/i18n";
+import { cn } from "~/lib/utils";
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+import { TradeDialog, type TradeSide } from "./trade-dialog";
+import { DividendDialog } from "./dividend-dialog";
+import { CorporateActionDialog } from "./corporate-action-dialog";
+
+interface HoldingsSectionProps {
+  book: BookData;
+  canWrite: boolean;
+  onTrade: (input: SplitEntryInput) => Promise<void>;
+  onCorporateAction: (action: CorporateAction) => Promise<void>;
+}
+
+// 浮动盈亏颜色：盈利绿色、亏损红色
+function gainClassName(isGain: boolean | null) {
+  if (isGain === null) return "text-muted-foreground";
+  return isGain ? "text-emerald-600" : "text-destructive";
+}
+
+/**
+ * 持仓：按 /api/quote 的最新价格估值，展开查看每个批次的浮动盈亏
+ */
+export function HoldingsSection({
+  book,
+  canWrite,
+  onTrade,
+  onCorporateAction,
+}: HoldingsSectionProps) {
+  const { t } = useI18n();
+  const [prices, setPrices] = useState<Record<string, number>>({});
+  const [isQuoting, setIsQuoting] = useState(false);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [trade, setTrade] = useState<{
+    accountId: string;
+    side: TradeSide;
+  } | null>(null);
+  const [dividendAccountId, setDividendAccountId] = useState<string | null>(
+    null,
+  );
+  const [actionAccountId, setActionAccountId] = useState<string | null>(null);
+
+  const holdingAccounts = useMemo(
+    () => getHoldings(book).map((holding) => holding.account),
+    [book],
+  );
+  const symbolKey = useMemo(
+    () =>
+      [...new Set(holdingAccounts.map((account) => account.commodity!))]
+        .sort()
+        .join(","),
+    [holdingAccounts],
+  );
+  const rows = useMemo(() => buildHoldingRows(book, prices), [book, prices]);
+
+  const fetchPrices = useCallback(async () => {
+    if (!symbolKey) return;
+    setIsQuoting(true);
+    try {
+      const response = await fetch(`/api/quote?symbols=${symbolKey}`);
+      const data = await response.json();
+      const next: Record<string, number> = {};
+      for (const quote of (data.quotes ?? []) as MarketQuote[]) {
+        if (typeof quote.price === "number") {
+          next[quote.symbol] = quote.price;
+        }
+      }
+      setPrices(next);
+    } catch (error) {
+      console.error("Failed to fetch holding quotes:", error);
+    } finally {
+      setIsQuoting(false);
+    }
+  }, [symbolKey]);
+
+  useEffect(() => {
+    void fetchPrices();
+  }, [fetchPrices]);
+
+  if (holdingAccounts.length === 0) return null;
+
+  const toggle = (accountId: string) => {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(accountId)) {
+        next.delete(accountId);
+      } else {
+        next.add(accountId);
+      }
+      return next;
+    });
+  };
+
+  // 已清仓的持仓账户仍可买入
+  const emptyAccounts = holdingAccounts.filter(
+    (account) => !rows.some((row) => row.accountId === account.id),
+  );
+
+  return (
+    <section className='space-y-2'>
+      <div className='flex items-center justify-between gap-2'>
+        <p className='text-muted-foreground text-[10px] tracking-[0.2em] uppercase'>
+          {t.holdings.title}
+        </p>
+        <Button
+          variant='ghost'
+          size='xs'
+          disabled={isQuoting}
+          onClick={() => void fetchPrices()}>
+          {isQuoting ? t.common.loading : t.holdings.refresh}
+        </Button>
+      </div>
+      <div className='bg-card overflow-x-auto rounded-xs border shadow-sm'>
+        <table className='w-full text-xs'>
+          <thead className='text-muted-foreground'>
+            <tr className='border-b'>
+              <th className='px-2 py-1.5 text-left font-medium'>
+                {t.holdings.symbol}
+              </th>
+              <th className='px-2 py-1.5 text-right font-medium'>
+                {t.holdings.quantity}
+              </th>
+              <th className='px-2 py-1.5 text-right font-medium'>
+                {t.holdings.averageCost}
+              </th>
+              <th className='px-2 py-1.5 text-right font-medium'>
+                {t.holdings.price}
+              </th>
+              <th className='px-2 py-1.5 text-right font-medium'>
+                {t.holdings.costBasis}
+              </th>
+              <th className='px-2 py-1.5 text-right font-medium'>
+                {t.holdings.marketValue}
+              </th>
+              <th className='px-2 py-1.5 text-right font-medium'>
+                {t.holdings.unrealized}
+              </th>
+              <th className='px-2 py-1.5' />
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <HoldingRows
+                key={row.accountId}
+                row={row}
+                expanded={expanded.has(row.accountId)}
+                canWrite={canWrite}
+                onToggle={() => toggle(row.accountId)}
+                onTrade={(side) => setTrade({ accountId: row.accountId, side })}
+                onDividend={() => setDividendAccountId(row.accountId)}
+                onCorporateAction={() => setActionAccountId(row.accountId)}
+              />
+            ))}
+            {emptyAccounts.map((account) => (
+              <tr key={account.id} className='border-t'>
+                <td className='px-2 py-1.5' colSpan={7}>
+                  <span className='font-medium'>{account.commodity}</span>{" "}
+                  <span className='text-muted-foreground'>
+                    {account.path} · {t.holdings.noPosition}
+                  </span>
+                </td>
+                <td className='px-2 py-1.5 text-right'>
+                  <Button
+                    variant='ghost'
+                    size='xs'
+                    disabled={!canWrite}
+                    onClick={() =>
+                      setTrade({ accountId: account.id, side: "buy" })
+                    }>
+                    {t.holdings.trade}
+                  </Button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <TradeDialog
+        open={trade !== null}
+        onOpenChange={(open) => {
+          if (!open) setTrade(null);
+        }}
+        book={book}
+        holdingAccountId={trade?.accountId ?? null}
+        side={trade?.side ?? "buy"}
+        onSubmit={onTrade}
+      />
+      <DividendDialog
+        open={dividendAccountId !== null}
+        onOpenChange={(open) => {
+          if (!open) setDividendAccountId(null);
+        }}
+        book={book}
+        holdingAccountId={dividendAccountId}
+        onSubmit={onTrade}
+      />
+      <CorporateActionDialog
+        open={actionAccountId !== null}
+        onOpenChange={(open) => {
+          if (!open) setActionAccountId(null);
+        }}
+        book={book}
+        holdingAccountId={actionAccountId}
+        onSubmit={onCorporateAction}
+      />
+    </section>
+  );
+}
+
+function HoldingRows({
+  row,
+  expanded,
+  canWrite,
+  onToggle,
+  onTrade,
+  onDividend,
+  onCorporateAction,
+}: {
+  row: HoldingRow;
+  expanded: boolean;
+  canWrite: boolean;
+  onToggle: () => void;
+  onTrade: (side: TradeSide) => void;
+  onDividend: () => void;
+  onCorporateAction: () => void;
+}) {
+  const { t } = useI18n();
+  const missing = "—";
+  return (
+    <>
+      <tr
+        className='hover:bg-muted/40 cursor-pointer border-t'
+        onClick={onToggle}>
+        <td className='px-2 py-1.5'>
+          <div className='flex items-center gap-2'>
+            <span className='font-medium'>{row.symbol}</span>
+            <Badge variant='outline' className='text-[10px]'>
+              {row.lots.length} {t.holdings.lots}
+            </Badge>
+          </div>
+          <p className='text-muted-foreground text-[10px]'>{row.path}</p>
+        </td>
+        <td className='px-2 py-1.5 text-right'>{row.quantity}</td>
+        <td className='px-2 py-1.5 text-right'>{row.averageCost ?? missing}</td>
+        <td className='px-2 py-1.5 text-right'>{row.price ?? missing}</td>
+        <td className='px-2 py-1.5 text-right'>{row.cost}</td>
+        <td className='px-2 py-1.5 text-right'>{row.marketValue ?? missing}</td>
+        <td
+          className={cn(
+            "px-2 py-1.5 text-right font-medium",
+            gainClassName(row.isGain),
+          )}>
+          {row.unrealized ?? missing}
+          {row.unrealizedPercent !== null ? (
+            <span className='ml-1 text-[10px]'>
+              ({row.unrealizedPercent.toFixed(2)}%)
+            </span>
+          ) : null}
+        </td>
+        <td className='px-2 py-1.5 text-right'>
+          <Button
+            variant='ghost'
+            size='xs'
+            disabled={!canWrite}
+            onClick={(event) => {
+              event.stopPropagation();
+              onTrade("buy");
+            }}>
+            {t.holdings.buy}
+          </Button>
+          <Button
+            variant='ghost'
+            size='xs'
+            disabled={!canWrite}
+            onClick={(event) => {
+              event.stopPropagation();
+              onTrade("sell");
+            }}>
+            {t.holdings.sell}
+          </Button>
+          <Button
+            variant='ghost'
+            size='xs'
+            disabled={!canWrite}
+            onClick={(event) => {
+              event.stopPropagation();
+              onDividend();
+            }}>
+            {t.dividends.dividend}
+          </Button>
+          <Button
+            variant='ghost'
+            size='xs'
+            disabled={!canWrite}
+            onClick={(event) => {
+              event.stopPropagation();
+              onCorporateAction();
+            }}>
+            {t.dividends.corporateActions}
+          </Button>
+        </td>
+      </tr>
+      {expanded
+        ? row.lots.map((lot) => (
+            <tr key={lot.key} className='bg-muted/20 text-muted-foreground'>
+              <td className='py-1 pr-2 pl-6'>{lot.date}</td>
+              <td className='px-2 py-1 text-right'>{lot.quantity}</td>
+              <td className='px-2 py-1' colSpan={2} />
+              <td className='px-2 py-1 text-right'>{lot.cost}</td>
+              <td className='px-2 py-1 text-right'>
+                {lot.marketValue ?? missing}
+              </td>
+              <td
+                className={cn(
+                  "px-2 py-1 text-right",
+                  gainClassName(lot.isGain),
+                )}>
+                {lot.unrealized ?? missing}
+              </td>
+              <td />
+            </tr>
+          ))
+        : null}
+    </>
+  );
+}
@@ -0,0 +1,211 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import type { BookData } from "~/lib/double-entry/types";
+import {
+  PERFORMANCE_RANGES,
+  type PerformanceRange,
+  type PricePoint,
+} from "~/lib/double-entry/performance";
+import { normalizeCommodity } from "~/lib/double-entry/holdings";
+import {
+  buildPerformanceRootOptions,
+  buildPerformanceView,
+} from "~/lib/accounting/view";
+import { useI18n } from "~/lib/i18n";
+import { cn } from "~/lib/utils";
+import { Button } from "~/components/ui/button";
+
+const inputClassName =
+  "border-input bg-background h-8 rounded-xs border px-2 text-xs";
+
+const DEFAULT_BENCHMARK = "QQQ";
+
+// 各业绩区间请求的 /api/chart 范围（日线且覆盖区间起点）
+const CHART_RANGES: Record<PerformanceRange, string> = {
+  "1M": "3M",
+  "3M": "6M",
+  "1Y": "2Y",
+  YTD: "2Y",
+  ALL: "MAX",
+};
+
+type ChartQuote = { date: string; close: number | null };
+
+// 同一天多根 K 线时取最后一根的收盘价
+function toPricePoints(quotes: ChartQuote[]): PricePoint[] {
+  const closes = new Map<string, number>();
+  for (const quote of quotes) {
+    if (typeof quote.close !== "number") continue;
+    closes.set(quote.date.slice(0, 10), quote.close);
+  }
+  return Array.from(closes.entries())
+    .map(([date, close]) => ({ date, close }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+function formatPercent(value: number | null): string {
+  return value === null ? "—" : `${(value * 100).toFixed(2)}%`;
+}
+
+function percentClassName(value: number | null) {
+  if (value === null || value === 0) return "text-muted-foreground";
+  return value > 0 ? "text-emerald-600" : "text-destructive";
+}
+
+/**
+ * 投资业绩：投资账户子树的 TWR、XIRR 与基准收益对比
+ */
+export function PerformancePanel({ book }: { book: BookData }) {
+  const { t } = useI18n();
+  const roots = useMemo(() => buildPerformanceRootOptions(book), [book]);
+  const [rootId, setRootId] = useState<string | null>(null);
+  const [range, setRange] = useState<PerformanceRange>("1Y");
+  const [benchmarkInput, setBenchmarkInput] = useState(DEFAULT_BENCHMARK);
+  const [benchmark, setBenchmark] = useState(DEFAULT_BENCHMARK);
+  const [prices, setPrices] = useState<Record<string, PricePoint[]>>({});
+  const [isLoading, setIsLoading] = useState(false);
+
+  // 默认选第一个非根账户（通常是券商账户）
+  const root =
+    roots.find((option) => option.id === rootId) ??
+    roots.find((option) => option.path.includes(":")) ??
+    roots[0];
+  const symbolKey = root
+    ? [...new Set([...root.symbols, benchmark])].filter(Boolean).join(",")
+    : "";
+  const today = new Date().toISOString().split("T")[0];
+
+  const fetchPrices = useCallback(async () => {
+    if (!symbolKey) return;
+    setIsLoading(true);
+    try {
+      const entries = await Promise.all(
+        symbolKey.split(",").map(async (symbol) => {
+          const response = await fetch(
+            `/api/chart?symbol=${encodeURIComponent(symbol)}&range=${CHART_RANGES[range]}`,
+          );
+          const data = await response.json();
+          return [symbol, toPricePoints(data.chart ?? [])] as const;
+        }),
+      );
+      setPrices(Object.fromEntries(entries));
+    } catch (error) {
+      console.error("Failed to fetch performance prices:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [symbolKey, range]);
+
+  useEffect(() => {
+    void fetchPrices();
+  }, [fetchPrices]);
+
+  const view = useMemo(
+    () =>
+      root
+        ? buildPerformanceView(book, root.id, range, today, prices, benchmark)
+        : null,
+    [book, root, range, today, prices, benchmark],
+  );
+
+  if (!root || !view) {
+    return (
+      <p className='text-muted-foreground text-xs'>
+        {t.performance.noInvestments}
+      </p>
+    );
+  }
+
+  const stats = [
+    { label: t.performance.startValue, value: view.startValue },
+    { label: t.performance.netFlows, value: view.netFlows },
+    { label: t.performance.endValue, value: view.endValue },
+    {
+      label: t.performance.gain,
+      value: view.gain,
+      className: view.isLoss ? "text-destructive" : "text-emerald-600",
+    },
+  ];
+  const returns = [
+    { label: t.performance.twr, value: view.twr },
+    { label: t.performance.xirr, value: view.xirr },
+    { label: `${t.performance.benchmark} ${benchmark}`, value: view.benchmark },
+    { label: t.performance.excess, value: view.excess },
+  ];
+
+  return (
+    <section className='space-y-3'>
+      <div className='flex flex-wrap items-center gap-2 text-xs'>
+        <select
+          value={root.id}
+          onChange={(e) => setRootId(e.target.value)}
+          className={inputClassName}>
+          {roots.map((option) => (
+            <option key={option.id} value={option.id}>
+              {option.path}
+            </option>
+          ))}
+        </select>
+        {PERFORMANCE_RANGES.map((item) => (
+          <Button
+            key={item}
+            variant={range === item ? "default" : "ghost"}
+            size='xs'
+            onClick={() => setRange(item)}>
+            {t.performance.ranges[item]}
+          </Button>
+        ))}
+        <form
+          className='flex items-center gap-2'
+          onSubmit={(e) => {
+            e.preventDefault();
+            setBenchmark(normalizeCommodity(benchmarkInput));
+          }}>
+          <label className='text-muted-foreground'>
+            {t.performance.benchmark}
+          </label>
+          <input
+            value={benchmarkInput}
+            onChange={(e) => setBenchmarkInput(e.target.value)}
+            className={cn(inputClassName, "w-20")}
+          />
+          <Button type='submit' variant='outline' size='xs'>
+            {t.performance.compare}
+          </Button>
+        </form>
+        {isLoading ? (
+          <span className='text-muted-foreground'>{t.common.loading}</span>
+        ) : null}
+      </div>
+      <p className='text-muted-foreground text-[10px]'>
+        {view.range.start} ~ {view.range.end}
+      </p>
+      <div className='grid gap-3 md:grid-cols-4'>
+        {stats.map((stat) => (
+          <div
+            key={stat.label}
+            className='bg-card space-y-1 rounded-xs border p-3 shadow-sm'>
+            <p className='text-muted-foreground text-[10px]'>{stat.label}</p>
+            <p className={cn("text-sm font-semibold", stat.className)}>
+              {stat.value}
+            </p>
+          </div>
+        ))}
+        {returns.map((item) => (
+          <div
+            key={item.label}
+            className='bg-card space-y-1 rounded-xs border p-3 shadow-sm'>
+            <p className='text-muted-foreground text-[10px]'>{item.label}</p>
+            <p
+              className={cn(
+                "text-sm font-semibold",
+                percentClassName(item.value),
+              )}>
+              {formatPercent(item.value)}
+            </p>
+          </div>
+        ))}
+      </div>
+      <p className='text-muted-foreground text-[10px]'>{t.performance.hint}</p>
+    </section>
+  );
+}
@@ -0,0 +1,162 @@
+import { Dialog } from "@base-ui/react/dialog";
+import { useEffect, useState } from "react";
+import type { PlainTextFormat } from "~/lib/double-entry/plaintext";
+import { useI18n } from "~/lib/i18n";
+import { Button } from "~/components/ui/button";
+
+interface PlainTextDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  bookName: string;
+  canWrite: boolean;
+  onExport: (format: PlainTextFormat) => Promise<string>;
+  onImport: (text: string, format: PlainTextFormat) => Promise<void>;
+}
+
+const FORMATS: PlainTextFormat[] = ["beancount", "ledger"];
+
+const FILE_EXTENSIONS: Record<PlainTextFormat, string> = {
+  beancount: "beancount",
+  ledger: "ledger",
+};
+
+const selectClassName =
+  "border-input bg-background h-8 w-full rounded-xs border px-2 text-xs";
+
+// 以文件形式下载文本
+function downloadText(text: string, fileName: string) {
+  const url = URL.createObjectURL(
+    new Blob([text], { type: "text/plain;charset=utf-8" }),
+  );
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function PlainTextDialog({
+  open,
+  onOpenChange,
+  bookName,
+  canWrite,
+  onExport,
+  onImport,
+}: PlainTextDialogProps) {
+  const { t } = useI18n();
+  const [format, setFormat] = useState<PlainTextFormat>("beancount");
+  const [file, setFile] = useState<File | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setFile(null);
+    setError(null);
+    setMessage(null);
+  }, [open]);
+
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    setError(null);
+    setMessage(null);
+    try {
+      await action();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : t.common.error);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleExport = () =>
+    run(async () => {
+      const text = await onExport(format);
+      downloadText(text, `${bookName}.${FILE_EXTENSIONS[format]}`);
+    });
+
+  const handleImport = () => {
+    if (!file) return;
+    void run(async () => {
+      await onImport(await file.text(), format);
+      setFile(null);
+      setMessage(t.plainText.imported);
+    });
+  };
+
+  return (
+    <Dialog.Root open={open} onOpenChange={onOpenChange}>
+      <Dialog.Portal>
+        <Dialog.Backdrop className='fixed inset-0 bg-black/40 backdrop-blur-sm' />
+        <Dialog.Popup className='bg-popover fixed top-1/2 left-1/2 max-h-[85vh] w-[min(92vw,520px)] -translate-x-1/2 -translate-y-1/2 overflow-y-auto rounded-xs border p-4 text-xs shadow-lg'>
+          <Dialog.Title className='text-foreground text-sm font-medium'>
+            {t.plainText.title}
+          </Dialog.Title>
+          <Dialog.Description className='text-muted-foreground mt-1 text-xs'>
+            {t.plainText.description}
+          </Dialog.Description>
+
+          <div className='mt-4 space-y-4'>
+            <div className='space-y-2'>
+              <label className='text-muted-foreground text-xs font-medium'>
+                {t.plainText.format}
+              </label>
+              <select
+                value={format}
+                onChange={(e) => setFormat(e.target.value as PlainTextFormat)}
+                className={selectClassName}>
+                {FORMATS.map((item) => (
+                  <option key={item} value={item}>
+                    {t.plainText.formats[item]}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className='flex items-center justify-between gap-2'>
+              <p className='text-muted-foreground'>{t.plainText.exportHint}</p>
+              <Button
+                variant='outline'
+                size='xs'
+                disabled={isBusy}
+                onClick={() => void handleExport()}>
+                {t.plainText.export}
+              </Button>
+            </div>
+
+            <div className='space-y-2'>
+              <label className='text-muted-foreground text-xs font-medium'>
+                {t.plainText.file}
+              </label>
+              <div className='flex items-center gap-2'>
+                <input
+                  type='file'
+                  accept='.beancount,.bean,.ledger,.journal,.dat,.txt,text/plain'
+                  disabled={!canWrite}
+                  onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                  className='border-input bg-background h-8 w-full rounded-xs border px-2 py-1 text-xs'
+                />
+                <Button
+                  size='xs'
+                  disabled={!canWrite || !file || isBusy}
+                  onClick={handleImport}>
+                  {t.plainText.import}
+                </Button>
+              </div>
+              <p className='text-muted-foreground'>{t.plainText.importHint}</p>
+            </div>
+            {message ? <p className='text-foreground'>{message}</p> : null}
+            {error ? <p className='text-destructive'>{error}</p> : null}
+          </div>
+
+          <div className='flex items-center justify-end gap-2 pt-4'>
+            <Dialog.Close className='text-muted-foreground hover:bg-muted rounded-xs border px-2 py-1 text-xs'>
+              {t.plainText.close}
+            </Dialog.Close>
+          </div>
+        </Dialog.Popup>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
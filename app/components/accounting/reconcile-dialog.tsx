@@ -0,0 +1,473 @@
+import { Dialog } from "@base-ui/react/dialog";
+import { useEffect, useMemo, useState } from "react";
+import type {
+  AccountData,
+  BalanceAssertion,
+  BookData,
+  Reconciliation,
+} from "~/lib/double-entry/types";
+import { AccountType } from "~/lib/double-entry/types";
+import {
+  createMoney,
+  formatMoney,
+  fromMainUnit,
+} from "~/lib/double-entry/money";
+import {
+  checkBalanceAssertions,
+  createBalanceAssertion,
+  createReconciliation,
+  getClearedBalance,
+  getReconcileLines,
+} from "~/lib/double-entry/reconcile";
+import { useI18n } from "~/lib/i18n";
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+import { ConfirmPopover } from "~/components/confirm-popover";
+import { cn } from "~/lib/utils";
+
+interface ReconcileDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  book: BookData;
+  canWrite: boolean;
+  onSaveReconciliations: (reconciliations: Reconciliation[]) => Promise<void>;
+  onSetLineCleared: (
+    entryId: string,
+    lineIndex: number,
+    cleared: boolean,
+  ) => Promise<void>;
+  onFinish: (reconciliationId: string) => Promise<void>;
+  onSaveAssertions: (assertions: BalanceAssertion[]) => Promise<void>;
+}
+
+const inputClassName =
+  "border-input bg-background h-8 w-full rounded-xs border px-2 text-xs";
+
+function createInitialForm() {
+  return {
+    accountId: "",
+    date: new Date().toISOString().split("T")[0],
+    amount: "",
+  };
+}
+
+export function ReconcileDialog({
+  open,
+  onOpenChange,
+  book,
+  canWrite,
+  onSaveReconciliations,
+  onSetLineCleared,
+  onFinish,
+  onSaveAssertions,
+}: ReconcileDialogProps) {
+  const { t } = useI18n();
+  const [form, setForm] = useState(createInitialForm);
+  const [assertionForm, setAssertionForm] = useState(createInitialForm);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setForm(createInitialForm());
+    setAssertionForm(createInitialForm());
+    setError(null);
+  }, [open]);
+
+  // 只能对资产、负债的非根账户对账
+  const accountOptions = useMemo(
+    () =>
+      book.accounts.filter(
+        (account) =>
+          !account.archived &&
+          account.parentId !== null &&
+          (account.type === AccountType.ASSETS ||
+            account.type === AccountType.LIABILITIES),
+      ),
+    [book.accounts],
+  );
+  const accountMap = useMemo(
+    () => new Map(book.accounts.map((account) => [account.id, account])),
+    [book.accounts],
+  );
+
+  const reconciliations = book.reconciliations ?? [];
+  const assertions = book.balanceAssertions ?? [];
+  const active = reconciliations.find((r) => r.status === "open");
+  const activeAccount = active ? accountMap.get(active.accountId) : undefined;
+  const lines = active && activeAccount ? getReconcileLines(book, active) : [];
+  const cleared = active && activeAccount ? getClearedBalance(book, active) : 0;
+  const difference = active ? active.statementBalance - cleared : 0;
+  const checks = checkBalanceAssertions(book);
+  const finished = reconciliations.filter((r) => r.status === "finished");
+
+  const format = (amount: number, account?: AccountData) =>
+    formatMoney(createMoney(amount, account?.currency ?? book.defaultCurrency));
+
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : t.common.error);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  // 解析表单：账户和金额（账户币种）
+  const parseForm = (value: ReturnType<typeof createInitialForm>) => {
+    const account = accountMap.get(value.accountId);
+    if (!account) {
+      setError(t.reconcile.accountRequired);
+      return null;
+    }
+    const amount = Number(value.amount);
+    if (value.amount.trim() === "" || !Number.isFinite(amount)) {
+      setError(t.records.invalidAmount);
+      return null;
+    }
+    return {
+      accountId: account.id,
+      amount: fromMainUnit(amount, account.currency).amount,
+    };
+  };
+
+  const handleStart = (event: React.FormEvent) => {
+    event.preventDefault();
+    const parsed = parseForm(form);
+    if (!parsed || !form.date) return;
+    void run(() =>
+      onSaveReconciliations([
+        ...reconciliations,
+        createReconciliation({
+          accountId: parsed.accountId,
+          statementDate: form.date,
+          statementBalance: parsed.amount,
+        }),
+      ]),
+    );
+  };
+
+  const handleDiscard = () => {
+    if (!active) return;
+    void run(() =>
+      onSaveReconciliations(reconciliations.filter((r) => r.id !== active.id)),
+    );
+  };
+
+  const handleAddAssertion = (event: React.FormEvent) => {
+    event.preventDefault();
+    const parsed = parseForm(assertionForm);
+    if (!parsed || !assertionForm.date) return;
+    void run(async () => {
+      await onSaveAssertions([
+        ...assertions,
+        createBalanceAssertion({
+          accountId: parsed.accountId,
+          date: assertionForm.date,
+          amount: parsed.amount,
+        }),
+      ]);
+      setAssertionForm(createInitialForm());
+    });
+  };
+
+  const accountSelect = (
+    value: string,
+    onChange: (accountId: string) => void,
+  ) => (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className={inputClassName}>
+      <option value=''>{t.reconcile.account}</option>
+      {accountOptions.map((account) => (
+        <option key={account.id} value={account.id}>
+          {account.path} ({account.currency})
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <Dialog.Root open={open} onOpenChange={onOpenChange}>
+      <Dialog.Portal>
+        <Dialog.Backdrop className='fixed inset-0 bg-black/40 backdrop-blur-sm' />
+        <Dialog.Popup className='bg-popover fixed top-1/2 left-1/2 max-h-[85vh] w-[min(92vw,640px)] -translate-x-1/2 -translate-y-1/2 overflow-y-auto rounded-xs border p-4 text-xs shadow-lg'>
+          <Dialog.Title className='text-foreground text-sm font-medium'>
+            {t.reconcile.title}
+          </Dialog.Title>
+          <Dialog.Description className='text-muted-foreground mt-1 text-xs'>
+            {t.reconcile.description}
+          </Dialog.Description>
+
+          <div className='mt-4 space-y-4'>
+            {active ? (
+              <div className='space-y-2'>
+                <div className='flex flex-wrap items-center gap-x-4 gap-y-1'>
+                  <span className='font-medium'>
+                    {activeAccount?.path ?? active.accountId}
+                  </span>
+                  <span className='text-muted-foreground'>
+                    {t.reconcile.statementDate}: {active.statementDate}
+                  </span>
+                  <span className='text-muted-foreground'>
+                    {t.reconcile.statementBalance}:{" "}
+                    {format(active.statementBalance, activeAccount)}
+                  </span>
+                </div>
+                <div className='flex flex-wrap items-center gap-x-4 gap-y-1'>
+                  <span>
+                    {t.reconcile.clearedBalance}:{" "}
+                    {format(cleared, activeAccount)}
+                  </span>
+                  <span
+                    className={cn(
+                      "font-medium",
+                      difference === 0 ? "text-green-600" : "text-destructive",
+                    )}>
+                    {t.reconcile.difference}:{" "}
+                    {format(difference, activeAccount)}
+                  </span>
+                </div>
+
+                {lines.length === 0 ? (
+                  <p className='text-muted-foreground'>{t.reconcile.noLines}</p>
+                ) : (
+                  <div className='max-h-72 overflow-y-auto rounded-xs border'>
+                    {lines.map((item) => (
+                      <label
+                        key={`${item.entry.id}:${item.lineIndex}`}
+                        className='flex items-center gap-2 border-t px-2 py-1.5 first:border-t-0'>
+                        <input
+                          type='checkbox'
+                          checked={!!item.line.cleared}
+                          disabled={isBusy || !canWrite}
+                          onChange={(e) =>
+                            void run(() =>
+                              onSetLineCleared(
+                                item.entry.id,
+                                item.lineIndex,
+                                e.target.checked,
+                              ),
+                            )
+                          }
+                        />
+                        <span className='text-muted-foreground'>
+                          {item.entry.date}
+                        </span>
+                        <span className='min-w-0 flex-1 truncate'>
+                          {item.entry.payee
+                            ? `${item.entry.payee} · ${item.entry.description}`
+                            : item.entry.description}
+                        </span>
+                        <span
+                          className={cn(
+                            item.amount < 0 && "text-muted-foreground",
+                          )}>
+                          {format(item.amount, activeAccount)}
+                        </span>
+                      </label>
+                    ))}
+                  </div>
+                )}
+
+                <div className='flex items-center justify-end gap-2'>
+                  <ConfirmPopover
+                    title={t.reconcile.discardConfirm}
+                    confirmText={t.reconcile.discard}
+                    onConfirm={handleDiscard}>
+                    <Button
+                      variant='ghost'
+                      size='xs'
+                      disabled={isBusy || !canWrite}>
+                      {t.reconcile.discard}
+                    </Button>
+                  </ConfirmPopover>
+                  <Button
+                    size='xs'
+                    disabled={isBusy || !canWrite || difference !== 0}
+                    title={
+                      difference !== 0 ? t.reconcile.finishHint : undefined
+                    }
+                    onClick={() => void run(() => onFinish(active.id))}>
+                    {t.reconcile.finish}
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <form onSubmit={handleStart} className='space-y-2'>
+                <div className='grid gap-2 md:grid-cols-3'>
+                  {accountSelect(form.accountId, (accountId) =>
+                    setForm((prev) => ({ ...prev, accountId })),
+                  )}
+                  <input
+                    type='date'
+                    value={form.date}
+                    onChange={(e) =>
+                      setForm((prev) => ({ ...prev, date: e.target.value }))
+                    }
+                    className={inputClassName}
+                    title={t.reconcile.statementDate}
+                  />
+                  <input
+                    type='number'
+                    step='0.01'
+                    value={form.amount}
+                    onChange={(e) =>
+                      setForm((prev) => ({ ...prev, amount: e.target.value }))
+                    }
+                    className={inputClassName}
+                    placeholder={t.reconcile.statementBalance}
+                  />
+                </div>
+                <div className='flex justify-end'>
+                  <Button
+                    type='submit'
+                    size='xs'
+                    disabled={isBusy || !canWrite}>
+                    {t.reconcile.start}
+                  </Button>
+                </div>
+              </form>
+            )}
+
+            {finished.length > 0 ? (
+              <div className='space-y-1'>
+                <p className='text-muted-foreground font-medium'>
+                  {t.reconcile.history}
+                </p>
+                <div className='rounded-xs border'>
+                  {[...finished].reverse().map((reconciliation) => {
+                    const account = accountMap.get(reconciliation.accountId);
+                    return (
+                      <div
+                        key={reconciliation.id}
+                        className='flex items-center gap-2 border-t px-2 py-1.5 first:border-t-0'>
+                        <span className='text-muted-foreground'>
+                          {reconciliation.statementDate}
+                        </span>
+                        <span className='min-w-0 flex-1 truncate'>
+                          {account?.path ?? reconciliation.accountId}
+                        </span>
+                        <span>
+                          {format(reconciliation.statementBalance, account)}
+                        </span>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            ) : null}
+
+            <div className='space-y-2'>
+              <p className='text-muted-foreground font-medium'>
+                {t.reconcile.assertions}
+              </p>
+              <p className='text-muted-foreground'>
+                {t.reconcile.assertionsHint}
+              </p>
+              {checks.length === 0 ? (
+                <p className='text-muted-foreground'>
+                  {t.reconcile.assertionsEmpty}
+                </p>
+              ) : (
+                <div className='rounded-xs border'>
+                  {checks.map((check) => (
+                    <div
+                      key={check.assertion.id}
+                      className='flex items-center gap-2 border-t px-2 py-1.5 first:border-t-0'>
+                      <span className='text-muted-foreground'>
+                        {check.assertion.date}
+                      </span>
+                      <span className='min-w-0 flex-1 truncate'>
+                        {check.account?.path ?? check.assertion.accountId}
+                      </span>
+                      <span>
+                        {t.reconcile.expected}{" "}
+                        {format(check.assertion.amount, check.account)}
+                      </span>
+                      {check.difference === 0 ? (
+                        <Badge variant='outline' className='text-[10px]'>
+                          {t.reconcile.passed}
+                        </Badge>
+                      ) : (
+                        <Badge variant='destructive' className='text-[10px]'>
+                          {t.reconcile.failed} · {t.reconcile.actual}{" "}
+                          {format(check.actual, check.account)}
+                        </Badge>
+                      )}
+                      <Button
+                        variant='ghost'
+                        size='xs'
+                        disabled={isBusy || !canWrite}
+                        onClick={() =>
+                          void run(() =>
+                            onSaveAssertions(
+                              assertions.filter(
+                                (a) => a.id !== check.assertion.id,
+                              ),
+                            ),
+                          )
+                        }>
+                        {t.common.delete}
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+              <form onSubmit={handleAddAssertion} className='space-y-2'>
+                <div className='grid gap-2 md:grid-cols-3'>
+                  {accountSelect(assertionForm.accountId, (accountId) =>
+                    setAssertionForm((prev) => ({ ...prev, accountId })),
+                  )}
+                  <input
+                    type='date'
+                    value={assertionForm.date}
+                    onChange={(e) =>
+                      setAssertionForm((prev) => ({
+                        ...prev,
+                        date: e.target.value,
+                      }))
+                    }
+                    className={inputClassName}
+                  />
+                  <input
+                    type='number'
+                    step='0.01'
+                    value={assertionForm.amount}
+                    onChange={(e) =>
+                      setAssertionForm((prev) => ({
+                        ...prev,
+                        amount: e.target.value,
+                      }))
+                    }
+                    className={inputClassName}
+                    placeholder={t.reconcile.expected}
+                  />
+                </div>
+                <div className='flex justify-end'>
+                  <Button
+                    type='submit'
+                    size='xs'
+                    disabled={isBusy || !canWrite}>
+                    {t.reconcile.addAssertion}
+                  </Button>
+                </div>
+              </form>
+            </div>
+            {error ? <p className='text-destructive'>{error}</p> : null}
+          </div>
+
+          <div className='flex items-center justify-end gap-2 pt-4'>
+            <Dialog.Close className='text-muted-foreground hover:bg-muted rounded-xs border px-2 py-1 text-xs'>
+              {t.reconcile.close}
+            </Dialog.Close>
+          </div>
+        </Dialog.Popup>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
@@ -0,0 +1,314 @@
+import { Dialog } from "@base-ui/react/dialog";
+import { useEffect, useMemo, useState } from "react";
+import type {
+  JournalEntryData,
+  RecurrenceFrequency,
+  RecurrenceSchedule,
+  RecurringTemplate,
+} from "~/lib/double-entry/types";
+import {
+  createRecurringTemplate,
+  iterateOccurrences,
+} from "~/lib/double-entry/recurring";
+import { useI18n } from "~/lib/i18n";
+import { Button } from "~/components/ui/button";
+
+interface RecurringDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** 作为模板的分录 */
+  entry: JournalEntryData | null;
+  onSave: (template: RecurringTemplate) => Promise<void>;
+}
+
+const FREQUENCIES: RecurrenceFrequency[] = [
+  "monthly",
+  "weekly",
+  "yearly",
+  "last-business-day",
+];
+const PREVIEW_COUNT = 3;
+
+const inputClassName =
+  "border-input bg-background h-8 w-full rounded-xs border px-2 text-xs";
+
+function createInitialForm(entry: JournalEntryData | null) {
+  const date = entry?.date ?? new Date().toISOString().split("T")[0];
+  const [, month, day] = date.split("-").map(Number);
+  return {
+    name: entry?.description ?? "",
+    frequency: "monthly" as RecurrenceFrequency,
+    interval: "1",
+    weekday: String(new Date(`${date}T00:00:00Z`).getUTCDay()),
+    day: String(day),
+    month: String(month),
+    startDate: date,
+    endDate: "",
+  };
+}
+
+type RecurringForm = ReturnType<typeof createInitialForm>;
+
+// 输入超出范围时取边界值
+function toInteger(value: string, min: number, max: number): number {
+  const number = Math.floor(Number(value));
+  return Number.isFinite(number) ? Math.min(max, Math.max(min, number)) : min;
+}
+
+function toSchedule(form: RecurringForm): RecurrenceSchedule {
+  const interval = toInteger(form.interval, 1, 120);
+  const day = toInteger(form.day, 1, 31);
+  switch (form.frequency) {
+    case "weekly":
+      return {
+        frequency: "weekly",
+        interval,
+        weekday: toInteger(form.weekday, 0, 6),
+      };
+    case "monthly":
+      return { frequency: "monthly", interval, day };
+    case "yearly":
+      return {
+        frequency: "yearly",
+        interval,
+        month: toInteger(form.month, 1, 12),
+        day,
+      };
+    case "last-business-day":
+      return { frequency: "last-business-day", interval };
+  }
+}
+
+export function RecurringDialog({
+  open,
+  onOpenChange,
+  entry,
+  onSave,
+}: RecurringDialogProps) {
+  const { t } = useI18n();
+  const [form, setForm] = useState(() => createInitialForm(entry));
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setForm(createInitialForm(entry));
+    setError(null);
+  }, [open, entry]);
+
+  const isValid =
+    !!form.startDate && (!form.endDate || form.endDate >= form.startDate);
+  const preview = useMemo(() => {
+    if (!isValid) return [];
+    const dates: string[] = [];
+    for (const date of iterateOccurrences({
+      schedule: toSchedule(form),
+      startDate: form.startDate,
+      endDate: form.endDate || undefined,
+    })) {
+      dates.push(date);
+      if (dates.length >= PREVIEW_COUNT) break;
+    }
+    return dates;
+  }, [form, isValid]);
+
+  const handleInputChange = (field: keyof RecurringForm, value: string) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!entry) return;
+    if (!form.name.trim()) {
+      setError(t.recurring.nameRequired);
+      return;
+    }
+    if (!isValid) {
+      setError(t.recurring.invalidDates);
+      return;
+    }
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onSave(
+        createRecurringTemplate({
+          name: form.name.trim(),
+          schedule: toSchedule(form),
+          startDate: form.startDate,
+          endDate: form.endDate || undefined,
+          description: entry.description,
+          lines: entry.lines.map((line) => ({ ...line })),
+          tags: entry.tags,
+          payee: entry.payee,
+          note: entry.note,
+        }),
+      );
+      onOpenChange(false);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : t.common.error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const frequencyLabels: Record<RecurrenceFrequency, string> = {
+    weekly: t.recurring.weekly,
+    monthly: t.recurring.monthly,
+    yearly: t.recurring.yearly,
+    "last-business-day": t.recurring.lastBusinessDay,
+  };
+  const weekdayLabels = t.recurring.weekdays.split(",");
+
+  return (
+    <Dialog.Root open={open} onOpenChange={onOpenChange}>
+      <Dialog.Portal>
+        <Dialog.Backdrop className='fixed inset-0 bg-black/40 backdrop-blur-sm' />
+        <Dialog.Popup className='bg-popover fixed top-1/2 left-1/2 w-[min(92vw,480px)] -translate-x-1/2 -translate-y-1/2 rounded-xs border p-4 text-xs shadow-lg'>
+          <Dialog.Title className='text-foreground text-sm font-medium'>
+            {t.recurring.title}
+          </Dialog.Title>
+          <Dialog.Description className='text-muted-foreground mt-1 text-xs'>
+            {entry?.description}
+          </Dialog.Description>
+
+          <form onSubmit={handleSubmit} className='mt-4 space-y-3'>
+            <div className='space-y-2'>
+              <label className='text-muted-foreground text-xs font-medium'>
+                {t.recurring.name}
+              </label>
+              <input
+                value={form.name}
+                onChange={(e) => handleInputChange("name", e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+            <div className='grid grid-cols-2 gap-3'>
+              <div className='space-y-2'>
+                <label className='text-muted-foreground text-xs font-medium'>
+                  {t.recurring.frequency}
+                </label>
+                <select
+                  value={form.frequency}
+                  onChange={(e) =>
+                    handleInputChange("frequency", e.target.value)
+                  }
+                  className={inputClassName}>
+                  {FREQUENCIES.map((frequency) => (
+                    <option key={frequency} value={frequency}>
+                      {frequencyLabels[frequency]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className='space-y-2'>
+                <label className='text-muted-foreground text-xs font-medium'>
+                  {t.recurring.interval}
+                </label>
+                <input
+                  type='number'
+                  min='1'
+                  step='1'
+                  value={form.interval}
+                  onChange={(e) =>
+                    handleInputChange("interval", e.target.value)
+                  }
+                  className={inputClassName}
+                />
+              </div>
+              {form.frequency === "weekly" ? (
+                <div className='space-y-2'>
+                  <label className='text-muted-foreground text-xs font-medium'>
+                    {t.recurring.weekday}
+                  </label>
+                  <select
+                    value={form.weekday}
+                    onChange={(e) =>
+                      handleInputChange("weekday", e.target.value)
+                    }
+                    className={inputClassName}>
+                    {weekdayLabels.map((label, index) => (
+                      <option key={label} value={index}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ) : null}
+              {form.frequency === "yearly" ? (
+                <div className='space-y-2'>
+                  <label className='text-muted-foreground text-xs font-medium'>
+                    {t.recurring.month}
+                  </label>
+                  <input
+                    type='number'
+                    min='1'
+                    max='12'
+                    value={form.month}
+                    onChange={(e) => handleInputChange("month", e.target.value)}
+                    className={inputClassName}
+                  />
+                </div>
+              ) : null}
+              {form.frequency === "monthly" || form.frequency === "yearly" ? (
+                <div className='space-y-2'>
+                  <label className='text-muted-foreground text-xs font-medium'>
+                    {t.recurring.day}
+                  </label>
+                  <input
+                    type='number'
+                    min='1'
+                    max='31'
+                    value={form.day}
+                    onChange={(e) => handleInputChange("day", e.target.value)}
+                    className={inputClassName}
+                  />
+                </div>
+              ) : null}
+            </div>
+            <div className='grid grid-cols-2 gap-3'>
+              <div className='space-y-2'>
+                <label className='text-muted-foreground text-xs font-medium'>
+                  {t.recurring.startDate}
+                </label>
+                <input
+                  type='date'
+                  value={form.startDate}
+                  onChange={(e) =>
+                    handleInputChange("startDate", e.target.value)
+                  }
+                  className={inputClassName}
+                />
+              </div>
+              <div className='space-y-2'>
+                <label className='text-muted-foreground text-xs font-medium'>
+                  {t.recurring.endDate}
+                </label>
+                <input
+                  type='date'
+                  value={form.endDate}
+                  onChange={(e) => handleInputChange("endDate", e.target.value)}
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+            <p className='text-muted-foreground'>
+              {t.recurring.preview}:{" "}
+              {preview.length > 0 ? preview.join(", ") : "-"}
+            </p>
+
+            {error ? <p className='text-destructive'>{error}</p> : null}
+
+            <div className='flex items-center justify-end gap-2 pt-2'>
+              <Dialog.Close className='text-muted-foreground hover:bg-muted rounded-xs border px-2 py-1 text-xs'>
+                {t.common.cancel}
+              </Dialog.Close>
+              <Button type='submit' disabled={isSaving || !entry}>
+                {t.common.save}
+              </Button>
+            </div>
+          </form>
+        </Dialog.Popup>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
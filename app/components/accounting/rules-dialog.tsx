@@ -0,0 +1,489 @@
+import { Dialog } from "@base-ui/react/dialog";
+import { useEffect, useState } from "react";
+import type {
+  AccountData,
+  CategorizationRule,
+  CurrencyCode,
+  EntryQuery,
+  RuleMatchField,
+  RuleMatchMode,
+} from "~/lib/double-entry/types";
+import {
+  createMoney,
+  fromMainUnit,
+  toMainUnit,
+} from "~/lib/double-entry/money";
+import {
+  createRule,
+  isCategoryAccount,
+  isValidRulePattern,
+  type RuleApplication,
+} from "~/lib/double-entry/rules";
+import { getCurrentMonthRange } from "~/lib/accounting/view";
+import { useI18n } from "~/lib/i18n";
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+import { cn } from "~/lib/utils";
+
+interface RulesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  rules: CategorizationRule[];
+  accountOptions: AccountData[];
+  baseCurrency: CurrencyCode;
+  canWrite: boolean;
+  onSave: (rules: CategorizationRule[]) => Promise<void>;
+  onReapply: (query: EntryQuery) => Promise<RuleApplication[]>;
+}
+
+type ReapplyScope = "month" | "all";
+
+const FIELDS: RuleMatchField[] = ["any", "payee", "description"];
+const MODES: RuleMatchMode[] = ["contains", "regex"];
+
+const inputClassName =
+  "border-input bg-background h-8 w-full rounded-xs border px-2 text-xs";
+
+function createInitialForm() {
+  return {
+    name: "",
+    field: "any" as RuleMatchField,
+    mode: "contains" as RuleMatchMode,
+    pattern: "",
+    minAmount: "",
+    maxAmount: "",
+    sourceAccountId: "",
+    targetAccountId: "",
+    tags: "",
+    payee: "",
+  };
+}
+
+type RuleForm = ReturnType<typeof createInitialForm>;
+
+function formFromRule(
+  rule: CategorizationRule,
+  currency: CurrencyCode,
+): RuleForm {
+  const { min, max } = rule.amountRange ?? {};
+  return {
+    name: rule.name,
+    field: rule.field,
+    mode: rule.mode,
+    pattern: rule.pattern,
+    minAmount:
+      min === undefined ? "" : String(toMainUnit(createMoney(min, currency))),
+    maxAmount:
+      max === undefined ? "" : String(toMainUnit(createMoney(max, currency))),
+    sourceAccountId: rule.sourceAccountId ?? "",
+    targetAccountId: rule.targetAccountId ?? "",
+    tags: (rule.tags ?? []).join(", "),
+    payee: rule.payee ?? "",
+  };
+}
+
+// 金额输入转为最小单位，空值表示不限
+function parseAmount(value: string, currency: CurrencyCode) {
+  if (!value.trim()) return undefined;
+  const amount = Number(value);
+  if (!Number.isFinite(amount) || amount < 0) return null;
+  return fromMainUnit(amount, currency).amount;
+}
+
+export function RulesDialog({
+  open,
+  onOpenChange,
+  rules,
+  accountOptions,
+  baseCurrency,
+  canWrite,
+  onSave,
+  onReapply,
+}: RulesDialogProps) {
+  const { t } = useI18n();
+  const [form, setForm] = useState(createInitialForm);
+  // 正在编辑的规则 ID，null 为新建
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [scope, setScope] = useState<ReapplyScope>("month");
+  const [result, setResult] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setForm(createInitialForm());
+    setEditingId(null);
+    setResult(null);
+    setError(null);
+  }, [open]);
+
+  const accountMap = new Map(accountOptions.map((a) => [a.id, a]));
+  const targetOptions = accountOptions.filter(isCategoryAccount);
+
+  const handleInputChange = (field: keyof RuleForm, value: string) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    setError(null);
+    setResult(null);
+    try {
+      await action();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : t.common.error);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!form.name.trim()) {
+      setError(t.rules.nameRequired);
+      return;
+    }
+    if (!isValidRulePattern(form)) {
+      setError(t.rules.invalidPattern);
+      return;
+    }
+    const min = parseAmount(form.minAmount, baseCurrency);
+    const max = parseAmount(form.maxAmount, baseCurrency);
+    if (min === null || max === null) {
+      setError(t.records.invalidAmount);
+      return;
+    }
+    const tags = form.tags
+      .split(",")
+      .map((tag) => tag.trim())
+      .filter(Boolean);
+    const params = {
+      name: form.name.trim(),
+      field: form.field,
+      mode: form.mode,
+      pattern: form.pattern.trim(),
+      amountRange:
+        min === undefined && max === undefined ? undefined : { min, max },
+      sourceAccountId: form.sourceAccountId || undefined,
+      targetAccountId: form.targetAccountId || undefined,
+      tags: tags.length ? tags : undefined,
+      payee: form.payee.trim() || undefined,
+    };
+    const next = editingId
+      ? rules.map((rule) =>
+          rule.id === editingId
+            ? { ...params, id: rule.id, enabled: rule.enabled }
+            : rule,
+        )
+      : [...rules, createRule(params)];
+    void run(async () => {
+      await onSave(next);
+      setForm(createInitialForm());
+      setEditingId(null);
+    });
+  };
+
+  const handleEdit = (rule: CategorizationRule) => {
+    setEditingId(rule.id);
+    setForm(formFromRule(rule, baseCurrency));
+    setError(null);
+  };
+
+  const handleToggle = (rule: CategorizationRule) => {
+    void run(() =>
+      onSave(
+        rules.map((r) =>
+          r.id === rule.id ? { ...r, enabled: !r.enabled } : r,
+        ),
+      ),
+    );
+  };
+
+  const handleDelete = (rule: CategorizationRule) => {
+    void run(async () => {
+      await onSave(rules.filter((r) => r.id !== rule.id));
+      if (editingId === rule.id) {
+        setEditingId(null);
+        setForm(createInitialForm());
+      }
+    });
+  };
+
+  const handleMove = (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= rules.length) return;
+    const next = [...rules];
+    [next[index], next[target]] = [next[target], next[index]];
+    void run(() => onSave(next));
+  };
+
+  const handleReapply = () => {
+    const query: EntryQuery =
+      scope === "month" ? { dateRange: getCurrentMonthRange() } : {};
+    void run(async () => {
+      const changes = await onReapply(query);
+      setResult(`${t.rules.reapplied}: ${changes.length}`);
+    });
+  };
+
+  const describeRule = (rule: CategorizationRule) => {
+    const parts = [
+      `${fieldLabels[rule.field]} ${modeLabels[rule.mode]} "${rule.pattern}"`,
+    ];
+    if (rule.targetAccountId) {
+      parts.push(`→ ${accountMap.get(rule.targetAccountId)?.path ?? "-"}`);
+    }
+    if (rule.tags?.length) {
+      parts.push(rule.tags.map((tag) => `#${tag}`).join(" "));
+    }
+    if (rule.payee) parts.push(`${t.records.payee}: ${rule.payee}`);
+    return parts.join(" · ");
+  };
+
+  const fieldLabels: Record<RuleMatchField, string> = {
+    any: t.rules.fieldAny,
+    payee: t.records.payee,
+    description: t.records.description,
+  };
+  const modeLabels: Record<RuleMatchMode, string> = {
+    contains: t.rules.modeContains,
+    regex: t.rules.modeRegex,
+  };
+
+  return (
+    <Dialog.Root open={open} onOpenChange={onOpenChange}>
+      <Dialog.Portal>
+        <Dialog.Backdrop className='fixed inset-0 bg-black/40 backdrop-blur-sm' />
+        <Dialog.Popup className='bg-popover fixed top-1/2 left-1/2 max-h-[85vh] w-[min(92vw,720px)] -translate-x-1/2 -translate-y-1/2 overflow-y-auto rounded-xs border p-4 text-xs shadow-lg'>
+          <Dialog.Title className='text-foreground text-sm font-medium'>
+            {t.rules.title}
+          </Dialog.Title>
+          <Dialog.Description className='text-muted-foreground mt-1 text-xs'>
+            {t.rules.description}
+          </Dialog.Description>
+
+          <div className='mt-4 space-y-4'>
+            {rules.length === 0 ? (
+              <p className='text-muted-foreground'>{t.rules.empty}</p>
+            ) : (
+              <div className='rounded-xs border'>
+                {rules.map((rule, index) => (
+                  <div
+                    key={rule.id}
+                    className={cn(
+                      "flex items-center gap-2 border-t px-2 py-1.5 first:border-t-0",
+                      !rule.enabled && "text-muted-foreground",
+                    )}>
+                    <div className='min-w-0 flex-1 space-y-0.5'>
+                      <div className='flex items-center gap-2'>
+                        <span className='font-medium'>{rule.name}</span>
+                        {!rule.enabled ? (
+                          <Badge variant='secondary' className='text-[10px]'>
+                            {t.rules.disabled}
+                          </Badge>
+                        ) : null}
+                      </div>
+                      <p className='text-muted-foreground truncate'>
+                        {describeRule(rule)}
+                      </p>
+                    </div>
+                    {canWrite ? (
+                      <div className='flex items-center gap-1'>
+                        <Button
+                          variant='ghost'
+                          size='xs'
+                          disabled={isBusy || index === 0}
+                          onClick={() => handleMove(index, -1)}>
+                          ↑
+                        </Button>
+                        <Button
+                          variant='ghost'
+                          size='xs'
+                          disabled={isBusy || index === rules.length - 1}
+                          onClick={() => handleMove(index, 1)}>
+                          ↓
+                        </Button>
+                        <Button
+                          variant='ghost'
+                          size='xs'
+                          disabled={isBusy}
+                          onClick={() => handleToggle(rule)}>
+                          {rule.enabled ? t.rules.disable : t.rules.enable}
+                        </Button>
+                        <Button
+                          variant='ghost'
+                          size='xs'
+                          disabled={isBusy}
+                          onClick={() => handleEdit(rule)}>
+                          {t.common.edit}
+                        </Button>
+                        <Button
+                          variant='ghost'
+                          size='xs'
+                          disabled={isBusy}
+                          onClick={() => handleDelete(rule)}>
+                          {t.common.delete}
+                        </Button>
+                      </div>
+                    ) : null}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {canWrite ? (
+              <form onSubmit={handleSubmit} className='space-y-3'>
+                <p className='text-muted-foreground font-medium'>
+                  {editingId ? t.rules.editRule : t.rules.newRule}
+                </p>
+                <div className='grid gap-3 md:grid-cols-2'>
+                  <input
+                    value={form.name}
+                    onChange={(e) => handleInputChange("name", e.target.value)}
+                    className={inputClassName}
+                    placeholder={t.rules.name}
+                  />
+                  <input
+                    value={form.pattern}
+                    onChange={(e) =>
+                      handleInputChange("pattern", e.target.value)
+                    }
+                    className={inputClassName}
+                    placeholder={t.rules.pattern}
+                  />
+                  <select
+                    value={form.field}
+                    onChange={(e) => handleInputChange("field", e.target.value)}
+                    className={inputClassName}>
+                    {FIELDS.map((field) => (
+                      <option key={field} value={field}>
+                        {fieldLabels[field]}
+                      </option>
+                    ))}
+                  </select>
+                  <select
+                    value={form.mode}
+                    onChange={(e) => handleInputChange("mode", e.target.value)}
+                    className={inputClassName}>
+                    {MODES.map((mode) => (
+                      <option key={mode} value={mode}>
+                        {modeLabels[mode]}
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    type='number'
+                    step='0.01'
+                    min='0'
+                    value={form.minAmount}
+                    onChange={(e) =>
+                      handleInputChange("minAmount", e.target.value)
+                    }
+                    className={inputClassName}
+                    placeholder={`${t.rules.minAmount} (${baseCurrency})`}
+                  />
+                  <input
+                    type='number'
+                    step='0.01'
+                    min='0'
+                    value={form.maxAmount}
+                    onChange={(e) =>
+                      handleInputChange("maxAmount", e.target.value)
+                    }
+                    className={inputClassName}
+                    placeholder={`${t.rules.maxAmount} (${baseCurrency})`}
+                  />
+                  <select
+                    value={form.sourceAccountId}
+                    onChange={(e) =>
+                      handleInputChange("sourceAccountId", e.target.value)
+                    }
+                    className={inputClassName}>
+                    <option value=''>{t.rules.anySource}</option>
+                    {accountOptions.map((account) => (
+                      <option key={account.id} value={account.id}>
+                        {account.path}
+                      </option>
+                    ))}
+                  </select>
+                  <select
+                    value={form.targetAccountId}
+                    onChange={(e) =>
+                      handleInputChange("targetAccountId", e.target.value)
+                    }
+                    className={inputClassName}>
+                    <option value=''>{t.rules.keepCategory}</option>
+                    {targetOptions.map((account) => (
+                      <option key={account.id} value={account.id}>
+                        {account.path}
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    value={form.tags}
+                    onChange={(e) => handleInputChange("tags", e.target.value)}
+                    className={inputClassName}
+                    placeholder={`${t.records.tags}: tag1, tag2`}
+                  />
+                  <input
+                    value={form.payee}
+                    onChange={(e) => handleInputChange("payee", e.target.value)}
+                    className={inputClassName}
+                    placeholder={t.rules.normalizedPayee}
+                  />
+                </div>
+                <div className='flex items-center justify-end gap-2'>
+                  {editingId ? (
+                    <Button
+                      type='button'
+                      variant='ghost'
+                      size='xs'
+                      onClick={() => {
+                        setEditingId(null);
+                        setForm(createInitialForm());
+                      }}>
+                      {t.common.cancel}
+                    </Button>
+                  ) : null}
+                  <Button type='submit' size='xs' disabled={isBusy}>
+                    {editingId ? t.common.save : t.rules.add}
+                  </Button>
+                </div>
+              </form>
+            ) : null}
+
+            {canWrite && rules.length > 0 ? (
+              <div className='flex flex-wrap items-center gap-2 border-t pt-3'>
+                <span className='text-muted-foreground'>{t.rules.reapply}</span>
+                <select
+                  value={scope}
+                  onChange={(e) => setScope(e.target.value as ReapplyScope)}
+                  className={cn(inputClassName, "w-auto")}>
+                  <option value='month'>{t.rules.scopeMonth}</option>
+                  <option value='all'>{t.rules.scopeAll}</option>
+                </select>
+                <Button
+                  variant='outline'
+                  size='xs'
+                  disabled={isBusy}
+                  onClick={handleReapply}>
+                  {t.rules.reapplyAction}
+                </Button>
+                {result ? (
+                  <span className='text-muted-foreground'>{result}</span>
+                ) : null}
+              </div>
+            ) : null}
+            {error ? <p className='text-destructive'>{error}</p> : null}
+          </div>
+
+          <div className='flex items-center justify-end gap-2 pt-4'>
+            <Dialog.Close className='text-muted-foreground hover:bg-muted rounded-xs border px-2 py-1 text-xs'>
+              {t.rules.close}
+            </Dialog.Close>
+          </div>
+        </Dialog.Popup>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
@@ -0,0 +1,361 @@
+import { Dialog } from "@base-ui/react/dialog";
+import { useEffect, useMemo, useState } from "react";
+import type {
+  BookData,
+  EntryLineData,
+  LotSelection,
+} from "~/lib/double-entry/types";
+import { AccountType } from "~/lib/double-entry/types";
+import {
+  createMoney,
+  formatMoney,
+  fromMainUnit,
+  toMainUnit,
+} from "~/lib/double-entry/money";
+import {
+  buildBuyLines,
+  buildSellLines,
+  getHoldingLots,
+  isHoldingAccount,
+} from "~/lib/double-entry/holdings";
+import {
+  getLotKey,
+  matchLots,
+  roundQuantity,
+} from "~/lib/double-entry/cost-basis";
+import { useI18n } from "~/lib/i18n";
+import { Button } from "~/components/ui/button";
+import type { SplitEntryInput } from "~/lib/accounting/book-service";
+
+export type TradeSide = "buy" | "sell";
+
+interface TradeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  book: BookData;
+  holdingAccountId: string | null;
+  side: TradeSide;
+  onSubmit: (input: SplitEntryInput) => Promise<void>;
+}
+
+const inputClassName =
+  "border-input bg-background h-8 w-full rounded-xs border px-2 text-xs";
+
+function createInitialForm() {
+  return {
+    date: new Date().toISOString().split("T")[0],
+    quantity: "",
+    price: "",
+    fee: "",
+    cashAccountId: "",
+    // 指定批次时每个批次的卖出数量，以批次标识为键
+    lots: {} as Record<string, string>,
+  };
+}
+
+export function TradeDialog({
+  open,
+  onOpenChange,
+  book,
+  holdingAccountId,
+  side: initialSide,
+  onSubmit,
+}: TradeDialogProps) {
+  const { t } = useI18n();
+  const [side, setSide] = useState<TradeSide>(initialSide);
+  const [form, setForm] = useState(createInitialForm);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const holding = book.accounts.find((a) => a.id === holdingAccountId);
+  const currency = holding?.currency ?? book.defaultCurrency;
+
+  // 资金账户、收益账户与持仓同币种，避免跨币种折算
+  const cashAccounts = useMemo(
+    () =>
+      book.accounts.filter(
+        (a) =>
+          !a.archived &&
+          a.parentId !== null &&
+          a.currency === currency &&
+          a.type === AccountType.ASSETS &&
+          !isHoldingAccount(a),
+      ),
+    [book.accounts, currency],
+  );
+
+  useEffect(() => {
+    if (!open) return;
+    setSide(initialSide);
+    setForm({
+      ...createInitialForm(),
+      cashAccountId: cashAccounts[0]?.id ?? "",
+    });
+    setError(null);
+    // 只在打开时重置，账户选项变化不覆盖已选择的账户
+  }, [open, initialSide]);
+
+  const quantity = Number(form.quantity);
+  const price = Number(form.price);
+  const fee = form.fee.trim() === "" ? 0 : Number(form.fee);
+  const isValid =
+    Number.isFinite(quantity) &&
+    quantity > 0 &&
+    Number.isFinite(price) &&
+    price > 0 &&
+    Number.isFinite(fee) &&
+    fee >= 0;
+  // 买入成本含手续费，卖出净收入扣除手续费
+  const total = isValid
+    ? fromMainUnit(quantity * price + (side === "buy" ? fee : -fee), currency)
+        .amount
+    : 0;
+
+  const method = holding?.costBasisMethod ?? "fifo";
+  const lots = useMemo(
+    () =>
+      side === "sell" && holding
+        ? getHoldingLots(book, holding.id, form.date)
+        : [],
+    [side, holding, book, form.date],
+  );
+  const lotSelections = useMemo<LotSelection[] | undefined>(() => {
+    if (method !== "specific") return undefined;
+    return lots.flatMap((lot) => {
+      const value = Number(form.lots[getLotKey(lot)]);
+      if (!Number.isFinite(value) || value <= 0) return [];
+      return [
+        { entryId: lot.entryId, lineIndex: lot.lineIndex, quantity: value },
+      ];
+    });
+  }, [method, lots, form.lots]);
+  const selectedQuantity = roundQuantity(
+    (lotSelections ?? []).reduce((sum, lot) => sum + lot.quantity, 0),
+  );
+
+  // 卖出时按账户的成本方法预估成本与已实现盈亏
+  const preview = useMemo(() => {
+    if (side !== "sell" || !holding || !isValid) return null;
+    const result = matchLots(lots, quantity, method, lotSelections);
+    return {
+      held: roundQuantity(lots.reduce((sum, lot) => sum + lot.quantity, 0)),
+      cost: result.cost,
+      gain: total - result.cost,
+      shortfall: result.shortfall > 0,
+    };
+  }, [side, holding, isValid, lots, quantity, method, lotSelections, total]);
+
+  const format = (amount: number) => formatMoney(createMoney(amount, currency));
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!holding) return;
+    if (!isValid || total <= 0) {
+      setError(t.holdings.invalidQuantity);
+      return;
+    }
+    if (!form.cashAccountId) {
+      setError(t.common.required);
+      return;
+    }
+    if (
+      side === "sell" &&
+      lotSelections?.length &&
+      selectedQuantity !== roundQuantity(quantity)
+    ) {
+      setError(t.holdings.lotSelectionMismatch);
+      return;
+    }
+    if (preview?.shortfall) {
+      setError(t.holdings.insufficient);
+      return;
+    }
+
+    setIsBusy(true);
+    setError(null);
+    try {
+      const lines: EntryLineData[] =
+        side === "buy"
+          ? buildBuyLines({
+              holdingAccountId: holding.id,
+              cashAccountId: form.cashAccountId,
+              quantity,
+              cost: total,
+            })
+          : buildSellLines(book, {
+              holdingAccountId: holding.id,
+              cashAccountId: form.cashAccountId,
+              quantity,
+              proceeds: total,
+              date: form.date,
+              lotSelections,
+            });
+      const label = side === "buy" ? t.holdings.buy : t.holdings.sell;
+      await onSubmit({
+        date: form.date,
+        description: `${label} ${holding.commodity}`,
+        lines: lines.map((line) => ({
+          accountId: line.accountId,
+          type: line.type,
+          amount: toMainUnit(createMoney(line.amount, currency)),
+          quantity: line.quantity,
+          lotSelections: line.lotSelections,
+        })),
+        tags: holding.commodity ? [holding.commodity] : undefined,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : t.common.error);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <Dialog.Root open={open} onOpenChange={onOpenChange}>
+      <Dialog.Portal>
+        <Dialog.Backdrop className='fixed inset-0 bg-black/40 backdrop-blur-sm' />
+        <Dialog.Popup className='bg-popover fixed top-1/2 left-1/2 max-h-[85vh] w-[min(92vw,420px)] -translate-x-1/2 -translate-y-1/2 overflow-y-auto rounded-xs border p-4 text-xs shadow-lg'>
+          <Dialog.Title className='text-foreground text-sm font-medium'>
+            {t.holdings.trade} {holding?.commodity}
+          </Dialog.Title>
+          <Dialog.Description className='text-muted-foreground mt-1 text-xs'>
+            {holding?.path}
+          </Dialog.Description>
+
+          <form onSubmit={handleSubmit} className='mt-4 space-y-3'>
+            <div className='flex gap-2'>
+              {(["buy", "sell"] as const).map((value) => (
+                <Button
+                  key={value}
+                  type='button'
+                  size='xs'
+                  variant={side === value ? "default" : "outline"}
+                  onClick={() => setSide(value)}>
+                  {value === "buy" ? t.holdings.buy : t.holdings.sell}
+                </Button>
+              ))}
+            </div>
+            <div className='grid gap-2 md:grid-cols-2'>
+              <input
+                type='date'
+                value={form.date}
+                onChange={(e) =>
+                  setForm((prev) => ({ ...prev, date: e.target.value }))
+                }
+                className={inputClassName}
+              />
+              <input
+                type='number'
+                inputMode='decimal'
+                value={form.quantity}
+                onChange={(e) =>
+                  setForm((prev) => ({ ...prev, quantity: e.target.value }))
+                }
+                className={inputClassName}
+                placeholder={t.holdings.quantity}
+              />
+              <input
+                type='number'
+                inputMode='decimal'
+                value={form.price}
+                onChange={(e) =>
+                  setForm((prev) => ({ ...prev, price: e.target.value }))
+                }
+                className={inputClassName}
+                placeholder={`${t.holdings.price} (${currency})`}
+              />
+              <input
+                type='number'
+                inputMode='decimal'
+                value={form.fee}
+                onChange={(e) =>
+                  setForm((prev) => ({ ...prev, fee: e.target.value }))
+                }
+                className={inputClassName}
+                placeholder={t.holdings.fee}
+              />
+              <select
+                value={form.cashAccountId}
+                onChange={(e) =>
+                  setForm((prev) => ({
+                    ...prev,
+                    cashAccountId: e.target.value,
+                  }))
+                }
+                className={inputClassName}>
+                <option value=''>{t.holdings.cashAccount}</option>
+                {cashAccounts.map((account) => (
+                  <option key={account.id} value={account.id}>
+                    {account.path}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {side === "sell" && method === "specific" && lots.length > 0 ? (
+              <div className='space-y-1'>
+                <p className='text-muted-foreground'>
+                  {t.holdings.lotSelection} ({selectedQuantity})
+                </p>
+                {lots.map((lot) => {
+                  const key = getLotKey(lot);
+                  return (
+                    <div key={key} className='flex items-center gap-2'>
+                      <span className='flex-1'>
+                        {lot.date} · {lot.quantity} · {format(lot.cost)}
+                      </span>
+                      <input
+                        type='number'
+                        inputMode='decimal'
+                        value={form.lots[key] ?? ""}
+                        onChange={(e) =>
+                          setForm((prev) => ({
+                            ...prev,
+                            lots: { ...prev.lots, [key]: e.target.value },
+                          }))
+                        }
+                        className={`${inputClassName} w-24`}
+                        placeholder={t.holdings.quantity}
+                      />
+                    </div>
+                  );
+                })}
+              </div>
+            ) : null}
+
+            <div className='text-muted-foreground space-y-1'>
+              <p>
+                {side === "buy" ? t.holdings.totalCost : t.holdings.proceeds}:{" "}
+                {format(total)}
+              </p>
+              {preview ? (
+                <>
+                  <p>
+                    {t.holdings.held}: {preview.held}
+                  </p>
+                  <p>
+                    {t.holdings.costBasis} ({t.holdings.methods[method]}):{" "}
+                    {format(preview.cost)} · {t.holdings.realized}:{" "}
+                    {format(preview.gain)}
+                  </p>
+                  <p>{t.holdings.autoGain}</p>
+                </>
+              ) : null}
+            </div>
+
+            {error ? <p className='text-destructive'>{error}</p> : null}
+            <div className='flex items-center justify-end gap-2 pt-2'>
+              <Dialog.Close className='text-muted-foreground hover:bg-muted rounded-xs border px-2 py-1 text-xs'>
+                {t.common.cancel}
+              </Dialog.Close>
+              <Button type='submit' size='xs' disabled={isBusy || !holding}>
+                {t.common.save}
+              </Button>
+            </div>
+          </form>
+        </Dialog.Popup>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
@@ -0,0 +1,86 @@
+import { Bell } from "lucide-react";
+import { Popover } from "@base-ui/react/popover";
+import { useAlerts } from "~/lib/alerts/use-alerts";
+import { useI18n } from "~/lib/i18n";
+import { cn, formatNumber } from "~/lib/utils";
+import { describeAlertCondition, formatAlertTime } from "./format";
+
+/**
+ * 价格提醒通知：未读数量和触发记录
+ */
+export function AlertNotifications() {
+  const { t } = useI18n();
+  const { alertsData, unreadCount, isLoggedIn, markAllRead, clearHistory } =
+    useAlerts();
+
+  if (!isLoggedIn) return null;
+
+  const { notifications } = alertsData;
+
+  return (
+    <Popover.Root>
+      <Popover.Trigger
+        className='text-muted-foreground hover:text-foreground relative inline-flex cursor-pointer items-center rounded-xs border px-1.5 py-1'
+        title={t.alerts.notifications}>
+        <Bell className='size-3.5' />
+        {unreadCount > 0 ? (
+          <span className='absolute -top-1.5 -right-1.5 min-w-4 rounded-full bg-red-500 px-1 text-center text-[10px] leading-4 text-white'>
+            {unreadCount > 99 ? "99+" : unreadCount}
+          </span>
+        ) : null}
+      </Popover.Trigger>
+      <Popover.Portal>
+        <Popover.Positioner sideOffset={4} align='end'>
+          <Popover.Popup className='bg-background w-72 rounded-xs border p-1 text-xs shadow-lg'>
+            <div className='flex items-center justify-between border-b px-2 pb-1'>
+              <span className='font-medium'>{t.alerts.notifications}</span>
+              <div className='flex gap-2'>
+                <button
+                  onClick={() => void markAllRead()}
+                  disabled={unreadCount === 0}
+                  className='text-blue-600 hover:underline disabled:opacity-50'>
+                  {t.alerts.markAllRead}
+                </button>
+                <button
+                  onClick={() => void clearHistory()}
+                  disabled={notifications.length === 0}
+                  className='text-blue-600 hover:underline disabled:opacity-50'>
+                  {t.alerts.clearHistory}
+                </button>
+              </div>
+            </div>
+            <div className='max-h-80 overflow-y-auto'>
+              {notifications.length === 0 ? (
+                <p className='text-muted-foreground px-2 py-3 text-center'>
+                  {t.alerts.noNotifications}
+                </p>
+              ) : (
+                notifications.map((notification) => (
+                  <div
+                    key={notification.id}
+                    className={cn(
+                      "rounded-xs px-2 py-1.5",
+                      !notification.read && "bg-muted/60",
+                    )}>
+                    <div className='flex items-center justify-between gap-2'>
+                      <span className='font-medium'>{notification.symbol}</span>
+                      <span className='text-muted-foreground'>
+                        {formatAlertTime(notification.triggeredAt)}
+                      </span>
+                    </div>
+                    <div className='text-muted-foreground'>
+                      {describeAlertCondition(notification.condition, t)}
+                      {notification.price !== null
+                        ? ` · ${t.alerts.triggerPrice} ${formatNumber(notification.price)}`
+                        : null}
+                    </div>
+                  </div>
+                ))
+              )}
+            </div>
+          </Popover.Popup>
+        </Popover.Positioner>
+      </Popover.Portal>
+    </Popover.Root>
+  );
+}
@@ -0,0 +1,35 @@
+import type { Translations } from "~/locales";
+import type { AlertCondition } from "~/lib/storage/types";
+import { formatNumber } from "~/lib/utils";
+
+/**
+ * 提醒条件的显示文本
+ */
+export function describeAlertCondition(
+  condition: AlertCondition,
+  t: Translations,
+): string {
+  switch (condition.type) {
+    case "price_above":
+      return `${t.alerts.priceAbove} ${formatNumber(condition.price)}`;
+    case "price_below":
+      return `${t.alerts.priceBelow} ${formatNumber(condition.price)}`;
+    case "change_percent":
+      return `${t.alerts.dayChange} ${condition.percent >= 0 ? "≥ +" : "≤ "}${formatNumber(condition.percent)}%`;
+    case "high_52w":
+      return t.alerts.high52w;
+    case "low_52w":
+      return t.alerts.low52w;
+    case "volume_spike":
+      return `${t.alerts.volumeSpike}${formatNumber(condition.multiple, 1)}`;
+  }
+}
+
+/**
+ * ISO 时间显示为本地 YYYY-MM-DD HH:mm
+ */
+export function formatAlertTime(iso: string): string {
+  const date = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
@@ -0,0 +1,324 @@
+import { Dialog } from "@base-ui/react/dialog";
+import { useEffect, useState } from "react";
+import { Trash2 } from "lucide-react";
+import type {
+  AlertCondition,
+  AlertConditionType,
+  AlertMode,
+  PriceAlert,
+} from "~/lib/storage/types";
+import { useAlerts } from "~/lib/alerts/use-alerts";
+import { isAlertActive } from "~/lib/alerts/evaluate";
+import { useI18n } from "~/lib/i18n";
+import { cn } from "~/lib/utils";
+import { Button } from "~/components/ui/button";
+import { describeAlertCondition, formatAlertTime } from "./format";
+
+interface PriceAlertDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  symbol: string;
+  /** 当前价格，作为价格条件的默认阈值 */
+  price?: number;
+}
+
+const inputClassName =
+  "border-input bg-background h-8 w-full rounded-xs border px-2 text-xs";
+
+const CONDITION_TYPES: AlertConditionType[] = [
+  "price_above",
+  "price_below",
+  "change_percent",
+  "high_52w",
+  "low_52w",
+  "volume_spike",
+];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function buildCondition(
+  type: AlertConditionType,
+  threshold: number,
+): AlertCondition {
+  switch (type) {
+    case "price_above":
+    case "price_below":
+      return { type, price: threshold };
+    case "change_percent":
+      return { type, percent: threshold };
+    case "volume_spike":
+      return { type, multiple: threshold };
+    case "high_52w":
+    case "low_52w":
+      return { type };
+  }
+}
+
+function defaultThreshold(type: AlertConditionType, price?: number): string {
+  if (type === "change_percent") return "5";
+  if (type === "volume_spike") return "2";
+  return price === undefined ? "" : String(price);
+}
+
+/**
+ * 暂停选项：1 小时、到明天 0 点、1 周
+ */
+function snoozeUntil(option: "1h" | "today" | "1w"): string {
+  const now = new Date();
+  if (option === "1h") return new Date(now.getTime() + HOUR_MS).toISOString();
+  if (option === "1w") {
+    return new Date(now.getTime() + 7 * 24 * HOUR_MS).toISOString();
+  }
+  const tomorrow = new Date(now);
+  tomorrow.setHours(24, 0, 0, 0);
+  return tomorrow.toISOString();
+}
+
+export function PriceAlertDialog({
+  open,
+  onOpenChange,
+  symbol,
+  price,
+}: PriceAlertDialogProps) {
+  const { t } = useI18n();
+  const {
+    alertsData,
+    isLoggedIn,
+    addAlert,
+    removeAlert,
+    setAlertEnabled,
+    snoozeAlert,
+  } = useAlerts();
+  const [type, setType] = useState<AlertConditionType>("price_above");
+  const [threshold, setThreshold] = useState("");
+  const [mode, setMode] = useState<AlertMode>("once");
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setType("price_above");
+    setThreshold(defaultThreshold("price_above", price));
+    setMode("once");
+    setError(null);
+    // 只在打开时重置，价格推送不覆盖已输入的阈值
+  }, [open]);
+
+  const alerts = alertsData.alerts.filter(
+    (alert) => alert.symbol === symbol.toUpperCase(),
+  );
+  const needsThreshold = type !== "high_52w" && type !== "low_52w";
+
+  const conditionLabels: Record<AlertConditionType, string> = {
+    price_above: t.alerts.priceAbove,
+    price_below: t.alerts.priceBelow,
+    change_percent: t.alerts.changePercent,
+    high_52w: t.alerts.high52w,
+    low_52w: t.alerts.low52w,
+    volume_spike: t.alerts.volumeSpike,
+  };
+
+  const handleTypeChange = (next: AlertConditionType) => {
+    setType(next);
+    setThreshold(defaultThreshold(next, price));
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const value = Number(threshold);
+    if (
+      needsThreshold &&
+      (threshold.trim() === "" ||
+        !Number.isFinite(value) ||
+        (type !== "change_percent" && value <= 0))
+    ) {
+      setError(t.alerts.invalidThreshold);
+      return;
+    }
+
+    setIsBusy(true);
+    setError(null);
+    try {
+      await addAlert(symbol, buildCondition(type, value), mode);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <Dialog.Root open={open} onOpenChange={onOpenChange}>
+      <Dialog.Portal>
+        <Dialog.Backdrop className='fixed inset-0 bg-black/40 backdrop-blur-sm' />
+        <Dialog.Popup className='bg-popover fixed top-1/2 left-1/2 max-h-[85vh] w-[min(92vw,420px)] -translate-x-1/2 -translate-y-1/2 overflow-y-auto rounded-xs border p-4 text-xs shadow-lg'>
+          <Dialog.Title className='text-foreground text-sm font-medium'>
+            {t.alerts.alerts} {symbol}
+          </Dialog.Title>
+          <Dialog.Description className='text-muted-foreground mt-1 text-xs'>
+            {isLoggedIn ? t.alerts.serverHint : t.alerts.loginRequired}
+          </Dialog.Description>
+
+          {isLoggedIn ? (
+            <>
+              <div className='mt-4 space-y-1'>
+                {alerts.length === 0 ? (
+                  <p className='text-muted-foreground'>{t.alerts.noAlerts}</p>
+                ) : (
+                  alerts.map((alert) => (
+                    <AlertRow
+                      key={alert.id}
+                      alert={alert}
+                      onToggle={() => setAlertEnabled(alert.id, !alert.enabled)}
+                      onSnooze={(until) => snoozeAlert(alert.id, until)}
+                      onRemove={() => removeAlert(alert.id)}
+                    />
+                  ))
+                )}
+              </div>
+
+              <form
+                onSubmit={handleSubmit}
+                className='mt-4 space-y-3 border-t pt-3'>
+                <div className='text-foreground font-medium'>
+                  {t.alerts.newAlert}
+                </div>
+                <div className='grid gap-2 md:grid-cols-2'>
+                  <select
+                    value={type}
+                    onChange={(e) =>
+                      handleTypeChange(e.target.value as AlertConditionType)
+                    }
+                    className={inputClassName}
+                    aria-label={t.alerts.condition}>
+                    {CONDITION_TYPES.map((value) => (
+                      <option key={value} value={value}>
+                        {conditionLabels[value]}
+                      </option>
+                    ))}
+                  </select>
+                  {needsThreshold ? (
+                    <input
+                      type='number'
+                      inputMode='decimal'
+                      step='any'
+                      value={threshold}
+                      onChange={(e) => setThreshold(e.target.value)}
+                      className={inputClassName}
+                      placeholder={t.alerts.threshold}
+                    />
+                  ) : null}
+                </div>
+                {type === "change_percent" ? (
+                  <p className='text-muted-foreground'>
+                    {t.alerts.changePercentHint}
+                  </p>
+                ) : null}
+                <div className='flex items-center gap-2'>
+                  {(["once", "repeat"] as const).map((value) => (
+                    <Button
+                      key={value}
+                      type='button'
+                      size='xs'
+                      variant={mode === value ? "default" : "outline"}
+                      onClick={() => setMode(value)}>
+                      {value === "once" ? t.alerts.once : t.alerts.repeat}
+                    </Button>
+                  ))}
+                  <span className='text-muted-foreground'>
+                    {mode === "once" ? t.alerts.onceHint : t.alerts.repeatHint}
+                  </span>
+                </div>
+
+                {error ? <p className='text-destructive'>{error}</p> : null}
+                <div className='flex items-center justify-end gap-2 pt-2'>
+                  <Dialog.Close className='text-muted-foreground hover:bg-muted rounded-xs border px-2 py-1 text-xs'>
+                    {t.common.cancel}
+                  </Dialog.Close>
+                  <Button type='submit' size='xs' disabled={isBusy}>
+                    {t.common.add}
+                  </Button>
+                </div>
+              </form>
+            </>
+          ) : null}
+        </Dialog.Popup>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
+
+function AlertRow({
+  alert,
+  onToggle,
+  onSnooze,
+  onRemove,
+}: {
+  alert: PriceAlert;
+  onToggle: () => void;
+  onSnooze: (until: string | null) => void;
+  onRemove: () => void;
+}) {
+  const { t } = useI18n();
+  const isSnoozed =
+    alert.enabled && !isAlertActive(alert, new Date()) && !!alert.snoozedUntil;
+
+  let status = alert.mode === "once" ? t.alerts.once : t.alerts.repeat;
+  if (!alert.enabled) {
+    status = t.alerts.disabled;
+  } else if (isSnoozed) {
+    status = `${t.alerts.snoozedUntil} ${formatAlertTime(alert.snoozedUntil!)}`;
+  }
+
+  return (
+    <div className='hover:bg-muted/50 flex items-center gap-2 rounded-xs px-1 py-1'>
+      <div className='min-w-0 flex-1'>
+        <div className={cn(!alert.enabled && "text-muted-foreground")}>
+          {describeAlertCondition(alert.condition, t)}
+        </div>
+        <div className='text-muted-foreground'>
+          {status}
+          {alert.lastTriggeredAt
+            ? ` · ${t.alerts.lastTriggered} ${formatAlertTime(alert.lastTriggeredAt)}`
+            : null}
+        </div>
+      </div>
+      {alert.enabled ? (
+        isSnoozed ? (
+          <button
+            type='button'
+            className='text-blue-600 hover:underline'
+            onClick={() => onSnooze(null)}>
+            {t.alerts.unsnooze}
+          </button>
+        ) : (
+          <select
+            value=''
+            onChange={(e) =>
+              onSnooze(snoozeUntil(e.target.value as "1h" | "today" | "1w"))
+            }
+            className='border-input bg-background h-6 rounded-xs border px-1 text-xs'
+            aria-label={t.alerts.snooze}>
+            <option value='' disabled>
+              {t.alerts.snooze}
+            </option>
+            <option value='1h'>{t.alerts.snooze1h}</option>
+            <option value='today'>{t.alerts.snoozeToday}</option>
+            <option value='1w'>{t.alerts.snooze1w}</option>
+          </select>
+        )
+      ) : null}
+      <button
+        type='button'
+        className='text-blue-600 hover:underline'
+        onClick={onToggle}>
+        {alert.enabled ? t.alerts.disable : t.alerts.enable}
+      </button>
+      <button
+        type='button'
+        className='text-muted-foreground hover:text-destructive'
+        onClick={onRemove}
+        title={t.common.delete}>
+        <Trash2 className='size-3.5' />
+      </button>
+    </div>
+  );
+}
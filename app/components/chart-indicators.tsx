@@ -0,0 +1,325 @@
+import { memo } from "react";
+import { SlidersHorizontal } from "lucide-react";
+import { Popover } from "@base-ui/react/popover";
+import { useI18n } from "~/lib/i18n";
+import { cn } from "~/lib/utils";
+import type { IndicatorSettings, OscillatorType } from "~/lib/storage/types";
+import type {
+  ChartIndicators,
+  IndicatorSeries,
+} from "~/lib/indicators/technical";
+import { MAX_PERIOD, MIN_PERIOD } from "~/lib/indicators/settings";
+
+export type IndicatorSettingsUpdate = (
+  update: (prev: IndicatorSettings) => IndicatorSettings,
+) => void;
+
+/**
+ * 指标线颜色
+ */
+export const INDICATOR_COLORS = {
+  sma: "#f59e0b",
+  ema: "#8b5cf6",
+  bollinger: "#3b82f6",
+  vwap: "#ec4899",
+  rsi: "#8b5cf6",
+  macd: "#3b82f6",
+  signal: "#f59e0b",
+  up: "#22c55e",
+  down: "#ef4444",
+};
+
+type OverlayKey = keyof IndicatorSettings["overlays"];
+
+const OVERLAY_KEYS: OverlayKey[] = ["sma", "ema", "bollinger", "vwap"];
+const OSCILLATOR_KEYS: Exclude<OscillatorType, "none">[] = ["rsi", "macd"];
+
+/**
+ * 指标序列转换为 SVG path，null 处断开
+ */
+export function buildSeriesPath(
+  values: IndicatorSeries,
+  xAt: (index: number) => number,
+  yAt: (value: number) => number,
+): string {
+  let path = "";
+  let drawing = false;
+  values.forEach((value, i) => {
+    if (value === null) {
+      drawing = false;
+      return;
+    }
+    path += `${drawing ? "L" : "M"}${xAt(i).toFixed(1)},${yAt(value).toFixed(1)}`;
+    drawing = true;
+  });
+  return path;
+}
+
+// ============================================================================
+// 指标开关
+// ============================================================================
+
+export const IndicatorToolbar = memo(function IndicatorToolbar({
+  settings,
+  onChange,
+}: {
+  settings: IndicatorSettings;
+  onChange: IndicatorSettingsUpdate;
+}) {
+  const { t } = useI18n();
+
+  const toggleOverlay = (key: OverlayKey) =>
+    onChange((prev) => ({
+      ...prev,
+      overlays: { ...prev.overlays, [key]: !prev.overlays[key] },
+    }));
+
+  const toggleOscillator = (key: OscillatorType) =>
+    onChange((prev) => ({
+      ...prev,
+      oscillator: prev.oscillator === key ? "none" : key,
+    }));
+
+  const buttonClassName = (active: boolean) =>
+    cn(
+      "rounded-xs border px-1.5 py-0.5 text-xs transition-colors",
+      active
+        ? "border-transparent text-white"
+        : "text-muted-foreground hover:bg-muted",
+    );
+
+  return (
+    <div className='flex flex-wrap items-center gap-0.5'>
+      {OVERLAY_KEYS.map((key) => (
+        <button
+          key={key}
+          onClick={() => toggleOverlay(key)}
+          title={t.indicators.overlayHint}
+          className={buttonClassName(settings.overlays[key])}
+          style={
+            settings.overlays[key]
+              ? { backgroundColor: INDICATOR_COLORS[key] }
+              : undefined
+          }>
+          {t.indicators[key]}
+        </button>
+      ))}
+      <span className='bg-border mx-1 h-3 w-px' />
+      {OSCILLATOR_KEYS.map((key) => (
+        <button
+          key={key}
+          onClick={() => toggleOscillator(key)}
+          title={t.indicators.oscillatorHint}
+          className={buttonClassName(settings.oscillator === key)}
+          style={
+            settings.oscillator === key
+              ? { backgroundColor: INDICATOR_COLORS[key] }
+              : undefined
+          }>
+          {t.indicators[key]}
+        </button>
+      ))}
+      <IndicatorSettingsMenu settings={settings} onChange={onChange} />
+    </div>
+  );
+});
+
+type NumericSettingKey = Exclude<
+  keyof IndicatorSettings,
+  "overlays" | "oscillator"
+>;
+
+const NUMERIC_SETTINGS: NumericSettingKey[] = [
+  "smaPeriod",
+  "emaPeriod",
+  "bollingerPeriod",
+  "bollingerMultiplier",
+  "rsiPeriod",
+  "macdFast",
+  "macdSlow",
+  "macdSignal",
+];
+
+function IndicatorSettingsMenu({
+  settings,
+  onChange,
+}: {
+  settings: IndicatorSettings;
+  onChange: IndicatorSettingsUpdate;
+}) {
+  const { t } = useI18n();
+
+  const handleChange = (key: NumericSettingKey, raw: string) => {
+    const value = Number(raw);
+    if (raw === "" || !Number.isFinite(value)) return;
+    onChange((prev) => ({ ...prev, [key]: value }));
+  };
+
+  return (
+    <Popover.Root>
+      <Popover.Trigger
+        className='text-muted-foreground hover:text-foreground ml-auto cursor-pointer'
+        title={t.indicators.settings}>
+        <SlidersHorizontal className='size-3.5' />
+      </Popover.Trigger>
+      <Popover.Portal>
+        <Popover.Positioner sideOffset={4} align='end'>
+          <Popover.Popup className='bg-background w-56 space-y-1 rounded-xs border p-2 text-xs shadow-lg'>
+            <div className='border-b pb-1 font-medium'>
+              {t.indicators.settings}
+            </div>
+            {NUMERIC_SETTINGS.map((key) => {
+              const isMultiplier = key === "bollingerMultiplier";
+              return (
+                <label
+                  key={key}
+                  className='flex items-center justify-between gap-2'>
+                  <span className='text-muted-foreground'>
+                    {t.indicators[key]}
+                  </span>
+                  {/* key 随设置变化，被规范化后输入框显示保存的值 */}
+                  <input
+                    key={settings[key]}
+                    type='number'
+                    min={isMultiplier ? 0.5 : MIN_PERIOD}
+                    max={isMultiplier ? 5 : MAX_PERIOD}
+                    step={isMultiplier ? 0.5 : 1}
+                    defaultValue={settings[key]}
+                    onBlur={(e) => handleChange(key, e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") {
+                        handleChange(key, e.currentTarget.value);
+                      }
+                    }}
+                    className='border-input bg-background h-6 w-16 rounded-xs border px-1 text-right text-xs'
+                  />
+                </label>
+              );
+            })}
+          </Popover.Popup>
+        </Popover.Positioner>
+      </Popover.Portal>
+    </Popover.Root>
+  );
+}
+
+// ============================================================================
+// 副图
+// ============================================================================
+
+/**
+ * 副图：RSI（0-100，标出 30 / 70）或 MACD（柱状图 + MACD 线 + 信号线）
+ *
+ * 横向布局与主图一致，按索引对齐
+ */
+export const OscillatorPane = memo(function OscillatorPane({
+  indicators,
+  length,
+  layout,
+}: {
+  indicators: ChartIndicators;
+  length: number;
+  layout: { leftMargin: number; chartWidth: number; rightMargin: number };
+}) {
+  const { leftMargin, chartWidth, rightMargin } = layout;
+  const height = 48;
+  const topMargin = 4;
+  const bottomMargin = 4;
+  const totalWidth = leftMargin + chartWidth + rightMargin;
+  const totalHeight = height + topMargin + bottomMargin;
+  const xAt = (i: number) =>
+    leftMargin + (i / Math.max(length - 1, 1)) * chartWidth;
+
+  let content: React.ReactNode = null;
+  let labels: { value: number; text: string }[] = [];
+  let yAt: (value: number) => number;
+
+  if (indicators.rsi) {
+    yAt = (value) => topMargin + height - (value / 100) * height;
+    labels = [
+      { value: 70, text: "70" },
+      { value: 30, text: "30" },
+    ];
+    content = (
+      <path
+        d={buildSeriesPath(indicators.rsi, xAt, yAt)}
+        fill='none'
+        stroke={INDICATOR_COLORS.rsi}
+        strokeWidth={1.2}
+      />
+    );
+  } else if (indicators.macd) {
+    const { macd, signal, histogram } = indicators.macd;
+    const extent =
+      Math.max(
+        ...[...macd, ...signal, ...histogram].map((v) =>
+          v === null ? 0 : Math.abs(v),
+        ),
+      ) || 1;
+    yAt = (value) => topMargin + height / 2 - (value / extent) * (height / 2);
+    labels = [{ value: 0, text: "0" }];
+    const barWidth = Math.max((chartWidth / Math.max(length, 1)) * 0.6, 0.5);
+    content = (
+      <>
+        {histogram.map((value, i) =>
+          value === null ? null : (
+            <rect
+              key={i}
+              x={xAt(i) - barWidth / 2}
+              y={Math.min(yAt(value), yAt(0))}
+              width={barWidth}
+              height={Math.abs(yAt(value) - yAt(0))}
+              fill={value >= 0 ? INDICATOR_COLORS.up : INDICATOR_COLORS.down}
+              fillOpacity={0.5}
+            />
+          ),
+        )}
+        <path
+          d={buildSeriesPath(macd, xAt, yAt)}
+          fill='none'
+          stroke={INDICATOR_COLORS.macd}
+          strokeWidth={1.2}
+        />
+        <path
+          d={buildSeriesPath(signal, xAt, yAt)}
+          fill='none'
+          stroke={INDICATOR_COLORS.signal}
+          strokeWidth={1.2}
+        />
+      </>
+    );
+  } else {
+    return null;
+  }
+
+  return (
+    <svg
+      viewBox={`0 0 ${totalWidth} ${totalHeight}`}
+      className='w-full border-t'
+      style={{ aspectRatio: `${totalWidth} / ${totalHeight}` }}>
+      {labels.map(({ value, text }) => (
+        <g key={text}>
+          <line
+            x1={leftMargin}
+            y1={yAt(value)}
+            x2={leftMargin + chartWidth}
+            y2={yAt(value)}
+            stroke='currentColor'
+            strokeOpacity={0.15}
+            strokeDasharray='3 3'
+          />
+          <text
+            x={leftMargin - 4}
+            y={yAt(value)}
+            textAnchor='end'
+            dominantBaseline='middle'
+            className='fill-muted-foreground'
+            fontSize={10}>
+            {text}
+          </text>
+        </g>
+      ))}
+      {content}
+    </svg>
+  );
+});
@@ -1,5 +1,6 @@
 import { Link, useLocation } from "react-router";
 import { GitHubLogin } from "./github-login";
+import { AlertNotifications } from "./alerts/alert-notifications";
 import { Logo } from "./logo";
 import { useI18n } from "~/lib/i18n";
 import { cn } from "~/lib/utils";
@@ -15,15 +16,18 @@ export function Header() {
       { path: "/", label: t.nav.market },
       { path: "/assets", label: t.nav.assets },
       { path: "/records", label: t.nav.records },
+      { path: "/reports", label: t.nav.reports },
     ],
-    [t.nav.market, t.nav.assets, t.nav.records],
+    [t.nav.market, t.nav.assets, t.nav.records, t.nav.reports],
   );
 
   return (
     <header className='page-area flex items-center justify-between py-1'>
       <div className='flex items-center gap-6'>
         {/* Logo */}
-        <Link to="/" className='flex items-center hover:opacity-80 transition-opacity'>
+        <Link
+          to='/'
+          className='flex items-center transition-opacity hover:opacity-80'>
           <Logo className='h-8 w-auto' />
         </Link>
 
@@ -46,6 +50,7 @@ export function Header() {
       </div>
 
       <div className='flex items-center gap-2'>
+        <AlertNotifications />
         <GitHubLogin />
       </div>
     </header>
@@ -1,6 +1,18 @@
 import { useState, useEffect, useCallback, useMemo, memo } from "react";
 import { Loader2 } from "lucide-react";
 import { cn } from "~/lib/utils";
+import type { IndicatorSettings } from "~/lib/storage/types";
+import {
+  computeIndicators,
+  type ChartIndicators,
+} from "~/lib/indicators/technical";
+import {
+  buildSeriesPath,
+  INDICATOR_COLORS,
+  IndicatorToolbar,
+  OscillatorPane,
+  type IndicatorSettingsUpdate,
+} from "./chart-indicators";
 
 export interface ChartPoint {
   date: string;
@@ -15,12 +27,21 @@ export type TimeRange = "1D" | "5D" | "1M" | "3M" | "6M" | "1Y" | "5Y";
 
 const TIME_RANGES: TimeRange[] = ["1D", "5D", "1M", "3M", "6M", "1Y", "5Y"];
 
+// 日内 K 线的范围，VWAP 按日重新累计
+const INTRADAY_RANGES: TimeRange[] = ["1D", "5D", "1M"];
+
+// 图表横向布局，副图与主图对齐
+const CHART_LAYOUT = { leftMargin: 40, chartWidth: 400, rightMargin: 8 };
+
 interface MiniChartProps {
   symbol: string;
   initialData?: ChartPoint[];
   strokeWidth?: number;
   upColor?: string;
   downColor?: string;
+  /** 技术指标设置，不传时只画收盘价 */
+  indicators?: IndicatorSettings;
+  onIndicatorsChange?: IndicatorSettingsUpdate;
 }
 
 // Hoist static loading spinner
@@ -87,20 +108,40 @@ const ChartWithAxis = memo(function ChartWithAxis({
   strokeWidth = 1.5,
   upColor = "#22c55e",
   downColor = "#ef4444",
+  indicators = {},
 }: {
   data: ChartPoint[];
   range: TimeRange;
   strokeWidth?: number;
   upColor?: string;
   downColor?: string;
+  indicators?: ChartIndicators;
 }) {
   if (!data || data.length === 0) return null;
 
   const closes = data.map((d) => d.close).filter((c) => c != null);
   if (closes.length < 2) return null;
 
-  const minPrice = Math.min(...closes);
-  const maxPrice = Math.max(...closes);
+  // 主图叠加的指标线：[序列, 颜色, 虚线]
+  const overlays: [(number | null)[], string, boolean][] = [];
+  if (indicators.bollinger) {
+    const { upper, middle, lower } = indicators.bollinger;
+    overlays.push([upper, INDICATOR_COLORS.bollinger, true]);
+    overlays.push([middle, INDICATOR_COLORS.bollinger, false]);
+    overlays.push([lower, INDICATOR_COLORS.bollinger, true]);
+  }
+  if (indicators.sma)
+    overlays.push([indicators.sma, INDICATOR_COLORS.sma, false]);
+  if (indicators.ema)
+    overlays.push([indicators.ema, INDICATOR_COLORS.ema, false]);
+  if (indicators.vwap)
+    overlays.push([indicators.vwap, INDICATOR_COLORS.vwap, false]);
+  const overlayValues = overlays.flatMap(([values]) =>
+    values.filter((v): v is number => v !== null),
+  );
+
+  const minPrice = Math.min(...closes, ...overlayValues);
+  const maxPrice = Math.max(...closes, ...overlayValues);
   const priceRange = maxPrice - minPrice || 1;
 
   // 添加 5% 的上下边距
@@ -110,10 +151,8 @@ const ChartWithAxis = memo(function ChartWithAxis({
   const adjustedRange = max - min;
 
   // 图表尺寸配置
-  const chartWidth = 400;
+  const { chartWidth, leftMargin, rightMargin } = CHART_LAYOUT;
   const chartHeight = 120;
-  const leftMargin = 40; // Y轴标签
-  const rightMargin = 8;
   const topMargin = 8;
   const bottomMargin = 20; // X轴标签
   const totalWidth = chartWidth + leftMargin + rightMargin;
@@ -126,11 +165,21 @@ const ChartWithAxis = memo(function ChartWithAxis({
         .map((close, i) => {
           const x = leftMargin + (i / (closes.length - 1)) * chartWidth;
           const y =
-            topMargin + chartHeight - ((close - min) / adjustedRange) * chartHeight;
+            topMargin +
+            chartHeight -
+            ((close - min) / adjustedRange) * chartHeight;
           return `${x},${y}`;
         })
         .join(" "),
-    [closes, chartWidth, chartHeight, topMargin, min, adjustedRange, leftMargin],
+    [
+      closes,
+      chartWidth,
+      chartHeight,
+      topMargin,
+      min,
+      adjustedRange,
+      leftMargin,
+    ],
   );
 
   const isUp = closes[closes.length - 1] >= closes[0];
@@ -140,7 +189,10 @@ const ChartWithAxis = memo(function ChartWithAxis({
   const yTicks = useMemo(() => getYTicks(min, max, 4), [min, max]);
 
   // X轴刻度
-  const xTickIndices = useMemo(() => getXTickIndices(data.length, 5), [data.length]);
+  const xTickIndices = useMemo(
+    () => getXTickIndices(data.length, 5),
+    [data.length],
+  );
 
   return (
     <svg
@@ -204,6 +256,26 @@ const ChartWithAxis = memo(function ChartWithAxis({
         );
       })}
 
+      {/* 指标线 */}
+      {overlays.map(([values, color, dashed], i) => (
+        <path
+          key={`overlay-${i}`}
+          d={buildSeriesPath(
+            values,
+            (idx) => leftMargin + (idx / (closes.length - 1)) * chartWidth,
+            (value) =>
+              topMargin +
+              chartHeight -
+              ((value - min) / adjustedRange) * chartHeight,
+          )}
+          fill='none'
+          stroke={color}
+          strokeWidth={1}
+          strokeOpacity={0.9}
+          strokeDasharray={dashed ? "3 2" : undefined}
+        />
+      ))}
+
       {/* 价格曲线 */}
       <polyline
         fill='none'
@@ -223,6 +295,8 @@ export function MiniChart({
   strokeWidth = 1.5,
   upColor = "#22c55e",
   downColor = "#ef4444",
+  indicators,
+  onIndicatorsChange,
 }: MiniChartProps) {
   const [range, setRange] = useState<TimeRange>("3M");
   const [data, setData] = useState<ChartPoint[]>(initialData || []);
@@ -260,6 +334,19 @@ export function MiniChart({
     setRange(r);
   }, []);
 
+  // 过滤没有收盘价的 K 线，指标与价格曲线按索引对齐
+  const bars = useMemo(() => data.filter((d) => d.close != null), [data]);
+
+  const computed = useMemo(
+    () =>
+      indicators
+        ? computeIndicators(bars, indicators, {
+            resetDaily: INTRADAY_RANGES.includes(range),
+          })
+        : {},
+    [bars, indicators, range],
+  );
+
   return (
     <div className='space-y-1'>
       {/* 时间范围选择 */}
@@ -279,16 +366,31 @@ export function MiniChart({
         ))}
       </div>
 
+      {/* 指标开关 */}
+      {indicators && onIndicatorsChange && (
+        <IndicatorToolbar settings={indicators} onChange={onIndicatorsChange} />
+      )}
+
       {/* 图表 */}
       <div className='relative'>
-        {isLoading ? loadingSpinner : (
-          <ChartWithAxis
-            data={data}
-            range={range}
-            strokeWidth={strokeWidth}
-            upColor={upColor}
-            downColor={downColor}
-          />
+        {isLoading ? (
+          loadingSpinner
+        ) : (
+          <>
+            <ChartWithAxis
+              data={bars}
+              range={range}
+              strokeWidth={strokeWidth}
+              upColor={upColor}
+              downColor={downColor}
+              indicators={computed}
+            />
+            <OscillatorPane
+              indicators={computed}
+              length={bars.length}
+              layout={CHART_LAYOUT}
+            />
+          </>
         )}
       </div>
     </div>
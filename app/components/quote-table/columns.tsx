@@ -1,4 +1,4 @@
-import type { Quote } from "yahoo-finance2/modules/quote";
+import type { MarketQuote } from "~/lib/market-data/types";
 import { createColumnHelper, type ColumnDef } from "@tanstack/react-table";
 import {
   formatNumber,
@@ -6,7 +6,7 @@ import {
   formatLargeNumberZh,
 } from "~/lib/utils";
 
-const columnHelper = createColumnHelper<Quote>();
+const columnHelper = createColumnHelper<MarketQuote>();
 
 interface ColumnLabels {
   symbol: string;
@@ -31,7 +31,7 @@ interface CreateColumnsOptions {
 export function createColumns({
   labels: t,
   language,
-}: CreateColumnsOptions): ColumnDef<Quote, unknown>[] {
+}: CreateColumnsOptions): ColumnDef<MarketQuote, any>[] {
   // 根据语言选择格式化函数
   const formatMarketCap =
     language === "zh" ? formatLargeNumberZh : formatLargeNumber;
@@ -41,13 +41,13 @@ export function createColumns({
       enableSorting: false,
       enableHiding: false,
     }),
-    columnHelper.accessor("longName", {
+    columnHelper.accessor("name", {
       header: t.name,
       enableSorting: false,
       enableHiding: true,
       cell: (info) => info.getValue() ?? "-",
     }),
-    columnHelper.accessor("regularMarketPrice", {
+    columnHelper.accessor("price", {
       header: t.price,
       enableSorting: true,
       enableHiding: true,
@@ -56,7 +56,7 @@ export function createColumns({
         return value != null ? formatNumber(value as number) : "-";
       },
     }),
-    columnHelper.accessor("regularMarketChange", {
+    columnHelper.accessor("change", {
       header: t.change,
       enableSorting: true,
       enableHiding: true,
@@ -65,7 +65,7 @@ export function createColumns({
         return value != null ? formatNumber(value as number) : "-";
       },
     }),
-    columnHelper.accessor("regularMarketChangePercent", {
+    columnHelper.accessor("changePercent", {
       header: t.percentChange,
       enableSorting: true,
       enableHiding: true,
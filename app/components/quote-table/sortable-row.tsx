@@ -5,6 +5,10 @@ import { GripVertical, X } from "lucide-react";
 import { TableRow, TableCell } from "~/components/ui/table";
 import { ConfirmPopover } from "~/components/confirm-popover";
 import { cn } from "~/lib/utils";
+import {
+  priceFlashClassName,
+  usePriceFlash,
+} from "~/lib/market-data/use-price-flash";
 import type { SortableRowProps } from "./types";
 import { memo, useCallback } from "react";
 
@@ -34,10 +38,27 @@ const ChangeCell = memo(function ChangeCell({
   value: number;
   children: React.ReactNode;
 }) {
+  return (
+    <TableCell className={cn(value > 0 ? "text-green-600" : "text-red-600")}>
+      {children}
+    </TableCell>
+  );
+});
+
+// 推送的价格变化时闪烁
+const PriceCell = memo(function PriceCell({
+  value,
+  children,
+}: {
+  value: number | undefined;
+  children: React.ReactNode;
+}) {
+  const flash = usePriceFlash(value);
   return (
     <TableCell
       className={cn(
-        value > 0 ? "text-green-600" : "text-red-600",
+        "transition-colors duration-700",
+        priceFlashClassName(flash),
       )}>
       {children}
     </TableCell>
@@ -82,9 +103,12 @@ export const SortableRow = memo(function SortableRow({
 
   const cells = visibleCells();
 
-  const handleSymbolClick = useCallback((e: React.MouseEvent) => {
-    onSymbolClick?.(quote.symbol, e);
-  }, [onSymbolClick, quote.symbol]);
+  const handleSymbolClick = useCallback(
+    (e: React.MouseEvent) => {
+      onSymbolClick?.(quote.symbol, e);
+    },
+    [onSymbolClick, quote.symbol],
+  );
 
   return (
     <TableRow
@@ -115,16 +139,23 @@ export const SortableRow = memo(function SortableRow({
         }
 
         // 涨跌额列 - 红绿色
-        if (cell.column.id === "regularMarketChange") {
+        if (cell.column.id === "change") {
           return (
-            <ChangeCell
-              key={cell.id}
-              value={quote.regularMarketChange ?? 0}>
+            <ChangeCell key={cell.id} value={quote.change ?? 0}>
               {flexRender(cell.column.columnDef.cell, cell.getContext())}
             </ChangeCell>
           );
         }
 
+        // 价格列 - 变化时闪烁
+        if (cell.column.id === "price") {
+          return (
+            <PriceCell key={cell.id} value={quote.price}>
+              {flexRender(cell.column.columnDef.cell, cell.getContext())}
+            </PriceCell>
+          );
+        }
+
         // 市值列 - 右对齐
         if (cell.column.id === "marketCap") {
           return (
@@ -1,11 +1,11 @@
-import type { Quote } from "yahoo-finance2/modules/quote";
+import type { MarketQuote } from "~/lib/market-data/types";
 import type { useReactTable } from "@tanstack/react-table";
 
 /**
  * QuoteTable 组件属性
  */
 export interface QuoteTableProps {
-  quotes: Quote[];
+  quotes: MarketQuote[];
   onRemoveSymbol?: (symbol: string) => void;
   onReorder?: (newOrder: string[]) => void;
   onSymbolClick?: (symbol: string, event: React.MouseEvent) => void;
@@ -15,18 +15,18 @@ export interface QuoteTableProps {
  * SortableRow 组件属性
  */
 export interface SortableRowProps {
-  quote: Quote;
+  quote: MarketQuote;
   onRemoveSymbol?: (symbol: string) => void;
   onSymbolClick?: (symbol: string, event: React.MouseEvent) => void;
   visibleCells: ReturnType<
-    ReturnType<typeof useReactTable<Quote>>["getRowModel"]
+    ReturnType<typeof useReactTable<MarketQuote>>["getRowModel"]
   >["rows"][number]["getVisibleCells"];
 }
 
 /**
  * Table 实例类型
  */
-export type QuoteTableInstance = ReturnType<typeof useReactTable<Quote>>;
+export type QuoteTableInstance = ReturnType<typeof useReactTable<MarketQuote>>;
 
 /**
  * Column 类型
@@ -1,5 +1,5 @@
 import { useEffect, useState, useCallback, useMemo, memo } from "react";
-import { Loader2, TrendingUp, TrendingDown } from "lucide-react";
+import { Bell, Loader2, TrendingUp, TrendingDown } from "lucide-react";
 import { useI18n } from "~/lib/i18n";
 import {
   cn,
@@ -7,8 +7,15 @@ import {
   formatLargeNumber,
   formatLargeNumberZh,
 } from "~/lib/utils";
+import {
+  priceFlashClassName,
+  usePriceFlash,
+} from "~/lib/market-data/use-price-flash";
+import type { QuotePatch } from "~/lib/market-data/quote-hub";
 import { FloatingWindow } from "./floating-window";
 import { MiniChart, type ChartPoint } from "./mini-chart";
+import { PriceAlertDialog } from "./alerts/price-alert-dialog";
+import { useIndicatorSettings } from "~/lib/indicators/use-indicator-settings";
 
 interface StockSummary {
   symbol: string;
@@ -40,6 +47,8 @@ interface StockDetailProps {
   symbol: string;
   onClose: () => void;
   position: { x: number; y: number };
+  /** 推送的最新行情，覆盖详情中的价格和涨跌 */
+  liveQuote?: QuotePatch;
 }
 
 // Hoist static loading spinner
@@ -74,6 +83,7 @@ const PriceHeader = memo(function PriceHeader({
   currency,
   isUp,
   formatFn,
+  onAlerts,
 }: {
   price: number;
   change: number;
@@ -82,12 +92,19 @@ const PriceHeader = memo(function PriceHeader({
   currency: string;
   isUp: boolean;
   formatFn: (n: number, decimals?: number) => string;
+  onAlerts: () => void;
 }) {
+  const { t } = useI18n();
+  const flash = usePriceFlash(price);
   return (
     <div className='flex items-center justify-between'>
       <div>
         <div className='flex items-center gap-2'>
-          <span className='text-xl font-bold'>
+          <span
+            className={cn(
+              "rounded-xs px-0.5 text-xl font-bold transition-colors duration-700",
+              priceFlashClassName(flash),
+            )}>
             ${formatFn(price)}
           </span>
           <span
@@ -107,6 +124,12 @@ const PriceHeader = memo(function PriceHeader({
           {exchange} · {currency}
         </div>
       </div>
+      <button
+        className='text-muted-foreground hover:text-foreground cursor-pointer'
+        onClick={onAlerts}
+        title={t.alerts.alerts}>
+        <Bell className='size-4' />
+      </button>
     </div>
   );
 });
@@ -115,12 +138,17 @@ export const StockDetail = memo(function StockDetail({
   symbol,
   onClose,
   position,
+  liveQuote,
 }: StockDetailProps) {
   const { t, language } = useI18n();
   const [summary, setSummary] = useState<StockSummary | null>(null);
   const [chart, setChart] = useState<ChartPoint[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [alertsOpen, setAlertsOpen] = useState(false);
+  const { settings: indicatorSettings, updateSettings: updateIndicators } =
+    useIndicatorSettings();
+  const openAlerts = useCallback(() => setAlertsOpen(true), []);
 
   const fetchData = useCallback(async () => {
     setIsLoading(true);
@@ -145,7 +173,8 @@ export const StockDetail = memo(function StockDetail({
     fetchData();
   }, [fetchData]);
 
-  const isUp = summary && summary.change >= 0;
+  const change = liveQuote?.change ?? summary?.change;
+  const isUp = change !== undefined && change >= 0;
 
   const formatLargeNumberFn = useMemo(
     () => (language === "zh" ? formatLargeNumberZh : formatLargeNumber),
@@ -172,7 +201,9 @@ export const StockDetail = memo(function StockDetail({
       defaultSize={{ width: 400, height: 520 }}
       minWidth={300}
       minHeight={250}>
-      {isLoading && !summary ? loadingSpinner : error ? (
+      {isLoading && !summary ? (
+        loadingSpinner
+      ) : error ? (
         <div className='flex h-full items-center justify-center text-red-500'>
           {error}
         </div>
@@ -180,24 +211,45 @@ export const StockDetail = memo(function StockDetail({
         <div className='space-y-3'>
           {/* 价格头部 */}
           <PriceHeader
-            price={summary.price}
-            change={summary.change}
-            changePercent={summary.changePercent}
+            price={liveQuote?.price ?? summary.price}
+            change={liveQuote?.change ?? summary.change}
+            changePercent={liveQuote?.changePercent ?? summary.changePercent}
             exchange={summary.exchange}
             currency={summary.currency}
-            isUp={isUp ?? false}
+            isUp={isUp}
             formatFn={formatNumber}
+            onAlerts={openAlerts}
           />
+          {/* 打开时才挂载，避免每个详情窗口都监听提醒文档 */}
+          {alertsOpen && (
+            <PriceAlertDialog
+              open={alertsOpen}
+              onOpenChange={setAlertsOpen}
+              symbol={symbol}
+              price={liveQuote?.price ?? summary.price}
+            />
+          )}
 
           {/* 迷你图 */}
           <div className='rounded border p-2'>
-            <MiniChart symbol={symbol} initialData={chart} />
+            <MiniChart
+              symbol={symbol}
+              initialData={chart}
+              indicators={indicatorSettings}
+              onIndicatorsChange={updateIndicators}
+            />
           </div>
 
           {/* 关键数据 */}
           <div className='grid grid-cols-2 gap-x-4 gap-y-1 text-xs'>
-            <DataRow label={t.stockDetail.open} value={formatNumber(summary.open)} />
-            <DataRow label={t.stockDetail.prevClose} value={formatNumber(summary.previousClose)} />
+            <DataRow
+              label={t.stockDetail.open}
+              value={formatNumber(summary.open)}
+            />
+            <DataRow
+              label={t.stockDetail.prevClose}
+              value={formatNumber(summary.previousClose)}
+            />
             <DataRow
               label={t.stockDetail.dayRange}
               value={`${formatNumber(summary.dayLow)} - ${formatNumber(summary.dayHigh)}`}
@@ -206,12 +258,30 @@ export const StockDetail = memo(function StockDetail({
               label={t.stockDetail.weekRange52}
               value={`${formatNumber(summary.fiftyTwoWeekLow)} - ${formatNumber(summary.fiftyTwoWeekHigh)}`}
             />
-            <DataRow label={t.stockDetail.volume} value={formatLargeNumberFn(summary.volume)} />
-            <DataRow label={t.stockDetail.avgVolume} value={formatLargeNumberFn(summary.avgVolume)} />
-            <DataRow label={t.stockDetail.marketCap} value={formatLargeNumberFn(summary.marketCap)} />
-            <DataRow label={t.stockDetail.pe} value={formatNumber(summary.pe)} />
-            <DataRow label={t.stockDetail.eps} value={formatNumber(summary.eps)} />
-            <DataRow label={t.stockDetail.beta} value={formatNumber(summary.beta)} />
+            <DataRow
+              label={t.stockDetail.volume}
+              value={formatLargeNumberFn(summary.volume)}
+            />
+            <DataRow
+              label={t.stockDetail.avgVolume}
+              value={formatLargeNumberFn(summary.avgVolume)}
+            />
+            <DataRow
+              label={t.stockDetail.marketCap}
+              value={formatLargeNumberFn(summary.marketCap)}
+            />
+            <DataRow
+              label={t.stockDetail.pe}
+              value={formatNumber(summary.pe)}
+            />
+            <DataRow
+              label={t.stockDetail.eps}
+              value={formatNumber(summary.eps)}
+            />
+            <DataRow
+              label={t.stockDetail.beta}
+              value={formatNumber(summary.beta)}
+            />
           </div>
 
           {/* 行业信息 */}
@@ -2,13 +2,7 @@ import { useState, useEffect, useRef, useCallback, useMemo } from "react";
 import { Search, Plus, X, Loader2 } from "lucide-react";
 import { useI18n } from "~/lib/i18n";
 import { cn } from "~/lib/utils";
-
-interface SearchResult {
-  symbol: string;
-  name: string;
-  type: string;
-  exchange: string;
-}
+import type { SearchResult } from "~/lib/market-data/types";
 
 interface StockSearchProps {
   existingSymbols: string[];
@@ -42,8 +36,8 @@ export function StockSearch({
     [existingSymbols],
   );
 
-  const isAlreadyAdded = useCallback((symbol: string) =>
-    existingSymbolsSet.has(symbol.toUpperCase()),
+  const isAlreadyAdded = useCallback(
+    (symbol: string) => existingSymbolsSet.has(symbol.toUpperCase()),
     [existingSymbolsSet],
   );
 
@@ -90,12 +84,15 @@ export function StockSearch({
     return () => document.removeEventListener("mousedown", handleClickOutside);
   }, []);
 
-  const handleAdd = useCallback((symbol: string) => {
-    onAddSymbol(symbol);
-    setQuery("");
-    setResults([]);
-    setIsOpen(false);
-  }, [onAddSymbol]);
+  const handleAdd = useCallback(
+    (symbol: string) => {
+      onAddSymbol(symbol);
+      setQuery("");
+      setResults([]);
+      setIsOpen(false);
+    },
+    [onAddSymbol],
+  );
 
   const handleClear = useCallback(() => {
     setQuery("");
@@ -103,9 +100,12 @@ export function StockSearch({
     setIsOpen(false);
   }, []);
 
-  const handleInputChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    setQuery(e.target.value);
-  }, []);
+  const handleInputChange = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      setQuery(e.target.value);
+    },
+    [],
+  );
 
   return (
     <div ref={containerRef} className='relative'>
@@ -120,9 +120,7 @@ export function StockSearch({
         />
         {isLoading && <Loader2 className='size-3 animate-spin' />}
         {!isLoading && query && (
-          <button
-            onClick={handleClear}
-            className='hover:text-foreground'>
+          <button onClick={handleClear} className='hover:text-foreground'>
             <X className='size-3' />
           </button>
         )}
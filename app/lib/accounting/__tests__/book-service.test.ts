@@ -0,0 +1,1102 @@
+import { describe, expect, it } from "vitest";
+
+import { createAccount } from "~/lib/double-entry/account";
+import { createExchangeRate } from "~/lib/double-entry/currency";
+import { findFxGainLossAccount } from "~/lib/double-entry/entry";
+import { createRule } from "~/lib/double-entry/rules";
+import { createRecurringTemplate } from "~/lib/double-entry/recurring";
+import { EntryLineType } from "~/lib/double-entry/types";
+import { PeriodLockedError } from "~/lib/double-entry/closing";
+import { createReconciliation } from "~/lib/double-entry/reconcile";
+import {
+  createSplitAction,
+  createSymbolChangeAction,
+} from "~/lib/double-entry/corporate-actions";
+import { getHoldings } from "~/lib/double-entry/holdings";
+import { EntryConflictError } from "~/lib/firebase/repository/errors";
+import { MemoryRepositoryFactory } from "~/lib/firebase/repository/memory-repository";
+import {
+  addCorporateActionInRepository,
+  closePeriodInRepository,
+  createAccountInRepository,
+  createSimpleEntryInRepository,
+  createSplitEntryInRepository,
+  deleteEntryInRepository,
+  ensureBookInRepository,
+  exportPlainTextFromRepository,
+  finishReconciliationInRepository,
+  importPlainTextInRepository,
+  loadBookFromRepository,
+  postEditedOccurrenceInRepository,
+  postRecurringInRepository,
+  reapplyRulesInRepository,
+  reopenPeriodInRepository,
+  restoreEntryRevisionInRepository,
+  saveReconciliationsInRepository,
+  saveRecurringInRepository,
+  saveRulesInRepository,
+  setLineClearedInRepository,
+  skipRecurringInRepository,
+  updateSimpleEntryInRepository,
+  updateSplitEntryInRepository,
+} from "../book-service";
+import { createDemoBook } from "../demo-book";
+
+const USER_ID = "local";
+
+describe("book service", () => {
+  it("seeds the book once and loads all entries", async () => {
+    const factory = new MemoryRepositoryFactory();
+    const seed = () => ({ ...createDemoBook(), id: "local" });
+
+    const first = await ensureBookInRepository(factory, USER_ID, seed);
+    const second = await ensureBookInRepository(factory, USER_ID, seed);
+
+    expect(first.entries).toHaveLength(5);
+    expect(second.entries.map((e) => e.id)).toEqual(
+      first.entries.map((e) => e.id),
+    );
+  });
+
+  it("creates accounts and entries with balance updates", async () => {
+    const factory = new MemoryRepositoryFactory();
+    const book = await ensureBookInRepository(factory, USER_ID, () => ({
+      ...createDemoBook(),
+      id: "local",
+    }));
+    const expensesRoot = book.accounts.find((a) => a.path === "expenses")!;
+    const cash = book.accounts.find((a) => a.path === "assets:cash")!;
+
+    const books = await createAccountInRepository(factory, USER_ID, {
+      bookId: book.id,
+      name: "Books",
+      parentId: expensesRoot.id,
+    });
+    expect(books.path).toBe("expenses:books");
+
+    await createSimpleEntryInRepository(factory, USER_ID, {
+      bookId: book.id,
+      date: "2024-02-01",
+      description: "Novel",
+      debitAccountId: books.id,
+      creditAccountId: cash.id,
+      amount: 12.5,
+    });
+
+    const reloaded = (await loadBookFromRepository(factory, USER_ID, book.id))!;
+    const cashAfter = reloaded.accounts.find((a) => a.id === cash.id)!;
+    const booksAfter = reloaded.accounts.find((a) => a.id === books.id)!;
+
+    expect(reloaded.entries).toHaveLength(6);
+    expect(booksAfter.balance).toBe(1250);
+    expect(cashAfter.balance).toBe(cash.balance - 1250);
+  });
+
+  it("rejects duplicate account paths", async () => {
+    const factory = new MemoryRepositoryFactory();
+    const book = await ensureBookInRepository(factory, USER_ID, () => ({
+      ...createDemoBook(),
+      id: "local",
+    }));
+    const assetsRoot = book.accounts.find((a) => a.path === "assets")!;
+
+    await expect(
+      createAccountInRepository(factory, USER_ID, {
+        bookId: book.id,
+        name: "Cash",
+        parentId: assetsRoot.id,
+      }),
+    ).rejects.toThrow(/already exists/);
+  });
+
+  it("edits an entry by rolling back the old lines", async () => {
+    const factory = new MemoryRepositoryFactory();
+    const book = await ensureBookInRepository(factory, USER_ID, () => ({
+      ...createDemoBook(),
+      id: "local",
+    }));
+    const cash = book.accounts.find((a) => a.path === "assets:cash")!;
+    const food = book.accounts.find((a) => a.path === "expenses:food")!;
+    const transport = book.accounts.find(
+      (a) => a.path === "expenses:transport",
+    )!;
+
+    const entry = await createSimpleEntryInRepository(factory, USER_ID, {
+      bookId: book.id,
+      date: "2024-02-01",
+      description: "Lunch",
+      debitAccountId: food.id,
+      creditAccountId: cash.id,
+      amount: 30,
+    });
+    const updated = await updateSimpleEntryInRepository(factory, USER_ID, {
+      bookId: book.id,
+      entryId: entry.id,
+      expectedVersion: 1,
+      date: "2024-02-02",
+      description: "Taxi",
+      debitAccountId: transport.id,
+      creditAccountId: cash.id,
+      amount: 45,
+    });
+    expect(updated.id).toBe(entry.id);
+    expect(updated.createdAt).toBe(entry.createdAt);
+    expect(updated.entryVersion).toBe(2);
+
+    const reloaded = (await loadBookFromRepository(factory, USER_ID, book.id))!;
+    const balanceOf = (id: string) =>
+      reloaded.accounts.find((a) => a.id === id)!.balance;
+
+    expect(reloaded.entries).toHaveLength(6);
+    expect(balanceOf(cash.id)).toBe(cash.balance - 4500);
+    expect(balanceOf(food.id)).toBe(food.balance);
+    expect(balanceOf(transport.id)).toBe(transport.balance + 4500);
+  });
+
+  it("soft deletes an entry and restores balances", async () => {
+    const factory = new MemoryRepositoryFactory();
+    const book = await ensureBookInRepository(factory, USER_ID, () => ({
+      ...createDemoBook(),
+      id: "local",
+    }));
+    const target = book.entries[0];
+    const touched = target.lines.map((line) => line.accountId);
+
+    await deleteEntryInRepository(factory, USER_ID, {
+      bookId: book.id,
+      entryId: target.id,
+      expectedVersion: 1,
+    });
+
+    const reloaded = (await loadBookFromRepository(factory, USER_ID, book.id))!;
+    expect(reloaded.entries.map((e) => e.id)).not.toContain(target.id);
+    for (const accountId of touched) {
+      const before = book.accounts.find((a) => a.id === accountId)!;
+      const after = reloaded.accounts.find((a) => a.id === accountId)!;
+      expect(after.balance).not.toBe(before.balance);
+    }
+
+    const stored = await factory
+      .getEntryRepository()
+      .getEntry(USER_ID, book.id, target.id);
+    expect(stored?.deletedAt).toBeDefined();
+    expect(stored?.entryVersion).toBe(2);
+  });
+
+  it("rejects stale writes with a conflict error", async () => {
+    const factory = new MemoryRepositoryFactory();
+    const book = await ensureBookInRepository(factory, USER_ID, () => ({
+      ...createDemoBook(),
+      id: "local",
+    }));
+    const cash = book.accounts.find((a) => a.path === "assets:cash")!;
+    const food = book.accounts.find((a) => a.path === "expenses:food")!;
+    const input = {
+      bookId: book.id,
+      date: "2024-02-01",
+      description: "Lunch",
+      debitAccountId: food.id,
+      creditAccountId: cash.id,
+      amount: 30,
+    };
+
+    const entry = await createSimpleEntryInRepository(factory, USER_ID, input);
+    await updateSimpleEntryInRepository(factory, USER_ID, {
+      ...input,
+      entryId: entry.id,
+      expectedVersion: 1,
+      amount: 35,
+    });
+
+    const stale = updateSimpleEntryInRepository(factory, USER_ID, {
+      ...input,
+      entryId: entry.id,
+      expectedVersion: 1,
+      amount: 40,
+    });
+    await expect(stale).rejects.toBeInstanceOf(EntryConflictError);
+    await stale.catch((error: EntryConflictError) => {
+      expect(error.current.entryVersion).toBe(2);
+      expect(error.current.lines[0].amount).toBe(3500);
+    });
+
+    await expect(
+      deleteEntryInRepository(factory, USER_ID, {
+        bookId: book.id,
+        entryId: entry.id,
+        expectedVersion: 1,
+      }),
+    ).rejects.toBeInstanceOf(EntryConflictError);
+  });
+
+  it("records revisions and restores a previous version", async () => {
+    const factory = new MemoryRepositoryFactory();
+    const book = await ensureBookInRepository(factory, USER_ID, () => ({
+      ...createDemoBook(),
+      id: "local",
+    }));
+    const cash = book.accounts.find((a) => a.path === "assets:cash")!;
+    const food = book.accounts.find((a) => a.path === "expenses:food")!;
+    const input = {
+      bookId: book.id,
+      date: "2024-02-01",
+      description: "Lunch",
+      debitAccountId: food.id,
+      creditAccountId: cash.id,
+      amount: 30,
+    };
+
+    const entry = await createSimpleEntryInRepository(factory, USER_ID, input);
+    await updateSimpleEntryInRepository(factory, USER_ID, {
+      ...input,
+      entryId: entry.id,
+      expectedVersion: 1,
+      description: "Dinner",
+      amount: 80,
+    });
+    await deleteEntryInRepository(factory, USER_ID, {
+      bookId: book.id,
+      entryId: entry.id,
+      expectedVersion: 2,
+    });
+
+    const entryRepository = factory.getEntryRepository();
+    const revisions = await entryRepository.getRevisions(
+      USER_ID,
+      book.id,
+      entry.id,
+    );
+    expect(revisions.map((r) => r.action)).toEqual(["delete", "update"]);
+    expect(revisions[0].snapshot.description).toBe("Dinner");
+    expect(revisions[1].snapshot.description).toBe("Lunch");
+    expect(revisions[1].changedBy).toBe(USER_ID);
+
+    const restored = await restoreEntryRevisionInRepository(factory, USER_ID, {
+      bookId: book.id,
+      entryId: entry.id,
+      revisionId: revisions[1].id,
+      expectedVersion: 3,
+    });
+    expect(restored.deletedAt).toBeUndefined();
+    expect(restored.description).toBe("Lunch");
+    expect(restored.entryVersion).toBe(4);
+
+    const reloaded = (await loadBookFromRepository(factory, USER_ID, book.id))!;
+    const balanceOf = (id: string) =>
+      reloaded.accounts.find((a) => a.id === id)!.balance;
+    expect(reloaded.entries.map((e) => e.id)).toContain(entry.id);
+    expect(balanceOf(cash.id)).toBe(cash.balance - 3000);
+    expect(balanceOf(food.id)).toBe(food.balance + 3000);
+
+    const history = await entryRepository.getRevisions(
+      USER_ID,
+      book.id,
+      entry.id,
+    );
+    expect(history[0].action).toBe("restore");
+    expect(history[0].snapshot.deletedAt).toBeDefined();
+  });
+
+  it("posts and edits multi-line split entries", async () => {
+    const factory = new MemoryRepositoryFactory();
+    const book = await ensureBookInRepository(factory, USER_ID, () => ({
+      ...createDemoBook(),
+      id: "local",
+    }));
+    const find = (path: string) => book.accounts.find((a) => a.path === path)!;
+    const food = find("expenses:food");
+    const transport = find("expenses:transport");
+    const salary = find("income:salary");
+    const bank = find("assets:bank");
+
+    const entry = await createSplitEntryInRepository(factory, USER_ID, {
+      bookId: book.id,
+      date: "2024-02-03",
+      description: "Groceries",
+      lines: [
+        { accountId: food.id, type: EntryLineType.DEBIT, amount: 80 },
+        { accountId: transport.id, type: EntryLineType.DEBIT, amount: 20 },
+        { accountId: salary.id, type: EntryLineType.CREDIT, amount: 5 },
+        { accountId: bank.id, type: EntryLineType.CREDIT, amount: 95 },
+      ],
+    });
+    expect(entry.lines).toHaveLength(4);
+
+    let reloaded = (await loadBookFromRepository(factory, USER_ID, book.id))!;
+    const balanceOf = (id: string) =>
+      reloaded.accounts.find((a) => a.id === id)!.balance;
+    expect(balanceOf(food.id)).toBe(food.balance + 8000);
+    expect(balanceOf(transport.id)).toBe(transport.balance + 2000);
+    expect(balanceOf(salary.id)).toBe(salary.balance + 500);
+    expect(balanceOf(bank.id)).toBe(bank.balance - 9500);
+
+    await updateSplitEntryInRepository(factory, USER_ID, {
+      bookId: book.id,
+      entryId: entry.id,
+      expectedVersion: 1,
+      date: "2024-02-03",
+      description: "Groceries",
+      lines: [
+        { accountId: food.id, type: EntryLineType.DEBIT, amount: 100 },
+        { accountId: bank.id, type: EntryLineType.CREDIT, amount: 100 },
+      ],
+    });
+
+    reloaded = (await loadBookFromRepository(factory, USER_ID, book.id))!;
+    expect(balanceOf(food.id)).toBe(food.balance + 10000);
+    expect(balanceOf(transport.id)).toBe(transport.balance);
+    expect(balanceOf(salary.id)).toBe(salary.balance);
+    expect(balanceOf(bank.id)).toBe(bank.balance - 10000);
+  });
+
+  it("rejects unbalanced split entries without touching balances", async () => {
+    const factory = new MemoryRepositoryFactory();
+    const book = await ensureBookInRepository(factory, USER_ID, () => ({
+      ...createDemoBook(),
+      id: "local",
+    }));
+    const food = book.accounts.find((a) => a.path === "expenses:food")!;
+    const bank = book.accounts.find((a) => a.path === "assets:bank")!;
+
+    await expect(
+      createSplitEntryInRepository(factory, USER_ID, {
+        bookId: book.id,
+        date: "2024-02-03",
+        description: "Groceries",
+        lines: [
+          { accountId: food.id, type: EntryLineType.DEBIT, amount: 80 },
+          { accountId: bank.id, type: EntryLineType.CREDIT, amount: 70 },
+        ],
+      }),
+    ).rejects.toThrow(/not balanced/);
+
+    const reloaded = (await loadBookFromRepository(factory, USER_ID, book.id))!;
+    expect(reloaded.entries).toHaveLength(book.entries.length);
+    expect(reloaded.accounts.find((a) => a.id === food.id)!.balance).toBe(
+      food.balance,
+    );
+  });
+
+  it("posts cross-currency splits with an FX gain/loss line", async () => {
+    const factory = new MemoryRepositoryFactory();
+    const book = await ensureBookInRepository(factory, USER_ID, () => ({
+      ...createDemoBook(),
+      id: "local",
+    }));
+    const assetsRoot = book.accounts.find((a) => a.path === "assets")!;
+    const bank = book.accounts.find((a) => a.path === "assets:bank")!;
+    const wallet = createAccount({
+      name: "Wallet USD",
+      type: assetsRoot.type,
+      currency: "USD",
+      parentId: assetsRoot.id,
+      parentPath: assetsRoot.path,
+    });
+    await factory.getAccountRepository().saveAccount(USER_ID, book.id, wallet);
+    await factory
+      .getBookRepository()
+      .saveBookMeta(USER_ID, book.id, {
+        commonTags: [],
+        exchangeRates: [createExchangeRate("USD", "CNY", 7.2, "2024-01-01")],
+      });
+
+    const lines = [
+      { accountId: wallet.id, type: EntryLineType.DEBIT, amount: 100 },
+      { accountId: bank.id, type: EntryLineType.CREDIT, amount: 715 },
+    ];
+    const entry = await createSplitEntryInRepository(factory, USER_ID, {
+      bookId: book.id,
+      date: "2024-02-03",
+      description: "Buy USD",
+      lines,
+    });
+
+    const reloaded = (await loadBookFromRepository(factory, USER_ID, book.id))!;
+    const fx = findFxGainLossAccount(reloaded.accounts)!;
+    expect(fx.currency).toBe("CNY");
+    expect(entry.lines[0]).toMatchObject({ currency: "USD", rate: 7.2 });
+    expect(entry.lines[2]).toMatchObject({
+      accountId: fx.id,
+      type: EntryLineType.CREDIT,
+      amount: 500,
+    });
+    expect(reloaded.accounts.find((a) => a.id === wallet.id)!.balance).toBe(
+      10000,
+    );
+    expect(fx.balance).toBe(500);
+
+    // 手动汇率覆盖汇率表，编辑时重新生成汇兑损益行
+    await updateSplitEntryInRepository(factory, USER_ID, {
+      bookId: book.id,
+      entryId: entry.id,
+      expectedVersion: 1,
+      date: "2024-02-03",
+      description: "Buy USD",
+      lines: [{ ...lines[0], rate: 7.1 }, lines[1]],
+    });
+    const updated = (await loadBookFromRepository(factory, USER_ID, book.id))!;
+    expect(findFxGainLossAccount(updated.accounts)!.balance).toBe(-500);
+    expect(updated.entries.find((e) => e.id === entry.id)!.lines).toHaveLength(
+      3,
+    );
+  });
+
+  it("creates the FX gain/loss account in the book currency", async () => {
+    const factory = new MemoryRepositoryFactory();
+    const book = await ensureBookInRepository(factory, USER_ID, () => ({
+      ...createDemoBook(),
+      id: "local",
+    }));
+    const incomeRoot = book.accounts.find((a) => a.path === "income")!;
+    const assetsRoot = book.accounts.find((a) => a.path === "assets")!;
+    const bank = book.accounts.find((a) => a.path === "assets:bank")!;
+    const wallet = createAccount({
+      name: "Wallet USD",
+      type: assetsRoot.type,
+      currency: "USD",
+      parentId: assetsRoot.id,
+      parentPath: assetsRoot.path,
+    });
+    const accountRepository = factory.getAccountRepository();
+    await accountRepository.saveAccount(USER_ID, book.id, wallet);
+    // 收入根账户币种与本位币不同
+    await accountRepository.saveAccount(USER_ID, book.id, {
+      ...incomeRoot,
+      currency: "USD",
+    });
+    await factory
+      .getBookRepository()
+      .saveBookMeta(USER_ID, book.id, {
+        commonTags: [],
+        exchangeRates: [createExchangeRate("USD", "CNY", 7.2, "2024-01-01")],
+      });
+
+    const entry = await createSplitEntryInRepository(factory, USER_ID, {
+      bookId: book.id,
+      date: "2024-02-03",
+      description: "Buy USD",
+      lines: [
+        { accountId: wallet.id, type: EntryLineType.DEBIT, amount: 100 },
+        { accountId: bank.id, type: EntryLineType.CREDIT, amount: 715 },
+      ],
+    });
+
+    const reloaded = (await loadBookFromRepository(factory, USER_ID, book.id))!;
+    const fx = findFxGainLossAccount(reloaded.accounts)!;
+    expect(book.defaultCurrency).toBe("CNY");
+    expect(fx.currency).toBe("CNY");
+    expect(entry.lines[2]).toMatchObject({
+      accountId: fx.id,
+      currency: "CNY",
+      amount: 500,
+    });
+    expect(fx.balance).toBe(500);
+  });
+
+  it("rejects cross-currency splits without an exchange rate", async () => {
+    const factory = new MemoryRepositoryFactory();
+    const book = await ensureBookInRepository(factory, USER_ID, () => ({
+      ...createDemoBook(),
+      id: "local",
+    }));
+    const assetsRoot = book.accounts.find((a) => a.path === "assets")!;
+    const bank = book.accounts.find((a) => a.path === "assets:bank")!;
+    const wallet = createAccount({
+      name: "Wallet HKD",
+      type: assetsRoot.type,
+      currency: "HKD",
+      parentId: assetsRoot.id,
+      parentPath: assetsRoot.path,
+    });
+    await factory.getAccountRepository().saveAccount(USER_ID, book.id, wallet);
+
+    await expect(
+      createSplitEntryInRepository(factory, USER_ID, {
+        bookId: book.id,
+        date: "2024-02-03",
+        description: "Buy HKD",
+        lines: [
+          { accountId: wallet.id, type: EntryLineType.DEBIT, amount: 100 },
+          { accountId: bank.id, type: EntryLineType.CREDIT, amount: 92 },
+        ],
+      }),
+    ).rejects.toThrow(/Exchange rate not found: HKD\/CNY/);
+
+    // 汇兑损益账户与分录在同一事务中创建，失败时一起回滚
+    const accounts = await factory
+      .getAccountRepository()
+      .getAccounts(USER_ID, book.id);
+    expect(findFxGainLossAccount(accounts)).toBeUndefined();
+  });
+
+  it("saves rules and re-applies them with revisions", async () => {
+    const factory = new MemoryRepositoryFactory();
+    const book = await ensureBookInRepository(factory, USER_ID, () => ({
+      ...createDemoBook(),
+      id: "local",
+    }));
+    const food = book.accounts.find((a) => a.path === "expenses:food")!;
+    const transport = book.accounts.find(
+      (a) => a.path === "expenses:transport",
+    )!;
+    const grocery = book.entries.find((e) => e.description === "Grocery")!;
+    const rule = createRule({
+      name: "Grocery",
+      field: "description",
+      mode: "contains",
+      pattern: "grocery",
+      targetAccountId: transport.id,
+      tags: ["market"],
+    });
+
+    await saveRulesInRepository(factory, USER_ID, {
+      bookId: book.id,
+      rules: [rule],
+    });
+    const meta = await factory
+      .getBookRepository()
+      .getBookMeta(USER_ID, book.id);
+    expect(meta?.rules).toEqual([rule]);
+
+    const changes = await reapplyRulesInRepository(factory, USER_ID, {
+      bookId: book.id,
+      query: {},
+    });
+    expect(changes.map((c) => c.before.id)).toEqual([grocery.id]);
+
+    const reloaded = (await loadBookFromRepository(factory, USER_ID, book.id))!;
+    const updated = reloaded.entries.find((e) => e.id === grocery.id)!;
+    expect(updated.tags).toEqual(["food", "market"]);
+    expect(updated.entryVersion).toBe(2);
+    expect(reloaded.accounts.find((a) => a.id === food.id)!.balance).toBe(
+      food.balance - 3200,
+    );
+    const revisions = await factory
+      .getEntryRepository()
+      .getRevisions(USER_ID, book.id, grocery.id);
+    expect(revisions.map((r) => r.action)).toEqual(["update"]);
+
+    const again = await reapplyRulesInRepository(factory, USER_ID, {
+      bookId: book.id,
+      query: {},
+    });
+    expect(again).toHaveLength(0);
+  });
+
+  it("imports plain text into the book and exports it back", async () => {
+    const factory = new MemoryRepositoryFactory();
+    const book = await ensureBookInRepository(factory, USER_ID, () => ({
+      ...createDemoBook(),
+      id: "local",
+    }));
+    const cash = book.accounts.find((a) => a.path === "assets:cash")!;
+    const text = [
+      "2024-01-01 price USD 7.1 CNY",
+      "",
+      '2024-03-02 * "Cafe" "Coffee"',
+      "  Expenses:Food:Coffee  25.50 CNY",
+      "  Assets:Cash",
+      "",
+    ].join("\n");
+
+    const entries = await importPlainTextInRepository(factory, USER_ID, {
+      bookId: book.id,
+      text,
+      format: "beancount",
+    });
+    expect(entries).toHaveLength(1);
+
+    const reloaded = (await loadBookFromRepository(factory, USER_ID, book.id))!;
+    const coffee = reloaded.accounts.find(
+      (a) => a.path === "expenses:food:coffee",
+    )!;
+    expect(coffee.parentId).toBe(
+      book.accounts.find((a) => a.path === "expenses:food")!.id,
+    );
+    expect(coffee.balance).toBe(2550);
+    expect(reloaded.accounts.find((a) => a.id === cash.id)!.balance).toBe(
+      cash.balance - 2550,
+    );
+    expect(reloaded.exchangeRates).toContainEqual(
+      expect.objectContaining({ from: "USD", to: "CNY", rate: 7.1 }),
+    );
+
+    const exported = await exportPlainTextFromRepository(factory, USER_ID, {
+      bookId: book.id,
+      format: "ledger",
+    });
+    expect(exported).toContain("2024-03-02 * Cafe | Coffee");
+    expect(exported).toContain("    Expenses:Food:Coffee  25.50 CNY");
+  });
+
+  it("rejects plain text imports that do not post", async () => {
+    const factory = new MemoryRepositoryFactory();
+    const book = await ensureBookInRepository(factory, USER_ID, () => ({
+      ...createDemoBook(),
+      id: "local",
+    }));
+    const text = [
+      '2024-03-02 * "Coffee"',
+      "  Expenses:Food:Coffee  25.50 USD",
+      "  Assets:Cash  -25.50 USD",
+      "",
+    ].join("\n");
+
+    // 已有账户币种不一致时不写入任何账户
+    await expect(
+      importPlainTextInRepository(factory, USER_ID, {
+        bookId: book.id,
+        text,
+        format: "beancount",
+      }),
+    ).rejects.toThrow(/currency mismatch/);
+    const reloaded = (await loadBookFromRepository(factory, USER_ID, book.id))!;
+    expect(reloaded.accounts).toHaveLength(book.accounts.length);
+    expect(reloaded.entries).toHaveLength(book.entries.length);
+  });
+
+  it("posts and skips recurring occurrences in order", async () => {
+    const factory = new MemoryRepositoryFactory();
+    const book = await ensureBookInRepository(factory, USER_ID, () => ({
+      ...createDemoBook(),
+      id: "local",
+    }));
+    const cash = book.accounts.find((a) => a.path === "assets:cash")!;
+    const transport = book.accounts.find(
+      (a) => a.path === "expenses:transport",
+    )!;
+    const template = createRecurringTemplate({
+      name: "Metro pass",
+      schedule: { frequency: "monthly", day: 1 },
+      startDate: "2024-01-01",
+      description: "Metro pass",
+      lines: [
+        { accountId: transport.id, amount: 10000, type: EntryLineType.DEBIT },
+        { accountId: cash.id, amount: 10000, type: EntryLineType.CREDIT },
+      ],
+    });
+    await saveRecurringInRepository(factory, USER_ID, {
+      bookId: book.id,
+      templates: [template],
+    });
+
+    await skipRecurringInRepository(factory, USER_ID, {
+      bookId: book.id,
+      occurrence: { templateId: template.id, date: "2024-01-01" },
+    });
+    const posted = await postRecurringInRepository(factory, USER_ID, {
+      bookId: book.id,
+      occurrences: [
+        { templateId: template.id, date: "2024-02-01" },
+        { templateId: template.id, date: "2024-03-01" },
+      ],
+    });
+    expect(posted.map((e) => e.date)).toEqual(["2024-02-01", "2024-03-01"]);
+
+    await expect(
+      postRecurringInRepository(factory, USER_ID, {
+        bookId: book.id,
+        occurrences: [{ templateId: template.id, date: "2024-03-01" }],
+      }),
+    ).rejects.toThrow(/not due/);
+
+    const reloaded = (await loadBookFromRepository(factory, USER_ID, book.id))!;
+    expect(reloaded.recurring?.[0].nextDate).toBe("2024-04-01");
+    expect(reloaded.entries).toHaveLength(7);
+    expect(reloaded.accounts.find((a) => a.id === cash.id)!.balance).toBe(
+      cash.balance - 20000,
+    );
+  });
+
+  it("posts an edited occurrence and advances the cursor together", async () => {
+    const factory = new MemoryRepositoryFactory();
+    const book = await ensureBookInRepository(factory, USER_ID, () => ({
+      ...createDemoBook(),
+      id: "local",
+    }));
+    const cash = book.accounts.find((a) => a.path === "assets:cash")!;
+    const transport = book.accounts.find(
+      (a) => a.path === "expenses:transport",
+    )!;
+    const template = createRecurringTemplate({
+      name: "Metro pass",
+      schedule: { frequency: "monthly", day: 1 },
+      startDate: "2024-01-01",
+      description: "Metro pass",
+      lines: [
+        { accountId: transport.id, amount: 10000, type: EntryLineType.DEBIT },
+        { accountId: cash.id, amount: 10000, type: EntryLineType.CREDIT },
+      ],
+    });
+    await saveRecurringInRepository(factory, USER_ID, {
+      bookId: book.id,
+      templates: [template],
+    });
+    const input = {
+      date: "2024-01-03",
+      description: "Metro pass (discounted)",
+      debitAccountId: transport.id,
+      creditAccountId: cash.id,
+      amount: 80,
+    };
+
+    const entry = await postEditedOccurrenceInRepository(factory, USER_ID, {
+      bookId: book.id,
+      occurrence: { templateId: template.id, date: "2024-01-01" },
+      input,
+    });
+    expect(entry.lines[0].amount).toBe(8000);
+
+    // 游标推进失败时分录一并回滚
+    await expect(
+      postEditedOccurrenceInRepository(factory, USER_ID, {
+        bookId: book.id,
+        occurrence: { templateId: template.id, date: "2024-01-01" },
+        input,
+      }),
+    ).rejects.toThrow(/not due/);
+
+    const reloaded = (await loadBookFromRepository(factory, USER_ID, book.id))!;
+    expect(reloaded.recurring?.[0].nextDate).toBe("2024-02-01");
+    expect(reloaded.entries).toHaveLength(book.entries.length + 1);
+    expect(reloaded.accounts.find((a) => a.id === cash.id)!.balance).toBe(
+      cash.balance - 8000,
+    );
+  });
+
+  it("locks closed periods until the owner reopens them", async () => {
+    const factory = new MemoryRepositoryFactory();
+    const book = await ensureBookInRepository(factory, USER_ID, () => ({
+      ...createDemoBook(),
+      id: "local",
+    }));
+    const today = new Date().toISOString().split("T")[0];
+    const cash = book.accounts.find((a) => a.path === "assets:cash")!;
+    const food = book.accounts.find((a) => a.path === "expenses:food")!;
+    const target = book.entries[0];
+
+    const closing = await closePeriodInRepository(factory, USER_ID, {
+      bookId: book.id,
+      date: today,
+      description: "Period closing",
+    });
+    const closed = (await loadBookFromRepository(factory, USER_ID, book.id))!;
+    expect(closed.closings).toEqual([closing]);
+    expect(closed.entries.map((e) => e.id)).toContain(closing.entryId);
+    expect(closed.accounts.find((a) => a.id === food.id)!.balance).toBe(0);
+
+    await expect(
+      deleteEntryInRepository(factory, USER_ID, {
+        bookId: book.id,
+        entryId: target.id,
+        expectedVersion: 1,
+      }),
+    ).rejects.toThrow(PeriodLockedError);
+    await expect(
+      createSimpleEntryInRepository(factory, USER_ID, {
+        bookId: book.id,
+        date: today,
+        description: "Late lunch",
+        debitAccountId: food.id,
+        creditAccountId: cash.id,
+        amount: 30,
+      }),
+    ).rejects.toThrow(PeriodLockedError);
+
+    await reopenPeriodInRepository(factory, USER_ID, { bookId: book.id });
+    const reopened = (await loadBookFromRepository(factory, USER_ID, book.id))!;
+    expect(reopened.closings).toEqual([]);
+    expect(reopened.entries.map((e) => e.id)).not.toContain(closing.entryId);
+    expect(reopened.accounts.find((a) => a.id === food.id)!.balance).toBe(
+      food.balance,
+    );
+    await deleteEntryInRepository(factory, USER_ID, {
+      bookId: book.id,
+      entryId: target.id,
+      expectedVersion: 1,
+    });
+  });
+
+  it("reconciles cleared lines and records a balance assertion", async () => {
+    const factory = new MemoryRepositoryFactory();
+    const book = await ensureBookInRepository(factory, USER_ID, () => ({
+      ...createDemoBook(),
+      id: "local",
+    }));
+    const assetsRoot = book.accounts.find((a) => a.path === "assets")!;
+    const food = book.accounts.find((a) => a.path === "expenses:food")!;
+    const checking = await createAccountInRepository(factory, USER_ID, {
+      bookId: book.id,
+      name: "Checking",
+      parentId: assetsRoot.id,
+    });
+    const entry = await createSimpleEntryInRepository(factory, USER_ID, {
+      bookId: book.id,
+      date: "2024-01-10",
+      description: "Groceries",
+      debitAccountId: food.id,
+      creditAccountId: checking.id,
+      amount: 30,
+    });
+    const lineIndex = entry.lines.findIndex(
+      (line) => line.accountId === checking.id,
+    );
+
+    const reconciliation = createReconciliation({
+      accountId: checking.id,
+      statementDate: "2024-01-31",
+      statementBalance: -3000,
+    });
+    await saveReconciliationsInRepository(factory, USER_ID, {
+      bookId: book.id,
+      reconciliations: [reconciliation],
+    });
+    await expect(
+      finishReconciliationInRepository(factory, USER_ID, {
+        bookId: book.id,
+        reconciliationId: reconciliation.id,
+      }),
+    ).rejects.toThrow();
+
+    await setLineClearedInRepository(factory, USER_ID, {
+      bookId: book.id,
+      entryId: entry.id,
+      lineIndex,
+      cleared: true,
+      expectedVersion: 1,
+    });
+    const finished = await finishReconciliationInRepository(factory, USER_ID, {
+      bookId: book.id,
+      reconciliationId: reconciliation.id,
+    });
+    expect(finished.status).toBe("finished");
+
+    const loaded = (await loadBookFromRepository(factory, USER_ID, book.id))!;
+    const saved = loaded.entries.find((e) => e.id === entry.id)!;
+    expect(saved.lines[lineIndex]).toMatchObject({
+      cleared: true,
+      reconciled: true,
+    });
+    expect(saved.entryVersion).toBe(3);
+    expect(loaded.reconciliations).toEqual([finished]);
+    expect(loaded.balanceAssertions).toMatchObject([
+      { accountId: checking.id, date: "2024-01-31", amount: -3000 },
+    ]);
+    await expect(
+      deleteEntryInRepository(factory, USER_ID, {
+        bookId: book.id,
+        entryId: entry.id,
+        expectedVersion: 3,
+      }),
+    ).rejects.toThrow("Reconciled lines cannot be changed");
+  });
+
+  it("books realized gains using the account cost basis", async () => {
+    const factory = new MemoryRepositoryFactory();
+    const book = await ensureBookInRepository(factory, USER_ID, () => ({
+      ...createDemoBook(),
+      id: "local",
+    }));
+    const assetsRoot = book.accounts.find((a) => a.path === "assets")!;
+    const cash = book.accounts.find((a) => a.path === "assets:cash")!;
+    const broker = await createAccountInRepository(factory, USER_ID, {
+      bookId: book.id,
+      name: "AAPL",
+      parentId: assetsRoot.id,
+      commodity: "aapl",
+      costBasisMethod: "lifo",
+    });
+    expect(broker).toMatchObject({
+      commodity: "AAPL",
+      costBasisMethod: "lifo",
+    });
+
+    const buy = (date: string, quantity: number, amount: number) =>
+      createSplitEntryInRepository(factory, USER_ID, {
+        bookId: book.id,
+        date,
+        description: "Buy AAPL",
+        lines: [
+          { accountId: broker.id, type: EntryLineType.DEBIT, amount, quantity },
+          { accountId: cash.id, type: EntryLineType.CREDIT, amount },
+        ],
+      });
+    await buy("2024-01-02", 10, 1000);
+    await buy("2024-02-01", 10, 1500);
+
+    // 卖出行金额由成本方法重算：后进先出 5 股成本 750，收益 150
+    const saleLines = (proceeds: number) => [
+      { accountId: cash.id, type: EntryLineType.DEBIT, amount: proceeds },
+      {
+        accountId: broker.id,
+        type: EntryLineType.CREDIT,
+        amount: proceeds,
+        quantity: 5,
+      },
+    ];
+    const sale = await createSplitEntryInRepository(factory, USER_ID, {
+      bookId: book.id,
+      date: "2024-03-01",
+      description: "Sell AAPL",
+      lines: saleLines(900),
+    });
+    let loaded = (await loadBookFromRepository(factory, USER_ID, book.id))!;
+    const gains = loaded.accounts.find(
+      (a) => a.path === "income:realized-gains",
+    )!;
+    expect(sale.lines).toEqual([
+      expect.objectContaining({ accountId: cash.id, amount: 90000 }),
+      expect.objectContaining({ accountId: broker.id, amount: 75000 }),
+      { accountId: gains.id, type: EntryLineType.CREDIT, amount: 15000 },
+    ]);
+    expect(gains.balance).toBe(15000);
+
+    // 修改卖出价格后重新生成盈亏行（亏损记借方），不重复创建账户
+    await updateSplitEntryInRepository(factory, USER_ID, {
+      bookId: book.id,
+      entryId: sale.id,
+      expectedVersion: 1,
+      date: "2024-03-01",
+      description: "Sell AAPL",
+      lines: saleLines(700),
+    });
+    loaded = (await loadBookFromRepository(factory, USER_ID, book.id))!;
+    expect(
+      loaded.accounts.filter((a) => a.path.startsWith("income:realized")),
+    ).toHaveLength(1);
+    expect(loaded.accounts.find((a) => a.id === gains.id)!.balance).toBe(-5000);
+    expect(loaded.accounts.find((a) => a.id === broker.id)!.balance).toBe(
+      175000,
+    );
+  });
+
+  it("drops the realized gains account when the sale is rejected", async () => {
+    const factory = new MemoryRepositoryFactory();
+    const book = await ensureBookInRepository(factory, USER_ID, () => ({
+      ...createDemoBook(),
+      id: "local",
+    }));
+    const assetsRoot = book.accounts.find((a) => a.path === "assets")!;
+    const cash = book.accounts.find((a) => a.path === "assets:cash")!;
+    const broker = await createAccountInRepository(factory, USER_ID, {
+      bookId: book.id,
+      name: "AAPL",
+      parentId: assetsRoot.id,
+      commodity: "AAPL",
+    });
+    await createSplitEntryInRepository(factory, USER_ID, {
+      bookId: book.id,
+      date: "2024-01-02",
+      description: "Buy AAPL",
+      lines: [
+        {
+          accountId: broker.id,
+          type: EntryLineType.DEBIT,
+          amount: 1000,
+          quantity: 10,
+        },
+        { accountId: cash.id, type: EntryLineType.CREDIT, amount: 1000 },
+      ],
+    });
+
+    await expect(
+      createSplitEntryInRepository(factory, USER_ID, {
+        bookId: book.id,
+        date: "2024-03-01",
+        description: "Sell AAPL",
+        lines: [
+          { accountId: cash.id, type: EntryLineType.DEBIT, amount: 600 },
+          {
+            accountId: broker.id,
+            type: EntryLineType.CREDIT,
+            amount: 600,
+            quantity: 5,
+          },
+          { accountId: "missing", type: EntryLineType.DEBIT, amount: 1 },
+        ],
+      }),
+    ).rejects.toThrow("Account not found");
+
+    // 已实现盈亏账户与卖出分录在同一事务中创建，失败时一起回滚
+    const loaded = (await loadBookFromRepository(factory, USER_ID, book.id))!;
+    expect(
+      loaded.accounts.some((a) => a.path === "income:realized-gains"),
+    ).toBe(false);
+    expect(loaded.entries.filter((e) => e.description === "Sell AAPL")).toEqual(
+      [],
+    );
+  });
+
+  it("records dividends and corporate actions", async () => {
+    const factory = new MemoryRepositoryFactory();
+    const book = await ensureBookInRepository(factory, USER_ID, () => ({
+      ...createDemoBook(),
+      id: "local",
+    }));
+    const assetsRoot = book.accounts.find((a) => a.path === "assets")!;
+    const salary = book.accounts.find((a) => a.path === "income:salary")!;
+    const fb = await createAccountInRepository(factory, USER_ID, {
+      bookId: book.id,
+      name: "FB",
+      parentId: assetsRoot.id,
+      commodity: "FB",
+    });
+    await createSplitEntryInRepository(factory, USER_ID, {
+      bookId: book.id,
+      date: "2024-01-02",
+      description: "FB dividend",
+      lines: [
+        {
+          accountId: fb.id,
+          type: EntryLineType.DEBIT,
+          amount: 100,
+          quantity: 2,
+        },
+        { accountId: salary.id, type: EntryLineType.CREDIT, amount: 100 },
+      ],
+      tags: ["FB"],
+      holdingEvent: { kind: "drip", accountId: fb.id },
+    });
+
+    await addCorporateActionInRepository(factory, USER_ID, {
+      bookId: book.id,
+      action: createSplitAction({
+        accountId: fb.id,
+        date: "2024-02-01",
+        ratio: 3,
+      }),
+    });
+    await addCorporateActionInRepository(factory, USER_ID, {
+      bookId: book.id,
+      action: createSymbolChangeAction({
+        accountId: fb.id,
+        date: "2024-03-01",
+        fromSymbol: "FB",
+        toSymbol: "META",
+      }),
+    });
+
+    const loaded = (await loadBookFromRepository(factory, USER_ID, book.id))!;
+    expect(loaded.entries.find((e) => e.holdingEvent)?.holdingEvent).toEqual({
+      kind: "drip",
+      accountId: fb.id,
+    });
+    expect(loaded.corporateActions).toHaveLength(2);
+    const [holding] = getHoldings(loaded);
+    expect([holding.symbol, holding.quantity, holding.cost]).toEqual([
+      "META",
+      6,
+      10000,
+    ]);
+    await expect(
+      addCorporateActionInRepository(factory, USER_ID, {
+        bookId: book.id,
+        action: createSplitAction({
+          accountId: salary.id,
+          date: "2024-02-01",
+          ratio: 2,
+        }),
+      }),
+    ).rejects.toThrow("Holding account not found");
+  });
+});
@@ -0,0 +1,236 @@
+import { describe, expect, it } from "vitest";
+
+import { addAccount, addEntry, createBook } from "~/lib/double-entry/book";
+import { createSimpleEntry } from "~/lib/double-entry/entry";
+import { createRule } from "~/lib/double-entry/rules";
+import { EntryLineType } from "~/lib/double-entry/types";
+import { MemoryRepositoryFactory } from "~/lib/firebase/repository/memory-repository";
+import {
+  ensureBookInRepository,
+  importEntriesInRepository,
+  loadBookFromRepository,
+} from "../book-service";
+import {
+  buildImportPreview,
+  detectCsvStatement,
+  normalizeStatementDate,
+  parseCsv,
+  parseStatementRows,
+} from "../csv-import";
+
+const ALIPAY_CSV = [
+  "支付宝交易记录明细查询",
+  "账号:[test@example.com]",
+  "",
+  "交易时间,交易分类,交易对方,对方账号,商品说明,收/支,金额,收/付款方式,交易状态",
+  '2024-03-02 12:30:00,餐饮美食,瑞幸咖啡,,"生椰拿铁, 大杯",支出,15.90,余额宝,交易成功',
+  "2024-03-03 09:00:00,转账红包,张三,,红包,收入,50.00,余额,交易成功",
+  "2024-03-04 10:00:00,投资理财,余额宝,,转入,不计收支,100.00,余额,交易成功",
+  "------------------------------------------------------------------------------------",
+].join("\n");
+
+const WECHAT_CSV = [
+  "微信支付账单明细",
+  "微信昵称：[test]",
+  "",
+  "交易时间,交易类型,交易对方,商品,收/支,金额(元),支付方式,当前状态,交易单号,商户单号,备注",
+  "2024-03-05 08:00:00,商户消费,便利店,早餐,支出,¥8.50,零钱,支付成功,1,2,/",
+].join("\r\n");
+
+const CMB_CSV = [
+  "﻿交易日期,交易时间,收入,支出,余额,交易类型,交易备注",
+  "20240306,10:00:00,,1200.00,8800.00,快捷支付,京东商城",
+  '20240307,10:00:00,"5,000.00",,13800.00,代发工资,公司',
+].join("\n");
+
+function createTestBook() {
+  let book = createBook({ name: "Test", defaultCurrency: "CNY" });
+  const assetsRoot = book.accounts.find((a) => a.path === "assets")!;
+  const expensesRoot = book.accounts.find((a) => a.path === "expenses")!;
+  book = addAccount(book, { name: "Bank", parentId: assetsRoot.id });
+  book = addAccount(book, { name: "Uncategorized", parentId: expensesRoot.id });
+  const bank = book.accounts.find((a) => a.path === "assets:bank")!;
+  const other = book.accounts.find((a) => a.path === "expenses:uncategorized")!;
+  return { book, bank, other };
+}
+
+describe("csv import", () => {
+  it("parses quoted fields and strips BOM", () => {
+    const rows = parseCsv('﻿a,"b, c","say ""hi"""\r\n1,2,3');
+    expect(rows).toEqual([
+      ["a", "b, c", 'say "hi"'],
+      ["1", "2", "3"],
+    ]);
+  });
+
+  it("normalizes statement dates", () => {
+    expect(normalizeStatementDate("2024/3/2 12:00")).toBe("2024-03-02");
+    expect(normalizeStatementDate("20240302")).toBe("2024-03-02");
+    expect(normalizeStatementDate("2024年3月2日")).toBe("2024-03-02");
+    expect(normalizeStatementDate("合计")).toBeNull();
+  });
+
+  it("detects Alipay statements and skips neutral rows", () => {
+    const statement = detectCsvStatement(parseCsv(ALIPAY_CSV));
+    expect(statement.format).toBe("alipay");
+    expect(statement.headerIndex).toBe(3);
+
+    const rows = parseStatementRows(statement);
+    expect(rows).toHaveLength(3);
+    expect(rows[0]).toMatchObject({
+      lineNumber: 5,
+      date: "2024-03-02",
+      amount: -15.9,
+      payee: "瑞幸咖啡",
+      description: "生椰拿铁, 大杯",
+    });
+    expect(rows[1].amount).toBe(50);
+    expect(rows[2].skipped).toBe(true);
+  });
+
+  it("detects WeChat and CMB statements", () => {
+    const wechat = detectCsvStatement(parseCsv(WECHAT_CSV));
+    expect(wechat.format).toBe("wechat");
+    expect(parseStatementRows(wechat)[0]).toMatchObject({
+      date: "2024-03-05",
+      amount: -8.5,
+      payee: "便利店",
+    });
+
+    const cmb = detectCsvStatement(parseCsv(CMB_CSV));
+    expect(cmb.format).toBe("cmb");
+    const rows = parseStatementRows(cmb);
+    expect(rows.map((row) => row.amount)).toEqual([-1200, 5000]);
+    expect(rows[0]).toMatchObject({
+      date: "2024-03-06",
+      payee: "京东商城",
+      description: "快捷支付",
+    });
+  });
+
+  it("guesses generic mappings with signed amounts", () => {
+    const statement = detectCsvStatement(
+      parseCsv("Date,Payee,Amount,Memo\n2024-03-01,Shop,-20,Snacks"),
+    );
+    expect(statement.format).toBe("generic");
+    expect(statement.mapping).toEqual({
+      date: 0,
+      payee: 1,
+      amount: 2,
+      description: 3,
+    });
+    expect(parseStatementRows(statement)[0].amount).toBe(-20);
+  });
+
+  it("builds balanced entries and flags duplicates", () => {
+    const { book: base, bank, other } = createTestBook();
+    const book = addEntry(
+      base,
+      createSimpleEntry({
+        date: "2024-03-02",
+        description: "Coffee",
+        debitAccountId: other.id,
+        creditAccountId: bank.id,
+        amount: 1590,
+        payee: "瑞幸咖啡",
+      }),
+    );
+
+    const rows = parseStatementRows(detectCsvStatement(parseCsv(ALIPAY_CSV)));
+    const preview = buildImportPreview(book, rows, {
+      accountId: bank.id,
+      counterAccountId: other.id,
+    });
+
+    expect(preview.map((item) => item.status)).toEqual([
+      "duplicate",
+      "new",
+      "skipped",
+    ]);
+    expect(preview[0].duplicateOf).toBe(book.entries[0].id);
+    expect(preview[1].entry?.lines).toEqual([
+      { accountId: bank.id, amount: 5000, type: EntryLineType.DEBIT },
+      { accountId: other.id, amount: 5000, type: EntryLineType.CREDIT },
+    ]);
+  });
+
+  it("categorizes previewed rows with matching rules", () => {
+    const { book: base, bank, other } = createTestBook();
+    const expensesRoot = base.accounts.find((a) => a.path === "expenses")!;
+    const book = addAccount(base, {
+      name: "Coffee",
+      parentId: expensesRoot.id,
+    });
+    const coffee = book.accounts.find((a) => a.path === "expenses:coffee")!;
+    const rule = createRule({
+      name: "Luckin",
+      field: "payee",
+      mode: "regex",
+      pattern: "瑞幸|luckin",
+      targetAccountId: coffee.id,
+      tags: ["coffee"],
+      payee: "Luckin",
+    });
+
+    const rows = parseStatementRows(detectCsvStatement(parseCsv(ALIPAY_CSV)));
+    const preview = buildImportPreview(book, rows, {
+      accountId: bank.id,
+      counterAccountId: other.id,
+      rules: [rule],
+    });
+
+    expect(preview[0].rule?.id).toBe(rule.id);
+    expect(preview[0].entry?.payee).toBe("Luckin");
+    expect(preview[0].entry?.tags).toEqual(["coffee"]);
+    expect(preview[0].entry?.lines[0].accountId).toBe(coffee.id);
+    expect(preview[1].rule).toBeUndefined();
+  });
+
+  it("marks rows without a valid date or amount as invalid", () => {
+    const { book, bank, other } = createTestBook();
+    const preview = buildImportPreview(
+      book,
+      [
+        { lineNumber: 2, date: null, amount: -10, description: "x" },
+        { lineNumber: 3, date: "2024-03-01", amount: 0, description: "y" },
+      ],
+      { accountId: bank.id, counterAccountId: other.id },
+    );
+    expect(preview.map((item) => item.status)).toEqual(["invalid", "invalid"]);
+    expect(preview[0].errors).toContain("Invalid date");
+    expect(preview[1].errors).toContain("Invalid amount");
+  });
+
+  it("imports previewed entries in one batch", async () => {
+    const factory = new MemoryRepositoryFactory();
+    const { book: seed, bank, other } = createTestBook();
+    const book = await ensureBookInRepository(factory, "local", () => ({
+      ...seed,
+      id: "local",
+    }));
+
+    const rows = parseStatementRows(detectCsvStatement(parseCsv(CMB_CSV)));
+    const entries = buildImportPreview(book, rows, {
+      accountId: bank.id,
+      counterAccountId: other.id,
+    }).map((item) => item.entry!);
+    await importEntriesInRepository(factory, "local", {
+      bookId: book.id,
+      entries,
+    });
+
+    const loaded = (await loadBookFromRepository(factory, "local", book.id))!;
+    expect(loaded.entries).toHaveLength(2);
+    expect(loaded.entries.every((e) => e.entryVersion === 1)).toBe(true);
+    expect(loaded.accounts.find((a) => a.id === bank.id)?.balance).toBe(380000);
+    expect(loaded.accounts.find((a) => a.id === other.id)?.balance).toBe(
+      -380000,
+    );
+
+    const again = buildImportPreview(loaded, rows, {
+      accountId: bank.id,
+      counterAccountId: other.id,
+    });
+    expect(again.every((item) => item.status === "duplicate")).toBe(true);
+  });
+});
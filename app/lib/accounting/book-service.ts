@@ -0,0 +1,1398 @@
+/**
+ * 基于 Repository 工厂的账簿读写
+ *
+ * 本地账簿（内存 / localStorage）和云端账簿（Firestore）共用这里的业务规则，
+ * 每次写入在 factory.runTransaction 中完成：先校验成员角色，失败时整体回滚。
+ */
+
+import type {
+  AccountData,
+  BalanceRebuildResult,
+  BookData,
+  Budget,
+  CashFlowRole,
+  CategorizationRule,
+  CostBasisMethod,
+  CurrencyCode,
+  EntryQuery,
+  EntryRevisionAction,
+  BalanceAssertion,
+  CorporateAction,
+  HoldingEvent,
+  JournalEntryData,
+  PeriodClosing,
+  Reconciliation,
+  RecurringTemplate,
+} from "~/lib/double-entry/types";
+import { EntryLineType } from "~/lib/double-entry/types";
+import { createAccount } from "~/lib/double-entry/account";
+import { rebuildBalances } from "~/lib/double-entry/book";
+import { upsertExchangeRate } from "~/lib/double-entry/currency";
+import {
+  createEntry,
+  createEntryRevision,
+  createFxGainLossAccount,
+  createSimpleEntry,
+  findFxGainLossAccount,
+  getEntryVersion,
+  postEntry,
+  restoreFromSnapshot,
+  unpostEntry,
+  updateEntry,
+} from "~/lib/double-entry/entry";
+import { fromMainUnit } from "~/lib/double-entry/money";
+import { reapplyRules, type RuleApplication } from "~/lib/double-entry/rules";
+import {
+  assertPeriodOpen,
+  buildClosingEntry,
+  createRetainedEarningsAccount,
+  findRetainedEarningsAccount,
+} from "~/lib/double-entry/closing";
+import { resolveAccountCommodity } from "~/lib/double-entry/holdings";
+import {
+  exportPlainText,
+  importPlainText,
+  type PlainTextFormat,
+} from "~/lib/double-entry/plaintext";
+import {
+  applySaleContext,
+  createRealizedGainsAccount,
+  findRealizedGainsAccount,
+  getSaleLineIndexes,
+  type SaleContext,
+} from "~/lib/double-entry/realized-gains";
+import {
+  buildSplitEntryLines,
+  isCrossCurrencySplit,
+  type CurrencyContext,
+  type SplitLineInput,
+} from "~/lib/double-entry/split";
+import {
+  assertReconciledLinesKept,
+  finishReconciliation,
+  setLineCleared,
+} from "~/lib/double-entry/reconcile";
+import {
+  settleOccurrences,
+  type RecurringOccurrenceRef,
+} from "~/lib/double-entry/recurring";
+import { assertEntryVersion } from "~/lib/firebase/repository/errors";
+import type {
+  BookRole,
+  IRepositoryFactory,
+} from "~/lib/firebase/repository/types";
+
+/**
+ * 一借一贷分录输入（金额为主单位，如元）
+ */
+export type SimpleEntryInput = {
+  date: string;
+  description: string;
+  debitAccountId: string;
+  creditAccountId: string;
+  amount: number;
+  tags?: string[];
+  payee?: string;
+  note?: string;
+};
+
+/**
+ * 多行拆分分录输入
+ */
+export type SplitEntryInput = {
+  date: string;
+  description: string;
+  lines: SplitLineInput[];
+  tags?: string[];
+  payee?: string;
+  note?: string;
+  /** 持仓事件（股息、股息再投资） */
+  holdingEvent?: HoldingEvent;
+};
+
+/**
+ * 子账户输入
+ */
+export type AccountInput = {
+  name: string;
+  parentId: string;
+  icon?: string;
+  note?: string;
+  cashFlow?: CashFlowRole;
+  /** 持仓品种代码（仅资产账户） */
+  commodity?: string;
+  /** 持仓成本计算方法（仅持仓账户） */
+  costBasisMethod?: CostBasisMethod;
+};
+
+/**
+ * 读取完整账簿（账户 + 全部未删除分录），不是账簿成员时返回 null
+ */
+export async function loadBookFromRepository(
+  factory: IRepositoryFactory,
+  userId: string,
+  bookId: string,
+): Promise<BookData | null> {
+  const bookRepository = factory.getBookRepository();
+  if (!(await bookRepository.getMemberRole(userId, bookId))) return null;
+  const book = await bookRepository.getBook(userId, bookId);
+  if (!book) return null;
+
+  const entries = await factory
+    .getEntryRepository()
+    .listEntries(userId, bookId);
+  return { ...book, entries };
+}
+
+/**
+ * 账簿不存在时写入初始数据
+ */
+export async function ensureBookInRepository(
+  factory: IRepositoryFactory,
+  userId: string,
+  createInitialBook: () => BookData,
+): Promise<BookData> {
+  const initial = createInitialBook();
+  const bookRepository = factory.getBookRepository();
+  const existing = await bookRepository.getBook(userId, initial.id);
+  if (!existing) {
+    await bookRepository.saveBook(userId, initial);
+  }
+  const book = await loadBookFromRepository(factory, userId, initial.id);
+  if (!book) {
+    throw new Error("Book not found");
+  }
+  return book;
+}
+
+/**
+ * 校验用户在账簿中的角色：Owner 和 Editor 可以记账，结账和余额修复仅限 Owner
+ */
+async function assertBookRole(
+  factory: IRepositoryFactory,
+  userId: string,
+  bookId: string,
+  roles: BookRole[],
+): Promise<void> {
+  const role = await factory.getBookRepository().getMemberRole(userId, bookId);
+  if (!role) {
+    throw new Error("No access to book");
+  }
+  if (!roles.includes(role)) {
+    throw new Error("Permission denied");
+  }
+}
+
+const EDITOR_ROLES: BookRole[] = ["owner", "editor"];
+const OWNER_ROLES: BookRole[] = ["owner"];
+
+/**
+ * 读取账簿结账记录，校验日期都在未结账期间
+ */
+async function assertPeriodOpenInRepository(
+  factory: IRepositoryFactory,
+  userId: string,
+  bookId: string,
+  dates: string[],
+): Promise<void> {
+  const meta = await factory.getBookRepository().getBookMeta(userId, bookId);
+  if (!meta) {
+    throw new Error("Book not found");
+  }
+  assertPeriodOpen(meta, ...dates);
+}
+
+/**
+ * 创建一借一贷分录并更新账户余额
+ */
+export async function createSimpleEntryInRepository(
+  factory: IRepositoryFactory,
+  userId: string,
+  params: SimpleEntryInput & { bookId: string },
+): Promise<JournalEntryData> {
+  return factory.runTransaction(async (tx) => {
+    await assertBookRole(tx, userId, params.bookId, EDITOR_ROLES);
+    await assertPeriodOpenInRepository(tx, userId, params.bookId, [
+      params.date,
+    ]);
+    const accountRepository = tx.getAccountRepository();
+    const accounts = await accountRepository.getAccounts(userId, params.bookId);
+    const debitAccount = accounts.find((a) => a.id === params.debitAccountId);
+    const creditAccount = accounts.find((a) => a.id === params.creditAccountId);
+    if (!debitAccount || !creditAccount) {
+      throw new Error("Account not found");
+    }
+    if (debitAccount.currency !== creditAccount.currency) {
+      throw new Error("Cross-currency entry is not supported");
+    }
+    if (!Number.isFinite(params.amount) || params.amount <= 0) {
+      throw new Error("Amount must be greater than 0");
+    }
+
+    const entry = createSimpleEntry({
+      date: params.date,
+      description: params.description,
+      debitAccountId: debitAccount.id,
+      creditAccountId: creditAccount.id,
+      amount: fromMainUnit(params.amount, debitAccount.currency).amount,
+      tags: params.tags,
+      payee: params.payee,
+      note: params.note,
+    });
+    entry.createdBy = userId;
+    entry.updatedBy = userId;
+    entry.entryVersion = 1;
+
+    const posted = postEntry(entry, [debitAccount, creditAccount]);
+    await accountRepository.saveAccounts(userId, params.bookId, posted);
+    await tx.getEntryRepository().saveEntry(userId, params.bookId, entry);
+
+    return entry;
+  });
+}
+
+/**
+ * 将一借一贷输入应用到已有分录（不改变版本号）
+ */
+export function applySimpleEntryInput(
+  entry: JournalEntryData,
+  input: SimpleEntryInput,
+  currency: CurrencyCode,
+): JournalEntryData {
+  const amount = fromMainUnit(input.amount, currency).amount;
+  return updateEntry(entry, {
+    date: input.date,
+    description: input.description,
+    tags: input.tags,
+    payee: input.payee,
+    note: input.note,
+    lines: [
+      { accountId: input.debitAccountId, amount, type: EntryLineType.DEBIT },
+      { accountId: input.creditAccountId, amount, type: EntryLineType.CREDIT },
+    ],
+  });
+}
+
+/**
+ * 一借一贷输入转为拆分输入
+ */
+export function toSplitEntryInput(input: SimpleEntryInput): SplitEntryInput {
+  return {
+    date: input.date,
+    description: input.description,
+    lines: [
+      {
+        accountId: input.debitAccountId,
+        type: EntryLineType.DEBIT,
+        amount: input.amount,
+      },
+      {
+        accountId: input.creditAccountId,
+        type: EntryLineType.CREDIT,
+        amount: input.amount,
+      },
+    ],
+    tags: input.tags,
+    payee: input.payee,
+    note: input.note,
+  };
+}
+
+/**
+ * 将拆分输入应用到已有分录（不改变版本号）
+ */
+export function applySplitEntryInput(
+  entry: JournalEntryData,
+  input: SplitEntryInput,
+  accounts: AccountData[],
+  context?: CurrencyContext,
+): JournalEntryData {
+  return updateEntry(entry, {
+    date: input.date,
+    description: input.description,
+    tags: input.tags,
+    payee: input.payee,
+    note: input.note,
+    lines: buildSplitEntryLines(input.lines, accounts, context),
+  });
+}
+
+/**
+ * 读取跨币种折算上下文；拆分行跨币种时确保汇兑损益账户存在
+ */
+async function resolveCurrencyContext(
+  factory: IRepositoryFactory,
+  userId: string,
+  params: { bookId: string; date: string; lines: SplitLineInput[] },
+  accounts: AccountData[],
+): Promise<{ context?: CurrencyContext; accounts: AccountData[] }> {
+  if (!isCrossCurrencySplit(params.lines, accounts)) {
+    return { accounts };
+  }
+  const book = await factory.getBookRepository().getBook(userId, params.bookId);
+  if (!book) {
+    throw new Error("Book not found");
+  }
+  let fxAccount = findFxGainLossAccount(accounts);
+  if (!fxAccount) {
+    fxAccount = createFxGainLossAccount(accounts, book.defaultCurrency);
+    await factory
+      .getAccountRepository()
+      .saveAccount(userId, params.bookId, fxAccount);
+    accounts = [...accounts, fxAccount];
+  }
+  return {
+    accounts,
+    context: {
+      baseCurrency: book.defaultCurrency,
+      exchangeRates: book.exchangeRates,
+      date: params.date,
+      fxAccountId: fxAccount.id,
+    },
+  };
+}
+
+/**
+ * 读取卖出持仓的上下文；拆分行卖出持仓时确保已实现盈亏账户存在
+ */
+async function resolveSaleContext(
+  factory: IRepositoryFactory,
+  userId: string,
+  params: { bookId: string; lines: SplitLineInput[] },
+  accounts: AccountData[],
+): Promise<{ sale?: SaleContext; accounts: AccountData[] }> {
+  const [saleIndex] = getSaleLineIndexes(params.lines, accounts);
+  if (saleIndex === undefined) {
+    return { accounts };
+  }
+  const holding = accounts.find(
+    (a) => a.id === params.lines[saleIndex].accountId,
+  )!;
+  const book = await loadBookFromRepository(factory, userId, params.bookId);
+  if (!book) {
+    throw new Error("Book not found");
+  }
+  let gainAccount = findRealizedGainsAccount(accounts, holding.currency);
+  if (!gainAccount) {
+    gainAccount = createRealizedGainsAccount(accounts, holding.currency);
+    await factory
+      .getAccountRepository()
+      .saveAccount(userId, params.bookId, gainAccount);
+    accounts = [...accounts, gainAccount];
+  }
+  return {
+    accounts,
+    sale: {
+      book: {
+        accounts,
+        entries: book.entries,
+        corporateActions: book.corporateActions,
+      },
+      gainAccountId: gainAccount.id,
+    },
+  };
+}
+
+/**
+ * 创建多行拆分分录，所有行一次过账
+ */
+export async function createSplitEntryInRepository(
+  factory: IRepositoryFactory,
+  userId: string,
+  params: SplitEntryInput & { bookId: string },
+): Promise<JournalEntryData> {
+  return factory.runTransaction(async (tx) => {
+    await assertBookRole(tx, userId, params.bookId, EDITOR_ROLES);
+    await assertPeriodOpenInRepository(tx, userId, params.bookId, [
+      params.date,
+    ]);
+    const accountRepository = tx.getAccountRepository();
+    const currency = await resolveCurrencyContext(
+      tx,
+      userId,
+      params,
+      await accountRepository.getAccounts(userId, params.bookId),
+    );
+    const { accounts, sale } = await resolveSaleContext(
+      tx,
+      userId,
+      params,
+      currency.accounts,
+    );
+
+    const entry = applySaleContext(
+      createEntry({
+        date: params.date,
+        description: params.description,
+        lines: buildSplitEntryLines(params.lines, accounts, currency.context),
+        tags: params.tags,
+        payee: params.payee,
+        note: params.note,
+      }),
+      sale,
+    );
+    if (params.holdingEvent) entry.holdingEvent = params.holdingEvent;
+    entry.createdBy = userId;
+    entry.updatedBy = userId;
+    entry.entryVersion = 1;
+
+    const touched = new Set(entry.lines.map((line) => line.accountId));
+    await accountRepository.saveAccounts(
+      userId,
+      params.bookId,
+      postEntry(entry, accounts).filter((a) => touched.has(a.id)),
+    );
+    await tx.getEntryRepository().saveEntry(userId, params.bookId, entry);
+
+    return entry;
+  });
+}
+
+/** 批量导入时每个事务写入的分录数（Firestore 单事务最多 500 次写入，需给账户更新留余量） */
+const IMPORT_CHUNK_SIZE = 200;
+
+/**
+ * 批量导入分录（如 CSV 账单）
+ *
+ * 先整批试过账，任一分录失败则不写入；再按块分多个事务写入，
+ * 某块失败时抛出错误，之前的块已写入不回滚。
+ */
+export async function importEntriesInRepository(
+  factory: IRepositoryFactory,
+  userId: string,
+  params: { bookId: string; entries: JournalEntryData[] },
+): Promise<JournalEntryData[]> {
+  if (params.entries.length === 0) return [];
+  await assertBookRole(factory, userId, params.bookId, EDITOR_ROLES);
+  await assertPeriodOpenInRepository(
+    factory,
+    userId,
+    params.bookId,
+    params.entries.map((entry) => entry.date),
+  );
+
+  const entries = params.entries.map((entry) => ({
+    ...entry,
+    createdBy: userId,
+    updatedBy: userId,
+    entryVersion: 1,
+  }));
+  let accounts = await factory
+    .getAccountRepository()
+    .getAccounts(userId, params.bookId);
+  for (const entry of entries) {
+    accounts = postEntry(entry, accounts);
+  }
+
+  for (let i = 0; i < entries.length; i += IMPORT_CHUNK_SIZE) {
+    const chunk = entries.slice(i, i + IMPORT_CHUNK_SIZE);
+    await factory.runTransaction(async (tx) => {
+      await assertBookRole(tx, userId, params.bookId, EDITOR_ROLES);
+      await assertPeriodOpenInRepository(
+        tx,
+        userId,
+        params.bookId,
+        chunk.map((entry) => entry.date),
+      );
+      const accountRepository = tx.getAccountRepository();
+      let current = await accountRepository.getAccounts(userId, params.bookId);
+      for (const entry of chunk) {
+        current = postEntry(entry, current);
+      }
+      const touched = new Set(
+        chunk.flatMap((entry) => entry.lines.map((line) => line.accountId)),
+      );
+      await accountRepository.saveAccounts(
+        userId,
+        params.bookId,
+        current.filter((a) => touched.has(a.id)),
+      );
+      await tx.getEntryRepository().saveEntries(userId, params.bookId, chunk);
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * 导出账簿为纯文本记账格式（Beancount / ledger-cli）
+ */
+export async function exportPlainTextFromRepository(
+  factory: IRepositoryFactory,
+  userId: string,
+  params: { bookId: string; format: PlainTextFormat },
+): Promise<string> {
+  const book = await loadBookFromRepository(factory, userId, params.bookId);
+  if (!book) {
+    throw new Error("Book not found");
+  }
+  return exportPlainText(book, params.format);
+}
+
+/**
+ * 从纯文本记账格式导入到已有账簿
+ *
+ * 账户按路径匹配，缺少的账户和文件中的汇率先一起写入；
+ * 分录换用新 ID 后整批试过账，再按 importEntriesInRepository 分块写入
+ */
+export async function importPlainTextInRepository(
+  factory: IRepositoryFactory,
+  userId: string,
+  params: { bookId: string; text: string; format: PlainTextFormat },
+): Promise<JournalEntryData[]> {
+  const book = await loadBookFromRepository(factory, userId, params.bookId);
+  if (!book) {
+    throw new Error("Book not found");
+  }
+  const parsed = importPlainText(params.text, params.format, {
+    defaultCurrency: book.defaultCurrency,
+  });
+
+  const existing = new Map(book.accounts.map((a) => [a.path, a]));
+  const accountIds = new Map<string, string>();
+  const created: AccountData[] = [];
+  // 按路径排序，父账户先于子账户
+  const accounts = [...parsed.accounts].sort((a, b) =>
+    a.path.localeCompare(b.path),
+  );
+  for (const account of accounts) {
+    const match = existing.get(account.path);
+    if (match) {
+      if (match.currency !== account.currency) {
+        throw new Error(`Account ${account.path} currency mismatch`);
+      }
+      accountIds.set(account.id, match.id);
+      continue;
+    }
+    const parentId = account.parentId && accountIds.get(account.parentId);
+    if (!parentId) {
+      throw new Error("Parent account not found");
+    }
+    created.push({ ...account, parentId, balance: 0 });
+    accountIds.set(account.id, account.id);
+  }
+
+  // 文件中保留的分录 ID 可能与账簿已有分录重复，统一换新
+  const entryIds = new Map(
+    parsed.entries.map((entry) => [entry.id, crypto.randomUUID()]),
+  );
+  const entries = parsed.entries.map((entry) => ({
+    ...entry,
+    id: entryIds.get(entry.id)!,
+    lines: entry.lines.map((line) => {
+      const next = { ...line, accountId: accountIds.get(line.accountId)! };
+      if (line.lotSelections) {
+        next.lotSelections = line.lotSelections.map((selection) => ({
+          ...selection,
+          entryId: entryIds.get(selection.entryId) ?? selection.entryId,
+        }));
+      }
+      return next;
+    }),
+  }));
+  // 写入前整批试过账，任一分录失败则不写入
+  assertPeriodOpen(book, ...entries.map((entry) => entry.date));
+  let posted = [...book.accounts, ...created];
+  for (const entry of entries) {
+    posted = postEntry(entry, posted);
+  }
+
+  await factory.runTransaction(async (tx) => {
+    await assertBookRole(tx, userId, params.bookId, EDITOR_ROLES);
+    const bookRepository = tx.getBookRepository();
+    const meta = await bookRepository.getBookMeta(userId, params.bookId);
+    if (!meta) {
+      throw new Error("Book not found");
+    }
+    await bookRepository.saveBookMeta(userId, params.bookId, {
+      commonTags: meta.commonTags,
+      exchangeRates: parsed.exchangeRates.reduce(
+        (rates, rate) => upsertExchangeRate(rates, rate),
+        meta.exchangeRates,
+      ),
+    });
+    await tx
+      .getAccountRepository()
+      .saveAccounts(userId, params.bookId, created);
+  });
+  return importEntriesInRepository(factory, userId, {
+    bookId: params.bookId,
+    entries,
+  });
+}
+
+/**
+ * 读取分录并校验版本
+ */
+async function requireEntryVersion(
+  factory: IRepositoryFactory,
+  userId: string,
+  params: { bookId: string; entryId: string; expectedVersion: number },
+): Promise<JournalEntryData> {
+  const entry = await factory
+    .getEntryRepository()
+    .getEntry(userId, params.bookId, params.entryId);
+  if (!entry) {
+    throw new Error("Entry not found");
+  }
+  assertEntryVersion(entry, params.expectedVersion);
+  return entry;
+}
+
+/**
+ * 替换分录：回滚旧影响、应用新影响，并保存旧快照为修订记录
+ *
+ * 新分录带 deletedAt 时只回滚不过账；新旧日期都不能在已结账期间内，
+ * 只有重新打开期间时（ignoreLock）才能删除结转分录；已对账的行不能修改
+ */
+async function replaceEntryInRepository(
+  factory: IRepositoryFactory,
+  userId: string,
+  params: {
+    bookId: string;
+    oldEntry: JournalEntryData;
+    action: EntryRevisionAction;
+    buildNext: (accounts: AccountData[]) => JournalEntryData;
+    ignoreLock?: boolean;
+  },
+): Promise<JournalEntryData> {
+  const { oldEntry } = params;
+  const accountRepository = factory.getAccountRepository();
+  const entryRepository = factory.getEntryRepository();
+  const accounts = await accountRepository.getAccounts(userId, params.bookId);
+
+  const entry: JournalEntryData = {
+    ...params.buildNext(accounts),
+    updatedBy: userId,
+    updatedAt: new Date().toISOString(),
+    entryVersion: getEntryVersion(oldEntry) + 1,
+  };
+  assertReconciledLinesKept(oldEntry, entry);
+  if (!params.ignoreLock) {
+    await assertPeriodOpenInRepository(factory, userId, params.bookId, [
+      oldEntry.date,
+      entry.date,
+    ]);
+  }
+
+  let updatedAccounts = oldEntry.deletedAt
+    ? accounts
+    : unpostEntry(oldEntry, accounts);
+  if (!entry.deletedAt) {
+    updatedAccounts = postEntry(entry, updatedAccounts);
+  }
+
+  const touched = new Set(
+    [...oldEntry.lines, ...entry.lines].map((line) => line.accountId),
+  );
+  await accountRepository.saveAccounts(
+    userId,
+    params.bookId,
+    updatedAccounts.filter((a) => touched.has(a.id)),
+  );
+  await entryRepository.saveEntry(userId, params.bookId, entry);
+  await entryRepository.saveRevision(
+    userId,
+    params.bookId,
+    createEntryRevision(oldEntry, params.action, userId),
+  );
+
+  return entry;
+}
+
+/**
+ * 修改一借一贷分录：回滚旧影响后应用新影响
+ *
+ * expectedVersion 与当前版本不一致时抛出 EntryConflictError
+ */
+export async function updateSimpleEntryInRepository(
+  factory: IRepositoryFactory,
+  userId: string,
+  params: SimpleEntryInput & {
+    bookId: string;
+    entryId: string;
+    expectedVersion: number;
+  },
+): Promise<JournalEntryData> {
+  return factory.runTransaction(async (tx) => {
+    await assertBookRole(tx, userId, params.bookId, EDITOR_ROLES);
+    const oldEntry = await requireEntryVersion(tx, userId, params);
+    if (oldEntry.deletedAt) {
+      throw new Error("Entry not found");
+    }
+
+    return replaceEntryInRepository(tx, userId, {
+      bookId: params.bookId,
+      oldEntry,
+      action: "update",
+      buildNext: (accounts) => {
+        const debitAccount = accounts.find(
+          (a) => a.id === params.debitAccountId,
+        );
+        const creditAccount = accounts.find(
+          (a) => a.id === params.creditAccountId,
+        );
+        if (!debitAccount || !creditAccount) {
+          throw new Error("Account not found");
+        }
+        if (debitAccount.currency !== creditAccount.currency) {
+          throw new Error("Cross-currency entry is not supported");
+        }
+        if (!Number.isFinite(params.amount) || params.amount <= 0) {
+          throw new Error("Amount must be greater than 0");
+        }
+        return applySimpleEntryInput(oldEntry, params, debitAccount.currency);
+      },
+    });
+  });
+}
+
+/**
+ * 修改多行拆分分录：回滚旧影响后应用新影响
+ *
+ * expectedVersion 与当前版本不一致时抛出 EntryConflictError
+ */
+export async function updateSplitEntryInRepository(
+  factory: IRepositoryFactory,
+  userId: string,
+  params: SplitEntryInput & {
+    bookId: string;
+    entryId: string;
+    expectedVersion: number;
+  },
+): Promise<JournalEntryData> {
+  return factory.runTransaction(async (tx) => {
+    await assertBookRole(tx, userId, params.bookId, EDITOR_ROLES);
+    const oldEntry = await requireEntryVersion(tx, userId, params);
+    if (oldEntry.deletedAt) {
+      throw new Error("Entry not found");
+    }
+
+    const { accounts: current, context } = await resolveCurrencyContext(
+      tx,
+      userId,
+      params,
+      await tx.getAccountRepository().getAccounts(userId, params.bookId),
+    );
+    const { sale } = await resolveSaleContext(tx, userId, params, current);
+
+    return replaceEntryInRepository(tx, userId, {
+      bookId: params.bookId,
+      oldEntry,
+      action: "update",
+      buildNext: (accounts) =>
+        applySaleContext(
+          applySplitEntryInput(oldEntry, params, accounts, context),
+          sale,
+        ),
+    });
+  });
+}
+
+/**
+ * 软删除分录：回滚余额并设置 deletedAt
+ *
+ * expectedVersion 与当前版本不一致时抛出 EntryConflictError
+ */
+export async function deleteEntryInRepository(
+  factory: IRepositoryFactory,
+  userId: string,
+  params: { bookId: string; entryId: string; expectedVersion: number },
+): Promise<void> {
+  return factory.runTransaction(async (tx) => {
+    await assertBookRole(tx, userId, params.bookId, EDITOR_ROLES);
+    const entry = await requireEntryVersion(tx, userId, params);
+    if (entry.deletedAt) return;
+
+    await replaceEntryInRepository(tx, userId, {
+      bookId: params.bookId,
+      oldEntry: entry,
+      action: "delete",
+      buildNext: () => ({ ...entry, deletedAt: new Date().toISOString() }),
+    });
+  });
+}
+
+/**
+ * 恢复到某个修订快照（与修改相同的回滚 + 过账流程，已删除的分录会被恢复）
+ *
+ * expectedVersion 与当前版本不一致时抛出 EntryConflictError
+ */
+export async function restoreEntryRevisionInRepository(
+  factory: IRepositoryFactory,
+  userId: string,
+  params: {
+    bookId: string;
+    entryId: string;
+    revisionId: string;
+    expectedVersion: number;
+  },
+): Promise<JournalEntryData> {
+  return factory.runTransaction(async (tx) => {
+    await assertBookRole(tx, userId, params.bookId, EDITOR_ROLES);
+    const oldEntry = await requireEntryVersion(tx, userId, params);
+    const revisions = await tx
+      .getEntryRepository()
+      .getRevisions(userId, params.bookId, params.entryId);
+    const revision = revisions.find((r) => r.id === params.revisionId);
+    if (!revision) {
+      throw new Error("Revision not found");
+    }
+
+    return replaceEntryInRepository(tx, userId, {
+      bookId: params.bookId,
+      oldEntry,
+      action: "restore",
+      buildNext: () => restoreFromSnapshot(oldEntry, revision.snapshot),
+    });
+  });
+}
+
+/**
+ * 保存自动分类规则（与常用标签一起存放在账簿元数据中）
+ */
+export async function saveRulesInRepository(
+  factory: IRepositoryFactory,
+  userId: string,
+  params: { bookId: string; rules: CategorizationRule[] },
+): Promise<void> {
+  return factory.runTransaction(async (tx) => {
+    await assertBookRole(tx, userId, params.bookId, EDITOR_ROLES);
+    const bookRepository = tx.getBookRepository();
+    const meta = await bookRepository.getBookMeta(userId, params.bookId);
+    if (!meta) {
+      throw new Error("Book not found");
+    }
+    await bookRepository.saveBookMeta(userId, params.bookId, {
+      commonTags: meta.commonTags,
+      exchangeRates: meta.exchangeRates,
+      rules: params.rules,
+    });
+  });
+}
+
+/**
+ * 在单独的事务中替换一条分录，分录在读取账簿后被修改时抛出 EntryConflictError
+ */
+async function replaceLoadedEntryInRepository(
+  factory: IRepositoryFactory,
+  userId: string,
+  params: { bookId: string; before: JournalEntryData; after: JournalEntryData },
+): Promise<JournalEntryData> {
+  return factory.runTransaction(async (tx) => {
+    await assertBookRole(tx, userId, params.bookId, EDITOR_ROLES);
+    const oldEntry = await requireEntryVersion(tx, userId, {
+      bookId: params.bookId,
+      entryId: params.before.id,
+      expectedVersion: getEntryVersion(params.before),
+    });
+    return replaceEntryInRepository(tx, userId, {
+      bookId: params.bookId,
+      oldEntry,
+      action: "update",
+      buildNext: () => params.after,
+    });
+  });
+}
+
+/**
+ * 对查询结果重新应用规则，逐条替换分录并保存修订记录
+ */
+export async function reapplyRulesInRepository(
+  factory: IRepositoryFactory,
+  userId: string,
+  params: { bookId: string; query: EntryQuery },
+): Promise<RuleApplication[]> {
+  await assertBookRole(factory, userId, params.bookId, EDITOR_ROLES);
+  const book = await loadBookFromRepository(factory, userId, params.bookId);
+  if (!book) {
+    throw new Error("Book not found");
+  }
+  const changes = reapplyRules(book, params.query);
+  for (const change of changes) {
+    await replaceLoadedEntryInRepository(factory, userId, {
+      bookId: params.bookId,
+      before: change.before,
+      after: change.after,
+    });
+  }
+  return changes;
+}
+
+/**
+ * 保存定期交易模板
+ */
+export async function saveRecurringInRepository(
+  factory: IRepositoryFactory,
+  userId: string,
+  params: { bookId: string; templates: RecurringTemplate[] },
+): Promise<void> {
+  return factory.runTransaction(async (tx) => {
+    await assertBookRole(tx, userId, params.bookId, EDITOR_ROLES);
+    const bookRepository = tx.getBookRepository();
+    const meta = await bookRepository.getBookMeta(userId, params.bookId);
+    if (!meta) {
+      throw new Error("Book not found");
+    }
+    await bookRepository.saveBookMeta(userId, params.bookId, {
+      commonTags: meta.commonTags,
+      exchangeRates: meta.exchangeRates,
+      recurring: params.templates,
+    });
+  });
+}
+
+/**
+ * 保存预算
+ */
+export async function saveBudgetsInRepository(
+  factory: IRepositoryFactory,
+  userId: string,
+  params: { bookId: string; budgets: Budget[] },
+): Promise<void> {
+  return factory.runTransaction(async (tx) => {
+    await assertBookRole(tx, userId, params.bookId, EDITOR_ROLES);
+    const bookRepository = tx.getBookRepository();
+    const meta = await bookRepository.getBookMeta(userId, params.bookId);
+    if (!meta) {
+      throw new Error("Book not found");
+    }
+    await bookRepository.saveBookMeta(userId, params.bookId, {
+      commonTags: meta.commonTags,
+      exchangeRates: meta.exchangeRates,
+      budgets: params.budgets,
+    });
+  });
+}
+
+/**
+ * 按模板过账定期交易的发生，并推进模板游标
+ */
+export async function postRecurringInRepository(
+  factory: IRepositoryFactory,
+  userId: string,
+  params: { bookId: string; occurrences: RecurringOccurrenceRef[] },
+): Promise<JournalEntryData[]> {
+  return factory.runTransaction(async (tx) => {
+    await assertBookRole(tx, userId, params.bookId, EDITOR_ROLES);
+    const meta = await tx
+      .getBookRepository()
+      .getBookMeta(userId, params.bookId);
+    if (!meta) {
+      throw new Error("Book not found");
+    }
+    const settled = settleOccurrences(meta.recurring, params.occurrences);
+    const entries = await importEntriesInRepository(tx, userId, {
+      bookId: params.bookId,
+      entries: settled.entries,
+    });
+    await saveRecurringInRepository(tx, userId, {
+      bookId: params.bookId,
+      templates: settled.templates,
+    });
+    return entries;
+  });
+}
+
+/**
+ * 跳过定期交易的一次发生（或该次已手动记账），只推进模板游标
+ */
+export async function skipRecurringInRepository(
+  factory: IRepositoryFactory,
+  userId: string,
+  params: { bookId: string; occurrence: RecurringOccurrenceRef },
+): Promise<void> {
+  return factory.runTransaction(async (tx) => {
+    await assertBookRole(tx, userId, params.bookId, EDITOR_ROLES);
+    const meta = await tx
+      .getBookRepository()
+      .getBookMeta(userId, params.bookId);
+    if (!meta) {
+      throw new Error("Book not found");
+    }
+    const settled = settleOccurrences(meta.recurring, [params.occurrence]);
+    await saveRecurringInRepository(tx, userId, {
+      bookId: params.bookId,
+      templates: settled.templates,
+    });
+  });
+}
+
+/**
+ * 按编辑后的内容记录定期交易的一次发生，并在同一事务中推进模板游标
+ */
+export async function postEditedOccurrenceInRepository(
+  factory: IRepositoryFactory,
+  userId: string,
+  params: {
+    bookId: string;
+    occurrence: RecurringOccurrenceRef;
+    input: SimpleEntryInput | SplitEntryInput;
+  },
+): Promise<JournalEntryData> {
+  return factory.runTransaction(async (tx) => {
+    const { bookId, occurrence, input } = params;
+    const entry =
+      "lines" in input
+        ? await createSplitEntryInRepository(tx, userId, { ...input, bookId })
+        : await createSimpleEntryInRepository(tx, userId, { ...input, bookId });
+    await skipRecurringInRepository(tx, userId, { bookId, occurrence });
+    return entry;
+  });
+}
+
+/**
+ * 结账：结转截至 date 的收入、支出到留存收益，并锁定该期间
+ *
+ * date 必须晚于当前锁定日期；留存收益账户不存在时自动创建。
+ * description 为结转分录的摘要
+ */
+export async function closePeriodInRepository(
+  factory: IRepositoryFactory,
+  userId: string,
+  params: { bookId: string; date: string; description: string },
+): Promise<PeriodClosing> {
+  return factory.runTransaction(async (tx) => {
+    await assertBookRole(tx, userId, params.bookId, OWNER_ROLES);
+    const book = await loadBookFromRepository(tx, userId, params.bookId);
+    if (!book) {
+      throw new Error("Book not found");
+    }
+    assertPeriodOpen(book, params.date);
+
+    const accountRepository = tx.getAccountRepository();
+    let accounts = book.accounts;
+    let retainedEarnings = findRetainedEarningsAccount(accounts);
+    if (!retainedEarnings) {
+      retainedEarnings = createRetainedEarningsAccount(
+        accounts,
+        book.defaultCurrency,
+      );
+      await accountRepository.saveAccount(
+        userId,
+        params.bookId,
+        retainedEarnings,
+      );
+      accounts = [...accounts, retainedEarnings];
+    }
+
+    const closing: PeriodClosing = {
+      date: params.date,
+      closedAt: new Date().toISOString(),
+      closedBy: userId,
+    };
+    const entry = buildClosingEntry(
+      { ...book, accounts },
+      params.date,
+      retainedEarnings.id,
+      params.description,
+    );
+    if (entry) {
+      entry.createdBy = userId;
+      entry.updatedBy = userId;
+      entry.entryVersion = 1;
+      const touched = new Set(entry.lines.map((line) => line.accountId));
+      await accountRepository.saveAccounts(
+        userId,
+        params.bookId,
+        postEntry(entry, accounts).filter((a) => touched.has(a.id)),
+      );
+      await tx.getEntryRepository().saveEntry(userId, params.bookId, entry);
+      closing.entryId = entry.id;
+    }
+
+    await tx
+      .getBookRepository()
+      .saveBookMeta(userId, params.bookId, {
+        commonTags: book.commonTags,
+        exchangeRates: book.exchangeRates,
+        closings: [...(book.closings ?? []), closing],
+      });
+    return closing;
+  });
+}
+
+/**
+ * 重新打开最后一次结账的期间：软删除结转分录并解除锁定
+ */
+export async function reopenPeriodInRepository(
+  factory: IRepositoryFactory,
+  userId: string,
+  params: { bookId: string },
+): Promise<void> {
+  return factory.runTransaction(async (tx) => {
+    await assertBookRole(tx, userId, params.bookId, OWNER_ROLES);
+    const meta = await tx
+      .getBookRepository()
+      .getBookMeta(userId, params.bookId);
+    if (!meta) {
+      throw new Error("Book not found");
+    }
+    const closing = meta.closings[meta.closings.length - 1];
+    if (!closing) {
+      throw new Error("No closed period");
+    }
+
+    const entry = closing.entryId
+      ? await tx
+          .getEntryRepository()
+          .getEntry(userId, params.bookId, closing.entryId)
+      : null;
+    if (entry && !entry.deletedAt) {
+      await replaceEntryInRepository(tx, userId, {
+        bookId: params.bookId,
+        oldEntry: entry,
+        action: "delete",
+        buildNext: () => ({ ...entry, deletedAt: new Date().toISOString() }),
+        ignoreLock: true,
+      });
+    }
+
+    await tx
+      .getBookRepository()
+      .saveBookMeta(userId, params.bookId, {
+        commonTags: meta.commonTags,
+        exchangeRates: meta.exchangeRates,
+        closings: meta.closings.slice(0, -1),
+      });
+  });
+}
+
+/**
+ * 保存对账记录
+ */
+export async function saveReconciliationsInRepository(
+  factory: IRepositoryFactory,
+  userId: string,
+  params: { bookId: string; reconciliations: Reconciliation[] },
+): Promise<void> {
+  return factory.runTransaction(async (tx) => {
+    await assertBookRole(tx, userId, params.bookId, EDITOR_ROLES);
+    const bookRepository = tx.getBookRepository();
+    const meta = await bookRepository.getBookMeta(userId, params.bookId);
+    if (!meta) {
+      throw new Error("Book not found");
+    }
+    await bookRepository.saveBookMeta(userId, params.bookId, {
+      commonTags: meta.commonTags,
+      exchangeRates: meta.exchangeRates,
+      reconciliations: params.reconciliations,
+    });
+  });
+}
+
+/**
+ * 保存余额断言
+ */
+export async function saveBalanceAssertionsInRepository(
+  factory: IRepositoryFactory,
+  userId: string,
+  params: { bookId: string; balanceAssertions: BalanceAssertion[] },
+): Promise<void> {
+  return factory.runTransaction(async (tx) => {
+    await assertBookRole(tx, userId, params.bookId, EDITOR_ROLES);
+    const bookRepository = tx.getBookRepository();
+    const meta = await bookRepository.getBookMeta(userId, params.bookId);
+    if (!meta) {
+      throw new Error("Book not found");
+    }
+    await bookRepository.saveBookMeta(userId, params.bookId, {
+      commonTags: meta.commonTags,
+      exchangeRates: meta.exchangeRates,
+      balanceAssertions: params.balanceAssertions,
+    });
+  });
+}
+
+/**
+ * 记录公司行动；代码变更同时更新持仓账户的代码
+ */
+export async function addCorporateActionInRepository(
+  factory: IRepositoryFactory,
+  userId: string,
+  params: { bookId: string; action: CorporateAction },
+): Promise<void> {
+  return factory.runTransaction(async (tx) => {
+    await assertBookRole(tx, userId, params.bookId, EDITOR_ROLES);
+    const bookRepository = tx.getBookRepository();
+    const accountRepository = tx.getAccountRepository();
+    const meta = await bookRepository.getBookMeta(userId, params.bookId);
+    if (!meta) {
+      throw new Error("Book not found");
+    }
+    const account = (
+      await accountRepository.getAccounts(userId, params.bookId)
+    ).find((a) => a.id === params.action.accountId);
+    if (!account?.commodity) {
+      throw new Error("Holding account not found");
+    }
+
+    await bookRepository.saveBookMeta(userId, params.bookId, {
+      commonTags: meta.commonTags,
+      exchangeRates: meta.exchangeRates,
+      corporateActions: [...meta.corporateActions, params.action],
+    });
+    if (params.action.kind === "symbolChange") {
+      await accountRepository.saveAccount(userId, params.bookId, {
+        ...account,
+        commodity: params.action.toSymbol,
+        updatedAt: new Date().toISOString(),
+      });
+    }
+  });
+}
+
+/**
+ * 勾选或取消勾选分录行（记录修订，已结账期间内不能修改）
+ */
+export async function setLineClearedInRepository(
+  factory: IRepositoryFactory,
+  userId: string,
+  params: {
+    bookId: string;
+    entryId: string;
+    lineIndex: number;
+    cleared: boolean;
+    expectedVersion: number;
+  },
+): Promise<JournalEntryData> {
+  return factory.runTransaction(async (tx) => {
+    await assertBookRole(tx, userId, params.bookId, EDITOR_ROLES);
+    const oldEntry = await requireEntryVersion(tx, userId, params);
+    if (oldEntry.deletedAt) {
+      throw new Error("Entry not found");
+    }
+
+    return replaceEntryInRepository(tx, userId, {
+      bookId: params.bookId,
+      oldEntry,
+      action: "update",
+      buildNext: () =>
+        setLineCleared(oldEntry, params.lineIndex, params.cleared),
+    });
+  });
+}
+
+/**
+ * 完成对账：锁定已勾选的行，保存对账记录并追加余额断言
+ */
+export async function finishReconciliationInRepository(
+  factory: IRepositoryFactory,
+  userId: string,
+  params: { bookId: string; reconciliationId: string },
+): Promise<Reconciliation> {
+  await assertBookRole(factory, userId, params.bookId, EDITOR_ROLES);
+  const book = await loadBookFromRepository(factory, userId, params.bookId);
+  if (!book) {
+    throw new Error("Book not found");
+  }
+  const result = finishReconciliation(book, params.reconciliationId);
+  const before = new Map(book.entries.map((entry) => [entry.id, entry]));
+  for (const next of result.entries) {
+    await replaceLoadedEntryInRepository(factory, userId, {
+      bookId: params.bookId,
+      before: before.get(next.id)!,
+      after: next,
+    });
+  }
+
+  await factory.runTransaction(async (tx) => {
+    await assertBookRole(tx, userId, params.bookId, EDITOR_ROLES);
+    const bookRepository = tx.getBookRepository();
+    const meta = await bookRepository.getBookMeta(userId, params.bookId);
+    if (!meta) {
+      throw new Error("Book not found");
+    }
+    await bookRepository.saveBookMeta(userId, params.bookId, {
+      commonTags: meta.commonTags,
+      exchangeRates: meta.exchangeRates,
+      reconciliations: meta.reconciliations.map((item) =>
+        item.id === result.reconciliation.id ? result.reconciliation : item,
+      ),
+      balanceAssertions: [...meta.balanceAssertions, result.assertion],
+    });
+  });
+  return result.reconciliation;
+}
+
+/**
+ * 校验账户余额缓存：重放全部分录，返回偏差
+ */
+export async function checkBalancesInRepository(
+  factory: IRepositoryFactory,
+  userId: string,
+  bookId: string,
+): Promise<BalanceRebuildResult> {
+  await assertBookRole(factory, userId, bookId, OWNER_ROLES);
+  const book = await loadBookFromRepository(factory, userId, bookId);
+  if (!book) {
+    throw new Error("Book not found");
+  }
+  return rebuildBalances(book);
+}
+
+/**
+ * 修复账户余额缓存：批量写入有偏差账户的重建余额
+ */
+export async function repairBalancesInRepository(
+  factory: IRepositoryFactory,
+  userId: string,
+  bookId: string,
+): Promise<BalanceRebuildResult> {
+  return factory.runTransaction(async (tx) => {
+    await assertBookRole(tx, userId, bookId, OWNER_ROLES);
+    const result = await checkBalancesInRepository(tx, userId, bookId);
+    const drifted = new Set(result.drifts.map((d) => d.accountId));
+    if (drifted.size > 0) {
+      await tx.getAccountRepository().saveAccounts(
+        userId,
+        bookId,
+        result.accounts.filter((a) => drifted.has(a.id)),
+      );
+    }
+    return result;
+  });
+}
+
+/**
+ * 创建子账户（类型和币种继承父账户）
+ */
+export async function createAccountInRepository(
+  factory: IRepositoryFactory,
+  userId: string,
+  params: AccountInput & { bookId: string },
+): Promise<AccountData> {
+  return factory.runTransaction(async (tx) => {
+    await assertBookRole(tx, userId, params.bookId, EDITOR_ROLES);
+    const accountRepository = tx.getAccountRepository();
+    const accounts = await accountRepository.getAccounts(userId, params.bookId);
+    const parent = accounts.find((a) => a.id === params.parentId);
+    if (!parent) {
+      throw new Error("Parent account not found");
+    }
+
+    const account = createAccount({
+      name: params.name,
+      type: parent.type,
+      currency: parent.currency,
+      parentId: parent.id,
+      parentPath: parent.path,
+    });
+    if (params.icon) account.icon = params.icon;
+    if (params.note) account.note = params.note;
+    if (params.cashFlow) account.cashFlow = params.cashFlow;
+    if (params.commodity) {
+      account.commodity = resolveAccountCommodity(parent, params.commodity);
+      if (params.costBasisMethod) {
+        account.costBasisMethod = params.costBasisMethod;
+      }
+    }
+
+    if (accounts.some((a) => a.path === account.path)) {
+      throw new Error(`Account ${account.path} already exists`);
+    }
+
+    await accountRepository.saveAccount(userId, params.bookId, account);
+    return account;
+  });
+}
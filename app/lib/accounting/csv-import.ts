@@ -0,0 +1,512 @@
+/**
+ * 银行 / 支付平台 CSV 账单导入
+ *
+ * 流程：解析 CSV -> 识别格式与表头 -> 列映射 -> 生成预览（含去重与校验）-> 批量写入
+ */
+
+import type {
+  AccountData,
+  BookData,
+  CategorizationRule,
+  JournalEntryData,
+} from "~/lib/double-entry/types";
+import { EntryLineType } from "~/lib/double-entry/types";
+import { createEntry } from "~/lib/double-entry/entry";
+import { fromMainUnit } from "~/lib/double-entry/money";
+import { queryEntries } from "~/lib/double-entry/query";
+import { applyRules } from "~/lib/double-entry/rules";
+import { validateEntry } from "~/lib/double-entry/validation";
+
+// ============================================================================
+// 类型
+// ============================================================================
+
+export type CsvFormat = "cmb" | "alipay" | "wechat" | "generic";
+
+/**
+ * 可映射的字段
+ * - amount: 金额列（带符号，或配合 direction 判断收支）
+ * - direction: 收/支 列
+ * - income / expense: 收入、支出分列（如招商银行）
+ */
+export type CsvField =
+  | "date"
+  | "amount"
+  | "direction"
+  | "income"
+  | "expense"
+  | "payee"
+  | "description";
+
+/** 字段 -> 列序号 */
+export type CsvColumnMapping = Partial<Record<CsvField, number>>;
+
+/**
+ * 解析后的账单
+ */
+export type CsvStatement = {
+  format: CsvFormat;
+  /** 表头所在行（从 0 开始） */
+  headerIndex: number;
+  header: string[];
+  /** 表头之后的数据行 */
+  rows: string[][];
+  mapping: CsvColumnMapping;
+};
+
+/**
+ * 账单中的一笔交易
+ */
+export type StatementRow = {
+  /** 原始文件中的行号（从 1 开始） */
+  lineNumber: number;
+  /** YYYY-MM-DD，无法识别时为 null */
+  date: string | null;
+  /** 金额（主单位），正数为收入、负数为支出；无法识别时为 null */
+  amount: number | null;
+  payee?: string;
+  description: string;
+  /** 不计收支等无需导入的行 */
+  skipped?: boolean;
+};
+
+export type ImportItemStatus = "new" | "duplicate" | "invalid" | "skipped";
+
+/**
+ * 导入预览项
+ */
+export type ImportPreviewItem = {
+  row: StatementRow;
+  status: ImportItemStatus;
+  entry: JournalEntryData | null;
+  errors: string[];
+  /** 重复时对应的已有分录 */
+  duplicateOf?: string;
+  /** 命中的自动分类规则 */
+  rule?: CategorizationRule;
+};
+
+// ============================================================================
+// 格式预设
+// ============================================================================
+
+type CsvPreset = {
+  /** 表头必须包含的列名（用于识别格式） */
+  detect: string[];
+  /** 字段 -> 候选列名 */
+  columns: Partial<Record<CsvField, string[]>>;
+};
+
+const CSV_PRESETS: Record<Exclude<CsvFormat, "generic">, CsvPreset> = {
+  wechat: {
+    detect: ["交易对方", "收/支", "支付方式", "当前状态"],
+    columns: {
+      date: ["交易时间"],
+      amount: ["金额(元)", "金额（元）"],
+      direction: ["收/支"],
+      payee: ["交易对方"],
+      description: ["商品", "交易类型"],
+    },
+  },
+  alipay: {
+    detect: ["交易对方", "收/支"],
+    columns: {
+      date: ["交易时间", "交易创建时间", "付款时间"],
+      amount: ["金额", "金额（元）", "金额(元)"],
+      direction: ["收/支"],
+      payee: ["交易对方"],
+      description: ["商品说明", "商品名称"],
+    },
+  },
+  cmb: {
+    detect: ["交易日期", "收入", "支出"],
+    columns: {
+      date: ["交易日期"],
+      income: ["收入"],
+      expense: ["支出"],
+      payee: ["交易备注"],
+      description: ["交易类型"],
+    },
+  },
+};
+
+/** 通用 CSV 的列名猜测（小写比较） */
+const GENERIC_COLUMNS: Partial<Record<CsvField, string[]>> = {
+  date: ["date", "日期", "交易日期", "交易时间", "记账日期", "time"],
+  amount: ["amount", "金额", "交易金额"],
+  income: ["income", "收入", "存入"],
+  expense: ["expense", "支出", "取出"],
+  direction: ["direction", "收/支", "收支"],
+  payee: ["payee", "merchant", "交易对方", "对方户名", "商户", "对方"],
+  description: ["description", "memo", "摘要", "备注", "说明", "商品"],
+};
+
+/** 在前 N 行中查找表头 */
+const HEADER_SCAN_ROWS = 40;
+
+// ============================================================================
+// CSV 解析
+// ============================================================================
+
+/**
+ * 解析 CSV 文本（支持引号、转义引号、字段内换行、BOM）
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  const source = text.replace(/^﻿/, "");
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (inQuotes) {
+      if (char === '"') {
+        if (source[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // 支付宝 / 微信的单元格常带制表符和首尾空格
+  return rows.map((cells) =>
+    cells.map((cell) => cell.replace(/\t/g, "").trim()),
+  );
+}
+
+function findColumn(header: string[], names: string[] | undefined) {
+  if (!names) return undefined;
+  const normalized = header.map((cell) => cell.toLowerCase());
+  for (const name of names) {
+    const index = normalized.indexOf(name.toLowerCase());
+    if (index >= 0) return index;
+  }
+  return undefined;
+}
+
+function resolveMapping(
+  header: string[],
+  columns: Partial<Record<CsvField, string[]>>,
+): CsvColumnMapping {
+  const mapping: CsvColumnMapping = {};
+  for (const [field, names] of Object.entries(columns)) {
+    const index = findColumn(header, names);
+    if (index !== undefined) {
+      mapping[field as CsvField] = index;
+    }
+  }
+  return mapping;
+}
+
+/**
+ * 按格式预设猜测列映射（通用格式按常见列名猜测）
+ */
+export function guessColumnMapping(
+  header: string[],
+  format: CsvFormat = "generic",
+): CsvColumnMapping {
+  return resolveMapping(
+    header,
+    format === "generic" ? GENERIC_COLUMNS : CSV_PRESETS[format].columns,
+  );
+}
+
+/**
+ * 识别账单格式与表头位置，并给出默认列映射
+ *
+ * 支付宝、微信导出文件在表头前有若干说明行，按预设列名查找表头
+ */
+export function detectCsvStatement(rows: string[][]): CsvStatement {
+  const scanned = rows.slice(0, HEADER_SCAN_ROWS);
+  for (const [format, preset] of Object.entries(CSV_PRESETS)) {
+    const headerIndex = scanned.findIndex((row) =>
+      preset.detect.every((name) => row.includes(name)),
+    );
+    if (headerIndex >= 0) {
+      return createStatement(rows, format as CsvFormat, headerIndex);
+    }
+  }
+
+  const headerIndex = Math.max(
+    0,
+    rows.findIndex((row) => row.some((cell) => cell !== "")),
+  );
+  return createStatement(rows, "generic", headerIndex);
+}
+
+/**
+ * 以指定格式和表头行构建账单
+ */
+export function createStatement(
+  rows: string[][],
+  format: CsvFormat,
+  headerIndex: number,
+): CsvStatement {
+  const header = rows[headerIndex] ?? [];
+  return {
+    format,
+    headerIndex,
+    header,
+    rows: rows.slice(headerIndex + 1),
+    mapping: guessColumnMapping(header, format),
+  };
+}
+
+// ============================================================================
+// 行解析
+// ============================================================================
+
+/**
+ * 规范化日期为 YYYY-MM-DD（支持 2024-1-2、2024/01/02 12:00、20240102、2024年1月2日）
+ */
+export function normalizeStatementDate(value: string): string | null {
+  const match =
+    value.match(/^(\d{4})[-/.年](\d{1,2})[-/.月](\d{1,2})/) ??
+    value.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!match) return null;
+  const [, year, month, day] = match;
+  const monthNum = Number(month);
+  const dayNum = Number(day);
+  if (monthNum < 1 || monthNum > 12 || dayNum < 1 || dayNum > 31) {
+    return null;
+  }
+  return `${year}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`;
+}
+
+/**
+ * 解析金额文本（去掉货币符号、千分位），无法解析时返回 null
+ */
+export function parseStatementAmount(value: string | undefined): number | null {
+  if (value === undefined) return null;
+  const cleaned = value.replace(/[^\d.\-+]/g, "");
+  if (cleaned === "" || cleaned === "-" || cleaned === "+") return null;
+  const amount = Number(cleaned);
+  return Number.isFinite(amount) ? amount : null;
+}
+
+function parseDirection(value: string | undefined): 1 | -1 | null {
+  const text = value?.trim() ?? "";
+  if (text === "支出" || text.toLowerCase() === "expense") return -1;
+  if (text === "收入" || text.toLowerCase() === "income") return 1;
+  return null;
+}
+
+/**
+ * 按列映射解析数据行
+ *
+ * 空行和列数明显不足的行（如文件末尾的汇总说明）会被忽略
+ */
+export function parseStatementRows(statement: CsvStatement): StatementRow[] {
+  const { mapping, header } = statement;
+  const minCells = Math.max(2, Math.ceil(header.length / 2));
+  const cell = (row: string[], field: CsvField) => {
+    const index = mapping[field];
+    return index === undefined ? undefined : row[index];
+  };
+
+  const result: StatementRow[] = [];
+  statement.rows.forEach((row, index) => {
+    const filled = row.filter((value) => value !== "").length;
+    if (filled < minCells) return;
+
+    const lineNumber = statement.headerIndex + index + 2;
+    const date = normalizeStatementDate(cell(row, "date") ?? "");
+    const payee = cell(row, "payee") || undefined;
+    const description = cell(row, "description") || payee || "";
+
+    let amount: number | null = null;
+    let skipped = false;
+    if (mapping.income !== undefined || mapping.expense !== undefined) {
+      const income = parseStatementAmount(cell(row, "income"));
+      const expense = parseStatementAmount(cell(row, "expense"));
+      if (income) amount = Math.abs(income);
+      else if (expense) amount = -Math.abs(expense);
+    } else {
+      const value = parseStatementAmount(cell(row, "amount"));
+      if (value !== null && mapping.direction !== undefined) {
+        // 有收/支列时，不计收支的行（如余额宝转入）不导入
+        const direction = parseDirection(cell(row, "direction"));
+        if (direction === null) {
+          skipped = true;
+        } else {
+          amount = direction * Math.abs(value);
+        }
+      } else {
+        amount = value;
+      }
+    }
+
+    result.push({
+      lineNumber,
+      date,
+      amount,
+      payee,
+      description,
+      ...(skipped ? { skipped } : {}),
+    });
+  });
+  return result;
+}
+
+// ============================================================================
+// 预览与去重
+// ============================================================================
+
+function normalizePayee(payee: string | undefined) {
+  return payee?.trim().toLowerCase() ?? "";
+}
+
+/**
+ * 生成导入预览
+ *
+ * accountId 为账单所属账户（如银行卡），counterAccountId 为对方账户；
+ * 支出记 借 对方 / 贷 账单账户，收入相反。
+ * 命中自动分类规则时替换对方账户、追加标签并规范化收款人。
+ * 按日期、金额、收款人与已有分录去重（同一笔已有分录只匹配一次）。
+ */
+export function buildImportPreview(
+  book: BookData,
+  rows: StatementRow[],
+  options: {
+    accountId: string;
+    counterAccountId: string;
+    tags?: string[];
+    rules?: CategorizationRule[];
+  },
+): ImportPreviewItem[] {
+  const accountMap = new Map(book.accounts.map((a) => [a.id, a]));
+  const account = accountMap.get(options.accountId);
+  const counter = accountMap.get(options.counterAccountId);
+  const matched = new Set<string>();
+
+  return rows.map((row): ImportPreviewItem => {
+    if (row.skipped) {
+      return { row, status: "skipped", entry: null, errors: [] };
+    }
+    const errors = validateRow(row, account, counter);
+    if (errors.length > 0 || !account || !counter) {
+      return { row, status: "invalid", entry: null, errors };
+    }
+
+    const { entry, rule } = applyRules(
+      createStatementEntry(row, account, counter, options.tags),
+      options.rules ?? [],
+      book.accounts,
+    );
+    const ruleInfo = rule ? { rule } : {};
+    const validation = validateEntry(entry);
+    if (!validation.valid) {
+      return {
+        row,
+        status: "invalid",
+        entry,
+        errors: validation.errors,
+        ...ruleInfo,
+      };
+    }
+
+    // 已有分录可能是按规则规范化过收款人后导入的
+    const payees = new Set([
+      normalizePayee(row.payee),
+      normalizePayee(entry.payee),
+    ]);
+    const amount = entry.lines[0].amount;
+    const duplicate = queryEntries(book, {
+      dateRange: { start: entry.date, end: entry.date },
+      amountRange: { min: amount, max: amount },
+    }).find(
+      (existing) =>
+        !existing.deletedAt &&
+        !matched.has(existing.id) &&
+        payees.has(normalizePayee(existing.payee)),
+    );
+    if (duplicate) {
+      matched.add(duplicate.id);
+      return {
+        row,
+        status: "duplicate",
+        entry,
+        errors: [],
+        duplicateOf: duplicate.id,
+        ...ruleInfo,
+      };
+    }
+
+    return { row, status: "new", entry, errors: [], ...ruleInfo };
+  });
+}
+
+function validateRow(
+  row: StatementRow,
+  account: AccountData | undefined,
+  counter: AccountData | undefined,
+): string[] {
+  const errors: string[] = [];
+  if (!account || !counter) {
+    errors.push("Account not found");
+  } else if (account.currency !== counter.currency) {
+    errors.push("Cross-currency entry is not supported");
+  }
+  if (!row.date) {
+    errors.push("Invalid date");
+  }
+  if (row.amount === null || row.amount === 0) {
+    errors.push("Invalid amount");
+  }
+  return errors;
+}
+
+function createStatementEntry(
+  row: StatementRow,
+  account: AccountData,
+  counter: AccountData,
+  tags?: string[],
+): JournalEntryData {
+  const amount = fromMainUnit(Math.abs(row.amount!), account.currency).amount;
+  const isExpense = row.amount! < 0;
+  return createEntry({
+    date: row.date!,
+    description: row.description || row.payee || "-",
+    payee: row.payee,
+    tags: tags && tags.length > 0 ? tags : undefined,
+    lines: [
+      {
+        accountId: isExpense ? counter.id : account.id,
+        amount,
+        type: EntryLineType.DEBIT,
+      },
+      {
+        accountId: isExpense ? account.id : counter.id,
+        amount,
+        type: EntryLineType.CREDIT,
+      },
+    ],
+  });
+}
@@ -1,19 +1,91 @@
 import { useEffect, useMemo, useState } from "react";
-import type { BookData } from "~/lib/double-entry/types";
+import type {
+  BalanceAssertion,
+  BookData,
+  Budget,
+  CategorizationRule,
+  CorporateAction,
+  EntryQuery,
+  EntryRevision,
+  JournalEntryData,
+  Reconciliation,
+  RecurringTemplate,
+} from "~/lib/double-entry/types";
+import type { RuleApplication } from "~/lib/double-entry/rules";
+import type { PlainTextFormat } from "~/lib/double-entry/plaintext";
+import type { RecurringOccurrenceRef } from "~/lib/double-entry/recurring";
+import { getEntryVersion } from "~/lib/double-entry/entry";
 import { useAuth } from "~/lib/firebase/auth-context";
 import {
   acceptBookInvite,
   createBookForUser,
-  fetchBookSnapshot,
+  createBookInvite,
+  getFirestoreRepositoryFactory,
+  getLocalRepositoryFactory,
+  isEntryConflictError,
   listInvitesForUser,
   listUserBooks,
   type BookInvite,
   type BookSummary,
-  createBookInvite,
+  type IRepositoryFactory,
 } from "~/lib/firebase/repository";
+import {
+  addCorporateActionInRepository,
+  checkBalancesInRepository,
+  closePeriodInRepository,
+  createAccountInRepository,
+  createSimpleEntryInRepository,
+  createSplitEntryInRepository,
+  deleteEntryInRepository,
+  ensureBookInRepository,
+  exportPlainTextFromRepository,
+  finishReconciliationInRepository,
+  importEntriesInRepository,
+  importPlainTextInRepository,
+  loadBookFromRepository,
+  postEditedOccurrenceInRepository,
+  postRecurringInRepository,
+  reapplyRulesInRepository,
+  reopenPeriodInRepository,
+  repairBalancesInRepository,
+  saveBudgetsInRepository,
+  restoreEntryRevisionInRepository,
+  saveBalanceAssertionsInRepository,
+  saveReconciliationsInRepository,
+  saveRecurringInRepository,
+  saveRulesInRepository,
+  setLineClearedInRepository,
+  skipRecurringInRepository,
+  updateSimpleEntryInRepository,
+  updateSplitEntryInRepository,
+  type AccountInput,
+  type SimpleEntryInput,
+  type SplitEntryInput,
+} from "./book-service";
 import { createDemoBook } from "./demo-book";
 
-export type BookSource = "cloud" | "demo" | "empty";
+/**
+ * 数据来源
+ * - cloud: Firestore 账簿
+ * - local: 未登录时的本地账簿（localStorage）
+ * - demo: 加载失败时的只读示例
+ * - empty: 没有可用账簿
+ */
+export type BookSource = "cloud" | "local" | "demo" | "empty";
+
+/**
+ * 分录写入冲突（提交时分录已被他人修改或删除）
+ */
+export type EntryConflict = {
+  action: "update" | "delete" | "restore";
+  entryId: string;
+  /** 服务端当前分录 */
+  current: JournalEntryData;
+  /** 本次提交的修改（删除/恢复时为 null） */
+  input: SimpleEntryInput | SplitEntryInput | null;
+  /** 要恢复的修订（仅 restore） */
+  revision?: EntryRevision;
+};
 
 type BookState = {
   book: BookData | null;
@@ -23,10 +95,30 @@ type BookState = {
   books: BookSummary[];
   selectedBookId: string | null;
   invites: BookInvite[];
+  conflict: EntryConflict | null;
 };
 
 const BOOK_SELECTION_KEY = "selectedBookId";
 
+/** 本地模式使用的用户和账簿 ID */
+export const LOCAL_USER_ID = "local";
+export const LOCAL_BOOK_ID = "local";
+
+function createLocalBook(): BookData {
+  return { ...createDemoBook(), id: LOCAL_BOOK_ID };
+}
+
+function toLocalSummary(book: BookData): BookSummary {
+  return {
+    id: book.id,
+    name: book.name,
+    role: "owner",
+    defaultCurrency: book.defaultCurrency,
+    joinedAt: book.createdAt,
+    updatedAt: book.updatedAt,
+  };
+}
+
 function loadStoredBookId(userId: string): string | null {
   try {
     const value = localStorage.getItem(`${BOOK_SELECTION_KEY}:${userId}`);
@@ -44,8 +136,9 @@ function storeBookId(userId: string, bookId: string) {
   }
 }
 
-export function useBookData() {
+export function useBookData(options: { factory?: IRepositoryFactory } = {}) {
   const { user, isLoading: authLoading } = useAuth();
+  const getFactory = () => options.factory ?? getLocalRepositoryFactory();
   const [state, setState] = useState<BookState>({
     book: null,
     isLoading: true,
@@ -54,6 +147,7 @@ export function useBookData() {
     books: [],
     selectedBookId: null,
     invites: [],
+    conflict: null,
   });
 
   const loadBooks = async (active: { current: boolean }) => {
@@ -66,7 +160,7 @@ export function useBookData() {
       const nextId =
         storedId && books.some((b) => b.id === storedId)
           ? storedId
-          : books[0]?.id ?? null;
+          : (books[0]?.id ?? null);
 
       if (nextId) {
         storeBookId(user.id, nextId);
@@ -110,7 +204,11 @@ export function useBookData() {
     if (!user) return;
     setState((prev) => ({ ...prev, isLoading: true, error: null }));
     try {
-      const book = await fetchBookSnapshot(user.id, bookId);
+      const book = await loadBookFromRepository(
+        getFirestoreRepositoryFactory(),
+        user.id,
+        bookId,
+      );
       if (!active.current) return;
       if (book) {
         setState((prev) => ({
@@ -141,21 +239,46 @@ export function useBookData() {
     }
   };
 
-  useEffect(() => {
-    if (authLoading) return;
-    const active = { current: true };
-
-    if (!user) {
+  const loadLocalBook = async (active: { current: boolean }) => {
+    setState((prev) => ({ ...prev, isLoading: true, error: null }));
+    try {
+      const book = await ensureBookInRepository(
+        getFactory(),
+        LOCAL_USER_ID,
+        createLocalBook,
+      );
+      if (!active.current) return;
       setState((prev) => ({
         ...prev,
-        book: createDemoBook(),
+        book,
         isLoading: false,
         error: null,
+        source: "local",
+        books: [toLocalSummary(book)],
+        selectedBookId: book.id,
+        invites: [],
+      }));
+    } catch (error) {
+      if (!active.current) return;
+      setState((prev) => ({
+        ...prev,
+        book: createDemoBook(),
+        isLoading: false,
+        error: error instanceof Error ? error.message : "Failed to load book",
         source: "demo",
         books: [],
         selectedBookId: null,
         invites: [],
       }));
+    }
+  };
+
+  useEffect(() => {
+    if (authLoading) return;
+    const active = { current: true };
+
+    if (!user) {
+      void loadLocalBook(active);
       return () => {
         active.current = false;
       };
@@ -223,20 +346,403 @@ export function useBookData() {
   };
 
   const reload = async () => {
-    if (!user || !state.selectedBookId) return;
     const active = { current: true };
+    if (state.source === "local") {
+      await loadLocalBook(active);
+      return;
+    }
+    if (!user || !state.selectedBookId) return;
     await loadBook(active, state.selectedBookId);
   };
 
+  /**
+   * 当前账簿的读写目标：本地账簿使用本地工厂，云端账簿使用 Firestore 工厂
+   */
+  const getTarget = () => {
+    if (state.source === "local") {
+      return {
+        factory: getFactory(),
+        userId: LOCAL_USER_ID,
+        bookId: LOCAL_BOOK_ID,
+      };
+    }
+    if (!user || !state.selectedBookId) {
+      throw new Error("Login required");
+    }
+    return {
+      factory: getFirestoreRepositoryFactory(),
+      userId: user.id,
+      bookId: state.selectedBookId,
+    };
+  };
+
+  const createSimpleEntry = async (input: SimpleEntryInput) => {
+    const { factory, userId, bookId } = getTarget();
+    await createSimpleEntryInRepository(factory, userId, { ...input, bookId });
+    await reload();
+  };
+
+  const createSplitEntry = async (input: SplitEntryInput) => {
+    const { factory, userId, bookId } = getTarget();
+    await createSplitEntryInRepository(factory, userId, { ...input, bookId });
+    await reload();
+  };
+
+  const importEntries = async (entries: JournalEntryData[]) => {
+    const { factory, userId, bookId } = getTarget();
+    await importEntriesInRepository(factory, userId, { bookId, entries });
+    await reload();
+  };
+
+  const exportPlainText = async (format: PlainTextFormat) => {
+    const { factory, userId, bookId } = getTarget();
+    return exportPlainTextFromRepository(factory, userId, { bookId, format });
+  };
+
+  const importPlainText = async (text: string, format: PlainTextFormat) => {
+    const { factory, userId, bookId } = getTarget();
+    await importPlainTextInRepository(factory, userId, {
+      bookId,
+      text,
+      format,
+    });
+    await reload();
+  };
+
+  const saveRules = async (rules: CategorizationRule[]) => {
+    const { factory, userId, bookId } = getTarget();
+    await saveRulesInRepository(factory, userId, { bookId, rules });
+    await reload();
+  };
+
+  const reapplyRules = async (
+    query: EntryQuery,
+  ): Promise<RuleApplication[]> => {
+    const { factory, userId, bookId } = getTarget();
+    const changes = await reapplyRulesInRepository(factory, userId, {
+      bookId,
+      query,
+    });
+    await reload();
+    return changes;
+  };
+
+  const saveRecurring = async (templates: RecurringTemplate[]) => {
+    const { factory, userId, bookId } = getTarget();
+    await saveRecurringInRepository(factory, userId, { bookId, templates });
+    await reload();
+  };
+
+  const postRecurring = async (occurrences: RecurringOccurrenceRef[]) => {
+    const { factory, userId, bookId } = getTarget();
+    await postRecurringInRepository(factory, userId, { bookId, occurrences });
+    await reload();
+  };
+
+  const skipRecurring = async (occurrence: RecurringOccurrenceRef) => {
+    const { factory, userId, bookId } = getTarget();
+    await skipRecurringInRepository(factory, userId, { bookId, occurrence });
+    await reload();
+  };
+
+  const postEditedOccurrence = async (
+    occurrence: RecurringOccurrenceRef,
+    input: SimpleEntryInput | SplitEntryInput,
+  ) => {
+    const { factory, userId, bookId } = getTarget();
+    await postEditedOccurrenceInRepository(factory, userId, {
+      bookId,
+      occurrence,
+      input,
+    });
+    await reload();
+  };
+
+  const saveBudgets = async (budgets: Budget[]) => {
+    const { factory, userId, bookId } = getTarget();
+    await saveBudgetsInRepository(factory, userId, { bookId, budgets });
+    await reload();
+  };
+
+  const closePeriod = async (date: string, description: string) => {
+    const { factory, userId, bookId } = getTarget();
+    await closePeriodInRepository(factory, userId, {
+      bookId,
+      date,
+      description,
+    });
+    await reload();
+  };
+
+  const reopenPeriod = async () => {
+    const { factory, userId, bookId } = getTarget();
+    await reopenPeriodInRepository(factory, userId, { bookId });
+    await reload();
+  };
+
+  const saveReconciliations = async (reconciliations: Reconciliation[]) => {
+    const { factory, userId, bookId } = getTarget();
+    await saveReconciliationsInRepository(factory, userId, {
+      bookId,
+      reconciliations,
+    });
+    await reload();
+  };
+
+  const setLineCleared = async (
+    entryId: string,
+    lineIndex: number,
+    cleared: boolean,
+  ) => {
+    const { factory, userId, bookId } = getTarget();
+    await setLineClearedInRepository(factory, userId, {
+      bookId,
+      entryId,
+      lineIndex,
+      cleared,
+      expectedVersion: getExpectedVersion(entryId),
+    });
+    await reload();
+  };
+
+  const finishReconciliation = async (reconciliationId: string) => {
+    const { factory, userId, bookId } = getTarget();
+    await finishReconciliationInRepository(factory, userId, {
+      bookId,
+      reconciliationId,
+    });
+    await reload();
+  };
+
+  const saveBalanceAssertions = async (
+    balanceAssertions: BalanceAssertion[],
+  ) => {
+    const { factory, userId, bookId } = getTarget();
+    await saveBalanceAssertionsInRepository(factory, userId, {
+      bookId,
+      balanceAssertions,
+    });
+    await reload();
+  };
+
+  const addCorporateAction = async (action: CorporateAction) => {
+    const { factory, userId, bookId } = getTarget();
+    await addCorporateActionInRepository(factory, userId, { bookId, action });
+    await reload();
+  };
+
+  /**
+   * 当前显示的分录版本；分录不在已加载的账簿中时抛错
+   */
+  const getExpectedVersion = (entryId: string) => {
+    const entry = state.book?.entries.find((e) => e.id === entryId);
+    if (!entry) {
+      throw new Error("Entry not found");
+    }
+    return getEntryVersion(entry);
+  };
+
+  const submitEntryUpdate = async (
+    entryId: string,
+    input: SimpleEntryInput | SplitEntryInput,
+    expectedVersion: number,
+  ) => {
+    const { factory, userId, bookId } = getTarget();
+    const params = { bookId, entryId, expectedVersion };
+    if ("lines" in input) {
+      await updateSplitEntryInRepository(factory, userId, {
+        ...input,
+        ...params,
+      });
+    } else {
+      await updateSimpleEntryInRepository(factory, userId, {
+        ...input,
+        ...params,
+      });
+    }
+  };
+
+  const submitEntryDelete = async (
+    entryId: string,
+    expectedVersion: number,
+  ) => {
+    const { factory, userId, bookId } = getTarget();
+    await deleteEntryInRepository(factory, userId, {
+      bookId,
+      entryId,
+      expectedVersion,
+    });
+  };
+
+  const submitEntryRestore = async (
+    entryId: string,
+    revisionId: string,
+    expectedVersion: number,
+  ) => {
+    const { factory, userId, bookId } = getTarget();
+    await restoreEntryRevisionInRepository(factory, userId, {
+      bookId,
+      entryId,
+      revisionId,
+      expectedVersion,
+    });
+  };
+
+  /**
+   * 版本冲突转为待处理的 conflict，其他错误继续抛出
+   */
+  const captureConflict = (
+    error: unknown,
+    conflict: Omit<EntryConflict, "current">,
+  ) => {
+    if (!isEntryConflictError(error)) throw error;
+    setState((prev) => ({
+      ...prev,
+      conflict: { ...conflict, current: error.current },
+    }));
+  };
+
+  const updateEntry = async (
+    entryId: string,
+    input: SimpleEntryInput | SplitEntryInput,
+  ) => {
+    try {
+      await submitEntryUpdate(entryId, input, getExpectedVersion(entryId));
+    } catch (error) {
+      captureConflict(error, { action: "update", entryId, input });
+      return;
+    }
+    await reload();
+  };
+
+  const deleteEntry = async (entryId: string) => {
+    try {
+      await submitEntryDelete(entryId, getExpectedVersion(entryId));
+    } catch (error) {
+      captureConflict(error, { action: "delete", entryId, input: null });
+      return;
+    }
+    await reload();
+  };
+
+  const loadEntryHistory = async (entryId: string) => {
+    const { factory, userId, bookId } = getTarget();
+    return factory.getEntryRepository().getRevisions(userId, bookId, entryId);
+  };
+
+  const restoreRevision = async (entryId: string, revision: EntryRevision) => {
+    try {
+      await submitEntryRestore(
+        entryId,
+        revision.id,
+        getExpectedVersion(entryId),
+      );
+    } catch (error) {
+      captureConflict(error, {
+        action: "restore",
+        entryId,
+        input: null,
+        revision,
+      });
+      return;
+    }
+    await reload();
+  };
+
+  /**
+   * 处理冲突：reload 放弃本地修改；overwrite 基于最新版本重新提交
+   */
+  const resolveConflict = async (resolution: "reload" | "overwrite") => {
+    const conflict = state.conflict;
+    setState((prev) => ({ ...prev, conflict: null }));
+    const canOverwrite =
+      !!conflict &&
+      (!conflict.current.deletedAt || conflict.action === "restore");
+    if (conflict && resolution === "overwrite" && canOverwrite) {
+      const version = getEntryVersion(conflict.current);
+      try {
+        if (conflict.action === "update" && conflict.input) {
+          await submitEntryUpdate(conflict.entryId, conflict.input, version);
+        } else if (conflict.action === "delete") {
+          await submitEntryDelete(conflict.entryId, version);
+        } else if (conflict.action === "restore" && conflict.revision) {
+          await submitEntryRestore(
+            conflict.entryId,
+            conflict.revision.id,
+            version,
+          );
+        }
+      } catch (error) {
+        captureConflict(error, conflict);
+        return;
+      }
+    }
+    await reload();
+  };
+
+  const createAccount = async (input: AccountInput) => {
+    const { factory, userId, bookId } = getTarget();
+    await createAccountInRepository(factory, userId, { ...input, bookId });
+    await reload();
+  };
+
+  const checkBalances = async () => {
+    const { factory, userId, bookId } = getTarget();
+    return checkBalancesInRepository(factory, userId, bookId);
+  };
+
+  const repairBalances = async () => {
+    const { factory, userId, bookId } = getTarget();
+    const result = await repairBalancesInRepository(factory, userId, bookId);
+    await reload();
+    return result;
+  };
+
   const hasBooks = useMemo(() => state.books.length > 0, [state.books.length]);
+  const canWrite =
+    state.source === "local" || (state.source === "cloud" && !!user);
+  const role =
+    state.books.find((b) => b.id === state.selectedBookId)?.role ?? null;
+  const isOwner =
+    state.source === "local" ||
+    (state.source === "cloud" && !!user && role === "owner");
 
   return {
     ...state,
     hasBooks,
+    canWrite,
+    isOwner,
     selectBook,
     createBook: createBookForCurrentUser,
     sendInvite,
     acceptInvite,
+    createSimpleEntry,
+    createSplitEntry,
+    importEntries,
+    exportPlainText,
+    importPlainText,
+    saveRules,
+    reapplyRules,
+    saveRecurring,
+    postRecurring,
+    skipRecurring,
+    postEditedOccurrence,
+    saveBudgets,
+    closePeriod,
+    reopenPeriod,
+    saveReconciliations,
+    setLineCleared,
+    finishReconciliation,
+    saveBalanceAssertions,
+    addCorporateAction,
+    updateEntry,
+    deleteEntry,
+    resolveConflict,
+    loadEntryHistory,
+    restoreRevision,
+    checkBalances,
+    repairBalances,
+    createAccount,
     reload,
   };
 }
@@ -3,14 +3,57 @@ import type {
   CurrencyCode,
   DateRange,
   BookData,
+  BudgetPeriod,
+  CashFlowActivity,
+  EntryLineData,
+  StatementNode,
 } from "~/lib/double-entry/types";
-import { AccountType } from "~/lib/double-entry/types";
+import { AccountType, EntryLineType } from "~/lib/double-entry/types";
 import {
   getEntryAmount,
   getEntryCategory,
   getEntryCurrency,
 } from "~/lib/double-entry/entry";
-import { calculatePeriodSummary } from "~/lib/double-entry/report";
+import {
+  calculatePeriodSummary,
+  generateBalanceSheet,
+  generateCashFlowStatement,
+  generateIncomeStatement,
+  getAccountActivity,
+} from "~/lib/double-entry/report";
+import { calculateBudgetStatuses } from "~/lib/double-entry/budget";
+import { isDateLocked } from "~/lib/double-entry/closing";
+import {
+  buildOccurrenceEntry,
+  getOccurrences,
+  getUpcomingOccurrences,
+} from "~/lib/double-entry/recurring";
+import { getCurrency } from "~/lib/double-entry/currency";
+import {
+  getHoldings,
+  getHoldingSales,
+  isHoldingAccount,
+  valueHoldings,
+} from "~/lib/double-entry/holdings";
+import { getLotKey } from "~/lib/double-entry/cost-basis";
+import {
+  buildRealizedGainsReport,
+  type HoldingPeriod,
+} from "~/lib/double-entry/realized-gains";
+import {
+  calculateBenchmarkReturn,
+  calculatePerformance,
+  getFirstEntryDate,
+  getInvestmentAccountIds,
+  getPerformanceDateRange,
+  type PerformanceRange,
+  type PricePoint,
+} from "~/lib/double-entry/performance";
+import {
+  buildDividendCalendar,
+  calculateYieldOnCost,
+  getDividendPayments,
+} from "~/lib/double-entry/dividends";
 import { createMoney, formatMoney } from "~/lib/double-entry/money";
 
 export type CurrencyAmount = {
@@ -50,6 +93,82 @@ export type EntryRow = {
   formattedAmount: string;
   accounts: string[];
   lineCount: number;
+  /** 位于已结账期间，不能修改或删除 */
+  locked: boolean;
+};
+
+export type UpcomingRow = {
+  templateId: string;
+  name: string;
+  date: string;
+  /** 已到期（不晚于今天） */
+  due: boolean;
+  /** 到今天为止仍未处理的发生日期 */
+  dueDates: string[];
+  description: string;
+  category: EntryRow["category"];
+  formattedAmount: string;
+};
+
+export type BudgetRow = {
+  id: string;
+  name: string;
+  period: BudgetPeriod;
+  range: DateRange;
+  /** 统计范围：账户路径和标签 */
+  scope: string[];
+  /** 已用百分比（超支时大于 100） */
+  percent: number;
+  spent: string;
+  available: string;
+  remaining: string;
+  forecast: string;
+  /** 结转额度，没有结转时为空 */
+  carried: string | null;
+  overspent: boolean;
+  forecastOverspent: boolean;
+};
+
+export type StatementRow = {
+  id: string;
+  name: string;
+  path: string;
+  level: number;
+  hasChildren: boolean;
+  /** 各列金额（本位币） */
+  amounts: string[];
+  /** 末列相对首列的变化，只有多列时存在 */
+  delta?: string;
+  deltaAmount?: number;
+};
+
+export type StatementSection = {
+  type: AccountType;
+  rows: StatementRow[];
+  totals: string[];
+};
+
+export type ActivityRow = {
+  id: string;
+  date: string;
+  description: string;
+  payee?: string;
+  amount: number;
+  formattedAmount: string;
+};
+
+export type CashFlowRow = {
+  id: string;
+  path: string;
+  /** 流入为正 */
+  amount: number;
+  formattedAmount: string;
+};
+
+export type CashFlowSectionView = {
+  activity: CashFlowActivity;
+  rows: CashFlowRow[];
+  total: string;
 };
 
 export type PeriodSummary = {
@@ -58,6 +177,110 @@ export type PeriodSummary = {
   netChange: CurrencyAmount;
 };
 
+export type HoldingLotRow = {
+  key: string;
+  entryId: string;
+  date: string;
+  quantity: number;
+  cost: string;
+  marketValue: string | null;
+  unrealized: string | null;
+  /** 浮动盈亏为正（无行情时为 null） */
+  isGain: boolean | null;
+};
+
+export type RealizedGainRowView = {
+  key: string;
+  symbol: string;
+  period: HoldingPeriod;
+  quantity: number;
+  proceeds: string;
+  cost: string;
+  gain: string;
+  isLoss: boolean;
+};
+
+export type RealizedGainsView = {
+  rows: RealizedGainRowView[];
+  totals: Array<{
+    currency: CurrencyCode;
+    proceeds: string;
+    cost: string;
+    gain: string;
+    isLoss: boolean;
+  }>;
+  /** 有卖出记录的年份（倒序） */
+  years: number[];
+};
+
+/** 可计算业绩的投资账户（子树中含持仓账户） */
+export type PerformanceRootOption = {
+  id: string;
+  path: string;
+  /** 子树中持仓账户的品种代码 */
+  symbols: string[];
+};
+
+export type PerformanceView = {
+  range: DateRange;
+  startValue: string;
+  endValue: string;
+  netFlows: string;
+  gain: string;
+  isLoss: boolean;
+  /** 收益率（小数），无法计算时为 null */
+  twr: number | null;
+  xirr: number | null;
+  benchmark: number | null;
+  /** TWR 超出基准的部分 */
+  excess: number | null;
+};
+
+export type DividendCalendarRowView = {
+  accountId: string;
+  symbol: string;
+  /** 1-12 月金额，没有股息的月份为 null */
+  months: Array<string | null>;
+  projected: boolean[];
+  total: string;
+};
+
+export type DividendCalendarView = {
+  year: number;
+  rows: DividendCalendarRowView[];
+  /** 有股息记录的年份（倒序，含今年） */
+  years: number[];
+};
+
+export type YieldOnCostRow = {
+  accountId: string;
+  symbol: string;
+  quantity: number;
+  cost: string;
+  trailingDividends: string;
+  /** 百分比，无法计算时为 null */
+  trailingYield: number | null;
+  forwardYield: number | null;
+};
+
+export type HoldingRow = {
+  accountId: string;
+  path: string;
+  symbol: string;
+  currency: CurrencyCode;
+  quantity: number;
+  cost: string;
+  /** 每股成本 */
+  averageCost: string | null;
+  price: string | null;
+  marketValue: string | null;
+  unrealized: string | null;
+  /** 浮动盈亏百分比（成本为 0 或无行情时为 null） */
+  unrealizedPercent: number | null;
+  isGain: boolean | null;
+  lots: HoldingLotRow[];
+};
+
 function formatAmount(amount: number, currency: CurrencyCode): string {
   return formatMoney(createMoney(amount, currency));
 }
@@ -145,7 +368,11 @@ export function buildEntryRows(book: BookData): EntryRow[] {
     .slice()
     .sort((a, b) => b.date.localeCompare(a.date))
     .map((entry) => {
-      const currency = getEntryCurrency(entry, accountMap);
+      const currency = getEntryCurrency(
+        entry,
+        accountMap,
+        book.defaultCurrency,
+      );
       const amount = getEntryAmount(entry);
       const category = getEntryCategory(entry, accountMap);
       const formatted = formatSignedAmount(amount, currency, category);
@@ -168,10 +395,22 @@ export function buildEntryRows(book: BookData): EntryRow[] {
         formattedAmount: formatted,
         accounts: accountNames,
         lineCount: entry.lines.length,
+        locked: isDateLocked(book, entry.date),
       };
     });
 }
 
+export function formatEntryLine(
+  line: EntryLineData,
+  accountMap: Map<string, AccountData>,
+  labels: { debit: string; credit: string },
+): string {
+  const account = accountMap.get(line.accountId);
+  const side = line.type === EntryLineType.DEBIT ? labels.debit : labels.credit;
+  const amount = formatAmount(line.amount, account?.currency ?? "CNY");
+  return `${side} ${account?.path ?? line.accountId} ${amount}`;
+}
+
 export function buildPeriodSummary(
   book: BookData,
   dateRange: DateRange,
@@ -213,3 +452,419 @@ function formatSignedAmount(
   if (category === "income") return `+${formatted}`;
   return formatted;
 }
+
+/**
+ * 即将发生的定期交易（每个模板只列出下一次发生，包含已到期未处理的）
+ */
+export function buildUpcomingRows(
+  book: BookData,
+  now: Date = new Date(),
+  days = 30,
+): UpcomingRow[] {
+  const today = now.toISOString().split("T")[0];
+  const horizon = new Date(now);
+  horizon.setDate(horizon.getDate() + days);
+  const until = horizon.toISOString().split("T")[0];
+  const accountMap = new Map(book.accounts.map((a) => [a.id, a]));
+  return getUpcomingOccurrences(book.recurring ?? [], until).map(
+    ({ template, date }) => {
+      const entry = buildOccurrenceEntry(template, date);
+      const currency = getEntryCurrency(
+        entry,
+        accountMap,
+        book.defaultCurrency,
+      );
+      const category = getEntryCategory(entry, accountMap);
+      return {
+        templateId: template.id,
+        name: template.name,
+        date,
+        due: date <= today,
+        dueDates: getOccurrences(template, today),
+        description: template.description,
+        category,
+        formattedAmount: formatSignedAmount(
+          getEntryAmount(entry),
+          currency,
+          category,
+        ),
+      };
+    },
+  );
+}
+
+/**
+ * 预算执行情况（当前周期）
+ */
+export function buildBudgetRows(
+  book: BookData,
+  now: Date = new Date(),
+): BudgetRow[] {
+  const currency = book.defaultCurrency;
+  const accountMap = new Map(book.accounts.map((a) => [a.id, a]));
+  const asOf = now.toISOString().split("T")[0];
+  return calculateBudgetStatuses(book, asOf).map((status) => {
+    const { budget } = status;
+    return {
+      id: budget.id,
+      name: budget.name,
+      period: budget.period,
+      range: status.range,
+      scope: [
+        ...(budget.accountIds ?? []).map(
+          (id) => accountMap.get(id)?.path ?? id,
+        ),
+        ...(budget.tags ?? []).map((tag) => `#${tag}`),
+      ],
+      percent: Number.isFinite(status.progress)
+        ? Math.round(status.progress * 100)
+        : 100,
+      spent: formatAmount(status.spent, currency),
+      available: formatAmount(status.available, currency),
+      // 超支时为超出金额（配合 overspent 展示）
+      remaining: formatAmount(Math.abs(status.remaining), currency),
+      forecast: formatAmount(status.forecast, currency),
+      carried:
+        status.carried > 0 ? formatAmount(status.carried, currency) : null,
+      overspent: status.overspent,
+      forecastOverspent: status.forecastOverspent,
+    };
+  });
+}
+
+// 展开账户树为带层级的行，省略各列金额都为 0 的非根账户
+function flattenStatement(
+  nodes: StatementNode[],
+  currency: CurrencyCode,
+  level = 0,
+): StatementRow[] {
+  return nodes.flatMap((node) => {
+    if (level > 0 && node.amounts.every((amount) => amount === 0)) {
+      return [];
+    }
+    const { account, amounts } = node;
+    const deltaAmount =
+      amounts.length > 1 ? amounts[amounts.length - 1] - amounts[0] : undefined;
+    return [
+      {
+        id: account.id,
+        name: account.name,
+        path: account.path,
+        level,
+        hasChildren: node.children.length > 0,
+        amounts: amounts.map((amount) => formatAmount(amount, currency)),
+        delta:
+          deltaAmount === undefined
+            ? undefined
+            : formatAmount(deltaAmount, currency),
+        deltaAmount,
+      },
+      ...flattenStatement(node.children, currency, level + 1),
+    ];
+  });
+}
+
+/**
+ * 利润表视图
+ */
+export function buildIncomeStatementView(book: BookData, range: DateRange) {
+  const statement = generateIncomeStatement(book, range);
+  const currency = statement.currency;
+  return {
+    sections: [
+      {
+        type: AccountType.INCOME,
+        rows: flattenStatement(statement.income, currency),
+        totals: [formatAmount(statement.totalIncome, currency)],
+      },
+      {
+        type: AccountType.EXPENSES,
+        rows: flattenStatement(statement.expenses, currency),
+        totals: [formatAmount(statement.totalExpenses, currency)],
+      },
+    ] satisfies StatementSection[],
+    netIncome: formatAmount(statement.netIncome, currency),
+    isLoss: statement.netIncome < 0,
+  };
+}
+
+/**
+ * 比较资产负债表视图（两个日期并列，附变化）
+ */
+export function buildBalanceSheetView(book: BookData, dates: [string, string]) {
+  const sheet = generateBalanceSheet(book, dates);
+  const currency = sheet.currency;
+  const format = (amounts: number[]) =>
+    amounts.map((amount) => formatAmount(amount, currency));
+  const delta = (amounts: number[]) =>
+    formatAmount(amounts[1] - amounts[0], currency);
+  return {
+    sections: [
+      {
+        type: AccountType.ASSETS,
+        rows: flattenStatement(sheet.assets, currency),
+        totals: format(sheet.totalAssets),
+      },
+      {
+        type: AccountType.LIABILITIES,
+        rows: flattenStatement(sheet.liabilities, currency),
+        totals: format(sheet.totalLiabilities),
+      },
+      {
+        type: AccountType.EQUITY,
+        rows: flattenStatement(sheet.equity, currency),
+        totals: format(sheet.totalEquity),
+      },
+    ] satisfies StatementSection[],
+    totalDeltas: {
+      [AccountType.ASSETS]: delta(sheet.totalAssets),
+      [AccountType.LIABILITIES]: delta(sheet.totalLiabilities),
+      [AccountType.EQUITY]: delta(sheet.totalEquity),
+    } as Partial<Record<AccountType, string>>,
+    retainedEarnings: format(sheet.retainedEarnings),
+    retainedEarningsDelta: delta(sheet.retainedEarnings),
+  };
+}
+
+/**
+ * 现金流量表视图
+ */
+export function buildCashFlowView(book: BookData, range: DateRange) {
+  const statement = generateCashFlowStatement(book, range);
+  const currency = statement.currency;
+  const sections: CashFlowSectionView[] = statement.sections.map((section) => ({
+    activity: section.activity,
+    rows: section.items.map((item) => ({
+      id: item.account.id,
+      path: item.account.path,
+      amount: item.amount,
+      formattedAmount: formatAmount(item.amount, currency),
+    })),
+    total: formatAmount(section.total, currency),
+  }));
+  return {
+    sections,
+    netChange: formatAmount(statement.netChange, currency),
+    openingCash: formatAmount(statement.openingCash, currency),
+    closingCash: formatAmount(statement.closingCash, currency),
+    exchangeEffect:
+      statement.exchangeEffect !== 0
+        ? formatAmount(statement.exchangeEffect, currency)
+        : null,
+  };
+}
+
+/**
+ * 报表下钻：账户（含子账户）在时间段内的分录
+ */
+export function buildActivityRows(
+  book: BookData,
+  accountId: string,
+  range: DateRange,
+): ActivityRow[] {
+  return getAccountActivity(book, accountId, range).map(
+    ({ entry, amount }) => ({
+      id: entry.id,
+      date: entry.date,
+      description: entry.description,
+      payee: entry.payee,
+      amount,
+      formattedAmount: formatAmount(amount, book.defaultCurrency),
+    }),
+  );
+}
+
+/**
+ * 持仓按市价估值（prices 为每股价格，主单位），只保留有持仓的账户
+ */
+export function buildHoldingRows(
+  book: BookData,
+  prices: Record<string, number | undefined>,
+): HoldingRow[] {
+  const holdings = getHoldings(book).filter((h) => h.quantity > 0);
+  return valueHoldings(holdings, prices).map((valuation) => {
+    const { holding } = valuation;
+    const { currency } = holding.account;
+    const format = (amount: number | null) =>
+      amount === null ? null : formatAmount(amount, currency);
+    const valued = new Map(valuation.lots.map((item) => [item.lot, item]));
+    return {
+      accountId: holding.account.id,
+      path: holding.account.path,
+      symbol: holding.symbol,
+      currency,
+      quantity: holding.quantity,
+      cost: formatAmount(holding.cost, currency),
+      averageCost: formatAmount(
+        Math.round(holding.cost / holding.quantity),
+        currency,
+      ),
+      price:
+        valuation.price === null
+          ? null
+          : `${getCurrency(currency).symbol}${valuation.price.toFixed(2)}`,
+      marketValue: format(valuation.marketValue),
+      unrealized: format(valuation.unrealized),
+      unrealizedPercent:
+        valuation.unrealized === null || holding.cost === 0
+          ? null
+          : (valuation.unrealized / holding.cost) * 100,
+      isGain: valuation.unrealized === null ? null : valuation.unrealized >= 0,
+      lots: holding.lots.map((lot) => {
+        const item = valued.get(lot);
+        return {
+          key: getLotKey(lot),
+          entryId: lot.entryId,
+          date: lot.date,
+          quantity: lot.quantity,
+          cost: formatAmount(lot.cost, currency),
+          marketValue: format(item?.marketValue ?? null),
+          unrealized: format(item?.unrealized ?? null),
+          isGain: item ? item.unrealized >= 0 : null,
+        };
+      }),
+    };
+  });
+}
+
+/**
+ * 年度已实现盈亏（按品种、持有期）
+ */
+export function buildRealizedGainsView(
+  book: BookData,
+  year: number,
+): RealizedGainsView {
+  const report = buildRealizedGainsReport(book, year);
+  const years = new Set(
+    getHoldingSales(book).map((sale) => Number(sale.entry.date.slice(0, 4))),
+  );
+  return {
+    rows: report.rows.map((row) => ({
+      key: `${row.symbol}:${row.currency}:${row.period}`,
+      symbol: row.symbol,
+      period: row.period,
+      quantity: row.quantity,
+      proceeds: formatAmount(row.proceeds, row.currency),
+      cost: formatAmount(row.cost, row.currency),
+      gain: formatAmount(row.gain, row.currency),
+      isLoss: row.gain < 0,
+    })),
+    totals: report.totals.map((total) => ({
+      currency: total.currency,
+      proceeds: formatAmount(total.proceeds, total.currency),
+      cost: formatAmount(total.cost, total.currency),
+      gain: formatAmount(total.gain, total.currency),
+      isLoss: total.gain < 0,
+    })),
+    years: [...years].sort((a, b) => b - a),
+  };
+}
+
+export function buildPerformanceRootOptions(
+  book: BookData,
+): PerformanceRootOption[] {
+  const holdings = book.accounts.filter(isHoldingAccount);
+  return book.accounts
+    .filter((account) => account.type === AccountType.ASSETS)
+    .flatMap((account) => {
+      const symbols = holdings
+        .filter(
+          (holding) =>
+            holding.id === account.id ||
+            holding.path.startsWith(account.path + ":"),
+        )
+        .map((holding) => holding.commodity!);
+      if (symbols.length === 0) return [];
+      return [
+        {
+          id: account.id,
+          path: account.path,
+          symbols: [...new Set(symbols)].sort(),
+        },
+      ];
+    })
+    .sort((a, b) => a.path.localeCompare(b.path));
+}
+
+export function buildPerformanceView(
+  book: BookData,
+  rootAccountId: string,
+  range: PerformanceRange,
+  today: string,
+  prices: Record<string, PricePoint[]>,
+  benchmarkSymbol: string,
+): PerformanceView | null {
+  const root = book.accounts.find((a) => a.id === rootAccountId);
+  if (!root) return null;
+  const dateRange = getPerformanceDateRange(
+    range,
+    today,
+    getFirstEntryDate(book, getInvestmentAccountIds(book, rootAccountId)),
+  );
+  const result = calculatePerformance(book, rootAccountId, dateRange, prices);
+  const benchmarkPrices = prices[benchmarkSymbol];
+  const benchmark = benchmarkPrices
+    ? calculateBenchmarkReturn(benchmarkPrices, dateRange)
+    : null;
+  return {
+    range: dateRange,
+    startValue: formatAmount(result.startValue, root.currency),
+    endValue: formatAmount(result.endValue, root.currency),
+    netFlows: formatAmount(result.netFlows, root.currency),
+    gain: formatAmount(result.gain, root.currency),
+    isLoss: result.gain < 0,
+    twr: result.twr,
+    xirr: result.xirr,
+    benchmark,
+    excess:
+      result.twr !== null && benchmark !== null ? result.twr - benchmark : null,
+  };
+}
+
+export function buildDividendCalendarView(
+  book: BookData,
+  year: number,
+  today: string,
+): DividendCalendarView {
+  const calendar = buildDividendCalendar(book, year, today);
+  const years = new Set([
+    Number(today.slice(0, 4)),
+    ...getDividendPayments(book).map((payment) =>
+      Number(payment.date.slice(0, 4)),
+    ),
+  ]);
+  return {
+    year,
+    rows: calendar.rows.map((row) => ({
+      accountId: row.accountId,
+      symbol: row.symbol,
+      months: row.months.map((amount) =>
+        amount === 0 ? null : formatAmount(amount, row.currency),
+      ),
+      projected: row.projected,
+      total: formatAmount(row.total, row.currency),
+    })),
+    years: [...years].sort((a, b) => b - a),
+  };
+}
+
+/**
+ * 成本收益率，quotes 来自 /api/stock-detail 的 price 和 dividend
+ */
+export function buildYieldOnCostRows(
+  book: BookData,
+  today: string,
+  quotes: Record<string, { price?: number; dividendYield?: number }>,
+): YieldOnCostRow[] {
+  const percent = (value: number | null) =>
+    value === null ? null : value * 100;
+  return calculateYieldOnCost(book, today, quotes).map((item) => ({
+    accountId: item.accountId,
+    symbol: item.symbol,
+    quantity: item.quantity,
+    cost: formatAmount(item.cost, item.currency),
+    trailingDividends: formatAmount(item.trailingDividends, item.currency),
+    trailingYield: percent(item.trailingYield),
+    forwardYield: percent(item.forwardYield),
+  }));
+}
@@ -0,0 +1,239 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  checkAlertCondition,
+  countActiveAlerts,
+  evaluateAlerts,
+  MAX_ALERT_HISTORY,
+  normalizeAlertsData,
+} from "../evaluate";
+import type { MarketQuote } from "~/lib/market-data/types";
+import type {
+  AlertCondition,
+  AlertNotification,
+  AlertsData,
+  PriceAlert,
+} from "~/lib/storage/types";
+
+const NOW = new Date("2026-10-13T15:00:00.000Z");
+
+function createAlert(
+  condition: AlertCondition,
+  overrides: Partial<PriceAlert> = {},
+): PriceAlert {
+  return {
+    id: `alert-${condition.type}`,
+    symbol: "AAPL",
+    condition,
+    mode: "once",
+    enabled: true,
+    snoozedUntil: null,
+    conditionMet: false,
+    lastTriggeredAt: null,
+    createdAt: "2026-10-01T00:00:00.000Z",
+    ...overrides,
+  };
+}
+
+function quotesOf(quote: Partial<MarketQuote>): Map<string, MarketQuote> {
+  return new Map([["AAPL", { symbol: "AAPL", ...quote }]]);
+}
+
+describe("alert conditions", () => {
+  const quote: MarketQuote = {
+    symbol: "AAPL",
+    price: 250,
+    changePercent: -3.2,
+    fiftyTwoWeekHigh: 250,
+    fiftyTwoWeekLow: 164,
+    volume: 90_000_000,
+    avgVolume: 45_000_000,
+  };
+
+  it("checks each condition type", () => {
+    expect(
+      checkAlertCondition({ type: "price_above", price: 240 }, quote),
+    ).toEqual({ met: true, value: 250 });
+    expect(
+      checkAlertCondition({ type: "price_below", price: 240 }, quote).met,
+    ).toBe(false);
+    // 负数阈值表示跌幅
+    expect(
+      checkAlertCondition({ type: "change_percent", percent: -3 }, quote).met,
+    ).toBe(true);
+    expect(
+      checkAlertCondition({ type: "change_percent", percent: 3 }, quote).met,
+    ).toBe(false);
+    expect(checkAlertCondition({ type: "high_52w" }, quote).met).toBe(true);
+    expect(checkAlertCondition({ type: "low_52w" }, quote).met).toBe(false);
+    expect(
+      checkAlertCondition({ type: "volume_spike", multiple: 2 }, quote),
+    ).toEqual({ met: true, value: 2 });
+  });
+
+  it("returns null when the quote lacks the fields", () => {
+    expect(
+      checkAlertCondition({ type: "high_52w" }, { symbol: "AAPL", price: 1 })
+        .met,
+    ).toBeNull();
+    expect(
+      checkAlertCondition(
+        { type: "volume_spike", multiple: 2 },
+        { symbol: "AAPL", volume: 100, avgVolume: 0 },
+      ).met,
+    ).toBeNull();
+  });
+});
+
+describe("evaluate alerts", () => {
+  it("triggers once alerts and disables them", () => {
+    const data: AlertsData = {
+      alerts: [createAlert({ type: "price_above", price: 240 })],
+      notifications: [],
+    };
+    const result = evaluateAlerts(data, quotesOf({ price: 245 }), NOW);
+
+    expect(result.changed).toBe(true);
+    expect(result.triggered).toEqual([
+      {
+        id: `alert-price_above-${NOW.getTime()}`,
+        alertId: "alert-price_above",
+        symbol: "AAPL",
+        condition: { type: "price_above", price: 240 },
+        price: 245,
+        value: 245,
+        triggeredAt: NOW.toISOString(),
+        read: false,
+      },
+    ]);
+    expect(result.data.alerts[0]).toMatchObject({
+      enabled: false,
+      conditionMet: true,
+      lastTriggeredAt: NOW.toISOString(),
+    });
+    expect(result.data.notifications).toEqual(result.triggered);
+    expect(countActiveAlerts(result.data)).toBe(0);
+  });
+
+  it("re-arms repeating alerts after the condition resets", () => {
+    let data: AlertsData = {
+      alerts: [
+        createAlert({ type: "price_below", price: 100 }, { mode: "repeat" }),
+      ],
+      notifications: [],
+    };
+    const prices = [99, 98, 101, 97];
+    const triggered = prices.map((price, i) => {
+      const result = evaluateAlerts(
+        data,
+        quotesOf({ price }),
+        new Date(NOW.getTime() + i * 60_000),
+      );
+      data = result.data;
+      return result.triggered.length;
+    });
+
+    // 持续满足时不重复触发，恢复后再次满足才触发
+    expect(triggered).toEqual([1, 0, 0, 1]);
+    expect(data.notifications).toHaveLength(2);
+    expect(data.alerts[0].enabled).toBe(true);
+  });
+
+  it("skips disabled and snoozed alerts", () => {
+    const data: AlertsData = {
+      alerts: [
+        createAlert({ type: "high_52w" }, { enabled: false }),
+        createAlert(
+          { type: "price_above", price: 1 },
+          { snoozedUntil: "2026-10-13T16:00:00.000Z" },
+        ),
+      ],
+      notifications: [],
+    };
+    const quotes = quotesOf({ price: 300, fiftyTwoWeekHigh: 300 });
+    const result = evaluateAlerts(data, quotes, NOW);
+    expect(result.changed).toBe(false);
+    expect(result.data).toBe(data);
+
+    // 暂停结束后恢复检查
+    const later = evaluateAlerts(
+      data,
+      quotes,
+      new Date("2026-10-13T16:00:00.000Z"),
+    );
+    expect(later.triggered.map((n) => n.alertId)).toEqual([
+      "alert-price_above",
+    ]);
+  });
+
+  it("caps the notification history", () => {
+    const old: AlertNotification[] = Array.from(
+      { length: MAX_ALERT_HISTORY },
+      (_, i) => ({
+        id: `old-${i}`,
+        alertId: "old",
+        symbol: "AAPL",
+        condition: { type: "low_52w" },
+        price: 1,
+        value: 1,
+        triggeredAt: "2026-01-01T00:00:00.000Z",
+        read: true,
+      }),
+    );
+    const result = evaluateAlerts(
+      {
+        alerts: [createAlert({ type: "change_percent", percent: 2 })],
+        notifications: old,
+      },
+      quotesOf({ changePercent: 2.5 }),
+      NOW,
+    );
+    expect(result.data.notifications).toHaveLength(MAX_ALERT_HISTORY);
+    expect(result.data.notifications[0].alertId).toBe("alert-change_percent");
+  });
+});
+
+describe("normalize alerts data", () => {
+  it("drops malformed alerts and notifications", () => {
+    const valid = createAlert({ type: "price_above", price: 150 });
+    const data = normalizeAlertsData({
+      alerts: [
+        valid,
+        createAlert({ type: "price_below" } as unknown as AlertCondition),
+        createAlert({ type: "volume_spike", multiple: -1 }),
+        createAlert({ type: "unknown" } as unknown as AlertCondition),
+        { ...createAlert({ type: "high_52w" }), symbol: "" },
+        { ...createAlert({ type: "low_52w" }), mode: "always" },
+        "AAPL",
+        null,
+      ],
+      notifications: [
+        {
+          id: "n1",
+          alertId: valid.id,
+          symbol: "AAPL",
+          condition: valid.condition,
+          price: 151,
+          value: 151,
+          triggeredAt: NOW.toISOString(),
+          read: false,
+        },
+        { id: "n2", alertId: valid.id, symbol: "AAPL", condition: {} },
+      ],
+    });
+    expect(data.alerts).toEqual([valid]);
+    expect(data.notifications.map((n) => n.id)).toEqual(["n1"]);
+  });
+
+  it("defaults optional fields and missing lists", () => {
+    const { snoozedUntil, conditionMet, lastTriggeredAt, ...partial } =
+      createAlert({ type: "change_percent", percent: -3 });
+    expect(normalizeAlertsData({ alerts: [partial] }).alerts).toEqual([
+      createAlert({ type: "change_percent", percent: -3 }),
+    ]);
+    expect(normalizeAlertsData({ alerts: "bad" })).toEqual({
+      alerts: [],
+      notifications: [],
+    });
+  });
+});
@@ -0,0 +1,270 @@
+/**
+ * 价格提醒检查
+ *
+ * 条件按边沿触发：只有条件从不满足变为满足时才产生触发记录。once 提醒
+ * 触发后停用，repeat 提醒在条件不再满足后重新生效。暂停中的提醒不检查。
+ */
+
+import type { MarketQuote } from "~/lib/market-data/types";
+import type {
+  AlertCondition,
+  AlertNotification,
+  AlertsData,
+  PriceAlert,
+} from "~/lib/storage/types";
+
+/** 保留的触发记录条数 */
+export const MAX_ALERT_HISTORY = 100;
+
+/**
+ * 条件检查结果；行情缺少所需字段时 met 为 null
+ */
+export interface ConditionCheck {
+  met: boolean | null;
+  /** 与条件对应的当前值：涨跌幅、成交量倍数等 */
+  value: number | null;
+}
+
+/**
+ * 检查单个条件
+ */
+export function checkAlertCondition(
+  condition: AlertCondition,
+  quote: MarketQuote,
+): ConditionCheck {
+  const { price } = quote;
+  switch (condition.type) {
+    case "price_above":
+      if (price === undefined) return { met: null, value: null };
+      return { met: price >= condition.price, value: price };
+    case "price_below":
+      if (price === undefined) return { met: null, value: null };
+      return { met: price <= condition.price, value: price };
+    case "change_percent": {
+      const percent = quote.changePercent;
+      if (percent === undefined) return { met: null, value: null };
+      const met =
+        condition.percent >= 0
+          ? percent >= condition.percent
+          : percent <= condition.percent;
+      return { met, value: percent };
+    }
+    case "high_52w":
+      if (price === undefined || quote.fiftyTwoWeekHigh === undefined) {
+        return { met: null, value: null };
+      }
+      return {
+        met: price >= quote.fiftyTwoWeekHigh,
+        value: quote.fiftyTwoWeekHigh,
+      };
+    case "low_52w":
+      if (price === undefined || quote.fiftyTwoWeekLow === undefined) {
+        return { met: null, value: null };
+      }
+      return {
+        met: price <= quote.fiftyTwoWeekLow,
+        value: quote.fiftyTwoWeekLow,
+      };
+    case "volume_spike": {
+      const { volume, avgVolume } = quote;
+      if (volume === undefined || !avgVolume) return { met: null, value: null };
+      const ratio = volume / avgVolume;
+      return { met: ratio >= condition.multiple, value: ratio };
+    }
+  }
+}
+
+/**
+ * 提醒当前是否需要检查
+ */
+export function isAlertActive(alert: PriceAlert, now: Date): boolean {
+  if (!alert.enabled) return false;
+  return !alert.snoozedUntil || Date.parse(alert.snoozedUntil) <= now.getTime();
+}
+
+// ============================================================================
+// 文档校验
+// ============================================================================
+
+type UnknownRecord = Record<string, unknown>;
+
+function isRecord(value: unknown): value is UnknownRecord {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.length > 0;
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function toNullableString(value: unknown): string | null {
+  return typeof value === "string" ? value : null;
+}
+
+function toNullableNumber(value: unknown): number | null {
+  return isFiniteNumber(value) ? value : null;
+}
+
+/**
+ * 校验提醒条件；类型未知或缺少所需数值时返回 null
+ */
+function normalizeAlertCondition(value: unknown): AlertCondition | null {
+  if (!isRecord(value)) return null;
+  switch (value.type) {
+    case "price_above":
+    case "price_below":
+      return isFiniteNumber(value.price) && value.price > 0
+        ? { type: value.type, price: value.price }
+        : null;
+    case "change_percent":
+      return isFiniteNumber(value.percent)
+        ? { type: value.type, percent: value.percent }
+        : null;
+    case "high_52w":
+    case "low_52w":
+      return { type: value.type };
+    case "volume_spike":
+      return isFiniteNumber(value.multiple) && value.multiple > 0
+        ? { type: value.type, multiple: value.multiple }
+        : null;
+    default:
+      return null;
+  }
+}
+
+function normalizeAlert(value: unknown): PriceAlert | null {
+  if (!isRecord(value)) return null;
+  const condition = normalizeAlertCondition(value.condition);
+  if (
+    !condition ||
+    !isNonEmptyString(value.id) ||
+    !isNonEmptyString(value.symbol) ||
+    (value.mode !== "once" && value.mode !== "repeat") ||
+    typeof value.enabled !== "boolean"
+  ) {
+    return null;
+  }
+  return {
+    id: value.id,
+    symbol: value.symbol,
+    condition,
+    mode: value.mode,
+    enabled: value.enabled,
+    snoozedUntil: toNullableString(value.snoozedUntil),
+    conditionMet: value.conditionMet === true,
+    lastTriggeredAt: toNullableString(value.lastTriggeredAt),
+    createdAt: typeof value.createdAt === "string" ? value.createdAt : "",
+  };
+}
+
+function normalizeNotification(value: unknown): AlertNotification | null {
+  if (!isRecord(value)) return null;
+  const condition = normalizeAlertCondition(value.condition);
+  if (
+    !condition ||
+    !isNonEmptyString(value.id) ||
+    !isNonEmptyString(value.alertId) ||
+    !isNonEmptyString(value.symbol) ||
+    !isNonEmptyString(value.triggeredAt)
+  ) {
+    return null;
+  }
+  return {
+    id: value.id,
+    alertId: value.alertId,
+    symbol: value.symbol,
+    condition,
+    price: toNullableNumber(value.price),
+    value: toNullableNumber(value.value),
+    triggeredAt: value.triggeredAt,
+    read: value.read === true,
+  };
+}
+
+function normalizeList<T>(
+  value: unknown,
+  normalize: (item: unknown) => T | null,
+): T[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((item) => normalize(item) ?? []);
+}
+
+/**
+ * 文档数据转换为 AlertsData：逐条校验，丢弃格式不正确的提醒和触发记录
+ */
+export function normalizeAlertsData(data: UnknownRecord): AlertsData {
+  return {
+    alerts: normalizeList(data.alerts, normalizeAlert),
+    notifications: normalizeList(
+      data.notifications,
+      normalizeNotification,
+    ).slice(0, MAX_ALERT_HISTORY),
+  };
+}
+
+/**
+ * 需要检查的提醒数量，保存时写入文档供服务端筛选
+ */
+export function countActiveAlerts(data: AlertsData): number {
+  return data.alerts.filter((alert) => alert.enabled).length;
+}
+
+/**
+ * 用行情检查全部提醒
+ *
+ * quotes 以大写代码为键。changed 表示提醒状态或触发记录有变化，需要保存
+ */
+export function evaluateAlerts(
+  data: AlertsData,
+  quotes: Map<string, MarketQuote>,
+  now: Date,
+): { data: AlertsData; triggered: AlertNotification[]; changed: boolean } {
+  const triggeredAt = now.toISOString();
+  const triggered: AlertNotification[] = [];
+  let changed = false;
+
+  const alerts = data.alerts.map((alert): PriceAlert => {
+    if (!isAlertActive(alert, now)) return alert;
+    const quote = quotes.get(alert.symbol.toUpperCase());
+    if (!quote) return alert;
+    const { met, value } = checkAlertCondition(alert.condition, quote);
+    if (met === null || met === alert.conditionMet) return alert;
+
+    changed = true;
+    if (!met) return { ...alert, conditionMet: false };
+
+    triggered.push({
+      id: `${alert.id}-${now.getTime()}`,
+      alertId: alert.id,
+      symbol: alert.symbol,
+      condition: alert.condition,
+      price: quote.price ?? null,
+      value,
+      triggeredAt,
+      read: false,
+    });
+    return {
+      ...alert,
+      conditionMet: true,
+      lastTriggeredAt: triggeredAt,
+      enabled: alert.mode === "repeat",
+      snoozedUntil: null,
+    };
+  });
+
+  if (!changed) return { data, triggered, changed };
+  return {
+    data: {
+      alerts,
+      notifications: [...triggered, ...data.notifications].slice(
+        0,
+        MAX_ALERT_HISTORY,
+      ),
+    },
+    triggered,
+    changed,
+  };
+}
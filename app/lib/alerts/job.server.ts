@@ -0,0 +1,112 @@
+/**
+ * 价格提醒服务端任务
+ *
+ * 定期读取所有有启用提醒的用户（users/{uid}/meta/alerts 中 activeCount > 0），
+ * 通过共享的行情缓存一次获取全部代码的行情，逐个用户在事务中检查提醒并
+ * 写回触发记录；客户端监听该文档显示站内通知。
+ *
+ * 配置环境变量（运行时从 process.env 读取）:
+ * PRICE_ALERTS_INTERVAL_MS  检查间隔，默认 60000，0 表示不运行
+ *
+ * collectionGroup 查询需要在 Firestore 中为 meta 集合组的 activeCount 字段
+ * 启用单字段索引。
+ */
+
+import type { MarketQuote } from "~/lib/market-data/types";
+import { getMarketDataCache } from "~/lib/market-data/provider.server";
+import { getFirebaseFirestore } from "~/lib/firebase/admin.server";
+import {
+  countActiveAlerts,
+  evaluateAlerts,
+  isAlertActive,
+  normalizeAlertsData,
+} from "./evaluate";
+
+const DEFAULT_INTERVAL_MS = 60 * 1000;
+
+let started = false;
+
+/**
+ * 检查一轮全部用户的提醒，返回触发的提醒数量
+ */
+export async function runAlertJob(now = new Date()): Promise<number> {
+  const db = getFirebaseFirestore();
+  const snapshot = await db
+    .collectionGroup("meta")
+    .where("activeCount", ">", 0)
+    .get();
+  const docs = snapshot.docs.filter((doc) => doc.id === "alerts");
+  if (docs.length === 0) return 0;
+
+  const symbols = new Set<string>();
+  for (const doc of docs) {
+    for (const alert of normalizeAlertsData(doc.data()).alerts) {
+      if (isAlertActive(alert, now)) symbols.add(alert.symbol.toUpperCase());
+    }
+  }
+  if (symbols.size === 0) return 0;
+
+  const { data } = await getMarketDataCache().getQuotes([...symbols]);
+  const quotes = new Map<string, MarketQuote>(
+    data.map((quote) => [quote.symbol.toUpperCase(), quote]),
+  );
+
+  let triggeredCount = 0;
+  for (const doc of docs) {
+    try {
+      triggeredCount += await db.runTransaction(async (transaction) => {
+        // 事务中重新读取，避免覆盖用户刚做的修改
+        const current = await transaction.get(doc.ref);
+        if (!current.exists) return 0;
+        const result = evaluateAlerts(
+          normalizeAlertsData(current.data() ?? {}),
+          quotes,
+          now,
+        );
+        if (!result.changed) return 0;
+        transaction.update(doc.ref, {
+          alerts: result.data.alerts,
+          notifications: result.data.notifications,
+          activeCount: countActiveAlerts(result.data),
+        });
+        return result.triggered.length;
+      });
+    } catch (error) {
+      console.error(`Failed to evaluate alerts for ${doc.ref.path}:`, error);
+    }
+  }
+  return triggeredCount;
+}
+
+/**
+ * 启动定时检查（进程内只启动一次）；Firebase Admin 未配置时不运行
+ */
+export function startAlertJob(): void {
+  if (started) return;
+  started = true;
+
+  const intervalMs = Number(
+    process.env.PRICE_ALERTS_INTERVAL_MS ?? DEFAULT_INTERVAL_MS,
+  );
+  if (!intervalMs) return;
+
+  try {
+    getFirebaseFirestore();
+  } catch (error) {
+    console.warn(
+      "Price alerts disabled:",
+      error instanceof Error ? error.message : error,
+    );
+    return;
+  }
+
+  const tick = async () => {
+    try {
+      await runAlertJob();
+    } catch (error) {
+      console.error("Price alert job failed:", error);
+    }
+    setTimeout(tick, intervalMs).unref?.();
+  };
+  setTimeout(tick, intervalMs).unref?.();
+}
@@ -0,0 +1,104 @@
+/**
+ * 价格提醒 React Hook
+ *
+ * 监听当前用户的提醒文档，服务端触发的提醒会实时出现在 notifications 中
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useAuth } from "~/lib/firebase/auth-context";
+import {
+  GroupsRepository,
+  addAlert as addAlertToRepo,
+  removeAlert as removeAlertFromRepo,
+  setAlertEnabled as setAlertEnabledInRepo,
+  snoozeAlert as snoozeAlertInRepo,
+  markAlertNotificationsRead,
+  clearAlertNotifications,
+} from "~/lib/firebase/repository/groups-repository";
+import type {
+  AlertCondition,
+  AlertMode,
+  AlertsData,
+} from "~/lib/storage/types";
+import { DEFAULT_ALERTS_DATA } from "~/lib/storage/types";
+
+export function useAlerts() {
+  const { user, isAuthenticated } = useAuth();
+  const userId = isAuthenticated && user ? user.id : null;
+  const userIdRef = useRef(userId);
+  userIdRef.current = userId;
+
+  const [alertsData, setAlertsData] = useState<AlertsData>(DEFAULT_ALERTS_DATA);
+
+  useEffect(() => {
+    if (!userId) {
+      setAlertsData(DEFAULT_ALERTS_DATA);
+      return;
+    }
+    return new GroupsRepository(userId).watchAlertsData(setAlertsData);
+  }, [userId]);
+
+  // 写入后监听会收到新数据，这里直接使用返回值让界面立即更新
+  const run = useCallback(
+    async (action: (userId: string) => Promise<AlertsData>) => {
+      const currentUserId = userIdRef.current;
+      if (!currentUserId) return;
+      try {
+        setAlertsData(await action(currentUserId));
+      } catch (err) {
+        console.error("Failed to update alerts:", err);
+      }
+    },
+    [],
+  );
+
+  const addAlert = useCallback(
+    (symbol: string, condition: AlertCondition, mode: AlertMode) =>
+      run((id) => addAlertToRepo(id, { symbol, condition, mode })),
+    [run],
+  );
+
+  const removeAlert = useCallback(
+    (alertId: string) => run((id) => removeAlertFromRepo(id, alertId)),
+    [run],
+  );
+
+  const setAlertEnabled = useCallback(
+    (alertId: string, enabled: boolean) =>
+      run((id) => setAlertEnabledInRepo(id, alertId, enabled)),
+    [run],
+  );
+
+  const snoozeAlert = useCallback(
+    (alertId: string, until: string | null) =>
+      run((id) => snoozeAlertInRepo(id, alertId, until)),
+    [run],
+  );
+
+  const markAllRead = useCallback(
+    () => run((id) => markAlertNotificationsRead(id)),
+    [run],
+  );
+
+  const clearHistory = useCallback(
+    () => run((id) => clearAlertNotifications(id)),
+    [run],
+  );
+
+  const unreadCount = useMemo(
+    () => alertsData.notifications.filter((n) => !n.read).length,
+    [alertsData.notifications],
+  );
+
+  return {
+    alertsData,
+    unreadCount,
+    isLoggedIn: userId !== null,
+    addAlert,
+    removeAlert,
+    setAlertEnabled,
+    snoozeAlert,
+    markAllRead,
+    clearHistory,
+  };
+}
@@ -0,0 +1,140 @@
+import { describe, expect, it } from "vitest";
+
+import { addEntry } from "../book";
+import {
+  calculateBudgetStatus,
+  createBudget,
+  getBudgetAccountIds,
+  getBudgetPeriodRange,
+} from "../budget";
+import { createSimpleEntry } from "../entry";
+import { calculatePeriodSummary } from "../report";
+import type { BookData } from "../types";
+import { createTestBook, find } from "./helpers";
+
+function setupBook(): BookData {
+  let book = createTestBook("Budget", "CNY", [
+    { parent: "assets", name: "Bank" },
+    { parent: "expenses", name: "Food" },
+    { parent: "expenses", name: "Rent" },
+    { parent: "expenses:food", name: "Dining" },
+  ]);
+
+  const spend = (date: string, path: string, amount: number, tags?: string[]) =>
+    createSimpleEntry({
+      date,
+      description: path,
+      debitAccountId: find(book, path).id,
+      creditAccountId: find(book, "assets:bank").id,
+      amount,
+      tags,
+    });
+
+  for (const entry of [
+    spend("2024-01-10", "expenses:food", 30000),
+    spend("2024-02-05", "expenses:food", 40000),
+    spend("2024-02-10", "expenses:food:dining", 20000, ["trip"]),
+    spend("2024-03-01", "expenses:rent", 500000),
+    spend("2024-03-08", "expenses:food:dining", 15000),
+  ]) {
+    book = addEntry(book, entry);
+  }
+  return book;
+}
+
+describe("budget periods", () => {
+  it("returns the month, quarter and year containing a date", () => {
+    expect(getBudgetPeriodRange("2024-02-15", "month")).toEqual({
+      start: "2024-02-01",
+      end: "2024-02-29",
+    });
+    expect(getBudgetPeriodRange("2024-05-31", "quarter")).toEqual({
+      start: "2024-04-01",
+      end: "2024-06-30",
+    });
+    expect(getBudgetPeriodRange("2024-12-31", "year")).toEqual({
+      start: "2024-01-01",
+      end: "2024-12-31",
+    });
+  });
+});
+
+describe("budget scope", () => {
+  it("includes descendant expense accounts", () => {
+    const book = setupBook();
+    const budget = createBudget({
+      name: "Food",
+      period: "month",
+      amount: 50000,
+      accountIds: [find(book, "expenses:food").id],
+      startDate: "2024-01-01",
+    });
+    const expected = [
+      find(book, "expenses:food").id,
+      find(book, "expenses:food:dining").id,
+    ];
+    expect(getBudgetAccountIds(book, budget).sort()).toEqual(expected.sort());
+
+    const status = calculateBudgetStatus(book, budget, "2024-02-29");
+    expect(status.spent).toBe(60000);
+    expect(status.remaining).toBe(-10000);
+    expect(status.overspent).toBe(true);
+  });
+
+  it("filters spending by tags", () => {
+    const book = setupBook();
+    const range = { start: "2024-02-01", end: "2024-02-29" };
+    expect(calculatePeriodSummary(book, range).expenses).toBe(60000);
+    expect(
+      calculatePeriodSummary(book, range, { tags: ["trip"] }).expenses,
+    ).toBe(20000);
+    expect(
+      calculatePeriodSummary(book, range, {
+        accountIds: [find(book, "expenses:rent").id],
+      }).expenses,
+    ).toBe(0);
+  });
+});
+
+describe("budget status", () => {
+  it("rolls over unused amounts without carrying deficits", () => {
+    const book = setupBook();
+    const budget = createBudget({
+      name: "Food",
+      period: "month",
+      amount: 50000,
+      accountIds: [find(book, "expenses:food").id],
+      rollover: true,
+      startDate: "2024-01-01",
+    });
+
+    // 一月剩余 20000 结转到二月，二月剩余 10000 结转到三月
+    expect(calculateBudgetStatus(book, budget, "2024-02-29").carried).toBe(
+      20000,
+    );
+    const march = calculateBudgetStatus(book, budget, "2024-03-15");
+    expect(march.carried).toBe(10000);
+    expect(march.available).toBe(60000);
+
+    // 一月超支 5000，二月不扣减
+    const tight = { ...budget, amount: 25000 };
+    expect(calculateBudgetStatus(book, tight, "2024-02-29").carried).toBe(0);
+  });
+
+  it("forecasts period-end spending from the current pace", () => {
+    const book = setupBook();
+    const budget = createBudget({
+      name: "All",
+      period: "month",
+      amount: 600000,
+      startDate: "2024-03-01",
+    });
+
+    // 3 月 10 日已支出 515000，31 天预测 1596500
+    const status = calculateBudgetStatus(book, budget, "2024-03-10");
+    expect(status.spent).toBe(515000);
+    expect(status.forecast).toBe(1596500);
+    expect(status.overspent).toBe(false);
+    expect(status.forecastOverspent).toBe(true);
+  });
+});
@@ -0,0 +1,208 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  addAccount,
+  addEntry,
+  getRootAccount,
+  removeEntry,
+  updateEntry,
+} from "../book";
+import {
+  PeriodLockedError,
+  closePeriod,
+  findLockViolations,
+  getLockDate,
+  reopenPeriod,
+} from "../closing";
+import { createExchangeRate } from "../currency";
+import { createCurrencyLine, createEntry, createSimpleEntry } from "../entry";
+import { generateBalanceSheet, generateIncomeStatement } from "../report";
+import { validateBook } from "../validation";
+import { AccountType, EntryLineType, type BookData } from "../types";
+import { addTransfers, createTestBook, find } from "./helpers";
+
+function setupBook(): BookData {
+  const book = createTestBook("Closing", "CNY", [
+    { parent: "assets", name: "Bank" },
+    { parent: "income", name: "Salary" },
+    { parent: "expenses", name: "Food" },
+  ]);
+  return addTransfers(book, [
+    ["2024-01-05", "assets:bank", "income:salary", 1000000],
+    ["2024-01-10", "expenses:food", "assets:bank", 20000],
+    ["2024-02-05", "expenses:food", "assets:bank", 30000],
+  ]);
+}
+
+describe("period closing", () => {
+  it("moves income and expenses into retained earnings", () => {
+    const book = closePeriod(setupBook(), "2024-01-31", "Closing", "owner");
+
+    expect(getLockDate(book)).toBe("2024-01-31");
+    expect(find(book, "income:salary").balance).toBe(0);
+    // 二月支出不在结账范围内
+    expect(find(book, "expenses:food").balance).toBe(30000);
+    expect(find(book, "equity:retained-earnings").balance).toBe(980000);
+    expect(book.closings?.[0].closedBy).toBe("owner");
+    const closingEntry = book.entries.find(
+      (e) => e.id === book.closings?.[0].entryId,
+    );
+    expect(closingEntry?.description).toBe("Closing");
+
+    // 结转分录不影响利润表，资产负债表仍然平衡
+    const statement = generateIncomeStatement(book, {
+      start: "2024-01-01",
+      end: "2024-01-31",
+    });
+    expect(statement.netIncome).toBe(980000);
+    const sheet = generateBalanceSheet(book, ["2024-02-29"]);
+    expect(sheet.retainedEarnings).toEqual([-30000]);
+    expect(sheet.totalAssets[0]).toBe(
+      sheet.totalLiabilities[0] + sheet.totalEquity[0],
+    );
+    expect(validateBook(book).valid).toBe(true);
+  });
+
+  it("rejects writes in a closed period until it is reopened", () => {
+    const book = closePeriod(setupBook(), "2024-01-31", "Closing");
+    const january = book.entries.find((e) => e.date === "2024-01-10")!;
+    const february = book.entries.find((e) => e.date === "2024-02-05")!;
+
+    expect(() => removeEntry(book, january.id)).toThrow(PeriodLockedError);
+    // 把二月分录改到一月同样被拒绝
+    expect(() =>
+      updateEntry(book, { ...february, date: "2024-01-20" }),
+    ).toThrow(PeriodLockedError);
+    expect(() => closePeriod(book, "2024-01-15", "Closing")).toThrow(
+      PeriodLockedError,
+    );
+    expect(removeEntry(book, february.id).entries).toHaveLength(3);
+
+    const reopened = reopenPeriod(book);
+    expect(getLockDate(reopened)).toBeNull();
+    expect(reopened.entries).toHaveLength(3);
+    expect(find(reopened, "income:salary").balance).toBe(1000000);
+    expect(find(reopened, "equity:retained-earnings").balance).toBe(0);
+    expect(removeEntry(reopened, january.id).entries).toHaveLength(2);
+  });
+
+  it("reports entries written into a closed period", () => {
+    const book = closePeriod(setupBook(), "2024-01-31", "Closing");
+    const january = book.entries.find((e) => e.date === "2024-01-10")!;
+    // 绕过锁定直接写入的修改
+    const tampered: BookData = {
+      ...book,
+      entries: book.entries.map((e) =>
+        e.id === january.id
+          ? { ...e, updatedAt: "2999-01-01T00:00:00.000Z" }
+          : e,
+      ),
+    };
+
+    expect(findLockViolations(tampered).map((e) => e.id)).toEqual([january.id]);
+    const result = validateBook(tampered);
+    expect(result.valid).toBe(false);
+    expect(result.errors.some((error) => error.includes(january.id))).toBe(
+      true,
+    );
+  });
+
+  it("closes foreign-currency accounts at historical base amounts", () => {
+    let book = setupBook();
+    book = addAccount(book, {
+      name: "Dividend",
+      parentId: getRootAccount(book, AccountType.INCOME)!.id,
+      currency: "USD",
+    });
+    book = addAccount(book, {
+      name: "Broker",
+      parentId: getRootAccount(book, AccountType.ASSETS)!.id,
+      currency: "USD",
+    });
+    book = {
+      ...book,
+      exchangeRates: [createExchangeRate("USD", "CNY", 7, "2024-01-01")],
+    };
+    // 10.00 USD 按 7.2 入账
+    book = addEntry(
+      book,
+      createEntry({
+        date: "2024-01-20",
+        description: "Dividend",
+        lines: [
+          createCurrencyLine({
+            accountId: find(book, "assets:broker").id,
+            type: EntryLineType.DEBIT,
+            amount: 1000,
+            currency: "USD",
+            rate: 7.2,
+            baseCurrency: "CNY",
+          }),
+          createCurrencyLine({
+            accountId: find(book, "income:dividend").id,
+            type: EntryLineType.CREDIT,
+            amount: 1000,
+            currency: "USD",
+            rate: 7.2,
+            baseCurrency: "CNY",
+          }),
+        ],
+      }),
+    );
+
+    const closed = closePeriod(book, "2024-01-31", "Closing");
+    expect(find(closed, "income:dividend").balance).toBe(0);
+    expect(find(closed, "equity:retained-earnings").balance).toBe(987200);
+    expect(validateBook(closed).valid).toBe(true);
+  });
+
+  it("creates retained earnings in the book currency", () => {
+    const book = setupBook();
+    // 本位币变更前创建的权益根账户仍是旧币种
+    const closed = closePeriod(
+      {
+        ...book,
+        accounts: book.accounts.map((a) =>
+          a.type === AccountType.EQUITY && a.parentId === null
+            ? { ...a, currency: "USD" }
+            : a,
+        ),
+      },
+      "2024-01-31",
+      "Closing",
+    );
+
+    const retainedEarnings = find(closed, "equity:retained-earnings");
+    expect(retainedEarnings.currency).toBe("CNY");
+    expect(retainedEarnings.balance).toBe(980000);
+  });
+
+  it("rejects foreign-currency balances without an exchange rate", () => {
+    let book = setupBook();
+    book = addAccount(book, {
+      name: "Travel",
+      parentId: getRootAccount(book, AccountType.EXPENSES)!.id,
+      currency: "USD",
+    });
+    book = addAccount(book, {
+      name: "Card",
+      parentId: getRootAccount(book, AccountType.ASSETS)!.id,
+      currency: "USD",
+    });
+    // 未记录本位币金额的外币分录
+    book = addEntry(
+      book,
+      createSimpleEntry({
+        date: "2024-01-15",
+        description: "Hotel",
+        debitAccountId: find(book, "expenses:travel").id,
+        creditAccountId: find(book, "assets:card").id,
+        amount: 5000,
+      }),
+    );
+
+    expect(() => closePeriod(book, "2024-01-31", "Closing")).toThrow(
+      "Exchange rate not found: USD/CNY",
+    );
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+
+import { averageLots, matchLots } from "../cost-basis";
+import type { HoldingLot } from "../holdings";
+
+const lot = (
+  entryId: string,
+  date: string,
+  quantity: number,
+  cost: number,
+): HoldingLot => ({
+  accountId: "aapl",
+  entryId,
+  lineIndex: 0,
+  date,
+  quantity,
+  cost,
+});
+
+// 三个批次：每股 100、150、200
+const lots = [
+  lot("a", "2023-01-02", 10, 100000),
+  lot("b", "2023-06-01", 10, 150000),
+  lot("c", "2024-01-02", 10, 200000),
+];
+
+describe("cost basis", () => {
+  it("matches lots first in or last in", () => {
+    const fifo = matchLots(lots, 15, "fifo");
+    expect(fifo.cost).toBe(175000);
+    expect(fifo.matches.map((m) => [m.lot.entryId, m.quantity])).toEqual([
+      ["a", 10],
+      ["b", 5],
+    ]);
+    expect(fifo.lots.map((l) => [l.entryId, l.quantity, l.cost])).toEqual([
+      ["b", 5, 75000],
+      ["c", 10, 200000],
+    ]);
+
+    const lifo = matchLots(lots, 15, "lifo");
+    expect(lifo.cost).toBe(275000);
+    expect(lifo.matches.map((m) => m.lot.entryId)).toEqual(["c", "b"]);
+    // 剩余批次仍按买入顺序
+    expect(lifo.lots.map((l) => l.entryId)).toEqual(["a", "b"]);
+  });
+
+  it("averages cost while keeping lots in purchase order", () => {
+    expect(averageLots(lots).map((l) => l.cost)).toEqual([
+      150000, 150000, 150000,
+    ]);
+    const result = matchLots(lots, 15, "average");
+    expect(result.cost).toBe(225000);
+    expect(result.matches.map((m) => m.lot.date)).toEqual([
+      "2023-01-02",
+      "2023-06-01",
+    ]);
+    expect(result.lots.reduce((sum, l) => sum + l.cost, 0)).toBe(225000);
+
+    // 尾差计入最后一个批次，总成本不变
+    const uneven = averageLots([
+      lot("a", "2024-01-01", 1, 100),
+      lot("b", "2024-01-02", 2, 201),
+    ]);
+    expect(uneven.map((l) => l.cost)).toEqual([100, 201]);
+  });
+
+  it("sells specific lots and reports shortfalls", () => {
+    const result = matchLots(lots, 12, "specific", [
+      { entryId: "c", lineIndex: 0, quantity: 10 },
+      { entryId: "a", lineIndex: 0, quantity: 2 },
+    ]);
+    expect(result.cost).toBe(220000);
+    expect(result.shortfall).toBe(0);
+    expect(result.lots.map((l) => [l.entryId, l.quantity])).toEqual([
+      ["a", 8],
+      ["b", 10],
+    ]);
+
+    // 没有指定批次时按先进先出
+    expect(matchLots(lots, 5, "specific").cost).toBe(50000);
+    // 指定的批次不存在或不足时差额计入 shortfall
+    const missing = matchLots(lots, 5, "specific", [
+      { entryId: "x", lineIndex: 0, quantity: 5 },
+    ]);
+    expect(missing.shortfall).toBe(5);
+    expect(matchLots(lots, 31, "fifo").shortfall).toBe(1);
+  });
+});
@@ -0,0 +1,180 @@
+import { describe, expect, it } from "vitest";
+
+import { addEntry } from "../book";
+import { createEntry } from "../entry";
+import { buildBuyLines, buildSellLines, getHoldings } from "../holdings";
+import {
+  applyCorporateAction,
+  createSplitAction,
+  createSymbolChangeAction,
+  getSymbolAt,
+} from "../corporate-actions";
+import {
+  buildDividendCalendar,
+  buildDividendLines,
+  calculateYieldOnCost,
+  getDividendPayments,
+} from "../dividends";
+import { validateBook } from "../validation";
+import type { BookData, HoldingEvent } from "../types";
+import { createTestBook, find } from "./helpers";
+
+// 买入 10 股 AAPL，每股成本 150
+function setupBook(): BookData {
+  const book = createTestBook("Broker", "USD", [
+    { parent: "assets", name: "Cash" },
+    { parent: "assets", name: "AAPL", commodity: "AAPL" },
+    { parent: "income", name: "Dividends" },
+  ]);
+  return addEntry(
+    book,
+    createEntry({
+      date: "2023-01-10",
+      description: "Buy AAPL",
+      lines: buildBuyLines({
+        holdingAccountId: find(book, "assets:aapl").id,
+        cashAccountId: find(book, "assets:cash").id,
+        quantity: 10,
+        cost: 150000,
+      }),
+    }),
+  );
+}
+
+function dividend(
+  book: BookData,
+  date: string,
+  amount: number,
+  reinvestQuantity?: number,
+): BookData {
+  const accountId = find(book, "assets:aapl").id;
+  const holdingEvent: HoldingEvent = {
+    kind: reinvestQuantity === undefined ? "dividend" : "drip",
+    accountId,
+  };
+  return addEntry(book, {
+    ...createEntry({
+      date,
+      description: "AAPL dividend",
+      tags: ["AAPL"],
+      lines: buildDividendLines({
+        holdingAccountId: accountId,
+        incomeAccountId: find(book, "income:dividends").id,
+        cashAccountId: find(book, "assets:cash").id,
+        amount,
+        reinvestQuantity,
+      }),
+    }),
+    holdingEvent,
+  });
+}
+
+describe("corporate actions", () => {
+  it("splits lots without changing cost or cash", () => {
+    let book = setupBook();
+    const aapl = find(book, "assets:aapl");
+    book = applyCorporateAction(
+      book,
+      createSplitAction({ accountId: aapl.id, date: "2023-06-01", ratio: 4 }),
+    );
+    expect(find(book, "assets:aapl").balance).toBe(150000);
+    expect(getHoldings(book, "2023-05-31")[0].quantity).toBe(10);
+    const [holding] = getHoldings(book);
+    expect([holding.quantity, holding.cost]).toEqual([40, 150000]);
+
+    // 拆股后卖出按新数量匹配批次
+    const lines = buildSellLines(book, {
+      holdingAccountId: aapl.id,
+      cashAccountId: find(book, "assets:cash").id,
+      quantity: 20,
+      proceeds: 90000,
+      date: "2023-07-01",
+    });
+    expect(lines[1].amount).toBe(75000);
+    expect(() =>
+      createSplitAction({ accountId: aapl.id, date: "2023-07-01", ratio: 0 }),
+    ).toThrow("Split ratio must be greater than 0");
+  });
+
+  it("changes the symbol from the effective date", () => {
+    let book = setupBook();
+    const aapl = find(book, "assets:aapl");
+    book = applyCorporateAction(
+      book,
+      createSymbolChangeAction({
+        accountId: aapl.id,
+        date: "2024-01-01",
+        fromSymbol: "AAPL",
+        toSymbol: " appl2 ",
+      }),
+    );
+    const account = find(book, "assets:aapl");
+    expect(account.commodity).toBe("APPL2");
+    expect(getSymbolAt(book, account, "2023-12-31")).toBe("AAPL");
+    expect(getSymbolAt(book, account, "2024-01-01")).toBe("APPL2");
+  });
+});
+
+describe("dividends", () => {
+  it("records cash dividends and reinvestments", () => {
+    let book = setupBook();
+    book = dividend(book, "2023-05-15", 2400);
+    book = dividend(book, "2023-08-15", 2400, 0.16);
+
+    expect(
+      getDividendPayments(book).map((p) => [p.kind, p.amount, p.quantity]),
+    ).toEqual([
+      ["dividend", 2400, undefined],
+      ["drip", 2400, 0.16],
+    ]);
+    expect(find(book, "income:dividends").balance).toBe(4800);
+    expect(getHoldings(book)[0].quantity).toBe(10.16);
+    expect(validateBook(book).valid).toBe(true);
+  });
+
+  it("builds the calendar with projections adjusted for splits", () => {
+    let book = setupBook();
+    book = dividend(book, "2023-05-15", 2400);
+    book = dividend(book, "2023-11-15", 2500);
+    book = dividend(book, "2024-05-15", 2600);
+    book = applyCorporateAction(
+      book,
+      createSplitAction({
+        accountId: find(book, "assets:aapl").id,
+        date: "2024-06-01",
+        ratio: 2,
+      }),
+    );
+
+    const calendar = buildDividendCalendar(book, 2024, "2024-07-01");
+    const [row] = calendar.rows;
+    expect(row.symbol).toBe("AAPL");
+    expect(row.months[4]).toBe(2600);
+    // 11 月按上一年每股股息估算：持仓 10 股拆为 20 股，总额不变
+    expect(row.months[10]).toBe(2500);
+    expect(row.projected[10]).toBe(true);
+    expect(row.projected[4]).toBe(false);
+    expect(row.total).toBe(5100);
+
+    expect(buildDividendCalendar(book, 2023, "2024-07-01").rows[0].total).toBe(
+      4900,
+    );
+  });
+
+  it("computes trailing and forward yield on cost", () => {
+    let book = setupBook();
+    book = dividend(book, "2023-05-15", 2400);
+    book = dividend(book, "2024-05-15", 3000);
+
+    const [item] = calculateYieldOnCost(book, "2024-07-01", {
+      AAPL: { price: 200, dividendYield: 0.015 },
+    });
+    expect(item.trailingDividends).toBe(3000);
+    expect(item.trailingYield).toBeCloseTo(0.02, 10);
+    // 200 × 1.5% × 10 股 = 30 / 成本 1500
+    expect(item.forwardYield).toBeCloseTo(0.02, 10);
+    expect(
+      calculateYieldOnCost(book, "2024-07-01", {})[0].forwardYield,
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,57 @@
+import { addAccount, addEntry, createBook } from "../book";
+import { createSimpleEntry } from "../entry";
+import type { BookData, CostBasisMethod, CurrencyCode } from "../types";
+
+/** 测试账户，parent 为父账户路径 */
+export interface TestAccount {
+  parent: string;
+  name: string;
+  currency?: CurrencyCode;
+  commodity?: string;
+  costBasisMethod?: CostBasisMethod;
+}
+
+/** 简单分录：[日期, 借方路径, 贷方路径, 金额] */
+export type TestTransfer = [
+  date: string,
+  debit: string,
+  credit: string,
+  amount: number,
+];
+
+/** 按路径查找账户 */
+export const find = (book: BookData, path: string) =>
+  book.accounts.find((a) => a.path === path)!;
+
+/** 创建账本并按顺序添加账户 */
+export function createTestBook(
+  name: string,
+  defaultCurrency: CurrencyCode,
+  accounts: TestAccount[],
+): BookData {
+  let book = createBook({ name, defaultCurrency });
+  for (const { parent, ...account } of accounts) {
+    book = addAccount(book, { ...account, parentId: find(book, parent).id });
+  }
+  return book;
+}
+
+/** 按顺序记入简单分录 */
+export function addTransfers(
+  book: BookData,
+  transfers: TestTransfer[],
+): BookData {
+  for (const [date, debit, credit, amount] of transfers) {
+    book = addEntry(
+      book,
+      createSimpleEntry({
+        date,
+        description: `${debit} <- ${credit}`,
+        debitAccountId: find(book, debit).id,
+        creditAccountId: find(book, credit).id,
+        amount,
+      }),
+    );
+  }
+  return book;
+}
@@ -0,0 +1,148 @@
+import { describe, expect, it } from "vitest";
+
+import { addEntry } from "../book";
+import { createEntry } from "../entry";
+import {
+  buildBuyLines,
+  buildSellLines,
+  findHoldingIssues,
+  getHoldingLots,
+  getHoldings,
+  valueHoldings,
+} from "../holdings";
+import { validateBook } from "../validation";
+import { EntryLineType, type BookData, type EntryLineData } from "../types";
+import { createTestBook, find } from "./helpers";
+
+function setupBook(): BookData {
+  return createTestBook("Broker", "USD", [
+    { parent: "assets", name: "Cash" },
+    { parent: "assets", name: "AAPL", commodity: " aapl " },
+    { parent: "income", name: "Gains" },
+    { parent: "equity", name: "Deposit" },
+  ]);
+}
+
+function trade(book: BookData, date: string, lines: EntryLineData[]): BookData {
+  return addEntry(book, createEntry({ date, description: "trade", lines }));
+}
+
+function buy(book: BookData, date: string, quantity: number, cost: number) {
+  return trade(
+    book,
+    date,
+    buildBuyLines({
+      holdingAccountId: find(book, "assets:aapl").id,
+      cashAccountId: find(book, "assets:cash").id,
+      quantity,
+      cost,
+    }),
+  );
+}
+
+describe("holdings", () => {
+  it("records lots and relieves them first in, first out", () => {
+    let book = setupBook();
+    const aapl = find(book, "assets:aapl");
+    expect(aapl.commodity).toBe("AAPL");
+
+    book = buy(book, "2024-01-02", 10, 100000);
+    book = buy(book, "2024-02-01", 10, 150000);
+    expect(getHoldings(book)[0]).toMatchObject({
+      symbol: "AAPL",
+      quantity: 20,
+      cost: 250000,
+    });
+    expect(find(book, "assets:aapl").balance).toBe(250000);
+
+    // 卖出 15 股：第一批全部 + 第二批一半
+    const lines = buildSellLines(book, {
+      holdingAccountId: aapl.id,
+      cashAccountId: find(book, "assets:cash").id,
+      gainAccountId: find(book, "income:gains").id,
+      quantity: 15,
+      proceeds: 240000,
+      date: "2024-03-01",
+    });
+    expect(lines[1]).toMatchObject({ amount: 175000, quantity: 15 });
+    expect(lines[2]).toMatchObject({
+      type: EntryLineType.CREDIT,
+      amount: 65000,
+    });
+    book = trade(book, "2024-03-01", lines);
+
+    const lots = getHoldingLots(book, aapl.id);
+    expect(lots).toHaveLength(1);
+    expect(lots[0]).toMatchObject({
+      date: "2024-02-01",
+      quantity: 5,
+      cost: 75000,
+    });
+    expect(find(book, "assets:aapl").balance).toBe(75000);
+    // 截至卖出之前仍是两个批次
+    expect(getHoldingLots(book, aapl.id, "2024-02-28")).toHaveLength(2);
+    expect(validateBook(book).valid).toBe(true);
+
+    expect(() =>
+      buildSellLines(book, {
+        holdingAccountId: aapl.id,
+        cashAccountId: find(book, "assets:cash").id,
+        gainAccountId: find(book, "income:gains").id,
+        quantity: 6,
+        proceeds: 100000,
+        date: "2024-04-01",
+      }),
+    ).toThrow("Insufficient quantity");
+  });
+
+  it("marks lots to market", () => {
+    let book = setupBook();
+    book = buy(book, "2024-01-02", 10, 100000);
+    book = buy(book, "2024-02-01", 2.5, 50000);
+
+    const [valuation] = valueHoldings(getHoldings(book), { AAPL: 180 });
+    expect(valuation.marketValue).toBe(225000);
+    expect(valuation.unrealized).toBe(75000);
+    expect(valuation.lots.map((item) => item.unrealized)).toEqual([
+      80000, -5000,
+    ]);
+
+    const [missing] = valueHoldings(getHoldings(book), {});
+    expect(missing.price).toBeNull();
+    expect(missing.unrealized).toBeNull();
+  });
+
+  it("flags lines without quantity and oversold positions", () => {
+    let book = setupBook();
+    const aapl = find(book, "assets:aapl");
+    book = trade(book, "2024-01-02", [
+      { accountId: aapl.id, type: EntryLineType.DEBIT, amount: 1000 },
+      {
+        accountId: find(book, "equity:deposit").id,
+        type: EntryLineType.CREDIT,
+        amount: 1000,
+      },
+    ]);
+    book = trade(book, "2024-01-03", [
+      {
+        accountId: find(book, "assets:cash").id,
+        type: EntryLineType.DEBIT,
+        amount: 1000,
+      },
+      {
+        accountId: aapl.id,
+        type: EntryLineType.CREDIT,
+        amount: 1000,
+        quantity: 1,
+      },
+    ]);
+
+    expect(findHoldingIssues(book).map((issue) => issue.kind)).toEqual([
+      "missingQuantity",
+      "oversold",
+    ]);
+    const result = validateBook(book);
+    expect(result.valid).toBe(false);
+    expect(result.errors).toHaveLength(2);
+  });
+});
@@ -1,15 +1,25 @@
 import { describe, expect, it } from "vitest";
 
-import { createSimpleEntry, updateEntry as updateEntryData } from "../entry";
+import {
+  createCurrencyLine,
+  createEntry,
+  createFxGainLossLine,
+  createSimpleEntry,
+  diffEntries,
+  getEntryVersion,
+  updateEntry as updateEntryData,
+} from "../entry";
 import {
   addAccount,
   addEntry,
   createBook,
   getRootAccount,
+  rebuildBalances,
   removeEntry,
   updateEntry,
+  verifyAccountingEquation,
 } from "../book";
-import { AccountType } from "../types";
+import { AccountType, EntryLineType } from "../types";
 
 function setupBook() {
   let book = createBook({ name: "Test Book", defaultCurrency: "CNY" });
@@ -94,9 +104,7 @@ describe("book currency rules", () => {
     });
 
     const cashCny = book.accounts.find((a) => a.path === "assets:cashcny")!;
-    const walletUsd = book.accounts.find(
-      (a) => a.path === "assets:walletusd",
-    )!;
+    const walletUsd = book.accounts.find((a) => a.path === "assets:walletusd")!;
 
     const entry = createSimpleEntry({
       date: "2024-01-02",
@@ -110,4 +118,181 @@ describe("book currency rules", () => {
       /Cross-currency entry is not supported/,
     );
   });
+
+  it("balances cross-currency lines in the book currency", () => {
+    let book = createBook({ name: "Test Book", defaultCurrency: "CNY" });
+    const assetsRoot = getRootAccount(book, AccountType.ASSETS)!;
+    const incomeRoot = getRootAccount(book, AccountType.INCOME)!;
+
+    book = addAccount(book, { name: "CashCNY", parentId: assetsRoot.id });
+    book = addAccount(book, {
+      name: "WalletUSD",
+      parentId: assetsRoot.id,
+      currency: "USD",
+    });
+    book = addAccount(book, { name: "FX", parentId: incomeRoot.id });
+
+    const cashCny = book.accounts.find((a) => a.path === "assets:cashcny")!;
+    const walletUsd = book.accounts.find((a) => a.path === "assets:walletusd")!;
+    const fx = book.accounts.find((a) => a.path === "income:fx")!;
+
+    // 用 700 元换 100 美元，按 7.1 折算借方 710 元，差额 10 元为汇兑收益
+    const lines = [
+      createCurrencyLine({
+        accountId: walletUsd.id,
+        type: EntryLineType.DEBIT,
+        amount: 10000,
+        currency: "USD",
+        rate: 7.1,
+        baseCurrency: "CNY",
+      }),
+      createCurrencyLine({
+        accountId: cashCny.id,
+        type: EntryLineType.CREDIT,
+        amount: 70000,
+        currency: "CNY",
+        rate: 1,
+        baseCurrency: "CNY",
+      }),
+    ];
+    expect(lines[0].baseAmount).toBe(71000);
+
+    const fxLine = createFxGainLossLine(lines, fx.id, "CNY")!;
+    expect(fxLine).toMatchObject({
+      accountId: fx.id,
+      type: EntryLineType.CREDIT,
+      amount: 1000,
+    });
+
+    const unbalanced = createEntry({
+      date: "2024-01-02",
+      description: "Exchange",
+      lines,
+    });
+    expect(() => addEntry(book, unbalanced)).toThrowError(/not balanced/);
+
+    book = addEntry(book, { ...unbalanced, lines: [...lines, fxLine] });
+    const balanceOf = (id: string) =>
+      book.accounts.find((a) => a.id === id)!.balance;
+    expect(balanceOf(walletUsd.id)).toBe(10000);
+    expect(balanceOf(cashCny.id)).toBe(-70000);
+    expect(balanceOf(fx.id)).toBe(1000);
+    expect(verifyAccountingEquation(book)).toBe(true);
+    expect(rebuildBalances(book).drifts).toEqual([]);
+  });
+});
+
+describe("entry versions", () => {
+  it("treats entries without a version as version 1", () => {
+    const entry = createSimpleEntry({
+      date: "2024-01-01",
+      description: "Lunch",
+      debitAccountId: "food",
+      creditAccountId: "cash",
+      amount: 500,
+    });
+
+    expect(getEntryVersion(entry)).toBe(1);
+    expect(getEntryVersion({ ...entry, entryVersion: 3 })).toBe(3);
+  });
+
+  it("diffs changed fields only", () => {
+    const before = createSimpleEntry({
+      date: "2024-01-01",
+      description: "Lunch",
+      debitAccountId: "food",
+      creditAccountId: "cash",
+      amount: 500,
+      tags: ["food"],
+    });
+    const after = updateEntryData(before, {
+      description: "Dinner",
+      lines: before.lines.map((line) => ({ ...line, amount: 800 })),
+    });
+
+    const changes = diffEntries(before, after);
+
+    expect(changes.map((c) => c.field)).toEqual(["description", "lines"]);
+    expect(changes[0]).toEqual({
+      field: "description",
+      before: "Lunch",
+      after: "Dinner",
+    });
+  });
+});
+
+describe("balance rebuild", () => {
+  it("reports drift between cached and replayed balances", () => {
+    let { book, cashId, foodId } = setupBook();
+
+    const lunch = createSimpleEntry({
+      date: "2024-01-02",
+      description: "Lunch",
+      debitAccountId: foodId,
+      creditAccountId: cashId,
+      amount: 500,
+    });
+    const dinner = createSimpleEntry({
+      date: "2024-01-01",
+      description: "Dinner",
+      debitAccountId: foodId,
+      creditAccountId: cashId,
+      amount: 800,
+    });
+    book = addEntry(addEntry(book, lunch), dinner);
+
+    const consistent = rebuildBalances(book);
+    expect(consistent.drifts).toEqual([]);
+    expect(consistent.replayedCount).toBe(2);
+
+    // 模拟缓存余额损坏
+    book = {
+      ...book,
+      accounts: book.accounts.map((a) =>
+        a.id === cashId ? { ...a, balance: -1000 } : a,
+      ),
+    };
+
+    const result = rebuildBalances(book);
+    expect(result.drifts).toHaveLength(1);
+    expect(result.drifts[0]).toMatchObject({
+      accountId: cashId,
+      cached: -1000,
+      rebuilt: -1300,
+      drift: 300,
+    });
+    expect(result.accounts.find((a) => a.id === cashId)!.balance).toBe(-1300);
+  });
+
+  it("skips deleted and unbalanced entries", () => {
+    let { book, cashId, foodId } = setupBook();
+
+    const lunch = createSimpleEntry({
+      date: "2024-01-01",
+      description: "Lunch",
+      debitAccountId: foodId,
+      creditAccountId: cashId,
+      amount: 500,
+    });
+    const broken = createSimpleEntry({
+      date: "2024-01-02",
+      description: "Broken",
+      debitAccountId: foodId,
+      creditAccountId: cashId,
+      amount: 100,
+    });
+    broken.lines = [broken.lines[0]];
+    const deleted = {
+      ...lunch,
+      id: "deleted-entry",
+      deletedAt: "2024-01-03T00:00:00.000Z",
+    };
+    book = addEntry(book, lunch);
+    book = { ...book, entries: [...book.entries, broken, deleted] };
+
+    const result = rebuildBalances(book);
+    expect(result.replayedCount).toBe(1);
+    expect(result.skippedEntries.map((s) => s.entryId)).toEqual([broken.id]);
+    expect(result.drifts).toEqual([]);
+  });
 });
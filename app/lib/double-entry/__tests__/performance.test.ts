@@ -0,0 +1,150 @@
+import { describe, expect, it } from "vitest";
+
+import { addEntry } from "../book";
+import { createEntry } from "../entry";
+import { buildBuyLines } from "../holdings";
+import {
+  calculateBenchmarkReturn,
+  calculatePerformance,
+  calculateTWR,
+  calculateXIRR,
+  getExternalFlows,
+  getInvestmentAccountIds,
+  getPerformanceDateRange,
+} from "../performance";
+import { generateNetWorthTrend } from "../report";
+import type { BookData } from "../types";
+import { addTransfers, createTestBook, find } from "./helpers";
+
+// 银行转入券商两次，买入 10 股 AAPL，收到一笔股息
+function setupBook(): BookData {
+  let book = createTestBook("Broker", "USD", [
+    { parent: "assets", name: "Bank" },
+    { parent: "assets", name: "Broker" },
+    { parent: "assets:broker", name: "Cash" },
+    { parent: "assets:broker", name: "AAPL", commodity: "AAPL" },
+    { parent: "income", name: "Dividends" },
+    { parent: "equity", name: "Opening" },
+  ]);
+
+  book = addTransfers(book, [
+    ["2024-01-01", "assets:bank", "equity:opening", 1e6],
+    ["2024-01-02", "assets:broker:cash", "assets:bank", 100000],
+  ]);
+  book = addEntry(
+    book,
+    createEntry({
+      date: "2024-01-03",
+      description: "Buy AAPL",
+      lines: buildBuyLines({
+        holdingAccountId: find(book, "assets:broker:aapl").id,
+        cashAccountId: find(book, "assets:broker:cash").id,
+        quantity: 10,
+        cost: 100000,
+      }),
+    }),
+  );
+  return addTransfers(book, [
+    ["2024-02-01", "assets:broker:cash", "assets:bank", 50000],
+    ["2024-03-01", "assets:broker:cash", "income:dividends", 1000],
+  ]);
+}
+
+const prices = {
+  AAPL: [
+    { date: "2024-01-03", close: 100 },
+    { date: "2024-02-01", close: 120 },
+    { date: "2024-03-28", close: 130 },
+  ],
+};
+
+describe("portfolio performance", () => {
+  it("separates contributions from returns", () => {
+    const book = setupBook();
+    const ids = getInvestmentAccountIds(book, find(book, "assets:broker").id);
+    expect(ids).toHaveLength(3);
+
+    // 股息和子树内的买入不是投入
+    expect(
+      getExternalFlows(book, ids, { start: "2024-01-01", end: "2024-03-31" }),
+    ).toEqual([
+      { date: "2024-01-02", amount: 100000 },
+      { date: "2024-02-01", amount: 50000 },
+    ]);
+
+    // 子树账面净值走势，起始日即使没有分录也输出
+    expect(
+      generateNetWorthTrend(
+        book,
+        { start: "2024-01-15", end: "2024-03-31" },
+        "day",
+        { accountIds: ids },
+      ),
+    ).toEqual([
+      { period: "2024-01-15", netWorth: 100000 },
+      { period: "2024-02-01", netWorth: 150000 },
+      { period: "2024-03-01", netWorth: 151000 },
+    ]);
+  });
+
+  it("computes time- and money-weighted returns", () => {
+    const book = setupBook();
+    const range = getPerformanceDateRange("ALL", "2024-03-31", "2024-01-02");
+    expect(range).toEqual({ start: "2024-01-01", end: "2024-03-31" });
+
+    const result = calculatePerformance(
+      book,
+      find(book, "assets:broker").id,
+      range,
+      prices,
+    );
+    expect(result.startValue).toBe(0);
+    // 账面 151000 + 浮动盈亏 10 × 130 - 1000
+    expect(result.endValue).toBe(181000);
+    expect(result.netFlows).toBe(150000);
+    expect(result.gain).toBe(31000);
+    // 1.2 × 181000 / 170000
+    expect(result.twr).toBeCloseTo((1.2 * 181000) / 170000 - 1, 10);
+    expect(result.xirr).toBeGreaterThan(result.twr!);
+
+    expect(
+      calculateTWR([
+        { value: 100, flow: 0 },
+        { value: 160, flow: 50 },
+        { value: 165, flow: 0 },
+      ]),
+    ).toBeCloseTo(1.1 * 1.03125 - 1, 10);
+  });
+
+  it("solves XIRR and benchmark returns", () => {
+    expect(
+      calculateXIRR([
+        { date: "2023-01-01", amount: -1000 },
+        { date: "2024-01-01", amount: 1100 },
+      ]),
+    ).toBeCloseTo(0.1, 8);
+    expect(
+      calculateXIRR([
+        { date: "2023-01-01", amount: -1000 },
+        { date: "2023-07-02", amount: -1000 },
+        { date: "2024-01-01", amount: 1900 },
+      ]),
+    ).toBeLessThan(0);
+    expect(calculateXIRR([{ date: "2023-01-01", amount: -1000 }])).toBeNull();
+
+    expect(getPerformanceDateRange("1M", "2024-03-31", null).start).toBe(
+      "2024-02-29",
+    );
+    const ytd = getPerformanceDateRange("YTD", "2024-03-31", null);
+    expect(ytd.start).toBe("2023-12-31");
+    expect(
+      calculateBenchmarkReturn(
+        [
+          { date: "2023-12-29", close: 400 },
+          { date: "2024-03-28", close: 440 },
+        ],
+        ytd,
+      ),
+    ).toBeCloseTo(0.1, 10);
+  });
+});
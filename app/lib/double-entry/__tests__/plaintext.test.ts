@@ -0,0 +1,349 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  addAccount,
+  addEntry,
+  createBook,
+  getRootAccount,
+  updateAccount,
+} from "../book";
+import { createExchangeRate } from "../currency";
+import {
+  createCurrencyLine,
+  createEntry,
+  createFxGainLossLine,
+  createSimpleEntry,
+} from "../entry";
+import { buildBuyLines, buildSellLines } from "../holdings";
+import {
+  exportBeancount,
+  exportLedger,
+  importBeancount,
+  importLedger,
+} from "../plaintext";
+import { AccountType, EntryLineType, type BookData } from "../types";
+import { validateBook } from "../validation";
+
+function setupBook(): BookData {
+  let book = createBook({ name: "Family", defaultCurrency: "CNY" });
+  const assetsRoot = getRootAccount(book, AccountType.ASSETS)!;
+  const liabilitiesRoot = getRootAccount(book, AccountType.LIABILITIES)!;
+  const incomeRoot = getRootAccount(book, AccountType.INCOME)!;
+  const expensesRoot = getRootAccount(book, AccountType.EXPENSES)!;
+
+  book = addAccount(book, { name: "Bank", parentId: assetsRoot.id });
+  const bank = book.accounts.find((a) => a.path === "assets:bank")!;
+  book = addAccount(book, { name: "CMB", parentId: bank.id });
+  book = addAccount(book, {
+    name: "US Broker",
+    parentId: assetsRoot.id,
+    currency: "USD",
+  });
+  book = addAccount(book, {
+    name: "Credit Card",
+    parentId: liabilitiesRoot.id,
+    note: "Visa; 尾号 1234",
+  });
+  book = addAccount(book, { name: "Salary", parentId: incomeRoot.id });
+  book = addAccount(book, { name: "FX Gain Loss", parentId: incomeRoot.id });
+  book = addAccount(book, { name: "餐饮", parentId: expensesRoot.id });
+  const find = (path: string) => book.accounts.find((a) => a.path === path)!;
+  book = updateAccount(book, find("liabilities:credit-card").id, {
+    archived: true,
+  });
+  book.exchangeRates = [createExchangeRate("USD", "CNY", 7.2, "2024-01-01")];
+
+  book = addEntry(
+    book,
+    createSimpleEntry({
+      date: "2024-01-05",
+      description: "January salary",
+      debitAccountId: find("assets:bank:cmb").id,
+      creditAccountId: find("income:salary").id,
+      amount: 1500000,
+      payee: 'ACME "China"',
+      tags: ["work"],
+    }),
+  );
+  book = addEntry(
+    book,
+    createEntry({
+      date: "2024-01-06",
+      description: "Dinner #1; split",
+      tags: ["family", "dining out"],
+      note: "Paid together",
+      lines: [
+        {
+          accountId: find("expenses:餐饮").id,
+          amount: 30000,
+          type: EntryLineType.DEBIT,
+          note: "Main course",
+        },
+        {
+          accountId: find("assets:bank:cmb").id,
+          amount: 20000,
+          type: EntryLineType.CREDIT,
+        },
+        {
+          accountId: find("liabilities:credit-card").id,
+          amount: 10000,
+          type: EntryLineType.CREDIT,
+        },
+      ],
+    }),
+  );
+
+  const lines = [
+    createCurrencyLine({
+      accountId: find("assets:us-broker").id,
+      type: EntryLineType.DEBIT,
+      amount: 10000,
+      currency: "USD",
+      rate: 7.1,
+      baseCurrency: "CNY",
+    }),
+    createCurrencyLine({
+      accountId: find("assets:bank:cmb").id,
+      type: EntryLineType.CREDIT,
+      amount: 72000,
+      currency: "CNY",
+      rate: 1,
+      baseCurrency: "CNY",
+    }),
+  ];
+  const fxLine = createFxGainLossLine(
+    lines,
+    find("income:fx-gain-loss").id,
+    "CNY",
+  )!;
+  book = addEntry(
+    book,
+    createEntry({
+      date: "2024-01-07",
+      description: "Fund broker",
+      lines: [...lines, fxLine],
+    }),
+  );
+  return book;
+}
+
+function summarize(book: BookData) {
+  const paths = new Map(book.accounts.map((a) => [a.id, a.path]));
+  return {
+    name: book.name,
+    defaultCurrency: book.defaultCurrency,
+    exchangeRates: book.exchangeRates,
+    accounts: book.accounts
+      .map((a) => ({
+        path: a.path,
+        name: a.name,
+        type: a.type,
+        currency: a.currency,
+        balance: a.balance,
+        note: a.note,
+        archived: a.archived,
+        commodity: a.commodity,
+        costBasisMethod: a.costBasisMethod,
+      }))
+      .sort((a, b) => a.path.localeCompare(b.path)),
+    entries: book.entries.map((e) => ({
+      date: e.date,
+      description: e.description,
+      payee: e.payee,
+      note: e.note,
+      tags: e.tags,
+      lines: e.lines.map(({ accountId, ...line }) => ({
+        ...line,
+        account: paths.get(accountId),
+      })),
+    })),
+  };
+}
+
+describe("plain text export", () => {
+  it("writes beancount directives", () => {
+    const text = exportBeancount(setupBook());
+
+    expect(text).toContain('option "operating_currency" "CNY"');
+    expect(text).toMatch(
+      /\d{4}-\d{2}-\d{2} open Assets:Bank:Cmb CNY\n {2}name: "CMB"/,
+    );
+    expect(text).toContain("2024-01-01 price USD 7.2 CNY");
+    expect(text).toContain(
+      '2024-01-05 * "ACME \\"China\\"" "January salary" #work',
+    );
+    expect(text).toContain("  Assets:Us-broker  100.00 USD @ 7.1 CNY");
+    expect(text).toContain("  Income:Fx-gain-loss  10.00 CNY");
+    // 非 ASCII 段按码位转写，原路径写入元数据
+    expect(text).toContain(
+      'open Expenses:U9910U996E CNY\n  name: "餐饮"\n  path: "expenses:餐饮"',
+    );
+  });
+
+  it("writes ledger transactions", () => {
+    const text = exportLedger(setupBook());
+
+    expect(text).toContain(
+      "account Liabilities:Credit-card\n    ; name: Credit Card",
+    );
+    expect(text).toContain("P 2024-01-01 USD 7.2 CNY");
+    expect(text).toContain('2024-01-05 * ACME "China" | January salary');
+    expect(text).toContain("    ; :family:dining-out:");
+    expect(text).toContain(
+      "    Expenses:U9910U996E  300.00 CNY\n        ; note: Main course",
+    );
+  });
+});
+
+describe("plain text round trip", () => {
+  it.each([
+    ["beancount", exportBeancount, importBeancount],
+    ["ledger", exportLedger, importLedger],
+  ] as const)("round-trips a book through %s", (_, exporter, importer) => {
+    const book = setupBook();
+    const imported = importer(exporter(book));
+
+    expect(validateBook(imported)).toMatchObject({ valid: true, errors: [] });
+    const expected = summarize(book);
+    // 导出时标签中的空格替换为 "-"
+    expected.entries[1].tags = ["family", "dining-out"];
+    expect(summarize(imported)).toEqual(expected);
+    expect(exporter(imported)).toBe(exporter(book));
+  });
+});
+
+function setupHoldingBook(): BookData {
+  let book = createBook({ name: "Broker", defaultCurrency: "USD" });
+  const assets = getRootAccount(book, AccountType.ASSETS)!.id;
+  book = addAccount(book, { name: "Cash", parentId: assets });
+  book = addAccount(book, { name: "Broker", parentId: assets });
+  const find = (path: string) => book.accounts.find((a) => a.path === path)!;
+  book = addAccount(book, {
+    name: "AAPL",
+    parentId: find("assets:broker").id,
+    commodity: "AAPL",
+    costBasisMethod: "specific",
+  });
+  book = addAccount(book, {
+    name: "Gains",
+    parentId: getRootAccount(book, AccountType.INCOME)!.id,
+  });
+  book = addAccount(book, {
+    name: "Deposit",
+    parentId: getRootAccount(book, AccountType.EQUITY)!.id,
+  });
+
+  const buy = (date: string, quantity: number, cost: number) => {
+    book = addEntry(
+      book,
+      createEntry({
+        date,
+        description: "Buy AAPL",
+        lines: buildBuyLines({
+          holdingAccountId: find("assets:broker:aapl").id,
+          cashAccountId: find("assets:cash").id,
+          quantity,
+          cost,
+        }),
+      }),
+    );
+  };
+  buy("2024-01-02", 10, 100000);
+  buy("2024-02-01", 2.5, 40000);
+  // 指定卖出第二批
+  const second = book.entries[book.entries.length - 1];
+  book = addEntry(
+    book,
+    createEntry({
+      date: "2024-03-01",
+      description: "Sell AAPL",
+      lines: buildSellLines(book, {
+        holdingAccountId: find("assets:broker:aapl").id,
+        cashAccountId: find("assets:cash").id,
+        gainAccountId: find("income:gains").id,
+        quantity: 2,
+        proceeds: 36000,
+        date: "2024-03-01",
+        lotSelections: [{ entryId: second.id, lineIndex: 0, quantity: 2 }],
+      }),
+    }),
+  );
+  return book;
+}
+
+describe("plain text holdings", () => {
+  it("writes quantities and lot costs", () => {
+    const book = setupHoldingBook();
+    const beancount = exportBeancount(book);
+    expect(beancount).toContain(
+      'open Assets:Broker:Aapl USD,AAPL "NONE"\n  name: "AAPL"\n  cost-basis: "specific"',
+    );
+    expect(beancount).toContain(
+      "  Assets:Broker:Aapl  2.5 AAPL {{400.00 USD}}",
+    );
+    expect(beancount).toContain("  Assets:Broker:Aapl  -2 AAPL {{320.00 USD}}");
+
+    const ledger = exportLedger(book);
+    expect(ledger).toContain(
+      "    ; commodity: AAPL\n    ; cost-basis: specific",
+    );
+    expect(ledger).toMatch(/ {8}; lots: [\w-]+:0:2\n/);
+  });
+
+  it.each([
+    ["beancount", exportBeancount, importBeancount],
+    ["ledger", exportLedger, importLedger],
+  ] as const)("round-trips holdings through %s", (_, exporter, importer) => {
+    const book = setupHoldingBook();
+    const imported = importer(exporter(book));
+
+    expect(validateBook(imported)).toMatchObject({
+      valid: true,
+      errors: [],
+      warnings: [],
+    });
+    expect(summarize(imported)).toEqual(summarize(book));
+    expect(exporter(imported)).toBe(exporter(book));
+  });
+});
+
+describe("plain text import", () => {
+  it("creates missing parents and fills elided amounts", () => {
+    const book = importLedger(
+      [
+        "2024/02/01 * Coffee shop",
+        "    Expenses:Food:Coffee       25.50 CNY",
+        "    Assets:Cash",
+        "",
+      ].join("\n"),
+    );
+
+    expect(validateBook(book).valid).toBe(true);
+    const coffee = book.accounts.find((a) => a.path === "expenses:food:coffee");
+    expect(coffee?.balance).toBe(2550);
+    expect(book.accounts.find((a) => a.path === "expenses:food")).toBeDefined();
+    expect(book.accounts.find((a) => a.path === "assets:cash")?.balance).toBe(
+      -2550,
+    );
+  });
+
+  it("rejects unbalanced transactions with line numbers", () => {
+    expect(() =>
+      importBeancount(
+        [
+          '2024-02-01 * "Broken"',
+          "  Expenses:Food  10.00 CNY",
+          "  Assets:Cash  -9.00 CNY",
+        ].join("\n"),
+      ),
+    ).toThrow(/not balanced \(line 1\)/);
+  });
+
+  it("rejects unknown account roots", () => {
+    expect(() =>
+      importBeancount(
+        ['2024-02-01 * "x"', "  Foo:Bar  1.00 CNY", "  Assets:Cash"].join("\n"),
+      ),
+    ).toThrow(/Unknown account root/);
+  });
+});
@@ -0,0 +1,210 @@
+import { describe, expect, it } from "vitest";
+
+import { addEntry } from "../book";
+import { createEntry } from "../entry";
+import { buildBuyLines } from "../holdings";
+import {
+  applyCostBasis,
+  buildRealizedGainsReport,
+  createRealizedGainsAccount,
+  findRealizedGainsAccount,
+  getHoldingPeriod,
+} from "../realized-gains";
+import { validateBook } from "../validation";
+import {
+  EntryLineType,
+  type BookData,
+  type CostBasisMethod,
+  type JournalEntryData,
+} from "../types";
+import { createTestBook, find } from "./helpers";
+
+function setupBook(method: CostBasisMethod): BookData {
+  let book = createTestBook("Broker", "USD", [
+    { parent: "assets", name: "Cash" },
+    {
+      parent: "assets",
+      name: "AAPL",
+      commodity: "AAPL",
+      costBasisMethod: method,
+    },
+    { parent: "assets", name: "MSFT", commodity: "MSFT" },
+    { parent: "income", name: "Interest" },
+  ]);
+  book = {
+    ...book,
+    accounts: [
+      ...book.accounts,
+      createRealizedGainsAccount(book.accounts, "USD"),
+    ],
+  };
+
+  const buy = (path: string, date: string, quantity: number, cost: number) => {
+    book = addEntry(
+      book,
+      createEntry({
+        date,
+        description: `Buy ${path}`,
+        lines: buildBuyLines({
+          holdingAccountId: find(book, path).id,
+          cashAccountId: find(book, "assets:cash").id,
+          quantity,
+          cost,
+        }),
+      }),
+    );
+  };
+  buy("assets:aapl", "2023-01-10", 10, 100000);
+  buy("assets:aapl", "2024-01-10", 10, 150000);
+  buy("assets:msft", "2024-02-01", 4, 120000);
+  return book;
+}
+
+// 卖出分录：借资金（净收入），贷持仓（金额待重算）
+function sale(
+  book: BookData,
+  path: string,
+  date: string,
+  quantity: number,
+  proceeds: number,
+): JournalEntryData {
+  return createEntry({
+    date,
+    description: `Sell ${path}`,
+    lines: [
+      {
+        accountId: find(book, "assets:cash").id,
+        type: EntryLineType.DEBIT,
+        amount: proceeds,
+      },
+      {
+        accountId: find(book, path).id,
+        type: EntryLineType.CREDIT,
+        amount: proceeds,
+        quantity,
+      },
+    ],
+  });
+}
+
+function post(book: BookData, entry: JournalEntryData): BookData {
+  const gains = findRealizedGainsAccount(book.accounts, "USD")!;
+  return addEntry(book, applyCostBasis(book, entry, gains.id));
+}
+
+describe("realized gains", () => {
+  it("generates the gain line when a sale is posted", () => {
+    let book = setupBook("fifo");
+    const gains = findRealizedGainsAccount(book.accounts, "USD")!;
+    expect(gains.path).toBe("income:realized-gains");
+
+    const entry = applyCostBasis(
+      book,
+      sale(book, "assets:aapl", "2024-03-01", 15, 240000),
+      gains.id,
+    );
+    expect(entry.lines.map((l) => [l.type, l.amount])).toEqual([
+      [EntryLineType.DEBIT, 240000],
+      [EntryLineType.CREDIT, 175000],
+      [EntryLineType.CREDIT, 65000],
+    ]);
+    book = addEntry(book, entry);
+    expect(find(book, "income:realized-gains").balance).toBe(65000);
+    expect(validateBook(book).valid).toBe(true);
+
+    // 重新计算已过账的分录时丢弃旧的盈亏行，结果不变
+    expect(applyCostBasis(book, entry, gains.id).lines).toEqual(entry.lines);
+    // 亏损记借方
+    const cheaper = applyCostBasis(
+      book,
+      sale(book, "assets:aapl", "2024-03-02", 5, 50000),
+      gains.id,
+    );
+    expect(cheaper.lines[2]).toMatchObject({
+      type: EntryLineType.DEBIT,
+      amount: 25000,
+    });
+
+    expect(() =>
+      applyCostBasis(
+        book,
+        sale(book, "assets:aapl", "2024-03-02", 6, 60000),
+        gains.id,
+      ),
+    ).toThrow("Insufficient quantity");
+  });
+
+  it("uses the account method and leaves other entries untouched", () => {
+    const book = setupBook("lifo");
+    const gains = findRealizedGainsAccount(book.accounts, "USD")!;
+    const entry = applyCostBasis(
+      book,
+      sale(book, "assets:aapl", "2024-03-01", 5, 80000),
+      gains.id,
+    );
+    expect(entry.lines[1].amount).toBe(75000);
+    expect(entry.lines[2].amount).toBe(5000);
+
+    const purchase = book.entries[0];
+    expect(applyCostBasis(book, purchase, gains.id)).toBe(purchase);
+  });
+
+  it("reports yearly gains by symbol and holding period", () => {
+    let book = setupBook("fifo");
+    // 卖出 15 股 AAPL：10 股持有超过一年，5 股不足一年
+    book = post(book, sale(book, "assets:aapl", "2024-03-01", 15, 240000));
+    book = post(book, sale(book, "assets:msft", "2024-06-01", 2, 50000));
+    book = post(book, sale(book, "assets:aapl", "2025-01-15", 5, 90000));
+
+    const report = buildRealizedGainsReport(book, 2024);
+    expect(
+      report.rows.map((row) => [
+        row.symbol,
+        row.period,
+        row.quantity,
+        row.proceeds,
+        row.cost,
+        row.gain,
+      ]),
+    ).toEqual([
+      ["AAPL", "long", 10, 160000, 100000, 60000],
+      ["AAPL", "short", 5, 80000, 75000, 5000],
+      ["MSFT", "short", 2, 50000, 60000, -10000],
+    ]);
+    expect(report.totals).toEqual([
+      { currency: "USD", proceeds: 290000, cost: 235000, gain: 55000 },
+    ]);
+    expect(buildRealizedGainsReport(book, 2025).rows).toMatchObject([
+      { symbol: "AAPL", period: "long", quantity: 5, gain: 15000 },
+    ]);
+
+    expect(getHoldingPeriod("2023-03-01", "2024-03-01")).toBe("short");
+    expect(getHoldingPeriod("2023-03-01", "2024-03-02")).toBe("long");
+  });
+
+  it("counts only the realized gains line toward sale proceeds", () => {
+    let book = setupBook("fifo");
+    // 同一分录中另记一笔利息收入，不计入卖出净收入
+    const entry = sale(book, "assets:aapl", "2024-03-01", 10, 160000);
+    entry.lines[0].amount = 161000;
+    entry.lines.push({
+      accountId: find(book, "income:interest").id,
+      type: EntryLineType.CREDIT,
+      amount: 1000,
+    });
+    book = post(book, entry);
+    expect(validateBook(book).valid).toBe(true);
+
+    expect(buildRealizedGainsReport(book, 2024).rows).toEqual([
+      {
+        symbol: "AAPL",
+        currency: "USD",
+        period: "long",
+        quantity: 10,
+        proceeds: 160000,
+        cost: 100000,
+        gain: 60000,
+      },
+    ]);
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, expect, it } from "vitest";
+
+import { addEntry, removeEntry, updateEntry } from "../book";
+import { createSimpleEntry, updateEntry as editEntry } from "../entry";
+import {
+  checkBalanceAssertions,
+  createBalanceAssertion,
+  createReconciliation,
+  finishReconciliation,
+  getReconcileLines,
+  getReconciliationDifference,
+  setLineCleared,
+} from "../reconcile";
+import { validateBook } from "../validation";
+import type { BookData, JournalEntryData } from "../types";
+import { addTransfers, createTestBook, find } from "./helpers";
+
+function setupBook(): BookData {
+  const book = createTestBook("Reconcile", "CNY", [
+    { parent: "assets", name: "Bank" },
+    { parent: "liabilities", name: "Card" },
+    { parent: "income", name: "Salary" },
+    { parent: "expenses", name: "Food" },
+  ]);
+  return addTransfers(book, [
+    ["2024-01-05", "assets:bank", "income:salary", 1000000],
+    ["2024-01-10", "expenses:food", "assets:bank", 20000],
+    ["2024-01-12", "expenses:food", "liabilities:card", 30000],
+    // 对账单日期之后
+    ["2024-02-03", "expenses:food", "assets:bank", 5000],
+  ]);
+}
+
+// 替换分录（不经过 book 的过账逻辑，仅修改行标记）
+function replace(book: BookData, next: JournalEntryData): BookData {
+  return {
+    ...book,
+    entries: book.entries.map((e) => (e.id === next.id ? next : e)),
+  };
+}
+
+describe("reconciliation", () => {
+  it("locks cleared lines once the difference reaches zero", () => {
+    let book = setupBook();
+    const reconciliation = createReconciliation({
+      accountId: find(book, "assets:bank").id,
+      statementDate: "2024-01-31",
+      statementBalance: 980000,
+    });
+    book = { ...book, reconciliations: [reconciliation] };
+
+    const lines = getReconcileLines(book, reconciliation);
+    expect(lines.map((item) => item.amount)).toEqual([1000000, -20000]);
+    expect(getReconciliationDifference(book, reconciliation)).toBe(980000);
+
+    book = replace(
+      book,
+      setLineCleared(lines[0].entry, lines[0].lineIndex, true),
+    );
+    expect(getReconciliationDifference(book, reconciliation)).toBe(-20000);
+    expect(() => finishReconciliation(book, reconciliation.id)).toThrow();
+
+    book = replace(
+      book,
+      setLineCleared(lines[1].entry, lines[1].lineIndex, true),
+    );
+    expect(getReconciliationDifference(book, reconciliation)).toBe(0);
+
+    const result = finishReconciliation(book, reconciliation.id);
+    expect(result.entries).toHaveLength(2);
+    expect(result.reconciliation.status).toBe("finished");
+    expect(result.assertion).toMatchObject({
+      accountId: reconciliation.accountId,
+      date: "2024-01-31",
+      amount: 980000,
+    });
+    for (const entry of result.entries) book = replace(book, entry);
+
+    // 已对账的行不再出现在下一次对账中，也不能修改或删除
+    expect(getReconcileLines(book, reconciliation)).toHaveLength(0);
+    const salary = result.entries.find((e) => e.date === "2024-01-05")!;
+    const bankIndex = salary.lines.findIndex(
+      (line) => line.accountId === reconciliation.accountId,
+    );
+    expect(() => setLineCleared(salary, bankIndex, false)).toThrow(
+      "Reconciled lines cannot be changed",
+    );
+    expect(() => removeEntry(book, salary.id)).toThrow(
+      "Reconciled lines cannot be changed",
+    );
+    expect(() =>
+      updateEntry(book, {
+        ...salary,
+        lines: salary.lines.map((line) => ({ ...line, amount: 900000 })),
+      }),
+    ).toThrow("Reconciled lines cannot be changed");
+    // 描述等不影响已对账行的修改仍然允许，行标记随修改保留
+    const edited = updateEntry(
+      book,
+      editEntry(salary, {
+        description: "January salary",
+        lines: salary.lines.map(({ accountId, type, amount }) => ({
+          accountId,
+          type,
+          amount,
+        })),
+      }),
+    );
+    expect(
+      edited.entries.find((e) => e.id === salary.id)!.lines[bankIndex],
+    ).toMatchObject({ cleared: true, reconciled: true });
+  });
+
+  it("catches balance drift with assertions", () => {
+    let book = setupBook();
+    book = {
+      ...book,
+      balanceAssertions: [
+        createBalanceAssertion({
+          accountId: find(book, "assets:bank").id,
+          date: "2024-01-31",
+          amount: 980000,
+        }),
+        createBalanceAssertion({
+          accountId: find(book, "liabilities:card").id,
+          date: "2024-01-31",
+          amount: 30000,
+        }),
+      ],
+    };
+    expect(checkBalanceAssertions(book).map((c) => c.difference)).toEqual([
+      0, 0,
+    ]);
+    expect(validateBook(book).valid).toBe(true);
+
+    // 二月之后的分录不影响一月末的断言；一月的新分录导致断言失败
+    book = addEntry(
+      book,
+      createSimpleEntry({
+        date: "2024-01-20",
+        description: "Missing",
+        debitAccountId: find(book, "expenses:food").id,
+        creditAccountId: find(book, "assets:bank").id,
+        amount: 1000,
+      }),
+    );
+    const checks = checkBalanceAssertions(book);
+    expect(checks[0]).toMatchObject({ actual: 979000, difference: -1000 });
+    const result = validateBook(book);
+    expect(result.valid).toBe(false);
+    expect(result.errors.some((error) => error.includes("assets:bank"))).toBe(
+      true,
+    );
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  advanceRecurringTemplate,
+  createRecurringTemplate,
+  getOccurrences,
+  getUpcomingOccurrences,
+  materializeRecurring,
+  settleOccurrences,
+} from "../recurring";
+import {
+  EntryLineType,
+  type RecurrenceSchedule,
+  type RecurringTemplate,
+} from "../types";
+
+function createTemplate(
+  schedule: RecurrenceSchedule,
+  startDate: string,
+  endDate?: string,
+): RecurringTemplate {
+  return createRecurringTemplate({
+    name: "Rent",
+    schedule,
+    startDate,
+    endDate,
+    description: "Monthly rent",
+    lines: [
+      { accountId: "rent", amount: 500000, type: EntryLineType.DEBIT },
+      { accountId: "bank", amount: 500000, type: EntryLineType.CREDIT },
+    ],
+    tags: ["home"],
+    payee: "Landlord",
+  });
+}
+
+describe("recurrence schedule", () => {
+  it("clamps monthly days to the end of the month", () => {
+    const template = createTemplate(
+      { frequency: "monthly", day: 31 },
+      "2024-01-15",
+    );
+    expect(template.nextDate).toBe("2024-01-31");
+    expect(getOccurrences(template, "2024-04-30")).toEqual([
+      "2024-01-31",
+      "2024-02-29",
+      "2024-03-31",
+      "2024-04-30",
+    ]);
+  });
+
+  it("repeats weekly on a weekday with an interval", () => {
+    // 2024-03-01 是周五
+    const template = createTemplate(
+      { frequency: "weekly", weekday: 1, interval: 2 },
+      "2024-03-01",
+    );
+    expect(getOccurrences(template, "2024-03-31")).toEqual([
+      "2024-03-04",
+      "2024-03-18",
+    ]);
+  });
+
+  it("finds the last business day of each month", () => {
+    const template = createTemplate(
+      { frequency: "last-business-day" },
+      "2024-03-01",
+    );
+    // 2024-03-31 是周日，2024-06-30 是周日，2024-08-31 是周六
+    expect(getOccurrences(template, "2024-08-31")).toEqual([
+      "2024-03-29",
+      "2024-04-30",
+      "2024-05-31",
+      "2024-06-28",
+      "2024-07-31",
+      "2024-08-30",
+    ]);
+  });
+
+  it("repeats yearly and stops at the end date", () => {
+    const template = createTemplate(
+      { frequency: "yearly", month: 2, day: 29 },
+      "2024-01-01",
+      "2027-01-01",
+    );
+    expect(getOccurrences(template, "2030-12-31")).toEqual([
+      "2024-02-29",
+      "2025-02-28",
+      "2026-02-28",
+    ]);
+  });
+});
+
+describe("recurring templates", () => {
+  it("advances the cursor only for the next occurrence", () => {
+    const template = createTemplate(
+      { frequency: "monthly", day: 1 },
+      "2024-01-01",
+    );
+
+    expect(() => advanceRecurringTemplate(template, "2024-02-01")).toThrow(
+      /not due/,
+    );
+    const next = advanceRecurringTemplate(template, "2024-01-01");
+    expect(next.nextDate).toBe("2024-02-01");
+  });
+
+  it("materializes due occurrences into entries", () => {
+    const rent = createTemplate({ frequency: "monthly", day: 5 }, "2024-01-01");
+    const paused = { ...rent, id: "paused", enabled: false };
+
+    const result = materializeRecurring([rent, paused], "2024-03-10");
+
+    expect(result.entries.map((e) => e.date)).toEqual([
+      "2024-01-05",
+      "2024-02-05",
+      "2024-03-05",
+    ]);
+    expect(result.entries[0]).toMatchObject({
+      description: "Monthly rent",
+      payee: "Landlord",
+      tags: ["home"],
+      lines: rent.lines,
+    });
+    expect(new Set(result.entries.map((e) => e.id)).size).toBe(3);
+    expect(result.templates[0].nextDate).toBe("2024-04-05");
+    expect(result.templates[1]).toBe(paused);
+  });
+
+  it("settles occurrences in order and lists upcoming items", () => {
+    const rent = createTemplate({ frequency: "monthly", day: 5 }, "2024-01-01");
+    const salary = {
+      ...createTemplate({ frequency: "monthly", day: 1 }, "2024-02-01"),
+      name: "Salary",
+    };
+
+    const settled = settleOccurrences(
+      [rent, salary],
+      [
+        { templateId: rent.id, date: "2024-01-05" },
+        { templateId: rent.id, date: "2024-02-05" },
+      ],
+    );
+
+    expect(settled.entries).toHaveLength(2);
+    expect(settled.templates[0].nextDate).toBe("2024-03-05");
+    expect(
+      getUpcomingOccurrences(settled.templates, "2024-03-31").map(
+        (item) => `${item.template.name} ${item.date}`,
+      ),
+    ).toEqual(["Salary 2024-02-01", "Rent 2024-03-05"]);
+    expect(() =>
+      settleOccurrences(
+        [rent],
+        [{ templateId: "missing", date: "2024-01-05" }],
+      ),
+    ).toThrow(/not found/);
+  });
+});
@@ -0,0 +1,244 @@
+import { describe, expect, it } from "vitest";
+
+import { addEntry } from "../book";
+import { MissingExchangeRateError, createExchangeRate } from "../currency";
+import { createEntry } from "../entry";
+import { buildBuyLines } from "../holdings";
+import {
+  generateBalanceSheet,
+  generateCashFlowStatement,
+  generateIncomeStatement,
+  getAccountActivity,
+  getCashFlowRole,
+} from "../report";
+import type { BookData, StatementNode } from "../types";
+import { addTransfers, createTestBook, find } from "./helpers";
+
+// 按路径查找报表节点
+function findNode(
+  nodes: StatementNode[],
+  path: string,
+): StatementNode | undefined {
+  for (const node of nodes) {
+    if (node.account.path === path) return node;
+    const child = findNode(node.children, path);
+    if (child) return child;
+  }
+  return undefined;
+}
+
+function setupBook(): BookData {
+  const book = createTestBook("Report", "CNY", [
+    { parent: "assets", name: "Bank" },
+    { parent: "assets", name: "Broker", currency: "USD" },
+    { parent: "liabilities", name: "Card" },
+    { parent: "income", name: "Salary" },
+    { parent: "income", name: "Dividend", currency: "USD" },
+    { parent: "expenses", name: "Food" },
+    { parent: "expenses:food", name: "Dining" },
+  ]);
+  return addTransfers(
+    {
+      ...book,
+      exchangeRates: [
+        createExchangeRate("USD", "CNY", 7, "2024-01-01"),
+        createExchangeRate("USD", "CNY", 7.2, "2024-06-01"),
+      ],
+    },
+    [
+      ["2024-01-05", "assets:bank", "income:salary", 1000000],
+      ["2024-01-10", "expenses:food", "assets:bank", 20000],
+      ["2024-01-12", "expenses:food:dining", "liabilities:card", 30000],
+      ["2024-02-01", "assets:broker", "income:dividend", 1000],
+      // 退款冲减支出
+      ["2024-02-03", "assets:bank", "expenses:food:dining", 5000],
+      ["2024-07-01", "expenses:food", "assets:bank", 10000],
+    ],
+  );
+}
+
+describe("income statement", () => {
+  it("rolls amounts up the account tree in base currency", () => {
+    const book = setupBook();
+    const statement = generateIncomeStatement(book, {
+      start: "2024-01-01",
+      end: "2024-03-31",
+    });
+
+    const expenses = (path: string) =>
+      findNode(statement.expenses, path)?.amounts;
+    expect(expenses("expenses:food:dining")).toEqual([25000]);
+    expect(expenses("expenses:food")).toEqual([45000]);
+    // 10.00 USD 按 2024-02-01 汇率 7 折算
+    expect(findNode(statement.income, "income:dividend")?.amounts).toEqual([
+      7000,
+    ]);
+    expect(statement.totalIncome).toBe(1007000);
+    expect(statement.totalExpenses).toBe(45000);
+    expect(statement.netIncome).toBe(962000);
+  });
+});
+
+describe("balance sheet", () => {
+  it("compares two dates and balances with unclosed income", () => {
+    const book = setupBook();
+    const sheet = generateBalanceSheet(book, ["2024-01-31", "2024-06-30"]);
+
+    expect(findNode(sheet.assets, "assets:bank")?.amounts).toEqual([
+      980000, 985000,
+    ]);
+    // 6 月末按 7.2 折算
+    expect(findNode(sheet.assets, "assets:broker")?.amounts).toEqual([0, 7200]);
+    expect(sheet.totalLiabilities).toEqual([30000, 30000]);
+    expect(sheet.retainedEarnings).toEqual([950000, 962200]);
+    sheet.dates.forEach((_, index) => {
+      expect(sheet.totalAssets[index]).toBe(
+        sheet.totalLiabilities[index] + sheet.totalEquity[index],
+      );
+    });
+  });
+
+  it("rejects foreign balances without an exchange rate", () => {
+    const book = { ...setupBook(), exchangeRates: [] };
+
+    // 汇率缺失时不按 1:1 计入本位币
+    expect(() => generateBalanceSheet(book, ["2024-01-31"])).not.toThrow();
+    expect(() => generateBalanceSheet(book, ["2024-06-30"])).toThrow(
+      MissingExchangeRateError,
+    );
+    expect(() =>
+      generateIncomeStatement(book, { start: "2024-01-01", end: "2024-03-31" }),
+    ).toThrow("Exchange rate not found: USD/CNY");
+  });
+});
+
+describe("account activity", () => {
+  it("lists entries touching the account subtree with signed amounts", () => {
+    const book = setupBook();
+    const food = find(book, "expenses:food");
+    const activity = getAccountActivity(book, food.id, {
+      start: "2024-01-01",
+      end: "2024-03-31",
+    });
+
+    expect(activity.map((item) => [item.entry.date, item.amount])).toEqual([
+      ["2024-02-03", -5000],
+      ["2024-01-12", 30000],
+      ["2024-01-10", 20000],
+    ]);
+  });
+});
+
+describe("cash flow statement", () => {
+  function setupCashBook(): BookData {
+    const book = createTestBook("Cash", "CNY", [
+      { parent: "assets", name: "Bank" },
+      { parent: "assets", name: "Wallet" },
+      { parent: "assets", name: "Broker" },
+      { parent: "assets:broker", name: "AAPL" },
+      { parent: "liabilities", name: "Card" },
+      { parent: "income", name: "Salary" },
+      { parent: "expenses", name: "Food" },
+    ]);
+    // 券商账户不是现金，与它的往来归入投资活动
+    return addTransfers(
+      {
+        ...book,
+        accounts: book.accounts.map((account) =>
+          account.path === "assets:broker"
+            ? { ...account, cashFlow: "investing" as const }
+            : account,
+        ),
+      },
+      [
+        ["2024-01-05", "assets:bank", "income:salary", 1000000],
+        ["2024-01-10", "expenses:food", "assets:bank", 20000],
+        ["2024-01-12", "expenses:food", "liabilities:card", 30000],
+        ["2024-01-20", "liabilities:card", "assets:bank", 30000],
+        ["2024-02-01", "assets:broker:aapl", "assets:bank", 500000],
+        ["2024-02-02", "assets:wallet", "assets:bank", 5000],
+      ],
+    );
+  }
+
+  it("inherits flags and falls back to the account type", () => {
+    const book = setupCashBook();
+    expect(getCashFlowRole(book, find(book, "assets:broker:aapl"))).toBe(
+      "investing",
+    );
+    expect(getCashFlowRole(book, find(book, "assets:wallet"))).toBe("cash");
+    expect(getCashFlowRole(book, find(book, "liabilities:card"))).toBe(
+      "financing",
+    );
+  });
+
+  it("classifies cash movements by counter account", () => {
+    const book = setupCashBook();
+    const statement = generateCashFlowStatement(book, {
+      start: "2024-01-01",
+      end: "2024-03-31",
+    });
+
+    const totals = Object.fromEntries(
+      statement.sections.map((section) => [section.activity, section.total]),
+    );
+    expect(totals).toEqual({
+      operating: 980000,
+      investing: -500000,
+      financing: -30000,
+    });
+    expect(
+      statement.sections[1].items.map((item) => item.account.path),
+    ).toEqual(["assets:broker:aapl"]);
+    expect(statement.netChange).toBe(450000);
+    expect(statement.openingCash).toBe(0);
+    expect(statement.closingCash).toBe(450000);
+    expect(statement.exchangeEffect).toBe(0);
+  });
+
+  it("classifies stock purchases as investing without flags", () => {
+    let book = createTestBook("Stocks", "USD", [
+      { parent: "assets", name: "Bank" },
+      { parent: "assets", name: "Broker" },
+      { parent: "assets:broker", name: "AAPL", commodity: "AAPL" },
+    ]);
+    book = addTransfers(book, [
+      ["2024-01-05", "assets:broker", "assets:bank", 200000],
+    ]);
+    book = addEntry(
+      book,
+      createEntry({
+        date: "2024-01-10",
+        description: "Buy AAPL",
+        lines: buildBuyLines({
+          holdingAccountId: find(book, "assets:broker:aapl").id,
+          cashAccountId: find(book, "assets:bank").id,
+          quantity: 10,
+          cost: 150000,
+        }),
+      }),
+    );
+
+    expect(getCashFlowRole(book, find(book, "assets:broker:aapl"))).toBe(
+      "investing",
+    );
+    expect(getCashFlowRole(book, find(book, "assets:broker"))).toBe(
+      "investing",
+    );
+    expect(getCashFlowRole(book, find(book, "assets:bank"))).toBe("cash");
+
+    const statement = generateCashFlowStatement(book, {
+      start: "2024-01-01",
+      end: "2024-01-31",
+    });
+    const investing = statement.sections.find(
+      (section) => section.activity === "investing",
+    )!;
+    expect(investing.total).toBe(-350000);
+    expect(investing.items.map((item) => item.account.path)).toEqual([
+      "assets:broker",
+      "assets:broker:aapl",
+    ]);
+    expect(statement.closingCash).toBe(-350000);
+  });
+});
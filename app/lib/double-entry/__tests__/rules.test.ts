@@ -0,0 +1,167 @@
+import { describe, expect, it } from "vitest";
+
+import { addEntry } from "../book";
+import { createSimpleEntry } from "../entry";
+import {
+  applyRules,
+  createRule,
+  isValidRulePattern,
+  matchesRule,
+  reapplyRules,
+} from "../rules";
+import type { BookData } from "../types";
+import { createTestBook, find } from "./helpers";
+
+function setupBook(): BookData {
+  return createTestBook("Rules", "CNY", [
+    { parent: "assets", name: "Alipay" },
+    { parent: "assets", name: "Bank" },
+    { parent: "expenses", name: "Other" },
+    { parent: "expenses", name: "Coffee" },
+    { parent: "expenses", name: "Travel", currency: "USD" },
+  ]);
+}
+
+describe("rule matching", () => {
+  const subject = {
+    description: "Latte x2",
+    payee: "STARBUCKS #1234",
+    amount: 6800,
+    accountIds: ["alipay"],
+  };
+
+  it("matches substrings case-insensitively on the chosen field", () => {
+    const rule = createRule({
+      name: "Coffee",
+      field: "payee",
+      mode: "contains",
+      pattern: "starbucks",
+    });
+    expect(matchesRule(rule, subject)).toBe(true);
+    expect(matchesRule({ ...rule, field: "description" }, subject)).toBe(false);
+    expect(matchesRule({ ...rule, enabled: false }, subject)).toBe(false);
+  });
+
+  it("supports regex, amount range and source account", () => {
+    const rule = createRule({
+      name: "Coffee",
+      field: "any",
+      mode: "regex",
+      pattern: "^latte",
+      amountRange: { max: 10000 },
+      sourceAccountId: "alipay",
+    });
+    expect(matchesRule(rule, subject)).toBe(true);
+    expect(matchesRule(rule, { ...subject, amount: 10001 })).toBe(false);
+    expect(matchesRule(rule, { ...subject, accountIds: ["bank"] })).toBe(false);
+    expect(isValidRulePattern({ mode: "regex", pattern: "(" })).toBe(false);
+    expect(matchesRule({ ...rule, pattern: "(" }, subject)).toBe(false);
+  });
+});
+
+describe("rule application", () => {
+  it("replaces the category, merges tags and normalizes the payee", () => {
+    const book = setupBook();
+    const entry = createSimpleEntry({
+      date: "2024-03-01",
+      description: "Latte",
+      debitAccountId: find(book, "expenses:other").id,
+      creditAccountId: find(book, "assets:alipay").id,
+      amount: 3400,
+      payee: "STARBUCKS #1234",
+      tags: ["daily"],
+    });
+    const rules = [
+      createRule({
+        name: "Disabled",
+        field: "any",
+        mode: "contains",
+        pattern: "",
+        enabled: false,
+      }),
+      createRule({
+        name: "Coffee",
+        field: "payee",
+        mode: "contains",
+        pattern: "starbucks",
+        targetAccountId: find(book, "expenses:coffee").id,
+        tags: ["coffee", "daily"],
+        payee: "Starbucks",
+      }),
+    ];
+
+    const result = applyRules(entry, rules, book.accounts);
+
+    expect(result.rule?.name).toBe("Coffee");
+    expect(result.entry.lines[0].accountId).toBe(
+      find(book, "expenses:coffee").id,
+    );
+    expect(result.entry.lines[1]).toEqual(entry.lines[1]);
+    expect(result.entry.tags).toEqual(["daily", "coffee"]);
+    expect(result.entry.payee).toBe("Starbucks");
+  });
+
+  it("keeps the category when the target currency differs", () => {
+    const book = setupBook();
+    const entry = createSimpleEntry({
+      date: "2024-03-01",
+      description: "Hotel",
+      debitAccountId: find(book, "expenses:other").id,
+      creditAccountId: find(book, "assets:bank").id,
+      amount: 50000,
+    });
+    const rule = createRule({
+      name: "Travel",
+      field: "description",
+      mode: "contains",
+      pattern: "hotel",
+      targetAccountId: find(book, "expenses:travel").id,
+      tags: ["trip"],
+    });
+
+    const result = applyRules(entry, [rule], book.accounts);
+
+    expect(result.entry.lines).toEqual(entry.lines);
+    expect(result.entry.tags).toEqual(["trip"]);
+  });
+
+  it("reports only changed entries when re-applying to a date range", () => {
+    let book = setupBook();
+    const other = find(book, "expenses:other").id;
+    const coffee = find(book, "expenses:coffee").id;
+    const alipay = find(book, "assets:alipay").id;
+    for (const [date, debitAccountId] of [
+      ["2024-02-28", other],
+      ["2024-03-02", other],
+      ["2024-03-03", coffee],
+    ]) {
+      book = addEntry(
+        book,
+        createSimpleEntry({
+          date,
+          description: "Latte",
+          debitAccountId,
+          creditAccountId: alipay,
+          amount: 3400,
+        }),
+      );
+    }
+    book.rules = [
+      createRule({
+        name: "Coffee",
+        field: "description",
+        mode: "contains",
+        pattern: "latte",
+        targetAccountId: coffee,
+      }),
+    ];
+
+    const changes = reapplyRules(book, {
+      dateRange: { start: "2024-03-01", end: "2024-03-31" },
+    });
+
+    expect(changes).toHaveLength(1);
+    expect(changes[0].before.date).toBe("2024-03-02");
+    expect(changes[0].after.lines[0].accountId).toBe(coffee);
+  });
+});
@@ -8,10 +8,26 @@ import type {
   JournalEntryData,
   CurrencyCode,
   AccountType,
+  BalanceDrift,
+  BalanceRebuildResult,
+  CostBasisMethod,
 } from "./types";
-import { createAccount, findAccountById, generateAccountId } from "./account";
-import { postEntry, unpostEntry, isBalanced } from "./entry";
-import { AccountType as AT } from "./types";
+import {
+  createAccount,
+  findAccountById,
+  generateAccountId,
+  isDebitIncreaseAccount,
+} from "./account";
+import {
+  postEntry,
+  unpostEntry,
+  isBalanced,
+  isMultiCurrencyEntry,
+} from "./entry";
+import { assertPeriodOpen } from "./closing";
+import { assertReconciledLinesKept, hasReconciledLines } from "./reconcile";
+import { normalizeCommodity } from "./holdings";
+import { AccountType as AT, EntryLineType as ELT } from "./types";
 
 /**
  * 生成账簿 ID
@@ -83,7 +99,9 @@ function createRootAccounts(
  */
 export function updateBook(
   book: BookData,
-  updates: Partial<Pick<BookData, "name" | "description" | "icon" | "archived">>,
+  updates: Partial<
+    Pick<BookData, "name" | "description" | "icon" | "archived">
+  >,
 ): BookData {
   return { ...book, ...updates, updatedAt: new Date().toISOString() };
 }
@@ -99,6 +117,8 @@ export function addAccount(
     currency?: CurrencyCode;
     icon?: string;
     note?: string;
+    commodity?: string;
+    costBasisMethod?: CostBasisMethod;
   },
 ): BookData {
   const parent = findAccountById(book.accounts, params.parentId);
@@ -117,6 +137,12 @@ export function addAccount(
   // 添加可选字段
   if (params.icon) account.icon = params.icon;
   if (params.note) account.note = params.note;
+  if (params.commodity?.trim()) {
+    account.commodity = normalizeCommodity(params.commodity);
+    if (params.costBasisMethod) {
+      account.costBasisMethod = params.costBasisMethod;
+    }
+  }
 
   return {
     ...book,
@@ -143,9 +169,10 @@ export function updateAccount(
 }
 
 /**
- * 添加分录并过账
+ * 添加分录并过账（日期不能在已结账期间内）
  */
 export function addEntry(book: BookData, entry: JournalEntryData): BookData {
+  assertPeriodOpen(book, entry.date);
   if (!isBalanced(entry)) {
     throw new Error(`Entry "${entry.description}" is not balanced`);
   }
@@ -169,6 +196,10 @@ export function removeEntry(book: BookData, entryId: string): BookData {
   if (!entry) {
     throw new Error(`Entry ${entryId} not found`);
   }
+  assertPeriodOpen(book, entry.date);
+  if (hasReconciledLines(entry)) {
+    throw new Error("Reconciled lines cannot be changed");
+  }
 
   // 撤销过账
   const updatedAccounts = unpostEntry(entry, book.accounts);
@@ -192,6 +223,9 @@ export function updateEntry(
   if (!oldEntry) {
     throw new Error(`Entry ${updatedEntry.id} not found`);
   }
+  // 原日期和新日期都不能在已结账期间内
+  assertPeriodOpen(book, oldEntry.date, updatedEntry.date);
+  assertReconciledLinesKept(oldEntry, updatedEntry);
 
   if (!isBalanced(updatedEntry)) {
     throw new Error(`Entry "${updatedEntry.description}" is not balanced`);
@@ -270,13 +304,78 @@ export function getProfit(book: BookData): number {
  * 验证会计恒等式：资产 + 支出 = 负债 + 权益 + 收入
  */
 export function verifyAccountingEquation(book: BookData): boolean {
-  const assets = getTypeBalance(book, AT.ASSETS);
-  const expenses = getTypeBalance(book, AT.EXPENSES);
-  const liabilities = getTypeBalance(book, AT.LIABILITIES);
-  const equity = getTypeBalance(book, AT.EQUITY);
-  const income = getTypeBalance(book, AT.INCOME);
+  // 按币种分别校验；跨币种分录在各币种上的借贷差额属于换算差额，需先扣除
+  const diffs = new Map<CurrencyCode, number>();
+  const add = (currency: CurrencyCode, amount: number) => {
+    diffs.set(currency, (diffs.get(currency) ?? 0) + amount);
+  };
+
+  for (const account of book.accounts) {
+    add(
+      account.currency,
+      isDebitIncreaseAccount(account.type) ? account.balance : -account.balance,
+    );
+  }
+
+  const accountMap = new Map(book.accounts.map((a) => [a.id, a]));
+  for (const entry of book.entries) {
+    if (entry.deletedAt || !isMultiCurrencyEntry(entry)) continue;
+    for (const line of entry.lines) {
+      const currency =
+        line.currency ?? accountMap.get(line.accountId)?.currency;
+      if (!currency) continue;
+      add(currency, line.type === ELT.DEBIT ? -line.amount : line.amount);
+    }
+  }
+
+  return [...diffs.values()].every((diff) => diff === 0);
+}
+
+/**
+ * 重建余额：所有账户余额置 0，按日期顺序重放未删除的分录
+ *
+ * 返回重建后的账户，以及与缓存余额存在偏差的账户列表
+ */
+export function rebuildBalances(book: BookData): BalanceRebuildResult {
+  let accounts = book.accounts.map((a) => ({ ...a, balance: 0 }));
+  const entries = book.entries
+    .filter((e) => !e.deletedAt)
+    .sort(
+      (a, b) =>
+        a.date.localeCompare(b.date) || a.createdAt.localeCompare(b.createdAt),
+    );
+
+  let replayedCount = 0;
+  const skippedEntries: BalanceRebuildResult["skippedEntries"] = [];
+  for (const entry of entries) {
+    try {
+      accounts = postEntry(entry, accounts);
+      replayedCount++;
+    } catch (error) {
+      skippedEntries.push({
+        entryId: entry.id,
+        reason: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  const rebuiltMap = new Map(accounts.map((a) => [a.id, a.balance]));
+  const drifts: BalanceDrift[] = [];
+  for (const account of book.accounts) {
+    const rebuilt = rebuiltMap.get(account.id) ?? 0;
+    if (rebuilt !== account.balance) {
+      drifts.push({
+        accountId: account.id,
+        path: account.path,
+        currency: account.currency,
+        cached: account.balance,
+        rebuilt,
+        drift: account.balance - rebuilt,
+      });
+    }
+  }
 
-  return assets + expenses === liabilities + equity + income;
+  return { accounts, drifts, replayedCount, skippedEntries };
 }
 
 /**
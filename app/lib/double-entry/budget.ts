@@ -0,0 +1,172 @@
+/**
+ * 预算
+ *
+ * 按周期（月 / 季 / 年）统计支出账户和标签的实际支出，支持未用额度结转，
+ * 并按当前支出速度预测到期末的支出。
+ */
+
+import type { BookData, Budget, BudgetPeriod, DateRange } from "./types";
+import { AccountType } from "./types";
+import { getAccountWithDescendants } from "./query";
+import { calculatePeriodSummary, getPeriodRange } from "./report";
+
+/**
+ * 预算执行情况（金额均为最小单位）
+ */
+export interface BudgetStatus {
+  budget: Budget;
+  /** 当前周期 */
+  range: DateRange;
+  /** 之前周期结转的额度 */
+  carried: number;
+  /** 本期可用额度 = 预算 + 结转 */
+  available: number;
+  spent: number;
+  remaining: number;
+  /** 已用比例（超支时大于 1） */
+  progress: number;
+  /** 按当前支出速度预测的期末支出 */
+  forecast: number;
+  overspent: boolean;
+  forecastOverspent: boolean;
+}
+
+const DAY_MS = 86400000;
+
+function addDays(date: string, days: number): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().split("T")[0];
+}
+
+function daysBetween(start: string, end: string): number {
+  return Math.round(
+    (Date.parse(`${end}T00:00:00Z`) - Date.parse(`${start}T00:00:00Z`)) /
+      DAY_MS,
+  );
+}
+
+/**
+ * 生成预算 ID
+ */
+export function generateBudgetId(): string {
+  return crypto.randomUUID();
+}
+
+/**
+ * 创建预算
+ */
+export function createBudget(params: Omit<Budget, "id">): Budget {
+  return { ...params, id: generateBudgetId() };
+}
+
+/**
+ * 获取日期所在的预算周期
+ */
+export function getBudgetPeriodRange(
+  date: string,
+  period: BudgetPeriod,
+): DateRange {
+  const [year, month] = date.split("-").map(Number);
+  switch (period) {
+    case "month":
+      return getPeriodRange(year, "month", month);
+    case "quarter":
+      return getPeriodRange(year, "quarter", Math.ceil(month / 3));
+    case "year":
+      return getPeriodRange(year, "year");
+  }
+}
+
+/**
+ * 预算统计的账户：指定账户及其子账户中的支出账户，未指定时为全部支出账户
+ */
+export function getBudgetAccountIds(book: BookData, budget: Budget): string[] {
+  const accounts = budget.accountIds?.length
+    ? budget.accountIds.flatMap((id) => getAccountWithDescendants(book, id))
+    : book.accounts;
+  return [
+    ...new Set(
+      accounts
+        .filter((account) => account.type === AccountType.EXPENSES)
+        .map((account) => account.id),
+    ),
+  ];
+}
+
+/**
+ * 计算预算在某个周期内的实际支出
+ */
+export function calculateBudgetSpent(
+  book: BookData,
+  budget: Budget,
+  range: DateRange,
+): number {
+  return calculatePeriodSummary(book, range, {
+    accountIds: getBudgetAccountIds(book, budget),
+    tags: budget.tags?.length ? budget.tags : undefined,
+  }).expenses;
+}
+
+// 从开始日期所在周期累计到上一周期；超支只把结转清零，不从下一期扣减
+function calculateCarried(
+  book: BookData,
+  budget: Budget,
+  range: DateRange,
+): number {
+  if (!budget.rollover) return 0;
+  let carried = 0;
+  let current = getBudgetPeriodRange(budget.startDate, budget.period);
+  while (current.start < range.start) {
+    const spent = calculateBudgetSpent(book, budget, current);
+    carried = Math.max(0, budget.amount + carried - spent);
+    current = getBudgetPeriodRange(addDays(current.end, 1), budget.period);
+  }
+  return carried;
+}
+
+/**
+ * 计算预算在指定日期所在周期的执行情况
+ */
+export function calculateBudgetStatus(
+  book: BookData,
+  budget: Budget,
+  asOf: string,
+): BudgetStatus {
+  const range = getBudgetPeriodRange(asOf, budget.period);
+  const carried = calculateCarried(book, budget, range);
+  const available = budget.amount + carried;
+  const spent = calculateBudgetSpent(book, budget, range);
+
+  const totalDays = daysBetween(range.start, range.end) + 1;
+  const elapsedDays = Math.min(
+    totalDays,
+    Math.max(1, daysBetween(range.start, asOf) + 1),
+  );
+  const forecast = Math.round((spent / elapsedDays) * totalDays);
+
+  return {
+    budget,
+    range,
+    carried,
+    available,
+    spent,
+    remaining: available - spent,
+    progress: available > 0 ? spent / available : spent > 0 ? Infinity : 0,
+    forecast,
+    overspent: spent > available,
+    forecastOverspent: forecast > available,
+  };
+}
+
+/**
+ * 计算账簿全部预算的执行情况
+ */
+export function calculateBudgetStatuses(
+  book: BookData,
+  asOf: string,
+): BudgetStatus[] {
+  return (book.budgets ?? []).map((budget) =>
+    calculateBudgetStatus(book, budget, asOf),
+  );
+}
@@ -0,0 +1,364 @@
+/**
+ * 结账
+ *
+ * 结账时把截至结账日的收入、支出余额结转到权益下的留存收益账户，
+ * 并锁定结账日（含）之前的分录；只有重新打开该期间后才能修改。
+ */
+
+import type {
+  AccountData,
+  BookData,
+  CurrencyCode,
+  EntryLineData,
+  JournalEntryData,
+  PeriodClosing,
+} from "./types";
+import { AccountType, EntryLineType } from "./types";
+import {
+  createAccount,
+  createAccountPath,
+  isDebitIncreaseAccount,
+} from "./account";
+import { convertCurrency, getCurrencyMultiplier } from "./currency";
+import { createEntry, postEntry, unpostEntry } from "./entry";
+
+// ============================================================================
+// 期间锁定
+// ============================================================================
+
+/**
+ * 期间已结账：分录日期不晚于锁定日期时拒绝写入
+ */
+export class PeriodLockedError extends Error {
+  /** 当前锁定日期 */
+  readonly lockDate: string;
+  /** 被拒绝的分录日期 */
+  readonly date: string;
+
+  constructor(params: { lockDate: string; date: string }) {
+    super(`Period is closed through ${params.lockDate} (${params.date})`);
+    this.name = "PeriodLockedError";
+    this.lockDate = params.lockDate;
+    this.date = params.date;
+  }
+}
+
+export function isPeriodLockedError(
+  error: unknown,
+): error is PeriodLockedError {
+  return error instanceof PeriodLockedError;
+}
+
+/**
+ * 获取锁定日期（最后一次结账的日期），未结账时为 null
+ */
+export function getLockDate(book: Pick<BookData, "closings">): string | null {
+  const closings = book.closings ?? [];
+  return closings.length > 0 ? closings[closings.length - 1].date : null;
+}
+
+/**
+ * 日期是否已锁定
+ */
+export function isDateLocked(
+  book: Pick<BookData, "closings">,
+  date: string,
+): boolean {
+  const lockDate = getLockDate(book);
+  return lockDate !== null && date <= lockDate;
+}
+
+/**
+ * 校验日期都在未结账期间，否则抛出 PeriodLockedError
+ */
+export function assertPeriodOpen(
+  book: Pick<BookData, "closings">,
+  ...dates: string[]
+) {
+  const lockDate = getLockDate(book);
+  if (lockDate === null) return;
+  for (const date of dates) {
+    if (date <= lockDate) {
+      throw new PeriodLockedError({ lockDate, date });
+    }
+  }
+}
+
+/**
+ * 是否为结账生成的结转分录
+ */
+export function isClosingEntry(
+  book: Pick<BookData, "closings">,
+  entryId: string,
+): boolean {
+  return (book.closings ?? []).some((closing) => closing.entryId === entryId);
+}
+
+// ============================================================================
+// 留存收益账户
+// ============================================================================
+
+export const RETAINED_EARNINGS_ACCOUNT_NAME = "Retained Earnings";
+
+/** 留存收益账户路径 */
+const RETAINED_EARNINGS_ACCOUNT_PATH = createAccountPath(
+  AccountType.EQUITY,
+  RETAINED_EARNINGS_ACCOUNT_NAME,
+);
+
+/**
+ * 查找留存收益账户
+ */
+export function findRetainedEarningsAccount(
+  accounts: AccountData[],
+): AccountData | undefined {
+  return accounts.find((a) => a.path === RETAINED_EARNINGS_ACCOUNT_PATH);
+}
+
+/**
+ * 创建留存收益账户（权益根账户下）
+ *
+ * 结转净额按本位币入账，账户币种为 baseCurrency，不跟随权益根账户
+ */
+export function createRetainedEarningsAccount(
+  accounts: AccountData[],
+  baseCurrency: CurrencyCode,
+): AccountData {
+  const equityRoot = accounts.find(
+    (a) => a.type === AccountType.EQUITY && a.parentId === null,
+  );
+  if (!equityRoot) {
+    throw new Error("Equity root account not found");
+  }
+  return createAccount({
+    name: RETAINED_EARNINGS_ACCOUNT_NAME,
+    type: AccountType.EQUITY,
+    currency: baseCurrency,
+    parentId: equityRoot.id,
+    parentPath: equityRoot.path,
+  });
+}
+
+// ============================================================================
+// 结转分录
+// ============================================================================
+
+// 截至日期的收入、支出余额：账户币种金额与历史本位币金额，按正常方向取正负
+// 外币行没有记录本位币金额且找不到汇率时抛错，不按 1:1 折算
+function getClosingBalances(
+  book: BookData,
+  date: string,
+): Array<{ account: AccountData; amount: number; baseAmount: number }> {
+  const accountMap = new Map(book.accounts.map((a) => [a.id, a]));
+  const balances = new Map<string, { amount: number; baseAmount: number }>();
+
+  for (const entry of book.entries) {
+    if (entry.deletedAt || entry.date > date) continue;
+    for (const line of entry.lines) {
+      const account = accountMap.get(line.accountId);
+      if (
+        !account ||
+        (account.type !== AccountType.INCOME &&
+          account.type !== AccountType.EXPENSES)
+      ) {
+        continue;
+      }
+      const baseAmount =
+        line.baseAmount ??
+        (account.currency === book.defaultCurrency
+          ? line.amount
+          : convertCurrency(
+              line.amount,
+              account.currency,
+              book.defaultCurrency,
+              book.exchangeRates,
+              entry.date,
+            ));
+      if (baseAmount === null) {
+        throw new Error(
+          `Exchange rate not found: ${account.currency}/${book.defaultCurrency}`,
+        );
+      }
+      const sign =
+        (line.type === EntryLineType.DEBIT) ===
+        isDebitIncreaseAccount(account.type)
+          ? 1
+          : -1;
+      const current = balances.get(account.id) ?? { amount: 0, baseAmount: 0 };
+      balances.set(account.id, {
+        amount: current.amount + sign * line.amount,
+        baseAmount: current.baseAmount + sign * baseAmount,
+      });
+    }
+  }
+
+  return [...balances.entries()]
+    .filter(([, balance]) => balance.amount !== 0)
+    .map(([accountId, balance]) => ({
+      account: accountMap.get(accountId)!,
+      ...balance,
+    }));
+}
+
+// 由本位币金额反推汇率
+function getLineRate(
+  amount: number,
+  baseAmount: number,
+  currency: CurrencyCode,
+  baseCurrency: CurrencyCode,
+): number {
+  return (
+    baseAmount /
+    getCurrencyMultiplier(baseCurrency) /
+    (amount / getCurrencyMultiplier(currency))
+  );
+}
+
+/**
+ * 生成结转分录：把截至 date 的收入、支出余额清零，差额记入留存收益
+ *
+ * 全部账户为本位币时生成普通分录；否则每行记录本位币金额（按历史折算），
+ * 留存收益按本位币净额入账。description 由调用方按界面语言生成。
+ * 没有需要结转的余额时返回 null
+ */
+export function buildClosingEntry(
+  book: BookData,
+  date: string,
+  retainedEarningsAccountId: string,
+  description: string,
+): JournalEntryData | null {
+  const balances = getClosingBalances(book, date);
+  if (balances.length === 0) return null;
+
+  const baseCurrency = book.defaultCurrency;
+  const multiCurrency = balances.some(
+    ({ account }) => account.currency !== baseCurrency,
+  );
+  const lines: EntryLineData[] = [];
+  let netIncome = 0;
+
+  for (const { account, amount, baseAmount } of balances) {
+    const isIncome = account.type === AccountType.INCOME;
+    netIncome += isIncome ? baseAmount : -baseAmount;
+    // 收入余额借记清零，支出余额贷记清零；余额为负时方向相反
+    const type =
+      isIncome === amount > 0 ? EntryLineType.DEBIT : EntryLineType.CREDIT;
+    const line: EntryLineData = {
+      accountId: account.id,
+      amount: Math.abs(amount),
+      type,
+    };
+    if (multiCurrency) {
+      line.currency = account.currency;
+      line.baseAmount = Math.abs(baseAmount);
+      line.rate = getLineRate(
+        line.amount,
+        line.baseAmount,
+        account.currency,
+        baseCurrency,
+      );
+    }
+    lines.push(line);
+  }
+
+  if (netIncome !== 0) {
+    const amount = Math.abs(netIncome);
+    const line: EntryLineData = {
+      accountId: retainedEarningsAccountId,
+      amount,
+      type: netIncome > 0 ? EntryLineType.CREDIT : EntryLineType.DEBIT,
+    };
+    if (multiCurrency) {
+      line.currency = baseCurrency;
+      line.rate = 1;
+      line.baseAmount = amount;
+    }
+    lines.push(line);
+  }
+
+  return createEntry({ date, description, lines });
+}
+
+/**
+ * 结账：生成并过账结转分录，锁定截至 date 的期间
+ *
+ * date 必须晚于当前锁定日期；留存收益账户不存在时自动创建
+ */
+export function closePeriod(
+  book: BookData,
+  date: string,
+  description: string,
+  closedBy?: string,
+): BookData {
+  assertPeriodOpen(book, date);
+
+  let accounts = book.accounts;
+  let retainedEarnings = findRetainedEarningsAccount(accounts);
+  if (!retainedEarnings) {
+    retainedEarnings = createRetainedEarningsAccount(
+      accounts,
+      book.defaultCurrency,
+    );
+    accounts = [...accounts, retainedEarnings];
+  }
+
+  const entry = buildClosingEntry(
+    { ...book, accounts },
+    date,
+    retainedEarnings.id,
+    description,
+  );
+  const now = new Date().toISOString();
+  const closing: PeriodClosing = { date, closedAt: now };
+  if (entry) closing.entryId = entry.id;
+  if (closedBy) closing.closedBy = closedBy;
+
+  return {
+    ...book,
+    accounts: entry ? postEntry(entry, accounts) : accounts,
+    entries: entry ? [...book.entries, entry] : book.entries,
+    closings: [...(book.closings ?? []), closing],
+    updatedAt: now,
+  };
+}
+
+/**
+ * 重新打开最后一次结账的期间：撤销并删除其结转分录
+ */
+export function reopenPeriod(book: BookData): BookData {
+  const closings = book.closings ?? [];
+  const closing = closings[closings.length - 1];
+  if (!closing) {
+    throw new Error("No closed period");
+  }
+
+  const entry = closing.entryId
+    ? book.entries.find((e) => e.id === closing.entryId)
+    : undefined;
+
+  return {
+    ...book,
+    accounts: entry ? unpostEntry(entry, book.accounts) : book.accounts,
+    entries: entry
+      ? book.entries.filter((e) => e.id !== entry.id)
+      : book.entries,
+    closings: closings.slice(0, -1),
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * 查找违反锁定的分录：日期在某次结账日期之前，却在结账之后写入
+ */
+export function findLockViolations(book: BookData): JournalEntryData[] {
+  const closings = book.closings ?? [];
+  return book.entries.filter(
+    (entry) =>
+      !entry.deletedAt &&
+      !isClosingEntry(book, entry.id) &&
+      closings.some(
+        (closing) =>
+          entry.date <= closing.date && entry.updatedAt > closing.closedAt,
+      ),
+  );
+}
@@ -0,0 +1,144 @@
+/**
+ * 公司行动
+ *
+ * 拆股（合股）从生效日起调整持仓批次的数量，成本不变（每股成本随之变化）；
+ * 代码变更记录持仓账户在不同日期使用的代码。二者都没有资金变动，记录在
+ * 账簿元数据中而不是分录里。
+ */
+
+import type { AccountData, BookData, CorporateAction } from "./types";
+import type { HoldingLot } from "./holdings";
+import { roundQuantity } from "./cost-basis";
+import { normalizeCommodity } from "./holdings";
+
+/**
+ * 生成公司行动 ID
+ */
+export function generateCorporateActionId(): string {
+  return crypto.randomUUID();
+}
+
+/**
+ * 创建拆股（合股）记录，ratio 为新数量 / 旧数量
+ */
+export function createSplitAction(params: {
+  accountId: string;
+  date: string;
+  ratio: number;
+  note?: string;
+}): CorporateAction {
+  if (!Number.isFinite(params.ratio) || params.ratio <= 0) {
+    throw new Error("Split ratio must be greater than 0");
+  }
+  const action: CorporateAction = {
+    id: generateCorporateActionId(),
+    kind: "split",
+    accountId: params.accountId,
+    date: params.date,
+    ratio: params.ratio,
+    createdAt: new Date().toISOString(),
+  };
+  if (params.note) action.note = params.note;
+  return action;
+}
+
+/**
+ * 创建代码变更记录
+ */
+export function createSymbolChangeAction(params: {
+  accountId: string;
+  date: string;
+  fromSymbol: string;
+  toSymbol: string;
+  note?: string;
+}): CorporateAction {
+  const fromSymbol = normalizeCommodity(params.fromSymbol);
+  const toSymbol = normalizeCommodity(params.toSymbol);
+  if (!toSymbol || toSymbol === fromSymbol) {
+    throw new Error("New symbol must be different");
+  }
+  const action: CorporateAction = {
+    id: generateCorporateActionId(),
+    kind: "symbolChange",
+    accountId: params.accountId,
+    date: params.date,
+    fromSymbol,
+    toSymbol,
+    createdAt: new Date().toISOString(),
+  };
+  if (params.note) action.note = params.note;
+  return action;
+}
+
+/**
+ * 持仓账户的公司行动（按生效日期、创建时间排序）
+ */
+export function getCorporateActions(
+  book: Pick<BookData, "corporateActions">,
+  accountId: string,
+  kind?: CorporateAction["kind"],
+): CorporateAction[] {
+  return (book.corporateActions ?? [])
+    .filter(
+      (action) =>
+        action.accountId === accountId && (!kind || action.kind === kind),
+    )
+    .sort(
+      (a, b) =>
+        a.date.localeCompare(b.date) || a.createdAt.localeCompare(b.createdAt),
+    );
+}
+
+/**
+ * 按拆股比例调整批次数量，成本不变
+ */
+export function applySplit(lots: HoldingLot[], ratio: number): HoldingLot[] {
+  return lots.map((lot) => ({
+    ...lot,
+    quantity: roundQuantity(lot.quantity * ratio),
+  }));
+}
+
+/**
+ * 持仓账户在日期当天使用的代码（之后发生代码变更时取变更前的代码）
+ */
+export function getSymbolAt(
+  book: Pick<BookData, "corporateActions">,
+  account: AccountData,
+  date: string,
+): string {
+  const next = getCorporateActions(book, account.id, "symbolChange").find(
+    (action) => action.date > date,
+  );
+  return next?.fromSymbol ?? account.commodity ?? "";
+}
+
+/**
+ * 记录公司行动；代码变更同时更新持仓账户的代码
+ */
+export function applyCorporateAction(
+  book: BookData,
+  action: CorporateAction,
+): BookData {
+  const account = book.accounts.find((a) => a.id === action.accountId);
+  if (!account?.commodity) {
+    throw new Error("Holding account not found");
+  }
+  return {
+    ...book,
+    accounts:
+      action.kind === "symbolChange"
+        ? book.accounts.map((a) =>
+            a.id === account.id
+              ? {
+                  ...a,
+                  commodity: action.toSymbol,
+                  updatedAt: action.createdAt,
+                }
+              : a,
+          )
+        : book.accounts,
+    corporateActions: [...(book.corporateActions ?? []), action],
+    updatedAt: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,156 @@
+/**
+ * 持仓成本计算
+ *
+ * 卖出时按账户的成本方法（先进先出、后进先出、加权平均、指定批次）匹配
+ * 买入批次，得到卖出成本和每个批次被卖出的部分，用于计算已实现盈亏。
+ */
+
+import type { HoldingLot } from "./holdings";
+import type { CostBasisMethod, LotSelection } from "./types";
+
+/**
+ * 卖出匹配到的批次部分
+ */
+export interface LotMatch {
+  /** 匹配前的批次 */
+  lot: HoldingLot;
+  quantity: number;
+  /** 分摊的成本（最小单位） */
+  cost: number;
+}
+
+/**
+ * 批次匹配结果
+ */
+export interface LotMatchResult {
+  /** 剩余批次（保持买入顺序） */
+  lots: HoldingLot[];
+  matches: LotMatch[];
+  /** 卖出成本合计 */
+  cost: number;
+  /** 持仓不足时未匹配的数量 */
+  shortfall: number;
+}
+
+export const COST_BASIS_METHODS: CostBasisMethod[] = [
+  "fifo",
+  "lifo",
+  "average",
+  "specific",
+];
+
+/** 数量保留的小数位（碎股、加密货币） */
+const QUANTITY_PRECISION = 1e8;
+
+/**
+ * 数量取整到 8 位小数，避免浮点误差累积
+ */
+export function roundQuantity(quantity: number): number {
+  return Math.round(quantity * QUANTITY_PRECISION) / QUANTITY_PRECISION;
+}
+
+/**
+ * 批次标识（买入分录 ID + 行位置）
+ */
+export function getLotKey(lot: Pick<HoldingLot, "entryId" | "lineIndex">) {
+  return `${lot.entryId}:${lot.lineIndex}`;
+}
+
+// 按顺序从批次中取出数量，limit 为每个批次最多取出的数量
+function relieveInOrder(
+  lots: HoldingLot[],
+  picks: Array<{ index: number; limit: number }>,
+  quantity: number,
+): LotMatchResult {
+  let rest = roundQuantity(quantity);
+  let cost = 0;
+  const matches: LotMatch[] = [];
+  const next: Array<HoldingLot | null> = [...lots];
+
+  for (const { index, limit } of picks) {
+    if (rest <= 0) break;
+    const lot = next[index];
+    if (!lot) continue;
+    const taken = roundQuantity(Math.min(lot.quantity, limit, rest));
+    if (taken <= 0) continue;
+    // 部分卖出的批次按数量比例分摊成本
+    const takenCost =
+      taken === lot.quantity
+        ? lot.cost
+        : Math.round((lot.cost * taken) / lot.quantity);
+    matches.push({ lot, quantity: taken, cost: takenCost });
+    cost += takenCost;
+    rest = roundQuantity(rest - taken);
+    next[index] =
+      taken === lot.quantity
+        ? null
+        : {
+            ...lot,
+            quantity: roundQuantity(lot.quantity - taken),
+            cost: lot.cost - takenCost,
+          };
+  }
+
+  return {
+    lots: next.filter((lot): lot is HoldingLot => lot !== null),
+    matches,
+    cost,
+    shortfall: rest,
+  };
+}
+
+/**
+ * 把批次成本重新分摊为平均成本（尾差计入最后一个批次）
+ */
+export function averageLots(lots: HoldingLot[]): HoldingLot[] {
+  const quantity = lots.reduce((sum, lot) => sum + lot.quantity, 0);
+  const cost = lots.reduce((sum, lot) => sum + lot.cost, 0);
+  if (quantity <= 0) return lots;
+  let allocated = 0;
+  return lots.map((lot, index) => {
+    const lotCost =
+      index === lots.length - 1
+        ? cost - allocated
+        : Math.round((cost * lot.quantity) / quantity);
+    allocated += lotCost;
+    return { ...lot, cost: lotCost };
+  });
+}
+
+/**
+ * 按成本方法从批次中卖出 quantity
+ *
+ * specific 按 selections 依次取出指定批次，没有指定时按先进先出；
+ * 指定的批次不存在或数量不足时差额计入 shortfall
+ */
+export function matchLots(
+  lots: HoldingLot[],
+  quantity: number,
+  method: CostBasisMethod = "fifo",
+  selections?: LotSelection[],
+): LotMatchResult {
+  const inOrder = (indexes: number[]) =>
+    indexes.map((index) => ({ index, limit: Infinity }));
+  const indexes = lots.map((_, index) => index);
+
+  switch (method) {
+    case "lifo":
+      return relieveInOrder(lots, inOrder([...indexes].reverse()), quantity);
+    case "average":
+      return relieveInOrder(averageLots(lots), inOrder(indexes), quantity);
+    case "specific": {
+      if (!selections || selections.length === 0) break;
+      const keys = lots.map(getLotKey);
+      const picks = selections.map((selection) => ({
+        index: keys.indexOf(getLotKey(selection)),
+        limit: selection.quantity,
+      }));
+      return relieveInOrder(
+        lots,
+        picks.filter((pick) => pick.index >= 0),
+        quantity,
+      );
+    }
+  }
+  return relieveInOrder(lots, inOrder(indexes), quantity);
+}
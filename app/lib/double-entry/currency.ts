@@ -88,6 +88,27 @@ export function getExchangeRate(
   return null;
 }
 
+/**
+ * 缺少汇率：金额无法折算为目标币种
+ */
+export class MissingExchangeRateError extends Error {
+  readonly from: CurrencyCode;
+  readonly to: CurrencyCode;
+
+  constructor(params: { from: CurrencyCode; to: CurrencyCode }) {
+    super(`Exchange rate not found: ${params.from}/${params.to}`);
+    this.name = "MissingExchangeRateError";
+    this.from = params.from;
+    this.to = params.to;
+  }
+}
+
+export function isMissingExchangeRateError(
+  error: unknown,
+): error is MissingExchangeRateError {
+  return error instanceof MissingExchangeRateError;
+}
+
 /**
  * 货币转换（最小单位）
  */
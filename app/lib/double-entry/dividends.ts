@@ -0,0 +1,307 @@
+/**
+ * 股息
+ *
+ * 现金股息借资金账户、贷股息收入账户；股息再投资（DRIP）借持仓账户（数量、
+ * 成本）、贷股息收入账户，形成一个新的批次。股息分录带 holdingEvent，
+ * 并以品种代码为标签。股息日历和成本收益率（yield on cost）基于这些分录。
+ */
+
+import type {
+  AccountData,
+  BookData,
+  CurrencyCode,
+  EntryLineData,
+  HoldingEvent,
+  JournalEntryData,
+} from "./types";
+import { AccountType, EntryLineType } from "./types";
+import { getCurrencyMultiplier } from "./currency";
+import { roundQuantity } from "./cost-basis";
+import { getCorporateActions } from "./corporate-actions";
+import { getHoldingLots, getHoldings } from "./holdings";
+
+/**
+ * 一笔股息（金额为最小单位，持仓账户币种）
+ */
+export interface DividendPayment {
+  entry: JournalEntryData;
+  account: AccountData;
+  kind: HoldingEvent["kind"];
+  date: string;
+  amount: number;
+  /** 股息再投资买入的数量 */
+  quantity?: number;
+}
+
+/**
+ * 股息日历中一个持仓的一行，months 为 1-12 月的金额
+ */
+export interface DividendCalendarRow {
+  accountId: string;
+  symbol: string;
+  currency: CurrencyCode;
+  months: number[];
+  /** 按上一年同月每股股息和当前持仓估算的月份 */
+  projected: boolean[];
+  total: number;
+}
+
+/**
+ * 年度股息日历
+ */
+export interface DividendCalendar {
+  year: number;
+  rows: DividendCalendarRow[];
+}
+
+/**
+ * 持仓的成本收益率
+ */
+export interface YieldOnCost {
+  accountId: string;
+  symbol: string;
+  currency: CurrencyCode;
+  quantity: number;
+  cost: number;
+  /** 近 12 个月收到的股息 */
+  trailingDividends: number;
+  /** 近 12 个月股息 / 成本 */
+  trailingYield: number | null;
+  /** 按行情股息率估算的年股息 / 成本 */
+  forwardYield: number | null;
+}
+
+// ============================================================================
+// 股息分录
+// ============================================================================
+
+/**
+ * 生成股息分录行：现金股息借资金账户，传入 reinvestQuantity 时为股息
+ * 再投资，借持仓账户（数量、成本）；贷方均为股息收入账户
+ */
+export function buildDividendLines(params: {
+  holdingAccountId: string;
+  incomeAccountId: string;
+  /** 股息金额（最小单位，税后） */
+  amount: number;
+  cashAccountId?: string;
+  reinvestQuantity?: number;
+}): EntryLineData[] {
+  const income: EntryLineData = {
+    accountId: params.incomeAccountId,
+    type: EntryLineType.CREDIT,
+    amount: params.amount,
+  };
+  if (params.reinvestQuantity !== undefined) {
+    return [
+      {
+        accountId: params.holdingAccountId,
+        type: EntryLineType.DEBIT,
+        amount: params.amount,
+        quantity: roundQuantity(params.reinvestQuantity),
+      },
+      income,
+    ];
+  }
+  if (!params.cashAccountId) {
+    throw new Error("Cash account is required");
+  }
+  return [
+    {
+      accountId: params.cashAccountId,
+      type: EntryLineType.DEBIT,
+      amount: params.amount,
+    },
+    income,
+  ];
+}
+
+/**
+ * 全部股息（按日期排序）：带 holdingEvent 的分录中收入行的净额
+ */
+export function getDividendPayments(book: BookData): DividendPayment[] {
+  const accounts = new Map(book.accounts.map((a) => [a.id, a]));
+  const payments: DividendPayment[] = [];
+
+  for (const entry of book.entries) {
+    const event = entry.holdingEvent;
+    if (!event || entry.deletedAt) continue;
+    const account = accounts.get(event.accountId);
+    if (!account) continue;
+
+    const amount = entry.lines.reduce((sum, line) => {
+      if (accounts.get(line.accountId)?.type !== AccountType.INCOME) {
+        return sum;
+      }
+      return (
+        sum + (line.type === EntryLineType.CREDIT ? line.amount : -line.amount)
+      );
+    }, 0);
+    const payment: DividendPayment = {
+      entry,
+      account,
+      kind: event.kind,
+      date: entry.date,
+      amount,
+    };
+    const reinvested = entry.lines.find(
+      (line) =>
+        line.accountId === account.id && line.type === EntryLineType.DEBIT,
+    );
+    if (event.kind === "drip" && reinvested?.quantity) {
+      payment.quantity = reinvested.quantity;
+    }
+    payments.push(payment);
+  }
+
+  return payments.sort(
+    (a, b) =>
+      a.date.localeCompare(b.date) ||
+      a.entry.createdAt.localeCompare(b.entry.createdAt),
+  );
+}
+
+// ============================================================================
+// 股息日历
+// ============================================================================
+
+// 持仓数量（含日期之前的拆股）
+function getQuantityAt(book: BookData, accountId: string, date?: string) {
+  return roundQuantity(
+    getHoldingLots(book, accountId, date).reduce(
+      (sum, lot) => sum + lot.quantity,
+      0,
+    ),
+  );
+}
+
+// 日期之后到 until（含）之间的拆股比例乘积
+function getSplitFactor(
+  book: BookData,
+  accountId: string,
+  after: string,
+  until: string,
+): number {
+  return getCorporateActions(book, accountId, "split")
+    .filter((action) => action.date > after && action.date <= until)
+    .reduce((factor, action) => factor * (action.ratio ?? 1), 1);
+}
+
+/**
+ * 年度股息日历：按持仓和月份汇总收到的股息
+ *
+ * today 所在年份中今天之后的月份，按上一年同月的每股股息（拆股调整后）
+ * 乘以当前持仓估算，projected 标记估算的月份
+ */
+export function buildDividendCalendar(
+  book: BookData,
+  year: number,
+  today: string,
+): DividendCalendar {
+  const rows = new Map<string, DividendCalendarRow>();
+  const getRow = (account: AccountData) => {
+    let row = rows.get(account.id);
+    if (!row) {
+      row = {
+        accountId: account.id,
+        symbol: account.commodity ?? account.name,
+        currency: account.currency,
+        months: Array(12).fill(0),
+        projected: Array(12).fill(false),
+        total: 0,
+      };
+      rows.set(account.id, row);
+    }
+    return row;
+  };
+
+  const payments = getDividendPayments(book);
+  for (const payment of payments) {
+    if (!payment.date.startsWith(`${year}-`)) continue;
+    const row = getRow(payment.account);
+    row.months[Number(payment.date.slice(5, 7)) - 1] += payment.amount;
+  }
+
+  const currentMonth = Number(today.slice(5, 7));
+  if (Number(today.slice(0, 4)) === year) {
+    for (const payment of payments) {
+      if (!payment.date.startsWith(`${year - 1}-`)) continue;
+      const month = Number(payment.date.slice(5, 7));
+      if (month <= currentMonth) continue;
+      const heldThen =
+        getQuantityAt(book, payment.account.id, payment.date) *
+        getSplitFactor(book, payment.account.id, payment.date, today);
+      const heldNow = getQuantityAt(book, payment.account.id, today);
+      if (heldThen <= 0 || heldNow <= 0) continue;
+      const row = getRow(payment.account);
+      row.months[month - 1] += Math.round(
+        (payment.amount * heldNow) / heldThen,
+      );
+      row.projected[month - 1] = true;
+    }
+  }
+
+  for (const row of rows.values()) {
+    row.total = row.months.reduce((sum, amount) => sum + amount, 0);
+  }
+  return {
+    year,
+    rows: [...rows.values()].sort((a, b) => a.symbol.localeCompare(b.symbol)),
+  };
+}
+
+// ============================================================================
+// 成本收益率
+// ============================================================================
+
+function shiftYear(date: string, years: number): string {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCFullYear(shifted.getUTCFullYear() + years);
+  return shifted.toISOString().split("T")[0];
+}
+
+/**
+ * 当前持仓的成本收益率
+ *
+ * quotes 以品种代码为键：price 为每股价格（主单位），dividendYield 为
+ * /api/stock-detail 返回的股息率（小数）；没有行情时 forwardYield 为 null
+ */
+export function calculateYieldOnCost(
+  book: BookData,
+  today: string,
+  quotes: Record<string, { price?: number; dividendYield?: number }>,
+): YieldOnCost[] {
+  const since = shiftYear(today, -1);
+  const payments = getDividendPayments(book).filter(
+    (payment) => payment.date > since && payment.date <= today,
+  );
+
+  return getHoldings(book, today)
+    .filter((holding) => holding.quantity > 0)
+    .map((holding) => {
+      const { account } = holding;
+      const trailingDividends = payments
+        .filter((payment) => payment.account.id === account.id)
+        .reduce((sum, payment) => sum + payment.amount, 0);
+      const quote = quotes[holding.symbol];
+      const forward =
+        quote?.price !== undefined && quote.dividendYield !== undefined
+          ? quote.price *
+            quote.dividendYield *
+            holding.quantity *
+            getCurrencyMultiplier(account.currency)
+          : null;
+      return {
+        accountId: account.id,
+        symbol: holding.symbol,
+        currency: account.currency,
+        quantity: holding.quantity,
+        cost: holding.cost,
+        trailingDividends,
+        trailingYield:
+          holding.cost > 0 ? trailingDividends / holding.cost : null,
+        forwardYield:
+          forward !== null && holding.cost > 0 ? forward / holding.cost : null,
+      };
+    });
+}
@@ -7,9 +7,18 @@ import type {
   EntryLineData,
   AccountData,
   CurrencyCode,
+  EntryDiffField,
+  EntryFieldChange,
+  EntryRevision,
+  EntryRevisionAction,
 } from "./types";
 import { EntryLineType, EntryLineType as ELT, AccountType } from "./types";
-import { isDebitIncreaseAccount } from "./account";
+import {
+  createAccount,
+  createAccountPath,
+  isDebitIncreaseAccount,
+} from "./account";
+import { getCurrencyMultiplier } from "./currency";
 
 /**
  * 生成分录 ID
@@ -50,6 +59,8 @@ export function createEntry(params: {
 
 /**
  * 更新分录
+ *
+ * 替换 lines 时，账户、方向、金额都相同的行沿用原行的对账标记
  */
 export function updateEntry(
   entry: JournalEntryData,
@@ -60,7 +71,35 @@ export function updateEntry(
     >
   >,
 ): JournalEntryData {
-  return { ...entry, ...updates, updatedAt: new Date().toISOString() };
+  const next = { ...entry, ...updates, updatedAt: new Date().toISOString() };
+  if (updates.lines) {
+    next.lines = carryLineFlags(entry.lines, updates.lines);
+  }
+  return next;
+}
+
+function carryLineFlags(
+  previous: EntryLineData[],
+  lines: EntryLineData[],
+): EntryLineData[] {
+  const candidates = previous.filter((line) => line.cleared || line.reconciled);
+  return lines.map((line) => {
+    if (line.cleared !== undefined || line.reconciled !== undefined) {
+      return line;
+    }
+    const index = candidates.findIndex(
+      (old) =>
+        old.accountId === line.accountId &&
+        old.type === line.type &&
+        old.amount === line.amount,
+    );
+    if (index === -1) return line;
+    const [matched] = candidates.splice(index, 1);
+    const next = { ...line };
+    if (matched.cleared) next.cleared = true;
+    if (matched.reconciled) next.reconciled = true;
+    return next;
+  });
 }
 
 /**
@@ -154,9 +193,13 @@ export function getTotalCredit(entry: JournalEntryData): number {
 }
 
 /**
- * 验证借贷是否平衡
+ * 验证借贷是否平衡（跨币种分录按本位币折算金额校验）
  */
 export function isBalanced(entry: JournalEntryData): boolean {
+  if (isMultiCurrencyEntry(entry)) {
+    const totals = getBaseTotals(entry);
+    return totals.debit === totals.credit;
+  }
   return getTotalDebit(entry) === getTotalCredit(entry);
 }
 
@@ -176,6 +219,7 @@ export function postEntry(
 
   // 创建账户映射
   const accountMap = new Map(accounts.map((a) => [a.id, { ...a }]));
+  const isMultiCurrency = isMultiCurrencyEntry(entry);
   let entryCurrency: CurrencyCode | null = null;
 
   for (const line of entry.lines) {
@@ -183,7 +227,14 @@ export function postEntry(
     if (!account) {
       throw new Error(`Account ${line.accountId} not found`);
     }
-    if (entryCurrency === null) {
+    if (isMultiCurrency) {
+      // 跨币种分录：每行金额以账户币种记录
+      if (line.currency && line.currency !== account.currency) {
+        throw new Error(
+          `Line currency ${line.currency} does not match account ${account.path} (${account.currency})`,
+        );
+      }
+    } else if (entryCurrency === null) {
       entryCurrency = account.currency;
     } else if (account.currency !== entryCurrency) {
       throw new Error(
@@ -361,9 +412,12 @@ export function updateLines(
 }
 
 /**
- * 获取分录总额（用于显示）
+ * 获取分录总额（用于显示，跨币种分录为本位币金额）
  */
 export function getEntryAmount(entry: JournalEntryData): number {
+  if (isMultiCurrencyEntry(entry)) {
+    return getBaseTotals(entry).debit;
+  }
   // 借方总额应该等于贷方总额，取其中之一
   return getTotalDebit(entry);
 }
@@ -418,16 +472,242 @@ export function getEntryCategory(
 }
 
 /**
- * 获取分录的主要货币（第一个涉及的账户的货币）
+ * 获取分录的主要货币（第一个涉及的账户的货币；跨币种分录为本位币）
  */
 export function getEntryCurrency(
   entry: JournalEntryData,
   accounts: Map<string, AccountData>,
+  baseCurrency?: CurrencyCode,
 ): CurrencyCode {
   if (entry.lines.length === 0) {
     return "CNY";
   }
+  if (baseCurrency && isMultiCurrencyEntry(entry)) {
+    return baseCurrency;
+  }
 
   const account = accounts.get(entry.lines[0].accountId);
   return account?.currency ?? "CNY";
 }
+
+// ============================================================================
+// 跨币种分录
+// ============================================================================
+
+/** 汇兑损益账户名称（收入类，本位币，损失记借方、收益记贷方） */
+export const FX_GAIN_LOSS_ACCOUNT_NAME = "FX Gain Loss";
+
+/**
+ * 是否为跨币种分录（行上记录了本位币折算金额）
+ */
+export function isMultiCurrencyEntry(entry: JournalEntryData): boolean {
+  return entry.lines.some((line) => line.baseAmount !== undefined);
+}
+
+/**
+ * 获取行的本位币金额（未折算的行视为本位币）
+ */
+export function getLineBaseAmount(line: EntryLineData): number {
+  return line.baseAmount ?? line.amount;
+}
+
+/**
+ * 计算本位币借贷合计
+ */
+export function getBaseTotals(entry: JournalEntryData): {
+  debit: number;
+  credit: number;
+} {
+  return sumBaseAmounts(entry.lines);
+}
+
+function sumBaseAmounts(lines: EntryLineData[]) {
+  let debit = 0;
+  let credit = 0;
+  for (const line of lines) {
+    if (line.type === ELT.DEBIT) {
+      debit += getLineBaseAmount(line);
+    } else {
+      credit += getLineBaseAmount(line);
+    }
+  }
+  return { debit, credit };
+}
+
+/**
+ * 创建带币种和汇率的分录行
+ *
+ * amount 为行币种最小单位，rate 为行币种对本位币的汇率
+ */
+export function createCurrencyLine(params: {
+  accountId: string;
+  type: EntryLineType;
+  amount: number;
+  currency: CurrencyCode;
+  rate: number;
+  baseCurrency: CurrencyCode;
+  note?: string;
+}): EntryLineData {
+  if (params.amount <= 0) {
+    throw new Error("Amount must be greater than 0");
+  }
+  if (!Number.isFinite(params.rate) || params.rate <= 0) {
+    throw new Error("Exchange rate must be greater than 0");
+  }
+  const mainUnit = params.amount / getCurrencyMultiplier(params.currency);
+  const line: EntryLineData = {
+    accountId: params.accountId,
+    amount: params.amount,
+    type: params.type,
+    currency: params.currency,
+    rate: params.rate,
+    baseAmount: Math.round(
+      mainUnit * params.rate * getCurrencyMultiplier(params.baseCurrency),
+    ),
+  };
+  if (params.note) line.note = params.note;
+  return line;
+}
+
+/**
+ * 生成汇兑损益行：本位币借贷差额记入汇兑损益账户
+ *
+ * 借方折算多于贷方为收益（贷记），反之为损失（借记）；已平衡时返回 null
+ */
+export function createFxGainLossLine(
+  lines: EntryLineData[],
+  fxAccountId: string,
+  baseCurrency: CurrencyCode,
+): EntryLineData | null {
+  const totals = sumBaseAmounts(lines);
+  const diff = totals.debit - totals.credit;
+  if (diff === 0) return null;
+  const amount = Math.abs(diff);
+  return {
+    accountId: fxAccountId,
+    amount,
+    type: diff > 0 ? ELT.CREDIT : ELT.DEBIT,
+    currency: baseCurrency,
+    rate: 1,
+    baseAmount: amount,
+  };
+}
+
+/** 汇兑损益账户路径 */
+const FX_GAIN_LOSS_ACCOUNT_PATH = createAccountPath(
+  AccountType.INCOME,
+  FX_GAIN_LOSS_ACCOUNT_NAME,
+);
+
+/**
+ * 查找汇兑损益账户
+ */
+export function findFxGainLossAccount(
+  accounts: AccountData[],
+): AccountData | undefined {
+  return accounts.find((a) => a.path === FX_GAIN_LOSS_ACCOUNT_PATH);
+}
+
+/**
+ * 创建汇兑损益账户（收入根账户下）
+ *
+ * 汇兑损益行按本位币记账，账户币种为 baseCurrency，不跟随收入根账户
+ */
+export function createFxGainLossAccount(
+  accounts: AccountData[],
+  baseCurrency: CurrencyCode,
+): AccountData {
+  const incomeRoot = accounts.find(
+    (a) => a.type === AccountType.INCOME && a.parentId === null,
+  );
+  if (!incomeRoot) {
+    throw new Error("Income root account not found");
+  }
+  return createAccount({
+    name: FX_GAIN_LOSS_ACCOUNT_NAME,
+    type: AccountType.INCOME,
+    currency: baseCurrency,
+    parentId: incomeRoot.id,
+    parentPath: incomeRoot.path,
+  });
+}
+
+// ============================================================================
+// 分录版本与差异
+// ============================================================================
+
+/**
+ * 获取分录版本号（旧数据没有版本号，视为 1）
+ */
+export function getEntryVersion(entry: JournalEntryData): number {
+  return entry.entryVersion ?? 1;
+}
+
+/**
+ * 创建修订记录（保存修改前的快照）
+ */
+export function createEntryRevision(
+  snapshot: JournalEntryData,
+  action: EntryRevisionAction,
+  changedBy?: string,
+): EntryRevision {
+  return {
+    id: crypto.randomUUID(),
+    entryId: snapshot.id,
+    action,
+    snapshot: cloneEntry(snapshot),
+    changedBy,
+    changedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * 用修订快照覆盖当前分录内容（保留 ID 与创建信息，清除删除标记）
+ */
+export function restoreFromSnapshot(
+  current: JournalEntryData,
+  snapshot: JournalEntryData,
+): JournalEntryData {
+  const restored = updateEntry(current, {
+    date: snapshot.date,
+    description: snapshot.description,
+    tags: snapshot.tags,
+    payee: snapshot.payee,
+    note: snapshot.note,
+    lines: snapshot.lines.map((line) => ({ ...line })),
+  });
+  delete restored.deletedAt;
+  return restored;
+}
+
+function defaultFormatLine(line: EntryLineData): string {
+  return `${line.type} ${line.accountId} ${line.amount}`;
+}
+
+/**
+ * 比较两个版本的分录，返回有变化的字段
+ */
+export function diffEntries(
+  before: JournalEntryData,
+  after: JournalEntryData,
+  formatLine: (line: EntryLineData) => string = defaultFormatLine,
+): EntryFieldChange[] {
+  const format: Record<EntryDiffField, (entry: JournalEntryData) => string> = {
+    date: (entry) => entry.date,
+    description: (entry) => entry.description,
+    payee: (entry) => entry.payee ?? "",
+    note: (entry) => entry.note ?? "",
+    tags: (entry) => (entry.tags ?? []).join(", "),
+    lines: (entry) => entry.lines.map(formatLine).join("\n"),
+  };
+
+  const changes: EntryFieldChange[] = [];
+  for (const field of Object.keys(format) as EntryDiffField[]) {
+    const beforeValue = format[field](before);
+    const afterValue = format[field](after);
+    if (beforeValue !== afterValue) {
+      changes.push({ field, before: beforeValue, after: afterValue });
+    }
+  }
+  return changes;
+}
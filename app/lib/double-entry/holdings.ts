@@ -0,0 +1,421 @@
+/**
+ * 持仓
+ *
+ * 设置了 commodity 的资产账户按数量记录持仓：借方行为买入，贷方行为卖出，
+ * 行金额为成本。按分录顺序把每笔买入记为一个批次（lot），卖出按账户的
+ * 成本方法消耗批次（见 cost-basis），拆股按生效日调整批次数量（见
+ * corporate-actions）；再用行情价格计算市值与浮动盈亏。
+ */
+
+import type {
+  AccountData,
+  BookData,
+  EntryLineData,
+  JournalEntryData,
+  LotSelection,
+} from "./types";
+import { AccountType, EntryLineType } from "./types";
+import { getCurrencyMultiplier } from "./currency";
+import { matchLots, roundQuantity, type LotMatch } from "./cost-basis";
+import { applySplit, getCorporateActions } from "./corporate-actions";
+
+/**
+ * 持仓批次（一笔买入的剩余部分）
+ */
+export interface HoldingLot {
+  accountId: string;
+  entryId: string;
+  /** 买入行在分录中的位置 */
+  lineIndex: number;
+  /** 买入日期 */
+  date: string;
+  /** 剩余数量 */
+  quantity: number;
+  /** 剩余成本（最小单位，账户币种） */
+  cost: number;
+}
+
+/**
+ * 账户持仓
+ */
+export interface Holding {
+  account: AccountData;
+  symbol: string;
+  quantity: number;
+  /** 总成本（最小单位，账户币种） */
+  cost: number;
+  lots: HoldingLot[];
+}
+
+/**
+ * 批次按市价估值
+ */
+export interface LotValuation {
+  lot: HoldingLot;
+  marketValue: number;
+  /** 浮动盈亏 = 市值 - 成本 */
+  unrealized: number;
+}
+
+/**
+ * 持仓按市价估值，没有行情时价格相关字段为 null
+ */
+export interface HoldingValuation {
+  holding: Holding;
+  /** 每股价格（主单位，账户币种） */
+  price: number | null;
+  marketValue: number | null;
+  unrealized: number | null;
+  lots: LotValuation[];
+}
+
+/**
+ * 一笔卖出及其匹配的批次
+ */
+export interface HoldingSale {
+  account: AccountData;
+  entry: JournalEntryData;
+  lineIndex: number;
+  quantity: number;
+  /** 按成本方法计算的成本 */
+  cost: number;
+  matches: LotMatch[];
+}
+
+/**
+ * 持仓检查发现的问题
+ * - missingQuantity: 持仓账户的分录行没有数量
+ * - oversold: 卖出数量超过当时的持仓
+ * - costMismatch: 卖出行金额与成本方法计算的成本不一致
+ */
+export interface HoldingIssue {
+  account: AccountData;
+  entry: JournalEntryData;
+  lineIndex: number;
+  kind: "missingQuantity" | "oversold" | "costMismatch";
+}
+
+/**
+ * 规范化品种代码（去空白、转大写）
+ */
+export function normalizeCommodity(symbol: string): string {
+  return symbol.trim().toUpperCase();
+}
+
+/**
+ * 校验持仓品种只能设置在资产账户下，返回规范化的品种代码
+ */
+export function resolveAccountCommodity(
+  parent: AccountData,
+  commodity: string,
+): string {
+  if (parent.type !== AccountType.ASSETS) {
+    throw new Error("Only asset accounts can hold commodities");
+  }
+  const symbol = normalizeCommodity(commodity);
+  if (!symbol) {
+    throw new Error("Commodity symbol is required");
+  }
+  return symbol;
+}
+
+/**
+ * 是否为持仓账户
+ */
+export function isHoldingAccount(account: AccountData): boolean {
+  return account.type === AccountType.ASSETS && !!account.commodity;
+}
+
+// 截至日期（含）持仓账户上的分录行，按日期、创建时间排序
+function getHoldingLines(
+  book: Pick<BookData, "entries">,
+  accountId: string,
+  date?: string,
+): Array<{ entry: JournalEntryData; lineIndex: number; line: EntryLineData }> {
+  const lines: Array<{
+    entry: JournalEntryData;
+    lineIndex: number;
+    line: EntryLineData;
+  }> = [];
+  for (const entry of book.entries) {
+    if (entry.deletedAt || (date && entry.date > date)) continue;
+    entry.lines.forEach((line, lineIndex) => {
+      if (line.accountId === accountId) {
+        lines.push({ entry, lineIndex, line });
+      }
+    });
+  }
+  return lines.sort(
+    (a, b) =>
+      a.entry.date.localeCompare(b.entry.date) ||
+      a.entry.createdAt.localeCompare(b.entry.createdAt),
+  );
+}
+
+// 重放持仓账户的买卖和拆股，返回剩余批次；handlers 接收卖出记录和发现的问题
+function replayLots(
+  book: Pick<BookData, "entries" | "corporateActions">,
+  account: AccountData,
+  date: string | undefined,
+  handlers: {
+    onSale?: (sale: HoldingSale) => void;
+    onIssue?: (issue: HoldingIssue) => void;
+  } = {},
+): HoldingLot[] {
+  let lots: HoldingLot[] = [];
+  // 拆股在生效日当天的分录之前生效
+  const splits = getCorporateActions(book, account.id, "split");
+  let splitIndex = 0;
+  const applySplitsUntil = (day: string | undefined) => {
+    while (
+      splitIndex < splits.length &&
+      (day === undefined || splits[splitIndex].date <= day)
+    ) {
+      lots = applySplit(lots, splits[splitIndex].ratio ?? 1);
+      splitIndex++;
+    }
+  };
+
+  for (const { entry, lineIndex, line } of getHoldingLines(
+    book,
+    account.id,
+    date,
+  )) {
+    applySplitsUntil(entry.date);
+    const issue = (kind: HoldingIssue["kind"]) =>
+      handlers.onIssue?.({ account, entry, lineIndex, kind });
+    if (!line.quantity) {
+      issue("missingQuantity");
+      continue;
+    }
+    if (line.type === EntryLineType.DEBIT) {
+      lots.push({
+        accountId: account.id,
+        entryId: entry.id,
+        lineIndex,
+        date: entry.date,
+        quantity: line.quantity,
+        cost: line.amount,
+      });
+      continue;
+    }
+    const result = matchLots(
+      lots,
+      line.quantity,
+      account.costBasisMethod,
+      line.lotSelections,
+    );
+    lots = result.lots;
+    if (result.shortfall > 0) {
+      issue("oversold");
+      continue;
+    }
+    if (result.cost !== line.amount) {
+      issue("costMismatch");
+    }
+    handlers.onSale?.({
+      account,
+      entry,
+      lineIndex,
+      quantity: line.quantity,
+      cost: result.cost,
+      matches: result.matches,
+    });
+  }
+  applySplitsUntil(date);
+  return lots;
+}
+
+/**
+ * 持仓账户截至日期（含，缺省为全部）的剩余批次
+ */
+export function getHoldingLots(
+  book: Pick<BookData, "accounts" | "entries" | "corporateActions">,
+  accountId: string,
+  date?: string,
+): HoldingLot[] {
+  const account = book.accounts.find((a) => a.id === accountId);
+  if (!account || !isHoldingAccount(account)) return [];
+  return replayLots(book, account, date);
+}
+
+/**
+ * 全部持仓账户的持仓（跳过已归档且已清仓的账户）
+ */
+export function getHoldings(book: BookData, date?: string): Holding[] {
+  return book.accounts.filter(isHoldingAccount).flatMap((account) => {
+    const lots = replayLots(book, account, date);
+    if (account.archived && lots.length === 0) return [];
+    return [
+      {
+        account,
+        symbol: account.commodity!,
+        quantity: roundQuantity(lots.reduce((sum, l) => sum + l.quantity, 0)),
+        cost: lots.reduce((sum, lot) => sum + lot.cost, 0),
+        lots,
+      },
+    ];
+  });
+}
+
+/**
+ * 全部持仓账户的卖出记录（按账户、日期顺序）
+ */
+export function getHoldingSales(book: BookData): HoldingSale[] {
+  const sales: HoldingSale[] = [];
+  for (const account of book.accounts.filter(isHoldingAccount)) {
+    replayLots(book, account, undefined, {
+      onSale: (sale) => sales.push(sale),
+    });
+  }
+  return sales;
+}
+
+/**
+ * 按账户的成本方法计算卖出 quantity 的成本，持仓不足时抛出错误
+ */
+export function getSaleCostBasis(
+  book: BookData,
+  accountId: string,
+  quantity: number,
+  date?: string,
+  selections?: LotSelection[],
+): number {
+  const account = book.accounts.find((a) => a.id === accountId);
+  const result = matchLots(
+    getHoldingLots(book, accountId, date),
+    quantity,
+    account?.costBasisMethod,
+    selections,
+  );
+  if (result.shortfall > 0) {
+    throw new Error("Insufficient quantity");
+  }
+  return result.cost;
+}
+
+/**
+ * 按每股价格（主单位）估值持仓，prices 以品种代码为键
+ */
+export function valueHoldings(
+  holdings: Holding[],
+  prices: Record<string, number | undefined>,
+): HoldingValuation[] {
+  return holdings.map((holding) => {
+    const price = prices[holding.symbol];
+    if (price === undefined || !Number.isFinite(price)) {
+      return {
+        holding,
+        price: null,
+        marketValue: null,
+        unrealized: null,
+        lots: [],
+      };
+    }
+    const multiplier = getCurrencyMultiplier(holding.account.currency);
+    const value = (quantity: number) =>
+      Math.round(price * quantity * multiplier);
+    const lots = holding.lots.map((lot) => {
+      const marketValue = value(lot.quantity);
+      return { lot, marketValue, unrealized: marketValue - lot.cost };
+    });
+    const marketValue = lots.reduce((sum, item) => sum + item.marketValue, 0);
+    return {
+      holding,
+      price,
+      marketValue,
+      unrealized: marketValue - holding.cost,
+      lots,
+    };
+  });
+}
+
+/**
+ * 生成买入分录行：借持仓账户（数量、成本），贷资金账户
+ */
+export function buildBuyLines(params: {
+  holdingAccountId: string;
+  cashAccountId: string;
+  quantity: number;
+  /** 成本（最小单位，含手续费） */
+  cost: number;
+}): EntryLineData[] {
+  return [
+    {
+      accountId: params.holdingAccountId,
+      type: EntryLineType.DEBIT,
+      amount: params.cost,
+      quantity: roundQuantity(params.quantity),
+    },
+    {
+      accountId: params.cashAccountId,
+      type: EntryLineType.CREDIT,
+      amount: params.cost,
+    },
+  ];
+}
+
+/**
+ * 生成卖出分录行：贷持仓账户（数量、成本），借资金账户（净收入），
+ * 差额记入投资收益账户；不传 gainAccountId 时由过账时的 applyCostBasis 生成
+ */
+export function buildSellLines(
+  book: BookData,
+  params: {
+    holdingAccountId: string;
+    cashAccountId: string;
+    gainAccountId?: string;
+    quantity: number;
+    /** 卖出净收入（最小单位，已扣手续费） */
+    proceeds: number;
+    date: string;
+    lotSelections?: LotSelection[];
+  },
+): EntryLineData[] {
+  const cost = getSaleCostBasis(
+    book,
+    params.holdingAccountId,
+    params.quantity,
+    params.date,
+    params.lotSelections,
+  );
+  const saleLine: EntryLineData = {
+    accountId: params.holdingAccountId,
+    type: EntryLineType.CREDIT,
+    amount: cost,
+    quantity: roundQuantity(params.quantity),
+  };
+  if (params.lotSelections?.length) {
+    saleLine.lotSelections = params.lotSelections;
+  }
+  const lines: EntryLineData[] = [
+    {
+      accountId: params.cashAccountId,
+      type: EntryLineType.DEBIT,
+      amount: params.proceeds,
+    },
+    saleLine,
+  ];
+  const gain = params.proceeds - cost;
+  if (params.gainAccountId && gain !== 0) {
+    lines.push({
+      accountId: params.gainAccountId,
+      type: gain > 0 ? EntryLineType.CREDIT : EntryLineType.DEBIT,
+      amount: Math.abs(gain),
+    });
+  }
+  return lines;
+}
+
+/**
+ * 检查全部持仓账户：缺少数量、超卖、卖出成本与成本方法不一致
+ */
+export function findHoldingIssues(book: BookData): HoldingIssue[] {
+  const issues: HoldingIssue[] = [];
+  for (const account of book.accounts.filter(isHoldingAccount)) {
+    replayLots(book, account, undefined, {
+      onIssue: (issue) => issues.push(issue),
+    });
+  }
+  return issues;
+}
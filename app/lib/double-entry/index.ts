@@ -60,6 +60,10 @@ export type {
   AccountData,
   EntryLineData,
   JournalEntryData,
+  EntryRevisionAction,
+  EntryRevision,
+  EntryDiffField,
+  EntryFieldChange,
   BookData,
   DateRange,
   TimeGranularity,
@@ -67,6 +71,32 @@ export type {
   SummaryPoint,
   CategorySummary,
   BalanceSnapshot,
+  StatementNode,
+  IncomeStatement,
+  BalanceSheet,
+  AccountActivity,
+  CashFlowActivity,
+  CashFlowRole,
+  CostBasisMethod,
+  LotSelection,
+  CashFlowItem,
+  CashFlowSection,
+  CashFlowStatement,
+  BalanceDrift,
+  BalanceRebuildResult,
+  RuleMatchField,
+  RuleMatchMode,
+  CategorizationRule,
+  RecurrenceFrequency,
+  RecurrenceSchedule,
+  RecurringTemplate,
+  BudgetPeriod,
+  Budget,
+  PeriodClosing,
+  Reconciliation,
+  BalanceAssertion,
+  HoldingEvent,
+  CorporateAction,
 } from "./types";
 
 export { AccountType, EntryLineType } from "./types";
@@ -82,6 +112,8 @@ export {
   createExchangeRate,
   getExchangeRate,
   convertCurrency,
+  MissingExchangeRateError,
+  isMissingExchangeRateError,
   upsertExchangeRate,
   getAvailableCurrencyPairs,
 } from "./currency";
@@ -138,6 +170,14 @@ export {
   getTotalDebit,
   getTotalCredit,
   isBalanced,
+  isMultiCurrencyEntry,
+  getLineBaseAmount,
+  getBaseTotals,
+  createCurrencyLine,
+  createFxGainLossLine,
+  FX_GAIN_LOSS_ACCOUNT_NAME,
+  findFxGainLossAccount,
+  createFxGainLossAccount,
   postEntry,
   unpostEntry,
   createSimpleEntry,
@@ -150,8 +190,23 @@ export {
   getEntryAmount,
   getEntryCategory,
   getEntryCurrency,
+  getEntryVersion,
+  createEntryRevision,
+  restoreFromSnapshot,
+  diffEntries,
 } from "./entry";
 
+// ============================================================================
+// Split Entry
+// ============================================================================
+
+export {
+  isCrossCurrencySplit,
+  buildSplitEntryLines,
+  type SplitLineInput,
+  type CurrencyContext,
+} from "./split";
+
 // ============================================================================
 // Book
 // ============================================================================
@@ -171,6 +226,7 @@ export {
   getNetWorth,
   getProfit,
   verifyAccountingEquation,
+  rebuildBalances,
   getRootAccount,
   getAllTags,
 } from "./book";
@@ -191,6 +247,7 @@ export {
   getAccountWithDescendants,
   getActiveAccounts,
   getAccountTree,
+  type AccountTreeNode,
 } from "./query";
 
 // ============================================================================
@@ -207,6 +264,11 @@ export {
   generateBalanceSnapshot,
   generateBalanceSnapshotInCurrency,
   generateNetWorthTrend,
+  generateIncomeStatement,
+  generateBalanceSheet,
+  getAccountActivity,
+  getCashFlowRole,
+  generateCashFlowStatement,
 } from "./report";
 
 // ============================================================================
@@ -223,3 +285,212 @@ export {
   canDeleteEntry,
   type ValidationResult,
 } from "./validation";
+
+// ============================================================================
+// Categorization Rules
+// ============================================================================
+
+export {
+  generateRuleId,
+  createRule,
+  isValidRulePattern,
+  matchesRule,
+  findMatchingRule,
+  getEntryRuleSubject,
+  isCategoryAccount,
+  applyRuleToEntry,
+  applyRules,
+  reapplyRules,
+  type RuleSubject,
+  type RuleApplication,
+} from "./rules";
+
+// ============================================================================
+// Recurring Transactions
+// ============================================================================
+
+export {
+  iterateOccurrences,
+  getNextOccurrence,
+  getOccurrences,
+  generateRecurringId,
+  createRecurringTemplate,
+  buildOccurrenceEntry,
+  advanceRecurringTemplate,
+  settleOccurrences,
+  getUpcomingOccurrences,
+  materializeRecurring,
+  type RecurringOccurrence,
+  type RecurringOccurrenceRef,
+} from "./recurring";
+
+// ============================================================================
+// Budgets
+// ============================================================================
+
+export {
+  generateBudgetId,
+  createBudget,
+  getBudgetPeriodRange,
+  getBudgetAccountIds,
+  calculateBudgetSpent,
+  calculateBudgetStatus,
+  calculateBudgetStatuses,
+  type BudgetStatus,
+} from "./budget";
+
+// ============================================================================
+// Period Closing
+// ============================================================================
+
+export {
+  PeriodLockedError,
+  isPeriodLockedError,
+  getLockDate,
+  isDateLocked,
+  assertPeriodOpen,
+  isClosingEntry,
+  RETAINED_EARNINGS_ACCOUNT_NAME,
+  findRetainedEarningsAccount,
+  createRetainedEarningsAccount,
+  buildClosingEntry,
+  closePeriod,
+  reopenPeriod,
+  findLockViolations,
+} from "./closing";
+
+// ============================================================================
+// Reconciliation
+// ============================================================================
+
+export {
+  generateReconciliationId,
+  createReconciliation,
+  generateBalanceAssertionId,
+  createBalanceAssertion,
+  getReconcileLines,
+  getClearedBalance,
+  getReconciliationDifference,
+  setLineCleared,
+  finishReconciliation,
+  hasReconciledLines,
+  assertReconciledLinesKept,
+  checkBalanceAssertions,
+  type ReconcileLine,
+  type BalanceAssertionCheck,
+} from "./reconcile";
+
+// ============================================================================
+// Holdings
+// ============================================================================
+
+export {
+  normalizeCommodity,
+  resolveAccountCommodity,
+  isHoldingAccount,
+  getHoldingLots,
+  getHoldings,
+  getHoldingSales,
+  getSaleCostBasis,
+  valueHoldings,
+  buildBuyLines,
+  buildSellLines,
+  findHoldingIssues,
+  type HoldingLot,
+  type Holding,
+  type LotValuation,
+  type HoldingValuation,
+  type HoldingSale,
+  type HoldingIssue,
+} from "./holdings";
+
+// ============================================================================
+// Cost Basis & Realized Gains
+// ============================================================================
+
+export {
+  COST_BASIS_METHODS,
+  roundQuantity,
+  getLotKey,
+  averageLots,
+  matchLots,
+  type LotMatch,
+  type LotMatchResult,
+} from "./cost-basis";
+
+export {
+  REALIZED_GAINS_ACCOUNT_NAME,
+  findRealizedGainsAccount,
+  createRealizedGainsAccount,
+  getSaleLineIndexes,
+  applyCostBasis,
+  applySaleContext,
+  getHoldingPeriod,
+  buildRealizedGainsReport,
+  type SaleContext,
+  type HoldingPeriod,
+  type RealizedGainRow,
+  type RealizedGainsReport,
+} from "./realized-gains";
+
+// ============================================================================
+// Plain Text (Beancount / ledger-cli)
+// ============================================================================
+
+export {
+  exportBeancount,
+  exportLedger,
+  exportPlainText,
+  importBeancount,
+  importLedger,
+  importPlainText,
+  toPlainTextAccountName,
+  type PlainTextFormat,
+} from "./plaintext";
+
+// ============================================================================
+// Portfolio Performance
+// ============================================================================
+
+export {
+  PERFORMANCE_RANGES,
+  getPerformanceDateRange,
+  getInvestmentAccountIds,
+  getFirstEntryDate,
+  getExternalFlows,
+  getCloseAt,
+  valueInvestments,
+  calculateTWR,
+  calculateXIRR,
+  calculatePerformance,
+  calculateBenchmarkReturn,
+  type PerformanceRange,
+  type PricePoint,
+  type CashFlow,
+  type PerformanceResult,
+} from "./performance";
+
+// ============================================================================
+// Dividends & Corporate Actions
+// ============================================================================
+
+export {
+  generateCorporateActionId,
+  createSplitAction,
+  createSymbolChangeAction,
+  getCorporateActions,
+  applySplit,
+  getSymbolAt,
+  applyCorporateAction,
+} from "./corporate-actions";
+
+export {
+  buildDividendLines,
+  getDividendPayments,
+  buildDividendCalendar,
+  calculateYieldOnCost,
+  type DividendPayment,
+  type DividendCalendarRow,
+  type DividendCalendar,
+  type YieldOnCost,
+} from "./dividends";
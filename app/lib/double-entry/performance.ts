@@ -0,0 +1,385 @@
+/**
+ * 投资业绩
+ *
+ * 对投资账户子树计算时间加权收益率（TWR）和资金加权收益率（XIRR）。
+ * 子树与外部资产、负债、权益账户之间的分录视为投入或取出，股息、已实现
+ * 盈亏、费用等收支计入收益。估值 = 账面净值（见 generateNetWorthTrend）
+ * + 持仓按历史收盘价计算的浮动盈亏。金额按账户币种累加，子树应使用同一币种。
+ */
+
+import type { BookData, DateRange } from "./types";
+import { AccountType, EntryLineType } from "./types";
+import { getCurrencyMultiplier } from "./currency";
+import { roundQuantity } from "./cost-basis";
+import { getHoldingLots, isHoldingAccount } from "./holdings";
+import { getAccountWithDescendants } from "./query";
+import { generateNetWorthTrend } from "./report";
+
+/**
+ * 业绩区间
+ */
+export type PerformanceRange = "1M" | "3M" | "1Y" | "YTD" | "ALL";
+
+export const PERFORMANCE_RANGES: PerformanceRange[] = [
+  "1M",
+  "3M",
+  "1Y",
+  "YTD",
+  "ALL",
+];
+
+/**
+ * 收盘价（主单位），按日期升序
+ */
+export interface PricePoint {
+  date: string;
+  close: number;
+}
+
+/**
+ * 投入（正）或取出（负），最小单位
+ */
+export interface CashFlow {
+  date: string;
+  amount: number;
+}
+
+/**
+ * 区间业绩，金额为最小单位
+ */
+export interface PerformanceResult {
+  range: DateRange;
+  startValue: number;
+  endValue: number;
+  /** 区间内净投入 */
+  netFlows: number;
+  /** 收益 = 期末 - 期初 - 净投入 */
+  gain: number;
+  /** 时间加权收益率（区间累计），无法计算时为 null */
+  twr: number | null;
+  /** 资金加权收益率（年化），无法计算时为 null */
+  xirr: number | null;
+}
+
+// ============================================================================
+// 区间与账户
+// ============================================================================
+
+function shiftDate(date: string, months: number, days: number = 0): string {
+  const [year, month, day] = date.split("-").map(Number);
+  // 目标月份没有该日时取月末
+  const lastDay = new Date(Date.UTC(year, month - 1 + months + 1, 0));
+  const shifted = new Date(
+    Date.UTC(
+      year,
+      month - 1 + months,
+      Math.min(day, lastDay.getUTCDate()) + days,
+    ),
+  );
+  return shifted.toISOString().split("T")[0];
+}
+
+/**
+ * 业绩区间的日期范围
+ *
+ * 估值按日末计算，start 为期初估值日（不含当天的投入取出）；YTD 从上年
+ * 末开始，ALL 从首笔分录的前一天开始
+ */
+export function getPerformanceDateRange(
+  range: PerformanceRange,
+  today: string,
+  firstDate: string | null,
+): DateRange {
+  switch (range) {
+    case "1M":
+      return { start: shiftDate(today, -1), end: today };
+    case "3M":
+      return { start: shiftDate(today, -3), end: today };
+    case "1Y":
+      return { start: shiftDate(today, -12), end: today };
+    case "YTD":
+      return { start: `${Number(today.slice(0, 4)) - 1}-12-31`, end: today };
+    case "ALL":
+      return { start: shiftDate(firstDate ?? today, 0, -1), end: today };
+  }
+}
+
+/**
+ * 投资账户子树中的资产、负债账户
+ */
+export function getInvestmentAccountIds(
+  book: BookData,
+  rootAccountId: string,
+): string[] {
+  return getAccountWithDescendants(book, rootAccountId)
+    .filter(
+      (a) =>
+        a.type === AccountType.ASSETS || a.type === AccountType.LIABILITIES,
+    )
+    .map((a) => a.id);
+}
+
+/**
+ * 子树账户上最早的分录日期
+ */
+export function getFirstEntryDate(
+  book: BookData,
+  accountIds: string[],
+): string | null {
+  const ids = new Set(accountIds);
+  let first: string | null = null;
+  for (const entry of book.entries) {
+    if (entry.deletedAt) continue;
+    if (!entry.lines.some((line) => ids.has(line.accountId))) continue;
+    if (first === null || entry.date < first) first = entry.date;
+  }
+  return first;
+}
+
+// ============================================================================
+// 投入取出与估值
+// ============================================================================
+
+/**
+ * 区间内（不含 start 当天）的投入取出，按日期合并
+ *
+ * 分录涉及子树外的资产、负债、权益账户时，子树账面的变动即为投入（正）
+ * 或取出（负）；只涉及子树和收支账户的分录计入收益
+ */
+export function getExternalFlows(
+  book: BookData,
+  accountIds: string[],
+  range: DateRange,
+): CashFlow[] {
+  const ids = new Set(accountIds);
+  const accounts = new Map(book.accounts.map((a) => [a.id, a]));
+  const flows = new Map<string, number>();
+
+  for (const entry of book.entries) {
+    if (entry.deletedAt) continue;
+    if (entry.date <= range.start || entry.date > range.end) continue;
+    const isExternal = entry.lines.some((line) => {
+      const type = accounts.get(line.accountId)?.type;
+      return (
+        !ids.has(line.accountId) &&
+        (type === AccountType.ASSETS ||
+          type === AccountType.LIABILITIES ||
+          type === AccountType.EQUITY)
+      );
+    });
+    if (!isExternal) continue;
+
+    const amount = entry.lines.reduce((sum, line) => {
+      if (!ids.has(line.accountId)) return sum;
+      return (
+        sum + (line.type === EntryLineType.DEBIT ? line.amount : -line.amount)
+      );
+    }, 0);
+    if (amount !== 0) {
+      flows.set(entry.date, (flows.get(entry.date) ?? 0) + amount);
+    }
+  }
+
+  return Array.from(flows.entries())
+    .map(([date, amount]) => ({ date, amount }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * 日期（含）之前最近的收盘价；行情起点晚于日期时取第一个收盘价
+ */
+export function getCloseAt(
+  prices: PricePoint[] | undefined,
+  date: string,
+): number | null {
+  if (!prices || prices.length === 0) return null;
+  let close = prices[0].close;
+  for (const point of prices) {
+    if (point.date > date) break;
+    close = point.close;
+  }
+  return close;
+}
+
+/**
+ * 子树在各日期（升序）日末的估值
+ *
+ * 账面净值取自净资产走势，持仓按当日收盘价加上浮动盈亏；没有行情的持仓
+ * 按成本计
+ */
+export function valueInvestments(
+  book: BookData,
+  accountIds: string[],
+  dates: string[],
+  prices: Record<string, PricePoint[]>,
+): number[] {
+  if (dates.length === 0) return [];
+  const trend = generateNetWorthTrend(
+    book,
+    { start: dates[0], end: dates[dates.length - 1] },
+    "day",
+    { accountIds },
+  );
+  const ids = new Set(accountIds);
+  const holdingAccounts = book.accounts.filter(
+    (a) => ids.has(a.id) && isHoldingAccount(a),
+  );
+
+  let index = 0;
+  return dates.map((date) => {
+    while (index + 1 < trend.length && trend[index + 1].period <= date) {
+      index++;
+    }
+    let value = trend[index]?.netWorth ?? 0;
+
+    for (const account of holdingAccounts) {
+      const lots = getHoldingLots(book, account.id, date);
+      const quantity = roundQuantity(
+        lots.reduce((sum, lot) => sum + lot.quantity, 0),
+      );
+      const close = getCloseAt(prices[account.commodity!], date);
+      if (quantity <= 0 || close === null) continue;
+      const cost = lots.reduce((sum, lot) => sum + lot.cost, 0);
+      const multiplier = getCurrencyMultiplier(account.currency);
+      value += Math.round(close * quantity * multiplier) - cost;
+    }
+    return value;
+  });
+}
+
+// ============================================================================
+// 收益率
+// ============================================================================
+
+/**
+ * 时间加权收益率：按投入取出日切分子区间，连乘各子区间收益
+ *
+ * points[0] 为期初估值；其余各点的 flow 为当天的投入取出，value 为包含
+ * 该笔投入取出的日末估值。期初估值不为正的子区间跳过
+ */
+export function calculateTWR(
+  points: Array<{ value: number; flow: number }>,
+): number | null {
+  let growth = 1;
+  let periods = 0;
+  for (let i = 1; i < points.length; i++) {
+    const previous = points[i - 1].value;
+    if (previous <= 0) continue;
+    growth *= (points[i].value - points[i].flow) / previous;
+    periods++;
+  }
+  return periods > 0 ? growth - 1 : null;
+}
+
+const DAYS_PER_YEAR = 365;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 资金加权收益率（年化内部收益率）
+ *
+ * cashFlows 以投资者视角记：投入为负，取出和期末估值为正。牛顿法求解，
+ * 不收敛时改用二分法；没有同时包含正负现金流时返回 null
+ */
+export function calculateXIRR(cashFlows: CashFlow[]): number | null {
+  const flows = cashFlows.filter((flow) => flow.amount !== 0);
+  if (
+    !flows.some((flow) => flow.amount > 0) ||
+    !flows.some((flow) => flow.amount < 0)
+  ) {
+    return null;
+  }
+
+  const origin = Math.min(...flows.map((flow) => Date.parse(flow.date)));
+  const years = flows.map(
+    (flow) => (Date.parse(flow.date) - origin) / DAY_MS / DAYS_PER_YEAR,
+  );
+  const npv = (rate: number) =>
+    flows.reduce(
+      (sum, flow, i) => sum + flow.amount / Math.pow(1 + rate, years[i]),
+      0,
+    );
+  const derivative = (rate: number) =>
+    flows.reduce(
+      (sum, flow, i) =>
+        sum - (years[i] * flow.amount) / Math.pow(1 + rate, years[i] + 1),
+      0,
+    );
+
+  let rate = 0.1;
+  for (let i = 0; i < 50; i++) {
+    const value = npv(rate);
+    const slope = derivative(rate);
+    if (!Number.isFinite(value) || slope === 0) break;
+    const next = rate - value / slope;
+    if (!Number.isFinite(next) || next <= -1) break;
+    if (Math.abs(next - rate) < 1e-10) return next;
+    rate = next;
+  }
+
+  let low = -0.9999;
+  let high = 100;
+  if (Math.sign(npv(low)) === Math.sign(npv(high))) return null;
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2;
+    if (Math.sign(npv(mid)) === Math.sign(npv(low))) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return (low + high) / 2;
+}
+
+/**
+ * 投资账户子树在区间内的业绩
+ */
+export function calculatePerformance(
+  book: BookData,
+  rootAccountId: string,
+  range: DateRange,
+  prices: Record<string, PricePoint[]>,
+): PerformanceResult {
+  const accountIds = getInvestmentAccountIds(book, rootAccountId);
+  const flows = getExternalFlows(book, accountIds, range);
+  const flowByDate = new Map(flows.map((flow) => [flow.date, flow.amount]));
+  const dates = [
+    ...new Set([range.start, ...flows.map((f) => f.date), range.end]),
+  ];
+  const values = valueInvestments(book, accountIds, dates, prices);
+
+  const startValue = values[0];
+  const endValue = values[values.length - 1];
+  const netFlows = flows.reduce((sum, flow) => sum + flow.amount, 0);
+
+  return {
+    range,
+    startValue,
+    endValue,
+    netFlows,
+    gain: endValue - startValue - netFlows,
+    twr: calculateTWR(
+      dates.map((date, i) => ({
+        value: values[i],
+        flow: i === 0 ? 0 : (flowByDate.get(date) ?? 0),
+      })),
+    ),
+    xirr: calculateXIRR([
+      { date: range.start, amount: -startValue },
+      ...flows.map((flow) => ({ date: flow.date, amount: -flow.amount })),
+      { date: range.end, amount: endValue },
+    ]),
+  };
+}
+
+/**
+ * 基准在区间内的收益率（期末收盘价 / 期初收盘价 - 1）
+ */
+export function calculateBenchmarkReturn(
+  prices: PricePoint[],
+  range: DateRange,
+): number | null {
+  const start = getCloseAt(prices, range.start);
+  const end = getCloseAt(prices, range.end);
+  if (start === null || end === null || start <= 0) return null;
+  return end / start - 1;
+}
@@ -0,0 +1,899 @@
+/**
+ * 纯文本记账格式（Beancount / ledger-cli）导入导出
+ *
+ * - 账户路径 "assets:bank:cmb" 对应 "Assets:Bank:Cmb"，导入时转回小写路径；
+ *   ASCII 字母、数字和 "-" 以外的字符写为 "U" + 十六进制码位，原路径以 path 元数据保存
+ * - 借方为正数、贷方为负数
+ * - 跨币种分录中非本位币的行以 "@ 汇率 本位币" 标注价格
+ * - 持仓账户的行写为 "数量 品种 {{成本 币种}}"，指定的卖出批次以 lots 元数据保存
+ * - 账户名称、备注、归档状态与分录备注以元数据保存
+ */
+
+import type {
+  AccountData,
+  BookData,
+  CostBasisMethod,
+  CurrencyCode,
+  EntryLineData,
+  ExchangeRate,
+  JournalEntryData,
+  LotSelection,
+} from "./types";
+import { EntryLineType } from "./types";
+import { createAccount } from "./account";
+import { addEntry, createBook } from "./book";
+import { COST_BASIS_METHODS, getLotKey } from "./cost-basis";
+import { CURRENCIES, getCurrencyMultiplier } from "./currency";
+import { createCurrencyLine, createEntry, isMultiCurrencyEntry } from "./entry";
+import { normalizeCommodity } from "./holdings";
+
+export type PlainTextFormat = "beancount" | "ledger";
+
+// ============================================================================
+// 中间结构
+// ============================================================================
+
+type PlainTextAccount = {
+  path: string;
+  /** 原文中的最后一段名称 */
+  segment: string;
+  currency?: CurrencyCode;
+  meta: Record<string, string>;
+};
+
+type PlainTextPosting = {
+  path: string;
+  segment: string;
+  /** 主单位金额（借正贷负），省略时为 null */
+  amount: number | null;
+  currency?: CurrencyCode;
+  /** 对 price.currency 的单价 */
+  price?: { rate: number; currency: CurrencyCode };
+  /** 持仓数量（"数量 品种 {{成本 币种}}"，amount 为成本） */
+  quantity?: number;
+  /** 卖出批次元数据，如 "entryId:0:5" */
+  lots?: string;
+  note?: string;
+  lineNumber: number;
+};
+
+type PlainTextTransaction = {
+  /** 被卖出批次引用的分录保留原 ID */
+  id?: string;
+  date: string;
+  payee?: string;
+  description: string;
+  tags: string[];
+  note?: string;
+  postings: PlainTextPosting[];
+  lineNumber: number;
+};
+
+type PlainTextJournal = {
+  title?: string;
+  currency?: CurrencyCode;
+  accounts: PlainTextAccount[];
+  prices: ExchangeRate[];
+  transactions: PlainTextTransaction[];
+};
+
+// ============================================================================
+// 通用工具
+// ============================================================================
+
+/**
+ * 账户路径转为纯文本账户名（每段首字母大写）
+ *
+ * ASCII 字母、数字和 "-" 以外的字符写为 "U" + 十六进制码位，
+ * 保证 Beancount 与 ledger-cli 都能解析
+ */
+export function toPlainTextAccountName(path: string): string {
+  return path
+    .split(":")
+    .map((segment) =>
+      Array.from(segment, (char, index) => {
+        if (/[a-z0-9]/i.test(char) || (char === "-" && index > 0)) {
+          return index === 0 ? char.toUpperCase() : char;
+        }
+        return `U${char.codePointAt(0)!.toString(16).toUpperCase()}`;
+      }).join(""),
+    )
+    .join(":");
+}
+
+function splitAccountName(name: string) {
+  const segments = name.split(":");
+  return {
+    path: name.toLowerCase().replace(/\s+/g, "-"),
+    segment: segments[segments.length - 1],
+  };
+}
+
+/** 账户名无法转回原路径时，需要以 path 元数据保存原路径 */
+function needsPathMeta(path: string): boolean {
+  return splitAccountName(toPlainTextAccountName(path)).path !== path;
+}
+
+function formatAmount(amount: number, currency: CurrencyCode): string {
+  return (amount / getCurrencyMultiplier(currency)).toFixed(
+    CURRENCIES[currency].decimals,
+  );
+}
+
+function formatQuantity(quantity: number): string {
+  return quantity.toFixed(8).replace(/\.?0+$/, "");
+}
+
+// 持仓账户的行写为 "数量 品种 {{成本 币种}}"，其余写为 "金额 币种"
+function formatLineAmount(
+  line: EntryLineData,
+  account: AccountData | undefined,
+  currency: CurrencyCode,
+) {
+  const sign = line.type === EntryLineType.CREDIT ? "-" : "";
+  const amount = `${formatAmount(line.amount, currency)} ${currency}`;
+  if (account?.commodity && line.quantity) {
+    return `${sign}${formatQuantity(line.quantity)} ${account.commodity} {{${amount}}}`;
+  }
+  return `${sign}${amount}`;
+}
+
+function formatLots(selections: LotSelection[]): string {
+  return selections
+    .map(
+      (selection) =>
+        `${getLotKey(selection)}:${formatQuantity(selection.quantity)}`,
+    )
+    .join(" ");
+}
+
+function parseLots(value: string, lineNumber: number): LotSelection[] {
+  return value
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((item) => {
+      const [entryId, lineIndex, quantity] = item.split(":");
+      const selection = {
+        entryId,
+        lineIndex: Number(lineIndex),
+        quantity: Number(quantity),
+      };
+      if (
+        !entryId ||
+        !Number.isInteger(selection.lineIndex) ||
+        !(selection.quantity > 0)
+      ) {
+        throw new Error(`Invalid lots "${value}" (line ${lineNumber})`);
+      }
+      return selection;
+    });
+}
+
+/** 被卖出批次引用的分录 ID，导出时写入 id 元数据 */
+function getReferencedEntryIds(entries: JournalEntryData[]): Set<string> {
+  return new Set(
+    entries.flatMap((entry) =>
+      entry.lines.flatMap((line) =>
+        (line.lotSelections ?? []).map((selection) => selection.entryId),
+      ),
+    ),
+  );
+}
+
+function quote(value: string): string {
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+function unquote(value: string): string {
+  return value.slice(1, -1).replace(/\\(.)/g, "$1");
+}
+
+/** 标签中的空白和冒号替换为 "-" */
+function toTagName(tag: string): string {
+  return tag.replace(/[\s:]+/g, "-");
+}
+
+function toCurrency(code: string, lineNumber: number): CurrencyCode {
+  if (!(code in CURRENCIES)) {
+    throw new Error(`Unsupported currency ${code} (line ${lineNumber})`);
+  }
+  return code as CurrencyCode;
+}
+
+function parseNumber(value: string): number {
+  return Number(value.replace(/,/g, ""));
+}
+
+function normalizeDate(value: string): string {
+  return value.replace(/\//g, "-");
+}
+
+/**
+ * 去掉行内注释（忽略引号内的分号）
+ */
+function stripComment(line: string): string {
+  let inQuotes = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === "\\" && inQuotes) {
+      i++;
+    } else if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (char === ";" && !inQuotes) {
+      return line.slice(0, i).trimEnd();
+    }
+  }
+  return line.trimEnd();
+}
+
+const AMOUNT_PATTERN = String.raw`(-?[\d,]*\.?\d+)\s+([A-Z][A-Z0-9._-]*)`;
+const COST_PATTERN = String.raw`\{\{\s*([\d,]*\.?\d+)\s+([A-Z][A-Z0-9]*)\s*\}\}`;
+const POSTING_AMOUNT = new RegExp(
+  String.raw`^${AMOUNT_PATTERN}(?:\s+${COST_PATTERN})?(?:\s+(@@?)\s+([\d,]*\.?\d+)\s+([A-Z][A-Z0-9]*))?$`,
+);
+
+function parsePosting(
+  accountName: string,
+  amountText: string,
+  lineNumber: number,
+): PlainTextPosting {
+  const posting: PlainTextPosting = {
+    ...splitAccountName(accountName),
+    amount: null,
+    lineNumber,
+  };
+  if (amountText === "") return posting;
+
+  const match = amountText.match(POSTING_AMOUNT);
+  if (!match) {
+    throw new Error(
+      `Invalid posting amount "${amountText}" (line ${lineNumber})`,
+    );
+  }
+  const [, amount, unit, cost, costCurrency, priceType, price, priceCurrency] =
+    match;
+  if (cost) {
+    // 持仓行：数量取绝对值，金额为带方向的成本
+    const quantity = parseNumber(amount);
+    posting.quantity = Math.abs(quantity);
+    posting.amount = quantity < 0 ? -parseNumber(cost) : parseNumber(cost);
+    posting.currency = toCurrency(costCurrency, lineNumber);
+  } else {
+    posting.amount = parseNumber(amount);
+    posting.currency = toCurrency(unit, lineNumber);
+  }
+  if (priceType) {
+    const value = parseNumber(price);
+    posting.price = {
+      rate: priceType === "@@" ? value / Math.abs(posting.amount) : value,
+      currency: toCurrency(priceCurrency, lineNumber),
+    };
+  }
+  return posting;
+}
+
+function getActiveEntries(book: BookData): JournalEntryData[] {
+  return book.entries
+    .filter((e) => !e.deletedAt)
+    .sort(
+      (a, b) =>
+        a.date.localeCompare(b.date) || a.createdAt.localeCompare(b.createdAt),
+    );
+}
+
+/**
+ * 非根账户按路径排序，开户日期取创建日期与首笔分录日期中较早者
+ */
+function getOpenAccounts(book: BookData, entries: JournalEntryData[]) {
+  const firstUsed = new Map<string, string>();
+  for (const entry of entries) {
+    for (const line of entry.lines) {
+      const date = firstUsed.get(line.accountId);
+      if (!date || entry.date < date) {
+        firstUsed.set(line.accountId, entry.date);
+      }
+    }
+  }
+  return book.accounts
+    .filter((a) => a.parentId !== null)
+    .sort((a, b) => a.path.localeCompare(b.path))
+    .map((account) => {
+      const created = account.createdAt.split("T")[0];
+      const used = firstUsed.get(account.id);
+      return { account, date: used && used < created ? used : created };
+    });
+}
+
+function getLinePrice(
+  entry: JournalEntryData,
+  line: EntryLineData,
+  currency: CurrencyCode,
+  baseCurrency: CurrencyCode,
+): string {
+  if (!isMultiCurrencyEntry(entry) || currency === baseCurrency) return "";
+  return ` @ ${line.rate ?? 1} ${baseCurrency}`;
+}
+
+// ============================================================================
+// 导出
+// ============================================================================
+
+/**
+ * 导出为 Beancount 格式
+ */
+export function exportBeancount(book: BookData): string {
+  const entries = getActiveEntries(book);
+  const accountMap = new Map(book.accounts.map((a) => [a.id, a]));
+  const out: string[] = [
+    `option "title" ${quote(book.name)}`,
+    `option "operating_currency" "${book.defaultCurrency}"`,
+    "",
+  ];
+
+  for (const { account, date } of getOpenAccounts(book, entries)) {
+    const name = toPlainTextAccountName(account.path);
+    // 持仓账户同时允许品种与成本币种，不按批次匹配卖出
+    const constraint = account.commodity
+      ? `${account.currency},${account.commodity} "NONE"`
+      : account.currency;
+    out.push(`${date} open ${name} ${constraint}`);
+    out.push(`  name: ${quote(account.name)}`);
+    if (needsPathMeta(account.path)) {
+      out.push(`  path: ${quote(account.path)}`);
+    }
+    if (account.costBasisMethod) {
+      out.push(`  cost-basis: ${quote(account.costBasisMethod)}`);
+    }
+    if (account.note) out.push(`  note: ${quote(account.note)}`);
+    if (account.archived) out.push("  archived: TRUE");
+  }
+  out.push("");
+
+  for (const rate of book.exchangeRates) {
+    out.push(`${rate.date} price ${rate.from} ${rate.rate} ${rate.to}`);
+  }
+  if (book.exchangeRates.length > 0) out.push("");
+
+  const referenced = getReferencedEntryIds(entries);
+  for (const entry of entries) {
+    const strings = entry.payee
+      ? `${quote(entry.payee)} ${quote(entry.description)}`
+      : quote(entry.description);
+    const tags = (entry.tags ?? []).map((tag) => ` #${toTagName(tag)}`);
+    out.push(`${entry.date} * ${strings}${tags.join("")}`);
+    if (referenced.has(entry.id)) out.push(`  id: ${quote(entry.id)}`);
+    if (entry.note) out.push(`  note: ${quote(entry.note)}`);
+    for (const line of entry.lines) {
+      const account = accountMap.get(line.accountId);
+      const currency =
+        line.currency ?? account?.currency ?? book.defaultCurrency;
+      const name = toPlainTextAccountName(account?.path ?? line.accountId);
+      out.push(
+        `  ${name}  ${formatLineAmount(line, account, currency)}${getLinePrice(entry, line, currency, book.defaultCurrency)}`,
+      );
+      if (line.lotSelections?.length) {
+        out.push(`    lots: ${quote(formatLots(line.lotSelections))}`);
+      }
+      if (line.note) out.push(`    note: ${quote(line.note)}`);
+    }
+    out.push("");
+  }
+
+  return out.join("\n");
+}
+
+/**
+ * 导出为 ledger-cli 格式
+ *
+ * 收款人与描述以 "收款人 | 描述" 写在标题行，标签写为 ":a:b:" 注释
+ */
+export function exportLedger(book: BookData): string {
+  const entries = getActiveEntries(book);
+  const accountMap = new Map(book.accounts.map((a) => [a.id, a]));
+  const out: string[] = [
+    `; title: ${book.name}`,
+    `; currency: ${book.defaultCurrency}`,
+    "",
+  ];
+
+  for (const { account } of getOpenAccounts(book, entries)) {
+    out.push(`account ${toPlainTextAccountName(account.path)}`);
+    out.push(`    ; name: ${account.name}`);
+    if (needsPathMeta(account.path)) out.push(`    ; path: ${account.path}`);
+    out.push(`    ; currency: ${account.currency}`);
+    if (account.commodity) out.push(`    ; commodity: ${account.commodity}`);
+    if (account.costBasisMethod) {
+      out.push(`    ; cost-basis: ${account.costBasisMethod}`);
+    }
+    if (account.note) out.push(`    ; note: ${account.note}`);
+    if (account.archived) out.push("    ; archived: true");
+  }
+  out.push("");
+
+  for (const rate of book.exchangeRates) {
+    out.push(`P ${rate.date} ${rate.from} ${rate.rate} ${rate.to}`);
+  }
+  if (book.exchangeRates.length > 0) out.push("");
+
+  const referenced = getReferencedEntryIds(entries);
+  for (const entry of entries) {
+    const title = entry.payee
+      ? `${entry.payee} | ${entry.description}`
+      : entry.description;
+    out.push(`${entry.date} * ${title}`);
+    if (entry.tags && entry.tags.length > 0) {
+      out.push(`    ; :${entry.tags.map(toTagName).join(":")}:`);
+    }
+    if (referenced.has(entry.id)) out.push(`    ; id: ${entry.id}`);
+    if (entry.note) out.push(`    ; note: ${entry.note}`);
+    for (const line of entry.lines) {
+      const account = accountMap.get(line.accountId);
+      const currency =
+        line.currency ?? account?.currency ?? book.defaultCurrency;
+      const name = toPlainTextAccountName(account?.path ?? line.accountId);
+      out.push(
+        `    ${name}  ${formatLineAmount(line, account, currency)}${getLinePrice(entry, line, currency, book.defaultCurrency)}`,
+      );
+      if (line.lotSelections?.length) {
+        out.push(`        ; lots: ${formatLots(line.lotSelections)}`);
+      }
+      if (line.note) out.push(`        ; note: ${line.note}`);
+    }
+    out.push("");
+  }
+
+  return out.join("\n");
+}
+
+/**
+ * 按格式导出
+ */
+export function exportPlainText(
+  book: BookData,
+  format: PlainTextFormat,
+): string {
+  return format === "beancount" ? exportBeancount(book) : exportLedger(book);
+}
+
+// ============================================================================
+// 解析
+// ============================================================================
+
+function setPostingMeta(posting: PlainTextPosting, key: string, value: string) {
+  if (key === "note") posting.note = value;
+  if (key === "lots") posting.lots = value.trim();
+}
+
+function setTransactionMeta(
+  transaction: PlainTextTransaction,
+  key: string,
+  value: string,
+) {
+  if (key === "note") transaction.note = value;
+  if (key === "id") transaction.id = value.trim();
+}
+
+function parseBeancountValue(value: string): string {
+  const text = value.trim();
+  if (text.startsWith('"') && text.endsWith('"')) return unquote(text);
+  return text;
+}
+
+function parseBeancount(text: string): PlainTextJournal {
+  const journal: PlainTextJournal = {
+    accounts: [],
+    prices: [],
+    transactions: [],
+  };
+  let account: PlainTextAccount | null = null;
+  let transaction: PlainTextTransaction | null = null;
+  let posting: PlainTextPosting | null = null;
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const lineNumber = index + 1;
+    const line = stripComment(raw);
+    if (line.trim() === "") return;
+
+    if (/^\s/.test(line)) {
+      const content = line.trim();
+      const meta = content.match(/^([a-z][\w-]*):\s*(.*)$/);
+      if (meta) {
+        const value = parseBeancountValue(meta[2]);
+        if (posting) setPostingMeta(posting, meta[1], value);
+        else if (transaction) setTransactionMeta(transaction, meta[1], value);
+        else if (account) account.meta[meta[1]] = value;
+        return;
+      }
+      if (transaction) {
+        const [accountName, ...rest] = content
+          .replace(/^[*!]\s+/, "")
+          .split(/\s+/);
+        posting = parsePosting(accountName, rest.join(" "), lineNumber);
+        transaction.postings.push(posting);
+      }
+      return;
+    }
+
+    account = null;
+    transaction = null;
+    posting = null;
+
+    const option = line.match(/^option\s+"([^"]+)"\s+("(?:[^"\\]|\\.)*")/);
+    if (option) {
+      const value = unquote(option[2]);
+      if (option[1] === "title") journal.title = value;
+      if (option[1] === "operating_currency" && !journal.currency) {
+        journal.currency = toCurrency(value, lineNumber);
+      }
+      return;
+    }
+
+    const open = line.match(
+      /^(\d{4}-\d{2}-\d{2})\s+open\s+(\S+)(?:\s+([A-Z][A-Z0-9.,_-]*))?/,
+    );
+    if (open) {
+      // 持仓账户的约束写为 "成本币种,品种"
+      const [currency, commodity] = open[3]?.split(",") ?? [];
+      account = {
+        ...splitAccountName(open[2]),
+        currency: currency ? toCurrency(currency, lineNumber) : undefined,
+        meta: commodity ? { commodity } : {},
+      };
+      journal.accounts.push(account);
+      return;
+    }
+
+    const price = line.match(
+      /^(\d{4}-\d{2}-\d{2})\s+price\s+([A-Z]+)\s+([\d.,]+)\s+([A-Z]+)/,
+    );
+    if (price) {
+      journal.prices.push({
+        date: price[1],
+        from: toCurrency(price[2], lineNumber),
+        rate: parseNumber(price[3]),
+        to: toCurrency(price[4], lineNumber),
+      });
+      return;
+    }
+
+    const header = line.match(/^(\d{4}-\d{2}-\d{2})\s+(?:\*|!|txn)(.*)$/);
+    if (header) {
+      const strings = header[2].match(/"(?:[^"\\]|\\.)*"/g)?.map(unquote) ?? [];
+      const tags = [
+        ...header[2].replace(/"(?:[^"\\]|\\.)*"/g, "").matchAll(/#([^\s#]+)/g),
+      ].map((m) => m[1]);
+      transaction = {
+        date: header[1],
+        payee: strings.length > 1 ? strings[0] : undefined,
+        description: strings[strings.length - 1] ?? "",
+        tags,
+        postings: [],
+        lineNumber,
+      };
+      journal.transactions.push(transaction);
+    }
+    // 其他指令（close、balance、commodity 等）忽略
+  });
+
+  return journal;
+}
+
+function parseLedger(text: string): PlainTextJournal {
+  const journal: PlainTextJournal = {
+    accounts: [],
+    prices: [],
+    transactions: [],
+  };
+  let account: PlainTextAccount | null = null;
+  let transaction: PlainTextTransaction | null = null;
+  let posting: PlainTextPosting | null = null;
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const lineNumber = index + 1;
+    if (raw.trim() === "") return;
+
+    if (/^\s/.test(raw)) {
+      const content = raw.trim();
+      if (content.startsWith(";")) {
+        const comment = content.slice(1).trim();
+        const tags = comment.match(/^:(.+):$/);
+        const meta = comment.match(/^([\w-]+):\s*(.*)$/);
+        if (tags && transaction) {
+          transaction.tags.push(...tags[1].split(":").filter(Boolean));
+        } else if (meta) {
+          if (posting) setPostingMeta(posting, meta[1], meta[2]);
+          else if (transaction) {
+            setTransactionMeta(transaction, meta[1], meta[2]);
+          } else if (account && meta[1] === "currency") {
+            account.currency = toCurrency(meta[2].trim(), lineNumber);
+          } else if (account) account.meta[meta[1]] = meta[2];
+        }
+        return;
+      }
+      if (transaction) {
+        const body = stripComment(content);
+        const match = body.match(/^(.+?)(?:\s{2,}|\t)(.*)$/);
+        posting = parsePosting(
+          (match ? match[1] : body).replace(/^[*!]\s+/, ""),
+          match ? match[2].trim() : "",
+          lineNumber,
+        );
+        transaction.postings.push(posting);
+      }
+      return;
+    }
+
+    account = null;
+    transaction = null;
+    posting = null;
+
+    const comment = raw.match(/^[;#]\s*([\w-]+):\s*(.*)$/);
+    if (comment) {
+      if (comment[1] === "title") journal.title = comment[2].trim();
+      if (comment[1] === "currency") {
+        journal.currency = toCurrency(comment[2].trim(), lineNumber);
+      }
+      return;
+    }
+
+    const accountDirective = raw.match(/^account\s+(.+?)\s*$/);
+    if (accountDirective) {
+      account = { ...splitAccountName(accountDirective[1]), meta: {} };
+      journal.accounts.push(account);
+      return;
+    }
+
+    const price = raw.match(
+      /^P\s+(\d{4}[-/]\d{2}[-/]\d{2})(?:\s+[\d:]+)?\s+([A-Z]+)\s+([\d.,]+)\s+([A-Z]+)/,
+    );
+    if (price) {
+      journal.prices.push({
+        date: normalizeDate(price[1]),
+        from: toCurrency(price[2], lineNumber),
+        rate: parseNumber(price[3]),
+        to: toCurrency(price[4], lineNumber),
+      });
+      return;
+    }
+
+    const header = raw.match(
+      /^(\d{4}[-/]\d{2}[-/]\d{2})(?:=\S+)?\s+(?:[*!]\s+)?(?:\([^)]*\)\s+)?(.*)$/,
+    );
+    if (header) {
+      const title = header[2].split(/\s{2,};|\t;/)[0].trim();
+      const separator = title.indexOf(" | ");
+      transaction = {
+        date: normalizeDate(header[1]),
+        payee: separator >= 0 ? title.slice(0, separator) : undefined,
+        description: separator >= 0 ? title.slice(separator + 3) : title,
+        tags: [],
+        postings: [],
+        lineNumber,
+      };
+      journal.transactions.push(transaction);
+    }
+    // 其他指令（commodity、include 等）忽略
+  });
+
+  return journal;
+}
+
+// ============================================================================
+// 构建账簿
+// ============================================================================
+
+/**
+ * 由解析结果构建账簿：补全父账户，按顺序过账分录
+ */
+function buildBookFromJournal(
+  journal: PlainTextJournal,
+  options: { name?: string; defaultCurrency?: CurrencyCode },
+): BookData {
+  const baseCurrency = options.defaultCurrency ?? journal.currency ?? "CNY";
+  let book = createBook({
+    name: options.name ?? journal.title ?? "Imported",
+    defaultCurrency: baseCurrency,
+  });
+  book.exchangeRates = journal.prices;
+  const accounts = new Map(book.accounts.map((a) => [a.path, a]));
+  // 账户名转回的路径 → path 元数据保存的原路径
+  const originalPaths = new Map(
+    journal.accounts
+      .filter((item) => item.meta.path)
+      .map((item) => [item.path, item.meta.path]),
+  );
+  const resolvePath = (path: string) => originalPaths.get(path) ?? path;
+
+  const ensureAccount = (
+    path: string,
+    segment: string,
+    currency?: CurrencyCode,
+  ): AccountData => {
+    const existing = accounts.get(path);
+    if (existing) return existing;
+
+    const parentPath = path.split(":").slice(0, -1).join(":");
+    if (!parentPath) {
+      throw new Error(`Unknown account root: ${path}`);
+    }
+    const parent = ensureAccount(parentPath, parentPath.split(":").pop()!);
+    const account: AccountData = {
+      ...createAccount({
+        name: segment,
+        type: parent.type,
+        currency: currency ?? parent.currency,
+        parentId: parent.id,
+        parentPath: parent.path,
+      }),
+      path,
+    };
+    accounts.set(path, account);
+    book.accounts.push(account);
+    return account;
+  };
+
+  for (const item of journal.accounts) {
+    const account = ensureAccount(
+      resolvePath(item.path),
+      item.segment,
+      item.currency,
+    );
+    if (item.meta.name) account.name = item.meta.name;
+    if (item.meta.note) account.note = item.meta.note;
+    if (/^true$/i.test(item.meta.archived ?? "")) account.archived = true;
+    if (item.meta.commodity) {
+      account.commodity = normalizeCommodity(item.meta.commodity);
+    }
+    const method = item.meta["cost-basis"]?.trim() as CostBasisMethod;
+    if (COST_BASIS_METHODS.includes(method)) account.costBasisMethod = method;
+  }
+
+  for (const transaction of journal.transactions) {
+    const entry = createEntry({
+      date: transaction.date,
+      description: transaction.description,
+      lines: buildLines(
+        transaction,
+        (path, segment, currency) =>
+          ensureAccount(resolvePath(path), segment, currency),
+        baseCurrency,
+      ),
+      tags: transaction.tags.length > 0 ? transaction.tags : undefined,
+      payee: transaction.payee,
+      note: transaction.note,
+    });
+    if (transaction.id) entry.id = transaction.id;
+    try {
+      book = addEntry(book, entry);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`${message} (line ${transaction.lineNumber})`);
+    }
+    // addEntry 返回新的账户数组，同步到路径索引
+    for (const account of book.accounts) accounts.set(account.path, account);
+  }
+
+  return book;
+}
+
+function buildLines(
+  transaction: PlainTextTransaction,
+  ensureAccount: (
+    path: string,
+    segment: string,
+    currency?: CurrencyCode,
+  ) => AccountData,
+  baseCurrency: CurrencyCode,
+): EntryLineData[] {
+  const postings = fillElidedAmount(transaction);
+  const isMultiCurrency = postings.some((p) => p.price);
+
+  return postings
+    .filter((posting) => posting.amount !== 0)
+    .map((posting) => {
+      const account = ensureAccount(
+        posting.path,
+        posting.segment,
+        posting.currency,
+      );
+      const currency = posting.currency ?? account.currency;
+      const type =
+        posting.amount! > 0 ? EntryLineType.DEBIT : EntryLineType.CREDIT;
+      const amount = Math.round(
+        Math.abs(posting.amount!) * getCurrencyMultiplier(currency),
+      );
+
+      let line: EntryLineData;
+      if (!isMultiCurrency) {
+        line = { accountId: account.id, amount, type };
+        if (posting.note) line.note = posting.note;
+      } else {
+        if (posting.price && posting.price.currency !== baseCurrency) {
+          throw new Error(
+            `Price must be in ${baseCurrency} (line ${posting.lineNumber})`,
+          );
+        }
+        if (!posting.price && currency !== baseCurrency) {
+          throw new Error(
+            `Missing price for ${currency} (line ${posting.lineNumber})`,
+          );
+        }
+        line = createCurrencyLine({
+          accountId: account.id,
+          type,
+          amount,
+          currency,
+          rate: posting.price?.rate ?? 1,
+          baseCurrency,
+          note: posting.note,
+        });
+      }
+      if (posting.quantity) line.quantity = posting.quantity;
+      if (posting.lots) {
+        line.lotSelections = parseLots(posting.lots, posting.lineNumber);
+      }
+      return line;
+    });
+}
+
+/**
+ * 单币种分录允许省略一行金额，按其余行补平
+ */
+function fillElidedAmount(transaction: PlainTextTransaction) {
+  const elided = transaction.postings.filter((p) => p.amount === null);
+  if (elided.length === 0) return transaction.postings;
+
+  const priced = transaction.postings.filter((p) => p.amount !== null);
+  const currencies = new Set(priced.map((p) => p.currency));
+  if (elided.length > 1 || currencies.size > 1 || priced.some((p) => p.price)) {
+    throw new Error(
+      `Cannot infer posting amount (line ${transaction.lineNumber})`,
+    );
+  }
+  const currency = priced[0]?.currency;
+  const multiplier = currency ? getCurrencyMultiplier(currency) : 1;
+  const total = priced.reduce(
+    (sum, p) => sum + Math.round(p.amount! * multiplier),
+    0,
+  );
+  return transaction.postings.map((p) =>
+    p.amount === null ? { ...p, amount: -total / multiplier, currency } : p,
+  );
+}
+
+// ============================================================================
+// 导入
+// ============================================================================
+
+/**
+ * 从 Beancount 文本导入账簿
+ */
+export function importBeancount(
+  text: string,
+  options: { name?: string; defaultCurrency?: CurrencyCode } = {},
+): BookData {
+  return buildBookFromJournal(parseBeancount(text), options);
+}
+
+/**
+ * 从 ledger-cli 文本导入账簿
+ */
+export function importLedger(
+  text: string,
+  options: { name?: string; defaultCurrency?: CurrencyCode } = {},
+): BookData {
+  return buildBookFromJournal(parseLedger(text), options);
+}
+
+/**
+ * 按格式导入
+ */
+export function importPlainText(
+  text: string,
+  format: PlainTextFormat,
+  options: { name?: string; defaultCurrency?: CurrencyCode } = {},
+): BookData {
+  return format === "beancount"
+    ? importBeancount(text, options)
+    : importLedger(text, options);
+}
@@ -152,10 +152,7 @@ export function getThisYearEntries(book: BookData): JournalEntryData[] {
 /**
  * 获取账户的完整层级路径名称
  */
-export function getAccountFullName(
-  book: BookData,
-  accountId: string,
-): string {
+export function getAccountFullName(book: BookData, accountId: string): string {
   const account = book.accounts.find((a) => a.id === accountId);
   if (!account) return "";
 
@@ -213,19 +210,22 @@ export function getActiveAccounts(
   );
 }
 
+/**
+ * 账户树节点
+ */
+export type AccountTreeNode = AccountData & { children: AccountTreeNode[] };
+
 /**
  * 按类型获取账户树
  */
 export function getAccountTree(
   book: BookData,
   type: AccountType,
-): (AccountData & { children: AccountData[] })[] {
+): AccountTreeNode[] {
   const accounts = book.accounts.filter((a) => a.type === type);
   const rootAccounts = accounts.filter((a) => a.parentId === null);
 
-  function buildTree(
-    parent: AccountData,
-  ): AccountData & { children: AccountData[] } {
+  function buildTree(parent: AccountData): AccountTreeNode {
     const children = accounts
       .filter((a) => a.parentId === parent.id)
       .map(buildTree);
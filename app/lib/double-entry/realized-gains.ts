@@ -0,0 +1,316 @@
+/**
+ * 已实现盈亏
+ *
+ * 卖出分录过账前按成本方法重算持仓行的成本，卖出净收入与成本的差额
+ * 自动生成一行已实现盈亏（收入账户）；按年度、品种和持有期汇总已实现盈亏。
+ */
+
+import type {
+  AccountData,
+  BookData,
+  CurrencyCode,
+  EntryLineData,
+  JournalEntryData,
+} from "./types";
+import { AccountType, EntryLineType } from "./types";
+import { createAccount, createAccountPath } from "./account";
+import { isMultiCurrencyEntry } from "./entry";
+import { matchLots, roundQuantity } from "./cost-basis";
+import { getHoldingLots, getHoldingSales, isHoldingAccount } from "./holdings";
+
+// ============================================================================
+// 已实现盈亏账户
+// ============================================================================
+
+export const REALIZED_GAINS_ACCOUNT_NAME = "Realized Gains";
+
+// 收入根账户与对应币种的账户名称（非根账户币种时带币种后缀）
+function getRealizedGainsAccountName(
+  incomeRoot: AccountData,
+  currency: CurrencyCode,
+): string {
+  return currency === incomeRoot.currency
+    ? REALIZED_GAINS_ACCOUNT_NAME
+    : `${REALIZED_GAINS_ACCOUNT_NAME} ${currency}`;
+}
+
+function findIncomeRoot(accounts: AccountData[]): AccountData {
+  const incomeRoot = accounts.find(
+    (a) => a.type === AccountType.INCOME && a.parentId === null,
+  );
+  if (!incomeRoot) {
+    throw new Error("Income root account not found");
+  }
+  return incomeRoot;
+}
+
+/**
+ * 查找币种对应的已实现盈亏账户
+ */
+export function findRealizedGainsAccount(
+  accounts: AccountData[],
+  currency: CurrencyCode,
+): AccountData | undefined {
+  const incomeRoot = findIncomeRoot(accounts);
+  const path = createAccountPath(
+    incomeRoot.path,
+    getRealizedGainsAccountName(incomeRoot, currency),
+  );
+  return accounts.find((a) => a.path === path && a.currency === currency);
+}
+
+/**
+ * 创建已实现盈亏账户（收入根账户下，币种与持仓账户相同）
+ */
+export function createRealizedGainsAccount(
+  accounts: AccountData[],
+  currency: CurrencyCode,
+): AccountData {
+  const incomeRoot = findIncomeRoot(accounts);
+  return createAccount({
+    name: getRealizedGainsAccountName(incomeRoot, currency),
+    type: AccountType.INCOME,
+    currency,
+    parentId: incomeRoot.id,
+    parentPath: incomeRoot.path,
+  });
+}
+
+// ============================================================================
+// 过账前重算卖出成本
+// ============================================================================
+
+/**
+ * 分录中卖出持仓的行（持仓账户的贷方行）
+ */
+export function getSaleLineIndexes(
+  lines: Array<Pick<EntryLineData, "accountId" | "type">>,
+  accounts: AccountData[],
+): number[] {
+  const accountMap = new Map(accounts.map((a) => [a.id, a]));
+  return lines.flatMap((line, index) => {
+    const account = accountMap.get(line.accountId);
+    return account &&
+      isHoldingAccount(account) &&
+      line.type === EntryLineType.CREDIT
+      ? [index]
+      : [];
+  });
+}
+
+/**
+ * 按成本方法重算卖出行的成本，并重新生成已实现盈亏行
+ *
+ * 批次按该分录之前（日期、创建时间）的分录重放，不含分录自身，因此修改
+ * 已有的卖出分录时结果一致。gainAccountId 上原有的行视为旧的盈亏行丢弃；
+ * 卖出净收入与成本的差额为正记贷方（收益），为负记借方（亏损）。
+ * 每笔分录只能卖出一个持仓，且不支持跨币种卖出。
+ */
+export function applyCostBasis(
+  book: Pick<BookData, "accounts" | "entries" | "corporateActions">,
+  entry: JournalEntryData,
+  gainAccountId: string,
+): JournalEntryData {
+  const saleIndexes = getSaleLineIndexes(entry.lines, book.accounts);
+  if (saleIndexes.length === 0) return entry;
+  if (saleIndexes.length > 1) {
+    throw new Error("Only one holding can be sold per entry");
+  }
+  if (isMultiCurrencyEntry(entry)) {
+    throw new Error("Cross-currency sales are not supported");
+  }
+
+  const saleLine = entry.lines[saleIndexes[0]];
+  const account = book.accounts.find((a) => a.id === saleLine.accountId)!;
+  const gainAccount = book.accounts.find((a) => a.id === gainAccountId);
+  if (!gainAccount || gainAccount.currency !== account.currency) {
+    throw new Error("Realized gains account not found");
+  }
+  if (!saleLine.quantity || saleLine.quantity <= 0) {
+    throw new Error("Quantity must be greater than 0");
+  }
+
+  const before = book.entries.filter(
+    (e) =>
+      e.id !== entry.id &&
+      (e.date < entry.date ||
+        (e.date === entry.date && e.createdAt < entry.createdAt)),
+  );
+  const result = matchLots(
+    getHoldingLots({ ...book, entries: before }, account.id, entry.date),
+    saleLine.quantity,
+    account.costBasisMethod,
+    saleLine.lotSelections,
+  );
+  if (result.shortfall > 0) {
+    throw new Error("Insufficient quantity");
+  }
+
+  const lines: EntryLineData[] = entry.lines
+    .map((line) =>
+      line === saleLine ? { ...line, amount: result.cost } : line,
+    )
+    .filter((line) => line.accountId !== gainAccountId);
+  const gain = lines.reduce(
+    (sum, line) =>
+      sum + (line.type === EntryLineType.DEBIT ? line.amount : -line.amount),
+    0,
+  );
+  if (gain !== 0) {
+    lines.push({
+      accountId: gainAccountId,
+      type: gain > 0 ? EntryLineType.CREDIT : EntryLineType.DEBIT,
+      amount: Math.abs(gain),
+    });
+  }
+  return { ...entry, lines };
+}
+
+/**
+ * 卖出持仓的成本计算上下文
+ */
+export interface SaleContext {
+  /** 用于重放持仓批次的账户与分录 */
+  book: Pick<BookData, "accounts" | "entries" | "corporateActions">;
+  /** 已实现盈亏账户，卖出净收入与成本的差额记入此账户 */
+  gainAccountId: string;
+}
+
+/**
+ * 有卖出上下文时按成本方法重算卖出成本，并生成已实现盈亏行
+ */
+export function applySaleContext(
+  entry: JournalEntryData,
+  sale?: SaleContext,
+): JournalEntryData {
+  return sale ? applyCostBasis(sale.book, entry, sale.gainAccountId) : entry;
+}
+
+// ============================================================================
+// 年度已实现盈亏报表
+// ============================================================================
+
+/**
+ * 持有期：short 不超过一年，long 超过一年
+ */
+export type HoldingPeriod = "short" | "long";
+
+/**
+ * 按品种、持有期汇总的已实现盈亏（金额为最小单位，持仓账户币种）
+ */
+export interface RealizedGainRow {
+  symbol: string;
+  currency: CurrencyCode;
+  period: HoldingPeriod;
+  quantity: number;
+  proceeds: number;
+  cost: number;
+  gain: number;
+}
+
+/**
+ * 年度已实现盈亏报表
+ */
+export interface RealizedGainsReport {
+  year: number;
+  rows: RealizedGainRow[];
+  /** 按币种合计 */
+  totals: Array<{
+    currency: CurrencyCode;
+    proceeds: number;
+    cost: number;
+    gain: number;
+  }>;
+}
+
+/**
+ * 卖出日期是否晚于买入日期一年以上
+ */
+export function getHoldingPeriod(
+  buyDate: string,
+  sellDate: string,
+): HoldingPeriod {
+  const anniversary = new Date(`${buyDate}T00:00:00Z`);
+  anniversary.setUTCFullYear(anniversary.getUTCFullYear() + 1);
+  return sellDate > anniversary.toISOString().split("T")[0] ? "long" : "short";
+}
+
+// 分录中已实现盈亏账户行的净额（贷方为正），即该笔卖出的已实现盈亏
+function getSaleGain(
+  entry: JournalEntryData,
+  gainsAccountId: string | undefined,
+): number {
+  return entry.lines.reduce((sum, line) => {
+    if (line.accountId !== gainsAccountId) return sum;
+    return (
+      sum + (line.type === EntryLineType.CREDIT ? line.amount : -line.amount)
+    );
+  }, 0);
+}
+
+/**
+ * 年度已实现盈亏：按品种和持有期汇总该年的卖出
+ *
+ * 卖出净收入 = 成本 + 分录中已实现盈亏账户行的金额，按数量分摊到匹配的
+ * 批次后再按各批次的持有期分组
+ */
+export function buildRealizedGainsReport(
+  book: BookData,
+  year: number,
+): RealizedGainsReport {
+  const rows = new Map<string, RealizedGainRow>();
+  const prefix = `${year}-`;
+
+  for (const sale of getHoldingSales(book)) {
+    if (!sale.entry.date.startsWith(prefix)) continue;
+    const { currency } = sale.account;
+    const gainsAccount = findRealizedGainsAccount(book.accounts, currency);
+    const proceeds = sale.cost + getSaleGain(sale.entry, gainsAccount?.id);
+
+    let allocated = 0;
+    sale.matches.forEach((match, index) => {
+      const matchProceeds =
+        index === sale.matches.length - 1
+          ? proceeds - allocated
+          : Math.round((proceeds * match.quantity) / sale.quantity);
+      allocated += matchProceeds;
+
+      const period = getHoldingPeriod(match.lot.date, sale.entry.date);
+      const key = `${sale.account.commodity}|${currency}|${period}`;
+      const row = rows.get(key) ?? {
+        symbol: sale.account.commodity!,
+        currency,
+        period,
+        quantity: 0,
+        proceeds: 0,
+        cost: 0,
+        gain: 0,
+      };
+      row.quantity = roundQuantity(row.quantity + match.quantity);
+      row.proceeds += matchProceeds;
+      row.cost += match.cost;
+      row.gain += matchProceeds - match.cost;
+      rows.set(key, row);
+    });
+  }
+
+  const sorted = [...rows.values()].sort(
+    (a, b) =>
+      a.symbol.localeCompare(b.symbol) || a.period.localeCompare(b.period),
+  );
+  const totals = new Map<CurrencyCode, RealizedGainsReport["totals"][number]>();
+  for (const row of sorted) {
+    const total = totals.get(row.currency) ?? {
+      currency: row.currency,
+      proceeds: 0,
+      cost: 0,
+      gain: 0,
+    };
+    total.proceeds += row.proceeds;
+    total.cost += row.cost;
+    total.gain += row.gain;
+    totals.set(row.currency, total);
+  }
+
+  return { year, rows: sorted, totals: [...totals.values()] };
+}
@@ -0,0 +1,307 @@
+/**
+ * 对账与余额断言
+ *
+ * 对账时按对账单逐笔勾选资产、负债账户的分录行（cleared），已勾选余额与
+ * 对账单期末余额一致后完成对账：勾选的行标记为 reconciled 并锁定，
+ * 同时生成一条余额断言，validateBook 据此发现余额的静默偏差。
+ */
+
+import type {
+  AccountData,
+  BalanceAssertion,
+  BookData,
+  EntryLineData,
+  JournalEntryData,
+  Reconciliation,
+} from "./types";
+import { EntryLineType } from "./types";
+import { isDebitIncreaseAccount } from "./account";
+
+/**
+ * 待对账的分录行
+ */
+export interface ReconcileLine {
+  entry: JournalEntryData;
+  /** 行在分录中的位置 */
+  lineIndex: number;
+  line: EntryLineData;
+  /** 按账户正常方向取正负的金额 */
+  amount: number;
+}
+
+/**
+ * 余额断言校验结果
+ */
+export interface BalanceAssertionCheck {
+  assertion: BalanceAssertion;
+  account?: AccountData;
+  actual: number;
+  /** 实际余额 - 预期余额 */
+  difference: number;
+}
+
+/**
+ * 生成对账 ID
+ */
+export function generateReconciliationId(): string {
+  return crypto.randomUUID();
+}
+
+/**
+ * 开始对账
+ */
+export function createReconciliation(params: {
+  accountId: string;
+  statementDate: string;
+  statementBalance: number;
+  createdBy?: string;
+}): Reconciliation {
+  const reconciliation: Reconciliation = {
+    id: generateReconciliationId(),
+    accountId: params.accountId,
+    statementDate: params.statementDate,
+    statementBalance: params.statementBalance,
+    status: "open",
+    createdAt: new Date().toISOString(),
+  };
+  if (params.createdBy) reconciliation.createdBy = params.createdBy;
+  return reconciliation;
+}
+
+/**
+ * 生成余额断言 ID
+ */
+export function generateBalanceAssertionId(): string {
+  return crypto.randomUUID();
+}
+
+/**
+ * 创建余额断言
+ */
+export function createBalanceAssertion(
+  params: Omit<BalanceAssertion, "id">,
+): BalanceAssertion {
+  return { ...params, id: generateBalanceAssertionId() };
+}
+
+// 行金额按账户正常方向取正负
+function getSignedLineAmount(account: AccountData, line: EntryLineData) {
+  const isDebit = line.type === EntryLineType.DEBIT;
+  return isDebit === isDebitIncreaseAccount(account.type)
+    ? line.amount
+    : -line.amount;
+}
+
+// 截至日期（含）账户上的全部分录行
+function getAccountLines(
+  book: BookData,
+  account: AccountData,
+  date: string,
+): ReconcileLine[] {
+  const lines: ReconcileLine[] = [];
+  for (const entry of book.entries) {
+    if (entry.deletedAt || entry.date > date) continue;
+    entry.lines.forEach((line, lineIndex) => {
+      if (line.accountId !== account.id) return;
+      lines.push({
+        entry,
+        lineIndex,
+        line,
+        amount: getSignedLineAmount(account, line),
+      });
+    });
+  }
+  return lines.sort(
+    (a, b) =>
+      a.entry.date.localeCompare(b.entry.date) ||
+      a.entry.createdAt.localeCompare(b.entry.createdAt),
+  );
+}
+
+function requireAccount(book: BookData, accountId: string): AccountData {
+  const account = book.accounts.find((a) => a.id === accountId);
+  if (!account) {
+    throw new Error(`Account ${accountId} not found`);
+  }
+  return account;
+}
+
+/**
+ * 获取对账单日期之前尚未完成对账的行（按日期升序）
+ */
+export function getReconcileLines(
+  book: BookData,
+  reconciliation: Pick<Reconciliation, "accountId" | "statementDate">,
+): ReconcileLine[] {
+  const account = requireAccount(book, reconciliation.accountId);
+  return getAccountLines(book, account, reconciliation.statementDate).filter(
+    (item) => !item.line.reconciled,
+  );
+}
+
+/**
+ * 已核对余额：截至对账单日期，已勾选或已对账的行合计
+ */
+export function getClearedBalance(
+  book: BookData,
+  reconciliation: Pick<Reconciliation, "accountId" | "statementDate">,
+): number {
+  const account = requireAccount(book, reconciliation.accountId);
+  return getAccountLines(book, account, reconciliation.statementDate)
+    .filter((item) => item.line.cleared || item.line.reconciled)
+    .reduce((sum, item) => sum + item.amount, 0);
+}
+
+/**
+ * 对账差额：对账单期末余额 - 已核对余额，为 0 时可以完成对账
+ */
+export function getReconciliationDifference(
+  book: BookData,
+  reconciliation: Reconciliation,
+): number {
+  return (
+    reconciliation.statementBalance - getClearedBalance(book, reconciliation)
+  );
+}
+
+/**
+ * 勾选或取消勾选分录行（已对账的行不能修改）
+ */
+export function setLineCleared(
+  entry: JournalEntryData,
+  lineIndex: number,
+  cleared: boolean,
+): JournalEntryData {
+  const target = entry.lines[lineIndex];
+  if (!target) {
+    throw new Error(`Line ${lineIndex} not found`);
+  }
+  if (target.reconciled) {
+    throw new Error("Reconciled lines cannot be changed");
+  }
+  return {
+    ...entry,
+    lines: entry.lines.map((line, index) => {
+      if (index !== lineIndex) return line;
+      const next = { ...line };
+      if (cleared) {
+        next.cleared = true;
+      } else {
+        delete next.cleared;
+      }
+      return next;
+    }),
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * 完成对账：差额为 0 时把已勾选的行标记为已对账，并生成余额断言
+ *
+ * 返回发生变化的分录、完成后的对账记录和新断言
+ */
+export function finishReconciliation(
+  book: BookData,
+  reconciliationId: string,
+): {
+  entries: JournalEntryData[];
+  reconciliation: Reconciliation;
+  assertion: BalanceAssertion;
+} {
+  const reconciliation = (book.reconciliations ?? []).find(
+    (r) => r.id === reconciliationId,
+  );
+  if (!reconciliation || reconciliation.status !== "open") {
+    throw new Error("Reconciliation not found");
+  }
+  const difference = getReconciliationDifference(book, reconciliation);
+  if (difference !== 0) {
+    throw new Error(`Reconciliation is off by ${difference}`);
+  }
+
+  const now = new Date().toISOString();
+  const changed = new Map<string, JournalEntryData>();
+  for (const item of getReconcileLines(book, reconciliation)) {
+    if (!item.line.cleared) continue;
+    const entry = changed.get(item.entry.id) ?? item.entry;
+    changed.set(item.entry.id, {
+      ...entry,
+      lines: entry.lines.map((line, index) =>
+        index === item.lineIndex ? { ...line, reconciled: true } : line,
+      ),
+      updatedAt: now,
+    });
+  }
+
+  return {
+    entries: [...changed.values()],
+    reconciliation: { ...reconciliation, status: "finished", finishedAt: now },
+    assertion: createBalanceAssertion({
+      accountId: reconciliation.accountId,
+      date: reconciliation.statementDate,
+      amount: reconciliation.statementBalance,
+      reconciliationId: reconciliation.id,
+    }),
+  };
+}
+
+/**
+ * 分录是否包含已对账的行
+ */
+export function hasReconciledLines(entry: JournalEntryData): boolean {
+  return entry.lines.some((line) => line.reconciled);
+}
+
+/**
+ * 校验分录修改没有改动已对账的行：这些行必须保留（账户、方向、金额不变），
+ * 分录日期不变且不能删除
+ */
+export function assertReconciledLinesKept(
+  before: JournalEntryData,
+  after: JournalEntryData,
+) {
+  const reconciled = before.lines.filter((line) => line.reconciled);
+  if (before.deletedAt || reconciled.length === 0) return;
+
+  const candidates = after.lines.filter((line) => line.reconciled);
+  const kept =
+    !after.deletedAt &&
+    after.date === before.date &&
+    reconciled.every((line) => {
+      const index = candidates.findIndex(
+        (next) =>
+          next.accountId === line.accountId &&
+          next.type === line.type &&
+          next.amount === line.amount,
+      );
+      if (index === -1) return false;
+      candidates.splice(index, 1);
+      return true;
+    });
+  if (!kept) {
+    throw new Error("Reconciled lines cannot be changed");
+  }
+}
+
+/**
+ * 校验全部余额断言：账户（不含子账户）在断言日期结束时的余额
+ */
+export function checkBalanceAssertions(
+  book: BookData,
+): BalanceAssertionCheck[] {
+  return (book.balanceAssertions ?? []).map((assertion) => {
+    const account = book.accounts.find((a) => a.id === assertion.accountId);
+    const actual = account
+      ? getAccountLines(book, account, assertion.date).reduce(
+          (sum, item) => sum + item.amount,
+          0,
+        )
+      : 0;
+    return {
+      assertion,
+      account,
+      actual,
+      difference: actual - assertion.amount,
+    };
+  });
+}
@@ -0,0 +1,265 @@
+/**
+ * 定期交易
+ *
+ * 模板 = 分录模板 + 重复规则。nextDate 是游标：之前的发生已过账或跳过，
+ * 过账 / 跳过只能按顺序处理下一次发生。
+ */
+
+import type {
+  JournalEntryData,
+  RecurrenceSchedule,
+  RecurringTemplate,
+} from "./types";
+import { createEntry } from "./entry";
+
+/**
+ * 模板的一次发生
+ */
+export interface RecurringOccurrence {
+  template: RecurringTemplate;
+  date: string;
+}
+
+/**
+ * 待处理发生的引用（用于写入时重新读取模板校验）
+ */
+export interface RecurringOccurrenceRef {
+  templateId: string;
+  date: string;
+}
+
+// ============================================================================
+// 日期计算（YYYY-MM-DD，按 UTC 处理避免时区偏移）
+// ============================================================================
+
+function parseDate(date: string): Date {
+  return new Date(`${date}T00:00:00Z`);
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+function addDays(date: string, days: number): string {
+  const next = parseDate(date);
+  next.setUTCDate(next.getUTCDate() + days);
+  return formatDate(next);
+}
+
+function daysInMonth(year: number, monthIndex: number): number {
+  return new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate();
+}
+
+// monthIndex 可超出 0-11，自动进位到后续年份；日期超过月末取月末
+function dateInMonth(year: number, monthIndex: number, day: number): string {
+  const first = new Date(Date.UTC(year, monthIndex, 1));
+  const y = first.getUTCFullYear();
+  const m = first.getUTCMonth();
+  const clamped = Math.min(day, daysInMonth(y, m));
+  return formatDate(new Date(Date.UTC(y, m, clamped)));
+}
+
+function lastBusinessDay(year: number, monthIndex: number): string {
+  let date = dateInMonth(year, monthIndex, 31);
+  // 0 = 周日，6 = 周六
+  while ([0, 6].includes(parseDate(date).getUTCDay())) {
+    date = addDays(date, -1);
+  }
+  return date;
+}
+
+// 按开始日期计算第 k 个周期的发生日期
+function occurrenceAt(
+  schedule: RecurrenceSchedule,
+  startDate: string,
+  index: number,
+): string {
+  const start = parseDate(startDate);
+  const year = start.getUTCFullYear();
+  const monthIndex = start.getUTCMonth();
+  const step = index * Math.max(1, schedule.interval ?? 1);
+
+  switch (schedule.frequency) {
+    case "weekly": {
+      const weekday = schedule.weekday ?? start.getUTCDay();
+      const offset = (weekday - start.getUTCDay() + 7) % 7;
+      return addDays(startDate, offset + step * 7);
+    }
+    case "monthly":
+      return dateInMonth(
+        year,
+        monthIndex + step,
+        schedule.day ?? start.getUTCDate(),
+      );
+    case "last-business-day":
+      return lastBusinessDay(year, monthIndex + step);
+    case "yearly":
+      return dateInMonth(
+        year + step,
+        (schedule.month ?? monthIndex + 1) - 1,
+        schedule.day ?? start.getUTCDate(),
+      );
+  }
+}
+
+/**
+ * 按时间顺序遍历模板的全部发生日期（不早于开始日期，不晚于结束日期）
+ */
+export function* iterateOccurrences(
+  template: Pick<RecurringTemplate, "schedule" | "startDate" | "endDate">,
+): Generator<string> {
+  for (let index = 0; ; index++) {
+    const date = occurrenceAt(template.schedule, template.startDate, index);
+    if (template.endDate && date > template.endDate) return;
+    if (date >= template.startDate) yield date;
+  }
+}
+
+/**
+ * 查找指定日期之后的下一次发生
+ */
+export function getNextOccurrence(
+  template: Pick<RecurringTemplate, "schedule" | "startDate" | "endDate">,
+  after: string,
+): string | undefined {
+  for (const date of iterateOccurrences(template)) {
+    if (date > after) return date;
+  }
+  return undefined;
+}
+
+/**
+ * 获取游标之后、截止日期（含）之前的发生日期
+ */
+export function getOccurrences(
+  template: RecurringTemplate,
+  until: string,
+): string[] {
+  const { nextDate } = template;
+  if (!nextDate) return [];
+  const dates: string[] = [];
+  for (const date of iterateOccurrences(template)) {
+    if (date > until) break;
+    if (date >= nextDate) dates.push(date);
+  }
+  return dates;
+}
+
+// ============================================================================
+// 模板
+// ============================================================================
+
+/**
+ * 生成模板 ID
+ */
+export function generateRecurringId(): string {
+  return crypto.randomUUID();
+}
+
+/**
+ * 创建定期交易模板，游标指向第一次发生
+ */
+export function createRecurringTemplate(
+  params: Omit<RecurringTemplate, "id" | "enabled" | "nextDate"> & {
+    enabled?: boolean;
+  },
+): RecurringTemplate {
+  const template = {
+    ...params,
+    id: generateRecurringId(),
+    enabled: params.enabled ?? true,
+  };
+  return {
+    ...template,
+    nextDate: iterateOccurrences(template).next().value ?? undefined,
+  };
+}
+
+/**
+ * 由模板生成某一次发生的分录
+ */
+export function buildOccurrenceEntry(
+  template: RecurringTemplate,
+  date: string,
+): JournalEntryData {
+  return createEntry({
+    date,
+    description: template.description,
+    lines: template.lines.map((line) => ({ ...line })),
+    tags: template.tags ? [...template.tags] : undefined,
+    payee: template.payee,
+    note: template.note,
+  });
+}
+
+/**
+ * 处理（过账或跳过）下一次发生，游标移到之后的发生
+ */
+export function advanceRecurringTemplate(
+  template: RecurringTemplate,
+  date: string,
+): RecurringTemplate {
+  if (template.nextDate !== date) {
+    throw new Error(`Occurrence is not due: ${template.name} ${date}`);
+  }
+  return { ...template, nextDate: getNextOccurrence(template, date) };
+}
+
+/**
+ * 按顺序处理一组发生，返回推进游标后的模板和每次发生对应的分录
+ */
+export function settleOccurrences(
+  templates: RecurringTemplate[],
+  occurrences: RecurringOccurrenceRef[],
+): { entries: JournalEntryData[]; templates: RecurringTemplate[] } {
+  const byId = new Map(templates.map((template) => [template.id, template]));
+  const entries = occurrences.map(({ templateId, date }) => {
+    const template = byId.get(templateId);
+    if (!template) {
+      throw new Error("Recurring template not found");
+    }
+    byId.set(templateId, advanceRecurringTemplate(template, date));
+    return buildOccurrenceEntry(template, date);
+  });
+  return {
+    entries,
+    templates: templates.map((template) => byId.get(template.id)!),
+  };
+}
+
+/**
+ * 获取即将发生的交易：每个启用模板的下一次发生（不晚于截止日期），按日期排序
+ */
+export function getUpcomingOccurrences(
+  templates: RecurringTemplate[],
+  until: string,
+): RecurringOccurrence[] {
+  return templates
+    .filter(
+      (template) =>
+        template.enabled && !!template.nextDate && template.nextDate <= until,
+    )
+    .map((template) => ({ template, date: template.nextDate! }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * 生成截止日期（含）前全部到期的分录，并返回推进游标后的模板
+ */
+export function materializeRecurring(
+  templates: RecurringTemplate[],
+  asOf: string,
+): { entries: JournalEntryData[]; templates: RecurringTemplate[] } {
+  const entries: JournalEntryData[] = [];
+  const next = templates.map((template) => {
+    if (!template.enabled) return template;
+    let current = template;
+    for (const date of getOccurrences(template, asOf)) {
+      entries.push(buildOccurrenceEntry(template, date));
+      current = advanceRecurringTemplate(current, date);
+    }
+    return current;
+  });
+  entries.sort((a, b) => a.date.localeCompare(b.date));
+  return { entries, templates: next };
+}
@@ -12,12 +12,28 @@ import type {
   CurrencyCode,
   AccountType,
   AccountData,
+  AccountActivity,
+  BalanceSheet,
+  CashFlowActivity,
+  CashFlowRole,
+  CashFlowSection,
+  CashFlowStatement,
+  EntryLineData,
+  IncomeStatement,
+  StatementNode,
 } from "./types";
 import { AccountType as AT, EntryLineType } from "./types";
+import { isDebitIncreaseAccount } from "./account";
 import { getTypeBalance } from "./book";
-import { queryEntries } from "./query";
-import { convertCurrency } from "./currency";
+import {
+  getAccountTree,
+  getAccountWithDescendants,
+  queryEntries,
+  type AccountTreeNode,
+} from "./query";
+import { MissingExchangeRateError, convertCurrency } from "./currency";
 import { postEntry } from "./entry";
+import { isClosingEntry } from "./closing";
 
 // ============================================================================
 // 时间工具
@@ -34,9 +50,8 @@ export function getPeriodRange(
   switch (granularity) {
     case "month": {
       const start = `${year}-${String(period).padStart(2, "0")}-01`;
-      const nextMonth = period === 12 ? 1 : period + 1;
-      const nextYear = period === 12 ? year + 1 : year;
-      const endDate = new Date(nextYear, nextMonth - 1, 0);
+      // 按 UTC 计算月末，避免东八区等时区下 toISOString 回退一天
+      const endDate = new Date(Date.UTC(year, period, 0));
       const end = endDate.toISOString().split("T")[0];
       return { start, end };
     }
@@ -44,7 +59,7 @@ export function getPeriodRange(
       const startMonth = (period - 1) * 3 + 1;
       const endMonth = period * 3;
       const start = `${year}-${String(startMonth).padStart(2, "0")}-01`;
-      const endDate = new Date(year, endMonth, 0);
+      const endDate = new Date(Date.UTC(year, endMonth, 0));
       const end = endDate.toISOString().split("T")[0];
       return { start, end };
     }
@@ -99,18 +114,23 @@ function getISOWeek(date: Date): number {
 
 /**
  * 计算时间段内的收支汇总
+ *
+ * scope.accountIds 只统计这些账户的行，scope.tags 只统计带任一标签的分录
  */
 export function calculatePeriodSummary(
   book: BookData,
   dateRange: DateRange,
+  scope: { accountIds?: string[]; tags?: string[] } = {},
 ): { income: number; expenses: number; netChange: number } {
-  const entries = queryEntries(book, { dateRange });
+  const entries = queryEntries(book, { dateRange, tags: scope.tags });
+  const accountIds = scope.accountIds ? new Set(scope.accountIds) : null;
 
   let income = 0;
   let expenses = 0;
 
   for (const entry of entries) {
     for (const line of entry.lines) {
+      if (accountIds && !accountIds.has(line.accountId)) continue;
       const account = book.accounts.find((a) => a.id === line.accountId);
       if (!account) continue;
 
@@ -352,12 +372,24 @@ export function generateBalanceSnapshotInCurrency(
 
 /**
  * 生成净资产趋势
+ *
+ * scope.accountIds 只计算这些账户的账面净值（如投资账户子树）
  */
 export function generateNetWorthTrend(
   book: BookData,
   dateRange: DateRange,
   granularity: TimeGranularity,
+  scope: { accountIds?: string[] } = {},
 ): Array<{ period: string; netWorth: number }> {
+  if (scope.accountIds) {
+    return generateScopedNetWorthTrend(
+      book,
+      dateRange,
+      granularity,
+      scope.accountIds,
+    );
+  }
+
   // 获取初始净资产
   let currentNetWorth =
     getTypeBalance(book, AT.ASSETS) - getTypeBalance(book, AT.LIABILITIES);
@@ -376,10 +408,50 @@ export function generateNetWorthTrend(
   return result;
 }
 
-function getAccountsAsOf(
+/**
+ * 指定账户（资产、负债）的账面净值走势
+ *
+ * 每个时间段的值为该段末的账面净值（行金额按账户币种累加）。起始时间段
+ * 即使没有分录也会输出，作为期初值。
+ */
+function generateScopedNetWorthTrend(
   book: BookData,
-  snapshotDate: string,
-): AccountData[] {
+  dateRange: DateRange,
+  granularity: TimeGranularity,
+  accountIds: string[],
+): Array<{ period: string; netWorth: number }> {
+  const ids = new Set(accountIds);
+  const changes = new Map<string, number>([
+    [getPeriodLabel(dateRange.start, granularity), 0],
+  ]);
+  let netWorth = 0;
+
+  for (const entry of book.entries) {
+    if (entry.deletedAt || entry.date > dateRange.end) continue;
+    // 资产借方增加净值；负债贷方增加负债，即减少净值
+    const change = entry.lines.reduce((sum, line) => {
+      if (!ids.has(line.accountId)) return sum;
+      return (
+        sum + (line.type === EntryLineType.DEBIT ? line.amount : -line.amount)
+      );
+    }, 0);
+    if (entry.date < dateRange.start) {
+      netWorth += change;
+    } else {
+      const period = getPeriodLabel(entry.date, granularity);
+      changes.set(period, (changes.get(period) ?? 0) + change);
+    }
+  }
+
+  return Array.from(changes.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([period, change]) => {
+      netWorth += change;
+      return { period, netWorth };
+    });
+}
+
+function getAccountsAsOf(book: BookData, snapshotDate: string): AccountData[] {
   let accounts = book.accounts.map((account) => ({ ...account, balance: 0 }));
 
   const entries = book.entries
@@ -392,3 +464,340 @@ function getAccountsAsOf(
 
   return accounts;
 }
+
+// ============================================================================
+// 财务报表
+// ============================================================================
+
+// 金额折算为本位币，找不到汇率时抛出 MissingExchangeRateError
+function toBookCurrency(
+  book: BookData,
+  amount: number,
+  currency: CurrencyCode,
+  date: string,
+): number {
+  if (currency === book.defaultCurrency || amount === 0) return amount;
+  const converted = convertCurrency(
+    amount,
+    currency,
+    book.defaultCurrency,
+    book.exchangeRates,
+    date,
+  );
+  if (converted === null) {
+    throw new MissingExchangeRateError({
+      from: currency,
+      to: book.defaultCurrency,
+    });
+  }
+  return converted;
+}
+
+// 行的本位币金额，按账户正常方向取正负（资产、支出借方为正，其余贷方为正）
+function getSignedBaseAmount(
+  book: BookData,
+  account: AccountData,
+  line: EntryLineData,
+  date: string,
+): number {
+  const amount =
+    line.baseAmount ??
+    toBookCurrency(book, line.amount, account.currency, date);
+  const isDebit = line.type === EntryLineType.DEBIT;
+  return isDebit === isDebitIncreaseAccount(account.type) ? amount : -amount;
+}
+
+// 沿账户树把子账户金额汇总到父账户
+function buildStatementTree(
+  book: BookData,
+  type: AccountType,
+  amountsByAccount: Map<string, number[]>,
+  columns: number,
+): StatementNode[] {
+  const toNode = ({ children, ...account }: AccountTreeNode): StatementNode => {
+    const nodes = children.map(toNode);
+    const own = amountsByAccount.get(account.id) ?? Array(columns).fill(0);
+    return {
+      account,
+      amounts: own.map((amount, index) =>
+        nodes.reduce((sum, node) => sum + node.amounts[index], amount),
+      ),
+      children: nodes,
+    };
+  };
+  return getAccountTree(book, type).map(toNode);
+}
+
+function sumStatementRoots(nodes: StatementNode[], columns: number): number[] {
+  return Array.from({ length: columns }, (_, index) =>
+    nodes.reduce((sum, node) => sum + node.amounts[index], 0),
+  );
+}
+
+/**
+ * 生成利润表（收入、支出按账户树逐级汇总，金额为本位币净额）
+ *
+ * 结转分录只是把余额转入留存收益，不计入利润表
+ */
+export function generateIncomeStatement(
+  book: BookData,
+  dateRange: DateRange,
+): IncomeStatement {
+  const accountMap = new Map(book.accounts.map((a) => [a.id, a]));
+  const amountsByAccount = new Map<string, number[]>();
+
+  for (const entry of queryEntries(book, { dateRange })) {
+    if (isClosingEntry(book, entry.id)) continue;
+    for (const line of entry.lines) {
+      const account = accountMap.get(line.accountId);
+      if (
+        !account ||
+        (account.type !== AT.INCOME && account.type !== AT.EXPENSES)
+      ) {
+        continue;
+      }
+      const [current] = amountsByAccount.get(account.id) ?? [0];
+      amountsByAccount.set(account.id, [
+        current + getSignedBaseAmount(book, account, line, entry.date),
+      ]);
+    }
+  }
+
+  const income = buildStatementTree(book, AT.INCOME, amountsByAccount, 1);
+  const expenses = buildStatementTree(book, AT.EXPENSES, amountsByAccount, 1);
+  const [totalIncome] = sumStatementRoots(income, 1);
+  const [totalExpenses] = sumStatementRoots(expenses, 1);
+
+  return {
+    range: dateRange,
+    currency: book.defaultCurrency,
+    income,
+    expenses,
+    totalIncome,
+    totalExpenses,
+    netIncome: totalIncome - totalExpenses,
+  };
+}
+
+/**
+ * 生成比较资产负债表（余额按各日期汇率折算为本位币，缺少汇率时抛错）
+ *
+ * 收入、支出账户尚未结转，其累计差额作为未结转收支计入权益。
+ */
+export function generateBalanceSheet(
+  book: BookData,
+  dates: string[],
+): BalanceSheet {
+  const columns = dates.length;
+  const amountsByAccount = new Map<string, number[]>();
+  const retainedEarnings = Array<number>(columns).fill(0);
+
+  dates.forEach((date, index) => {
+    for (const account of getAccountsAsOf(book, date)) {
+      const amount = toBookCurrency(
+        book,
+        account.balance,
+        account.currency,
+        date,
+      );
+      if (account.type === AT.INCOME) {
+        retainedEarnings[index] += amount;
+      } else if (account.type === AT.EXPENSES) {
+        retainedEarnings[index] -= amount;
+      } else {
+        const amounts =
+          amountsByAccount.get(account.id) ?? Array<number>(columns).fill(0);
+        amounts[index] = amount;
+        amountsByAccount.set(account.id, amounts);
+      }
+    }
+  });
+
+  const assets = buildStatementTree(book, AT.ASSETS, amountsByAccount, columns);
+  const liabilities = buildStatementTree(
+    book,
+    AT.LIABILITIES,
+    amountsByAccount,
+    columns,
+  );
+  const equity = buildStatementTree(book, AT.EQUITY, amountsByAccount, columns);
+
+  return {
+    dates,
+    currency: book.defaultCurrency,
+    assets,
+    liabilities,
+    equity,
+    retainedEarnings,
+    totalAssets: sumStatementRoots(assets, columns),
+    totalLiabilities: sumStatementRoots(liabilities, columns),
+    totalEquity: sumStatementRoots(equity, columns).map(
+      (amount, index) => amount + retainedEarnings[index],
+    ),
+  };
+}
+
+/**
+ * 获取账户（含子账户）在时间段内的明细，用于报表下钻
+ */
+export function getAccountActivity(
+  book: BookData,
+  accountId: string,
+  dateRange: DateRange,
+): AccountActivity[] {
+  const accounts = new Map(
+    getAccountWithDescendants(book, accountId).map((a) => [a.id, a]),
+  );
+  return queryEntries(book, {
+    dateRange,
+    accountIds: Array.from(accounts.keys()),
+  }).map((entry) => ({
+    entry,
+    amount: entry.lines.reduce((sum, line) => {
+      const account = accounts.get(line.accountId);
+      return account
+        ? sum + getSignedBaseAmount(book, account, line, entry.date)
+        : sum;
+    }, 0),
+  }));
+}
+
+// ============================================================================
+// 现金流量表
+// ============================================================================
+
+const CASH_FLOW_ACTIVITIES: CashFlowActivity[] = [
+  "operating",
+  "investing",
+  "financing",
+];
+
+// 持仓账户及其上下级账户（如券商账户）属于投资资产，不是现金
+function isInvestmentAccount(
+  account: AccountData,
+  accountMap: Map<string, AccountData>,
+): boolean {
+  for (const other of accountMap.values()) {
+    if (
+      other.commodity &&
+      (other.id === account.id ||
+        other.path.startsWith(`${account.path}:`) ||
+        account.path.startsWith(`${other.path}:`))
+    ) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function resolveCashFlowRole(
+  account: AccountData,
+  accountMap: Map<string, AccountData>,
+): CashFlowRole {
+  let current: AccountData | undefined = account;
+  while (current) {
+    if (current.cashFlow) return current.cashFlow;
+    current = current.parentId ? accountMap.get(current.parentId) : undefined;
+  }
+  switch (account.type) {
+    case AT.ASSETS:
+      return isInvestmentAccount(account, accountMap) ? "investing" : "cash";
+    case AT.INCOME:
+    case AT.EXPENSES:
+      return "operating";
+    default:
+      return "financing";
+  }
+}
+
+/**
+ * 获取账户在现金流量表中的角色
+ *
+ * 取自身或最近上级账户的设置；都未设置时持仓账户及其上下级账户
+ * 归入投资活动，其余资产账户视为现金，收入、支出归入经营活动，
+ * 负债、权益归入筹资活动。
+ */
+export function getCashFlowRole(
+  book: BookData,
+  account: AccountData,
+): CashFlowRole {
+  return resolveCashFlowRole(
+    account,
+    new Map(book.accounts.map((a) => [a.id, a])),
+  );
+}
+
+/**
+ * 生成现金流量表
+ *
+ * 涉及现金账户的分录按对方账户归类：对方账户贷方为现金流入，借方为流出。
+ * 现金账户之间的划转不计入。
+ */
+export function generateCashFlowStatement(
+  book: BookData,
+  dateRange: DateRange,
+): CashFlowStatement {
+  const accountMap = new Map(book.accounts.map((a) => [a.id, a]));
+  const roles = new Map(
+    book.accounts.map((a) => [a.id, resolveCashFlowRole(a, accountMap)]),
+  );
+  const flows = new Map<string, number>();
+  let netChange = 0;
+
+  for (const entry of queryEntries(book, { dateRange })) {
+    if (!entry.lines.some((line) => roles.get(line.accountId) === "cash")) {
+      continue;
+    }
+    for (const line of entry.lines) {
+      const account = accountMap.get(line.accountId);
+      if (!account || roles.get(account.id) === "cash") continue;
+      const amount =
+        line.baseAmount ??
+        toBookCurrency(book, line.amount, account.currency, entry.date);
+      const flow = line.type === EntryLineType.CREDIT ? amount : -amount;
+      flows.set(account.id, (flows.get(account.id) ?? 0) + flow);
+      netChange += flow;
+    }
+  }
+
+  const sections: CashFlowSection[] = CASH_FLOW_ACTIVITIES.map((activity) => {
+    const items = Array.from(flows.entries())
+      .filter(([id, amount]) => amount !== 0 && roles.get(id) === activity)
+      .map(([id, amount]) => ({ account: accountMap.get(id)!, amount }))
+      .sort((a, b) => Math.abs(b.amount) - Math.abs(a.amount));
+    return {
+      activity,
+      items,
+      total: items.reduce((sum, item) => sum + item.amount, 0),
+    };
+  });
+
+  const getCashBalance = (date: string) =>
+    getAccountsAsOf(book, date)
+      .filter((account) => roles.get(account.id) === "cash")
+      .reduce((sum, account) => {
+        const amount = toBookCurrency(
+          book,
+          account.balance,
+          account.currency,
+          date,
+        );
+        return isDebitIncreaseAccount(account.type)
+          ? sum + amount
+          : sum - amount;
+      }, 0);
+  const dayBefore = new Date(`${dateRange.start}T00:00:00Z`);
+  dayBefore.setUTCDate(dayBefore.getUTCDate() - 1);
+  const openingCash = getCashBalance(dayBefore.toISOString().split("T")[0]);
+  const closingCash = getCashBalance(dateRange.end);
+
+  return {
+    range: dateRange,
+    currency: book.defaultCurrency,
+    sections,
+    netChange,
+    openingCash,
+    closingCash,
+    exchangeEffect: closingCash - openingCash - netChange,
+  };
+}
@@ -0,0 +1,217 @@
+/**
+ * 自动分类规则
+ *
+ * 按收款人 / 描述（子串或正则）、金额范围和来源账户匹配分录，
+ * 命中后设置收入 / 支出账户、追加标签并规范化收款人。规则按顺序匹配，取第一条。
+ */
+
+import type {
+  AccountData,
+  BookData,
+  CategorizationRule,
+  EntryQuery,
+  JournalEntryData,
+} from "./types";
+import { AccountType } from "./types";
+import { diffEntries, getEntryAmount } from "./entry";
+import { queryEntries } from "./query";
+import { isDateLocked } from "./closing";
+
+/**
+ * 规则匹配对象
+ */
+export interface RuleSubject {
+  description: string;
+  payee?: string;
+  /** 金额（最小单位，正数） */
+  amount: number;
+  /** 分录涉及的账户 */
+  accountIds: string[];
+}
+
+/**
+ * 重新应用规则后发生变化的分录
+ */
+export interface RuleApplication {
+  before: JournalEntryData;
+  after: JournalEntryData;
+  rule: CategorizationRule;
+}
+
+/**
+ * 生成规则 ID
+ */
+export function generateRuleId(): string {
+  return crypto.randomUUID();
+}
+
+/**
+ * 创建规则
+ */
+export function createRule(
+  params: Omit<CategorizationRule, "id" | "enabled"> & { enabled?: boolean },
+): CategorizationRule {
+  return { ...params, id: generateRuleId(), enabled: params.enabled ?? true };
+}
+
+/**
+ * 检查正则规则的表达式是否有效
+ */
+export function isValidRulePattern(
+  rule: Pick<CategorizationRule, "mode" | "pattern">,
+): boolean {
+  if (rule.mode !== "regex") return true;
+  try {
+    new RegExp(rule.pattern, "i");
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function matchesText(rule: CategorizationRule, subject: RuleSubject): boolean {
+  if (!rule.pattern) return true;
+  const texts =
+    rule.field === "payee"
+      ? [subject.payee]
+      : rule.field === "description"
+        ? [subject.description]
+        : [subject.payee, subject.description];
+  const values = texts.filter((text): text is string => !!text);
+
+  if (rule.mode === "regex") {
+    if (!isValidRulePattern(rule)) return false;
+    const regex = new RegExp(rule.pattern, "i");
+    return values.some((text) => regex.test(text));
+  }
+  const pattern = rule.pattern.toLowerCase();
+  return values.some((text) => text.toLowerCase().includes(pattern));
+}
+
+/**
+ * 判断规则是否命中
+ */
+export function matchesRule(
+  rule: CategorizationRule,
+  subject: RuleSubject,
+): boolean {
+  if (!rule.enabled) return false;
+  const { min, max } = rule.amountRange ?? {};
+  if (min !== undefined && subject.amount < min) return false;
+  if (max !== undefined && subject.amount > max) return false;
+  if (
+    rule.sourceAccountId &&
+    !subject.accountIds.includes(rule.sourceAccountId)
+  ) {
+    return false;
+  }
+  return matchesText(rule, subject);
+}
+
+/**
+ * 查找第一条命中的规则
+ */
+export function findMatchingRule(
+  rules: CategorizationRule[],
+  subject: RuleSubject,
+): CategorizationRule | null {
+  return rules.find((rule) => matchesRule(rule, subject)) ?? null;
+}
+
+/**
+ * 由分录生成匹配对象
+ */
+export function getEntryRuleSubject(entry: JournalEntryData): RuleSubject {
+  return {
+    description: entry.description,
+    payee: entry.payee,
+    amount: getEntryAmount(entry),
+    accountIds: entry.lines.map((line) => line.accountId),
+  };
+}
+
+/**
+ * 判断账户是否为分类账户（收入 / 支出）
+ */
+export function isCategoryAccount(account: AccountData | undefined): boolean {
+  return (
+    account?.type === AccountType.INCOME ||
+    account?.type === AccountType.EXPENSES
+  );
+}
+
+/**
+ * 将规则应用到分录
+ *
+ * 只有一行收入 / 支出账户（且不是来源账户）时才替换账户，目标账户币种须一致；
+ * 标签取并集，设置了规范化收款人时覆盖收款人
+ */
+export function applyRuleToEntry(
+  entry: JournalEntryData,
+  rule: CategorizationRule,
+  accounts: AccountData[],
+): JournalEntryData {
+  const accountMap = new Map(accounts.map((a) => [a.id, a]));
+  let lines = entry.lines;
+
+  const target = rule.targetAccountId
+    ? accountMap.get(rule.targetAccountId)
+    : undefined;
+  if (target) {
+    const categoryLines = entry.lines.filter(
+      (line) =>
+        line.accountId !== rule.sourceAccountId &&
+        isCategoryAccount(accountMap.get(line.accountId)),
+    );
+    const [categoryLine] = categoryLines;
+    if (
+      categoryLines.length === 1 &&
+      accountMap.get(categoryLine.accountId)?.currency === target.currency
+    ) {
+      lines = entry.lines.map((line) =>
+        line === categoryLine ? { ...line, accountId: target.id } : line,
+      );
+    }
+  }
+
+  const tags = [...new Set([...(entry.tags ?? []), ...(rule.tags ?? [])])];
+  return {
+    ...entry,
+    lines,
+    tags: tags.length > 0 ? tags : undefined,
+    payee: rule.payee || entry.payee,
+  };
+}
+
+/**
+ * 查找命中的规则并应用
+ */
+export function applyRules(
+  entry: JournalEntryData,
+  rules: CategorizationRule[],
+  accounts: AccountData[],
+): { entry: JournalEntryData; rule: CategorizationRule | null } {
+  const rule = findMatchingRule(rules, getEntryRuleSubject(entry));
+  return rule
+    ? { entry: applyRuleToEntry(entry, rule, accounts), rule }
+    : { entry, rule: null };
+}
+
+/**
+ * 对查询结果重新应用规则，返回发生变化的分录（跳过已结账期间的分录）
+ */
+export function reapplyRules(
+  book: BookData,
+  query: EntryQuery,
+  rules: CategorizationRule[] = book.rules ?? [],
+): RuleApplication[] {
+  const changes: RuleApplication[] = [];
+  for (const before of queryEntries(book, query)) {
+    if (before.deletedAt || isDateLocked(book, before.date)) continue;
+    const { entry: after, rule } = applyRules(before, rules, book.accounts);
+    if (rule && diffEntries(before, after).length > 0) {
+      changes.push({ before, after, rule });
+    }
+  }
+  return changes;
+}
@@ -0,0 +1,173 @@
+/**
+ * 拆分分录
+ *
+ * 把界面输入的拆分行（主单位金额）转为分录行：校验账户、金额与持仓数量，
+ * 跨币种时按汇率折算本位币金额，并把本位币差额记入汇兑损益账户。
+ */
+
+import type {
+  AccountData,
+  CurrencyCode,
+  EntryLineData,
+  ExchangeRate,
+  LotSelection,
+} from "./types";
+import { EntryLineType } from "./types";
+import { getExchangeRate } from "./currency";
+import { createCurrencyLine, createFxGainLossLine } from "./entry";
+import { fromMainUnit } from "./money";
+import { isHoldingAccount } from "./holdings";
+import { roundQuantity } from "./cost-basis";
+
+/**
+ * 拆分分录行输入（金额为主单位）
+ */
+export interface SplitLineInput {
+  accountId: string;
+  type: EntryLineType;
+  amount: number;
+  note?: string;
+  /** 行币种对本位币的汇率，缺省时从汇率表查询（仅跨币种分录） */
+  rate?: number;
+  /** 持仓数量（仅持仓账户） */
+  quantity?: number;
+  /** 卖出时指定的批次（仅持仓账户） */
+  lotSelections?: LotSelection[];
+}
+
+/**
+ * 跨币种折算上下文
+ */
+export interface CurrencyContext {
+  baseCurrency: CurrencyCode;
+  exchangeRates: ExchangeRate[];
+  date: string;
+  /** 汇兑损益账户，本位币借贷差额记入此账户 */
+  fxAccountId?: string;
+}
+
+/**
+ * 拆分行涉及的账户是否跨币种
+ */
+export function isCrossCurrencySplit(
+  lines: SplitLineInput[],
+  accounts: AccountData[],
+): boolean {
+  const accountMap = new Map(accounts.map((a) => [a.id, a]));
+  const currencies = new Set(
+    lines.flatMap((line) => accountMap.get(line.accountId)?.currency ?? []),
+  );
+  return currencies.size > 1;
+}
+
+/**
+ * 将拆分行转为分录行（主单位 -> 最小单位），并校验账户与币种
+ *
+ * 跨币种时每行记录币种、汇率与本位币金额，本位币差额生成汇兑损益行；
+ * 没有 context 时仍拒绝跨币种。借贷平衡由 postEntry 校验
+ */
+export function buildSplitEntryLines(
+  lines: SplitLineInput[],
+  accounts: AccountData[],
+  context?: CurrencyContext,
+): EntryLineData[] {
+  const accountMap = new Map(accounts.map((a) => [a.id, a]));
+  // 汇兑损益行由系统生成，重新提交时丢弃旧的
+  const inputLines =
+    context?.fxAccountId && isCrossCurrencySplit(lines, accounts)
+      ? lines.filter((line) => line.accountId !== context.fxAccountId)
+      : lines;
+  if (inputLines.length < 2) {
+    throw new Error("Entry needs at least two lines");
+  }
+
+  const resolved = inputLines.map((line) => {
+    const account = accountMap.get(line.accountId);
+    if (!account) {
+      throw new Error("Account not found");
+    }
+    if (!Number.isFinite(line.amount) || line.amount <= 0) {
+      throw new Error("Amount must be greater than 0");
+    }
+    // 持仓账户的行必须记录数量
+    const quantity = isHoldingAccount(account) ? line.quantity : undefined;
+    if (
+      isHoldingAccount(account) &&
+      (quantity === undefined || !Number.isFinite(quantity) || quantity <= 0)
+    ) {
+      throw new Error("Quantity must be greater than 0");
+    }
+    return {
+      line,
+      account,
+      amount: fromMainUnit(line.amount, account.currency).amount,
+      quantity,
+    };
+  });
+  // 持仓行记录数量，卖出行记录指定的批次
+  const withQuantity = (
+    entryLine: EntryLineData,
+    line: SplitLineInput,
+    quantity?: number,
+  ) => {
+    if (quantity === undefined) return entryLine;
+    entryLine.quantity = roundQuantity(quantity);
+    if (line.type === EntryLineType.CREDIT && line.lotSelections?.length) {
+      entryLine.lotSelections = line.lotSelections;
+    }
+    return entryLine;
+  };
+
+  if (!isCrossCurrencySplit(inputLines, accounts)) {
+    return resolved.map(({ line, account, amount, quantity }) => {
+      const entryLine: EntryLineData = {
+        accountId: account.id,
+        type: line.type,
+        amount,
+      };
+      if (line.note) entryLine.note = line.note;
+      return withQuantity(entryLine, line, quantity);
+    });
+  }
+  if (!context) {
+    throw new Error("Cross-currency entry is not supported");
+  }
+
+  const result = resolved.map(({ line, account, amount, quantity }) => {
+    const rate =
+      line.rate ??
+      getExchangeRate(
+        context.exchangeRates,
+        account.currency,
+        context.baseCurrency,
+        context.date,
+      );
+    if (rate === null) {
+      throw new Error(
+        `Exchange rate not found: ${account.currency}/${context.baseCurrency}`,
+      );
+    }
+    return withQuantity(
+      createCurrencyLine({
+        accountId: account.id,
+        type: line.type,
+        amount,
+        currency: account.currency,
+        rate,
+        baseCurrency: context.baseCurrency,
+        note: line.note,
+      }),
+      line,
+      quantity,
+    );
+  });
+  if (context.fxAccountId) {
+    const fxLine = createFxGainLossLine(
+      result,
+      context.fxAccountId,
+      context.baseCurrency,
+    );
+    if (fxLine) result.push(fxLine);
+  }
+  return result;
+}
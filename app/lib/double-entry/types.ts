@@ -63,6 +63,34 @@ export enum AccountType {
   EXPENSES = "expenses",
 }
 
+/**
+ * 现金流量表活动分类
+ */
+export type CashFlowActivity = "operating" | "investing" | "financing";
+
+/**
+ * 账户在现金流量表中的角色：现金类账户，或作为对方账户时归入的活动
+ */
+export type CashFlowRole = "cash" | CashFlowActivity;
+
+/**
+ * 卖出持仓时的成本计算方法
+ * - fifo: 先进先出
+ * - lifo: 后进先出
+ * - average: 移动加权平均成本（持有期按先进先出判断）
+ * - specific: 指定批次（未指定时按先进先出）
+ */
+export type CostBasisMethod = "fifo" | "lifo" | "average" | "specific";
+
+/**
+ * 卖出时指定的批次（买入分录与行位置）
+ */
+export interface LotSelection {
+  entryId: string;
+  lineIndex: number;
+  quantity: number;
+}
+
 /**
  * 账户数据（可序列化）
  */
@@ -83,6 +111,12 @@ export interface AccountData {
   note?: string;
   /** 是否归档 */
   archived?: boolean;
+  /** 现金流量表分类（子账户继承），未设置时按账户类型推断 */
+  cashFlow?: CashFlowRole;
+  /** 持仓品种代码（如 "AAPL"），设置后分录行按数量记录持仓，金额为成本 */
+  commodity?: string;
+  /** 持仓成本计算方法（缺省为 fifo） */
+  costBasisMethod?: CostBasisMethod;
   /** 创建时间 */
   createdAt: string;
   /** 更新时间 */
@@ -113,6 +147,20 @@ export interface EntryLineData {
   type: EntryLineType;
   /** 备注 */
   note?: string;
+  /** 行币种（跨币种分录时记录，等于账户币种） */
+  currency?: CurrencyCode;
+  /** 行币种对账簿本位币的汇率（跨币种分录时记录） */
+  rate?: number;
+  /** 折算为账簿本位币的金额（最小单位，跨币种分录按此校验平衡） */
+  baseAmount?: number;
+  /** 持仓数量（持仓账户的行必填，借方买入、贷方卖出） */
+  quantity?: number;
+  /** 卖出时指定的批次（成本方法为 specific 时使用） */
+  lotSelections?: LotSelection[];
+  /** 已与对账单核对 */
+  cleared?: boolean;
+  /** 已完成对账（锁定，金额、账户、方向不能再修改） */
+  reconciled?: boolean;
 }
 
 /**
@@ -140,6 +188,64 @@ export interface JournalEntryData {
   createdAt: string;
   /** 更新时间 */
   updatedAt: string;
+  /** 删除时间（软删除，存在即表示已删除） */
+  deletedAt?: string;
+  /** 版本号（乐观并发控制，每次写入 +1，缺省视为 1） */
+  entryVersion?: number;
+  /** 持仓事件（股息、股息再投资） */
+  holdingEvent?: HoldingEvent;
+}
+
+/**
+ * 分录记录的持仓事件
+ * - dividend: 现金股息，借资金账户、贷股息收入
+ * - drip: 股息再投资，借持仓账户（数量、成本）、贷股息收入
+ */
+export interface HoldingEvent {
+  kind: "dividend" | "drip";
+  /** 派息的持仓账户 */
+  accountId: string;
+}
+
+/**
+ * 分录修订动作
+ */
+export type EntryRevisionAction = "update" | "delete" | "restore";
+
+/**
+ * 分录修订记录：每次修改/删除前保存的旧快照
+ */
+export interface EntryRevision {
+  id: string;
+  entryId: string;
+  /** 触发本次修订的动作 */
+  action: EntryRevisionAction;
+  /** 修改前的分录快照 */
+  snapshot: JournalEntryData;
+  /** 修改人 */
+  changedBy?: string;
+  /** 修改时间 */
+  changedAt: string;
+}
+
+/**
+ * 可比较的分录字段
+ */
+export type EntryDiffField =
+  | "date"
+  | "description"
+  | "payee"
+  | "note"
+  | "tags"
+  | "lines";
+
+/**
+ * 分录字段差异（值已格式化为文本）
+ */
+export interface EntryFieldChange {
+  field: EntryDiffField;
+  before: string;
+  after: string;
 }
 
 // ============================================================================
@@ -165,6 +271,20 @@ export interface BookData {
   exchangeRates: ExchangeRate[];
   /** 常用标签 */
   commonTags: string[];
+  /** 自动分类规则（按顺序匹配） */
+  rules?: CategorizationRule[];
+  /** 定期交易模板 */
+  recurring?: RecurringTemplate[];
+  /** 预算 */
+  budgets?: Budget[];
+  /** 结账记录（按日期升序，最后一条为锁定日期） */
+  closings?: PeriodClosing[];
+  /** 对账记录 */
+  reconciliations?: Reconciliation[];
+  /** 余额断言 */
+  balanceAssertions?: BalanceAssertion[];
+  /** 公司行动（拆股、代码变更） */
+  corporateActions?: CorporateAction[];
   /** 图标 */
   icon?: string;
   /** 是否归档 */
@@ -252,3 +372,315 @@ export interface BalanceSnapshot {
   /** 按货币分组的资产 */
   assetsByCurrency: Record<CurrencyCode, number>;
 }
+
+/**
+ * 报表账户节点（金额为本位币，含子账户汇总；每列对应一个期间或日期）
+ */
+export interface StatementNode {
+  account: AccountData;
+  amounts: number[];
+  children: StatementNode[];
+}
+
+/**
+ * 利润表
+ */
+export interface IncomeStatement {
+  range: DateRange;
+  currency: CurrencyCode;
+  income: StatementNode[];
+  expenses: StatementNode[];
+  totalIncome: number;
+  totalExpenses: number;
+  netIncome: number;
+}
+
+/**
+ * 比较资产负债表（每列对应一个日期）
+ */
+export interface BalanceSheet {
+  dates: string[];
+  currency: CurrencyCode;
+  assets: StatementNode[];
+  liabilities: StatementNode[];
+  equity: StatementNode[];
+  /** 未结转的累计收支（收入 - 支出） */
+  retainedEarnings: number[];
+  totalAssets: number[];
+  totalLiabilities: number[];
+  /** 权益合计（含未结转收支） */
+  totalEquity: number[];
+}
+
+/**
+ * 现金流量表的一项（按对方账户汇总，流入为正）
+ */
+export interface CashFlowItem {
+  account: AccountData;
+  amount: number;
+}
+
+/**
+ * 现金流量表的一类活动
+ */
+export interface CashFlowSection {
+  activity: CashFlowActivity;
+  items: CashFlowItem[];
+  total: number;
+}
+
+/**
+ * 现金流量表（金额为本位币）
+ */
+export interface CashFlowStatement {
+  range: DateRange;
+  currency: CurrencyCode;
+  sections: CashFlowSection[];
+  /** 期间现金净流入 */
+  netChange: number;
+  openingCash: number;
+  closingCash: number;
+  /** 汇率变动对现金的影响（期末 - 期初 - 净流入） */
+  exchangeEffect: number;
+}
+
+/**
+ * 账户明细（报表下钻）
+ */
+export interface AccountActivity {
+  entry: JournalEntryData;
+  /** 对所选账户及子账户的影响（本位币，按账户正常方向为正） */
+  amount: number;
+}
+
+// ============================================================================
+// 余额重建
+// ============================================================================
+
+/**
+ * 账户余额偏差（缓存值 - 重建值）
+ */
+export interface BalanceDrift {
+  accountId: string;
+  path: string;
+  currency: CurrencyCode;
+  /** 缓存余额 */
+  cached: number;
+  /** 重放分录得到的余额 */
+  rebuilt: number;
+  /** 偏差 */
+  drift: number;
+}
+
+/**
+ * 余额重建结果
+ */
+export interface BalanceRebuildResult {
+  /** 重建后的账户 */
+  accounts: AccountData[];
+  /** 存在偏差的账户 */
+  drifts: BalanceDrift[];
+  /** 成功重放的分录数 */
+  replayedCount: number;
+  /** 无法重放的分录（如借贷不平衡、账户不存在） */
+  skippedEntries: Array<{ entryId: string; reason: string }>;
+}
+
+// ============================================================================
+// 自动分类规则
+// ============================================================================
+
+/**
+ * 规则匹配字段（any 表示收款人或描述任一匹配）
+ */
+export type RuleMatchField = "payee" | "description" | "any";
+
+/**
+ * 规则匹配方式：子串（不区分大小写）或正则
+ */
+export type RuleMatchMode = "contains" | "regex";
+
+/**
+ * 自动分类规则
+ */
+export interface CategorizationRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  field: RuleMatchField;
+  mode: RuleMatchMode;
+  /** 匹配内容，为空时只按金额和来源账户匹配 */
+  pattern: string;
+  /** 金额范围（最小单位，含边界） */
+  amountRange?: { min?: number; max?: number };
+  /** 来源账户（如银行卡），分录需包含该账户 */
+  sourceAccountId?: string;
+  /** 设置的收入 / 支出账户 */
+  targetAccountId?: string;
+  /** 追加的标签 */
+  tags?: string[];
+  /** 规范化后的收款人 */
+  payee?: string;
+}
+
+// ============================================================================
+// 定期交易
+// ============================================================================
+
+/**
+ * 重复频率
+ * - weekly: 每周某天
+ * - monthly: 每月某日（超过月末取月末）
+ * - yearly: 每年某月某日
+ * - last-business-day: 每月最后一个工作日（周一至周五）
+ */
+export type RecurrenceFrequency =
+  | "weekly"
+  | "monthly"
+  | "yearly"
+  | "last-business-day";
+
+/**
+ * 重复规则（类似 RRULE 的子集）
+ */
+export interface RecurrenceSchedule {
+  frequency: RecurrenceFrequency;
+  /** 间隔（每 N 周 / 月 / 年），默认 1 */
+  interval?: number;
+  /** 星期几（0 = 周日），weekly */
+  weekday?: number;
+  /** 日期（1-31），monthly / yearly */
+  day?: number;
+  /** 月份（1-12），yearly */
+  month?: number;
+}
+
+/**
+ * 定期交易模板
+ */
+export interface RecurringTemplate {
+  id: string;
+  name: string;
+  enabled: boolean;
+  schedule: RecurrenceSchedule;
+  /** 开始日期，间隔从这里起算 */
+  startDate: string;
+  /** 结束日期（含） */
+  endDate?: string;
+  /** 下一次待处理的日期，之前的发生已过账或跳过；没有后续发生时为空 */
+  nextDate?: string;
+  /** 分录模板 */
+  description: string;
+  lines: EntryLineData[];
+  tags?: string[];
+  payee?: string;
+  note?: string;
+}
+
+// ============================================================================
+// 预算
+// ============================================================================
+
+/**
+ * 预算周期
+ */
+export type BudgetPeriod = Extract<
+  TimeGranularity,
+  "month" | "quarter" | "year"
+>;
+
+/**
+ * 预算（支出账户和 / 或标签）
+ */
+export interface Budget {
+  id: string;
+  name: string;
+  period: BudgetPeriod;
+  /** 每期预算金额（最小单位，账簿本位币） */
+  amount: number;
+  /** 支出账户（含子账户），为空时统计全部支出账户 */
+  accountIds?: string[];
+  /** 标签（任一匹配），为空时不按标签筛选 */
+  tags?: string[];
+  /** 未用完的额度结转到下一期 */
+  rollover?: boolean;
+  /** 开始日期，结转从所在周期起算 */
+  startDate: string;
+}
+
+// ============================================================================
+// 结账
+// ============================================================================
+
+/**
+ * 结账记录：收入、支出结转到留存收益，截至 date 的分录被锁定
+ */
+export interface PeriodClosing {
+  /** 结账日期（含当日） */
+  date: string;
+  /** 结转分录 ID，没有需要结转的余额时为空 */
+  entryId?: string;
+  /** 结账时间 */
+  closedAt: string;
+  /** 结账人 */
+  closedBy?: string;
+}
+
+// ============================================================================
+// 对账
+// ============================================================================
+
+/**
+ * 对账：按对账单逐笔勾选账户的分录行，差额为 0 时完成并锁定已勾选的行
+ */
+export interface Reconciliation {
+  id: string;
+  /** 对账账户（资产或负债） */
+  accountId: string;
+  /** 对账单日期 */
+  statementDate: string;
+  /** 对账单期末余额（最小单位，账户币种，按账户正常方向） */
+  statementBalance: number;
+  status: "open" | "finished";
+  createdAt: string;
+  finishedAt?: string;
+  createdBy?: string;
+}
+
+/**
+ * 余额断言：账户在某日（含当日）结束时的余额应等于 amount
+ */
+export interface BalanceAssertion {
+  id: string;
+  accountId: string;
+  date: string;
+  /** 预期余额（最小单位，账户币种，按账户正常方向） */
+  amount: number;
+  note?: string;
+  /** 由对账完成时生成 */
+  reconciliationId?: string;
+}
+
+// ============================================================================
+// 公司行动
+// ============================================================================
+
+/**
+ * 公司行动：没有资金变动，不生成分录
+ * - split: 拆股或合股，生效日起批次数量乘以 ratio，成本不变
+ * - symbolChange: 代码变更，生效日起持仓账户使用 toSymbol
+ */
+export interface CorporateAction {
+  id: string;
+  kind: "split" | "symbolChange";
+  /** 持仓账户 */
+  accountId: string;
+  /** 生效日期（当天的分录按变更后处理） */
+  date: string;
+  /** 拆股比例：新数量 / 旧数量（4 拆 1 为 4，10 合 1 为 0.1） */
+  ratio?: number;
+  fromSymbol?: string;
+  toSymbol?: string;
+  note?: string;
+  createdAt: string;
+}
@@ -13,6 +13,10 @@ import type {
 } from "./types";
 import { AccountType } from "./types";
 import { verifyAccountingEquation } from "./book";
+import { getLineBaseAmount, isMultiCurrencyEntry } from "./entry";
+import { findLockViolations } from "./closing";
+import { checkBalanceAssertions } from "./reconcile";
+import { findHoldingIssues } from "./holdings";
 
 // ============================================================================
 // 验证结果类型
@@ -56,13 +60,16 @@ export function validateEntry(entry: JournalEntryData): ValidationResult {
   } else if (entry.lines.length < 2) {
     errors.push("分录至少需要两行（借方和贷方）");
   } else {
-    // 检查是否借贷平衡（多行也需平衡）
+    // 检查是否借贷平衡（多行也需平衡，跨币种分录按本位币折算金额）
+    const multiCurrency = isMultiCurrencyEntry(entry);
+    const lineAmount = (l: EntryLineData) =>
+      multiCurrency ? getLineBaseAmount(l) : l.amount;
     const totalDebit = entry.lines
       .filter((l) => l.type === "debit")
-      .reduce((sum, l) => sum + l.amount, 0);
+      .reduce((sum, l) => sum + lineAmount(l), 0);
     const totalCredit = entry.lines
       .filter((l) => l.type === "credit")
-      .reduce((sum, l) => sum + l.amount, 0);
+      .reduce((sum, l) => sum + lineAmount(l), 0);
 
     if (totalDebit !== totalCredit) {
       errors.push(`借贷不平衡：借方 ${totalDebit} ≠ 贷方 ${totalCredit}`);
@@ -283,6 +290,39 @@ export function validateBook(book: BookData): ValidationResult {
     }
   }
 
+  // 已结账期间内不应有结账后写入的分录
+  for (const entry of findLockViolations(book)) {
+    errors.push(
+      `分录 "${entry.description}" (ID: ${entry.id}) 位于已结账期间，但在结账后被修改`,
+    );
+  }
+
+  // 余额断言
+  for (const check of checkBalanceAssertions(book)) {
+    if (check.difference === 0) continue;
+    const { assertion } = check;
+    const path = check.account?.path ?? assertion.accountId;
+    errors.push(
+      `余额断言失败：${path} 在 ${assertion.date} ` +
+        `应为 ${assertion.amount}，实际 ${check.actual}`,
+    );
+  }
+
+  // 持仓账户的数量与成本
+  const holdingMessages = {
+    missingQuantity: "缺少持仓数量",
+    oversold: "卖出数量超过持仓",
+    costMismatch: "卖出成本与成本方法计算的成本不一致",
+  };
+  for (const issue of findHoldingIssues(book)) {
+    const message = `分录 "${issue.entry.description}" (ID: ${issue.entry.id}) 在 ${issue.account.path}: ${holdingMessages[issue.kind]}`;
+    if (issue.kind === "costMismatch") {
+      warnings.push(message);
+    } else {
+      errors.push(message);
+    }
+  }
+
   // 验证会计恒等式
   if (!verifyAccountingEquation(book)) {
     errors.push("会计恒等式不成立：资产 + 支出 ≠ 负债 + 权益 + 收入");
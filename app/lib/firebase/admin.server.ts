@@ -14,9 +14,11 @@
 
 import { getApps, initializeApp, cert, type App } from "firebase-admin/app";
 import { getAuth, type Auth } from "firebase-admin/auth";
+import { getFirestore, type Firestore } from "firebase-admin/firestore";
 
 let adminApp: App | null = null;
 let adminAuth: Auth | null = null;
+let adminFirestore: Firestore | null = null;
 
 /**
  * 初始化 Firebase Admin
@@ -75,6 +77,19 @@ export function getFirebaseAuth(): Auth {
   return adminAuth;
 }
 
+/**
+ * 获取 Firestore 实例（服务端任务读写用户数据）
+ */
+export function getFirebaseFirestore(): Firestore {
+  if (adminFirestore) {
+    return adminFirestore;
+  }
+
+  const app = getFirebaseAdmin();
+  adminFirestore = getFirestore(app);
+  return adminFirestore;
+}
+
 /**
  * 验证 Firebase ID Token
  */
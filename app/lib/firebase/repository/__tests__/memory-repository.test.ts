@@ -0,0 +1,225 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  addAccount,
+  createBook,
+  getRootAccount,
+} from "~/lib/double-entry/book";
+import { createSimpleEntry } from "~/lib/double-entry/entry";
+import { AccountType } from "~/lib/double-entry/types";
+import type { JournalEntryData } from "~/lib/double-entry/types";
+import { MemoryRepositoryFactory } from "../memory-repository";
+
+const USER_ID = "user-1";
+
+function setup(factory = new MemoryRepositoryFactory()) {
+  let book = createBook({ name: "Test Book", defaultCurrency: "CNY" });
+  const assetsRoot = getRootAccount(book, AccountType.ASSETS)!;
+  const incomeRoot = getRootAccount(book, AccountType.INCOME)!;
+  const expensesRoot = getRootAccount(book, AccountType.EXPENSES)!;
+
+  book = addAccount(book, { name: "Cash", parentId: assetsRoot.id });
+  book = addAccount(book, { name: "Salary", parentId: incomeRoot.id });
+  book = addAccount(book, { name: "Food", parentId: expensesRoot.id });
+
+  const cash = book.accounts.find((a) => a.path === "assets:cash")!;
+  const salary = book.accounts.find((a) => a.path === "income:salary")!;
+  const food = book.accounts.find((a) => a.path === "expenses:food")!;
+
+  return { factory, book, cash, salary, food };
+}
+
+function lunch(date: string, cashId: string, foodId: string, amount = 500) {
+  return createSimpleEntry({
+    date,
+    description: `Lunch ${date}`,
+    debitAccountId: foodId,
+    creditAccountId: cashId,
+    amount,
+    tags: ["food"],
+  });
+}
+
+describe("MemoryRepositoryFactory", () => {
+  it("saves and reads books without entries", async () => {
+    const { factory, book, cash, food } = setup();
+    const repo = factory.getBookRepository();
+
+    await repo.saveBook(USER_ID, {
+      ...book,
+      entries: [lunch("2024-01-01", cash.id, food.id)],
+    });
+
+    const loaded = await repo.getBook(USER_ID, book.id);
+    expect(loaded?.name).toBe("Test Book");
+    expect(loaded?.accounts).toHaveLength(book.accounts.length);
+    expect(loaded?.entries).toEqual([]);
+
+    const page = await factory
+      .getEntryRepository()
+      .queryEntries(USER_ID, book.id);
+    expect(page.total).toBe(1);
+
+    expect(await repo.getBook("someone-else", book.id)).toBeNull();
+  });
+
+  it("paginates entries in date order with filters", async () => {
+    const { factory, book, cash, food } = setup();
+    await factory.getBookRepository().saveBook(USER_ID, book);
+
+    const entries = [
+      "2024-01-03",
+      "2024-01-01",
+      "2024-01-05",
+      "2024-01-02",
+    ].map((date) => lunch(date, cash.id, food.id));
+    await factory.getEntryRepository().saveEntries(USER_ID, book.id, entries);
+
+    const repo = factory.getEntryRepository();
+    const first = await repo.queryEntries(USER_ID, book.id, {
+      page: 1,
+      pageSize: 3,
+    });
+    expect(first.items.map((e) => e.date)).toEqual([
+      "2024-01-05",
+      "2024-01-03",
+      "2024-01-02",
+    ]);
+    expect(first.totalPages).toBe(2);
+    expect(first.hasMore).toBe(true);
+
+    const second = await repo.queryEntries(USER_ID, book.id, {
+      page: 2,
+      pageSize: 3,
+    });
+    expect(second.items.map((e) => e.date)).toEqual(["2024-01-01"]);
+    expect(second.hasMore).toBe(false);
+
+    const ranged = await repo.queryEntries(USER_ID, book.id, {
+      startDate: "2024-01-02",
+      endDate: "2024-01-03",
+    });
+    expect(ranged.total).toBe(2);
+  });
+
+  it("computes entry stats", async () => {
+    const { factory, book, cash, salary, food } = setup();
+    await factory.getBookRepository().saveBook(USER_ID, book);
+
+    const salaryEntry = createSimpleEntry({
+      date: "2024-01-01",
+      description: "Salary",
+      debitAccountId: cash.id,
+      creditAccountId: salary.id,
+      amount: 10000,
+    });
+    await factory
+      .getEntryRepository()
+      .saveEntries(USER_ID, book.id, [
+        salaryEntry,
+        lunch("2024-01-02", cash.id, food.id, 500),
+        lunch("2024-01-03", cash.id, food.id, 700),
+      ]);
+
+    const stats = await factory
+      .getEntryRepository()
+      .getEntryStats(USER_ID, book.id);
+
+    expect(stats.totalCount).toBe(3);
+    expect(stats.totalIncome).toBe(10000);
+    expect(stats.totalExpense).toBe(1200);
+    expect(stats.balance).toBe(8800);
+    expect(stats.byAccount[cash.id]).toBe(8800);
+    expect(stats.byAccount[food.id]).toBe(1200);
+    expect(stats.byTag.food).toBe(1200);
+  });
+
+  it("notifies entry watchers until unsubscribed", async () => {
+    const { factory, book, cash, food } = setup();
+    await factory.getBookRepository().saveBook(USER_ID, book);
+    const repo = factory.getEntryRepository();
+
+    const snapshots: JournalEntryData[][] = [];
+    const unsubscribe = repo.watchEntries(USER_ID, book.id, (entries) => {
+      snapshots.push(entries);
+    });
+
+    const entry = lunch("2024-01-01", cash.id, food.id);
+    await repo.saveEntry(USER_ID, book.id, entry);
+    await repo.deleteEntry(USER_ID, book.id, entry.id);
+    unsubscribe();
+    await repo.saveEntry(USER_ID, book.id, entry);
+
+    expect(snapshots.map((s) => s.length)).toEqual([0, 1, 0]);
+  });
+
+  it("rolls back every write of a failed transaction", async () => {
+    const { factory, book, cash, food } = setup();
+    await factory.getBookRepository().saveBook(USER_ID, book);
+    const entry = lunch("2024-01-01", cash.id, food.id);
+
+    await expect(
+      factory.runTransaction(async (tx) => {
+        await tx
+          .getAccountRepository()
+          .saveAccount(USER_ID, book.id, { ...cash, balance: -500 });
+        await tx.runTransaction(async (nested) => {
+          await nested.getEntryRepository().saveEntry(USER_ID, book.id, entry);
+        });
+        throw new Error("Posting failed");
+      }),
+    ).rejects.toThrow("Posting failed");
+
+    const accounts = await factory
+      .getAccountRepository()
+      .getAccounts(USER_ID, book.id);
+    const entries = await factory
+      .getEntryRepository()
+      .listEntries(USER_ID, book.id);
+    expect(accounts.find((a) => a.id === cash.id)?.balance).toBe(0);
+    expect(entries).toEqual([]);
+
+    await factory.runTransaction(async (tx) => {
+      await tx.getEntryRepository().saveEntry(USER_ID, book.id, entry);
+    });
+    expect(
+      await factory.getEntryRepository().getEntry(USER_ID, book.id, entry.id),
+    ).toMatchObject({ id: entry.id });
+  });
+
+  it("persists to storage", async () => {
+    const data = new Map<string, string>();
+    const storage = {
+      getItem: (key: string) => data.get(key) ?? null,
+      setItem: (key: string, value: string) => {
+        data.set(key, value);
+      },
+    };
+
+    const { book, cash, food } = setup();
+    const first = new MemoryRepositoryFactory({ storage });
+    await first.getBookRepository().saveBook(USER_ID, book);
+    await first
+      .getEntryRepository()
+      .saveEntry(USER_ID, book.id, lunch("2024-01-01", cash.id, food.id));
+    await first
+      .getBookRepository()
+      .saveBookMeta(USER_ID, book.id, {
+        commonTags: ["food"],
+        exchangeRates: [],
+      });
+
+    const second = new MemoryRepositoryFactory({ storage });
+    const meta = await second.getBookRepository().getBookMeta(USER_ID, book.id);
+    const accounts = await second
+      .getAccountRepository()
+      .getAccounts(USER_ID, book.id);
+    const entries = await second
+      .getEntryRepository()
+      .queryEntries(USER_ID, book.id);
+
+    expect(meta?.commonTags).toEqual(["food"]);
+    expect(accounts).toHaveLength(book.accounts.length);
+    expect(entries.total).toBe(1);
+  });
+});
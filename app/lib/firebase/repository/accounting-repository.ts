@@ -4,20 +4,23 @@
 
 import {
   collection,
+  deleteDoc,
   doc,
   getDoc,
   getDocs,
   getFirestore,
-  limit,
+  onSnapshot,
   orderBy,
   query,
   runTransaction,
   setDoc,
-  updateDoc,
   writeBatch,
   Timestamp,
   where,
+  type DocumentReference,
   type Firestore,
+  type QueryConstraint,
+  type Transaction,
 } from "firebase/firestore";
 import { getApps } from "firebase/app";
 import type {
@@ -26,14 +29,30 @@ import type {
   JournalEntryData,
   ExchangeRate,
   CurrencyCode,
+  EntryRevision,
+  EntryRevisionAction,
+  CategorizationRule,
+  RecurringTemplate,
+  Budget,
+  PeriodClosing,
+  Reconciliation,
+  BalanceAssertion,
+  CorporateAction,
+  HoldingEvent,
 } from "~/lib/double-entry/types";
-import { AccountType, EntryLineType } from "~/lib/double-entry/types";
+import { AccountType } from "~/lib/double-entry/types";
 import { createBook } from "~/lib/double-entry/book";
-import { createAccount, isDebitIncreaseAccount } from "~/lib/double-entry/account";
-import { fromMainUnit } from "~/lib/double-entry/money";
-import { createEntry } from "~/lib/double-entry/entry";
-
-export type BookRole = "owner" | "editor" | "viewer";
+import type {
+  BookRole,
+  EntryQueryOptions,
+  EntryStats,
+  IAccountRepository,
+  IBookRepository,
+  IEntryRepository,
+  IRepositoryFactory,
+  PaginatedResult,
+} from "./types";
+import { calculateStats, filterEntries, paginate } from "./entry-query";
 
 export type BookSummary = {
   id: string;
@@ -101,6 +120,9 @@ function normalizeAccountDoc(
     icon: data.icon as string | undefined,
     note: data.note as string | undefined,
     archived: data.archived as boolean | undefined,
+    cashFlow: data.cashFlow as AccountData["cashFlow"],
+    commodity: data.commodity as string | undefined,
+    costBasisMethod: data.costBasisMethod as AccountData["costBasisMethod"],
     createdAt: normalizeTimestamp(data.createdAt) ?? now,
     updatedAt: normalizeTimestamp(data.updatedAt) ?? now,
   };
@@ -125,6 +147,103 @@ function normalizeEntryDoc(
     updatedBy: data.updatedBy as string | undefined,
     createdAt: normalizeTimestamp(data.createdAt) ?? now,
     updatedAt: normalizeTimestamp(data.updatedAt) ?? now,
+    deletedAt: normalizeTimestamp(data.deletedAt),
+    entryVersion:
+      typeof data.entryVersion === "number" ? data.entryVersion : undefined,
+    holdingEvent: data.holdingEvent as HoldingEvent | undefined,
+  };
+}
+
+/**
+ * 分录写入 Firestore 的数据（Firestore 不接受 undefined 字段）
+ */
+function toEntryDoc(
+  entry: JournalEntryData,
+  currency?: CurrencyCode,
+): Record<string, unknown> {
+  const data: Record<string, unknown> = { ...entry, currency };
+  for (const [key, value] of Object.entries(data)) {
+    if (value === undefined) {
+      delete data[key];
+    }
+  }
+  if (!entry.tags || entry.tags.length === 0) {
+    delete data.tags;
+  }
+  if (!entry.payee) {
+    delete data.payee;
+  }
+  if (!entry.note) {
+    delete data.note;
+  }
+  return data;
+}
+
+/**
+ * 修订记录写入 Firestore 的数据
+ */
+function toRevisionDoc(revision: EntryRevision): Record<string, unknown> {
+  const snapshot = toEntryDoc(revision.snapshot);
+  const data: Record<string, unknown> = {
+    entryId: revision.entryId,
+    action: revision.action,
+    snapshot,
+    changedAt: revision.changedAt,
+  };
+  if (revision.changedBy) {
+    data.changedBy = revision.changedBy;
+  }
+  return data;
+}
+
+/**
+ * 规则写入 Firestore 的数据（去掉 undefined 字段）
+ */
+function toRuleDoc(rule: CategorizationRule): Record<string, unknown> {
+  const data: Record<string, unknown> = { ...rule };
+  for (const [key, value] of Object.entries(data)) {
+    if (value === undefined) {
+      delete data[key];
+    }
+  }
+  if (rule.amountRange) {
+    data.amountRange = Object.fromEntries(
+      Object.entries(rule.amountRange).filter(([, v]) => v !== undefined),
+    );
+  }
+  return data;
+}
+
+function omitUndefined(value: object): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, v]) => v !== undefined),
+  );
+}
+
+/**
+ * 定期交易模板写入 Firestore 的数据（去掉各层 undefined 字段）
+ */
+function toRecurringDoc(template: RecurringTemplate): Record<string, unknown> {
+  return omitUndefined({
+    ...template,
+    schedule: omitUndefined(template.schedule),
+    lines: template.lines.map(omitUndefined),
+  });
+}
+
+function normalizeRevisionDoc(
+  id: string,
+  entryId: string,
+  data: Record<string, unknown>,
+): EntryRevision {
+  const snapshot = (data.snapshot as Record<string, unknown>) ?? {};
+  return {
+    id,
+    entryId,
+    action: (data.action as EntryRevisionAction) ?? "update",
+    snapshot: normalizeEntryDoc(entryId, snapshot),
+    changedBy: data.changedBy as string | undefined,
+    changedAt: normalizeTimestamp(data.changedAt) ?? new Date().toISOString(),
   };
 }
 
@@ -152,9 +271,7 @@ export async function listUserBooks(userId: string): Promise<BookSummary[]> {
   );
 }
 
-export async function ensureDefaultBook(
-  userId: string,
-): Promise<BookSummary> {
+export async function ensureDefaultBook(userId: string): Promise<BookSummary> {
   const books = await listUserBooks(userId);
   if (books.length > 0) return books[0];
   return createBookForUser(userId, { name: "Main", defaultCurrency: "CNY" });
@@ -217,224 +334,488 @@ export async function createBookForUser(
   };
 }
 
-export async function fetchBookSnapshot(
-  userId: string,
-  bookId: string,
-): Promise<BookData | null> {
-  const db = getDB();
-  const memberRef = doc(db, `books/${bookId}/members`, userId);
-  const memberSnap = await getDoc(memberRef);
-  if (!memberSnap.exists()) {
-    return null;
+// ============================================================================
+// Firestore Repository
+// ============================================================================
+
+type StoredDoc = { id: string; data: Record<string, unknown> };
+
+type PendingWrite = {
+  ref: DocumentReference;
+  /** null 表示删除 */
+  data: Record<string, unknown> | null;
+  merge: boolean;
+};
+
+/**
+ * Firestore 读写会话
+ *
+ * 事务中单个文档经 tx.get 读取，被他人修改时 Firestore 重试整个事务；
+ * 写入先缓存、回调结束后一起提交（客户端事务要求先读后写），之后的读取能看到缓存的写入。
+ * 客户端事务不能执行查询，集合直接读取最新数据再叠加缓存的写入。事务外的写入立即执行
+ */
+class FirestoreSession {
+  private pending = new Map<string, PendingWrite>();
+
+  constructor(
+    readonly db: Firestore,
+    private tx: Transaction | null = null,
+  ) {}
+
+  async get(path: string): Promise<Record<string, unknown> | null> {
+    const ref = doc(this.db, path);
+    const snap = this.tx ? await this.tx.get(ref) : await getDoc(ref);
+    return this.overlay(ref.path, snap.exists() ? snap.data() : null);
   }
 
-  const bookRef = doc(db, "books", bookId);
-  const bookSnap = await getDoc(bookRef);
-  if (!bookSnap.exists()) {
-    return null;
+  /**
+   * 读取集合；tracked 时在事务中逐个重新读取文档，使其参与冲突检测
+   */
+  async list(
+    path: string,
+    options: { tracked?: boolean; constraints?: QueryConstraint[] } = {},
+  ): Promise<StoredDoc[]> {
+    const snap = await getDocs(
+      query(collection(this.db, path), ...(options.constraints ?? [])),
+    );
+    const docs = new Map<string, Record<string, unknown> | null>(
+      snap.docs.map((docItem) => [docItem.id, docItem.data()]),
+    );
+    for (const [docPath, write] of this.pending) {
+      if (write.ref.parent.path !== path) continue;
+      const id = write.ref.id;
+      docs.set(id, this.overlay(docPath, docs.get(id) ?? null));
+    }
+    if (options.tracked && this.tx) {
+      await Promise.all(
+        [...docs.keys()].map(async (id) => {
+          docs.set(id, await this.get(`${path}/${id}`));
+        }),
+      );
+    }
+    return [...docs].flatMap(([id, data]) => (data ? [{ id, data }] : []));
   }
 
-  const bookData = bookSnap.data() as Record<string, unknown>;
-  const accountsSnap = await getDocs(
-    collection(db, `books/${bookId}/accounts`),
-  );
-  const entriesSnap = await getDocs(
-    query(
-      collection(db, `books/${bookId}/entries`),
-      orderBy("date", "desc"),
-      limit(200),
-    ),
-  );
+  async set(
+    path: string,
+    data: Record<string, unknown>,
+    options: { merge?: boolean } = {},
+  ): Promise<void> {
+    const ref = doc(this.db, path);
+    const merge = options.merge ?? false;
+    if (!this.tx) {
+      await setDoc(ref, data, { merge });
+      return;
+    }
+    const previous = this.pending.get(ref.path);
+    this.pending.set(
+      ref.path,
+      merge && previous?.data
+        ? { ref, data: { ...previous.data, ...data }, merge: previous.merge }
+        : { ref, data, merge: merge && !previous },
+    );
+  }
 
-  const accounts = accountsSnap.docs.map((docItem) =>
-    normalizeAccountDoc(docItem.id, docItem.data()),
-  );
-  const entries = entriesSnap.docs.map((docItem) =>
-    normalizeEntryDoc(docItem.id, docItem.data()),
-  );
+  async delete(path: string): Promise<void> {
+    const ref = doc(this.db, path);
+    if (!this.tx) {
+      await deleteDoc(ref);
+      return;
+    }
+    this.pending.set(ref.path, { ref, data: null, merge: false });
+  }
 
+  /**
+   * 把缓存的写入交给事务提交
+   */
+  commit() {
+    if (!this.tx) return;
+    for (const write of this.pending.values()) {
+      if (write.data) {
+        this.tx.set(write.ref, write.data, { merge: write.merge });
+      } else {
+        this.tx.delete(write.ref);
+      }
+    }
+    this.pending.clear();
+  }
+
+  private overlay(
+    path: string,
+    data: Record<string, unknown> | null,
+  ): Record<string, unknown> | null {
+    const write = this.pending.get(path);
+    if (!write) return data;
+    if (!write.data) return null;
+    return write.merge ? { ...data, ...write.data } : { ...write.data };
+  }
+}
+
+function normalizeBookDoc(
+  id: string,
+  data: Record<string, unknown>,
+  accounts: AccountData[],
+): BookData {
   const now = new Date().toISOString();
   return {
-    id: bookSnap.id,
-    name: String(bookData.name ?? "Main"),
-    description: bookData.description as string | undefined,
+    id,
+    name: String(data.name ?? "Main"),
+    description: (data.description as string | null) ?? undefined,
     accounts,
-    entries,
+    entries: [],
     defaultCurrency:
-      (bookData.defaultCurrency as BookData["defaultCurrency"]) ?? "CNY",
-    exchangeRates:
-      (bookData.exchangeRates as ExchangeRate[]) ?? ([] as ExchangeRate[]),
-    commonTags: (bookData.commonTags as string[]) ?? [],
-    icon: bookData.icon as string | undefined,
-    archived: bookData.archived as boolean | undefined,
-    createdAt: normalizeTimestamp(bookData.createdAt) ?? now,
-    updatedAt: normalizeTimestamp(bookData.updatedAt) ?? now,
+      (data.defaultCurrency as BookData["defaultCurrency"]) ?? "CNY",
+    exchangeRates: (data.exchangeRates as ExchangeRate[]) ?? [],
+    commonTags: (data.commonTags as string[]) ?? [],
+    rules: (data.rules as CategorizationRule[]) ?? [],
+    recurring: (data.recurring as RecurringTemplate[]) ?? [],
+    budgets: (data.budgets as Budget[]) ?? [],
+    closings: (data.closings as PeriodClosing[]) ?? [],
+    reconciliations: (data.reconciliations as Reconciliation[]) ?? [],
+    balanceAssertions: (data.balanceAssertions as BalanceAssertion[]) ?? [],
+    corporateActions: (data.corporateActions as CorporateAction[]) ?? [],
+    icon: (data.icon as string | null) ?? undefined,
+    archived: data.archived as boolean | undefined,
+    createdAt: normalizeTimestamp(data.createdAt) ?? now,
+    updatedAt: normalizeTimestamp(data.updatedAt) ?? now,
   };
 }
 
-export async function createAccountForBook(
-  userId: string,
-  params: {
-    bookId: string;
-    name: string;
-    parentId: string;
-    icon?: string;
-    note?: string;
-  },
-): Promise<AccountData> {
-  const db = getDB();
-  const memberRef = doc(db, `books/${params.bookId}/members`, userId);
-  const memberSnap = await getDoc(memberRef);
-  if (!memberSnap.exists()) {
-    throw new Error("No access to book");
+async function readAccounts(
+  session: FirestoreSession,
+  bookId: string,
+): Promise<AccountData[]> {
+  const docs = await session.list(`books/${bookId}/accounts`, {
+    tracked: true,
+  });
+  return docs.map(({ id, data }) => normalizeAccountDoc(id, data));
+}
+
+/**
+ * 读取账簿和全部账户（不包含分录）
+ */
+async function readBook(
+  session: FirestoreSession,
+  bookId: string,
+): Promise<BookData | null> {
+  const data = await session.get(`books/${bookId}`);
+  if (!data) return null;
+  return normalizeBookDoc(bookId, data, await readAccounts(session, bookId));
+}
+
+/**
+ * 分录或账户变化时更新账簿的 updatedAt
+ */
+async function touchBook(session: FirestoreSession, bookId: string) {
+  await session.set(
+    `books/${bookId}`,
+    { updatedAt: new Date().toISOString() },
+    { merge: true },
+  );
+}
+
+export class FirestoreBookRepository implements IBookRepository {
+  constructor(private session: FirestoreSession) {}
+
+  async getBookMeta(userId: string, bookId: string) {
+    const book = await this.session.get(`books/${bookId}`);
+    if (!book) return null;
+    const { accounts, entries, ...meta } = normalizeBookDoc(bookId, book, []);
+    return {
+      commonTags: meta.commonTags,
+      exchangeRates: meta.exchangeRates,
+      rules: meta.rules ?? [],
+      recurring: meta.recurring ?? [],
+      budgets: meta.budgets ?? [],
+      closings: meta.closings ?? [],
+      reconciliations: meta.reconciliations ?? [],
+      balanceAssertions: meta.balanceAssertions ?? [],
+      corporateActions: meta.corporateActions ?? [],
+      updatedAt: normalizeTimestamp(book.updatedAt) ?? null,
+    };
   }
-  const memberData = memberSnap.data() as { role?: BookRole } | undefined;
-  const role = memberData?.role ?? "viewer";
-  if (role !== "owner" && role !== "editor") {
-    throw new Error("Permission denied");
+
+  async saveBookMeta(
+    userId: string,
+    bookId: string,
+    meta: {
+      commonTags: string[];
+      exchangeRates: ExchangeRate[];
+      rules?: CategorizationRule[];
+      recurring?: RecurringTemplate[];
+      budgets?: Budget[];
+      closings?: PeriodClosing[];
+      reconciliations?: Reconciliation[];
+      balanceAssertions?: BalanceAssertion[];
+      corporateActions?: CorporateAction[];
+    },
+  ) {
+    await this.session.set(
+      `books/${bookId}`,
+      omitUndefined({
+        commonTags: meta.commonTags,
+        exchangeRates: meta.exchangeRates,
+        rules: meta.rules?.map(toRuleDoc),
+        recurring: meta.recurring?.map(toRecurringDoc),
+        budgets: meta.budgets?.map(omitUndefined),
+        closings: meta.closings?.map(omitUndefined),
+        reconciliations: meta.reconciliations?.map(omitUndefined),
+        balanceAssertions: meta.balanceAssertions?.map(omitUndefined),
+        corporateActions: meta.corporateActions?.map(omitUndefined),
+        updatedAt: new Date().toISOString(),
+      }),
+      { merge: true },
+    );
   }
 
-  const parentRef = doc(
-    db,
-    `books/${params.bookId}/accounts`,
-    params.parentId,
-  );
-  const parentSnap = await getDoc(parentRef);
-  if (!parentSnap.exists()) {
-    throw new Error("Parent account not found");
+  async getBook(userId: string, bookId: string): Promise<BookData | null> {
+    return readBook(this.session, bookId);
   }
-  const parent = normalizeAccountDoc(parentSnap.id, parentSnap.data());
 
-  const account = createAccount({
-    name: params.name,
-    type: parent.type,
-    currency: parent.currency,
-    parentId: parent.id,
-    parentPath: parent.path,
-  });
-  if (params.icon) account.icon = params.icon;
-  if (params.note) account.note = params.note;
+  /**
+   * 保存账簿信息、账户和分录；不会删除已有的账户和分录
+   */
+  async saveBook(userId: string, book: BookData) {
+    const { accounts, entries, ...meta } = book;
+    await this.session.set(
+      `books/${book.id}`,
+      omitUndefined({
+        ...meta,
+        rules: meta.rules?.map(toRuleDoc),
+        recurring: meta.recurring?.map(toRecurringDoc),
+        budgets: meta.budgets?.map(omitUndefined),
+        updatedAt: new Date().toISOString(),
+      }),
+      { merge: true },
+    );
+    for (const account of accounts) {
+      await this.session.set(
+        `books/${book.id}/accounts/${account.id}`,
+        omitUndefined(account),
+      );
+    }
+    for (const entry of entries) {
+      await this.session.set(
+        `books/${book.id}/entries/${entry.id}`,
+        toEntryDoc(entry),
+      );
+    }
+  }
 
-  const now = new Date().toISOString();
-  const accountRef = doc(
-    db,
-    `books/${params.bookId}/accounts`,
-    account.id,
-  );
-  await setDoc(accountRef, { ...account, updatedAt: now, createdAt: now });
+  /**
+   * 删除账簿文档和用户的账簿列表项（子集合由服务端清理）
+   */
+  async deleteBook(userId: string, bookId: string) {
+    await this.session.delete(`books/${bookId}`);
+    await this.session.delete(`users/${userId}/books/${bookId}`);
+  }
 
-  const bookRef = doc(db, "books", params.bookId);
-  await updateDoc(bookRef, { updatedAt: now });
+  async getMemberRole(
+    userId: string,
+    bookId: string,
+  ): Promise<BookRole | null> {
+    const member = await this.session.get(`books/${bookId}/members/${userId}`);
+    if (!member) return null;
+    return (member.role as BookRole | undefined) ?? "viewer";
+  }
+}
+
+export class FirestoreAccountRepository implements IAccountRepository {
+  constructor(private session: FirestoreSession) {}
+
+  async getAccounts(userId: string, bookId: string): Promise<AccountData[]> {
+    return readAccounts(this.session, bookId);
+  }
+
+  async saveAccount(userId: string, bookId: string, account: AccountData) {
+    await this.saveAccounts(userId, bookId, [account]);
+  }
+
+  async saveAccounts(userId: string, bookId: string, accounts: AccountData[]) {
+    for (const account of accounts) {
+      await this.session.set(
+        `books/${bookId}/accounts/${account.id}`,
+        omitUndefined(account),
+      );
+    }
+    await touchBook(this.session, bookId);
+  }
 
-  return account;
+  async deleteAccount(userId: string, bookId: string, accountId: string) {
+    await this.session.delete(`books/${bookId}/accounts/${accountId}`);
+  }
 }
 
-export async function createSimpleEntryForBook(
-  userId: string,
-  params: {
-    bookId: string;
-    date: string;
-    description: string;
-    debitAccountId: string;
-    creditAccountId: string;
-    amount: number;
-    tags?: string[];
-    payee?: string;
-    note?: string;
-  },
-): Promise<JournalEntryData> {
-  const db = getDB();
-  const memberRef = doc(db, `books/${params.bookId}/members`, userId);
-  const memberSnap = await getDoc(memberRef);
-  if (!memberSnap.exists()) {
-    throw new Error("No access to book");
+export class FirestoreEntryRepository implements IEntryRepository {
+  constructor(private session: FirestoreSession) {}
+
+  async queryEntries(
+    userId: string,
+    bookId: string,
+    options: EntryQueryOptions = {},
+  ): Promise<PaginatedResult<JournalEntryData>> {
+    const book = await readBook(this.session, bookId);
+    if (!book) return paginate([], options);
+
+    const entries = await this.listEntries(userId, bookId);
+    return paginate(filterEntries({ ...book, entries }, options), options);
   }
 
-  const debitRef = doc(
-    db,
-    `books/${params.bookId}/accounts`,
-    params.debitAccountId,
-  );
-  const creditRef = doc(
-    db,
-    `books/${params.bookId}/accounts`,
-    params.creditAccountId,
-  );
-  const entryRef = doc(collection(db, `books/${params.bookId}/entries`));
+  async listEntries(
+    userId: string,
+    bookId: string,
+  ): Promise<JournalEntryData[]> {
+    const docs = await this.session.list(`books/${bookId}/entries`);
+    return docs
+      .map(({ id, data }) => normalizeEntryDoc(id, data))
+      .filter((entry) => !entry.deletedAt);
+  }
 
-  const now = new Date().toISOString();
+  async getEntry(
+    userId: string,
+    bookId: string,
+    entryId: string,
+  ): Promise<JournalEntryData | null> {
+    const data = await this.session.get(`books/${bookId}/entries/${entryId}`);
+    return data ? normalizeEntryDoc(entryId, data) : null;
+  }
+
+  async saveEntry(userId: string, bookId: string, entry: JournalEntryData) {
+    await this.saveEntries(userId, bookId, [entry]);
+  }
 
-  return await runTransaction(db, async (tx) => {
-    const debitSnap = await tx.get(debitRef);
-    const creditSnap = await tx.get(creditRef);
-    if (!debitSnap.exists() || !creditSnap.exists()) {
-      throw new Error("Account not found");
+  async saveEntries(
+    userId: string,
+    bookId: string,
+    entries: JournalEntryData[],
+  ) {
+    for (const entry of entries) {
+      await this.session.set(
+        `books/${bookId}/entries/${entry.id}`,
+        toEntryDoc(entry),
+      );
     }
+    await touchBook(this.session, bookId);
+  }
 
-    const debitAccount = normalizeAccountDoc(debitSnap.id, debitSnap.data());
-    const creditAccount = normalizeAccountDoc(creditSnap.id, creditSnap.data());
+  async deleteEntry(userId: string, bookId: string, entryId: string) {
+    await this.session.delete(`books/${bookId}/entries/${entryId}`);
+    await touchBook(this.session, bookId);
+  }
 
-    if (debitAccount.currency !== creditAccount.currency) {
-      throw new Error("Cross-currency entry is not supported");
-    }
-    if (!Number.isFinite(params.amount) || params.amount <= 0) {
-      throw new Error("Amount must be greater than 0");
-    }
+  async getRevisions(
+    userId: string,
+    bookId: string,
+    entryId: string,
+  ): Promise<EntryRevision[]> {
+    const docs = await this.session.list(
+      `books/${bookId}/entries/${entryId}/revisions`,
+      { constraints: [orderBy("changedAt", "desc")] },
+    );
+    return docs.map(({ id, data }) => normalizeRevisionDoc(id, entryId, data));
+  }
 
-    const amount = fromMainUnit(params.amount, debitAccount.currency).amount;
-    const entry = createEntry({
-      date: params.date,
-      description: params.description,
-      tags: params.tags,
-      payee: params.payee,
-      note: params.note,
-    });
-    entry.id = entryRef.id;
-    entry.lines = [
-      { accountId: debitAccount.id, amount, type: EntryLineType.DEBIT },
-      { accountId: creditAccount.id, amount, type: EntryLineType.CREDIT },
-    ];
-    entry.createdBy = userId;
-    entry.updatedBy = userId;
-    entry.createdAt = now;
-    entry.updatedAt = now;
-
-    const debitDelta = isDebitIncreaseAccount(debitAccount.type)
-      ? amount
-      : -amount;
-    const creditDelta = isDebitIncreaseAccount(creditAccount.type)
-      ? -amount
-      : amount;
-
-    const entryData: Record<string, unknown> = {
-      ...entry,
-      currency: debitAccount.currency,
-      createdBy: userId,
-      updatedBy: userId,
-    };
-    if (!entry.tags || entry.tags.length === 0) {
-      delete entryData.tags;
-    }
-    if (!entry.payee) {
-      delete entryData.payee;
-    }
-    if (!entry.note) {
-      delete entryData.note;
-    }
+  async saveRevision(userId: string, bookId: string, revision: EntryRevision) {
+    await this.session.set(
+      `books/${bookId}/entries/${revision.entryId}/revisions/${revision.id}`,
+      toRevisionDoc(revision),
+    );
+  }
 
-    tx.set(entryRef, entryData);
-    tx.update(debitRef, {
-      balance: debitAccount.balance + debitDelta,
-      updatedAt: now,
-    });
-    tx.update(creditRef, {
-      balance: creditAccount.balance + creditDelta,
-      updatedAt: now,
+  async getEntryStats(
+    userId: string,
+    bookId: string,
+    options: EntryQueryOptions = {},
+  ): Promise<EntryStats> {
+    const book = await readBook(this.session, bookId);
+    if (!book) return calculateStats([], []);
+
+    const entries = await this.listEntries(userId, bookId);
+    return calculateStats(
+      filterEntries({ ...book, entries }, options),
+      book.accounts,
+    );
+  }
+
+  watchEntries(
+    userId: string,
+    bookId: string,
+    callback: (entries: JournalEntryData[]) => void,
+  ): () => void {
+    return onSnapshot(
+      collection(this.session.db, `books/${bookId}/entries`),
+      (snap) => {
+        callback(
+          snap.docs
+            .map((docItem) => normalizeEntryDoc(docItem.id, docItem.data()))
+            .filter((entry) => !entry.deletedAt),
+        );
+      },
+      (error) => console.error("Failed to watch entries:", error),
+    );
+  }
+}
+
+/**
+ * Firestore Repository 工厂（云端账簿）
+ *
+ * 权限由 book-service 按 members 中的角色校验，Firestore 安全规则兜底
+ */
+export class FirestoreRepositoryFactory implements IRepositoryFactory {
+  private bookRepository: FirestoreBookRepository;
+  private accountRepository: FirestoreAccountRepository;
+  private entryRepository: FirestoreEntryRepository;
+
+  constructor(private db: Firestore) {
+    const session = new FirestoreSession(db);
+    this.bookRepository = new FirestoreBookRepository(session);
+    this.accountRepository = new FirestoreAccountRepository(session);
+    this.entryRepository = new FirestoreEntryRepository(session);
+  }
+
+  getBookRepository(): IBookRepository {
+    return this.bookRepository;
+  }
+
+  getAccountRepository(): IAccountRepository {
+    return this.accountRepository;
+  }
+
+  getEntryRepository(): IEntryRepository {
+    return this.entryRepository;
+  }
+
+  /**
+   * 每次尝试使用新的会话；Firestore 因冲突重试时 fn 会被再次调用，事务内再开事务直接执行
+   */
+  runTransaction<T>(
+    fn: (factory: IRepositoryFactory) => Promise<T>,
+  ): Promise<T> {
+    return runTransaction(this.db, async (tx) => {
+      const session = new FirestoreSession(this.db, tx);
+      const inTransaction: IRepositoryFactory = {
+        getBookRepository: () => new FirestoreBookRepository(session),
+        getAccountRepository: () => new FirestoreAccountRepository(session),
+        getEntryRepository: () => new FirestoreEntryRepository(session),
+        runTransaction: (nested) => nested(inTransaction),
+      };
+      const result = await fn(inTransaction);
+      session.commit();
+      return result;
     });
-    tx.set(doc(db, "books", params.bookId), { updatedAt: now }, { merge: true });
+  }
+}
 
-    return entry;
-  });
+let firestoreFactory: FirestoreRepositoryFactory | null = null;
+
+/**
+ * 获取云端（Firestore）Repository 工厂
+ */
+export function getFirestoreRepositoryFactory(): FirestoreRepositoryFactory {
+  if (!firestoreFactory) {
+    firestoreFactory = new FirestoreRepositoryFactory(getDB());
+  }
+  return firestoreFactory;
 }
 
 export async function createBookInvite(
@@ -463,7 +844,7 @@ export async function createBookInvite(
     inviterId: userId,
     inviteeEmail: params.inviteeEmail.toLowerCase(),
     role: params.role ?? "editor",
-    status: "pending",
+    status: "pending" as const,
     createdAt: now,
   };
 
@@ -475,9 +856,7 @@ export async function createBookInvite(
   return { id: inviteRef.id, ...inviteData };
 }
 
-export async function listInvitesForUser(
-  email: string,
-): Promise<BookInvite[]> {
+export async function listInvitesForUser(email: string): Promise<BookInvite[]> {
   const db = getDB();
   const normalized = email.toLowerCase();
   const snap = await getDocs(
@@ -496,10 +875,10 @@ export async function listInvitesForUser(
         role: (data.role as BookRole) ?? "editor",
         status: (data.status as BookInvite["status"]) ?? "pending",
         createdAt: normalizeTimestamp(data.createdAt) ?? now,
-      acceptedAt: normalizeTimestamp(data.acceptedAt),
-    };
-  })
-  .filter((invite) => invite.status === "pending");
+        acceptedAt: normalizeTimestamp(data.acceptedAt),
+      };
+    })
+    .filter((invite) => invite.status === "pending");
 }
 
 export async function acceptBookInvite(
@@ -507,11 +886,7 @@ export async function acceptBookInvite(
   invite: BookInvite,
 ): Promise<void> {
   const db = getDB();
-  const inviteRef = doc(
-    db,
-    `books/${invite.bookId}/invites`,
-    invite.id,
-  );
+  const inviteRef = doc(db, `books/${invite.bookId}/invites`, invite.id);
   const inboxRef = doc(db, "invites", invite.id);
   const memberRef = doc(db, `books/${invite.bookId}/members`, userId);
   const userBookRef = doc(db, `users/${userId}/books`, invite.bookId);
@@ -0,0 +1,114 @@
+/**
+ * 分录查询工具
+ *
+ * 各 Repository 实现共用的筛选、分页与统计（在内存中计算）
+ */
+
+import type {
+  AccountData,
+  BookData,
+  JournalEntryData,
+} from "~/lib/double-entry/types";
+import { AccountType, EntryLineType } from "~/lib/double-entry/types";
+import { isDebitIncreaseAccount } from "~/lib/double-entry/account";
+import { getEntryAmount } from "~/lib/double-entry/entry";
+import { queryEntries } from "~/lib/double-entry/query";
+import type { EntryQueryOptions, EntryStats, PaginatedResult } from "./types";
+
+const DEFAULT_PAGE_SIZE = 50;
+
+/**
+ * 按查询选项筛选未删除的分录
+ */
+export function filterEntries(
+  book: BookData,
+  options: EntryQueryOptions,
+): JournalEntryData[] {
+  const hasDateRange = options.startDate || options.endDate;
+  const active = { ...book, entries: book.entries.filter((e) => !e.deletedAt) };
+  return queryEntries(active, {
+    dateRange: hasDateRange
+      ? {
+          start: options.startDate ?? "0000-01-01",
+          end: options.endDate ?? "9999-12-31",
+        }
+      : undefined,
+    accountIds: options.accountIds,
+    tags: options.tags,
+    keyword: options.keyword,
+  });
+}
+
+/**
+ * 分页
+ */
+export function paginate<T>(
+  items: T[],
+  options: EntryQueryOptions,
+): PaginatedResult<T> {
+  const page = Math.max(1, options.page ?? 1);
+  const pageSize = Math.max(1, options.pageSize ?? DEFAULT_PAGE_SIZE);
+  const total = items.length;
+  const start = (page - 1) * pageSize;
+
+  return {
+    items: items.slice(start, start + pageSize),
+    total,
+    page,
+    pageSize,
+    totalPages: Math.ceil(total / pageSize),
+    hasMore: start + pageSize < total,
+  };
+}
+
+/**
+ * 统计收入、支出以及按账户、标签的金额
+ */
+export function calculateStats(
+  entries: JournalEntryData[],
+  accounts: AccountData[],
+): EntryStats {
+  const accountMap = new Map(accounts.map((a) => [a.id, a]));
+  const stats: EntryStats = {
+    totalCount: entries.length,
+    totalIncome: 0,
+    totalExpense: 0,
+    balance: 0,
+    byAccount: {},
+    byTag: {},
+  };
+
+  for (const entry of entries) {
+    for (const line of entry.lines) {
+      const account = accountMap.get(line.accountId);
+      if (!account) continue;
+
+      if (
+        account.type === AccountType.INCOME &&
+        line.type === EntryLineType.CREDIT
+      ) {
+        stats.totalIncome += line.amount;
+      } else if (
+        account.type === AccountType.EXPENSES &&
+        line.type === EntryLineType.DEBIT
+      ) {
+        stats.totalExpense += line.amount;
+      }
+
+      // 按账户统计余额变化
+      const isIncrease =
+        (line.type === EntryLineType.DEBIT) ===
+        isDebitIncreaseAccount(account.type);
+      const delta = isIncrease ? line.amount : -line.amount;
+      stats.byAccount[account.id] = (stats.byAccount[account.id] ?? 0) + delta;
+    }
+
+    const amount = getEntryAmount(entry);
+    for (const tag of entry.tags ?? []) {
+      stats.byTag[tag] = (stats.byTag[tag] ?? 0) + amount;
+    }
+  }
+
+  stats.balance = stats.totalIncome - stats.totalExpense;
+  return stats;
+}
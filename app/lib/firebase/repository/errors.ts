@@ -0,0 +1,51 @@
+/**
+ * Repository 错误类型
+ */
+
+import type { JournalEntryData } from "~/lib/double-entry/types";
+import { getEntryVersion } from "~/lib/double-entry/entry";
+
+/**
+ * 分录版本冲突：写入时分录已被他人修改或删除
+ */
+export class EntryConflictError extends Error {
+  readonly entryId: string;
+  /** 客户端提交时基于的版本 */
+  readonly expectedVersion: number;
+  /** 服务端当前分录（已删除时包含 deletedAt） */
+  readonly current: JournalEntryData;
+
+  constructor(params: {
+    entryId: string;
+    expectedVersion: number;
+    current: JournalEntryData;
+  }) {
+    super(`Entry ${params.entryId} was changed by someone else`);
+    this.name = "EntryConflictError";
+    this.entryId = params.entryId;
+    this.expectedVersion = params.expectedVersion;
+    this.current = params.current;
+  }
+}
+
+export function isEntryConflictError(
+  error: unknown,
+): error is EntryConflictError {
+  return error instanceof EntryConflictError;
+}
+
+/**
+ * 校验分录版本，不一致时抛出 EntryConflictError
+ */
+export function assertEntryVersion(
+  entry: JournalEntryData,
+  expectedVersion: number,
+) {
+  if (getEntryVersion(entry) !== expectedVersion) {
+    throw new EntryConflictError({
+      entryId: entry.id,
+      expectedVersion,
+      current: entry,
+    });
+  }
+}
@@ -7,12 +7,22 @@ import {
   doc,
   getDoc,
   setDoc,
+  onSnapshot,
+  runTransaction,
   Timestamp,
   type Firestore,
 } from "firebase/firestore";
 import { getApps } from "firebase/app";
-import type { Group, GroupsData } from "../../storage/types";
-import { DEFAULT_GROUPS_DATA } from "../../storage/types";
+import type {
+  AlertCondition,
+  AlertMode,
+  AlertsData,
+  Group,
+  GroupsData,
+  PriceAlert,
+} from "../../storage/types";
+import { DEFAULT_ALERTS_DATA, DEFAULT_GROUPS_DATA } from "../../storage/types";
+import { countActiveAlerts, normalizeAlertsData } from "../../alerts/evaluate";
 
 let db: Firestore | null = null;
 
@@ -93,6 +103,65 @@ export class GroupsRepository {
   async getLocalOnly(): Promise<GroupsData> {
     return this.getGroupsData();
   }
+
+  /**
+   * 获取价格提醒（与分组存放在同一集合）
+   */
+  async getAlertsData(): Promise<AlertsData> {
+    const db = getDB();
+    const docSnap = await getDoc(
+      doc(db, `users/${this.userId}/meta`, "alerts"),
+    );
+    return docSnap.exists()
+      ? normalizeAlertsData(docSnap.data())
+      : DEFAULT_ALERTS_DATA;
+  }
+
+  /**
+   * 在事务中修改价格提醒，避免覆盖服务端同时写入的触发记录
+   *
+   * update 返回 null 表示不需要保存
+   */
+  async updateAlertsData(
+    update: (data: AlertsData) => AlertsData | null,
+  ): Promise<AlertsData> {
+    const db = getDB();
+    const docRef = doc(db, `users/${this.userId}/meta`, "alerts");
+    return runTransaction(db, async (transaction) => {
+      const docSnap = await transaction.get(docRef);
+      const data = docSnap.exists()
+        ? normalizeAlertsData(docSnap.data())
+        : DEFAULT_ALERTS_DATA;
+      const next = update(data);
+      if (!next) return data;
+      transaction.set(docRef, {
+        alerts: next.alerts,
+        notifications: next.notifications,
+        // 启用的提醒数量，供服务端筛选
+        activeCount: countActiveAlerts(next),
+        updatedAt: Timestamp.now(),
+      });
+      return next;
+    });
+  }
+
+  /**
+   * 监听价格提醒变化（服务端触发提醒后实时收到）
+   */
+  watchAlertsData(callback: (data: AlertsData) => void): () => void {
+    const db = getDB();
+    return onSnapshot(
+      doc(db, `users/${this.userId}/meta`, "alerts"),
+      (docSnap) => {
+        callback(
+          docSnap.exists()
+            ? normalizeAlertsData(docSnap.data())
+            : DEFAULT_ALERTS_DATA,
+        );
+      },
+      (error) => console.error("Failed to watch alerts:", error),
+    );
+  }
 }
 
 // ============================================================================
@@ -232,3 +301,104 @@ export async function reorderSymbolsInGroup(
   }
   return data;
 }
+
+// ============================================================================
+// 价格提醒操作函数
+// ============================================================================
+
+export async function addAlert(
+  userId: string,
+  input: { symbol: string; condition: AlertCondition; mode: AlertMode },
+): Promise<AlertsData> {
+  const alert: PriceAlert = {
+    id: `alert-${generateId()}`,
+    symbol: input.symbol.toUpperCase(),
+    condition: input.condition,
+    mode: input.mode,
+    enabled: true,
+    snoozedUntil: null,
+    conditionMet: false,
+    lastTriggeredAt: null,
+    createdAt: new Date().toISOString(),
+  };
+  return new GroupsRepository(userId).updateAlertsData((data) => ({
+    ...data,
+    alerts: [...data.alerts, alert],
+  }));
+}
+
+export async function removeAlert(
+  userId: string,
+  alertId: string,
+): Promise<AlertsData> {
+  return new GroupsRepository(userId).updateAlertsData((data) => ({
+    ...data,
+    alerts: data.alerts.filter((alert) => alert.id !== alertId),
+  }));
+}
+
+/**
+ * 启用 / 停用提醒；重新启用时等条件重新满足才触发
+ */
+export async function setAlertEnabled(
+  userId: string,
+  alertId: string,
+  enabled: boolean,
+): Promise<AlertsData> {
+  return updateAlert(userId, alertId, (alert) => ({
+    ...alert,
+    enabled,
+    snoozedUntil: null,
+  }));
+}
+
+/**
+ * 暂停提醒到指定时间，传 null 取消暂停
+ */
+export async function snoozeAlert(
+  userId: string,
+  alertId: string,
+  until: string | null,
+): Promise<AlertsData> {
+  return updateAlert(userId, alertId, (alert) => ({
+    ...alert,
+    snoozedUntil: until,
+  }));
+}
+
+async function updateAlert(
+  userId: string,
+  alertId: string,
+  update: (alert: PriceAlert) => PriceAlert,
+): Promise<AlertsData> {
+  return new GroupsRepository(userId).updateAlertsData((data) => {
+    if (!data.alerts.some((alert) => alert.id === alertId)) return null;
+    return {
+      ...data,
+      alerts: data.alerts.map((alert) =>
+        alert.id === alertId ? update(alert) : alert,
+      ),
+    };
+  });
+}
+
+export async function markAlertNotificationsRead(
+  userId: string,
+): Promise<AlertsData> {
+  return new GroupsRepository(userId).updateAlertsData((data) => {
+    if (data.notifications.every((n) => n.read)) return null;
+    return {
+      ...data,
+      notifications: data.notifications.map((n) => ({ ...n, read: true })),
+    };
+  });
+}
+
+export async function clearAlertNotifications(
+  userId: string,
+): Promise<AlertsData> {
+  return new GroupsRepository(userId).updateAlertsData((data) => ({
+    ...data,
+    notifications: [],
+  }));
+}
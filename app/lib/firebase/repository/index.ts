@@ -3,4 +3,6 @@
  */
 
 export * from "./types";
+export * from "./errors";
 export * from "./accounting-repository";
+export * from "./memory-repository";
@@ -0,0 +1,541 @@
+/**
+ * 内存 Repository 实现
+ *
+ * 实现 IRepositoryFactory 的全部接口，数据保存在内存中，
+ * 可选持久化到 localStorage。用于离线模式和单元测试（无需 Firebase）。
+ */
+
+import type {
+  AccountData,
+  BookData,
+  Budget,
+  CategorizationRule,
+  EntryRevision,
+  ExchangeRate,
+  JournalEntryData,
+  PeriodClosing,
+  Reconciliation,
+  BalanceAssertion,
+  CorporateAction,
+  RecurringTemplate,
+} from "~/lib/double-entry/types";
+import type {
+  BookRole,
+  EntryQueryOptions,
+  EntryStats,
+  IAccountRepository,
+  IBookRepository,
+  IEntryRepository,
+  IRepositoryFactory,
+  PaginatedResult,
+} from "./types";
+import { calculateStats, filterEntries, paginate } from "./entry-query";
+
+// ============================================================================
+// 存储结构
+// ============================================================================
+
+type StoredBook = {
+  book: Omit<BookData, "accounts" | "entries">;
+  accounts: AccountData[];
+  entries: JournalEntryData[];
+  /** entryId -> 修订记录 */
+  revisions?: Record<string, EntryRevision[]>;
+};
+
+type MemoryState = {
+  /** userId -> bookId -> 账簿数据 */
+  users: Record<string, Record<string, StoredBook>>;
+};
+
+/**
+ * 持久化存储（localStorage 的最小子集）
+ */
+export type KeyValueStorage = Pick<Storage, "getItem" | "setItem">;
+
+export interface MemoryRepositoryOptions {
+  /** 持久化存储，不传则仅保存在内存中 */
+  storage?: KeyValueStorage | null;
+  /** 持久化使用的 key */
+  storageKey?: string;
+}
+
+const DEFAULT_STORAGE_KEY = "let-us-stock:accounting";
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+function upsertById<T extends { id: string }>(items: T[], item: T): T[] {
+  const index = items.findIndex((existing) => existing.id === item.id);
+  if (index === -1) return [...items, item];
+  const next = [...items];
+  next[index] = item;
+  return next;
+}
+
+/**
+ * 共享的内存存储，负责持久化与变更通知
+ */
+class MemoryStore {
+  private state: MemoryState = { users: {} };
+  private storage: KeyValueStorage | null;
+  private storageKey: string;
+  private entryWatchers = new Map<
+    string,
+    Set<(entries: JournalEntryData[]) => void>
+  >();
+
+  constructor(options: MemoryRepositoryOptions = {}) {
+    this.storage = options.storage ?? null;
+    this.storageKey = options.storageKey ?? DEFAULT_STORAGE_KEY;
+    this.load();
+  }
+
+  private load() {
+    if (!this.storage) return;
+    try {
+      const raw = this.storage.getItem(this.storageKey);
+      if (!raw) return;
+      const parsed = JSON.parse(raw) as Partial<MemoryState>;
+      this.state = { users: parsed.users ?? {} };
+    } catch (error) {
+      console.error("Failed to load local accounting data:", error);
+    }
+  }
+
+  private persist() {
+    if (!this.storage) return;
+    try {
+      this.storage.setItem(this.storageKey, JSON.stringify(this.state));
+    } catch (error) {
+      console.error("Failed to persist local accounting data:", error);
+    }
+  }
+
+  getBook(userId: string, bookId: string): StoredBook | null {
+    return this.state.users[userId]?.[bookId] ?? null;
+  }
+
+  /**
+   * 保存当前数据的副本，事务失败时用 restore 恢复
+   */
+  snapshot(): MemoryState {
+    return clone(this.state);
+  }
+
+  restore(state: MemoryState) {
+    this.state = state;
+    this.persist();
+    for (const key of this.entryWatchers.keys()) {
+      const [userId, bookId] = key.split("/");
+      this.notifyEntries(userId, bookId);
+    }
+  }
+
+  requireBook(userId: string, bookId: string): StoredBook {
+    const stored = this.getBook(userId, bookId);
+    if (!stored) {
+      throw new Error(`Book ${bookId} not found`);
+    }
+    return stored;
+  }
+
+  setBook(userId: string, bookId: string, stored: StoredBook) {
+    const books = this.state.users[userId] ?? {};
+    books[bookId] = stored;
+    this.state.users[userId] = books;
+    this.persist();
+  }
+
+  removeBook(userId: string, bookId: string) {
+    const books = this.state.users[userId];
+    if (!books?.[bookId]) return;
+    delete books[bookId];
+    this.persist();
+    this.notifyEntries(userId, bookId);
+  }
+
+  /**
+   * 修改账簿数据并持久化
+   */
+  update(
+    userId: string,
+    bookId: string,
+    updater: (stored: StoredBook) => StoredBook,
+    options: { entriesChanged?: boolean } = {},
+  ) {
+    const stored = this.requireBook(userId, bookId);
+    this.setBook(userId, bookId, updater(stored));
+    if (options.entriesChanged) {
+      this.notifyEntries(userId, bookId);
+    }
+  }
+
+  /**
+   * 组装成完整账簿（供 double-entry 查询函数使用）
+   */
+  toBookData(stored: StoredBook): BookData {
+    return {
+      ...stored.book,
+      accounts: stored.accounts,
+      entries: stored.entries,
+    };
+  }
+
+  watchEntries(
+    userId: string,
+    bookId: string,
+    callback: (entries: JournalEntryData[]) => void,
+  ): () => void {
+    const key = `${userId}/${bookId}`;
+    const watchers = this.entryWatchers.get(key) ?? new Set();
+    watchers.add(callback);
+    this.entryWatchers.set(key, watchers);
+
+    callback(this.listEntries(userId, bookId));
+
+    return () => {
+      watchers.delete(callback);
+      if (watchers.size === 0) {
+        this.entryWatchers.delete(key);
+      }
+    };
+  }
+
+  listEntries(userId: string, bookId: string): JournalEntryData[] {
+    const stored = this.getBook(userId, bookId);
+    if (!stored) return [];
+    return clone(filterEntries(this.toBookData(stored), {}));
+  }
+
+  private notifyEntries(userId: string, bookId: string) {
+    const watchers = this.entryWatchers.get(`${userId}/${bookId}`);
+    if (!watchers || watchers.size === 0) return;
+    const entries = this.listEntries(userId, bookId);
+    for (const callback of watchers) {
+      callback(clone(entries));
+    }
+  }
+}
+
+// ============================================================================
+// Repository 实现
+// ============================================================================
+
+export class MemoryBookRepository implements IBookRepository {
+  constructor(private store: MemoryStore) {}
+
+  async getBookMeta(userId: string, bookId: string) {
+    const stored = this.store.getBook(userId, bookId);
+    if (!stored) return null;
+    return {
+      commonTags: clone(stored.book.commonTags),
+      exchangeRates: clone(stored.book.exchangeRates),
+      rules: clone(stored.book.rules ?? []),
+      recurring: clone(stored.book.recurring ?? []),
+      budgets: clone(stored.book.budgets ?? []),
+      closings: clone(stored.book.closings ?? []),
+      reconciliations: clone(stored.book.reconciliations ?? []),
+      balanceAssertions: clone(stored.book.balanceAssertions ?? []),
+      corporateActions: clone(stored.book.corporateActions ?? []),
+      updatedAt: stored.book.updatedAt ?? null,
+    };
+  }
+
+  async saveBookMeta(
+    userId: string,
+    bookId: string,
+    meta: {
+      commonTags: string[];
+      exchangeRates: ExchangeRate[];
+      rules?: CategorizationRule[];
+      recurring?: RecurringTemplate[];
+      budgets?: Budget[];
+      closings?: PeriodClosing[];
+      reconciliations?: Reconciliation[];
+      balanceAssertions?: BalanceAssertion[];
+      corporateActions?: CorporateAction[];
+    },
+  ) {
+    const now = new Date().toISOString();
+    this.store.update(userId, bookId, (stored) => ({
+      ...stored,
+      book: {
+        ...stored.book,
+        commonTags: clone(meta.commonTags),
+        exchangeRates: clone(meta.exchangeRates),
+        rules: clone(meta.rules ?? stored.book.rules ?? []),
+        recurring: clone(meta.recurring ?? stored.book.recurring ?? []),
+        budgets: clone(meta.budgets ?? stored.book.budgets ?? []),
+        closings: clone(meta.closings ?? stored.book.closings ?? []),
+        reconciliations: clone(
+          meta.reconciliations ?? stored.book.reconciliations ?? [],
+        ),
+        balanceAssertions: clone(
+          meta.balanceAssertions ?? stored.book.balanceAssertions ?? [],
+        ),
+        corporateActions: clone(
+          meta.corporateActions ?? stored.book.corporateActions ?? [],
+        ),
+        updatedAt: now,
+      },
+    }));
+  }
+
+  async getBook(userId: string, bookId: string): Promise<BookData | null> {
+    const stored = this.store.getBook(userId, bookId);
+    if (!stored) return null;
+    return clone({ ...stored.book, accounts: stored.accounts, entries: [] });
+  }
+
+  /**
+   * 保存账簿信息和账户；分录按 ID 合并写入，不会删除已有分录
+   */
+  async saveBook(userId: string, book: BookData) {
+    const { accounts, entries, ...meta } = clone(book);
+    const existing = this.store.getBook(userId, book.id);
+    const mergedEntries = entries.reduce(
+      (list, entry) => upsertById(list, entry),
+      existing?.entries ?? [],
+    );
+
+    this.store.setBook(userId, book.id, {
+      book: meta,
+      accounts,
+      entries: mergedEntries,
+      revisions: existing?.revisions,
+    });
+  }
+
+  async deleteBook(userId: string, bookId: string) {
+    this.store.removeBook(userId, bookId);
+  }
+
+  /**
+   * 本地账簿只有一个用户，存在即为 Owner
+   */
+  async getMemberRole(
+    userId: string,
+    bookId: string,
+  ): Promise<BookRole | null> {
+    return this.store.getBook(userId, bookId) ? "owner" : null;
+  }
+}
+
+export class MemoryAccountRepository implements IAccountRepository {
+  constructor(private store: MemoryStore) {}
+
+  async getAccounts(userId: string, bookId: string): Promise<AccountData[]> {
+    const stored = this.store.getBook(userId, bookId);
+    return stored ? clone(stored.accounts) : [];
+  }
+
+  async saveAccount(userId: string, bookId: string, account: AccountData) {
+    await this.saveAccounts(userId, bookId, [account]);
+  }
+
+  async saveAccounts(userId: string, bookId: string, accounts: AccountData[]) {
+    this.store.update(userId, bookId, (stored) => ({
+      ...stored,
+      accounts: clone(accounts).reduce(upsertById, stored.accounts),
+      book: { ...stored.book, updatedAt: new Date().toISOString() },
+    }));
+  }
+
+  async deleteAccount(userId: string, bookId: string, accountId: string) {
+    this.store.update(userId, bookId, (stored) => ({
+      ...stored,
+      accounts: stored.accounts.filter((a) => a.id !== accountId),
+    }));
+  }
+}
+
+export class MemoryEntryRepository implements IEntryRepository {
+  constructor(private store: MemoryStore) {}
+
+  async queryEntries(
+    userId: string,
+    bookId: string,
+    options: EntryQueryOptions = {},
+  ): Promise<PaginatedResult<JournalEntryData>> {
+    const stored = this.store.getBook(userId, bookId);
+    if (!stored) return paginate([], options);
+
+    const entries = filterEntries(this.store.toBookData(stored), options);
+    return clone(paginate(entries, options));
+  }
+
+  async listEntries(
+    userId: string,
+    bookId: string,
+  ): Promise<JournalEntryData[]> {
+    return this.store.listEntries(userId, bookId);
+  }
+
+  async getEntry(
+    userId: string,
+    bookId: string,
+    entryId: string,
+  ): Promise<JournalEntryData | null> {
+    const stored = this.store.getBook(userId, bookId);
+    const entry = stored?.entries.find((e) => e.id === entryId);
+    return entry ? clone(entry) : null;
+  }
+
+  async saveEntry(userId: string, bookId: string, entry: JournalEntryData) {
+    await this.saveEntries(userId, bookId, [entry]);
+  }
+
+  async saveEntries(
+    userId: string,
+    bookId: string,
+    entries: JournalEntryData[],
+  ) {
+    this.store.update(
+      userId,
+      bookId,
+      (stored) => ({
+        ...stored,
+        entries: clone(entries).reduce(upsertById, stored.entries),
+        book: { ...stored.book, updatedAt: new Date().toISOString() },
+      }),
+      { entriesChanged: true },
+    );
+  }
+
+  async deleteEntry(userId: string, bookId: string, entryId: string) {
+    this.store.update(
+      userId,
+      bookId,
+      (stored) => ({
+        ...stored,
+        entries: stored.entries.filter((e) => e.id !== entryId),
+        book: { ...stored.book, updatedAt: new Date().toISOString() },
+      }),
+      { entriesChanged: true },
+    );
+  }
+
+  async getRevisions(
+    userId: string,
+    bookId: string,
+    entryId: string,
+  ): Promise<EntryRevision[]> {
+    const stored = this.store.getBook(userId, bookId);
+    // 按写入顺序保存，倒序即为最新在前
+    return clone(stored?.revisions?.[entryId] ?? []).reverse();
+  }
+
+  async saveRevision(userId: string, bookId: string, revision: EntryRevision) {
+    this.store.update(userId, bookId, (stored) => {
+      const revisions = stored.revisions ?? {};
+      return {
+        ...stored,
+        revisions: {
+          ...revisions,
+          [revision.entryId]: upsertById(
+            revisions[revision.entryId] ?? [],
+            clone(revision),
+          ),
+        },
+      };
+    });
+  }
+
+  async getEntryStats(
+    userId: string,
+    bookId: string,
+    options: EntryQueryOptions = {},
+  ): Promise<EntryStats> {
+    const stored = this.store.getBook(userId, bookId);
+    if (!stored) return calculateStats([], []);
+
+    const entries = filterEntries(this.store.toBookData(stored), options);
+    return calculateStats(entries, stored.accounts);
+  }
+
+  watchEntries(
+    userId: string,
+    bookId: string,
+    callback: (entries: JournalEntryData[]) => void,
+  ): () => void {
+    return this.store.watchEntries(userId, bookId, callback);
+  }
+}
+
+/**
+ * 内存 Repository 工厂
+ */
+export class MemoryRepositoryFactory implements IRepositoryFactory {
+  private store: MemoryStore;
+  private bookRepository: MemoryBookRepository;
+  private accountRepository: MemoryAccountRepository;
+  private entryRepository: MemoryEntryRepository;
+  /** 事务依次执行，前一个结束后才开始下一个 */
+  private transactions: Promise<unknown> = Promise.resolve();
+
+  constructor(options: MemoryRepositoryOptions = {}) {
+    this.store = new MemoryStore(options);
+    this.bookRepository = new MemoryBookRepository(this.store);
+    this.accountRepository = new MemoryAccountRepository(this.store);
+    this.entryRepository = new MemoryEntryRepository(this.store);
+  }
+
+  getBookRepository(): IBookRepository {
+    return this.bookRepository;
+  }
+
+  getAccountRepository(): IAccountRepository {
+    return this.accountRepository;
+  }
+
+  getEntryRepository(): IEntryRepository {
+    return this.entryRepository;
+  }
+
+  /**
+   * 事务失败时恢复到开始前的数据；事务内再开事务直接执行
+   */
+  runTransaction<T>(
+    fn: (factory: IRepositoryFactory) => Promise<T>,
+  ): Promise<T> {
+    const inTransaction: IRepositoryFactory = {
+      getBookRepository: () => this.bookRepository,
+      getAccountRepository: () => this.accountRepository,
+      getEntryRepository: () => this.entryRepository,
+      runTransaction: (nested) => nested(inTransaction),
+    };
+    const run = this.transactions.then(async () => {
+      const snapshot = this.store.snapshot();
+      try {
+        return await fn(inTransaction);
+      } catch (error) {
+        this.store.restore(snapshot);
+        throw error;
+      }
+    });
+    this.transactions = run.catch(() => undefined);
+    return run;
+  }
+}
+
+let localFactory: MemoryRepositoryFactory | null = null;
+
+/**
+ * 获取本地（localStorage 持久化）Repository 工厂
+ *
+ * 服务端渲染或 localStorage 不可用时退化为纯内存存储
+ */
+export function getLocalRepositoryFactory(): MemoryRepositoryFactory {
+  if (!localFactory) {
+    let storage: KeyValueStorage | null = null;
+    try {
+      storage = typeof localStorage === "undefined" ? null : localStorage;
+    } catch {
+      storage = null;
+    }
+    localFactory = new MemoryRepositoryFactory({ storage });
+  }
+  return localFactory;
+}
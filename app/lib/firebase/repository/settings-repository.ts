@@ -0,0 +1,60 @@
+/**
+ * 用户设置 Repository
+ */
+
+import {
+  getFirestore,
+  doc,
+  getDoc,
+  setDoc,
+  Timestamp,
+  type Firestore,
+} from "firebase/firestore";
+import { getApps } from "firebase/app";
+import type { IndicatorSettings } from "../../storage/types";
+import { normalizeIndicatorSettings } from "../../indicators/settings";
+
+let db: Firestore | null = null;
+
+function getDB(): Firestore {
+  if (!db) {
+    const app = getApps()[0];
+    db = getFirestore(app);
+  }
+  return db;
+}
+
+// ============================================================================
+// 设置 Repository
+// ============================================================================
+
+export class SettingsRepository {
+  private userId: string;
+
+  constructor(userId: string) {
+    this.userId = userId;
+  }
+
+  /**
+   * 获取图表技术指标设置
+   */
+  async getIndicatorSettings(): Promise<IndicatorSettings> {
+    const db = getDB();
+    const docSnap = await getDoc(
+      doc(db, `users/${this.userId}/meta`, "settings"),
+    );
+    return normalizeIndicatorSettings(docSnap.data()?.indicators);
+  }
+
+  /**
+   * 保存图表技术指标设置（合并写入，不影响其他设置）
+   */
+  async saveIndicatorSettings(settings: IndicatorSettings): Promise<void> {
+    const db = getDB();
+    await setDoc(
+      doc(db, `users/${this.userId}/meta`, "settings"),
+      { indicators: settings, updatedAt: Timestamp.now() },
+      { merge: true },
+    );
+  }
+}
@@ -9,8 +9,21 @@ import type {
   AccountData,
   JournalEntryData,
   ExchangeRate,
+  EntryRevision,
+  CategorizationRule,
+  RecurringTemplate,
+  Budget,
+  PeriodClosing,
+  Reconciliation,
+  BalanceAssertion,
+  CorporateAction,
 } from "~/lib/double-entry/types";
 
+/**
+ * 账簿成员角色
+ */
+export type BookRole = "owner" | "editor" | "viewer";
+
 // ============================================================================
 // 查询选项
 // ============================================================================
@@ -80,6 +93,13 @@ export interface IBookRepository {
   ): Promise<{
     commonTags: string[];
     exchangeRates: ExchangeRate[];
+    rules: CategorizationRule[];
+    recurring: RecurringTemplate[];
+    budgets: Budget[];
+    closings: PeriodClosing[];
+    reconciliations: Reconciliation[];
+    balanceAssertions: BalanceAssertion[];
+    corporateActions: CorporateAction[];
     updatedAt: string | null;
   } | null>;
 
@@ -87,7 +107,17 @@ export interface IBookRepository {
   saveBookMeta(
     userId: string,
     bookId: string,
-    meta: { commonTags: string[]; exchangeRates: ExchangeRate[] },
+    meta: {
+      commonTags: string[];
+      exchangeRates: ExchangeRate[];
+      rules?: CategorizationRule[];
+      recurring?: RecurringTemplate[];
+      budgets?: Budget[];
+      closings?: PeriodClosing[];
+      reconciliations?: Reconciliation[];
+      balanceAssertions?: BalanceAssertion[];
+      corporateActions?: CorporateAction[];
+    },
   ): Promise<void>;
 
   /** 获取单个账簿（不包含分录） */
@@ -98,6 +128,9 @@ export interface IBookRepository {
 
   /** 删除账簿 */
   deleteBook(userId: string, bookId: string): Promise<void>;
+
+  /** 获取用户在账簿中的角色（不是成员时返回 null） */
+  getMemberRole(userId: string, bookId: string): Promise<BookRole | null>;
 }
 
 /**
@@ -108,13 +141,25 @@ export interface IAccountRepository {
   getAccounts(userId: string, bookId: string): Promise<AccountData[]>;
 
   /** 保存账户 */
-  saveAccount(userId: string, bookId: string, account: AccountData): Promise<void>;
+  saveAccount(
+    userId: string,
+    bookId: string,
+    account: AccountData,
+  ): Promise<void>;
 
   /** 批量保存账户 */
-  saveAccounts(userId: string, bookId: string, accounts: AccountData[]): Promise<void>;
+  saveAccounts(
+    userId: string,
+    bookId: string,
+    accounts: AccountData[],
+  ): Promise<void>;
 
   /** 删除账户 */
-  deleteAccount(userId: string, bookId: string, accountId: string): Promise<void>;
+  deleteAccount(
+    userId: string,
+    bookId: string,
+    accountId: string,
+  ): Promise<void>;
 }
 
 /**
@@ -128,6 +173,9 @@ export interface IEntryRepository {
     options?: EntryQueryOptions,
   ): Promise<PaginatedResult<JournalEntryData>>;
 
+  /** 获取全部未删除的分录 */
+  listEntries(userId: string, bookId: string): Promise<JournalEntryData[]>;
+
   /** 获取单条分录 */
   getEntry(
     userId: string,
@@ -136,14 +184,36 @@ export interface IEntryRepository {
   ): Promise<JournalEntryData | null>;
 
   /** 保存分录 */
-  saveEntry(userId: string, bookId: string, entry: JournalEntryData): Promise<void>;
+  saveEntry(
+    userId: string,
+    bookId: string,
+    entry: JournalEntryData,
+  ): Promise<void>;
 
   /** 批量保存分录 */
-  saveEntries(userId: string, bookId: string, entries: JournalEntryData[]): Promise<void>;
+  saveEntries(
+    userId: string,
+    bookId: string,
+    entries: JournalEntryData[],
+  ): Promise<void>;
 
   /** 删除分录 */
   deleteEntry(userId: string, bookId: string, entryId: string): Promise<void>;
 
+  /** 获取分录修订历史（按时间倒序） */
+  getRevisions(
+    userId: string,
+    bookId: string,
+    entryId: string,
+  ): Promise<EntryRevision[]>;
+
+  /** 保存修订记录 */
+  saveRevision(
+    userId: string,
+    bookId: string,
+    revision: EntryRevision,
+  ): Promise<void>;
+
   /** 获取分录统计 */
   getEntryStats(
     userId: string,
@@ -166,4 +236,12 @@ export interface IRepositoryFactory {
   getBookRepository(): IBookRepository;
   getAccountRepository(): IAccountRepository;
   getEntryRepository(): IEntryRepository;
+
+  /**
+   * 在事务中执行 fn：fn 通过传入的工厂读写，全部写入一起提交，
+   * fn 抛错时不写入。已在事务中时直接执行
+   */
+  runTransaction<T>(
+    fn: (factory: IRepositoryFactory) => Promise<T>,
+  ): Promise<T>;
 }
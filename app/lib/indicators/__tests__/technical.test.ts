@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  bollingerBands,
+  ema,
+  macd,
+  rsi,
+  sma,
+  vwap,
+  type IndicatorSeries,
+} from "../technical";
+
+function rounded(series: IndicatorSeries, digits = 4): IndicatorSeries {
+  return series.map((value) =>
+    value === null ? null : Number(value.toFixed(digits)),
+  );
+}
+
+describe("moving averages", () => {
+  it("computes SMA and EMA aligned to the input", () => {
+    expect(sma([1, 2, 3, 4, 5], 3)).toEqual([null, null, 2, 3, 4]);
+    // EMA 以 SMA 为起点，k = 2 / (3 + 1)
+    expect(ema([1, 2, 3, 4, 5], 3)).toEqual([null, null, 2, 3, 4]);
+    expect(ema([2, 4, 6, 2, 2], 3)).toEqual([null, null, 4, 3, 2.5]);
+    expect(ema([1, 2], 3)).toEqual([null, null]);
+  });
+
+  it("computes Bollinger Bands with population deviation", () => {
+    const bands = bollingerBands([1, 2, 3, 4, 5], 3, 2);
+    expect(bands.middle).toEqual([null, null, 2, 3, 4]);
+    expect(rounded(bands.upper)).toEqual([null, null, 3.633, 4.633, 5.633]);
+    expect(rounded(bands.lower)).toEqual([null, null, 0.367, 1.367, 2.367]);
+  });
+});
+
+describe("oscillators", () => {
+  it("computes RSI with Wilder smoothing", () => {
+    expect(rsi([1, 2, 1, 2, 1], 2)).toEqual([null, null, 50, 75, 37.5]);
+    // 只涨不跌为 100，不变为 50
+    expect(rsi([1, 2, 3, 4], 2)[3]).toBe(100);
+    expect(rsi([5, 5, 5], 2)[2]).toBe(50);
+  });
+
+  it("computes MACD, signal and histogram", () => {
+    const result = macd([1, 2, 3, 4, 5, 6], 2, 3, 2);
+    expect(result.macd).toEqual([null, null, 0.5, 0.5, 0.5, 0.5]);
+    expect(result.signal).toEqual([null, null, null, 0.5, 0.5, 0.5]);
+    expect(result.histogram).toEqual([null, null, null, 0, 0, 0]);
+  });
+});
+
+describe("VWAP", () => {
+  const bars = [
+    {
+      date: "2026-10-12T14:00:00.000Z",
+      high: 11,
+      low: 9,
+      close: 10,
+      volume: 100,
+    },
+    {
+      date: "2026-10-12T15:00:00.000Z",
+      high: 13,
+      low: 11,
+      close: 12,
+      volume: 300,
+    },
+    {
+      date: "2026-10-13T14:00:00.000Z",
+      high: 21,
+      low: 19,
+      close: 20,
+      volume: 100,
+    },
+    {
+      date: "2026-10-13T15:00:00.000Z",
+      high: null,
+      low: null,
+      close: null,
+      volume: null,
+    },
+  ];
+
+  it("accumulates typical price weighted by volume", () => {
+    expect(vwap(bars)).toEqual([10, 11.5, 13.2, 13.2]);
+  });
+
+  it("resets each day for intraday bars", () => {
+    expect(vwap(bars, { resetDaily: true })).toEqual([10, 11.5, 20, 20]);
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * 技术指标设置
+ */
+
+import type { IndicatorSettings, OscillatorType } from "~/lib/storage/types";
+import { DEFAULT_INDICATOR_SETTINGS } from "~/lib/storage/types";
+
+const OSCILLATORS: OscillatorType[] = ["none", "rsi", "macd"];
+
+/** 周期参数的取值范围 */
+export const MIN_PERIOD = 2;
+export const MAX_PERIOD = 200;
+
+function toPeriod(value: unknown, fallback: number): number {
+  if (typeof value !== "number" || !Number.isFinite(value)) return fallback;
+  return Math.min(MAX_PERIOD, Math.max(MIN_PERIOD, Math.round(value)));
+}
+
+/**
+ * 存储的设置转换为 IndicatorSettings：缺少或无效的字段使用默认值
+ */
+export function normalizeIndicatorSettings(data: unknown): IndicatorSettings {
+  const defaults = DEFAULT_INDICATOR_SETTINGS;
+  if (!data || typeof data !== "object") return defaults;
+  const raw = data as Partial<Record<keyof IndicatorSettings, unknown>>;
+  const overlays = (raw.overlays ?? {}) as Record<string, unknown>;
+  const multiplier = raw.bollingerMultiplier;
+
+  return {
+    overlays: {
+      sma: overlays.sma === true,
+      ema: overlays.ema === true,
+      bollinger: overlays.bollinger === true,
+      vwap: overlays.vwap === true,
+    },
+    oscillator: OSCILLATORS.includes(raw.oscillator as OscillatorType)
+      ? (raw.oscillator as OscillatorType)
+      : defaults.oscillator,
+    smaPeriod: toPeriod(raw.smaPeriod, defaults.smaPeriod),
+    emaPeriod: toPeriod(raw.emaPeriod, defaults.emaPeriod),
+    bollingerPeriod: toPeriod(raw.bollingerPeriod, defaults.bollingerPeriod),
+    bollingerMultiplier:
+      typeof multiplier === "number" && multiplier > 0 && multiplier <= 5
+        ? multiplier
+        : defaults.bollingerMultiplier,
+    rsiPeriod: toPeriod(raw.rsiPeriod, defaults.rsiPeriod),
+    macdFast: toPeriod(raw.macdFast, defaults.macdFast),
+    macdSlow: toPeriod(raw.macdSlow, defaults.macdSlow),
+    macdSignal: toPeriod(raw.macdSignal, defaults.macdSignal),
+  };
+}
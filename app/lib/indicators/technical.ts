@@ -0,0 +1,228 @@
+/**
+ * 技术指标
+ *
+ * 输入按时间升序排列，输出与输入等长，数据不足的位置为 null，便于与
+ * K 线按索引对齐绘制。
+ */
+
+import type { IndicatorSettings } from "~/lib/storage/types";
+
+export type IndicatorSeries = (number | null)[];
+
+/**
+ * 计算 VWAP 所需的 K 线字段（/api/chart 返回的 OHLCV）
+ */
+export interface IndicatorBar {
+  date: string;
+  high: number | null;
+  low: number | null;
+  close: number | null;
+  volume: number | null;
+}
+
+/**
+ * 简单移动平均
+ */
+export function sma(values: number[], period: number): IndicatorSeries {
+  const result: IndicatorSeries = new Array(values.length).fill(null);
+  if (period <= 0) return result;
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) {
+    sum += values[i];
+    if (i >= period) sum -= values[i - period];
+    if (i >= period - 1) result[i] = sum / period;
+  }
+  return result;
+}
+
+/**
+ * 指数移动平均，以前 period 个值的简单平均作为起点
+ */
+export function ema(values: number[], period: number): IndicatorSeries {
+  const result: IndicatorSeries = new Array(values.length).fill(null);
+  if (period <= 0 || values.length < period) return result;
+  const k = 2 / (period + 1);
+  let previous = values.slice(0, period).reduce((a, b) => a + b, 0) / period;
+  result[period - 1] = previous;
+  for (let i = period; i < values.length; i++) {
+    previous = values[i] * k + previous * (1 - k);
+    result[i] = previous;
+  }
+  return result;
+}
+
+/**
+ * 布林带：中轨为 SMA，上下轨为中轨 ± multiplier 倍标准差（总体标准差）
+ */
+export function bollingerBands(
+  values: number[],
+  period = 20,
+  multiplier = 2,
+): { middle: IndicatorSeries; upper: IndicatorSeries; lower: IndicatorSeries } {
+  const middle = sma(values, period);
+  const upper: IndicatorSeries = new Array(values.length).fill(null);
+  const lower: IndicatorSeries = new Array(values.length).fill(null);
+  for (let i = period - 1; i < values.length; i++) {
+    const mean = middle[i];
+    if (mean === null) continue;
+    let variance = 0;
+    for (let j = i - period + 1; j <= i; j++) {
+      variance += (values[j] - mean) ** 2;
+    }
+    const deviation = Math.sqrt(variance / period) * multiplier;
+    upper[i] = mean + deviation;
+    lower[i] = mean - deviation;
+  }
+  return { middle, upper, lower };
+}
+
+/**
+ * 相对强弱指数（Wilder 平滑），取值 0-100
+ */
+export function rsi(values: number[], period = 14): IndicatorSeries {
+  const result: IndicatorSeries = new Array(values.length).fill(null);
+  if (period <= 0 || values.length <= period) return result;
+
+  let gain = 0;
+  let loss = 0;
+  for (let i = 1; i <= period; i++) {
+    const change = values[i] - values[i - 1];
+    if (change > 0) gain += change;
+    else loss -= change;
+  }
+  gain /= period;
+  loss /= period;
+  result[period] = toRsi(gain, loss);
+
+  for (let i = period + 1; i < values.length; i++) {
+    const change = values[i] - values[i - 1];
+    gain = (gain * (period - 1) + Math.max(change, 0)) / period;
+    loss = (loss * (period - 1) + Math.max(-change, 0)) / period;
+    result[i] = toRsi(gain, loss);
+  }
+  return result;
+}
+
+function toRsi(gain: number, loss: number): number {
+  if (loss === 0) return gain === 0 ? 50 : 100;
+  return 100 - 100 / (1 + gain / loss);
+}
+
+/**
+ * MACD：快慢 EMA 之差，signal 为 MACD 的 EMA，histogram 为两者之差
+ */
+export function macd(
+  values: number[],
+  fast = 12,
+  slow = 26,
+  signalPeriod = 9,
+): {
+  macd: IndicatorSeries;
+  signal: IndicatorSeries;
+  histogram: IndicatorSeries;
+} {
+  const fastLine = ema(values, fast);
+  const slowLine = ema(values, slow);
+  const macdLine: IndicatorSeries = values.map((_, i) => {
+    const a = fastLine[i];
+    const b = slowLine[i];
+    return a === null || b === null ? null : a - b;
+  });
+
+  // signal 从 MACD 第一个有值的位置开始计算
+  const start = macdLine.findIndex((value) => value !== null);
+  const signal: IndicatorSeries = new Array(values.length).fill(null);
+  if (start !== -1) {
+    const tail = ema(macdLine.slice(start) as number[], signalPeriod);
+    tail.forEach((value, i) => {
+      signal[start + i] = value;
+    });
+  }
+  const histogram: IndicatorSeries = macdLine.map((value, i) => {
+    const s = signal[i];
+    return value === null || s === null ? null : value - s;
+  });
+  return { macd: macdLine, signal, histogram };
+}
+
+/**
+ * 成交量加权平均价，使用典型价格 (high + low + close) / 3
+ *
+ * resetDaily 为 true 时按日期（UTC）每日重新累计，适用于日内 K 线；
+ * 否则从第一根 K 线开始累计
+ */
+export function vwap(
+  bars: IndicatorBar[],
+  options: { resetDaily?: boolean } = {},
+): IndicatorSeries {
+  const result: IndicatorSeries = [];
+  let day = "";
+  let volumeSum = 0;
+  let valueSum = 0;
+  for (const bar of bars) {
+    if (options.resetDaily && bar.date.slice(0, 10) !== day) {
+      day = bar.date.slice(0, 10);
+      volumeSum = 0;
+      valueSum = 0;
+    }
+    if (bar.close !== null) {
+      const typical =
+        ((bar.high ?? bar.close) + (bar.low ?? bar.close) + bar.close) / 3;
+      const volume = bar.volume ?? 0;
+      volumeSum += volume;
+      valueSum += typical * volume;
+    }
+    result.push(volumeSum > 0 ? valueSum / volumeSum : null);
+  }
+  return result;
+}
+
+// ============================================================================
+// 按设置计算
+// ============================================================================
+
+/**
+ * 图表需要绘制的指标，未启用的为 undefined
+ */
+export interface ChartIndicators {
+  sma?: IndicatorSeries;
+  ema?: IndicatorSeries;
+  bollinger?: ReturnType<typeof bollingerBands>;
+  vwap?: IndicatorSeries;
+  rsi?: IndicatorSeries;
+  macd?: ReturnType<typeof macd>;
+}
+
+/**
+ * 按指标设置计算启用的指标；bars 中 close 为 null 的 K 线应事先过滤
+ */
+export function computeIndicators(
+  bars: IndicatorBar[],
+  settings: IndicatorSettings,
+  options: { resetDaily?: boolean } = {},
+): ChartIndicators {
+  const closes = bars.map((bar) => bar.close ?? 0);
+  const { overlays, oscillator } = settings;
+  return {
+    sma: overlays.sma ? sma(closes, settings.smaPeriod) : undefined,
+    ema: overlays.ema ? ema(closes, settings.emaPeriod) : undefined,
+    bollinger: overlays.bollinger
+      ? bollingerBands(
+          closes,
+          settings.bollingerPeriod,
+          settings.bollingerMultiplier,
+        )
+      : undefined,
+    vwap: overlays.vwap ? vwap(bars, options) : undefined,
+    rsi: oscillator === "rsi" ? rsi(closes, settings.rsiPeriod) : undefined,
+    macd:
+      oscillator === "macd"
+        ? macd(
+            closes,
+            settings.macdFast,
+            settings.macdSlow,
+            settings.macdSignal,
+          )
+        : undefined,
+  };
+}
@@ -0,0 +1,76 @@
+/**
+ * 技术指标设置 React Hook
+ *
+ * 登录后保存到用户设置（Firestore），未登录时保存到 localStorage
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useAuth } from "~/lib/firebase/auth-context";
+import { SettingsRepository } from "~/lib/firebase/repository/settings-repository";
+import type { IndicatorSettings } from "~/lib/storage/types";
+import { DEFAULT_INDICATOR_SETTINGS } from "~/lib/storage/types";
+import { normalizeIndicatorSettings } from "./settings";
+
+const INDICATOR_SETTINGS_KEY = "indicator-settings";
+
+function loadLocalSettings(): IndicatorSettings {
+  try {
+    const saved = localStorage.getItem(INDICATOR_SETTINGS_KEY);
+    return normalizeIndicatorSettings(saved ? JSON.parse(saved) : null);
+  } catch {
+    return DEFAULT_INDICATOR_SETTINGS;
+  }
+}
+
+export function useIndicatorSettings() {
+  const { user, isAuthenticated, isLoading: isAuthLoading } = useAuth();
+  const userId = isAuthenticated && user ? user.id : null;
+  const userIdRef = useRef(userId);
+  userIdRef.current = userId;
+
+  const [settings, setSettings] = useState<IndicatorSettings>(
+    DEFAULT_INDICATOR_SETTINGS,
+  );
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+
+  useEffect(() => {
+    if (isAuthLoading) return;
+    if (!userId) {
+      setSettings(loadLocalSettings());
+      return;
+    }
+    let cancelled = false;
+    new SettingsRepository(userId)
+      .getIndicatorSettings()
+      .then((loaded) => {
+        if (!cancelled) setSettings(loaded);
+      })
+      .catch((err) => console.error("Failed to load indicator settings:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, isAuthLoading]);
+
+  const updateSettings = useCallback(
+    (update: (prev: IndicatorSettings) => IndicatorSettings) => {
+      const next = normalizeIndicatorSettings(update(settingsRef.current));
+      settingsRef.current = next;
+      setSettings(next);
+
+      const currentUserId = userIdRef.current;
+      if (currentUserId) {
+        new SettingsRepository(currentUserId)
+          .saveIndicatorSettings(next)
+          .catch((err) =>
+            console.error("Failed to save indicator settings:", err),
+          );
+      } else {
+        localStorage.setItem(INDICATOR_SETTINGS_KEY, JSON.stringify(next));
+      }
+    },
+    [],
+  );
+
+  return { settings, updateSettings };
+}
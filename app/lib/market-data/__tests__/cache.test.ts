@@ -0,0 +1,124 @@
+import { describe, expect, it, vi } from "vitest";
+
+import { createMarketDataCache, getMarketSession } from "../cache";
+import type { MarketDataProvider, MarketQuote } from "../types";
+
+// 2026-10-13 周二 11:00（纽约）
+const OPEN = Date.parse("2026-10-13T15:00:00Z");
+// 2026-10-17 周六
+const WEEKEND = Date.parse("2026-10-17T15:00:00Z");
+
+function createProvider() {
+  let price = 100;
+  const getQuotes = vi.fn(
+    async (symbols: string[]): Promise<MarketQuote[]> =>
+      symbols
+        .filter((symbol) => symbol !== "XXXX")
+        .map((symbol) => ({ symbol: symbol.toUpperCase(), price })),
+  );
+  const provider: MarketDataProvider = {
+    name: "test",
+    getQuotes,
+    getBars: vi.fn(async () => []),
+    search: vi.fn(async () => []),
+    getProfile: vi.fn(async (symbol: string) => ({ symbol })),
+  };
+  return {
+    provider,
+    getQuotes,
+    setPrice: (next: number) => {
+      price = next;
+    },
+  };
+}
+
+describe("market session", () => {
+  it("follows the exchange hours of the symbol", () => {
+    expect(getMarketSession("AAPL", OPEN)).toBe("open");
+    expect(getMarketSession("AAPL", WEEKEND)).toBe("closed");
+    // 纽约 9:00，尚未开盘
+    expect(getMarketSession("AAPL", Date.parse("2026-10-13T13:00:00Z"))).toBe(
+      "closed",
+    );
+    // 香港 23:00
+    expect(getMarketSession("0700.HK", OPEN)).toBe("closed");
+    expect(
+      getMarketSession("0700.HK", Date.parse("2026-10-13T02:00:00Z")),
+    ).toBe("open");
+    expect(getMarketSession("BTC-USD", WEEKEND)).toBe("open");
+  });
+});
+
+describe("market data cache", () => {
+  it("caches quotes per symbol with session TTLs", async () => {
+    const { provider, getQuotes, setPrice } = createProvider();
+    let now = OPEN;
+    const cache = createMarketDataCache(provider, { now: () => now });
+
+    const first = await cache.getQuotes(["AAPL", "MSFT"]);
+    expect(first.data.map((q) => q.symbol)).toEqual(["AAPL", "MSFT"]);
+    expect(first).toMatchObject({
+      asOf: "2026-10-13T15:00:00.000Z",
+      stale: false,
+    });
+
+    // 只请求未缓存的代码
+    now += 5000;
+    await cache.getQuotes(["MSFT", "NVDA"]);
+    expect(getQuotes.mock.calls).toEqual([[["AAPL", "MSFT"]], [["NVDA"]]]);
+
+    // 开盘时 15 秒过期
+    now += 11_000;
+    setPrice(101);
+    const refreshed = await cache.getQuotes(["AAPL", "NVDA"]);
+    expect(refreshed.data.map((q) => q.price)).toEqual([101, 100]);
+    expect(refreshed.asOf).toBe("2026-10-13T15:00:05.000Z");
+
+    // 休市时缓存更久
+    now = WEEKEND;
+    await cache.getQuotes(["AAPL"]);
+    now += 5 * 60 * 1000;
+    await cache.getQuotes(["AAPL"]);
+    expect(getQuotes).toHaveBeenCalledTimes(4);
+  });
+
+  it("coalesces concurrent requests into one upstream call", async () => {
+    const { provider, getQuotes } = createProvider();
+    const cache = createMarketDataCache(provider, { now: () => OPEN });
+
+    const [a, b] = await Promise.all([
+      cache.getQuotes(["AAPL", "XXXX"]),
+      cache.getQuotes(["AAPL"]),
+      cache.getBars("AAPL", { days: 90, interval: "1d" }),
+      cache.getBars("AAPL", { days: 90, interval: "1d" }),
+    ]);
+    expect(getQuotes).toHaveBeenCalledTimes(1);
+    expect(provider.getBars).toHaveBeenCalledTimes(1);
+    // 无法识别的代码不返回
+    expect(a.data.map((q) => q.symbol)).toEqual(["AAPL"]);
+    expect(b.data.map((q) => q.symbol)).toEqual(["AAPL"]);
+  });
+
+  it("serves stale data when the upstream fails", async () => {
+    const { provider, getQuotes } = createProvider();
+    let now = OPEN;
+    const cache = createMarketDataCache(provider, { now: () => now });
+    await cache.getQuotes(["AAPL"]);
+
+    now += 60_000;
+    getQuotes.mockRejectedValue(new Error("upstream down"));
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const stale = await cache.getQuotes(["AAPL"]);
+    expect(stale).toMatchObject({
+      asOf: "2026-10-13T15:00:00.000Z",
+      stale: true,
+    });
+    expect(stale.data[0].price).toBe(100);
+
+    await expect(cache.getQuotes(["MSFT"])).rejects.toThrow("upstream down");
+    // 部分代码有过期数据时返回这些代码
+    const partial = await cache.getQuotes(["AAPL", "MSFT"]);
+    expect(partial.data.map((q) => q.symbol)).toEqual(["AAPL"]);
+    expect(partial.stale).toBe(true);
+  });
+});
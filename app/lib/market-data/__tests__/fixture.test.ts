@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+
+import { createFixtureProvider, SAMPLE_FIXTURE } from "../fixture";
+import type { MarketDataFixture } from "../fixture";
+
+const fixture: MarketDataFixture = {
+  asOf: "2026-10-16T20:00:00.000Z",
+  quotes: [
+    { symbol: "AAPL", name: "Apple Inc.", price: 238.5, exchange: "NMS" },
+    { symbol: "MSFT", name: "Microsoft Corporation", price: 452.1 },
+  ],
+  bars: {
+    MSFT: {
+      "1d": [
+        {
+          date: "2026-10-01T13:30:00.000Z",
+          open: 440,
+          high: 445,
+          low: 438,
+          close: 444,
+          volume: 100,
+        },
+        {
+          date: "2026-10-15T13:30:00.000Z",
+          open: 450,
+          high: 455,
+          low: 449,
+          close: 452.1,
+          volume: 120,
+        },
+      ],
+    },
+  },
+  searches: {
+    apple: [{ symbol: "AAPL", name: "Apple", type: "EQUITY", exchange: "NMS" }],
+  },
+};
+
+describe("fixture market data provider", () => {
+  it("replays quotes and skips unknown symbols", async () => {
+    const provider = createFixtureProvider(fixture);
+    const quotes = await provider.getQuotes(["msft", "XXXX", "AAPL"]);
+    expect(quotes.map((q) => q.symbol)).toEqual(["MSFT", "AAPL"]);
+    await expect(provider.getProfile("XXXX")).rejects.toThrow(
+      "Unknown symbol: XXXX",
+    );
+    expect((await provider.getProfile("AAPL")).price).toBe(238.5);
+  });
+
+  it("replays recorded bars within the lookback window", async () => {
+    const provider = createFixtureProvider(fixture);
+    const bars = await provider.getBars("MSFT", { days: 7, interval: "1d" });
+    expect(bars.map((bar) => bar.close)).toEqual([452.1]);
+  });
+
+  it("generates deterministic bars ending at the quote price", async () => {
+    const provider = createFixtureProvider(fixture);
+    const query = { days: 30, interval: "1d" } as const;
+    const bars = await provider.getBars("AAPL", query);
+    // 30 天内的交易日
+    expect(bars).toHaveLength(22);
+    expect(bars.at(-1)?.close).toBe(238.5);
+    for (const bar of bars) {
+      const day = new Date(bar.date).getUTCDay();
+      expect(day).not.toBe(0);
+      expect(day).not.toBe(6);
+      expect(bar.high!).toBeGreaterThanOrEqual(Math.max(bar.open!, bar.close!));
+      expect(bar.low!).toBeLessThanOrEqual(Math.min(bar.open!, bar.close!));
+    }
+    const again = await createFixtureProvider(fixture).getBars("AAPL", query);
+    expect(again).toEqual(bars);
+
+    const intraday = await provider.getBars("AAPL", {
+      days: 1,
+      interval: "5m",
+    });
+    expect(intraday.at(-1)?.date).toBe("2026-10-16T20:00:00.000Z");
+    // 只生成交易时段内的 K 线
+    expect(intraday.every((bar) => bar.date.slice(11, 16) >= "14:30")).toBe(
+      true,
+    );
+  });
+
+  it("searches recorded results before matching quotes", async () => {
+    const provider = createFixtureProvider(fixture);
+    expect((await provider.search(" Apple ")).map((r) => r.name)).toEqual([
+      "Apple",
+    ]);
+    expect((await provider.search("micro")).map((r) => r.symbol)).toEqual([
+      "MSFT",
+    ]);
+    expect(await createFixtureProvider(SAMPLE_FIXTURE).search("zzz")).toEqual(
+      [],
+    );
+  });
+});
@@ -0,0 +1,124 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import {
+  applyQuotePatches,
+  createQuoteHub,
+  diffQuote,
+  MAX_STREAM_SYMBOLS,
+  parseStreamSymbols,
+} from "../quote-hub";
+import type { QuoteUpdate } from "../quote-hub";
+import type { MarketQuote } from "../types";
+
+function createSource() {
+  const prices: Record<string, number> = { AAPL: 100, MSFT: 200 };
+  let stale = false;
+  const getQuotes = vi.fn(async (symbols: string[]) => ({
+    data: symbols.map(
+      (symbol): MarketQuote => ({
+        symbol,
+        price: prices[symbol],
+        currency: "USD",
+      }),
+    ),
+    asOf: "2026-10-13T15:00:00.000Z",
+    stale,
+  }));
+  return {
+    getQuotes,
+    prices,
+    setStale: (next: boolean) => {
+      stale = next;
+    },
+  };
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("stream symbols", () => {
+  it("dedupes valid symbols", () => {
+    expect(parseStreamSymbols("AAPL,BRK-B,^GSPC,AAPL,,0700.HK")).toEqual({
+      symbols: ["AAPL", "BRK-B", "^GSPC", "0700.HK"],
+    });
+  });
+
+  it("rejects empty, malformed and oversized lists", () => {
+    expect(parseStreamSymbols("")).toHaveProperty("error");
+    expect(parseStreamSymbols("AAPL,<script>")).toHaveProperty("error");
+    const many = Array.from(
+      { length: MAX_STREAM_SYMBOLS + 1 },
+      (_, i) => `S${i}`,
+    );
+    expect(parseStreamSymbols(many.join(","))).toHaveProperty("error");
+  });
+});
+
+describe("quote patches", () => {
+  it("keeps only changed fields", () => {
+    const previous: MarketQuote = { symbol: "AAPL", price: 100, change: 1 };
+    expect(diffQuote(undefined, previous)).toEqual(previous);
+    expect(diffQuote(previous, { ...previous })).toBeNull();
+    expect(diffQuote(previous, { symbol: "AAPL", price: 101 })).toEqual({
+      symbol: "AAPL",
+      price: 101,
+      change: undefined,
+    });
+
+    const merged = applyQuotePatches({ AAPL: previous }, [
+      { symbol: "AAPL", price: 102 },
+      { symbol: "MSFT", price: 200 },
+    ]);
+    expect(merged).toEqual({
+      AAPL: { symbol: "AAPL", price: 102, change: 1 },
+      MSFT: { symbol: "MSFT", price: 200 },
+    });
+  });
+});
+
+describe("quote hub", () => {
+  it("shares one poll loop and pushes changes per subscriber", async () => {
+    vi.useFakeTimers();
+    const source = createSource();
+    const hub = createQuoteHub(source.getQuotes, { intervalMs: 1000 });
+    const first: QuoteUpdate[] = [];
+    const second: QuoteUpdate[] = [];
+
+    const unsubscribeFirst = hub.subscribe(["AAPL"], (u) => first.push(u));
+    hub.subscribe(["AAPL", "MSFT"], (u) => second.push(u));
+    await vi.advanceTimersByTimeAsync(0);
+    // 新订阅者立即收到完整行情
+    expect(first[0].quotes).toEqual([
+      { symbol: "AAPL", price: 100, currency: "USD" },
+    ]);
+    expect(second[0].quotes.map((q) => q.symbol)).toEqual(["AAPL", "MSFT"]);
+
+    source.prices.MSFT = 201;
+    await vi.advanceTimersByTimeAsync(1000);
+    // 一轮只请求一次并集
+    expect(source.getQuotes).toHaveBeenLastCalledWith(["AAPL", "MSFT"]);
+    expect(source.getQuotes).toHaveBeenCalledTimes(3);
+    expect(first).toHaveLength(1);
+    expect(second[1].quotes).toEqual([{ symbol: "MSFT", price: 201 }]);
+
+    // 只有 stale 变化时也推送
+    source.setStale(true);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(first[1]).toMatchObject({ quotes: [], stale: true });
+
+    unsubscribeFirst();
+    expect(hub.size).toBe(1);
+  });
+
+  it("stops polling when the last subscriber leaves", async () => {
+    vi.useFakeTimers();
+    const source = createSource();
+    const hub = createQuoteHub(source.getQuotes, { intervalMs: 1000 });
+    const unsubscribe = hub.subscribe(["AAPL"], () => {});
+    await vi.advanceTimersByTimeAsync(0);
+    unsubscribe();
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(source.getQuotes).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,262 @@
+/**
+ * 行情缓存
+ *
+ * 包装 MarketDataProvider：按代码缓存行情、K 线和个股资料，缓存时间取决于
+ * 该代码所在市场是否开盘；相同的并发请求合并为一次上游调用；上游出错时
+ * 返回过期数据并标记 stale。
+ */
+
+import type {
+  BarQuery,
+  MarketDataProvider,
+  MarketQuote,
+  PriceBar,
+  SymbolProfile,
+} from "./types";
+
+/**
+ * 带数据时间的缓存结果
+ */
+export interface Cached<T> {
+  data: T;
+  /** 数据从上游获取的时间（ISO） */
+  asOf: string;
+  /** 上游出错时返回的过期数据 */
+  stale: boolean;
+}
+
+export type MarketSession = "open" | "closed";
+
+/**
+ * 开盘、休市时的缓存时间（毫秒）
+ */
+export interface SessionTtl {
+  open: number;
+  closed: number;
+}
+
+export interface MarketDataCacheOptions {
+  ttl?: Partial<Record<"quote" | "intraday" | "daily" | "profile", SessionTtl>>;
+  /** 出错时可返回的过期数据最长时间 */
+  maxStaleMs?: number;
+  maxEntries?: number;
+  now?: () => number;
+}
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+const DEFAULT_TTL = {
+  quote: { open: 15 * 1000, closed: 10 * MINUTE_MS },
+  intraday: { open: MINUTE_MS, closed: HOUR_MS },
+  daily: { open: 5 * MINUTE_MS, closed: HOUR_MS },
+  profile: { open: 5 * MINUTE_MS, closed: HOUR_MS },
+};
+
+// ============================================================================
+// 交易时段
+// ============================================================================
+
+interface MarketHours {
+  timeZone: string;
+  /** 开盘、收盘时间（当地时间，一天中的分钟数） */
+  open: number;
+  close: number;
+}
+
+const US_MARKET: MarketHours = {
+  timeZone: "America/New_York",
+  open: 9 * 60 + 30,
+  close: 16 * 60,
+};
+
+// Yahoo 代码后缀对应的市场（午休、节假日忽略）
+const MARKETS_BY_SUFFIX: Record<string, MarketHours> = {
+  HK: { timeZone: "Asia/Hong_Kong", open: 9 * 60 + 30, close: 16 * 60 },
+  SS: { timeZone: "Asia/Shanghai", open: 9 * 60 + 30, close: 15 * 60 },
+  SZ: { timeZone: "Asia/Shanghai", open: 9 * 60 + 30, close: 15 * 60 },
+  T: { timeZone: "Asia/Tokyo", open: 9 * 60, close: 15 * 60 + 30 },
+  L: { timeZone: "Europe/London", open: 8 * 60, close: 16 * 60 + 30 },
+};
+
+const WEEKDAYS = new Set(["Mon", "Tue", "Wed", "Thu", "Fri"]);
+
+/**
+ * 代码所在市场在给定时间是否处于常规交易时段
+ */
+export function getMarketSession(symbol: string, now: number): MarketSession {
+  // 加密货币全天交易
+  if (/-USD$/i.test(symbol)) return "open";
+  const suffix = symbol.includes(".")
+    ? symbol.slice(symbol.lastIndexOf(".") + 1).toUpperCase()
+    : "";
+  const market = MARKETS_BY_SUFFIX[suffix] ?? US_MARKET;
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: market.timeZone,
+    weekday: "short",
+    hour: "numeric",
+    minute: "numeric",
+    hourCycle: "h23",
+  }).formatToParts(new Date(now));
+  const part = (type: string) => parts.find((p) => p.type === type)?.value;
+  if (!WEEKDAYS.has(part("weekday") ?? "")) return "closed";
+  const minute = Number(part("hour")) * 60 + Number(part("minute"));
+  return minute >= market.open && minute < market.close ? "open" : "closed";
+}
+
+// ============================================================================
+// 缓存
+// ============================================================================
+
+interface CacheEntry<T> {
+  value: T;
+  fetchedAt: number;
+  expiresAt: number;
+}
+
+/**
+ * 合并多个缓存结果的时间：asOf 取最早的，任一过期即为 stale
+ */
+export function combineCached<T>(
+  data: T,
+  items: Array<Pick<Cached<unknown>, "asOf" | "stale">>,
+  now: number,
+): Cached<T> {
+  const asOf = items.reduce<string | null>(
+    (earliest, item) =>
+      earliest === null || item.asOf < earliest ? item.asOf : earliest,
+    null,
+  );
+  return {
+    data,
+    asOf: asOf ?? new Date(now).toISOString(),
+    stale: items.some((item) => item.stale),
+  };
+}
+
+/**
+ * 创建行情缓存
+ */
+export function createMarketDataCache(
+  provider: MarketDataProvider,
+  options: MarketDataCacheOptions = {},
+) {
+  const ttl = { ...DEFAULT_TTL, ...options.ttl };
+  const maxStaleMs = options.maxStaleMs ?? 24 * HOUR_MS;
+  const maxEntries = options.maxEntries ?? 1000;
+  const now = options.now ?? Date.now;
+  const entries = new Map<string, CacheEntry<unknown>>();
+  const inflight = new Map<string, Promise<CacheEntry<unknown>>>();
+
+  // 超出容量时淘汰最早写入的条目
+  const store = <T>(key: string, entry: CacheEntry<T>) => {
+    entries.delete(key);
+    entries.set(key, entry);
+    if (entries.size > maxEntries) {
+      entries.delete(entries.keys().next().value!);
+    }
+  };
+
+  async function load<T>(
+    key: string,
+    symbol: string,
+    sessionTtl: SessionTtl,
+    fetcher: () => Promise<T>,
+  ): Promise<Cached<T>> {
+    const cached = entries.get(key) as CacheEntry<T> | undefined;
+    const toResult = (entry: CacheEntry<T>, stale: boolean): Cached<T> => ({
+      data: entry.value,
+      asOf: new Date(entry.fetchedAt).toISOString(),
+      stale,
+    });
+    if (cached && now() < cached.expiresAt) {
+      return toResult(cached, false);
+    }
+
+    let pending = inflight.get(key) as Promise<CacheEntry<T>> | undefined;
+    if (!pending) {
+      pending = fetcher()
+        .then((value) => {
+          const fetchedAt = now();
+          const session = getMarketSession(symbol, fetchedAt);
+          const entry = {
+            value,
+            fetchedAt,
+            expiresAt: fetchedAt + sessionTtl[session],
+          };
+          store(key, entry);
+          return entry;
+        })
+        .finally(() => inflight.delete(key));
+      inflight.set(key, pending);
+    }
+
+    try {
+      return toResult(await pending, false);
+    } catch (error) {
+      if (cached && now() - cached.fetchedAt <= maxStaleMs) {
+        console.warn(`Serving stale market data for ${key}:`, error);
+        return toResult(cached, true);
+      }
+      throw error;
+    }
+  }
+
+  return {
+    /**
+     * 行情按代码缓存，未命中的代码合并为一次上游调用；无法识别的代码
+     * 不返回。全部代码都失败且没有过期数据时抛出错误
+     */
+    async getQuotes(symbols: string[]): Promise<Cached<MarketQuote[]>> {
+      const unique = [...new Set(symbols)];
+      // 需要请求的代码在同一轮同步调用中登记，下一个微任务再批量请求
+      const missing: string[] = [];
+      let batch: Promise<Map<string, MarketQuote>> | null = null;
+      const fetchBatch = (symbol: string) => {
+        missing.push(symbol);
+        batch ??= Promise.resolve()
+          .then(() => provider.getQuotes(missing))
+          .then(
+            (quotes) => new Map(quotes.map((q) => [q.symbol.toUpperCase(), q])),
+          );
+        return batch;
+      };
+
+      const results = await Promise.allSettled(
+        unique.map((symbol) =>
+          load(`quote:${symbol}`, symbol, ttl.quote, async () => {
+            const quotes = await fetchBatch(symbol);
+            return quotes.get(symbol.toUpperCase()) ?? null;
+          }),
+        ),
+      );
+      const loaded = results.flatMap((result) =>
+        result.status === "fulfilled" ? [result.value] : [],
+      );
+      const failed = results.find((result) => result.status === "rejected");
+      if (loaded.length === 0 && failed) {
+        throw failed.reason;
+      }
+      const quotes = loaded.flatMap((item) => (item.data ? [item.data] : []));
+      return combineCached(quotes, loaded, now());
+    },
+
+    getBars(symbol: string, query: BarQuery): Promise<Cached<PriceBar[]>> {
+      const isDaily = query.interval === "1d" || query.interval === "1wk";
+      return load(
+        `bars:${symbol}:${query.interval}:${query.days}`,
+        symbol,
+        isDaily ? ttl.daily : ttl.intraday,
+        () => provider.getBars(symbol, query),
+      );
+    },
+
+    getProfile(symbol: string): Promise<Cached<SymbolProfile>> {
+      return load(`profile:${symbol}`, symbol, ttl.profile, () =>
+        provider.getProfile(symbol),
+      );
+    },
+  };
+}
+
+export type MarketDataCache = ReturnType<typeof createMarketDataCache>;
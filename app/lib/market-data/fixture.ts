@@ -0,0 +1,312 @@
+/**
+ * Fixture 数据源
+ *
+ * 回放录制好的行情数据，不访问网络，结果只取决于 fixture：用于离线开发
+ * 和测试。fixture 中没有录制 K 线的代码，按代码生成确定性的随机游走，
+ * 终点为行情价格；时间以 fixture 的 asOf 为“现在”。
+ */
+
+import type {
+  BarInterval,
+  MarketDataProvider,
+  MarketQuote,
+  PriceBar,
+  SearchResult,
+  SymbolProfile,
+} from "./types";
+
+/**
+ * 录制的行情数据
+ */
+export interface MarketDataFixture {
+  /** 录制时间（ISO），K 线查询以此为“现在” */
+  asOf: string;
+  quotes: MarketQuote[];
+  profiles?: Record<string, SymbolProfile>;
+  /** 按代码、周期录制的 K 线 */
+  bars?: Record<string, Partial<Record<BarInterval, PriceBar[]>>>;
+  /** 按小写查询词录制的搜索结果 */
+  searches?: Record<string, SearchResult[]>;
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+const INTERVAL_MS: Record<BarInterval, number> = {
+  "1m": MINUTE_MS,
+  "5m": 5 * MINUTE_MS,
+  "15m": 15 * MINUTE_MS,
+  "1h": 60 * MINUTE_MS,
+  "1d": DAY_MS,
+  "1wk": 7 * DAY_MS,
+};
+
+// 美股常规交易时段（UTC，忽略夏令时）
+const SESSION_OPEN_MINUTE = 14 * 60 + 30;
+const SESSION_CLOSE_MINUTE = 21 * 60;
+
+// 字符串哈希作为随机数种子
+function hashSeed(value: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
+
+// mulberry32：可复现的伪随机数
+function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// 从 end 往前到 start 的 K 线时间（升序），日内周期只取交易时段
+function getBarTimes(start: number, end: number, interval: BarInterval) {
+  const step = INTERVAL_MS[interval];
+  const intraday = step < DAY_MS;
+  const times: number[] = [];
+  const first = Math.floor(end / step) * step;
+  for (let time = first; time >= start; time -= step) {
+    const date = new Date(time);
+    const weekday = date.getUTCDay();
+    if (interval !== "1wk" && (weekday === 0 || weekday === 6)) continue;
+    if (intraday) {
+      const minute = date.getUTCHours() * 60 + date.getUTCMinutes();
+      if (minute < SESSION_OPEN_MINUTE || minute >= SESSION_CLOSE_MINUTE) {
+        continue;
+      }
+    }
+    times.push(time);
+  }
+  return times.reverse();
+}
+
+/**
+ * 生成确定性的 K 线：同一代码、周期、时间范围总是得到相同结果
+ */
+export function generateBars(
+  quote: MarketQuote,
+  interval: BarInterval,
+  start: number,
+  end: number,
+): PriceBar[] {
+  const times = getBarTimes(start, end, interval);
+  const random = createRandom(hashSeed(`${quote.symbol}:${interval}`));
+  // 日波动约 1.5%，按周期长度缩放
+  const volatility = 0.015 * Math.sqrt(INTERVAL_MS[interval] / DAY_MS);
+  const closes: number[] = [];
+  let close = quote.price ?? 100;
+  for (let i = times.length - 1; i >= 0; i--) {
+    closes[i] = close;
+    close = close / (1 + (random() - 0.5) * 2 * volatility);
+  }
+  return times.map((time, i) => {
+    const open = i === 0 ? closes[0] : closes[i - 1];
+    const spread = Math.abs(closes[i] - open) + closes[i] * volatility * 0.5;
+    return {
+      date: new Date(time).toISOString(),
+      open: round(open),
+      high: round(Math.max(open, closes[i]) + spread * random()),
+      low: round(Math.min(open, closes[i]) - spread * random()),
+      close: round(closes[i]),
+      volume: Math.round(1_000_000 * (0.5 + random())),
+    };
+  });
+}
+
+/**
+ * 创建 fixture 数据源
+ */
+export function createFixtureProvider(
+  fixture: MarketDataFixture,
+): MarketDataProvider {
+  const now = new Date(fixture.asOf).getTime();
+  const quotes = new Map(
+    fixture.quotes.map((quote) => [quote.symbol.toUpperCase(), quote]),
+  );
+  const findQuote = (symbol: string) => {
+    const quote = quotes.get(symbol.toUpperCase());
+    if (!quote) {
+      throw new Error(`Unknown symbol: ${symbol}`);
+    }
+    return quote;
+  };
+
+  return {
+    name: "fixture",
+
+    async getQuotes(symbols) {
+      return symbols.flatMap((symbol) => {
+        const quote = quotes.get(symbol.toUpperCase());
+        return quote ? [quote] : [];
+      });
+    },
+
+    async getBars(symbol, query) {
+      const quote = findQuote(symbol);
+      const start = now - query.days * DAY_MS;
+      const recorded = fixture.bars?.[quote.symbol]?.[query.interval];
+      if (recorded) {
+        return recorded.filter((bar) => new Date(bar.date).getTime() >= start);
+      }
+      return generateBars(quote, query.interval, start, now);
+    },
+
+    async search(query, limit = 10) {
+      const keyword = query.trim().toLowerCase();
+      const recorded = fixture.searches?.[keyword];
+      if (recorded) return recorded.slice(0, limit);
+      return fixture.quotes
+        .filter(
+          (quote) =>
+            quote.symbol.toLowerCase().includes(keyword) ||
+            quote.name?.toLowerCase().includes(keyword),
+        )
+        .slice(0, limit)
+        .map((quote) => ({
+          symbol: quote.symbol,
+          name: quote.name ?? quote.symbol,
+          type: "EQUITY",
+          exchange: quote.exchange ?? "",
+        }));
+    },
+
+    async getProfile(symbol) {
+      const quote = findQuote(symbol);
+      return (
+        fixture.profiles?.[quote.symbol] ?? {
+          symbol: quote.symbol,
+          name: quote.name,
+          currency: quote.currency,
+          exchange: quote.exchange,
+          price: quote.price,
+          change: quote.change,
+          changePercent: quote.changePercent,
+          previousClose: quote.previousClose,
+          marketCap: quote.marketCap,
+          pe: quote.trailingPE,
+        }
+      );
+    },
+  };
+}
+
+/**
+ * 内置的示例行情（非真实数据），未配置 fixture 文件时使用
+ */
+export const SAMPLE_FIXTURE: MarketDataFixture = {
+  asOf: "2026-10-16T20:00:00.000Z",
+  quotes: [
+    {
+      symbol: "AAPL",
+      name: "Apple Inc.",
+      currency: "USD",
+      exchange: "NasdaqGS",
+      price: 238.5,
+      change: 1.82,
+      changePercent: 0.769,
+      previousClose: 236.68,
+      fiftyTwoWeekHigh: 260.1,
+      fiftyTwoWeekLow: 164.08,
+      volume: 48_200_000,
+      avgVolume: 52_700_000,
+      trailingPE: 36.2,
+      forwardPE: 29.1,
+      priceToBook: 52.4,
+      marketCap: 3_560_000_000_000,
+    },
+    {
+      symbol: "MSFT",
+      name: "Microsoft Corporation",
+      currency: "USD",
+      exchange: "NasdaqGS",
+      price: 452.1,
+      change: -3.4,
+      changePercent: -0.746,
+      previousClose: 455.5,
+      fiftyTwoWeekHigh: 468.35,
+      fiftyTwoWeekLow: 344.79,
+      volume: 19_800_000,
+      avgVolume: 21_400_000,
+      trailingPE: 37.5,
+      forwardPE: 31.8,
+      priceToBook: 11.6,
+      marketCap: 3_360_000_000_000,
+    },
+    {
+      symbol: "NVDA",
+      name: "NVIDIA Corporation",
+      currency: "USD",
+      exchange: "NasdaqGS",
+      price: 142.3,
+      change: 2.95,
+      changePercent: 2.117,
+      previousClose: 139.35,
+      fiftyTwoWeekHigh: 153.13,
+      fiftyTwoWeekLow: 86.62,
+      volume: 301_500_000,
+      avgVolume: 245_600_000,
+      trailingPE: 55.4,
+      forwardPE: 32.7,
+      priceToBook: 50.2,
+      marketCap: 3_490_000_000_000,
+    },
+    {
+      symbol: "QQQ",
+      name: "Invesco QQQ Trust",
+      currency: "USD",
+      exchange: "NasdaqGM",
+      price: 512.4,
+      change: 1.1,
+      changePercent: 0.215,
+      previousClose: 511.3,
+    },
+    {
+      symbol: "SPY",
+      name: "SPDR S&P 500 ETF Trust",
+      currency: "USD",
+      exchange: "NYSEArca",
+      price: 585.2,
+      change: 0.64,
+      changePercent: 0.109,
+      previousClose: 584.56,
+    },
+  ],
+  profiles: {
+    AAPL: {
+      symbol: "AAPL",
+      name: "Apple Inc.",
+      currency: "USD",
+      exchange: "NasdaqGS",
+      price: 238.5,
+      change: 1.82,
+      changePercent: 0.769,
+      previousClose: 236.68,
+      open: 237.1,
+      dayHigh: 239.4,
+      dayLow: 236.2,
+      fiftyTwoWeekHigh: 260.1,
+      fiftyTwoWeekLow: 164.08,
+      volume: 48_200_000,
+      avgVolume: 52_700_000,
+      marketCap: 3_560_000_000_000,
+      pe: 36.2,
+      eps: 6.59,
+      dividend: 0.0044,
+      beta: 1.24,
+      sector: "Technology",
+      industry: "Consumer Electronics",
+      description: "Sample profile for offline development.",
+    },
+  },
+};
@@ -0,0 +1,79 @@
+/**
+ * 服务端行情数据源
+ *
+ * 配置环境变量（运行时从 process.env 读取）:
+ * MARKET_DATA_PROVIDER  yahoo（默认）或 fixture
+ * MARKET_DATA_FIXTURE   fixture 模式下回放的 JSON 文件路径（MarketDataFixture），
+ *                       不配置时使用内置示例行情
+ */
+
+import { readFileSync } from "node:fs";
+import type { MarketDataProvider } from "./types";
+import {
+  createFixtureProvider,
+  SAMPLE_FIXTURE,
+  type MarketDataFixture,
+} from "./fixture";
+import { createYahooProvider } from "./yahoo.server";
+import { createMarketDataCache, type MarketDataCache } from "./cache";
+import { createQuoteHub, type QuoteHub } from "./quote-hub";
+
+let provider: MarketDataProvider | null = null;
+let cache: MarketDataCache | null = null;
+let quoteHub: QuoteHub | null = null;
+
+function createProvider(): MarketDataProvider {
+  const name = process.env.MARKET_DATA_PROVIDER ?? "yahoo";
+  if (name === "fixture") {
+    const path = process.env.MARKET_DATA_FIXTURE;
+    const fixture: MarketDataFixture = path
+      ? JSON.parse(readFileSync(path, "utf8"))
+      : SAMPLE_FIXTURE;
+    return createFixtureProvider(fixture);
+  }
+  if (name !== "yahoo") {
+    console.warn(`Unknown market data provider "${name}", using yahoo`);
+  }
+  return createYahooProvider();
+}
+
+/**
+ * 获取当前行情数据源（进程内单例）
+ */
+export function getMarketDataProvider(): MarketDataProvider {
+  if (!provider) {
+    provider = createProvider();
+  }
+  return provider;
+}
+
+/**
+ * 获取包装当前数据源的行情缓存，行情、K 线和个股资料路由通过它读取
+ */
+export function getMarketDataCache(): MarketDataCache {
+  if (!cache) {
+    cache = createMarketDataCache(getMarketDataProvider());
+  }
+  return cache;
+}
+
+/**
+ * 获取行情推送中心，/api/quote/stream 的所有连接共享它的轮询循环
+ */
+export function getQuoteHub(): QuoteHub {
+  if (!quoteHub) {
+    quoteHub = createQuoteHub((symbols) =>
+      getMarketDataCache().getQuotes(symbols),
+    );
+  }
+  return quoteHub;
+}
+
+/**
+ * 替换行情数据源（测试或本地调试用），传入 null 时按环境变量重新创建；
+ * 同时丢弃缓存
+ */
+export function setMarketDataProvider(next: MarketDataProvider | null): void {
+  provider = next;
+  cache = null;
+}
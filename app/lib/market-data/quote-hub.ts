@@ -0,0 +1,185 @@
+/**
+ * 行情推送
+ *
+ * 所有订阅者共享一个轮询循环：每轮读取全部订阅代码的并集（经过行情缓存），
+ * 再与每个订阅者上次收到的行情比较，只推送变化的字段。新订阅者立即收到
+ * 完整行情。
+ */
+
+import type { Cached } from "./cache";
+import type { MarketQuote } from "./types";
+
+/**
+ * 行情变化：symbol 加上变化的字段
+ */
+export type QuotePatch = Partial<MarketQuote> & { symbol: string };
+
+/**
+ * 推送给订阅者的一次更新
+ */
+export interface QuoteUpdate {
+  quotes: QuotePatch[];
+  asOf: string;
+  stale: boolean;
+}
+
+export type QuoteListener = (update: QuoteUpdate) => void;
+
+interface Subscriber {
+  symbols: string[];
+  listener: QuoteListener;
+  /** 已推送的行情（按上游返回的代码） */
+  sent: Map<string, MarketQuote>;
+  stale: boolean | null;
+}
+
+/**
+ * 比较两次行情，返回变化的字段；没有变化时返回 null
+ */
+export function diffQuote(
+  previous: MarketQuote | undefined,
+  next: MarketQuote,
+): QuotePatch | null {
+  if (!previous) return { ...next };
+  const patch: Record<string, unknown> = { symbol: next.symbol };
+  let changed = false;
+  const keys = new Set([...Object.keys(previous), ...Object.keys(next)]);
+  for (const key of keys as Set<keyof MarketQuote>) {
+    if (key === "symbol" || previous[key] === next[key]) continue;
+    patch[key] = next[key];
+    changed = true;
+  }
+  return changed ? (patch as QuotePatch) : null;
+}
+
+/**
+ * 把推送的变化合并到按代码索引的行情中
+ */
+export function applyQuotePatches(
+  quotes: Record<string, QuotePatch>,
+  patches: QuotePatch[],
+): Record<string, QuotePatch> {
+  if (patches.length === 0) return quotes;
+  const next = { ...quotes };
+  for (const patch of patches) {
+    next[patch.symbol] = { ...next[patch.symbol], ...patch };
+  }
+  return next;
+}
+
+/** 单个推送连接最多订阅的代码数 */
+export const MAX_STREAM_SYMBOLS = 100;
+
+// 代码只允许字母、数字和 . ^ = -（如 BRK-B、^GSPC、EURUSD=X、0700.HK）
+const SYMBOL_PATTERN = /^[A-Za-z0-9.^=-]{1,20}$/;
+
+/**
+ * 解析订阅参数（逗号分隔的代码）并去重；有非法代码、为空或超过上限时返回错误
+ */
+export function parseStreamSymbols(
+  raw: string,
+): { symbols: string[] } | { error: string } {
+  const symbols = [...new Set(raw.split(",").filter(Boolean))];
+  if (symbols.length === 0) {
+    return { error: "Symbols are required" };
+  }
+  if (symbols.length > MAX_STREAM_SYMBOLS) {
+    return { error: `At most ${MAX_STREAM_SYMBOLS} symbols are allowed` };
+  }
+  const invalid = symbols.find((symbol) => !SYMBOL_PATTERN.test(symbol));
+  if (invalid !== undefined) {
+    return { error: `Invalid symbol: ${invalid.slice(0, 20)}` };
+  }
+  return { symbols };
+}
+
+/**
+ * 创建行情推送中心，getQuotes 通常是行情缓存的 getQuotes
+ */
+export function createQuoteHub(
+  getQuotes: (symbols: string[]) => Promise<Cached<MarketQuote[]>>,
+  options: { intervalMs?: number } = {},
+) {
+  const intervalMs = options.intervalMs ?? 5000;
+  const subscribers = new Set<Subscriber>();
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  async function poll(targets: Subscriber[]) {
+    const symbols = [...new Set(targets.flatMap((s) => s.symbols))];
+    if (symbols.length === 0) return;
+
+    let result: Cached<MarketQuote[]>;
+    try {
+      result = await getQuotes(symbols);
+    } catch (error) {
+      console.error("Quote stream poll failed:", error);
+      return;
+    }
+    const quotes = new Map(
+      result.data.map((quote) => [quote.symbol.toUpperCase(), quote]),
+    );
+
+    for (const subscriber of targets) {
+      // 轮询期间取消的订阅不再推送
+      if (!subscribers.has(subscriber)) continue;
+      const patches: QuotePatch[] = [];
+      for (const symbol of subscriber.symbols) {
+        const quote = quotes.get(symbol.toUpperCase());
+        if (!quote) continue;
+        const patch = diffQuote(subscriber.sent.get(quote.symbol), quote);
+        if (!patch) continue;
+        patches.push(patch);
+        subscriber.sent.set(quote.symbol, quote);
+      }
+      if (patches.length === 0 && subscriber.stale === result.stale) {
+        continue;
+      }
+      subscriber.stale = result.stale;
+      subscriber.listener({
+        quotes: patches,
+        asOf: result.asOf,
+        stale: result.stale,
+      });
+    }
+  }
+
+  function schedule() {
+    if (timer || subscribers.size === 0) return;
+    timer = setTimeout(async () => {
+      timer = null;
+      await poll([...subscribers]);
+      schedule();
+    }, intervalMs);
+  }
+
+  return {
+    /**
+     * 订阅代码的行情，返回取消订阅函数
+     */
+    subscribe(symbols: string[], listener: QuoteListener): () => void {
+      const subscriber: Subscriber = {
+        symbols: [...new Set(symbols)],
+        listener,
+        sent: new Map(),
+        stale: null,
+      };
+      subscribers.add(subscriber);
+      void poll([subscriber]);
+      schedule();
+      return () => {
+        subscribers.delete(subscriber);
+        if (subscribers.size === 0 && timer) {
+          clearTimeout(timer);
+          timer = null;
+        }
+      };
+    },
+
+    /** 当前订阅者数量 */
+    get size() {
+      return subscribers.size;
+    },
+  };
+}
+
+export type QuoteHub = ReturnType<typeof createQuoteHub>;
@@ -0,0 +1,111 @@
+/**
+ * 行情数据类型
+ *
+ * 与数据源无关的行情、K 线、搜索结果和个股资料，API 路由和 UI 只依赖
+ * 这些类型；各数据源（Yahoo、fixture）在适配器中完成转换。
+ */
+
+/**
+ * 实时行情
+ */
+export interface MarketQuote {
+  symbol: string;
+  name?: string;
+  currency?: string;
+  exchange?: string;
+  price?: number;
+  change?: number;
+  /** 涨跌幅（百分比，1.5 表示 1.5%） */
+  changePercent?: number;
+  previousClose?: number;
+  fiftyTwoWeekHigh?: number;
+  fiftyTwoWeekLow?: number;
+  volume?: number;
+  /** 平均日成交量 */
+  avgVolume?: number;
+  trailingPE?: number;
+  forwardPE?: number;
+  priceToBook?: number;
+  marketCap?: number;
+}
+
+/**
+ * K 线周期
+ */
+export type BarInterval = "1m" | "5m" | "15m" | "1h" | "1d" | "1wk";
+
+/**
+ * K 线查询：从现在往前 days 天
+ */
+export interface BarQuery {
+  days: number;
+  interval: BarInterval;
+}
+
+/**
+ * 一根 K 线，date 为 ISO 时间
+ */
+export interface PriceBar {
+  date: string;
+  open: number | null;
+  high: number | null;
+  low: number | null;
+  close: number | null;
+  volume: number | null;
+}
+
+/**
+ * 代码搜索结果
+ */
+export interface SearchResult {
+  symbol: string;
+  name: string;
+  type: string;
+  exchange: string;
+}
+
+/**
+ * 个股资料（行情 + 估值 + 公司信息）
+ */
+export interface SymbolProfile {
+  symbol: string;
+  name?: string;
+  currency?: string;
+  exchange?: string;
+  price?: number;
+  change?: number;
+  /** 涨跌幅（百分比） */
+  changePercent?: number;
+  previousClose?: number;
+  open?: number;
+  dayHigh?: number;
+  dayLow?: number;
+  fiftyTwoWeekHigh?: number;
+  fiftyTwoWeekLow?: number;
+  volume?: number;
+  avgVolume?: number;
+  marketCap?: number;
+  pe?: number;
+  eps?: number;
+  /** 股息率（小数） */
+  dividend?: number;
+  beta?: number;
+  sector?: string;
+  industry?: string;
+  description?: string;
+}
+
+/**
+ * 行情数据源
+ *
+ * getQuotes 忽略无法识别的代码；其他方法失败时抛出错误，由路由转换为
+ * 错误响应
+ */
+export interface MarketDataProvider {
+  /** 数据源名称，用于日志 */
+  readonly name: string;
+  getQuotes(symbols: string[]): Promise<MarketQuote[]>;
+  getBars(symbol: string, query: BarQuery): Promise<PriceBar[]>;
+  search(query: string, limit?: number): Promise<SearchResult[]>;
+  getProfile(symbol: string): Promise<SymbolProfile>;
+}
@@ -0,0 +1,34 @@
+import { useEffect, useRef, useState } from "react";
+
+export type PriceFlash = "up" | "down" | null;
+
+/**
+ * 价格变化后短暂返回涨跌方向，用于闪烁提示
+ */
+export function usePriceFlash(
+  value: number | undefined,
+  durationMs = 800,
+): PriceFlash {
+  const previous = useRef(value);
+  const [flash, setFlash] = useState<PriceFlash>(null);
+
+  useEffect(() => {
+    const last = previous.current;
+    previous.current = value;
+    if (last === undefined || value === undefined || last === value) return;
+    setFlash(value > last ? "up" : "down");
+    const timer = setTimeout(() => setFlash(null), durationMs);
+    return () => clearTimeout(timer);
+  }, [value, durationMs]);
+
+  return flash;
+}
+
+/**
+ * 闪烁背景色
+ */
+export function priceFlashClassName(flash: PriceFlash): string {
+  if (flash === "up") return "bg-green-500/20";
+  if (flash === "down") return "bg-red-500/20";
+  return "";
+}
@@ -0,0 +1,88 @@
+import { useEffect, useRef, useState } from "react";
+import type { MarketQuote } from "./types";
+import type { QuoteUpdate } from "./quote-hub";
+
+export type QuoteStreamMode = "stream" | "polling";
+
+// 推送断开后的轮询间隔，以及重新尝试推送的等待时间
+const POLL_INTERVAL_MS = 15 * 1000;
+const RECONNECT_DELAY_MS = 30 * 1000;
+
+/**
+ * 订阅 /api/quote/stream 的行情推送
+ *
+ * 推送断开时改为轮询 /api/quote（每次返回完整行情），并定期尝试重新连接。
+ * onUpdate 不需要保持引用稳定。
+ */
+export function useQuoteStream(
+  symbols: string[],
+  onUpdate: (update: QuoteUpdate) => void,
+): QuoteStreamMode {
+  const [mode, setMode] = useState<QuoteStreamMode>("stream");
+  const onUpdateRef = useRef(onUpdate);
+  onUpdateRef.current = onUpdate;
+  const symbolKey = [...new Set(symbols)].sort().join(",");
+
+  useEffect(() => {
+    if (!symbolKey) return;
+    let source: EventSource | null = null;
+    let pollTimer: ReturnType<typeof setInterval> | undefined;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let disposed = false;
+
+    const poll = async () => {
+      try {
+        const response = await fetch(
+          `/api/quote?symbols=${encodeURIComponent(symbolKey)}`,
+        );
+        const data = await response.json();
+        if (disposed || !data.quotes) return;
+        onUpdateRef.current({
+          quotes: data.quotes as MarketQuote[],
+          asOf: data.asOf ?? new Date().toISOString(),
+          stale: Boolean(data.stale),
+        });
+      } catch (error) {
+        console.error("Failed to poll quotes:", error);
+      }
+    };
+
+    const startPolling = () => {
+      setMode("polling");
+      void poll();
+      pollTimer = setInterval(() => void poll(), POLL_INTERVAL_MS);
+      reconnectTimer = setTimeout(connect, RECONNECT_DELAY_MS);
+    };
+
+    function connect() {
+      clearInterval(pollTimer);
+      source = new EventSource(
+        `/api/quote/stream?symbols=${encodeURIComponent(symbolKey)}`,
+      );
+      source.addEventListener("open", () => setMode("stream"));
+      source.addEventListener("quotes", (event) => {
+        onUpdateRef.current(JSON.parse((event as MessageEvent<string>).data));
+      });
+      source.addEventListener("error", () => {
+        source?.close();
+        source = null;
+        if (!disposed) startPolling();
+      });
+    }
+
+    if (typeof EventSource === "undefined") {
+      startPolling();
+    } else {
+      connect();
+    }
+
+    return () => {
+      disposed = true;
+      source?.close();
+      clearInterval(pollTimer);
+      clearTimeout(reconnectTimer);
+    };
+  }, [symbolKey]);
+
+  return mode;
+}
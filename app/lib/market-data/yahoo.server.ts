@@ -0,0 +1,132 @@
+/**
+ * Yahoo Finance 数据源
+ */
+
+import YahooFinance from "yahoo-finance2";
+import type { Quote } from "yahoo-finance2/modules/quote";
+import type {
+  MarketDataProvider,
+  MarketQuote,
+  PriceBar,
+  SearchResult,
+  SymbolProfile,
+} from "./types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Yahoo 行情转换为 MarketQuote
+ */
+export function normalizeYahooQuote(quote: Quote): MarketQuote {
+  return {
+    symbol: quote.symbol,
+    name: quote.longName ?? quote.shortName,
+    currency: quote.currency,
+    exchange: quote.fullExchangeName,
+    price: quote.regularMarketPrice,
+    change: quote.regularMarketChange,
+    changePercent: quote.regularMarketChangePercent,
+    previousClose: quote.regularMarketPreviousClose,
+    fiftyTwoWeekHigh: quote.fiftyTwoWeekHigh,
+    fiftyTwoWeekLow: quote.fiftyTwoWeekLow,
+    volume: quote.regularMarketVolume,
+    avgVolume: quote.averageDailyVolume3Month,
+    trailingPE: quote.trailingPE,
+    forwardPE: quote.forwardPE,
+    priceToBook: quote.priceToBook,
+    marketCap: quote.marketCap,
+  };
+}
+
+/**
+ * 创建 Yahoo Finance 数据源
+ */
+export function createYahooProvider(): MarketDataProvider {
+  const yahooFinance = new YahooFinance({ suppressNotices: ["yahooSurvey"] });
+
+  return {
+    name: "yahoo",
+
+    async getQuotes(symbols) {
+      if (symbols.length === 0) return [];
+      const quotes = await yahooFinance.quote(symbols);
+      return quotes.map(normalizeYahooQuote);
+    },
+
+    async getBars(symbol, query) {
+      const chart = await yahooFinance.chart(symbol, {
+        period1: new Date(Date.now() - query.days * DAY_MS),
+        interval: query.interval,
+      });
+      return chart.quotes.map(
+        (q): PriceBar => ({
+          date: q.date.toISOString(),
+          open: q.open,
+          high: q.high,
+          low: q.low,
+          close: q.close,
+          volume: q.volume,
+        }),
+      );
+    },
+
+    async search(query, limit = 10) {
+      const result = await yahooFinance.search(query, {
+        quotesCount: limit,
+        newsCount: 0,
+      });
+      // 只返回 Yahoo Finance 的结果
+      return result.quotes
+        .filter((q) => q.isYahooFinance)
+        .map(
+          (q): SearchResult => ({
+            symbol: q.symbol,
+            name: "shortname" in q ? (q.shortname ?? q.symbol) : q.symbol,
+            type: "quoteType" in q ? q.quoteType : "UNKNOWN",
+            exchange: "exchange" in q ? q.exchange : "",
+          }),
+        );
+    },
+
+    async getProfile(symbol) {
+      const summary = await yahooFinance.quoteSummary(symbol, {
+        modules: ["price", "summaryDetail", "summaryProfile"],
+      });
+      const { price, summaryDetail: detail, summaryProfile } = summary;
+      const profile: SymbolProfile = {
+        symbol: price?.symbol ?? symbol,
+        name: price?.longName || price?.shortName || undefined,
+        currency: price?.currency,
+        exchange: price?.exchangeName,
+        price: price?.regularMarketPrice,
+        change: price?.regularMarketChange,
+        // quoteSummary 的涨跌幅是小数，统一为百分比
+        changePercent:
+          price?.regularMarketChangePercent === undefined
+            ? undefined
+            : price.regularMarketChangePercent * 100,
+        previousClose: detail?.previousClose,
+        open: detail?.open,
+        dayHigh: detail?.dayHigh,
+        dayLow: detail?.dayLow,
+        fiftyTwoWeekHigh: detail?.fiftyTwoWeekHigh,
+        fiftyTwoWeekLow: detail?.fiftyTwoWeekLow,
+        volume: detail?.volume,
+        avgVolume: detail?.averageVolume,
+        marketCap: detail?.marketCap,
+        pe: detail?.trailingPE,
+        // summaryDetail 类型中没有 trailingEps，有值时才返回
+        eps:
+          typeof detail?.trailingEps === "number"
+            ? detail.trailingEps
+            : undefined,
+        dividend: detail?.dividendYield,
+        beta: detail?.beta,
+        sector: summaryProfile?.sector,
+        industry: summaryProfile?.industry,
+        description: summaryProfile?.longBusinessSummary,
+      };
+      return profile;
+    },
+  };
+}
@@ -0,0 +1,18 @@
+/**
+ * 服务端后台任务启动
+ *
+ * 由 root 路由的 loader 调用，进程内第一次渲染页面时启动全部后台任务，
+ * 之后的调用不做任何事。新的后台任务在这里注册。
+ */
+
+import { startAlertJob } from "~/lib/alerts/job.server";
+
+let bootstrapped = false;
+
+export function bootstrapServer(): void {
+  if (bootstrapped) return;
+  bootstrapped = true;
+
+  // 定时检查价格提醒
+  startAlertJob();
+}
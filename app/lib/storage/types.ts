@@ -47,3 +47,107 @@ export const DEFAULT_GROUPS_DATA: GroupsData = {
   groups: [{ id: "default", name: "default", symbols: DEFAULT_SYMBOLS }],
   activeGroupId: "default",
 };
+
+// ============================================================================
+// 价格提醒
+// ============================================================================
+
+/**
+ * 提醒条件
+ *
+ * - price_above / price_below：价格高于 / 低于 price
+ * - change_percent：当日涨跌幅达到 percent（正数为涨，负数为跌）
+ * - high_52w / low_52w：创 52 周新高 / 新低
+ * - volume_spike：成交量达到平均成交量的 multiple 倍
+ */
+export type AlertCondition =
+  | { type: "price_above"; price: number }
+  | { type: "price_below"; price: number }
+  | { type: "change_percent"; percent: number }
+  | { type: "high_52w" }
+  | { type: "low_52w" }
+  | { type: "volume_spike"; multiple: number };
+
+export type AlertConditionType = AlertCondition["type"];
+
+/**
+ * 提醒模式：once 触发一次后停用，repeat 条件重新满足时再次触发
+ */
+export type AlertMode = "once" | "repeat";
+
+export interface PriceAlert {
+  id: string;
+  symbol: string;
+  condition: AlertCondition;
+  mode: AlertMode;
+  enabled: boolean;
+  /** 暂停到该时间（ISO），期间不检查 */
+  snoozedUntil: string | null;
+  /** 上次检查时条件是否满足，条件从不满足变为满足时才触发 */
+  conditionMet: boolean;
+  lastTriggeredAt: string | null;
+  createdAt: string;
+}
+
+/**
+ * 提醒触发记录
+ */
+export interface AlertNotification {
+  id: string;
+  alertId: string;
+  symbol: string;
+  condition: AlertCondition;
+  /** 触发时的价格 */
+  price: number | null;
+  /** 触发时的涨跌幅 / 成交量倍数等，与条件对应 */
+  value: number | null;
+  triggeredAt: string;
+  read: boolean;
+}
+
+export interface AlertsData {
+  alerts: PriceAlert[];
+  /** 触发记录，最新的在前 */
+  notifications: AlertNotification[];
+}
+
+export const DEFAULT_ALERTS_DATA: AlertsData = {
+  alerts: [],
+  notifications: [],
+};
+
+// ============================================================================
+// 图表技术指标设置
+// ============================================================================
+
+/**
+ * 副图指标
+ */
+export type OscillatorType = "none" | "rsi" | "macd";
+
+export interface IndicatorSettings {
+  /** 主图叠加的指标 */
+  overlays: { sma: boolean; ema: boolean; bollinger: boolean; vwap: boolean };
+  oscillator: OscillatorType;
+  smaPeriod: number;
+  emaPeriod: number;
+  bollingerPeriod: number;
+  bollingerMultiplier: number;
+  rsiPeriod: number;
+  macdFast: number;
+  macdSlow: number;
+  macdSignal: number;
+}
+
+export const DEFAULT_INDICATOR_SETTINGS: IndicatorSettings = {
+  overlays: { sma: false, ema: false, bollinger: false, vwap: false },
+  oscillator: "none",
+  smaPeriod: 20,
+  emaPeriod: 50,
+  bollingerPeriod: 20,
+  bollingerMultiplier: 2,
+  rsiPeriod: 14,
+  macdFast: 12,
+  macdSlow: 26,
+  macdSignal: 9,
+};
@@ -15,6 +15,19 @@ import { Footer } from "./components/footer";
 import { I18nProvider, useI18n } from "./lib/i18n";
 import { AuthProvider } from "./lib/firebase/auth-context";
 import FearGreedIndex from "./components/fear-greed-index";
+import { bootstrapServer } from "./lib/server/bootstrap.server";
+
+/**
+ * 启动服务端后台任务；没有数据，客户端导航时不需要重新请求
+ */
+export function loader() {
+  bootstrapServer();
+  return null;
+}
+
+export function shouldRevalidate() {
+  return false;
+}
 
 export const links: Route.LinksFunction = () => [
   { rel: "preconnect", href: "https://fonts.googleapis.com" },
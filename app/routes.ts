@@ -5,9 +5,11 @@ export default [
   index("routes/home.tsx"),
   route("assets", "routes/assets.tsx"),
   route("records", "routes/records.tsx"),
+  route("reports", "routes/reports.tsx"),
   // API routes
   route("api/search", "routes/api.search.ts"),
   route("api/quote", "routes/api.quote.ts"),
+  route("api/quote/stream", "routes/api.quote.stream.ts"),
   route("api/stock-detail", "routes/api.stock-detail.ts"),
   route("api/chart", "routes/api.chart.ts"),
   // Auth routes
@@ -1,20 +1,19 @@
-import YahooFinance from "yahoo-finance2";
+import { getMarketDataCache } from "~/lib/market-data/provider.server";
+import type { BarQuery } from "~/lib/market-data/types";
 
-type TimeRange = "1D" | "5D" | "1M" | "3M" | "6M" | "1Y" | "5Y";
+type TimeRange = "1D" | "5D" | "1M" | "3M" | "6M" | "1Y" | "2Y" | "5Y" | "MAX";
 
-interface RangeConfig {
-  days: number;
-  interval: "1m" | "5m" | "15m" | "1h" | "1d" | "1wk";
-}
-
-const rangeConfigs: Record<TimeRange, RangeConfig> = {
+const rangeConfigs: Record<TimeRange, BarQuery> = {
   "1D": { days: 1, interval: "5m" },
   "5D": { days: 5, interval: "15m" },
   "1M": { days: 30, interval: "1h" },
   "3M": { days: 90, interval: "1d" },
   "6M": { days: 180, interval: "1d" },
   "1Y": { days: 365, interval: "1d" },
+  "2Y": { days: 365 * 2, interval: "1d" },
   "5Y": { days: 365 * 5, interval: "1wk" },
+  // 业绩计算需要全部历史的日收盘价
+  MAX: { days: 365 * 30, interval: "1d" },
 };
 
 export async function loader({ request }: { request: Request }) {
@@ -29,23 +28,12 @@ export async function loader({ request }: { request: Request }) {
   const config = rangeConfigs[range] || rangeConfigs["3M"];
 
   try {
-    const yahooFinance = new YahooFinance({ suppressNotices: ["yahooSurvey"] });
-
-    const chartData = await yahooFinance.chart(symbol, {
-      period1: new Date(Date.now() - config.days * 24 * 60 * 60 * 1000),
-      interval: config.interval,
-    });
-
-    return Response.json({
-      chart: chartData.quotes.map((q) => ({
-        date: q.date,
-        open: q.open,
-        high: q.high,
-        low: q.low,
-        close: q.close,
-        volume: q.volume,
-      })),
-    });
+    const {
+      data: chart,
+      asOf,
+      stale,
+    } = await getMarketDataCache().getBars(symbol, config);
+    return Response.json({ chart, asOf, stale });
   } catch (error) {
     console.error("Chart error:", error);
     return Response.json(
@@ -0,0 +1,63 @@
+import { getQuoteHub } from "~/lib/market-data/provider.server";
+import { parseStreamSymbols } from "~/lib/market-data/quote-hub";
+
+// 定期发送注释，避免代理关闭空闲连接
+const HEARTBEAT_MS = 15 * 1000;
+
+/**
+ * 行情推送（Server-Sent Events）
+ *
+ * 首次推送完整行情，之后只推送变化的字段：`event: quotes`，data 为
+ * QuoteUpdate。连接断开时取消订阅。
+ */
+export async function loader({ request }: { request: Request }) {
+  const url = new URL(request.url);
+  const parsed = parseStreamSymbols(url.searchParams.get("symbols") ?? "");
+  if ("error" in parsed) {
+    return Response.json({ error: parsed.error }, { status: 400 });
+  }
+  const { symbols } = parsed;
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      const send = (chunk: string) => {
+        if (!closed) controller.enqueue(encoder.encode(chunk));
+      };
+
+      const unsubscribe = getQuoteHub().subscribe(symbols, (update) => {
+        send(`event: quotes\ndata: ${JSON.stringify(update)}\n\n`);
+      });
+      const heartbeat = setInterval(() => send(": ping\n\n"), HEARTBEAT_MS);
+
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        unsubscribe();
+        clearInterval(heartbeat);
+      };
+      request.signal.addEventListener("abort", () => {
+        if (closed) return;
+        cleanup();
+        controller.close();
+      });
+
+      // 断线后浏览器 3 秒重连
+      send("retry: 3000\n\n");
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
@@ -1,4 +1,4 @@
-import YahooFinance from "yahoo-finance2";
+import { getMarketDataCache } from "~/lib/market-data/provider.server";
 
 export async function loader({ request }: { request: Request }) {
   const url = new URL(request.url);
@@ -15,9 +15,12 @@ export async function loader({ request }: { request: Request }) {
   }
 
   try {
-    const yahooFinance = new YahooFinance({ suppressNotices: ["yahooSurvey"] });
-    const quotes = await yahooFinance.quote(symbols);
-    return Response.json({ quotes });
+    const {
+      data: quotes,
+      asOf,
+      stale,
+    } = await getMarketDataCache().getQuotes(symbols);
+    return Response.json({ quotes, asOf, stale });
   } catch (error) {
     console.error("Quote error:", error);
     return Response.json({ quotes: [], error: "Quote fetch failed" });
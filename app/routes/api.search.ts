@@ -1,4 +1,4 @@
-import YahooFinance from "yahoo-finance2";
+import { getMarketDataProvider } from "~/lib/market-data/provider.server";
 
 export async function loader({ request }: { request: Request }) {
   const url = new URL(request.url);
@@ -9,22 +9,7 @@ export async function loader({ request }: { request: Request }) {
   }
 
   try {
-    const yahooFinance = new YahooFinance({ suppressNotices: ["yahooSurvey"] });
-    const result = await yahooFinance.search(query, {
-      quotesCount: 10,
-      newsCount: 0,
-    });
-
-    // 只返回 Yahoo Finance 的结果
-    const quotes = result.quotes
-      .filter((q) => q.isYahooFinance)
-      .map((q) => ({
-        symbol: q.symbol,
-        name: "shortname" in q ? q.shortname : q.symbol,
-        type: "quoteType" in q ? q.quoteType : "UNKNOWN",
-        exchange: "exchange" in q ? q.exchange : "",
-      }));
-
+    const quotes = await getMarketDataProvider().search(query, 10);
     return Response.json({ quotes });
   } catch (error) {
     console.error("Search error:", error);
@@ -1,4 +1,5 @@
-import YahooFinance from "yahoo-finance2";
+import { combineCached } from "~/lib/market-data/cache";
+import { getMarketDataCache } from "~/lib/market-data/provider.server";
 
 export async function loader({ request }: { request: Request }) {
   const url = new URL(request.url);
@@ -9,53 +10,20 @@ export async function loader({ request }: { request: Request }) {
   }
 
   try {
-    const yahooFinance = new YahooFinance({ suppressNotices: ["yahooSurvey"] });
+    const cache = getMarketDataCache();
 
-    // 获取股票摘要信息
-    const [summary, chartData] = await Promise.all([
-      yahooFinance.quoteSummary(symbol, {
-        modules: ["price", "summaryDetail", "summaryProfile"],
-      }),
-      yahooFinance.chart(symbol, {
-        period1: new Date(Date.now() - 90 * 24 * 60 * 60 * 1000), // 90天前
-        interval: "1d",
-      }),
+    // 获取股票摘要信息和 90 天日线
+    const [summary, chart] = await Promise.all([
+      cache.getProfile(symbol),
+      cache.getBars(symbol, { days: 90, interval: "1d" }),
     ]);
+    const { asOf, stale } = combineCached(null, [summary, chart], Date.now());
 
     return Response.json({
-      summary: {
-        symbol: summary.price?.symbol,
-        name: summary.price?.longName || summary.price?.shortName,
-        currency: summary.price?.currency,
-        exchange: summary.price?.exchangeName,
-        price: summary.price?.regularMarketPrice,
-        change: summary.price?.regularMarketChange,
-        changePercent: summary.price?.regularMarketChangePercent,
-        previousClose: summary.summaryDetail?.previousClose,
-        open: summary.summaryDetail?.open,
-        dayHigh: summary.summaryDetail?.dayHigh,
-        dayLow: summary.summaryDetail?.dayLow,
-        fiftyTwoWeekHigh: summary.summaryDetail?.fiftyTwoWeekHigh,
-        fiftyTwoWeekLow: summary.summaryDetail?.fiftyTwoWeekLow,
-        volume: summary.summaryDetail?.volume,
-        avgVolume: summary.summaryDetail?.averageVolume,
-        marketCap: summary.summaryDetail?.marketCap,
-        pe: summary.summaryDetail?.trailingPE,
-        eps: summary.summaryDetail?.trailingEps,
-        dividend: summary.summaryDetail?.dividendYield,
-        beta: summary.summaryDetail?.beta,
-        sector: summary.summaryProfile?.sector,
-        industry: summary.summaryProfile?.industry,
-        description: summary.summaryProfile?.longBusinessSummary,
-      },
-      chart: chartData.quotes.map((q) => ({
-        date: q.date,
-        open: q.open,
-        high: q.high,
-        low: q.low,
-        close: q.close,
-        volume: q.volume,
-      })),
+      summary: summary.data,
+      chart: chart.data,
+      asOf,
+      stale,
     });
   } catch (error) {
     console.error("Stock detail error:", error);
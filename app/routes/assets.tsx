@@ -1,10 +1,20 @@
 import { useMemo, useState, memo } from "react";
 import { AccountType } from "~/lib/double-entry/types";
 import { useI18n } from "~/lib/i18n";
-import { buildAccountGroups, buildAssetsOverview } from "~/lib/accounting/view";
+import {
+  buildAccountGroups,
+  buildAssetsOverview,
+  buildBudgetRows,
+} from "~/lib/accounting/view";
 import { useBookData } from "~/lib/accounting/use-book";
 import { useAuth } from "~/lib/firebase/auth-context";
 import { AccountFormDialog } from "~/components/accounting/account-form-dialog";
+import { BalanceCheckDialog } from "~/components/accounting/balance-check-dialog";
+import { BudgetDialog } from "~/components/accounting/budget-dialog";
+import { ClosingDialog } from "~/components/accounting/closing-dialog";
+import { ReconcileDialog } from "~/components/accounting/reconcile-dialog";
+import { HoldingsSection } from "~/components/accounting/holdings-section";
+import { DividendsSection } from "~/components/accounting/dividends-section";
 import { Badge } from "~/components/ui/badge";
 import { Button } from "~/components/ui/button";
 import { cn } from "~/lib/utils";
@@ -41,9 +51,26 @@ export default function Assets() {
     isLoading,
     error,
     source,
-    reload,
+    canWrite,
+    isOwner,
+    createAccount,
+    checkBalances,
+    repairBalances,
+    saveBudgets,
+    closePeriod,
+    reopenPeriod,
+    saveReconciliations,
+    setLineCleared,
+    finishReconciliation,
+    saveBalanceAssertions,
+    createSplitEntry,
+    addCorporateAction,
   } = useBookData();
   const [isFormOpen, setIsFormOpen] = useState(false);
+  const [isCheckOpen, setIsCheckOpen] = useState(false);
+  const [isBudgetOpen, setIsBudgetOpen] = useState(false);
+  const [isClosingOpen, setIsClosingOpen] = useState(false);
+  const [isReconcileOpen, setIsReconcileOpen] = useState(false);
   const parentOptions = useMemo(
     () => book?.accounts.filter((account) => !account.archived) ?? [],
     [book],
@@ -64,7 +91,9 @@ export default function Assets() {
   }
 
   if (!book) {
-    const pendingInvites = invites.filter((invite) => invite.status === "pending");
+    const pendingInvites = invites.filter(
+      (invite) => invite.status === "pending",
+    );
     return (
       <main className='page-area my-2 space-y-3'>
         <BookSelector
@@ -94,7 +123,9 @@ export default function Assets() {
                   key={invite.id}
                   className='flex items-center justify-between rounded-xs border px-3 py-2 text-xs'>
                   <div className='min-w-0'>
-                    <p className='text-foreground truncate'>{invite.bookName}</p>
+                    <p className='text-foreground truncate'>
+                      {invite.bookName}
+                    </p>
                     <p className='text-muted-foreground truncate text-[10px]'>
                       {invite.inviteeEmail}
                     </p>
@@ -124,7 +155,8 @@ export default function Assets() {
     AccountType.ASSETS,
     AccountType.LIABILITIES,
   ]);
-  const isDisconnected = source === "demo" || source === "empty";
+  const budgetRows = buildBudgetRows(book);
+  const isDisconnected = source !== "cloud";
   const sourceLabel = isDisconnected ? t.sync.disconnected : t.sync.connected;
   const sourceVariant = isDisconnected ? "secondary" : "outline";
 
@@ -163,12 +195,33 @@ export default function Assets() {
             onAcceptInvite={acceptInvite}
           />
         </div>
-        <Button
-          variant='outline'
-          disabled={!user}
-          onClick={() => setIsFormOpen(true)}>
-          {t.assets.addAccount}
-        </Button>
+        <div className='flex items-center gap-2'>
+          {isOwner ? (
+            <Button variant='ghost' onClick={() => setIsCheckOpen(true)}>
+              {t.rebuild.button}
+            </Button>
+          ) : null}
+          {isOwner ? (
+            <Button variant='ghost' onClick={() => setIsClosingOpen(true)}>
+              {t.closing.manage}
+            </Button>
+          ) : null}
+          <Button variant='ghost' onClick={() => setIsReconcileOpen(true)}>
+            {t.reconcile.manage}
+          </Button>
+          <Button
+            variant='ghost'
+            disabled={!canWrite}
+            onClick={() => setIsBudgetOpen(true)}>
+            {t.budgets.manage}
+          </Button>
+          <Button
+            variant='outline'
+            disabled={!canWrite}
+            onClick={() => setIsFormOpen(true)}>
+            {t.assets.addAccount}
+          </Button>
+        </div>
       </header>
       {error ? (
         <div className='border-destructive/50 bg-destructive/5 text-destructive rounded-xs border px-3 py-2 text-xs'>
@@ -181,9 +234,42 @@ export default function Assets() {
         onOpenChange={setIsFormOpen}
         parentOptions={parentOptions}
         defaultParentId={defaultParentId}
-        userId={user?.id}
-        bookId={selectedBookId ?? undefined}
-        onCreated={reload}
+        onSubmit={createAccount}
+      />
+      {isOwner ? (
+        <BalanceCheckDialog
+          open={isCheckOpen}
+          onOpenChange={setIsCheckOpen}
+          onCheck={checkBalances}
+          onRepair={repairBalances}
+        />
+      ) : null}
+      {isOwner ? (
+        <ClosingDialog
+          open={isClosingOpen}
+          onOpenChange={setIsClosingOpen}
+          closings={book.closings ?? []}
+          onClose={closePeriod}
+          onReopen={reopenPeriod}
+        />
+      ) : null}
+      <ReconcileDialog
+        open={isReconcileOpen}
+        onOpenChange={setIsReconcileOpen}
+        book={book}
+        canWrite={canWrite}
+        onSaveReconciliations={saveReconciliations}
+        onSetLineCleared={setLineCleared}
+        onFinish={finishReconciliation}
+        onSaveAssertions={saveBalanceAssertions}
+      />
+      <BudgetDialog
+        open={isBudgetOpen}
+        onOpenChange={setIsBudgetOpen}
+        budgets={book.budgets ?? []}
+        accounts={book.accounts}
+        baseCurrency={book.defaultCurrency}
+        onSave={saveBudgets}
       />
 
       <section className='grid gap-3 md:grid-cols-3'>
@@ -195,6 +281,28 @@ export default function Assets() {
         />
       </section>
 
+      {budgetRows.length > 0 ? (
+        <section className='space-y-2'>
+          <p className='text-muted-foreground text-[10px] tracking-[0.2em] uppercase'>
+            {t.budgets.title}
+          </p>
+          <div className='grid gap-3 md:grid-cols-2'>
+            {budgetRows.map((row) => (
+              <BudgetCard key={row.id} row={row} />
+            ))}
+          </div>
+        </section>
+      ) : null}
+
+      <HoldingsSection
+        book={book}
+        canWrite={canWrite}
+        onTrade={createSplitEntry}
+        onCorporateAction={addCorporateAction}
+      />
+
+      <DividendsSection book={book} />
+
       <section className='grid gap-4 md:grid-cols-2'>
         {groups.map((group) => (
           <AccountGroupCard
@@ -229,12 +337,8 @@ const AccountGroupCard = memo(function AccountGroupCard({
     <div className='bg-card rounded-xs border p-3 shadow-sm'>
       <div className='flex items-start justify-between gap-3'>
         <div>
-          <h2 className='text-foreground text-xs font-semibold'>
-            {typeLabel}
-          </h2>
-          <p className='text-muted-foreground text-[10px]'>
-            {accountsLabel}
-          </p>
+          <h2 className='text-foreground text-xs font-semibold'>{typeLabel}</h2>
+          <p className='text-muted-foreground text-[10px]'>{accountsLabel}</p>
         </div>
         <div className='flex flex-wrap gap-2'>
           {group.totals.map((total) => (
@@ -247,11 +351,7 @@ const AccountGroupCard = memo(function AccountGroupCard({
 
       <div className='mt-3 space-y-1.5'>
         {group.rows.map((row) => (
-          <AccountRow
-            key={row.id}
-            row={row}
-            archivedLabel={archivedLabel}
-          />
+          <AccountRow key={row.id} row={row} archivedLabel={archivedLabel} />
         ))}
         {group.rows.length === 0 ? createEmptyState(noDataLabel) : null}
       </div>
@@ -274,9 +374,7 @@ const AccountRow = memo(function AccountRow({
         row.isRoot ? "bg-muted/30 font-medium" : "bg-background",
       )}>
       <div className='flex items-center gap-2'>
-        <span
-          className='block'
-          style={{ paddingLeft: row.level * 14 }}>
+        <span className='block' style={{ paddingLeft: row.level * 14 }}>
           {row.name}
         </span>
         {row.archived ? (
@@ -290,6 +388,71 @@ const AccountRow = memo(function AccountRow({
   );
 });
 
+const BudgetCard = memo(function BudgetCard({
+  row,
+}: {
+  row: ReturnType<typeof buildBudgetRows>[number];
+}) {
+  const { t } = useI18n();
+  return (
+    <div className='bg-card space-y-2 rounded-xs border p-3 text-xs shadow-sm'>
+      <div className='flex items-start justify-between gap-3'>
+        <div className='min-w-0'>
+          <h2 className='text-foreground truncate font-semibold'>{row.name}</h2>
+          <p className='text-muted-foreground truncate text-[10px]'>
+            {row.range.start} ~ {row.range.end}
+            {row.scope.length > 0 ? ` · ${row.scope.join(", ")}` : null}
+          </p>
+        </div>
+        <span
+          className={cn(
+            "font-semibold",
+            row.overspent ? "text-destructive" : "text-foreground",
+          )}>
+          {row.percent}%
+        </span>
+      </div>
+      <div className='bg-muted h-1.5 overflow-hidden rounded-xs'>
+        <div
+          className={cn(
+            "h-full",
+            row.overspent
+              ? "bg-destructive"
+              : row.forecastOverspent
+                ? "bg-amber-500"
+                : "bg-primary",
+          )}
+          style={{ width: `${Math.min(row.percent, 100)}%` }}
+        />
+      </div>
+      <div className='text-muted-foreground flex flex-wrap justify-between gap-2 text-[10px]'>
+        <span>
+          {t.budgets.spent} {row.spent} / {t.budgets.available} {row.available}
+        </span>
+        <span className={row.overspent ? "text-destructive" : undefined}>
+          {row.overspent ? t.budgets.overBy : t.budgets.remaining}{" "}
+          {row.remaining}
+        </span>
+      </div>
+      <div className='text-muted-foreground flex flex-wrap gap-2 text-[10px]'>
+        {row.carried ? (
+          <span>
+            {t.budgets.carried} {row.carried}
+          </span>
+        ) : null}
+        <span>
+          {t.budgets.forecast} {row.forecast}
+        </span>
+      </div>
+      {row.overspent ? (
+        <Badge variant='destructive'>{t.budgets.overspentWarning}</Badge>
+      ) : row.forecastOverspent ? (
+        <Badge variant='secondary'>{t.budgets.forecastWarning}</Badge>
+      ) : null}
+    </div>
+  );
+});
+
 const OverviewCard = memo(function OverviewCard({
   title,
   amounts,
@@ -11,7 +11,13 @@ import { StockSearch } from "~/components/stock-search";
 import { StockDetail } from "~/components/stock-detail";
 import { GroupTabs } from "~/components/group-tabs";
 import { useGroupsData } from "~/lib/stock-store";
-import type { Quote } from "yahoo-finance2/modules/quote";
+import type { MarketQuote } from "~/lib/market-data/types";
+import {
+  applyQuotePatches,
+  type QuotePatch,
+  type QuoteUpdate,
+} from "~/lib/market-data/quote-hub";
+import { useQuoteStream } from "~/lib/market-data/use-quote-stream";
 import { Loader2 } from "lucide-react";
 
 export function meta() {
@@ -50,10 +56,12 @@ export default function Home() {
     removeSymbolFromGroup,
     reorderSymbolsInGroup,
   } = useGroupsData();
-  const [quotes, setQuotes] = useState<Quote[]>([]);
+  const [quotes, setQuotes] = useState<MarketQuote[]>([]);
   const [isQuotesLoading, setIsQuotesLoading] = useState(false);
   const [isQuotesPending, startTransition] = useTransition();
   const [openWindows, setOpenWindows] = useState<OpenWindow[]>([]);
+  // 推送的最新行情（按代码），覆盖在 quotes 之上
+  const [liveQuotes, setLiveQuotes] = useState<Record<string, QuotePatch>>({});
   const lastFetchKeyRef = useRef<string | null>(null);
 
   // 构建分组 Map 以优化查找性能 (O(1) vs O(n))
@@ -67,37 +75,71 @@ export default function Home() {
   const currentSymbols = activeGroup?.symbols || [];
 
   // 获取行情数据 - 使用功能更新避免依赖 currentSymbols
-  const fetchQuotes = useCallback(async (symbolList: string[]) => {
-    if (symbolList.length === 0) {
-      startTransition(() => {
-        setQuotes([]);
-      });
-      setIsQuotesLoading(false);
-      return;
-    }
+  const fetchQuotes = useCallback(
+    async (symbolList: string[]) => {
+      if (symbolList.length === 0) {
+        startTransition(() => {
+          setQuotes([]);
+        });
+        setIsQuotesLoading(false);
+        return;
+      }
 
-    setIsQuotesLoading(true);
-    try {
-      const response = await fetch(
-        `/api/quote?symbols=${symbolList.join(",")}`,
-      );
-      const data = await response.json();
-      // 按照 symbolList 的顺序排序 quotes
-      const quotesMap = new Map(
-        (data.quotes || []).map((q: Quote) => [q.symbol, q]),
+      setIsQuotesLoading(true);
+      try {
+        const response = await fetch(
+          `/api/quote?symbols=${symbolList.join(",")}`,
+        );
+        const data = await response.json();
+        // 按照 symbolList 的顺序排序 quotes
+        const quotesMap = new Map(
+          (data.quotes || []).map((q: MarketQuote) => [q.symbol, q]),
+        );
+        const sortedQuotes = symbolList
+          .map((s) => quotesMap.get(s))
+          .filter(Boolean) as MarketQuote[];
+        startTransition(() => {
+          setQuotes(sortedQuotes);
+        });
+      } catch (error) {
+        console.error("Failed to fetch quotes:", error);
+      } finally {
+        setIsQuotesLoading(false);
+      }
+    },
+    [startTransition],
+  );
+
+  // 订阅当前分组和已打开详情窗口的行情推送，推送断开时自动改为轮询
+  const streamSymbols = useMemo(
+    () => [...currentSymbols, ...openWindows.map((w) => w.symbol)],
+    [currentSymbols, openWindows],
+  );
+  const handleQuoteUpdate = useCallback((update: QuoteUpdate) => {
+    setLiveQuotes((prev) => applyQuotePatches(prev, update.quotes));
+  }, []);
+  useQuoteStream(streamSymbols, handleQuoteUpdate);
+
+  // 订阅的代码变化时，丢弃不再订阅的推送行情
+  useEffect(() => {
+    const subscribed = new Set(streamSymbols.map((s) => s.toUpperCase()));
+    setLiveQuotes((prev) => {
+      const kept = Object.entries(prev).filter(([symbol]) =>
+        subscribed.has(symbol.toUpperCase()),
       );
-      const sortedQuotes = symbolList
-        .map((s) => quotesMap.get(s))
-        .filter(Boolean) as Quote[];
-      startTransition(() => {
-        setQuotes(sortedQuotes);
-      });
-    } catch (error) {
-      console.error("Failed to fetch quotes:", error);
-    } finally {
-      setIsQuotesLoading(false);
-    }
-  }, [startTransition]);
+      return kept.length === Object.keys(prev).length
+        ? prev
+        : Object.fromEntries(kept);
+    });
+  }, [streamSymbols]);
+
+  const displayQuotes = useMemo(
+    () =>
+      quotes.map((q) =>
+        liveQuotes[q.symbol] ? { ...q, ...liveQuotes[q.symbol] } : q,
+      ),
+    [quotes, liveQuotes],
+  );
 
   // 初始化加载 - 使用原始值作为依赖，避免整个 groupsData 对象
   useEffect(() => {
@@ -160,15 +202,18 @@ export default function Home() {
       const activeGroupId = groupsData.activeGroupId;
       await addSymbolToGroup(activeGroupId, symbol);
       // 重新获取最新分组数据
-      const group = groupsData.groups.find(
-        (g) => g.id === activeGroupId,
-      );
+      const group = groupsData.groups.find((g) => g.id === activeGroupId);
       if (group) {
         setIsQuotesLoading(true);
         await fetchQuotes(group.symbols);
       }
     },
-    [addSymbolToGroup, groupsData.activeGroupId, groupsData.groups, fetchQuotes],
+    [
+      addSymbolToGroup,
+      groupsData.activeGroupId,
+      groupsData.groups,
+      fetchQuotes,
+    ],
   );
 
   // 删除股票 - 使用功能更新避免依赖 quotes 状态
@@ -188,7 +233,7 @@ export default function Home() {
         const quotesMap = new Map(prevQuotes.map((q) => [q.symbol, q]));
         return newOrder
           .map((s) => quotesMap.get(s))
-          .filter(Boolean) as Quote[];
+          .filter(Boolean) as MarketQuote[];
       });
       // 保存到存储
       await reorderSymbolsInGroup(groupsData.activeGroupId, newOrder);
@@ -249,9 +294,11 @@ export default function Home() {
       </div>
 
       {/* 行情数据加载状态 */}
-      {isQuotesBusy ? loadingSpinner : (
+      {isQuotesBusy ? (
+        loadingSpinner
+      ) : (
         <QuoteTable
-          quotes={quotes}
+          quotes={displayQuotes}
           onRemoveSymbol={handleRemoveSymbol}
           onReorder={handleReorder}
           onSymbolClick={handleSymbolClick}
@@ -264,6 +311,7 @@ export default function Home() {
           key={window.symbol}
           symbol={window.symbol}
           position={window.position}
+          liveQuote={liveQuotes[window.symbol]}
           onClose={() => handleCloseWindow(window.symbol)}
         />
       ))}
@@ -3,15 +3,32 @@ import { useI18n } from "~/lib/i18n";
 import {
   buildEntryRows,
   buildPeriodSummary,
+  buildUpcomingRows,
   getCurrentMonthRange,
+  type UpcomingRow,
 } from "~/lib/accounting/view";
+import {
+  buildOccurrenceEntry,
+  type RecurringOccurrenceRef,
+} from "~/lib/double-entry/recurring";
 import { useBookData } from "~/lib/accounting/use-book";
 import { useAuth } from "~/lib/firebase/auth-context";
 import { EntryFormDialog } from "~/components/accounting/entry-form-dialog";
+import { EntryConflictDialog } from "~/components/accounting/entry-conflict-dialog";
+import { EntryHistoryDialog } from "~/components/accounting/entry-history-dialog";
+import { CsvImportDialog } from "~/components/accounting/csv-import-dialog";
+import { PlainTextDialog } from "~/components/accounting/plaintext-dialog";
+import { RulesDialog } from "~/components/accounting/rules-dialog";
+import { RecurringDialog } from "~/components/accounting/recurring-dialog";
 import { Badge } from "~/components/ui/badge";
 import { Button } from "~/components/ui/button";
 import { cn } from "~/lib/utils";
 import { BookSelector } from "~/components/book-selector";
+import { ConfirmPopover } from "~/components/confirm-popover";
+import type {
+  SimpleEntryInput,
+  SplitEntryInput,
+} from "~/lib/accounting/book-service";
 
 export function meta() {
   return [
@@ -44,9 +61,56 @@ export default function Records() {
     isLoading,
     error,
     source,
-    reload,
+    canWrite,
+    createSimpleEntry,
+    createSplitEntry,
+    importEntries,
+    exportPlainText,
+    importPlainText,
+    saveRules,
+    reapplyRules,
+    saveRecurring,
+    postRecurring,
+    skipRecurring,
+    postEditedOccurrence,
+    updateEntry,
+    deleteEntry,
+    conflict,
+    resolveConflict,
+    loadEntryHistory,
+    restoreRevision,
   } = useBookData();
   const [isFormOpen, setIsFormOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isPlainTextOpen, setIsPlainTextOpen] = useState(false);
+  const [isRulesOpen, setIsRulesOpen] = useState(false);
+  const [editingEntryId, setEditingEntryId] = useState<string | null>(null);
+  const [historyEntryId, setHistoryEntryId] = useState<string | null>(null);
+  const [repeatEntryId, setRepeatEntryId] = useState<string | null>(null);
+  // 正在编辑的定期交易发生（提交后推进模板游标）
+  const [editingOccurrence, setEditingOccurrence] =
+    useState<RecurringOccurrenceRef | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const editingEntry = useMemo(
+    () => book?.entries.find((entry) => entry.id === editingEntryId) ?? null,
+    [book, editingEntryId],
+  );
+  const historyEntry = useMemo(
+    () => book?.entries.find((entry) => entry.id === historyEntryId) ?? null,
+    [book, historyEntryId],
+  );
+  const repeatEntry = useMemo(
+    () => book?.entries.find((entry) => entry.id === repeatEntryId) ?? null,
+    [book, repeatEntryId],
+  );
+  const occurrenceDraft = useMemo(() => {
+    const template = book?.recurring?.find(
+      (item) => item.id === editingOccurrence?.templateId,
+    );
+    return template && editingOccurrence
+      ? buildOccurrenceEntry(template, editingOccurrence.date)
+      : null;
+  }, [book, editingOccurrence]);
   const accountOptions = useMemo(
     () => book?.accounts.filter((account) => !account.archived) ?? [],
     [book],
@@ -71,7 +135,9 @@ export default function Records() {
   }
 
   if (!book) {
-    const pendingInvites = invites.filter((invite) => invite.status === "pending");
+    const pendingInvites = invites.filter(
+      (invite) => invite.status === "pending",
+    );
     return (
       <main className='page-area my-2 space-y-3'>
         <BookSelector
@@ -101,7 +167,9 @@ export default function Records() {
                   key={invite.id}
                   className='flex items-center justify-between rounded-xs border px-3 py-2 text-xs'>
                   <div className='min-w-0'>
-                    <p className='text-foreground truncate'>{invite.bookName}</p>
+                    <p className='text-foreground truncate'>
+                      {invite.bookName}
+                    </p>
                     <p className='text-muted-foreground truncate text-[10px]'>
                       {invite.inviteeEmail}
                     </p>
@@ -129,13 +197,93 @@ export default function Records() {
   const monthRange = getCurrentMonthRange();
   const summary = buildPeriodSummary(book, monthRange);
   const entries = buildEntryRows(book);
+  const upcoming = buildUpcomingRows(book);
+  const dueOccurrences = upcoming.filter((row) => row.due);
+  const dueCount = dueOccurrences.reduce(
+    (count, row) => count + row.dueDates.length,
+    0,
+  );
   const categoryLabels = {
     expense: t.records.expense,
     income: t.records.income,
     transfer: t.records.transfer,
     unknown: t.records.entryType,
   };
-  const isDisconnected = source === "demo" || source === "empty";
+  const handleFormOpenChange = (open: boolean) => {
+    setIsFormOpen(open);
+    if (!open) {
+      setEditingEntryId(null);
+      setEditingOccurrence(null);
+    }
+  };
+  const handleCreate = () => {
+    setEditingEntryId(null);
+    setEditingOccurrence(null);
+    setIsFormOpen(true);
+  };
+  const handleEdit = (entryId: string) => {
+    setEditingEntryId(entryId);
+    setIsFormOpen(true);
+  };
+  const handleDelete = async (entryId: string) => {
+    setActionError(null);
+    try {
+      await deleteEntry(entryId);
+    } catch (error) {
+      setActionError(error instanceof Error ? error.message : t.common.error);
+    }
+  };
+  const runRecurringAction = async (action: () => Promise<void>) => {
+    setActionError(null);
+    try {
+      await action();
+    } catch (error) {
+      setActionError(error instanceof Error ? error.message : t.common.error);
+    }
+  };
+  const handlePostOccurrence = (row: UpcomingRow) =>
+    runRecurringAction(() =>
+      postRecurring([{ templateId: row.templateId, date: row.date }]),
+    );
+  const handlePostDue = () =>
+    runRecurringAction(() =>
+      postRecurring(
+        dueOccurrences.flatMap((row) =>
+          row.dueDates.map((date) => ({ templateId: row.templateId, date })),
+        ),
+      ),
+    );
+  const handleSkipOccurrence = (row: UpcomingRow) =>
+    runRecurringAction(() =>
+      skipRecurring({ templateId: row.templateId, date: row.date }),
+    );
+  const handleEditOccurrence = (row: UpcomingRow) => {
+    setEditingEntryId(null);
+    setEditingOccurrence({ templateId: row.templateId, date: row.date });
+    setIsFormOpen(true);
+  };
+  const handleStopRecurring = (templateId: string) =>
+    runRecurringAction(() =>
+      saveRecurring(
+        (book.recurring ?? []).filter((item) => item.id !== templateId),
+      ),
+    );
+  // 编辑后的定期交易发生按普通分录写入，并推进模板游标
+  const handleSubmitSimple = async (input: SimpleEntryInput) => {
+    if (editingEntry) return updateEntry(editingEntry.id, input);
+    if (editingOccurrence) {
+      return postEditedOccurrence(editingOccurrence, input);
+    }
+    await createSimpleEntry(input);
+  };
+  const handleSubmitSplit = async (input: SplitEntryInput) => {
+    if (editingEntry) return updateEntry(editingEntry.id, input);
+    if (editingOccurrence) {
+      return postEditedOccurrence(editingOccurrence, input);
+    }
+    await createSplitEntry(input);
+  };
+  const isDisconnected = source !== "cloud";
   const sourceLabel = isDisconnected ? t.sync.disconnected : t.sync.connected;
   const sourceVariant = isDisconnected ? "secondary" : "outline";
 
@@ -166,24 +314,97 @@ export default function Records() {
             onAcceptInvite={acceptInvite}
           />
         </div>
-        <Button disabled={!user} onClick={() => setIsFormOpen(true)}>
-          {t.records.newEntry}
-        </Button>
+        <div className='flex items-center gap-2'>
+          <Button variant='outline' onClick={() => setIsRulesOpen(true)}>
+            {t.rules.button}
+          </Button>
+          <Button
+            variant='outline'
+            disabled={!canWrite}
+            onClick={() => setIsImportOpen(true)}>
+            {t.csvImport.button}
+          </Button>
+          <Button variant='outline' onClick={() => setIsPlainTextOpen(true)}>
+            {t.plainText.button}
+          </Button>
+          <Button disabled={!canWrite} onClick={handleCreate}>
+            {t.records.newEntry}
+          </Button>
+        </div>
       </header>
-      {error ? (
+      {error || actionError ? (
         <div className='border-destructive/50 bg-destructive/5 text-destructive rounded-xs border px-3 py-2 text-xs'>
-          {error}
+          {error ?? actionError}
         </div>
       ) : null}
       <EntryFormDialog
         open={isFormOpen}
-        onOpenChange={setIsFormOpen}
+        onOpenChange={handleFormOpenChange}
         accountOptions={accountOptions}
         defaultDebitId={defaultDebitId}
         defaultCreditId={defaultCreditId}
-        userId={user?.id}
-        bookId={selectedBookId ?? undefined}
-        onCreated={reload}
+        baseCurrency={book.defaultCurrency}
+        exchangeRates={book.exchangeRates}
+        rules={book.rules}
+        entry={editingEntry}
+        draft={occurrenceDraft}
+        onSubmit={handleSubmitSimple}
+        onSubmitSplit={handleSubmitSplit}
+      />
+      <CsvImportDialog
+        open={isImportOpen}
+        onOpenChange={setIsImportOpen}
+        book={book}
+        accountOptions={accountOptions}
+        defaultAccountId={defaultCreditId}
+        defaultCounterAccountId={defaultDebitId}
+        onImport={importEntries}
+      />
+      <PlainTextDialog
+        open={isPlainTextOpen}
+        onOpenChange={setIsPlainTextOpen}
+        bookName={book.name}
+        canWrite={canWrite}
+        onExport={exportPlainText}
+        onImport={importPlainText}
+      />
+      <RulesDialog
+        open={isRulesOpen}
+        onOpenChange={setIsRulesOpen}
+        rules={book.rules ?? []}
+        accountOptions={accountOptions}
+        baseCurrency={book.defaultCurrency}
+        canWrite={canWrite}
+        onSave={saveRules}
+        onReapply={reapplyRules}
+      />
+      <RecurringDialog
+        open={!!repeatEntry}
+        onOpenChange={(open) => {
+          if (!open) setRepeatEntryId(null);
+        }}
+        entry={repeatEntry}
+        onSave={(template) =>
+          saveRecurring([...(book.recurring ?? []), template])
+        }
+      />
+      <EntryHistoryDialog
+        entry={historyEntry}
+        onOpenChange={(open) => {
+          if (!open) setHistoryEntryId(null);
+        }}
+        accounts={book.accounts}
+        currentUserId={user?.id}
+        canWrite={canWrite}
+        loadHistory={loadEntryHistory}
+        onRestore={restoreRevision}
+      />
+      <EntryConflictDialog
+        conflict={conflict}
+        accounts={book.accounts}
+        baseCurrency={book.defaultCurrency}
+        exchangeRates={book.exchangeRates}
+        onResolve={(resolution) => void resolveConflict(resolution)}
       />
 
       <section className='grid gap-3 md:grid-cols-3'>
@@ -192,6 +413,34 @@ export default function Records() {
         <SummaryCard title={t.records.balance} value={summary.netChange} />
       </section>
 
+      {upcoming.length > 0 ? (
+        <section className='bg-card rounded-xs border p-3 shadow-sm'>
+          <div className='flex items-center justify-between'>
+            <h2 className='text-foreground text-xs font-semibold'>
+              {t.recurring.upcoming}
+            </h2>
+            {canWrite && dueOccurrences.length > 0 ? (
+              <Button size='xs' variant='outline' onClick={handlePostDue}>
+                {t.recurring.postDue} ({dueCount})
+              </Button>
+            ) : null}
+          </div>
+          <div className='mt-3 space-y-2'>
+            {upcoming.map((row) => (
+              <UpcomingItem
+                key={row.templateId}
+                row={row}
+                canWrite={canWrite}
+                onPost={handlePostOccurrence}
+                onSkip={handleSkipOccurrence}
+                onEdit={handleEditOccurrence}
+                onStop={handleStopRecurring}
+              />
+            ))}
+          </div>
+        </section>
+      ) : null}
+
       <section className='bg-card rounded-xs border p-3 shadow-sm'>
         <div className='flex items-center justify-between'>
           <h2 className='text-foreground text-xs font-semibold'>
@@ -205,7 +454,18 @@ export default function Records() {
         <div className='mt-3 space-y-2'>
           {entries.length === 0
             ? createEmptyState(t.records.noEntries)
-            : entries.map((entry) => <EntryItem key={entry.id} entry={entry} categoryLabels={categoryLabels} />)}
+            : entries.map((entry) => (
+                <EntryItem
+                  key={entry.id}
+                  entry={entry}
+                  categoryLabels={categoryLabels}
+                  canWrite={canWrite}
+                  onEdit={handleEdit}
+                  onDelete={handleDelete}
+                  onHistory={setHistoryEntryId}
+                  onRepeat={setRepeatEntryId}
+                />
+              ))}
         </div>
       </section>
     </main>
@@ -216,10 +476,21 @@ export default function Records() {
 const EntryItem = memo(function EntryItem({
   entry,
   categoryLabels,
+  canWrite,
+  onEdit,
+  onDelete,
+  onHistory,
+  onRepeat,
 }: {
   entry: ReturnType<typeof buildEntryRows>[number];
   categoryLabels: Record<string, string>;
+  canWrite: boolean;
+  onEdit: (entryId: string) => void;
+  onDelete: (entryId: string) => void;
+  onHistory: (entryId: string) => void;
+  onRepeat: (entryId: string) => void;
 }) {
+  const { t } = useI18n();
   return (
     <div className='flex flex-col gap-2 rounded-xs border px-3 py-2 md:flex-row md:items-start md:justify-between'>
       <div className='space-y-1'>
@@ -227,9 +498,12 @@ const EntryItem = memo(function EntryItem({
           <span className='text-foreground text-xs font-medium'>
             {entry.description}
           </span>
-          <Badge variant='outline'>
-            {categoryLabels[entry.category]}
-          </Badge>
+          <Badge variant='outline'>{categoryLabels[entry.category]}</Badge>
+          {entry.locked ? (
+            <Badge variant='secondary' title={t.closing.lockedHint}>
+              {t.closing.locked}
+            </Badge>
+          ) : null}
         </div>
         <p className='text-muted-foreground text-xs'>
           {entry.date}
@@ -266,6 +540,111 @@ const EntryItem = memo(function EntryItem({
             ))}
           </div>
         ) : null}
+        <div className='flex items-center gap-1'>
+          <Button size='xs' variant='ghost' onClick={() => onHistory(entry.id)}>
+            {t.history.button}
+          </Button>
+          {canWrite ? (
+            <Button
+              size='xs'
+              variant='ghost'
+              onClick={() => onRepeat(entry.id)}>
+              {t.recurring.button}
+            </Button>
+          ) : null}
+          {canWrite && !entry.locked ? (
+            <Button
+              size='xs'
+              variant='outline'
+              onClick={() => onEdit(entry.id)}>
+              {t.common.edit}
+            </Button>
+          ) : null}
+          {canWrite && !entry.locked ? (
+            <ConfirmPopover
+              title={t.records.deleteEntryConfirm}
+              confirmText={t.common.delete}
+              cancelText={t.common.cancel}
+              onConfirm={() => onDelete(entry.id)}>
+              <Button size='xs' variant='ghost'>
+                {t.common.delete}
+              </Button>
+            </ConfirmPopover>
+          ) : null}
+        </div>
+      </div>
+    </div>
+  );
+});
+
+const UpcomingItem = memo(function UpcomingItem({
+  row,
+  canWrite,
+  onPost,
+  onSkip,
+  onEdit,
+  onStop,
+}: {
+  row: UpcomingRow;
+  canWrite: boolean;
+  onPost: (row: UpcomingRow) => void;
+  onSkip: (row: UpcomingRow) => void;
+  onEdit: (row: UpcomingRow) => void;
+  onStop: (templateId: string) => void;
+}) {
+  const { t } = useI18n();
+  return (
+    <div className='flex flex-col gap-2 rounded-xs border px-3 py-2 md:flex-row md:items-center md:justify-between'>
+      <div className='space-y-1'>
+        <div className='flex items-center gap-2'>
+          <span className='text-foreground text-xs font-medium'>
+            {row.name}
+          </span>
+          {row.due ? (
+            <Badge variant='destructive'>
+              {t.recurring.due}
+              {row.dueDates.length > 1 ? ` × ${row.dueDates.length}` : ""}
+            </Badge>
+          ) : null}
+        </div>
+        <p className='text-muted-foreground text-xs'>
+          {row.date} · {row.description}
+        </p>
+      </div>
+      <div className='flex items-center gap-2'>
+        <span
+          className={cn(
+            "text-xs font-semibold",
+            row.category === "expense"
+              ? "text-destructive"
+              : row.category === "income"
+                ? "text-emerald-600"
+                : "text-foreground",
+          )}>
+          {row.formattedAmount}
+        </span>
+        {canWrite ? (
+          <div className='flex items-center gap-1'>
+            <Button size='xs' variant='outline' onClick={() => onPost(row)}>
+              {t.recurring.postNow}
+            </Button>
+            <Button size='xs' variant='ghost' onClick={() => onSkip(row)}>
+              {t.recurring.skip}
+            </Button>
+            <Button size='xs' variant='ghost' onClick={() => onEdit(row)}>
+              {t.common.edit}
+            </Button>
+            <ConfirmPopover
+              title={t.recurring.stopConfirm}
+              confirmText={t.recurring.stop}
+              cancelText={t.common.cancel}
+              onConfirm={() => onStop(row.templateId)}>
+              <Button size='xs' variant='ghost'>
+                {t.recurring.stop}
+              </Button>
+            </ConfirmPopover>
+          </div>
+        ) : null}
       </div>
     </div>
   );
@@ -0,0 +1,727 @@
+import { memo, useMemo, useState } from "react";
+import { useI18n } from "~/lib/i18n";
+import {
+  buildActivityRows,
+  buildBalanceSheetView,
+  buildCashFlowView,
+  buildIncomeStatementView,
+  buildRealizedGainsView,
+  type CashFlowSectionView,
+  type RealizedGainsView,
+  type StatementRow,
+  type StatementSection,
+} from "~/lib/accounting/view";
+import {
+  isMissingExchangeRateError,
+  type MissingExchangeRateError,
+} from "~/lib/double-entry/currency";
+import { getPeriodRange } from "~/lib/double-entry/report";
+import { AccountType, type DateRange } from "~/lib/double-entry/types";
+import { useBookData } from "~/lib/accounting/use-book";
+import { useAuth } from "~/lib/firebase/auth-context";
+import { AccountActivityDialog } from "~/components/accounting/account-activity-dialog";
+import { PerformancePanel } from "~/components/accounting/performance-panel";
+import { Button } from "~/components/ui/button";
+import { cn } from "~/lib/utils";
+import { BookSelector } from "~/components/book-selector";
+
+export function meta() {
+  return [
+    { title: "Reports" },
+    {
+      name: "description",
+      content: "Income statement, balance sheet and cash flow",
+    },
+  ];
+}
+
+type ReportTab = "income" | "balance" | "cashFlow" | "realized" | "performance";
+type RangePreset = "month" | "quarter" | "year" | "lastYear";
+
+const PRESETS: RangePreset[] = ["month", "quarter", "year", "lastYear"];
+const TABS: ReportTab[] = [
+  "income",
+  "balance",
+  "cashFlow",
+  "realized",
+  "performance",
+];
+
+const inputClassName =
+  "border-input bg-background h-8 rounded-xs border px-2 text-xs";
+
+function getPresetRange(preset: RangePreset, now = new Date()): DateRange {
+  const year = now.getFullYear();
+  const month = now.getMonth() + 1;
+  switch (preset) {
+    case "month":
+      return getPeriodRange(year, "month", month);
+    case "quarter":
+      return getPeriodRange(year, "quarter", Math.ceil(month / 3));
+    case "year":
+      return getPeriodRange(year, "year");
+    case "lastYear":
+      return getPeriodRange(year - 1, "year");
+  }
+}
+
+// 缺少汇率时报表无法折算为本位币，返回错误由页面提示
+function buildReport<T>(build: () => T): {
+  view: T | null;
+  missingRate: MissingExchangeRateError | null;
+} {
+  try {
+    return { view: build(), missingRate: null };
+  } catch (error) {
+    if (isMissingExchangeRateError(error)) {
+      return { view: null, missingRate: error };
+    }
+    throw error;
+  }
+}
+
+function addDays(date: string, days: number): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().split("T")[0];
+}
+
+export default function Reports() {
+  const { t } = useI18n();
+  const { user } = useAuth();
+  const {
+    book,
+    books,
+    invites,
+    selectedBookId,
+    selectBook,
+    createBook,
+    sendInvite,
+    acceptInvite,
+    isLoading,
+    error,
+  } = useBookData();
+  const [tab, setTab] = useState<ReportTab>("income");
+  const [range, setRange] = useState<DateRange>(() => getPresetRange("month"));
+  const [dates, setDates] = useState<[string, string]>(() => {
+    const today = new Date().toISOString().split("T")[0];
+    return [`${Number(today.slice(0, 4)) - 1}-12-31`, today];
+  });
+  const [year, setYear] = useState(() => new Date().getFullYear());
+  // 已收起的账户路径
+  const [collapsed, setCollapsed] = useState<Set<string>>(() => new Set());
+  const [drillDown, setDrillDown] = useState<{
+    accountId: string;
+    path: string;
+    range: DateRange;
+  } | null>(null);
+
+  const [earlier, later] = dates[0] <= dates[1] ? dates : [dates[1], dates[0]];
+  const income = useMemo(
+    () =>
+      book ? buildReport(() => buildIncomeStatementView(book, range)) : null,
+    [book, range],
+  );
+  const balance = useMemo(
+    () =>
+      book
+        ? buildReport(() => buildBalanceSheetView(book, [earlier, later]))
+        : null,
+    [book, earlier, later],
+  );
+  const cashFlow = useMemo(
+    () =>
+      book && tab === "cashFlow"
+        ? buildReport(() => buildCashFlowView(book, range))
+        : null,
+    [book, range, tab],
+  );
+  const realizedView = useMemo(
+    () =>
+      book && tab === "realized" ? buildRealizedGainsView(book, year) : null,
+    [book, year, tab],
+  );
+  const activity = useMemo(
+    () =>
+      book && drillDown
+        ? buildReport(() =>
+            buildActivityRows(book, drillDown.accountId, drillDown.range),
+          )
+        : null,
+    [book, drillDown],
+  );
+
+  if (isLoading) {
+    return (
+      <main className='page-area my-2'>
+        <div className='text-muted-foreground flex h-40 items-center justify-center border border-dashed text-sm'>
+          {t.common.loading}
+        </div>
+      </main>
+    );
+  }
+
+  if (!book || !income || !balance) {
+    return (
+      <main className='page-area my-2 space-y-3'>
+        <BookSelector
+          books={books}
+          invites={invites}
+          selectedBookId={selectedBookId}
+          canManage={!!user}
+          onSelect={selectBook}
+          onCreateBook={createBook}
+          onInvite={sendInvite}
+          onAcceptInvite={acceptInvite}
+        />
+        <div className='rounded-xs border border-dashed p-4 text-sm'>
+          <p className='text-foreground font-medium'>{t.books.emptyTitle}</p>
+          <p className='text-muted-foreground mt-1 text-xs'>
+            {t.books.emptyDescription}
+          </p>
+        </div>
+        {error ? (
+          <div className='border-destructive/50 bg-destructive/5 text-destructive rounded-xs border px-3 py-2 text-xs'>
+            {error}
+          </div>
+        ) : null}
+      </main>
+    );
+  }
+
+  const typeLabels = {
+    [AccountType.ASSETS]: t.assets.types.assets,
+    [AccountType.LIABILITIES]: t.assets.types.liabilities,
+    [AccountType.EQUITY]: t.assets.types.equity,
+    [AccountType.INCOME]: t.assets.types.income,
+    [AccountType.EXPENSES]: t.assets.types.expenses,
+  };
+  const tabLabels: Record<ReportTab, string> = {
+    income: t.reports.incomeStatement,
+    balance: t.reports.balanceSheet,
+    cashFlow: t.reports.cashFlow,
+    realized: t.reports.realizedGains,
+    performance: t.performance.title,
+  };
+  const presetLabels: Record<RangePreset, string> = {
+    month: t.reports.thisMonth,
+    quarter: t.reports.thisQuarter,
+    year: t.reports.thisYear,
+    lastYear: t.reports.lastYear,
+  };
+
+  const incomeView = income.view;
+  const balanceView = balance.view;
+  const cashFlowView = cashFlow?.view ?? null;
+  const tabReport =
+    tab === "income"
+      ? income
+      : tab === "balance"
+        ? balance
+        : tab === "cashFlow"
+          ? cashFlow
+          : null;
+  const missingRate = tabReport?.missingRate ?? activity?.missingRate;
+
+  const toggleCollapsed = (path: string) => {
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (next.has(path)) {
+        next.delete(path);
+      } else {
+        next.add(path);
+      }
+      return next;
+    });
+  };
+
+  // 利润表下钻到当前期间；资产负债表下钻到两个日期之间的变化
+  const handleSelect = (row: StatementRow) => {
+    setDrillDown({
+      accountId: row.id,
+      path: row.path,
+      range:
+        tab === "income" ? range : { start: addDays(earlier, 1), end: later },
+    });
+  };
+
+  return (
+    <main className='page-area space-y-4 py-4'>
+      <header className='flex flex-wrap items-center justify-between gap-3'>
+        <div className='space-y-1'>
+          <p className='text-muted-foreground text-[10px] tracking-[0.2em] uppercase'>
+            {t.reports.title}
+          </p>
+          <h1 className='text-foreground text-lg font-semibold'>
+            {t.nav.reports}
+          </h1>
+          <p className='text-muted-foreground text-xs'>
+            {t.reports.baseCurrencyHint} ({book.defaultCurrency})
+          </p>
+          <BookSelector
+            books={books}
+            invites={invites}
+            selectedBookId={selectedBookId}
+            canManage={!!user}
+            onSelect={selectBook}
+            onCreateBook={createBook}
+            onInvite={sendInvite}
+            onAcceptInvite={acceptInvite}
+          />
+        </div>
+        <div className='flex items-center gap-2'>
+          {TABS.map((item) => (
+            <Button
+              key={item}
+              variant={tab === item ? "default" : "outline"}
+              onClick={() => setTab(item)}>
+              {tabLabels[item]}
+            </Button>
+          ))}
+        </div>
+      </header>
+      {error ? (
+        <div className='border-destructive/50 bg-destructive/5 text-destructive rounded-xs border px-3 py-2 text-xs'>
+          {error}
+        </div>
+      ) : null}
+      {missingRate ? (
+        <div className='border-destructive/50 bg-destructive/5 text-destructive rounded-xs border px-3 py-2 text-xs'>
+          {t.reports.missingRate}: {missingRate.from}/{missingRate.to}
+        </div>
+      ) : null}
+
+      {tab === "performance" ? (
+        <PerformancePanel book={book} />
+      ) : tab === "realized" ? (
+        <section className='space-y-3'>
+          <div className='flex flex-wrap items-center gap-2 text-xs'>
+            <label className='text-muted-foreground'>{t.reports.year}</label>
+            <select
+              value={year}
+              onChange={(e) => setYear(Number(e.target.value))}
+              className={inputClassName}>
+              {[...new Set([year, ...(realizedView?.years ?? [])])]
+                .sort((a, b) => b - a)
+                .map((item) => (
+                  <option key={item} value={item}>
+                    {item}
+                  </option>
+                ))}
+            </select>
+          </div>
+          {realizedView ? <RealizedGainsTable view={realizedView} /> : null}
+        </section>
+      ) : tab !== "balance" ? (
+        <section className='space-y-3'>
+          <div className='flex flex-wrap items-center gap-2 text-xs'>
+            {PRESETS.map((preset) => (
+              <Button
+                key={preset}
+                variant='ghost'
+                size='xs'
+                onClick={() => setRange(getPresetRange(preset))}>
+                {presetLabels[preset]}
+              </Button>
+            ))}
+            <label className='text-muted-foreground'>{t.reports.from}</label>
+            <input
+              type='date'
+              value={range.start}
+              onChange={(e) =>
+                e.target.value &&
+                setRange((prev) => ({ ...prev, start: e.target.value }))
+              }
+              className={inputClassName}
+            />
+            <label className='text-muted-foreground'>{t.reports.to}</label>
+            <input
+              type='date'
+              value={range.end}
+              onChange={(e) =>
+                e.target.value &&
+                setRange((prev) => ({ ...prev, end: e.target.value }))
+              }
+              className={inputClassName}
+            />
+          </div>
+          {tab === "income" && incomeView ? (
+            <>
+              {incomeView.sections.map((section) => (
+                <StatementTable
+                  key={section.type}
+                  title={typeLabels[section.type]}
+                  section={section}
+                  headers={[t.reports.amount]}
+                  totalLabel={t.reports.total}
+                  collapseLabels={[t.reports.collapse, t.reports.expand]}
+                  collapsed={collapsed}
+                  onToggle={toggleCollapsed}
+                  onSelect={handleSelect}
+                />
+              ))}
+              <div className='bg-card flex items-center justify-between rounded-xs border px-3 py-2 text-xs font-semibold shadow-sm'>
+                <span>
+                  {incomeView.isLoss ? t.reports.netLoss : t.reports.netIncome}
+                </span>
+                <span className={cn(incomeView.isLoss && "text-destructive")}>
+                  {incomeView.netIncome}
+                </span>
+              </div>
+            </>
+          ) : cashFlowView ? (
+            <>
+              {cashFlowView.sections.map((section) => (
+                <CashFlowTable
+                  key={section.activity}
+                  title={t.reports[section.activity]}
+                  section={section}
+                  totalLabel={t.reports.total}
+                  emptyLabel={t.reports.noCashFlow}
+                />
+              ))}
+              <div className='bg-card space-y-1 rounded-xs border px-3 py-2 text-xs shadow-sm'>
+                <SummaryLine
+                  label={t.reports.openingCash}
+                  value={cashFlowView.openingCash}
+                />
+                <SummaryLine
+                  label={t.reports.netCashChange}
+                  value={cashFlowView.netChange}
+                />
+                {cashFlowView.exchangeEffect ? (
+                  <SummaryLine
+                    label={t.reports.exchangeEffect}
+                    value={cashFlowView.exchangeEffect}
+                  />
+                ) : null}
+                <SummaryLine
+                  label={t.reports.closingCash}
+                  value={cashFlowView.closingCash}
+                  strong
+                />
+              </div>
+            </>
+          ) : null}
+        </section>
+      ) : (
+        <section className='space-y-3'>
+          <div className='flex flex-wrap items-center gap-2 text-xs'>
+            <label className='text-muted-foreground'>
+              {t.reports.compareDate}
+            </label>
+            <input
+              type='date'
+              value={dates[0]}
+              onChange={(e) =>
+                e.target.value && setDates([e.target.value, dates[1]])
+              }
+              className={inputClassName}
+            />
+            <span className='text-muted-foreground'>→</span>
+            <input
+              type='date'
+              value={dates[1]}
+              onChange={(e) =>
+                e.target.value && setDates([dates[0], e.target.value])
+              }
+              className={inputClassName}
+            />
+          </div>
+          {balanceView?.sections.map((section) => (
+            <StatementTable
+              key={section.type}
+              title={typeLabels[section.type]}
+              section={section}
+              headers={[earlier, later, t.reports.change]}
+              totalLabel={t.reports.total}
+              totalDelta={balanceView.totalDeltas[section.type]}
+              collapseLabels={[t.reports.collapse, t.reports.expand]}
+              extraRow={
+                section.type === AccountType.EQUITY
+                  ? {
+                      label: t.reports.retainedEarnings,
+                      amounts: balanceView.retainedEarnings,
+                      delta: balanceView.retainedEarningsDelta,
+                    }
+                  : undefined
+              }
+              collapsed={collapsed}
+              onToggle={toggleCollapsed}
+              onSelect={handleSelect}
+            />
+          ))}
+        </section>
+      )}
+
+      <AccountActivityDialog
+        open={drillDown !== null}
+        onOpenChange={(open) => {
+          if (!open) setDrillDown(null);
+        }}
+        title={drillDown?.path ?? ""}
+        range={drillDown?.range ?? null}
+        rows={activity?.view ?? []}
+      />
+    </main>
+  );
+}
+
+// 报表分组：账户行可展开 / 收起子账户，点击名称查看明细
+const StatementTable = memo(function StatementTable({
+  title,
+  section,
+  headers,
+  totalLabel,
+  totalDelta,
+  extraRow,
+  collapseLabels,
+  collapsed,
+  onToggle,
+  onSelect,
+}: {
+  title: string;
+  section: StatementSection;
+  headers: string[];
+  totalLabel: string;
+  totalDelta?: string;
+  /** 不对应账户的附加行（如未结转收支） */
+  extraRow?: { label: string; amounts: string[]; delta: string };
+  /** [收起, 展开] */
+  collapseLabels: [string, string];
+  collapsed: Set<string>;
+  onToggle: (path: string) => void;
+  onSelect: (row: StatementRow) => void;
+}) {
+  const visibleRows = section.rows.filter(
+    (row) =>
+      !Array.from(collapsed).some((path) => row.path.startsWith(`${path}:`)),
+  );
+
+  return (
+    <div className='bg-card rounded-xs border p-3 text-xs shadow-sm'>
+      <div className='text-muted-foreground flex items-center gap-2 border-b pb-1.5 text-[10px]'>
+        <h2 className='text-foreground flex-1 text-xs font-semibold'>
+          {title}
+        </h2>
+        {headers.map((header) => (
+          <span key={header} className='w-28 text-right'>
+            {header}
+          </span>
+        ))}
+      </div>
+      <div className='mt-1'>
+        {visibleRows.map((row) => (
+          <div
+            key={row.id}
+            className={cn(
+              "flex items-center gap-2 rounded-xs px-1 py-1",
+              row.level === 0 && "font-medium",
+            )}>
+            <div
+              className='flex min-w-0 flex-1 items-center gap-1'
+              style={{ paddingLeft: row.level * 14 }}>
+              {row.hasChildren ? (
+                <button
+                  type='button'
+                  className='text-muted-foreground w-3 shrink-0'
+                  title={
+                    collapsed.has(row.path)
+                      ? collapseLabels[1]
+                      : collapseLabels[0]
+                  }
+                  onClick={() => onToggle(row.path)}>
+                  {collapsed.has(row.path) ? "▸" : "▾"}
+                </button>
+              ) : (
+                <span className='w-3 shrink-0' />
+              )}
+              <button
+                type='button'
+                className='truncate text-left hover:underline'
+                onClick={() => onSelect(row)}>
+                {row.name}
+              </button>
+            </div>
+            {row.amounts.map((amount, index) => (
+              <span key={index} className='w-28 text-right'>
+                {amount}
+              </span>
+            ))}
+            {row.delta !== undefined ? (
+              <span
+                className={cn(
+                  "w-28 text-right",
+                  (row.deltaAmount ?? 0) < 0 && "text-destructive",
+                )}>
+                {row.delta}
+              </span>
+            ) : null}
+          </div>
+        ))}
+        {extraRow ? (
+          <div className='text-muted-foreground flex items-center gap-2 px-1 py-1'>
+            <span className='flex-1 pl-4'>{extraRow.label}</span>
+            {extraRow.amounts.map((amount, index) => (
+              <span key={index} className='w-28 text-right'>
+                {amount}
+              </span>
+            ))}
+            <span className='w-28 text-right'>{extraRow.delta}</span>
+          </div>
+        ) : null}
+      </div>
+      <div className='mt-1 flex items-center gap-2 border-t px-1 pt-1.5 font-semibold'>
+        <span className='flex-1'>{totalLabel}</span>
+        {section.totals.map((total, index) => (
+          <span key={index} className='w-28 text-right'>
+            {total}
+          </span>
+        ))}
+        {totalDelta !== undefined ? (
+          <span className='w-28 text-right'>{totalDelta}</span>
+        ) : null}
+      </div>
+    </div>
+  );
+});
+
+// 现金流量：按对方账户列出流入（正）和流出（负）
+const CashFlowTable = memo(function CashFlowTable({
+  title,
+  section,
+  totalLabel,
+  emptyLabel,
+}: {
+  title: string;
+  section: CashFlowSectionView;
+  totalLabel: string;
+  emptyLabel: string;
+}) {
+  return (
+    <div className='bg-card rounded-xs border p-3 text-xs shadow-sm'>
+      <h2 className='text-foreground border-b pb-1.5 font-semibold'>{title}</h2>
+      <div className='mt-1'>
+        {section.rows.map((row) => (
+          <div key={row.id} className='flex items-center gap-2 px-1 py-1'>
+            <span className='min-w-0 flex-1 truncate'>{row.path}</span>
+            <span
+              className={cn(
+                "w-28 text-right",
+                row.amount < 0 && "text-destructive",
+              )}>
+              {row.formattedAmount}
+            </span>
+          </div>
+        ))}
+        {section.rows.length === 0 ? (
+          <p className='text-muted-foreground px-1 py-1'>{emptyLabel}</p>
+        ) : null}
+      </div>
+      <div className='mt-1 flex items-center gap-2 border-t px-1 pt-1.5 font-semibold'>
+        <span className='flex-1'>{totalLabel}</span>
+        <span className='w-28 text-right'>{section.total}</span>
+      </div>
+    </div>
+  );
+});
+
+// 已实现盈亏：按品种、持有期分行，按币种合计
+const RealizedGainsTable = memo(function RealizedGainsTable({
+  view,
+}: {
+  view: RealizedGainsView;
+}) {
+  const { t } = useI18n();
+  const periodLabels = { short: t.reports.shortTerm, long: t.reports.longTerm };
+  return (
+    <div className='bg-card overflow-x-auto rounded-xs border p-3 text-xs shadow-sm'>
+      <table className='w-full'>
+        <thead className='text-muted-foreground'>
+          <tr className='border-b'>
+            <th className='px-1 py-1.5 text-left font-medium'>
+              {t.holdings.symbol}
+            </th>
+            <th className='px-1 py-1.5 text-left font-medium'>
+              {t.reports.holdingPeriod}
+            </th>
+            <th className='px-1 py-1.5 text-right font-medium'>
+              {t.holdings.quantity}
+            </th>
+            <th className='px-1 py-1.5 text-right font-medium'>
+              {t.holdings.proceeds}
+            </th>
+            <th className='px-1 py-1.5 text-right font-medium'>
+              {t.holdings.costBasis}
+            </th>
+            <th className='px-1 py-1.5 text-right font-medium'>
+              {t.holdings.realized}
+            </th>
+          </tr>
+        </thead>
+        <tbody>
+          {view.rows.map((row) => (
+            <tr key={row.key}>
+              <td className='px-1 py-1 font-medium'>{row.symbol}</td>
+              <td className='px-1 py-1'>{periodLabels[row.period]}</td>
+              <td className='px-1 py-1 text-right'>{row.quantity}</td>
+              <td className='px-1 py-1 text-right'>{row.proceeds}</td>
+              <td className='px-1 py-1 text-right'>{row.cost}</td>
+              <td
+                className={cn(
+                  "px-1 py-1 text-right",
+                  row.isLoss && "text-destructive",
+                )}>
+                {row.gain}
+              </td>
+            </tr>
+          ))}
+          {view.rows.length === 0 ? (
+            <tr>
+              <td className='text-muted-foreground px-1 py-1' colSpan={6}>
+                {t.reports.noRealizedGains}
+              </td>
+            </tr>
+          ) : null}
+          {view.totals.map((total) => (
+            <tr key={total.currency} className='border-t font-semibold'>
+              <td className='px-1 pt-1.5' colSpan={3}>
+                {t.reports.total} ({total.currency})
+              </td>
+              <td className='px-1 pt-1.5 text-right'>{total.proceeds}</td>
+              <td className='px-1 pt-1.5 text-right'>{total.cost}</td>
+              <td
+                className={cn(
+                  "px-1 pt-1.5 text-right",
+                  total.isLoss && "text-destructive",
+                )}>
+                {total.gain}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+});
+
+const SummaryLine = memo(function SummaryLine({
+  label,
+  value,
+  strong,
+}: {
+  label: string;
+  value: string;
+  strong?: boolean;
+}) {
+  return (
+    <div
+      className={cn(
+        "flex items-center justify-between",
+        strong ? "font-semibold" : "text-muted-foreground",
+      )}>
+      <span>{label}</span>
+      <span>{value}</span>
+    </div>
+  );
+});